@@ -0,0 +1,691 @@
+/**
+ * In-memory stand-ins for the Apps Script globals used by src/*.gs.
+ *
+ * Only the methods the services actually call are implemented. Behaviour
+ * follows Apps Script where it matters to the chatbot: numeric strings
+ * written to a sheet come back as numbers unless the column is formatted
+ * as text ('@'), missing properties are null, cache entries expire after
+ * their TTL, and UrlFetchApp throws on HTTP errors unless muteHttpExceptions
+ * is set.
+ */
+
+import { createHmac, randomUUID } from 'node:crypto';
+
+export type CellValue = string | number | boolean | Date | null;
+
+const NUMERIC = /^-?\d+(\.\d+)?$/;
+
+export class FakeRange {
+  constructor(
+    private readonly sheet: FakeSheet,
+    readonly row: number,
+    readonly column: number,
+    readonly numRows: number,
+    readonly numColumns: number
+  ) {}
+
+  getValues(): CellValue[][] {
+    return Array.from({ length: this.numRows }, (_, r) =>
+      Array.from({ length: this.numColumns }, (_, c) => this.sheet.read(this.row + r, this.column + c))
+    );
+  }
+
+  getValue(): CellValue {
+    return this.sheet.read(this.row, this.column);
+  }
+
+  setValues(values: CellValue[][]): FakeRange {
+    if (values.length !== this.numRows) {
+      throw new Error(`The number of rows in the data does not match the number of rows in the range. The data has ${values.length} but the range has ${this.numRows}.`);
+    }
+    values.forEach((rowValues, r) => {
+      if (rowValues.length !== this.numColumns) {
+        throw new Error(`The number of columns in the data does not match the number of columns in the range. The data has ${rowValues.length} but the range has ${this.numColumns}.`);
+      }
+      rowValues.forEach((value, c) => this.sheet.write(this.row + r, this.column + c, value));
+    });
+    return this;
+  }
+
+  setValue(value: CellValue): FakeRange {
+    this.sheet.write(this.row, this.column, value);
+    return this;
+  }
+
+  clearContent(): FakeRange {
+    for (let r = 0; r < this.numRows; r++) {
+      for (let c = 0; c < this.numColumns; c++) {
+        this.sheet.write(this.row + r, this.column + c, '');
+      }
+    }
+    return this;
+  }
+
+  /** Formats are tracked per column, which is all the services need */
+  setNumberFormat(format: string): FakeRange {
+    for (let c = 0; c < this.numColumns; c++) {
+      this.sheet.setColumnFormat(this.column + c, format);
+    }
+    return this;
+  }
+
+  // Cosmetic calls made while setting up sheets
+  setBackground(): FakeRange { return this; }
+  setFontColor(): FakeRange { return this; }
+  setFontWeight(): FakeRange { return this; }
+}
+
+export class FakeSheet {
+  private readonly rows: CellValue[][] = [];
+  private readonly columnFormats = new Map<number, string>();
+
+  constructor(private readonly name: string) {}
+
+  getName(): string {
+    return this.name;
+  }
+
+  /**
+   * getRange(row, column, numRows?, numColumns?) or A1 notation
+   * ("A1", "A1:C3", "A:A").
+   */
+  getRange(rowOrA1: number | string, column?: number, numRows = 1, numColumns = 1): FakeRange {
+    if (typeof rowOrA1 === 'string') {
+      return this.getA1Range(rowOrA1);
+    }
+    if (column === undefined) {
+      throw new Error('getRange(row) needs a column');
+    }
+    if (rowOrA1 < 1 || column < 1 || numRows < 1 || numColumns < 1) {
+      throw new Error(`Invalid range ${rowOrA1},${column},${numRows},${numColumns}`);
+    }
+    return new FakeRange(this, rowOrA1, column, numRows, numColumns);
+  }
+
+  getDataRange(): FakeRange {
+    return new FakeRange(this, 1, 1, Math.max(1, this.getLastRow()), Math.max(1, this.getLastColumn()));
+  }
+
+  getLastRow(): number {
+    for (let r = this.rows.length; r > 0; r--) {
+      if (this.rows[r - 1]?.some(value => value !== '' && value !== null && value !== undefined)) {
+        return r;
+      }
+    }
+    return 0;
+  }
+
+  getLastColumn(): number {
+    let last = 0;
+    this.rows.forEach(row => {
+      row?.forEach((value, c) => {
+        if (value !== '' && value !== null && value !== undefined) {
+          last = Math.max(last, c + 1);
+        }
+      });
+    });
+    return last;
+  }
+
+  deleteRow(row: number): FakeSheet {
+    if (row < 1 || row > this.getLastRow()) {
+      throw new Error(`Those rows are out of bounds. (${row})`);
+    }
+    this.rows.splice(row - 1, 1);
+    return this;
+  }
+
+  appendRow(values: CellValue[]): FakeSheet {
+    const row = this.getLastRow() + 1;
+    values.forEach((value, c) => this.write(row, c + 1, value));
+    return this;
+  }
+
+  autoResizeColumns(): FakeSheet {
+    return this;
+  }
+
+  /** Every row, header included, as plain arrays for assertions */
+  dump(): CellValue[][] {
+    return this.getDataRange().getValues();
+  }
+
+  read(row: number, column: number): CellValue {
+    const value = this.rows[row - 1]?.[column - 1];
+    return value === undefined || value === null ? '' : value;
+  }
+
+  write(row: number, column: number, value: CellValue): void {
+    const cells = this.rows[row - 1] ?? (this.rows[row - 1] = []);
+    cells[column - 1] = this.coerce(column, value);
+  }
+
+  setColumnFormat(column: number, format: string): void {
+    this.columnFormats.set(column, format);
+  }
+
+  private coerce(column: number, value: CellValue): CellValue {
+    if (value === null || value === undefined) {
+      return '';
+    }
+    if (typeof value === 'string' && this.columnFormats.get(column) !== '@' && NUMERIC.test(value)) {
+      return Number(value);
+    }
+    return value;
+  }
+
+  private getA1Range(a1: string): FakeRange {
+    const match = /^([A-Z]+)(\d*)(?::([A-Z]+)(\d*))?$/.exec(a1.toUpperCase());
+    if (!match) {
+      throw new Error(`Range not found: ${a1}`);
+    }
+    const [, startCol, startRow, endCol = startCol, endRow = startRow] = match;
+    const firstRow = startRow ? Number(startRow) : 1;
+    // Whole-column ranges cover the rows in use, never fewer than one
+    const lastRow = endRow ? Number(endRow) : Math.max(1, this.getLastRow());
+    const first = columnNumber(startCol);
+    return new FakeRange(this, firstRow, first, lastRow - firstRow + 1, columnNumber(endCol) - first + 1);
+  }
+}
+
+function columnNumber(letters: string): number {
+  return [...letters].reduce((total, letter) => total * 26 + letter.charCodeAt(0) - 64, 0);
+}
+
+export class FakeSpreadsheet {
+  private readonly sheets = new Map<string, FakeSheet>();
+
+  constructor(private readonly id: string) {}
+
+  getId(): string {
+    return this.id;
+  }
+
+  getName(): string {
+    return 'Chatbot Configuration and Logs';
+  }
+
+  getSheetByName(name: string): FakeSheet | null {
+    return this.sheets.get(name) ?? null;
+  }
+
+  getSheets(): FakeSheet[] {
+    return [...this.sheets.values()];
+  }
+
+  insertSheet(name: string): FakeSheet {
+    if (this.sheets.has(name)) {
+      throw new Error(`A sheet with the name "${name}" already exists.`);
+    }
+    const sheet = new FakeSheet(name);
+    this.sheets.set(name, sheet);
+    return sheet;
+  }
+  deleteSheet(sheet: FakeSheet): void {
+    this.sheets.delete(sheet.getName());
+  }
+}
+
+export class FakeProperties {
+  private readonly values = new Map<string, string>();
+
+  constructor(initial: Record<string, string> = {}) {
+    this.setProperties(initial);
+  }
+
+  getProperty(key: string): string | null {
+    return this.values.get(key) ?? null;
+  }
+
+  setProperty(key: string, value: unknown): FakeProperties {
+    this.values.set(key, String(value));
+    return this;
+  }
+
+  setProperties(properties: Record<string, unknown>, deleteAllOthers = false): FakeProperties {
+    if (deleteAllOthers) {
+      this.values.clear();
+    }
+    Object.entries(properties).forEach(([key, value]) => this.setProperty(key, value));
+    return this;
+  }
+
+  getProperties(): Record<string, string> {
+    return Object.fromEntries(this.values);
+  }
+
+  getKeys(): string[] {
+    return [...this.values.keys()];
+  }
+
+  deleteProperty(key: string): FakeProperties {
+    this.values.delete(key);
+    return this;
+  }
+
+  deleteAllProperties(): FakeProperties {
+    this.values.clear();
+    return this;
+  }
+}
+
+/** Apps Script passes binary data around as strings or arrays of signed bytes */
+type BinaryData = string | number[];
+
+const toBuffer = (data: BinaryData) => typeof data === 'string' ? Buffer.from(data, 'utf8') : Buffer.from(data.map(byte => byte & 0xff));
+
+const toSignedBytes = (buffer: Buffer) => [...buffer].map(byte => byte > 127 ? byte - 256 : byte);
+
+/** CacheService's hard limit on expirationInSeconds */
+const MAX_CACHE_TTL_SECONDS = 21600;
+
+export class FakeCache {
+  private readonly entries = new Map<string, { value: string; expiresAt: number }>();
+
+  constructor(private readonly clock: () => number) {}
+
+  get(key: string): string | null {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt <= this.clock()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  getAll(keys: string[]): Record<string, string> {
+    return Object.fromEntries(keys.flatMap(key => {
+      const value = this.get(key);
+      return value === null ? [] : [[key, value]];
+    }));
+  }
+
+  put(key: string, value: unknown, expirationInSeconds = 600): void {
+    if (expirationInSeconds > MAX_CACHE_TTL_SECONDS) {
+      throw new Error(`Argument too large: expirationInSeconds (${expirationInSeconds})`);
+    }
+    this.entries.set(key, { value: String(value), expiresAt: this.clock() + expirationInSeconds * 1000 });
+  }
+
+  putAll(values: Record<string, unknown>, expirationInSeconds?: number): void {
+    Object.entries(values).forEach(([key, value]) => this.put(key, value, expirationInSeconds));
+  }
+
+  remove(key: string): void {
+    this.entries.delete(key);
+  }
+
+  removeAll(keys: string[]): void {
+    keys.forEach(key => this.entries.delete(key));
+  }
+
+  /** Keys that have not expired yet, for assertions */
+  keys(): string[] {
+    return [...this.entries.keys()].filter(key => this.get(key) !== null);
+  }
+}
+
+/**
+ * LockService.getScriptLock(). Executions here never overlap, so the lock can
+ * only be taken already by a caller that nested or leaked it, or by a test
+ * standing in for another execution.
+ */
+export class FakeLockService {
+  holder: FakeLock | null = null;
+  /** Times the script lock was acquired, for assertions */
+  acquisitions = 0;
+
+  getScriptLock(): FakeLock {
+    return new FakeLock(this);
+  }
+}
+
+export class FakeLock {
+  constructor(private readonly service: FakeLockService) {}
+
+  tryLock(): boolean {
+    if (this.service.holder && this.service.holder !== this) {
+      return false;
+    }
+    if (this.service.holder !== this) {
+      this.service.holder = this;
+      this.service.acquisitions++;
+    }
+    return true;
+  }
+
+  waitLock(timeoutInMillis: number): void {
+    if (!this.tryLock()) {
+      throw new Error(`Lock timeout: another process was holding the lock for too long (waited ${timeoutInMillis} ms).`);
+    }
+  }
+
+  hasLock(): boolean {
+    return this.service.holder === this;
+  }
+
+  releaseLock(): void {
+    if (this.service.holder === this) {
+      this.service.holder = null;
+    }
+  }
+}
+
+/** A time-driven trigger created through ScriptApp.newTrigger() */
+export class FakeTrigger {
+  private static nextId = 1;
+  readonly id = String(FakeTrigger.nextId++);
+
+  constructor(private readonly handler: string, readonly everyMinutes: number) {}
+
+  getUniqueId(): string {
+    return this.id;
+  }
+
+  getHandlerFunction(): string {
+    return this.handler;
+  }
+
+  getEventType(): string {
+    return 'CLOCK';
+  }
+}
+
+const DATE_PATTERN_TOKENS = /'[^']*'|y+|M+|d+|H+|m+|s+|S+|u|E+|Z|X+/g;
+
+/**
+ * Utilities.formatDate for the SimpleDateFormat letters the services use
+ * (y M d H m s S u E Z X and 'quoted' text). Unknown time zones fall back
+ * to GMT like Apps Script does.
+ */
+export function formatDate(date: Date, timeZone: string, pattern: string): string {
+  let formatter: Intl.DateTimeFormat;
+  try {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      weekday: 'short',
+      timeZoneName: 'longOffset'
+    });
+  } catch {
+    return formatDate(date, 'UTC', pattern);
+  }
+
+  const parts = Object.fromEntries(formatter.formatToParts(date).map(part => [part.type, part.value]));
+  // longOffset reads "GMT-03:00", or plain "GMT" at UTC
+  const offset = parts.timeZoneName.replace('GMT', '') || '+00:00';
+  const weekdays = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+  return pattern.replace(DATE_PATTERN_TOKENS, token => {
+    switch (token[0]) {
+      case "'": return token.slice(1, -1);
+      case 'y': return token.length === 2 ? parts.year.slice(-2) : parts.year;
+      case 'M': return parts.month;
+      case 'd': return parts.day;
+      case 'H': return parts.hour;
+      case 'm': return parts.minute;
+      case 's': return parts.second;
+      case 'S': return String(date.getUTCMilliseconds()).padStart(3, '0');
+      case 'u': return String(weekdays.indexOf(parts.weekday) + 1);
+      case 'E': return parts.weekday;
+      case 'Z': return offset.replace(':', '');
+      default: return offset;
+    }
+  });
+}
+
+export interface FetchRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  /** Raw payload as passed to UrlFetchApp.fetch */
+  payload: string;
+}
+
+export interface FetchReply {
+  status?: number;
+  /** Objects are sent as JSON, strings as-is */
+  body: unknown;
+}
+
+/** Returns a reply for requests it handles, undefined to let the next responder try */
+export type FetchResponder = (request: FetchRequest) => FetchReply | undefined;
+
+export class FakeHTTPResponse {
+  constructor(private readonly status: number, private readonly text: string) {}
+
+  getResponseCode(): number {
+    return this.status;
+  }
+
+  getContentText(): string {
+    return this.text;
+  }
+
+  getHeaders(): Record<string, string> {
+    return { 'Content-Type': 'application/json' };
+  }
+}
+
+interface FetchParams {
+  method?: string;
+  headers?: Record<string, string>;
+  payload?: string | Record<string, unknown>;
+  muteHttpExceptions?: boolean;
+}
+
+export class FakeTextOutput {
+  private mimeType = 'TEXT';
+
+  constructor(private content: string) {}
+
+  getContent(): string {
+    return this.content;
+  }
+
+  setContent(content: string): FakeTextOutput {
+    this.content = content;
+    return this;
+  }
+
+  getMimeType(): string {
+    return this.mimeType;
+  }
+
+  setMimeType(mimeType: string): FakeTextOutput {
+    this.mimeType = mimeType;
+    return this;
+  }
+}
+
+export interface AppsScriptEnvironmentOptions {
+  spreadsheetId?: string;
+  /** Script properties; SPREADSHEET_ID is filled in from spreadsheetId */
+  properties?: Record<string, string>;
+  /** Tried in order for every UrlFetchApp.fetch call */
+  responders?: FetchResponder[];
+  /** Echo Logger.log and console output to the host console */
+  echoLogs?: boolean;
+  /** Current time in ms for cache expiry (default Date.now) */
+  clock?: () => number;
+  /** Session.getScriptTimeZone() (default: the host time zone) */
+  timeZone?: string;
+}
+
+export interface AppsScriptEnvironment {
+  spreadsheet: FakeSpreadsheet;
+  properties: FakeProperties;
+  /** CacheService.getScriptCache() */
+  cache: FakeCache;
+  /** LockService, whose script lock the services take around shared writes */
+  locks: FakeLockService;
+  /** Installed time-driven triggers */
+  triggers: FakeTrigger[];
+  responders: FetchResponder[];
+  /** Every UrlFetchApp.fetch call, in order */
+  requests: FetchRequest[];
+  /** Logger.log and console lines, in order */
+  logs: string[];
+  /** Globals to install in the script context */
+  globals: Record<string, unknown>;
+}
+
+export function createAppsScriptEnvironment(options: AppsScriptEnvironmentOptions = {}): AppsScriptEnvironment {
+  const spreadsheetId = options.spreadsheetId ?? 'mock-spreadsheet';
+  const spreadsheet = new FakeSpreadsheet(spreadsheetId);
+  const properties = new FakeProperties({ SPREADSHEET_ID: spreadsheetId, ...options.properties });
+  const cache = new FakeCache(options.clock ?? Date.now);
+  const locks = new FakeLockService();
+  const triggers: FakeTrigger[] = [];
+  const responders = [...(options.responders ?? [])];
+  const requests: FetchRequest[] = [];
+  const logs: string[] = [];
+
+  const record = (level: string) => (...args: unknown[]) => {
+    const line = args.map(arg => typeof arg === 'string' ? arg : JSON.stringify(arg)).join(' ');
+    logs.push(level === 'log' ? line : `[${level}] ${line}`);
+    if (options.echoLogs) {
+      console.log(`[gs] ${line}`);
+    }
+  };
+
+  const SpreadsheetApp = {
+    openById(id: string) {
+      if (id !== spreadsheetId) {
+        throw new Error(`Unexpected error while getting the method or property openById on object SpreadsheetApp. (${id})`);
+      }
+      return spreadsheet;
+    }
+  };
+
+  const PropertiesService = {
+    getScriptProperties: () => properties
+  };
+
+  const CacheService = {
+    getScriptCache: () => cache
+  };
+
+  const LockService = {
+    getScriptLock: () => locks.getScriptLock()
+  };
+
+  const ScriptApp = {
+    getProjectTriggers: () => [...triggers],
+    newTrigger(handler: string) {
+      let minutes = 0;
+      const builder = {
+        timeBased: () => builder,
+        everyMinutes(n: number) {
+          minutes = n;
+          return builder;
+        },
+        everyHours(n: number) {
+          minutes = n * 60;
+          return builder;
+        },
+        create() {
+          if (!minutes) {
+            throw new Error('The trigger needs a schedule before create()');
+          }
+          const trigger = new FakeTrigger(handler, minutes);
+          triggers.push(trigger);
+          return trigger;
+        }
+      };
+      return builder;
+    },
+    deleteTrigger(trigger: FakeTrigger) {
+      const index = triggers.indexOf(trigger);
+      if (index >= 0) {
+        triggers.splice(index, 1);
+      }
+    }
+  };
+
+  const UrlFetchApp = {
+    fetch(url: string, params: FetchParams = {}) {
+      const request: FetchRequest = {
+        url,
+        method: (params.method ?? 'GET').toUpperCase(),
+        headers: params.headers ?? {},
+        payload: typeof params.payload === 'string' ? params.payload : JSON.stringify(params.payload ?? '')
+      };
+      requests.push(request);
+
+      const reply = responders.reduce<FetchReply | undefined>((found, responder) => found ?? responder(request), undefined);
+      if (!reply) {
+        throw new Error(`DNS error: ${url} (no fake responder handles ${request.method} ${url})`);
+      }
+
+      const status = reply.status ?? 200;
+      const text = typeof reply.body === 'string' ? reply.body : JSON.stringify(reply.body);
+      if (status >= 400 && !params.muteHttpExceptions) {
+        throw new Error(`Request failed for ${url} returned code ${status}. Truncated server response: ${text.slice(0, 100)}`);
+      }
+      return new FakeHTTPResponse(status, text);
+    }
+  };
+
+  const Utilities = {
+    formatDate,
+    getUuid: () => randomUUID(),
+    computeHmacSha256Signature: (value: BinaryData, key: BinaryData) =>
+      toSignedBytes(createHmac('sha256', toBuffer(key)).update(toBuffer(value)).digest()),
+    // Apps Script keeps the = padding in web-safe base64
+    base64EncodeWebSafe: (data: BinaryData) => toBuffer(data).toString('base64').replace(/\+/g, '-').replace(/\//g, '_'),
+    base64DecodeWebSafe: (encoded: string) => toSignedBytes(Buffer.from(encoded, 'base64url')),
+    newBlob: (data: BinaryData) => ({
+      getBytes: () => toSignedBytes(toBuffer(data)),
+      getDataAsString: () => toBuffer(data).toString('utf8')
+    })
+  };
+
+  const Session = {
+    getScriptTimeZone: () => options.timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone
+  };
+
+  const ContentService = {
+    MimeType: { JSON: 'JSON', TEXT: 'TEXT', JAVASCRIPT: 'JAVASCRIPT' },
+    createTextOutput: (content = '') => new FakeTextOutput(content)
+  };
+
+  const Logger = {
+    log: record('log'),
+    getLog: () => logs.join('\n'),
+    clear: () => { logs.length = 0; }
+  };
+
+  return {
+    spreadsheet,
+    properties,
+    cache,
+    locks,
+    triggers,
+    responders,
+    requests,
+    logs,
+    globals: {
+      SpreadsheetApp,
+      PropertiesService,
+      CacheService,
+      LockService,
+      ScriptApp,
+      UrlFetchApp,
+      Utilities,
+      Session,
+      ContentService,
+      Logger,
+      console: { log: record('log'), info: record('info'), warn: record('warn'), error: record('error') }
+    }
+  };
+}
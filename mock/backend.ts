@@ -0,0 +1,134 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import vm from 'node:vm';
+import {
+  AppsScriptEnvironment,
+  AppsScriptEnvironmentOptions,
+  FakeTextOutput,
+  createAppsScriptEnvironment
+} from './appsScript';
+import { SAMPLE_ML_DATA, defaultResponders } from './responders';
+
+/**
+ * Runs the unmodified src/*.gs files in a Node vm context on top of the
+ * in-memory Apps Script globals, so the chatbot can be exercised locally
+ * and from tests.
+ */
+
+export interface MockBackendOptions extends Omit<AppsScriptEnvironmentOptions, 'clock'> {
+  /** Directory holding the .gs files (default: src next to this folder) */
+  sourceDir?: string;
+  /** Run initializeSystem() so the sheets exist with their sample rows (default true) */
+  initialize?: boolean;
+  /** Freeze the scripts' clock (`new Date()`, `Date.now()`) at this time */
+  now?: Date | string;
+}
+
+export interface MockBackend {
+  env: AppsScriptEnvironment;
+  /** Read a top-level binding from the scripts, e.g. global<typeof x>('MenuService') */
+  global<T = unknown>(name: string): T;
+  handleChatbotRequest(params: Record<string, unknown>): Record<string, unknown>;
+  /** Mirror of a web app GET: returns the JSON text the deployment would send */
+  doGet(parameter: Record<string, string>): string;
+  /** Mirror of a web app POST with the given body, content type and query parameters */
+  doPost(contents: string, type?: string, parameter?: Record<string, string>): string;
+  /** Freeze the scripts' clock at a time, or pass null to follow the real clock */
+  setNow(now: Date | string | null): void;
+  /** Re-read the .gs files, keeping sheets and properties */
+  reload(): void;
+}
+
+/** Script properties that make every service think it is configured */
+export const MOCK_PROPERTIES: Record<string, string> = {
+  ADMIN_API_KEY: 'local-admin',
+  AGENT_API_KEY: 'local-agent',
+  VIEWER_API_KEY: 'local-viewer',
+  GEMINI_API_KEY: 'mock-gemini-key',
+  CLAUDE_API_KEY: 'mock-claude-key',
+  ML_CLIENT_ID: 'mock-client-id',
+  ML_CLIENT_SECRET: 'mock-client-secret',
+  ML_ACCESS_TOKEN: 'APP_USR-mock-token',
+  ML_ACCESS_TOKEN_FECHA_EXPIRA: '2999-01-01T00:00:00.000Z',
+  ML_REFRESH_TOKEN: 'TG-mock-refresh',
+  ML_USER_ID: SAMPLE_ML_DATA.userId
+};
+
+const DEFAULT_SOURCE_DIR = fileURLToPath(new URL('../src', import.meta.url));
+
+export function createMockBackend(options: MockBackendOptions = {}): MockBackend {
+  let frozenAt: number | null = options.now ? new Date(options.now).getTime() : null;
+  const clock = () => frozenAt ?? Date.now();
+
+  const env = createAppsScriptEnvironment({
+    ...options,
+    properties: { ...MOCK_PROPERTIES, ...options.properties },
+    responders: options.responders ?? defaultResponders(),
+    clock
+  });
+  const sourceDir = options.sourceDir ?? DEFAULT_SOURCE_DIR;
+
+  let context = loadScripts(sourceDir, env, clock);
+
+  const global = <T>(name: string): T => vm.runInContext(name, context) as T;
+
+  const call = <T>(name: string, ...args: unknown[]): T => global<(...a: unknown[]) => T>(name)(...args);
+
+  // Values cross back through JSON so callers get plain host-realm objects
+  const output = (result: FakeTextOutput) => result.getContent();
+
+  if (options.initialize !== false) {
+    call('initializeSystem');
+  }
+
+  return {
+    env,
+    global,
+    handleChatbotRequest: params => JSON.parse(JSON.stringify(call('handleChatbotRequest', params))),
+    doGet: parameter => output(call('doGet', { parameter, parameters: {} })),
+    doPost: (contents, type = 'text/plain', parameter = {}) =>
+      output(call('doPost', { parameter, postData: { type, contents, length: contents.length } })),
+    setNow(now) {
+      frozenAt = now === null ? null : new Date(now).getTime();
+    },
+    reload() {
+      context = loadScripts(sourceDir, env, clock);
+    }
+  };
+}
+
+// Replaces the context's Date so argument-less construction reads the mock clock
+const CLOCK_PRELUDE = `
+(() => {
+  const RealDate = Date;
+  class ScriptDate extends RealDate {
+    constructor(...args) {
+      if (args.length === 0) {
+        super(__mockClock());
+      } else {
+        super(...args);
+      }
+    }
+    static now() {
+      return __mockClock();
+    }
+  }
+  globalThis.Date = ScriptDate;
+})();
+`;
+
+function loadScripts(sourceDir: string, env: AppsScriptEnvironment, clock: () => number): vm.Context {
+  const context = vm.createContext({ ...env.globals, __mockClock: clock });
+  vm.runInContext(CLOCK_PRELUDE, context, { filename: 'mock-clock.js' });
+
+  readdirSync(sourceDir)
+    .filter(file => file.endsWith('.gs'))
+    .sort()
+    .forEach(file => {
+      const filename = join(sourceDir, file);
+      new vm.Script(readFileSync(filename, 'utf8'), { filename }).runInContext(context);
+    });
+
+  return context;
+}
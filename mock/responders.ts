@@ -0,0 +1,287 @@
+import type { FetchReply, FetchRequest, FetchResponder } from './appsScript';
+
+/**
+ * Fake HTTP backends for UrlFetchApp. Each responder only answers requests
+ * to its own host, so they can be combined in any order and swapped out in
+ * tests (e.g. a Gemini responder that always fails).
+ */
+
+/** Builds the reply text from the latest user turn AIService sent */
+export type ReplyBuilder = (prompt: string, request: FetchRequest) => string;
+
+const defaultReply = (provider: string): ReplyBuilder => prompt =>
+  `Respuesta simulada de ${provider} para: "${prompt}". Configura una API key real para obtener respuestas generadas.`;
+
+const parseJson = (payload: string): Record<string, unknown> => {
+  try {
+    return JSON.parse(payload);
+  } catch {
+    return {};
+  }
+};
+
+export function geminiResponder(reply: ReplyBuilder = defaultReply('Gemini')): FetchResponder {
+  return request => {
+    if (!request.url.startsWith('https://generativelanguage.googleapis.com/')) return undefined;
+
+    const body = parseJson(request.payload) as { contents?: { parts?: { text?: string }[] }[]; systemInstruction?: unknown };
+    // Like the real API, Gemini 1.0 does not take system instructions
+    if (request.url.includes('/models/gemini-pro:') && body.systemInstruction) {
+      return { status: 400, body: { error: { code: 400, message: 'Developer instruction is not enabled for models/gemini-pro', status: 'INVALID_ARGUMENT' } } };
+    }
+    const prompt = body.contents?.[body.contents.length - 1]?.parts?.[0]?.text ?? '';
+    return { body: { candidates: [{ content: { parts: [{ text: reply(prompt, request) }] } }] } };
+  };
+}
+
+export function claudeResponder(reply: ReplyBuilder = defaultReply('Claude')): FetchResponder {
+  return request => {
+    if (!request.url.startsWith('https://api.anthropic.com/')) return undefined;
+
+    const body = parseJson(request.payload) as { messages?: { content?: string }[] };
+    const prompt = body.messages?.[body.messages.length - 1]?.content ?? '';
+    return { body: { content: [{ type: 'text', text: reply(prompt, request) }] } };
+  };
+}
+
+/** A responder for one host that always fails, for testing fallbacks */
+export function failingResponder(host: string, status = 503): FetchResponder {
+  return request => request.url.includes(host)
+    ? { status, body: { error: { message: 'Service unavailable (mock)' } } }
+    : undefined;
+}
+
+export interface MercadoLibreFixtures {
+  userId: string;
+  orders: Record<string, unknown>[];
+  shipments: Record<string, unknown>[];
+  items: Record<string, unknown>[];
+}
+
+const SAMPLE_BUYER = { id: 987654321, nickname: 'COMPRADOR_TEST', email: 'cliente@example.com' };
+
+export const SAMPLE_ML_DATA: MercadoLibreFixtures = {
+  userId: '123456789',
+  orders: [
+    {
+      id: 2000001234567890,
+      status: 'paid',
+      total_amount: 15999,
+      currency_id: 'ARS',
+      date_created: '2024-01-10T14:22:00.000-03:00',
+      date_closed: '2024-01-10T14:23:05.000-03:00',
+      buyer: SAMPLE_BUYER,
+      order_items: [{ item: { id: 'MLA987654321', title: 'Remera Deportiva Dry-Fit' }, quantity: 1, unit_price: 15999 }],
+      payments: [{ id: 71234567890, status: 'approved', date_created: '2024-01-10T14:22:30.000-03:00', date_approved: '2024-01-10T14:23:05.000-03:00' }],
+      shipping: { id: 41234567890 }
+    },
+    {
+      id: 2000009876543210,
+      status: 'cancelled',
+      total_amount: 4500,
+      currency_id: 'ARS',
+      date_created: '2024-01-05T09:10:00.000-03:00',
+      date_closed: '2024-01-05T09:40:00.000-03:00',
+      buyer: SAMPLE_BUYER,
+      order_items: [{ item: { id: 'MLA555555555', title: 'Medias Running x3' }, quantity: 1, unit_price: 4500 }],
+      payments: [{ id: 71234567891, status: 'rejected', status_detail: 'cc_rejected_insufficient_amount', date_created: '2024-01-05T09:11:00.000-03:00', date_last_modified: '2024-01-05T09:11:20.000-03:00' }],
+      shipping: { id: 41234567891 }
+    }
+  ],
+  shipments: [
+    {
+      id: 41234567890,
+      status: 'shipped',
+      substatus: 'out_for_delivery',
+      tracking_number: 'AR1234567890',
+      tracking_method: 'Correo Argentino',
+      shipping_option: { name: 'Estándar a domicilio', estimated_delivery_time: { date: '2024-01-16T00:00:00.000-03:00' } },
+      status_history: {
+        date_handling: '2024-01-10T15:00:00.000-03:00',
+        date_ready_to_ship: '2024-01-11T09:30:00.000-03:00',
+        date_shipped: '2024-01-11T16:45:00.000-03:00'
+      }
+    },
+    { id: 41234567891, status: 'cancelled', status_history: { date_cancelled: '2024-01-05T09:40:00.000-03:00' } }
+  ],
+  items: [
+    {
+      id: 'MLA123456789',
+      site_id: 'MLA',
+      seller_id: 123456789,
+      title: 'Zapatillas Running Pro',
+      price: 89999,
+      currency_id: 'ARS',
+      available_quantity: 12,
+      condition: 'new',
+      permalink: 'https://articulo.mercadolibre.com.ar/MLA-123456789-zapatillas-running-pro-_JM',
+      thumbnail: 'http://http2.mlstatic.com/D_123456-MLA-I.jpg',
+      variations: [
+        { id: 1801, price: 89999, available_quantity: 8, attribute_combinations: [{ name: 'Talle', value_name: '41' }, { name: 'Color', value_name: 'Negro' }] },
+        { id: 1802, price: 92999, available_quantity: 4, attribute_combinations: [{ name: 'Talle', value_name: '42' }, { name: 'Color', value_name: 'Negro' }] },
+        { id: 1803, price: 89999, available_quantity: 0, attribute_combinations: [{ name: 'Talle', value_name: '43' }, { name: 'Color', value_name: 'Azul' }] }
+      ]
+    },
+    {
+      id: 'MLA987654321',
+      site_id: 'MLA',
+      seller_id: 123456789,
+      title: 'Remera Deportiva Dry-Fit',
+      price: 15999,
+      currency_id: 'ARS',
+      available_quantity: 0,
+      condition: 'new',
+      permalink: 'https://articulo.mercadolibre.com.ar/MLA-987654321-remera-deportiva-dry-fit-_JM',
+      thumbnail: 'http://http2.mlstatic.com/D_987654-MLA-I.jpg'
+    },
+    {
+      id: 'MLA444444444',
+      site_id: 'MLA',
+      seller_id: 555000111,
+      title: 'Zapatillas Running Económicas',
+      price: 35000,
+      currency_id: 'ARS',
+      available_quantity: 30,
+      condition: 'new'
+    },
+    {
+      id: 'MLM123456789',
+      site_id: 'MLM',
+      seller_id: 123456789,
+      title: 'Tenis para Correr Pro',
+      price: 1299,
+      currency_id: 'MXN',
+      available_quantity: 5,
+      condition: 'new',
+      permalink: 'https://articulo.mercadolibre.com.mx/MLM-123456789-tenis-para-correr-pro-_JM'
+    },
+    {
+      id: 'MLB123456789',
+      site_id: 'MLB',
+      seller_id: 123456789,
+      title: 'Tênis de Corrida Pro',
+      price: 349.9,
+      currency_id: 'BRL',
+      available_quantity: 7,
+      condition: 'used'
+    }
+  ]
+};
+
+const notFound = (what: string): FetchReply => ({ status: 404, body: { message: `${what} not found`, error: 'not_found', status: 404 } });
+
+export function mercadoLibreResponder(fixtures: MercadoLibreFixtures = SAMPLE_ML_DATA): FetchResponder {
+  return request => {
+    if (!request.url.startsWith('https://api.mercadolibre.com/')) return undefined;
+
+    const url = new URL(request.url);
+    const path = url.pathname;
+
+    if (path === '/oauth/token' && request.method === 'POST') {
+      return { body: { access_token: `APP_USR-mock-${Date.now()}`, token_type: 'bearer', expires_in: 21600, refresh_token: 'TG-mock-refresh' } };
+    }
+
+    if (path === '/orders/search/recent') {
+      const { searchParams } = url;
+      const status = searchParams.get('order.status');
+      const buyerId = searchParams.get('buyer');
+      const text = searchParams.get('q')?.toLowerCase();
+      const limit = Number(searchParams.get('limit')) || 50;
+      const buyerOf = (order: Record<string, unknown>) => (order.buyer ?? {}) as { id?: number; nickname?: string };
+      const results = fixtures.orders
+        .filter(order => !status || order.status === status)
+        .filter(order => !buyerId || String(buyerOf(order).id) === buyerId)
+        .filter(order => !text || String(buyerOf(order).nickname).toLowerCase() === text || String(order.id) === text)
+        .sort((a, b) => searchParams.get('sort') === 'date_desc' ? String(b.date_created).localeCompare(String(a.date_created)) : 0);
+      return { body: { results: results.slice(0, limit), paging: { total: results.length, offset: 0, limit } } };
+    }
+
+    const shipment = /^\/shipments\/(\d+)$/.exec(path);
+    if (shipment) {
+      const found = fixtures.shipments.find(s => String(s.id) === shipment[1]);
+      return found ? { body: found } : notFound(`Shipment ${shipment[1]}`);
+    }
+
+    const order = /^\/orders\/(\d+)$/.exec(path);
+    if (order) {
+      const found = fixtures.orders.find(o => String(o.id) === order[1]);
+      return found ? { body: found } : notFound(`Order ${order[1]}`);
+    }
+
+    const item = /^\/items\/([A-Z]+\d+)$/i.exec(path);
+    if (item) {
+      const found = fixtures.items.find(i => String(i.id).toUpperCase() === item[1].toUpperCase());
+      return found ? { body: found } : notFound(`Item ${item[1]}`);
+    }
+
+    const search = /^\/sites\/([A-Z]{3})\/search$/.exec(path);
+    if (search) {
+      const sellerId = url.searchParams.get('seller_id');
+      const words = (url.searchParams.get('q') ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+      const limit = Number(url.searchParams.get('limit') ?? 50);
+      const results = fixtures.items
+        .filter(i => i.site_id === search[1])
+        .filter(i => !sellerId || String(i.seller_id) === sellerId)
+        .filter(i => words.every(word => String(i.title).toLowerCase().includes(word)));
+      return { body: { site_id: search[1], query: url.searchParams.get('q'), paging: { total: results.length, offset: 0, limit }, results: results.slice(0, limit) } };
+    }
+
+    const user = /^\/users\/(\d+)$/.exec(path);
+    if (user) {
+      return user[1] === fixtures.userId
+        ? { body: { id: Number(fixtures.userId), nickname: 'TIENDA_MOCK', site_id: 'MLA' } }
+        : notFound(`User ${user[1]}`);
+    }
+
+    return notFound(`Resource ${path}`);
+  };
+}
+
+/** WhatsApp Cloud API: accepts any message sent with a bearer token */
+export function whatsAppResponder(): FetchResponder {
+  let sent = 0;
+
+  return request => {
+    if (!request.url.startsWith('https://graph.facebook.com/')) return undefined;
+
+    if (!/^Bearer \S+$/.test(request.headers.Authorization ?? '')) {
+      return { status: 401, body: { error: { message: 'Invalid OAuth access token (mock)', type: 'OAuthException', code: 190 } } };
+    }
+    if (!/\/\d+\/messages$/.test(new URL(request.url).pathname)) {
+      return { status: 400, body: { error: { message: 'Unsupported post request (mock)', code: 100 } } };
+    }
+
+    const body = parseJson(request.payload) as { to?: string };
+    return { body: { messaging_product: 'whatsapp', contacts: [{ input: body.to, wa_id: body.to }], messages: [{ id: `wamid.mock${++sent}` }] } };
+  };
+}
+
+/** Telegram Bot API: answers the methods ChannelService calls */
+export function telegramResponder(): FetchResponder {
+  let sent = 0;
+
+  return request => {
+    if (!request.url.startsWith('https://api.telegram.org/')) return undefined;
+
+    const method = /^\/bot[^/]+\/(\w+)$/.exec(new URL(request.url).pathname)?.[1];
+    const body = parseJson(request.payload) as { chat_id?: string | number; text?: string; url?: string };
+
+    switch (method) {
+      case 'sendMessage':
+        return { body: { ok: true, result: { message_id: ++sent, chat: { id: Number(body.chat_id) }, date: Math.floor(Date.now() / 1000), text: body.text } } };
+      case 'answerCallbackQuery':
+        return { body: { ok: true, result: true } };
+      case 'setWebhook':
+        return String(body.url).startsWith('https://')
+          ? { body: { ok: true, result: true, description: 'Webhook was set' } }
+          : { status: 400, body: { ok: false, error_code: 400, description: 'Bad Request: bad webhook: An HTTPS URL must be provided for webhook' } };
+      default:
+        return { status: 404, body: { ok: false, error_code: 404, description: 'Not Found' } };
+    }
+  };
+}
+
+/** Gemini, Claude, MercadoLibre with canned data, WhatsApp and Telegram */
+export function defaultResponders(): FetchResponder[] {
+  return [geminiResponder(), claudeResponder(), mercadoLibreResponder(), whatsAppResponder(), telegramResponder()];
+}
@@ -0,0 +1,72 @@
+import type { IncomingMessage } from 'node:http';
+import type { Plugin } from 'vite';
+import { MOCK_PROPERTIES, MockBackend, MockBackendOptions, createMockBackend } from './backend';
+
+export interface MockBackendPluginOptions extends MockBackendOptions {
+  /** URL path the fake web app answers on (default /mock/exec) */
+  path?: string;
+}
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<string>((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+
+/**
+ * Serves the .gs backend from the Vite dev server, so the dashboard can use
+ * `http://localhost:5173/mock/exec` as its web app URL. State lives in memory
+ * and is lost when the dev server restarts; edits to src/*.gs are picked up
+ * without losing it.
+ */
+export function mockBackendPlugin(options: MockBackendPluginOptions = {}): Plugin {
+  const path = options.path ?? '/mock/exec';
+  let backend: MockBackend | null = null;
+
+  const getBackend = () => backend ?? (backend = createMockBackend({ echoLogs: true, ...options }));
+
+  return {
+    name: 'chatbot-mock-backend',
+    apply: 'serve',
+
+    configureServer(server) {
+      server.watcher.on('change', file => {
+        if (backend && file.endsWith('.gs')) {
+          backend.reload();
+          server.config.logger.info(`mock backend reloaded ${file}`, { timestamp: true });
+        }
+      });
+
+      server.httpServer?.once('listening', () => {
+        const keys = { ...MOCK_PROPERTIES, ...options.properties };
+        server.config.logger.info(
+          `  ➜  Mock web app: ${path} (sign-in keys: admin "${keys.ADMIN_API_KEY}", agent "${keys.AGENT_API_KEY}", viewer "${keys.VIEWER_API_KEY}")`
+        );
+      });
+
+      server.middlewares.use(path, async (req, res) => {
+        let body: string;
+        try {
+          const query = Object.fromEntries(new URL(req.url ?? '/', 'http://localhost').searchParams);
+          if (req.method === 'POST') {
+            // Webhooks of the messaging channels say which channel they come from in the query
+            body = getBackend().doPost(await readBody(req), (req.headers['content-type'] ?? 'text/plain').split(';')[0], query);
+          } else {
+            body = getBackend().doGet(query);
+          }
+        } catch (error) {
+          server.config.logger.error(`mock backend: ${error instanceof Error ? error.stack : String(error)}`);
+          body = JSON.stringify({ success: false, error: 'Internal server error' });
+        }
+
+        // Apps Script answers every web app request with 200
+        res.statusCode = 200;
+        res.setHeader('Content-Type', 'application/json; charset=utf-8');
+        res.end(body);
+      });
+    }
+  };
+}
@@ -4,37 +4,371 @@
  * This service manages AI integrations:
  * - Gemini API calls with proper authentication
  * - Claude API integration via Anthropic
+ * - Multi-turn prompts built from the session transcript
+ * - Failover along the provider chain configured in Settings
+ * - Per-provider health tracking with a circuit breaker
  * - Response processing and error handling
- * - Token management and rate limiting
  */
 
 const AIService = {
   
+  // Script property holding circuit breaker state and dashboard overrides
+  HEALTH_PROPERTY: 'AI_PROVIDER_HEALTH',
+  
+  // Dashboard overrides: auto follows the circuit breaker
+  PROVIDER_MODES: ['auto', 'enabled', 'disabled'],
+  
+  // How long the trial call of a half-open circuit keeps other calls out, in case it never reports back
+  TRIAL_SECONDS: 60,
+  
   /**
-   * Generate AI response based on provider and context
-   * @param {string} provider - AI provider (gemini or claude)
-   * @param {Object} context - Query context and parameters
-   * @returns {Object} AI response object
+   * Generate AI response, failing over along the provider chain
+   * @param {string|null} provider - Preferred provider, tried first; null uses the configured chain
+   * @param {Object} context - Query context and parameters, optionally with history and summary
+   * @returns {Object} AI response object with the provider that answered, every attempt made
+   *   and the conversation context that was sent
    */
   generateResponse(provider, context) {
+    const attempts = [];
+    
     try {
-      switch (provider) {
-        case CONFIG.AI_PROVIDERS.GEMINI:
-          return this.callGemini(context);
-          
-        case CONFIG.AI_PROVIDERS.CLAUDE:
-          return this.callClaude(context);
-          
-        default:
-          throw new Error(`Unsupported AI provider: ${provider}`);
+      const chain = this.getProviderChain(provider);
+      const timeout = ConfigService.getAIConfig().timeout;
+      
+      for (const candidate of chain) {
+        const availability = this.checkAvailability(candidate);
+        if (!availability.available) {
+          attempts.push({ provider: candidate, skipped: true, reason: availability.reason });
+          continue;
+        }
+        
+        const startTime = Date.now();
+        const result = this.callProvider(candidate, context);
+        const responseTime = Date.now() - startTime;
+        
+        // UrlFetchApp has no per-request timeout, so a slow answer is still
+        // used but counts against the provider like a failed one
+        const timedOut = result.success && responseTime > timeout;
+        const error = timedOut ? `Timeout: ${responseTime} ms` : result.error;
+        
+        this.recordResult(candidate, result.success && !timedOut, responseTime, error, context.sessionId);
+        attempts.push({ provider: candidate, success: result.success, responseTime: responseTime, error: error || null });
+        
+        if (result.success) {
+          return { ...result, attempts: attempts, contextSent: this.describeContext(context) };
+        }
       }
       
+      throw new Error(chain.length > 0 ? 'All AI providers failed or are unavailable' : 'No AI provider configured');
+      
     } catch (error) {
       Logger.log(`Error generating AI response: ${error.message}`);
       return {
         success: false,
         error: error.message,
-        provider: provider
+        provider: provider,
+        attempts: attempts
+      };
+    }
+  },
+  
+  /**
+   * Call a single provider without failover
+   * @param {string} provider - AI provider (gemini or claude)
+   * @param {Object} context - Query context
+   * @returns {Object} Provider response
+   */
+  callProvider(provider, context) {
+    switch (provider) {
+      case CONFIG.AI_PROVIDERS.GEMINI:
+        return this.callGemini(context);
+        
+      case CONFIG.AI_PROVIDERS.CLAUDE:
+        return this.callClaude(context);
+        
+      default:
+        return {
+          success: false,
+          error: `Unsupported AI provider: ${provider}`,
+          provider: provider
+        };
+    }
+  },
+  
+  /**
+   * Build the ordered list of providers to try
+   * @param {string|null} preferred - Provider to put first (e.g. a menu option's aiProvider)
+   * @returns {Array} Provider names without duplicates
+   */
+  getProviderChain(preferred = null) {
+    const known = Object.values(CONFIG.AI_PROVIDERS);
+    const chain = known.includes(preferred) ? [preferred] : [];
+    
+    ConfigService.getAIConfig().providerChain.forEach(provider => {
+      if (known.includes(provider) && !chain.includes(provider)) {
+        chain.push(provider);
+      }
+    });
+    
+    return chain;
+  },
+  
+  /**
+   * Check whether a provider may be called right now
+   * @param {string} provider - AI provider
+   * @returns {Object} { available, reason }
+   */
+  checkAvailability(provider) {
+    const health = this.getProviderHealth(provider);
+    
+    if (health.mode === 'disabled') {
+      return { available: false, reason: 'disabled' };
+    }
+    
+    if (health.mode !== 'auto' || !health.openUntil) {
+      return { available: true, reason: null };
+    }
+    
+    if (Date.now() < new Date(health.openUntil).getTime()) {
+      return { available: false, reason: 'circuit_open' };
+    }
+    
+    // After the cooldown only the call that claims the trial goes through; its result closes or reopens the circuit
+    return this.updateProviderHealth(provider, current => {
+      if (!current.openUntil) {
+        return { available: true, reason: null };
+      }
+      if (Date.now() < new Date(current.openUntil).getTime()) {
+        return { available: false, reason: 'circuit_open' };
+      }
+      if (current.trialUntil && Date.now() < new Date(current.trialUntil).getTime()) {
+        return { available: false, reason: 'circuit_half_open' };
+      }
+      
+      current.trialUntil = new Date(Date.now() + this.TRIAL_SECONDS * 1000).toISOString();
+      return { available: true, reason: null };
+    });
+  },
+  
+  /**
+   * Update the circuit breaker and log the call
+   * @param {string} provider - AI provider
+   * @param {boolean} success - Whether the call succeeded in time
+   * @param {number} responseTime - Response time in milliseconds
+   * @param {string} error - Error message for failed calls
+   * @param {string} sessionId - Session that triggered the call
+   */
+  recordResult(provider, success, responseTime, error, sessionId) {
+    try {
+      const aiConfig = ConfigService.getAIConfig();
+      
+      this.updateProviderHealth(provider, health => {
+        const now = new Date();
+        health.trialUntil = null;
+        
+        if (success) {
+          health.consecutiveFailures = 0;
+          health.openUntil = null;
+          health.lastSuccessAt = now.toISOString();
+        } else {
+          health.consecutiveFailures++;
+          health.lastFailureAt = now.toISOString();
+          health.lastError = String(error || 'Unknown error').substring(0, 200);
+          
+          if (health.consecutiveFailures >= aiConfig.failureThreshold) {
+            health.openUntil = new Date(now.getTime() + aiConfig.circuitCooldown * 1000).toISOString();
+          }
+        }
+      });
+      
+    } catch (healthError) {
+      Logger.log(`Error updating ${provider} health: ${healthError.message}`);
+    }
+    
+    LoggingService.logAIPerformance(provider, responseTime, success, {
+      sessionId: sessionId,
+      error: success ? undefined : error
+    });
+  },
+  
+  /**
+   * Get the stored health record of a provider
+   * @param {string} provider - AI provider
+   * @returns {Object} Health record
+   */
+  getProviderHealth(provider) {
+    const stored = this.loadHealth()[provider] || {};
+    
+    return {
+      mode: this.PROVIDER_MODES.includes(stored.mode) ? stored.mode : 'auto',
+      consecutiveFailures: Number(stored.consecutiveFailures) || 0,
+      openUntil: stored.openUntil || null,
+      lastError: stored.lastError || null,
+      lastFailureAt: stored.lastFailureAt || null,
+      lastSuccessAt: stored.lastSuccessAt || null,
+      trialUntil: stored.trialUntil || null
+    };
+  },
+  
+  /**
+   * Change a provider's health record holding the script lock, since every
+   * provider shares one property and concurrent calls would lose updates
+   * @param {string} provider - AI provider
+   * @param {Function} change - Called with the current record to modify it in place
+   * @returns {*} What change returns
+   */
+  updateProviderHealth(provider, change) {
+    if (!Object.values(CONFIG.AI_PROVIDERS).includes(provider)) {
+      throw new Error(`Unknown AI provider: ${provider}`);
+    }
+    
+    return withScriptLock(() => {
+      const health = this.getProviderHealth(provider);
+      const result = change(health);
+      this.saveProviderHealth(provider, health);
+      return result;
+    });
+  },
+  
+  /**
+   * Persist a provider health record
+   * @param {string} provider - AI provider
+   * @param {Object} health - Health record
+   */
+  saveProviderHealth(provider, health) {
+    const all = this.loadHealth();
+    all[provider] = health;
+    PropertiesService.getScriptProperties().setProperty(this.HEALTH_PROPERTY, JSON.stringify(all));
+  },
+  
+  /**
+   * Read every provider health record
+   * @returns {Object} Health records keyed by provider
+   */
+  loadHealth() {
+    try {
+      const raw = PropertiesService.getScriptProperties().getProperty(this.HEALTH_PROPERTY);
+      return raw ? JSON.parse(raw) : {};
+    } catch (error) {
+      Logger.log(`Error reading AI provider health: ${error.message}`);
+      return {};
+    }
+  },
+  
+  /**
+   * Force a provider on or off from the dashboard, or hand it back to the circuit breaker
+   * @param {string} provider - AI provider
+   * @param {string} mode - auto, enabled or disabled
+   * @returns {Object} Health report response or validation error
+   */
+  setProviderMode(provider, mode) {
+    if (!Object.values(CONFIG.AI_PROVIDERS).includes(provider)) {
+      return {
+        success: false,
+        code: 'validation',
+        error: 'Proveedor de IA desconocido.',
+        errors: [{ index: -1, field: 'provider', message: `Unknown AI provider: ${provider}` }],
+        timestamp: new Date().toISOString()
+      };
+    }
+    
+    if (!this.PROVIDER_MODES.includes(mode)) {
+      return {
+        success: false,
+        code: 'validation',
+        error: 'Modo de proveedor inválido.',
+        errors: [{ index: -1, field: 'mode', message: `Mode must be one of: ${this.PROVIDER_MODES.join(', ')}` }],
+        timestamp: new Date().toISOString()
+      };
+    }
+    
+    this.updateProviderHealth(provider, health => {
+      health.mode = mode;
+      
+      // Going back to auto starts from a closed circuit
+      if (mode === 'auto') {
+        health.consecutiveFailures = 0;
+        health.openUntil = null;
+        health.trialUntil = null;
+      }
+    });
+    LoggingService.logInteraction('ai_provider_mode', 'admin', { message: `${provider}: ${mode}`, mode: mode });
+    
+    return this.getHealthReport();
+  },
+  
+  /**
+   * Build the provider health response for the dashboard
+   * @returns {Object} Health report with circuit state and 24 hour call stats per provider
+   */
+  getHealthReport() {
+    try {
+      const aiConfig = ConfigService.getAIConfig();
+      const properties = PropertiesService.getScriptProperties();
+      const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+      const chain = this.getProviderChain();
+      
+      const calls = LoggingService.getLogs({
+        startDate: since.toISOString(),
+        interactionType: 'ai_performance'
+      });
+      
+      const providers = Object.values(CONFIG.AI_PROVIDERS).map(provider => {
+        const health = this.getProviderHealth(provider);
+        const providerCalls = calls.filter(row => row[5] === provider);
+        const failures = providerCalls.filter(row => row[7] !== 'success').length;
+        const totalTime = providerCalls.reduce((sum, row) => sum + (Number(row[6]) || 0), 0);
+        const circuitOpen = Boolean(health.openUntil) && Date.now() < new Date(health.openUntil).getTime();
+        const configured = Boolean(properties.getProperty(`${provider.toUpperCase()}_API_KEY`));
+        
+        let status = 'healthy';
+        if (!configured) {
+          status = 'unconfigured';
+        } else if (health.mode === 'disabled') {
+          status = 'disabled';
+        } else if (circuitOpen && health.mode === 'auto') {
+          status = 'open';
+        } else if (health.consecutiveFailures > 0) {
+          status = 'degraded';
+        }
+        
+        return {
+          provider: provider,
+          status: status,
+          mode: health.mode,
+          configured: configured,
+          chainPosition: chain.indexOf(provider),
+          consecutiveFailures: health.consecutiveFailures,
+          openUntil: circuitOpen ? health.openUntil : null,
+          lastError: health.lastError,
+          lastFailureAt: health.lastFailureAt,
+          lastSuccessAt: health.lastSuccessAt,
+          stats: {
+            calls: providerCalls.length,
+            failures: failures,
+            errorRate: providerCalls.length > 0 ? Math.round((failures / providerCalls.length) * 100) : 0,
+            averageResponseTime: providerCalls.length > 0 ? Math.round(totalTime / providerCalls.length) : 0
+          }
+        };
+      });
+      
+      return {
+        success: true,
+        type: 'ai_health',
+        providers: providers,
+        chain: chain,
+        failureThreshold: aiConfig.failureThreshold,
+        circuitCooldown: aiConfig.circuitCooldown,
+        timeout: aiConfig.timeout,
+        timestamp: new Date().toISOString()
+      };
+      
+    } catch (error) {
+      Logger.log(`Error building AI health report: ${error.message}`);
+      return {
+        success: false,
+        error: 'No se pudo obtener el estado de los proveedores de IA.',
+        timestamp: new Date().toISOString()
       };
     }
   },
@@ -51,16 +385,19 @@ const AIService = {
         throw new Error('Gemini API key not configured');
       }
       
-      const endpoint = `https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent?key=${apiKey}`;
+      // gemini-pro (1.0) rejects systemInstruction with a 400; 1.5 and later take it
+      const endpoint = `https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${apiKey}`;
       
       const prompt = this.buildPrompt(context);
       
       const payload = {
-        contents: [{
-          parts: [{
-            text: prompt
-          }]
-        }],
+        systemInstruction: {
+          parts: [{ text: prompt.system }]
+        },
+        contents: prompt.messages.map(message => ({
+          role: message.role === 'assistant' ? 'model' : 'user',
+          parts: [{ text: message.content }]
+        })),
         generationConfig: {
           maxOutputTokens: context.maxTokens || 500,
           temperature: 0.7,
@@ -124,10 +461,8 @@ const AIService = {
       const payload = {
         model: 'claude-3-sonnet-20240229',
         max_tokens: context.maxTokens || 500,
-        messages: [{
-          role: 'user',
-          content: prompt
-        }]
+        system: prompt.system,
+        messages: prompt.messages
       };
       
       const options = {
@@ -169,28 +504,123 @@ const AIService = {
   },
   
   /**
-   * Build AI prompt with context and guidelines
-   * @param {Object} context - Query context
-   * @returns {string} Formatted prompt
+   * Build the system prompt and the alternating user/assistant turns for a call
+   * @param {Object} context - Query context with optional history, summary and language
+   * @returns {Object} { system, messages }
    */
   buildPrompt(context) {
-    const systemContext = `Eres un asistente de atención al cliente para una tienda en línea. 
+    const summary = context.summary
+      ? `\n    Resumen de la conversación anterior: ${context.summary}\n`
+      : '';
+    
+    // The customer's language by name, so the model answers in it whatever language the instructions are in
+    const language = context.language && I18nService.LANGUAGES[context.language]
+      ? `\n    - Responde siempre en el idioma del cliente: ${I18nService.LANGUAGES[context.language].name} (${context.language})`
+      : '';
+    
+    // Knowledge_Base entries to answer from, or the order not to invent policies when none match
+    const knowledge = context.knowledge ? KnowledgeService.formatForPrompt(context.knowledge, context.language) : '';
+    
+    const system = context.systemPrompt || `Eres un asistente de atención al cliente para una tienda en línea. 
     Tu objetivo es proporcionar respuestas útiles, precisas y amigables.
     
     Contexto específico: ${context.context || 'Consulta general de atención al cliente'}
-    
+    ${summary}${knowledge}
     Instrucciones:
     - Mantén un tono profesional pero cercano
     - Proporciona información específica y accionable
     - Si no tienes información suficiente, sugiere contactar con un agente humano
     - Mantén las respuestas concisas pero completas
     - Incluye pasos específicos cuando sea apropiado
+    - Ten en cuenta los mensajes anteriores de la conversación${language}`;
+    
+    const turns = (context.history || []).concat([{ role: 'user', content: context.userQuery }]);
+    
+    // Both APIs expect the conversation to open with the user and alternate roles
+    const messages = [];
+    turns.forEach(turn => {
+      const role = turn.role === 'assistant' ? 'assistant' : 'user';
+      const last = messages[messages.length - 1];
+      
+      if (!turn.content || (!last && role !== 'user')) {
+        return;
+      }
+      
+      if (last && last.role === role) {
+        last.content += `\n${turn.content}`;
+      } else {
+        messages.push({ role: role, content: String(turn.content) });
+      }
+    });
+    
+    return { system: system, messages: messages };
+  },
+  
+  /**
+   * Summarize what was sent to the model, for the dashboard playground
+   * @param {Object} context - Query context
+   * @returns {Object} Summary, turns and estimated token count
+   */
+  describeContext(context) {
+    const prompt = this.buildPrompt(context);
+    const tokens = prompt.messages.reduce(
+      (sum, message) => sum + this.estimateTokens(message.content),
+      this.estimateTokens(prompt.system)
+    );
+    
+    return {
+      summary: context.summary || null,
+      messages: prompt.messages,
+      historyTurns: (context.history || []).length,
+      estimatedTokens: tokens
+    };
+  },
+  
+  /**
+   * Rough token count for budgeting (about 4 characters per token)
+   * @param {string} text - Text to measure
+   * @returns {number} Estimated tokens
+   */
+  estimateTokens(text) {
+    return Math.ceil(String(text || '').length / 4);
+  },
+  
+  /**
+   * Fold older conversation turns into a running summary
+   * @param {string} previousSummary - Summary so far, or empty
+   * @param {Array} turns - Turns being dropped from the transcript
+   * @param {string} sessionId - Session identifier for logging
+   * @returns {string} Updated summary
+   */
+  summarizeConversation(previousSummary, turns, sessionId) {
+    const maxLength = ConfigService.getAIConfig().summaryMaxLength;
+    const transcript = turns
+      .map(turn => `${turn.role === 'assistant' ? 'Asistente' : 'Cliente'}: ${turn.content}`)
+      .join('\n');
     
-    Consulta del usuario: ${context.userQuery}
+    const response = this.generateResponse(null, {
+      systemPrompt: `Resume en español y en menos de ${maxLength} caracteres la conversación de atención al cliente que se te envía. ` +
+        'Conserva datos concretos como números de pedido, productos, problemas y lo que ya se le respondió al cliente. ' +
+        'Responde solo con el resumen.',
+      userQuery: previousSummary
+        ? `Resumen previo: ${previousSummary}\n\nNuevos mensajes:\n${transcript}`
+        : transcript,
+      maxTokens: 200,
+      sessionId: sessionId
+    });
+    
+    if (response.success) {
+      return response.content.substring(0, maxLength);
+    }
     
-    Respuesta:`;
+    // Without a provider, keep what the customer said; it carries most of the context
+    const customerLines = turns
+      .filter(turn => turn.role !== 'assistant')
+      .map(turn => turn.content)
+      .join(' | ');
+    const fallback = [previousSummary, customerLines].filter(Boolean).join(' | ');
     
-    return systemContext;
+    return fallback.length > maxLength ? fallback.substring(fallback.length - maxLength) : fallback;
   },
   
   /**
@@ -0,0 +1,252 @@
+/**
+ * Auth Service - Signed tokens and roles for the dashboard actions
+ * 
+ * This service handles dashboard authentication:
+ * - Login with the access key of a role (ADMIN_API_KEY, AGENT_API_KEY, VIEWER_API_KEY)
+ * - Short-lived tokens signed with HMAC-SHA256 and AUTH_TOKEN_SECRET
+ * - Role checks for the actions in CONFIG.ACTION_ROLES
+ * - Throttling of failed logins against the role keys, and a backstop on all logins together
+ * Tokens are not stored: deleting AUTH_TOKEN_SECRET signs every user out.
+ */
+
+const AuthService = {
+  
+  // In increasing order of access; each role can do everything the previous ones can
+  ROLES: ['viewer', 'agent', 'admin'],
+  
+  // Script property holding the access key of each role
+  ROLE_KEYS: {
+    admin: 'ADMIN_API_KEY',
+    agent: 'AGENT_API_KEY',
+    viewer: 'VIEWER_API_KEY'
+  },
+  
+  SECRET_PROPERTY: 'AUTH_TOKEN_SECRET',
+  
+  // Failed logins allowed per window before login is locked until the window ends. Every role
+  // shares one key, so a wrong key is a guess at all of them: failures are counted together
+  // rather than per user name or client, which callers can rotate freely.
+  LOGIN_FAILURE_LIMIT: 10,
+  LOGIN_FAILURE_WINDOW: 900,
+  
+  // Backstop on the login attempts of everyone together: bursts of LOGIN_RATE_BURST,
+  // refilled at LOGIN_RATE_LIMIT per minute
+  LOGIN_RATE_BURST: 100,
+  LOGIN_RATE_LIMIT: 60,
+  
+  /**
+   * Exchange a role's access key for a token
+   * @param {string} user - Name shown on tickets and in the logs
+   * @param {string} key - Value of ADMIN_API_KEY, AGENT_API_KEY or VIEWER_API_KEY
+   * @param {Object|null} current - authenticate() result for a token sent along; its holder already
+   *   proved a key, so the login limits don't apply to them
+   * @returns {Object} Auth response with the token, or an error
+   */
+  login(user, key, current = null) {
+    try {
+      const name = String(user || '').trim();
+      if (!name || name.length > 50) {
+        return {
+          success: false,
+          code: 'validation',
+          error: 'Ingresa tu nombre.',
+          errors: [{ index: -1, field: 'user', message: 'Enter a name of 1 to 50 characters' }],
+          timestamp: new Date().toISOString()
+        };
+      }
+      
+      const limited = !current;
+      if (limited && RateLimitService.take('bucket_login', this.LOGIN_RATE_BURST, this.LOGIN_RATE_LIMIT / 60) > 0) {
+        return this.rateLimited('Demasiados intentos de inicio de sesión. Intenta de nuevo en unos segundos.');
+      }
+      
+      const cache = CacheService.getScriptCache();
+      const failuresKey = this.windowKey('auth_failures', this.LOGIN_FAILURE_WINDOW);
+      const failures = Number(cache.get(failuresKey)) || 0;
+      
+      if (limited && failures >= this.LOGIN_FAILURE_LIMIT) {
+        return this.rateLimited('Demasiados intentos fallidos. Intenta de nuevo en unos minutos.');
+      }
+      
+      const role = this.findRole(key);
+      
+      if (!role) {
+        cache.put(failuresKey, String(failures + 1), this.LOGIN_FAILURE_WINDOW);
+        LoggingService.logInteraction('login_failed', null, { user: name, success: false });
+        return this.unauthorized();
+      }
+      
+      const ttl = ConfigService.get('auth_token_ttl', 28800);
+      const expiresAt = new Date(Date.now() + ttl * 1000);
+      const token = this.issueToken(name, role, expiresAt);
+      
+      LoggingService.logInteraction('login', null, { user: name, role: role });
+      
+      return {
+        success: true,
+        type: 'auth',
+        token: token,
+        user: name,
+        role: role,
+        expiresAt: expiresAt.toISOString(),
+        actions: this.getAllowedActions(role),
+        timestamp: new Date().toISOString()
+      };
+      
+    } catch (error) {
+      Logger.log(`Error logging in: ${error.message}`);
+      LoggingService.logError('login', error);
+      
+      return {
+        success: false,
+        error: 'No se pudo iniciar sesión.',
+        timestamp: new Date().toISOString()
+      };
+    }
+  },
+  
+  /**
+   * Role whose access key matches, checking the most privileged first
+   * @param {string} key - Access key sent by the user
+   * @returns {string|null} Role name
+   */
+  findRole(key) {
+    if (!key) {
+      return null;
+    }
+    
+    const properties = PropertiesService.getScriptProperties();
+    const role = [...this.ROLES].reverse().find(candidate => {
+      const property = this.ROLE_KEYS[candidate];
+      const expected = properties.getProperty(property);
+      // Keys still holding the setupCredentials() placeholder are public knowledge
+      return Boolean(expected) && CREDENTIAL_PLACEHOLDERS[property] !== expected && this.safeEqual(String(key), expected);
+    });
+    
+    return role || null;
+  },
+  
+  /**
+   * Sign a token for a user
+   * @param {string} user - User name
+   * @param {string} role - viewer, agent or admin
+   * @param {Date} expiresAt - Expiration
+   * @returns {string} payload.signature, both base64url
+   */
+  issueToken(user, role, expiresAt) {
+    const payload = Utilities.base64EncodeWebSafe(JSON.stringify({
+      sub: user,
+      role: role,
+      iat: Math.floor(Date.now() / 1000),
+      exp: Math.floor(expiresAt.getTime() / 1000)
+    }));
+    
+    return `${payload}.${this.sign(payload)}`;
+  },
+  
+  /**
+   * Check the token of a request
+   * @param {Object} params - Request parameters
+   * @returns {Object|null} { user, role } for a valid, unexpired token
+   */
+  authenticate(params) {
+    try {
+      const token = typeof params.token === 'string' ? params.token : '';
+      const [payload, signature] = token.split('.');
+      
+      if (!payload || !signature || !this.safeEqual(signature, this.sign(payload))) {
+        return null;
+      }
+      
+      const claims = JSON.parse(Utilities.newBlob(Utilities.base64DecodeWebSafe(payload)).getDataAsString());
+      
+      if (!this.ROLES.includes(claims.role) || !claims.exp || claims.exp * 1000 <= Date.now()) {
+        return null;
+      }
+      
+      return { user: claims.sub, role: claims.role };
+      
+    } catch (error) {
+      Logger.log(`Rejected token: ${error.message}`);
+      return null;
+    }
+  },
+  
+  /**
+   * Whether a role reaches the required one
+   */
+  hasRole(auth, required) {
+    return Boolean(auth) && this.ROLES.indexOf(auth.role) >= this.ROLES.indexOf(required);
+  },
+  
+  /**
+   * Actions of CONFIG.ACTION_ROLES a role may call, for the dashboard to hide the rest
+   */
+  getAllowedActions(role) {
+    return Object.keys(CONFIG.ACTION_ROLES).filter(action => this.hasRole({ role: role }, CONFIG.ACTION_ROLES[action]));
+  },
+  
+  /**
+   * Cache key that changes every windowSeconds, for fixed-window counters
+   */
+  windowKey(prefix, windowSeconds) {
+    return `${prefix}_${Math.floor(Date.now() / (windowSeconds * 1000))}`;
+  },
+  
+  /**
+   * HMAC-SHA256 of a value with AUTH_TOKEN_SECRET, created on first use
+   */
+  sign(value) {
+    const properties = PropertiesService.getScriptProperties();
+    let secret = properties.getProperty(this.SECRET_PROPERTY);
+    
+    if (!secret) {
+      secret = Utilities.getUuid() + Utilities.getUuid();
+      properties.setProperty(this.SECRET_PROPERTY, secret);
+    }
+    
+    return Utilities.base64EncodeWebSafe(Utilities.computeHmacSha256Signature(value, secret));
+  },
+  
+  /**
+   * Compare secrets in time independent of where they differ
+   */
+  safeEqual(a, b) {
+    if (a.length !== b.length) {
+      return false;
+    }
+    
+    let difference = 0;
+    for (let i = 0; i < a.length; i++) {
+      difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    }
+    return difference === 0;
+  },
+  
+  unauthorized() {
+    return {
+      success: false,
+      code: 'unauthorized',
+      error: 'No autorizado.',
+      timestamp: new Date().toISOString()
+    };
+  },
+  
+  forbidden() {
+    return {
+      success: false,
+      code: 'forbidden',
+      error: 'Tu rol no permite esta acción.',
+      timestamp: new Date().toISOString()
+    };
+  },
+  
+  rateLimited(error) {
+    return {
+      success: false,
+      code: 'rate_limited',
+      error: error,
+      timestamp: new Date().toISOString()
+    };
+  }
+};
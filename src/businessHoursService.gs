@@ -0,0 +1,600 @@
+/**
+ * Business Hours Service - Decides when human agents are available
+ *
+ * This service evaluates the support schedule:
+ * - Per-day shifts from the hours_mon … hours_sun settings, split shifts included
+ * - Holidays and special openings from the Holidays sheet
+ * - Wall-clock time in the configured timezone, not the script's
+ * - The next opening time, for after-hours messages
+ * - Dashboard schedule editor and "what would a customer see" simulator
+ */
+
+const BusinessHoursService = {
+  
+  // Settings keys are SETTING_PREFIX + day, e.g. hours_mon = "09:00-13:00, 14:00-18:00"
+  SETTING_PREFIX: 'hours_',
+  DAY_KEYS: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'],
+  
+  // Names for the dashboard's validation errors; customers get I18nService's hours.day_names
+  DAY_NAMES: ['domingo', 'lunes', 'martes', 'miércoles', 'jueves', 'viernes', 'sábado'],
+  
+  // Used when neither the timezone setting nor the script timezone is available
+  DEFAULT_TIMEZONE: 'America/Argentina/Buenos_Aires',
+  
+  // How far ahead getNextOpening looks before giving up
+  LOOKAHEAD_DAYS: 31,
+  
+  /**
+   * Check if the business is open at a given instant
+   * @param {Date} time - Instant to check
+   * @param {Object} businessHours - ConfigService.getBusinessHours() output
+   * @returns {boolean} True inside one of that day's shifts
+   */
+  isOpen(time, businessHours) {
+    const local = this.getLocalTime(time, businessHours.timezone);
+    
+    // Closing time itself is already closed (18:00 means open until 17:59)
+    return this.getDayShifts(local, businessHours).shifts.some(shift =>
+      local.minutes >= this.parseTime(shift.start) && local.minutes < this.parseTime(shift.end)
+    );
+  },
+  
+  /**
+   * Find when the business opens next
+   * @param {Date} time - Instant to start from
+   * @param {Object} businessHours - ConfigService.getBusinessHours() output
+   * @returns {Object|null} {at, display} or null when open now or closed for LOOKAHEAD_DAYS
+   */
+  getNextOpening(time, businessHours) {
+    try {
+      if (this.isOpen(time, businessHours)) {
+        return null;
+      }
+      
+      const local = this.getLocalTime(time, businessHours.timezone);
+      
+      for (let offset = 0; offset <= this.LOOKAHEAD_DAYS; offset++) {
+        const date = this.addDays(local.date, offset);
+        const day = { date: date, day: this.getWeekday(date) };
+        
+        const starts = this.getDayShifts(day, businessHours).shifts
+          .map(shift => this.parseTime(shift.start))
+          .filter(start => offset > 0 || start > local.minutes)
+          .sort((a, b) => a - b);
+          
+        if (starts.length > 0) {
+          return {
+            at: this.toInstant(date, starts[0], businessHours.timezone).toISOString(),
+            display: this.describeOpening(offset, day, this.formatTime(starts[0]))
+          };
+        }
+      }
+      
+      return null;
+      
+    } catch (error) {
+      Logger.log(`Error finding next opening: ${error.message}`);
+      return null;
+    }
+  },
+  
+  /**
+   * Shifts that apply on a local date: a holiday row wins over the weekly schedule
+   * @param {Object} local - {date: 'yyyy-MM-dd', day: 0-6}
+   * @param {Object} businessHours - ConfigService.getBusinessHours() output
+   * @returns {Object} {shifts, holiday} where holiday is the matching row or null
+   */
+  getDayShifts(local, businessHours) {
+    const holidays = businessHours.holidays || [];
+    const holiday = holidays.find(entry => !entry.recurring && entry.date === local.date) ||
+      holidays.find(entry => entry.recurring && entry.date.slice(5) === local.date.slice(5)) ||
+      null;
+      
+    if (holiday) {
+      return { shifts: holiday.shifts, holiday: holiday };
+    }
+    
+    const daySchedule = businessHours.schedule[local.day];
+    if (!daySchedule || !daySchedule.open) {
+      return { shifts: [], holiday: null };
+    }
+    
+    // Schedules built before split shifts only have start and end
+    return {
+      shifts: daySchedule.shifts || [{ start: daySchedule.start, end: daySchedule.end }],
+      holiday: null
+    };
+  },
+  
+  /**
+   * Wall-clock date and time of an instant in a timezone
+   * @param {Date} time - Instant
+   * @param {string} timezone - IANA timezone, defaults to the configured one
+   * @returns {Object} {date: 'yyyy-MM-dd', time: 'HH:mm', day: 0-6 (Sunday first), minutes}
+   */
+  getLocalTime(time, timezone) {
+    const formatted = Utilities.formatDate(time, timezone || this.getTimezone(), 'yyyy-MM-dd HH:mm u');
+    const [date, clock, weekday] = formatted.split(' ');
+    
+    return {
+      date: date,
+      time: clock,
+      // SimpleDateFormat's u counts Monday as 1 and Sunday as 7
+      day: Number(weekday) % 7,
+      minutes: this.parseTime(clock)
+    };
+  },
+  
+  /**
+   * Instant at which a local wall-clock time happens in a timezone
+   * @param {string} date - Local date, yyyy-MM-dd
+   * @param {number} minutes - Minutes after local midnight
+   * @param {string} timezone - IANA timezone
+   * @returns {Date} The instant
+   */
+  toInstant(date, minutes, timezone) {
+    const [year, month, day] = date.split('-').map(Number);
+    const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+    
+    // The offset is read twice so times next to a DST change land on the right side
+    let instant = wallClock - this.getOffsetMinutes(new Date(wallClock), timezone) * 60000;
+    instant = wallClock - this.getOffsetMinutes(new Date(instant), timezone) * 60000;
+    
+    return new Date(instant);
+  },
+  
+  /**
+   * UTC offset of a timezone at an instant
+   * @param {Date} time - Instant
+   * @param {string} timezone - IANA timezone
+   * @returns {number} Offset in minutes, e.g. -180 for UTC-3
+   */
+  getOffsetMinutes(time, timezone) {
+    const offset = Utilities.formatDate(time, timezone, 'Z'); // e.g. -0300
+    const sign = offset[0] === '-' ? -1 : 1;
+    return sign * (Number(offset.slice(1, 3)) * 60 + Number(offset.slice(3, 5)));
+  },
+  
+  /**
+   * Timezone the schedule is evaluated in
+   * @returns {string} The timezone setting, or the script's own timezone
+   */
+  getTimezone() {
+    return ConfigService.get('timezone') || Session.getScriptTimeZone() || this.DEFAULT_TIMEZONE;
+  },
+  
+  /**
+   * Read the Holidays sheet
+   * @returns {Array} {date, name, shifts, recurring} rows; empty shifts means closed all day
+   */
+  getHolidays() {
+    try {
+      const data = SheetsService.getSheet(CONFIG.SHEETS.HOLIDAYS_SHEET).getDataRange().getValues();
+      
+      return data.slice(1)
+        .filter(row => row[0] !== '' && row[0] !== null)
+        .map(row => ({
+          date: this.toDateString(row[0]),
+          name: String(row[1] || ''),
+          shifts: this.parseShifts(row[2]),
+          recurring: row[3] === true || String(row[3]).toUpperCase() === 'TRUE'
+        }))
+        .filter(holiday => holiday.date);
+        
+    } catch (error) {
+      Logger.log(`Error reading holidays: ${error.message}`);
+      return [];
+    }
+  },
+  
+  /**
+   * Parse a shifts cell such as "09:00-13:00, 14:00-18:00"
+   * @param {*} value - Cell value; empty means closed
+   * @returns {Array} {start, end} shifts, skipping malformed ones
+   */
+  parseShifts(value) {
+    return String(value ?? '')
+      .split(',')
+      .map(range => range.trim().match(/^(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})$/))
+      .filter(Boolean)
+      .map(match => ({ start: this.formatTime(this.parseTime(match[1])), end: this.formatTime(this.parseTime(match[2])) }))
+      .filter(shift => this.parseTime(shift.start) < this.parseTime(shift.end));
+  },
+  
+  /**
+   * Format shifts for a settings cell
+   * @param {Array} shifts - {start, end} shifts
+   * @returns {string} e.g. "09:00-13:00, 14:00-18:00", empty when closed
+   */
+  formatShifts(shifts) {
+    return shifts.map(shift => `${shift.start}-${shift.end}`).join(', ');
+  },
+  
+  /**
+   * Day schedule entry for ConfigService.getBusinessHours()
+   * @param {Array} shifts - {start, end} shifts
+   * @returns {Object} {open, start, end, shifts}, start and end spanning the whole day
+   */
+  toDaySchedule(shifts) {
+    if (shifts.length === 0) {
+      return { open: false, shifts: [] };
+    }
+    
+    const sorted = this.sortShifts(shifts);
+    return { open: true, start: sorted[0].start, end: sorted[sorted.length - 1].end, shifts: sorted };
+  },
+  
+  /**
+   * Short description of the weekly schedule in the current language, grouping days with the same shifts
+   * @param {Object} schedule - Day number → day schedule
+   * @returns {string} e.g. "Lun a Vie 09:00-13:00 y 14:00-18:00, Sáb 10:00-14:00"
+   */
+  describeSchedule(schedule) {
+    const groups = [];
+    const abbreviations = I18nService.list('hours.day_abbreviations');
+    const and = ` ${I18nService.t('hours.and')} `;
+    
+    // Monday first, as customers read a week
+    [1, 2, 3, 4, 5, 6, 0].forEach(day => {
+      const daySchedule = schedule[day];
+      const hours = daySchedule && daySchedule.open
+        ? (daySchedule.shifts || [daySchedule]).map(shift => `${shift.start}-${shift.end}`).join(and)
+        : '';
+      const last = groups[groups.length - 1];
+      
+      if (last && last.hours === hours && hours) {
+        last.to = day;
+      } else {
+        groups.push({ from: day, to: day, hours: hours });
+      }
+    });
+    
+    return groups
+      .filter(group => group.hours)
+      .map(group => {
+        const days = group.from === group.to
+          ? abbreviations[group.from]
+          : I18nService.t('hours.range', { from: abbreviations[group.from], to: abbreviations[group.to] });
+        return `${days} ${group.hours}`;
+      })
+      .join(', ');
+  },
+  
+  /**
+   * Customer-facing description of an opening, in the current language
+   * @param {number} offset - Days from today
+   * @param {Object} local - {date, day} of the opening
+   * @param {string} time - Opening time, HH:mm
+   * @returns {string} "hoy a las 14:00", "mañana a las 09:00" or "el lunes 22/01 a las 09:00"
+   */
+  describeOpening(offset, local, time) {
+    if (offset === 0) {
+      return I18nService.t('hours.today', { time: time });
+    }
+    if (offset === 1) {
+      return I18nService.t('hours.tomorrow', { time: time });
+    }
+    
+    const [, month, day] = local.date.split('-');
+    const date = I18nService.current() === 'en' ? `${month}/${day}` : `${day}/${month}`;
+    return I18nService.t('hours.weekday', { day: I18nService.list('hours.day_names')[local.day], date: date, time: time });
+  },
+  
+  /**
+   * Replace {next_opening} and {hours} in a configured message
+   * @param {string} template - Message text
+   * @param {Object} businessHours - ConfigService.getBusinessHours() output
+   * @param {Object|null} nextOpening - getNextOpening() output
+   * @returns {string} Message for the customer
+   */
+  fillPlaceholders(template, businessHours, nextOpening) {
+    return String(template || '')
+      .replace(/\{next_opening\}/g, nextOpening ? nextOpening.display : I18nService.t('hours.unknown_opening'))
+      .replace(/\{hours\}/g, businessHours.display);
+  },
+  
+  /**
+   * Default escalation message outside business hours
+   * @param {Object} businessHours - ConfigService.getBusinessHours() output
+   * @param {Object|null} nextOpening - getNextOpening() output
+   * @returns {string} Message for the customer
+   */
+  getAfterHoursMessage(businessHours, nextOpening) {
+    return this.fillPlaceholders(I18nService.t('escalation.after_hours'), businessHours, nextOpening);
+  },
+  
+  /**
+   * Describe the schedule for the dashboard editor
+   * @returns {Object} Business hours response
+   */
+  getReport() {
+    try {
+      const businessHours = ConfigService.getBusinessHours();
+      const now = new Date();
+      
+      return {
+        success: true,
+        type: 'business_hours',
+        timezone: businessHours.timezone,
+        days: this.DAY_KEYS.map((key, day) => ({
+          day: day,
+          shifts: (businessHours.schedule[day] || {}).shifts || []
+        })),
+        holidays: businessHours.holidays,
+        display: businessHours.display,
+        open: this.isOpen(now, businessHours),
+        nextOpening: this.getNextOpening(now, businessHours),
+        timestamp: now.toISOString()
+      };
+      
+    } catch (error) {
+      Logger.log(`Error building business hours report: ${error.message}`);
+      
+      return {
+        success: false,
+        error: 'No se pudo leer el horario de atención.',
+        timestamp: new Date().toISOString()
+      };
+    }
+  },
+  
+  /**
+   * Validate and save the weekly schedule, timezone and holidays from the dashboard
+   * @param {Object} params - {timezone, days: [{day, shifts}], holidays: [{date, name, shifts, recurring}]}
+   * @returns {Object} Saved schedule or validation errors
+   */
+  update(params) {
+    try {
+      const errors = this.validate(params);
+      
+      if (errors.length > 0) {
+        return this.validationError('El horario de atención tiene errores.', errors);
+      }
+      
+      ConfigService.set('timezone', params.timezone);
+      params.days.forEach(entry => {
+        ConfigService.set(this.SETTING_PREFIX + this.DAY_KEYS[entry.day], this.formatShifts(this.sortShifts(entry.shifts)));
+      });
+      
+      // Dates are stored as text so Sheets does not turn them into date cells
+      SheetsService.getSheet(CONFIG.SHEETS.HOLIDAYS_SHEET).getRange('A:A').setNumberFormat('@');
+      SheetsService.replaceData(CONFIG.SHEETS.HOLIDAYS_SHEET, params.holidays.map(holiday => [
+        holiday.date,
+        String(holiday.name || '').trim(),
+        this.formatShifts(this.sortShifts(holiday.shifts || [])),
+        holiday.recurring === true
+      ]));
+      
+      LoggingService.logInteraction('business_hours_update', 'dashboard', {
+        message: `Business hours updated with ${params.holidays.length} holidays`
+      });
+      
+      return this.getReport();
+      
+    } catch (error) {
+      Logger.log(`Error updating business hours: ${error.message}`);
+      LoggingService.logError('updateBusinessHours', error);
+      
+      return {
+        success: false,
+        error: 'No se pudo guardar el horario de atención. Intenta nuevamente.',
+        timestamp: new Date().toISOString()
+      };
+    }
+  },
+  
+  /**
+   * Validate a schedule before saving it
+   * @param {Object} params - update() parameters
+   * @returns {Array} List of {index, field, message} errors; index is the position in days or holidays
+   */
+  validate(params) {
+    const errors = [];
+    const { timezone, days, holidays } = params || {};
+    
+    if (typeof timezone !== 'string' || !/^[A-Za-z]+(\/[A-Za-z0-9_+-]+)*$/.test(timezone.trim())) {
+      errors.push({ index: -1, field: 'timezone', message: 'Timezone must look like America/Argentina/Buenos_Aires' });
+    }
+    
+    if (!Array.isArray(days) || days.length !== 7 || days.some((entry, index) => !entry || entry.day !== index)) {
+      errors.push({ index: -1, field: 'days', message: 'Days must list Sunday (0) to Saturday (6) in order' });
+    } else {
+      days.forEach((entry, index) => {
+        const problem = this.checkShifts(entry.shifts);
+        if (problem) {
+          errors.push({ index, field: 'days', message: `${this.DAY_NAMES[index]}: ${problem}` });
+        }
+      });
+    }
+    
+    if (!Array.isArray(holidays)) {
+      errors.push({ index: -1, field: 'holidays', message: 'Holidays must be a list' });
+    } else {
+      const seen = {};
+      
+      holidays.forEach((holiday, index) => {
+        const date = String(holiday && holiday.date || '');
+        
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(`${date}T00:00:00Z`).getTime())) {
+          errors.push({ index, field: 'holidays', message: 'Date must look like 2024-12-25' });
+        } else if (seen[date]) {
+          errors.push({ index, field: 'holidays', message: `${date} is listed twice` });
+        } else {
+          seen[date] = true;
+        }
+        
+        const problem = this.checkShifts(holiday && holiday.shifts || []);
+        if (problem) {
+          errors.push({ index, field: 'holidays', message: problem });
+        }
+      });
+    }
+    
+    return errors;
+  },
+  
+  /**
+   * Check a list of shifts from the dashboard
+   * @param {Array} shifts - {start, end} shifts
+   * @returns {string|null} Problem description, or null when valid
+   */
+  checkShifts(shifts) {
+    if (!Array.isArray(shifts)) {
+      return 'shifts must be a list';
+    }
+    
+    const isTime = value => /^([01]\d|2[0-3]):[0-5]\d$/.test(value) || value === '24:00';
+    
+    if (shifts.some(shift => !shift || !isTime(shift.start) || !isTime(shift.end))) {
+      return 'times must look like 09:00';
+    }
+    if (shifts.some(shift => this.parseTime(shift.start) >= this.parseTime(shift.end))) {
+      return 'each shift must end after it starts';
+    }
+    
+    const sorted = this.sortShifts(shifts);
+    if (sorted.some((shift, i) => i > 0 && this.parseTime(shift.start) < this.parseTime(sorted[i - 1].end))) {
+      return 'shifts overlap';
+    }
+    
+    return null;
+  },
+  
+  /**
+   * Show what a customer would get at a given time
+   * @param {string} at - ISO instant, or yyyy-MM-ddTHH:mm read in the business timezone
+   * @returns {Object} Simulation response
+   */
+  simulate(at) {
+    try {
+      const businessHours = ConfigService.getBusinessHours();
+      const time = this.parseSimulationTime(at, businessHours.timezone);
+      
+      if (!time) {
+        return this.validationError('La fecha a simular no es válida.', [
+          { index: -1, field: 'at', message: 'Time must look like 2024-01-15T10:00' }
+        ]);
+      }
+      
+      const local = this.getLocalTime(time, businessHours.timezone);
+      const { shifts, holiday } = this.getDayShifts(local, businessHours);
+      const open = this.isOpen(time, businessHours);
+      const nextOpening = this.getNextOpening(time, businessHours);
+      
+      // Messages come from the first escalation option, as a customer would see them
+      const escalateOption = MenuService.getMenuConfig()
+        .find(option => option.responseType === CONFIG.RESPONSE_TYPES.ESCALATE);
+        
+      return {
+        success: true,
+        type: 'business_hours_simulation',
+        at: time.toISOString(),
+        local: { date: local.date, time: local.time, day: local.day },
+        timezone: businessHours.timezone,
+        open: open,
+        holiday: holiday ? holiday.name || holiday.date : null,
+        shifts: shifts,
+        nextOpening: nextOpening,
+        greeting: MenuService.getGreeting(open, businessHours, nextOpening),
+        escalationMessage: MenuService.getEscalationMessage(escalateOption || {}, open, businessHours, nextOpening),
+        timestamp: new Date().toISOString()
+      };
+      
+    } catch (error) {
+      Logger.log(`Error simulating business hours: ${error.message}`);
+      
+      return {
+        success: false,
+        error: 'No se pudo simular el horario de atención.',
+        timestamp: new Date().toISOString()
+      };
+    }
+  },
+  
+  /**
+   * Read the simulator's time; times without an offset are business-local
+   * @param {string} at - Requested time
+   * @param {string} timezone - Business timezone
+   * @returns {Date|null} The instant, or null if unreadable
+   */
+  parseSimulationTime(at, timezone) {
+    const value = String(at || '');
+    const local = value.match(/^(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2})(:\d{2})?$/);
+    
+    if (local) {
+      return this.toInstant(local[1], this.parseTime(local[2]), timezone);
+    }
+    
+    const time = new Date(value);
+    return value && !isNaN(time.getTime()) ? time : null;
+  },
+  
+  /**
+   * Holiday date cell as yyyy-MM-dd; Sheets may hand back a Date
+   * @param {*} value - Cell value
+   * @returns {string} Date string, empty if unreadable
+   */
+  toDateString(value) {
+    if (value instanceof Date) {
+      return Utilities.formatDate(value, this.getTimezone(), 'yyyy-MM-dd');
+    }
+    
+    const text = String(value).trim();
+    return /^\d{4}-\d{2}-\d{2}$/.test(text) ? text : '';
+  },
+  
+  /**
+   * Add days to a local date
+   * @param {string} date - yyyy-MM-dd
+   * @param {number} days - Days to add
+   * @returns {string} yyyy-MM-dd
+   */
+  addDays(date, days) {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+  },
+  
+  /**
+   * Day of the week of a local date
+   * @param {string} date - yyyy-MM-dd
+   * @returns {number} 0 = Sunday … 6 = Saturday
+   */
+  getWeekday(date) {
+    return new Date(`${date}T00:00:00Z`).getUTCDay();
+  },
+  
+  /**
+   * Shifts in order of their start time
+   */
+  sortShifts(shifts) {
+    return shifts.slice().sort((a, b) => this.parseTime(a.start) - this.parseTime(b.start));
+  },
+  
+  /**
+   * Parse time string to minutes
+   */
+  parseTime(timeString) {
+    const [hours, minutes] = timeString.split(':').map(Number);
+    return hours * 60 + minutes;
+  },
+  
+  /**
+   * Format minutes after midnight as HH:mm
+   */
+  formatTime(minutes) {
+    return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+  },
+  
+  /**
+   * Validation failure response
+   */
+  validationError(message, errors) {
+    return {
+      success: false,
+      code: 'validation',
+      error: message,
+      errors: errors,
+      timestamp: new Date().toISOString()
+    };
+  }
+};
@@ -0,0 +1,805 @@
+/**
+ * Channel Service - WhatsApp Cloud API and Telegram Bot adapters
+ * 
+ * This service lets customers reach the chatbot from messaging apps:
+ * - Native webhook payloads turned into chat requests, one session per sender
+ * - The WhatsApp verification handshake and Telegram webhook registration
+ * - Bot responses rendered as WhatsApp lists and buttons or Telegram inline keyboards
+ * - Outgoing messages and agent replies sent through UrlFetchApp
+ * - Channel settings and dry-run replays of sample payloads for the dashboard
+ * 
+ * Apps Script cannot read request headers, so each webhook URL carries the
+ * channel and its secret as query parameters: ?channel=telegram&secret=...
+ */
+
+const ChannelService = {
+  
+  // Script property with each channel's on/off switch and last activity
+  STATE_PROPERTY: 'CHANNEL_STATE',
+  
+  CHANNELS: {
+    whatsapp: {
+      name: 'WhatsApp',
+      // Dashboard field -> Script Property
+      properties: {
+        accessToken: 'WHATSAPP_ACCESS_TOKEN',
+        phoneNumberId: 'WHATSAPP_PHONE_NUMBER_ID',
+        verifyToken: 'WHATSAPP_VERIFY_TOKEN'
+      },
+      // Field checked against the secret URL parameter
+      secretField: 'verifyToken',
+      // Credentials the dashboard only sees masked
+      hidden: ['accessToken']
+    },
+    telegram: {
+      name: 'Telegram',
+      properties: {
+        botToken: 'TELEGRAM_BOT_TOKEN',
+        webhookSecret: 'TELEGRAM_WEBHOOK_SECRET'
+      },
+      secretField: 'webhookSecret',
+      hidden: ['botToken']
+    }
+  },
+  
+  WHATSAPP_API: 'https://graph.facebook.com/v19.0',
+  TELEGRAM_API: 'https://api.telegram.org',
+  
+  // Message limits of the WhatsApp Cloud API
+  WHATSAPP_LIMITS: { text: 4096, body: 1024, footer: 60, buttons: 3, buttonTitle: 20, rows: 10, rowTitle: 24, rowDescription: 72 },
+  
+  // Message limits of the Telegram Bot API
+  TELEGRAM_LIMITS: { text: 4096, callbackData: 64 },
+  
+  // Replayed payloads run in sessions of their own, so they never reach real customers
+  REPLAY_PREFIX: 'replay_',
+  
+  /**
+   * Channel of a web app request, from its ?channel= parameter
+   * @param {Object} e - doGet/doPost event
+   * @returns {string|null} Channel ID, or null for our own JSON requests
+   */
+  detect(e) {
+    const channel = e && e.parameter && e.parameter.channel;
+    return channel && this.CHANNELS[channel] ? channel : null;
+  },
+  
+  /**
+   * Answer the verification request Meta sends when the webhook is saved
+   * @param {Object} params - Query parameters with hub.mode, hub.verify_token and hub.challenge
+   * @returns {string} The challenge when the token matches, otherwise a refusal Meta will reject
+   */
+  verifyWhatsApp(params) {
+    const verifyToken = this.getConfig('whatsapp').values.verifyToken;
+    
+    if (params['hub.mode'] === 'subscribe' && verifyToken && params['hub.verify_token'] === verifyToken) {
+      LoggingService.logInteraction('channel_verified', 'whatsapp', { message: 'WhatsApp webhook verified' });
+      return String(params['hub.challenge'] || '');
+    }
+    
+    LoggingService.logError('verifyWhatsApp', new Error('Webhook verification failed'), { mode: params['hub.mode'] });
+    return 'Forbidden';
+  },
+  
+  /**
+   * Answer every message in a webhook payload through handleChatbotRequest
+   * @param {string} channel - whatsapp or telegram
+   * @param {Object} payload - Parsed webhook body
+   * @param {string} secret - secret URL parameter
+   * @param {Object} options - Optional: dryRun collects the outgoing requests instead of sending them
+   * @returns {Object} Webhook result with the handled messages and the outgoing requests
+   */
+  handleWebhook(channel, payload, secret, options = {}) {
+    try {
+      const definition = this.CHANNELS[channel];
+      const config = this.getConfig(channel);
+      
+      if (!options.dryRun && (!secret || secret !== config.values[definition.secretField])) {
+        LoggingService.logError('channelWebhook', new Error(`Wrong webhook secret for ${channel}`), { channel });
+        return AuthService.unauthorized();
+      }
+      
+      // Messaging apps retry failed deliveries, so a disabled channel still acknowledges them
+      if (!options.dryRun && !config.enabled) {
+        return this.buildWebhookResult(channel, [], []);
+      }
+      
+      const handled = [];
+      const outgoing = [];
+      
+      this.parse(channel, payload).forEach(inbound => {
+        const sessionId = `${options.dryRun ? this.REPLAY_PREFIX : ''}${channel}_${inbound.chatId}`;
+        const request = inbound.reply ? this.toRequest(inbound.reply) : null;
+        const response = request
+          ? handleChatbotRequest({ ...request, sessionId })
+          : { success: true, type: 'default', message: I18nService.t('channel.unsupported'), showMenu: false };
+        
+        const messages = this.render(channel, inbound.chatId, response);
+        if (inbound.callbackId) {
+          messages.unshift({ method: 'answerCallbackQuery', body: { callback_query_id: inbound.callbackId } });
+        }
+        
+        messages.forEach(message => {
+          outgoing.push(options.dryRun ? this.describe(channel, message, config) : this.send(channel, message, config));
+        });
+        
+        handled.push({
+          sessionId,
+          action: request ? request.action : null,
+          userInput: request ? request.userInput || null : null,
+          responseType: response.type || (response.success ? null : 'error'),
+          response
+        });
+      });
+      
+      if (!options.dryRun && handled.length > 0) {
+        const failed = outgoing.find(result => !result.ok);
+        this.recordActivity(channel, failed ? failed.error : null);
+      }
+      
+      return this.buildWebhookResult(channel, handled, outgoing);
+      
+    } catch (error) {
+      Logger.log(`Error handling ${channel} webhook: ${error.message}`);
+      LoggingService.logError('channelWebhook', error, { channel });
+      
+      return {
+        success: false,
+        error: 'No se pudo procesar el webhook.',
+        timestamp: new Date().toISOString()
+      };
+    }
+  },
+  
+  buildWebhookResult(channel, handled, outgoing) {
+    return {
+      success: true,
+      type: 'channel_webhook',
+      channel,
+      handled,
+      outgoing,
+      timestamp: new Date().toISOString()
+    };
+  },
+  
+  /**
+   * Customer messages in a webhook payload
+   * @param {string} channel - whatsapp or telegram
+   * @param {Object} payload - Parsed webhook body
+   * @returns {Array} { chatId, reply: { id } or { text }, callbackId } per message; reply is null for media
+   */
+  parse(channel, payload) {
+    if (!payload || typeof payload !== 'object') {
+      return [];
+    }
+    
+    return channel === 'whatsapp' ? this.parseWhatsApp(payload) : this.parseTelegram(payload);
+  },
+  
+  parseWhatsApp(payload) {
+    const inbound = [];
+    
+    // Delivery and read receipts come as value.statuses and carry no messages
+    (payload.entry || []).forEach(entry => {
+      (entry.changes || []).forEach(change => {
+        ((change.value && change.value.messages) || []).forEach(message => {
+          let reply = null;
+          
+          if (message.type === 'text' && message.text) {
+            reply = { text: message.text.body };
+          } else if (message.type === 'interactive' && message.interactive) {
+            const selected = message.interactive.list_reply || message.interactive.button_reply;
+            reply = selected ? { id: selected.id } : null;
+          } else if (message.type === 'button' && message.button) {
+            // Quick replies of template messages
+            reply = { text: message.button.payload || message.button.text };
+          }
+          
+          inbound.push({ chatId: String(message.from), reply, callbackId: null });
+        });
+      });
+    });
+    
+    return inbound;
+  },
+  
+  parseTelegram(payload) {
+    const callback = payload.callback_query;
+    
+    if (callback && callback.message) {
+      return [{ chatId: String(callback.message.chat.id), reply: { id: callback.data }, callbackId: callback.id }];
+    }
+    
+    // Edited messages, channel posts and other updates are not answered
+    const message = payload.message;
+    if (!message || !message.chat) {
+      return [];
+    }
+    
+    return [{ chatId: String(message.chat.id), reply: typeof message.text === 'string' ? { text: message.text } : null, callbackId: null }];
+  },
+  
+  /**
+   * Chatbot request for a customer reply
+   * Buttons and list rows carry "menu", "menu:<option>" or "text:<message>" as their ID;
+   * typed option numbers select from the menu like in the web chat
+   * @param {Object} reply - { id } of a button or list row, or { text } typed by the customer
+   * @returns {Object} { action, userInput }
+   */
+  toRequest(reply) {
+    const id = String(reply.id || '');
+    
+    if (id === 'menu') {
+      return { action: 'getMenu' };
+    }
+    if (id.startsWith('menu:')) {
+      return { action: 'processSelection', userInput: id.slice(5) };
+    }
+    if (id.startsWith('text:')) {
+      return { action: 'sendMessage', userInput: id.slice(5) };
+    }
+    
+    const text = String(reply.text || id).trim();
+    
+    if (/^\/(start|menu)(@\w+)?$/i.test(text)) {
+      return { action: 'getMenu' };
+    }
+    if (/^\d{1,2}(\.\d{1,2})*$/.test(text)) {
+      return { action: 'processSelection', userInput: text };
+    }
+    
+    return { action: 'sendMessage', userInput: text };
+  },
+  
+  /**
+   * Text, choices and link of a bot response, before any channel formatting
+   * @param {Object} response - handleChatbotRequest response
+   * @returns {Object} { text, footer, choices: [{ id, label, description }], link: { label, url } }
+   */
+  toReply(response) {
+    const reply = { text: '', footer: '', choices: [], link: null };
+    
+    if (response.type === 'menu') {
+      reply.text = response.greeting || '';
+      reply.footer = response.footer || '';
+      reply.choices = (response.options || []).map(option => ({
+        id: `menu:${option.number}`,
+        label: `${option.number}. ${option.title}`,
+        description: ''
+      }));
+      return reply;
+    }
+    
+    const message = response.message || response.error || '';
+    reply.text = response.title ? `**${response.title}**\n\n${message}` : message;
+    
+    if (response.type === 'flow') {
+      reply.choices = (response.options || []).map(option => ({
+        id: `menu:${option.number}`,
+        label: `${option.number}. ${option.title}`,
+        description: ''
+      }));
+    } else if (response.type === 'order_list') {
+      reply.choices = (response.orders || []).map(order => ({
+        id: `text:${order.id}`,
+        label: `#${order.id}`,
+        description: [order.statusLabel, order.title].filter(Boolean).join(' - ')
+      }));
+    } else if (response.type === 'product_search') {
+      reply.choices = (response.results || []).map(item => ({
+        id: `text:${item.id}`,
+        label: item.title,
+        description: [item.priceLabel, item.id].filter(Boolean).join(' - ')
+      }));
+    } else if (response.type === 'product_info' && response.data && response.data.permalink) {
+      reply.link = { label: I18nService.t('product.listing'), url: response.data.permalink };
+    } else if (response.type === 'no_answer') {
+      reply.choices.push({ id: `text:${I18nService.list('knowledge.yes_words')[0]}`, label: I18nService.t('channel.agent_button'), description: '' });
+    }
+    
+    if (response.showMenu) {
+      reply.choices.push({ id: 'menu', label: I18nService.t('channel.menu_button'), description: '' });
+    }
+    
+    return reply;
+  },
+  
+  /**
+   * Outgoing messages for a bot response in a channel's format
+   * @param {string} channel - whatsapp or telegram
+   * @param {string} chatId - WhatsApp phone number or Telegram chat ID
+   * @param {Object} response - handleChatbotRequest response
+   * @returns {Array} { method, body } per message to send
+   */
+  render(channel, chatId, response) {
+    const reply = this.toReply(response);
+    return channel === 'whatsapp' ? this.renderWhatsApp(chatId, reply) : this.renderTelegram(chatId, reply);
+  },
+  
+  renderWhatsApp(to, reply) {
+    const limits = this.WHATSAPP_LIMITS;
+    const text = this.toWhatsAppText(reply.text);
+    const footer = this.toWhatsAppText(reply.footer);
+    const messages = [];
+    const message = body => ({ method: 'messages', body: { messaging_product: 'whatsapp', recipient_type: 'individual', to, ...body } });
+    const textMessage = body => message({ type: 'text', text: { preview_url: false, body: this.clip(body, limits.text) } });
+    
+    if (reply.link) {
+      messages.push(message({
+        type: 'interactive',
+        interactive: {
+          type: 'cta_url',
+          body: { text: this.clip(text, limits.body) },
+          action: { name: 'cta_url', parameters: { display_text: this.clip(reply.link.label, limits.buttonTitle), url: reply.link.url } }
+        }
+      }));
+    }
+    
+    const choices = reply.choices;
+    if (choices.length === 0 || choices.length > limits.rows) {
+      // Without room for a list, options are written out and the customer types their number
+      const lines = choices.map(choice => choice.label);
+      if (!reply.link) {
+        messages.push(textMessage([text, lines.join('\n'), footer].filter(Boolean).join('\n\n')));
+      } else if (lines.length > 0) {
+        messages.push(textMessage(lines.join('\n')));
+      }
+      return messages;
+    }
+    
+    // Interactive bodies are shorter than text messages, so long texts go first on their own
+    let body = reply.link ? I18nService.t('channel.choose') : text;
+    if (body.length > limits.body || !body) {
+      if (body) {
+        messages.push(textMessage(body));
+      }
+      body = I18nService.t('channel.choose');
+    }
+    
+    const interactive = { body: { text: body } };
+    if (footer && footer.length <= limits.footer) {
+      interactive.footer = { text: footer };
+    } else if (footer) {
+      interactive.body.text = this.clip(`${body}\n\n${footer}`, limits.body);
+    }
+    
+    // Buttons have no room for descriptions, so cards with details go in a list
+    if (choices.length <= limits.buttons && choices.every(choice => !choice.description && choice.label.length <= limits.buttonTitle)) {
+      interactive.type = 'button';
+      interactive.action = {
+        buttons: choices.map(choice => ({ type: 'reply', reply: { id: choice.id, title: choice.label } }))
+      };
+    } else {
+      interactive.type = 'list';
+      interactive.action = {
+        button: this.clip(I18nService.t('channel.list_button'), limits.buttonTitle),
+        sections: [{
+          rows: choices.map(choice => {
+            // Labels that do not fit the row title continue in its description
+            const description = choice.label.length > limits.rowTitle
+              ? [choice.label, choice.description].filter(Boolean).join(' - ')
+              : choice.description;
+            const row = { id: choice.id, title: this.clip(choice.label, limits.rowTitle) };
+            if (description) {
+              row.description = this.clip(description, limits.rowDescription);
+            }
+            return row;
+          })
+        }]
+      };
+    }
+    
+    messages.push(message({ type: 'interactive', interactive }));
+    return messages;
+  },
+  
+  renderTelegram(chatId, reply) {
+    const limits = this.TELEGRAM_LIMITS;
+    const text = [reply.text, reply.footer].filter(Boolean).join('\n\n');
+    const keyboard = [];
+    
+    if (reply.link) {
+      keyboard.push([{ text: reply.link.label, url: reply.link.url }]);
+    }
+    
+    reply.choices.forEach(choice => {
+      keyboard.push([{ text: choice.description ? `${choice.label} - ${choice.description}` : choice.label, callback_data: this.clipBytes(choice.id, limits.callbackData) }]);
+    });
+    
+    const body = {
+      chat_id: chatId,
+      text: this.toTelegramHtml(this.clip(text || I18nService.t('channel.choose'), limits.text)),
+      parse_mode: 'HTML',
+      disable_web_page_preview: true
+    };
+    
+    if (keyboard.length > 0) {
+      body.reply_markup = { inline_keyboard: keyboard };
+    }
+    
+    return [{ method: 'sendMessage', body }];
+  },
+  
+  /**
+   * WhatsApp marks bold with single asterisks
+   */
+  toWhatsAppText(text) {
+    return String(text || '').replace(/\*\*([^*\n]+)\*\*/g, '*$1*');
+  },
+  
+  /**
+   * Telegram HTML: escaped text with **bold** as <b> tags
+   */
+  toTelegramHtml(text) {
+    return String(text || '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/\*\*([^*\n]+)\*\*/g, '<b>$1</b>');
+  },
+  
+  clip(text, length) {
+    const value = String(text || '');
+    return value.length > length ? `${value.slice(0, length - 1)}…` : value;
+  },
+  
+  clipBytes(text, bytes) {
+    let value = String(text);
+    // Percent-encoding turns each UTF-8 byte into one %XX
+    while (encodeURIComponent(value).replace(/%[0-9A-F]{2}/g, '_').length > bytes) {
+      value = value.slice(0, -1);
+    }
+    return value;
+  },
+  
+  /**
+   * Send an agent message straight to the customer's chat app
+   * @param {string} sessionId - Session of a channel customer, such as telegram_12345
+   * @param {Object} message - Ticket message { from, text, agent }
+   * @returns {boolean} Whether the message was delivered; web chat sessions always return false
+   */
+  push(sessionId, message) {
+    const match = String(sessionId || '').match(/^(whatsapp|telegram)_(.+)$/);
+    if (!match) {
+      return false;
+    }
+    
+    try {
+      const channel = match[1];
+      const config = this.getConfig(channel);
+      if (!config.enabled || config.missing.length > 0) {
+        return false;
+      }
+      
+      I18nService.use(I18nService.resolve({ sessionId }));
+      
+      const text = message.agent ? `**${message.agent}:** ${message.text}` : message.text;
+      const results = this.render(channel, match[2], { success: true, type: 'agent', message: text, showMenu: false })
+        .map(outgoing => this.send(channel, outgoing, config));
+      const failed = results.find(result => !result.ok);
+      
+      this.recordActivity(channel, failed ? failed.error : null);
+      return !failed;
+      
+    } catch (error) {
+      Logger.log(`Error pushing to ${sessionId}: ${error.message}`);
+      LoggingService.logError('channelPush', error, { sessionId });
+      return false;
+    }
+  },
+  
+  /**
+   * URL and fetch options of an outgoing message
+   * @param {string} channel - whatsapp or telegram
+   * @param {Object} outgoing - { method, body } from render
+   * @param {Object} config - Channel config from getConfig
+   * @param {boolean} masked - Hide the token, for the dashboard
+   * @returns {Object} { url, options }
+   */
+  buildRequest(channel, outgoing, config, masked = false) {
+    const values = config.values;
+    const options = {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      payload: JSON.stringify(outgoing.body),
+      muteHttpExceptions: true
+    };
+    
+    if (channel === 'whatsapp') {
+      options.headers.Authorization = `Bearer ${masked ? this.mask(values.accessToken) : values.accessToken}`;
+      return { url: `${this.WHATSAPP_API}/${values.phoneNumberId || '{phone-number-id}'}/messages`, options };
+    }
+    
+    return { url: `${this.TELEGRAM_API}/bot${masked ? this.mask(values.botToken) : values.botToken}/${outgoing.method}`, options };
+  },
+  
+  /**
+   * Send a message through the channel's API
+   * @returns {Object} { url, payload, ok, status, error } with the token masked in the URL
+   */
+  send(channel, outgoing, config) {
+    const request = this.buildRequest(channel, outgoing, config);
+    const result = this.describe(channel, outgoing, config);
+    
+    try {
+      const response = UrlFetchApp.fetch(request.url, request.options);
+      const status = response.getResponseCode();
+      let data = {};
+      try {
+        data = JSON.parse(response.getContentText());
+      } catch (parseError) {
+        data = {};
+      }
+      
+      result.status = status;
+      result.ok = status === 200 && data.ok !== false;
+      if (!result.ok) {
+        result.error = (data.error && data.error.message) || data.description || `HTTP ${status}`;
+        LoggingService.logError('channelSend', new Error(result.error), { channel, method: outgoing.method });
+      }
+      
+    } catch (error) {
+      Logger.log(`Error sending to ${channel}: ${error.message}`);
+      LoggingService.logError('channelSend', error, { channel, method: outgoing.method });
+      result.ok = false;
+      result.error = error.message;
+    }
+    
+    return result;
+  },
+  
+  /**
+   * An outgoing message as the dashboard shows it, without sending it
+   */
+  describe(channel, outgoing, config) {
+    const request = this.buildRequest(channel, outgoing, config, true);
+    
+    return {
+      method: outgoing.method,
+      url: request.url,
+      payload: outgoing.body,
+      ok: true,
+      status: null,
+      error: null
+    };
+  },
+  
+  /**
+   * Credentials, switch and last activity of a channel
+   * @param {string} channel - whatsapp or telegram
+   * @returns {Object} { enabled, values, missing, lastMessageAt, lastError, lastErrorAt }
+   */
+  getConfig(channel) {
+    const properties = PropertiesService.getScriptProperties();
+    const definition = this.CHANNELS[channel];
+    const values = {};
+    
+    Object.keys(definition.properties).forEach(field => {
+      values[field] = properties.getProperty(definition.properties[field]) || '';
+    });
+    
+    const state = this.loadState()[channel] || {};
+    
+    return {
+      enabled: state.enabled === true,
+      values,
+      missing: Object.keys(values).filter(field => !values[field]),
+      lastMessageAt: state.lastMessageAt || null,
+      lastError: state.lastError || null,
+      lastErrorAt: state.lastErrorAt || null
+    };
+  },
+  
+  loadState() {
+    try {
+      const raw = PropertiesService.getScriptProperties().getProperty(this.STATE_PROPERTY);
+      return raw ? JSON.parse(raw) : {};
+    } catch (error) {
+      Logger.log(`Error reading channel state: ${error.message}`);
+      return {};
+    }
+  },
+  
+  saveState(channel, updates) {
+    const all = this.loadState();
+    all[channel] = { ...(all[channel] || {}), ...updates };
+    PropertiesService.getScriptProperties().setProperty(this.STATE_PROPERTY, JSON.stringify(all));
+  },
+  
+  recordActivity(channel, error) {
+    const now = new Date().toISOString();
+    this.saveState(channel, error ? { lastMessageAt: now, lastError: error, lastErrorAt: now } : { lastMessageAt: now });
+  },
+  
+  mask(value) {
+    return value ? `••••${String(value).slice(-4)}` : '';
+  },
+  
+  /**
+   * Build the channels response for the dashboard
+   * @returns {Object} Channels report with each channel's settings, tokens masked
+   */
+  getReport() {
+    const channels = Object.keys(this.CHANNELS).map(id => {
+      const definition = this.CHANNELS[id];
+      const config = this.getConfig(id);
+      const fields = {};
+      
+      Object.keys(config.values).forEach(field => {
+        fields[field] = definition.hidden.includes(field) ? this.mask(config.values[field]) : config.values[field];
+      });
+      
+      const secret = config.values[definition.secretField];
+      
+      return {
+        id,
+        name: definition.name,
+        enabled: config.enabled,
+        fields,
+        missing: config.missing.map(field => definition.properties[field]),
+        webhookQuery: secret ? `channel=${id}&secret=${encodeURIComponent(secret)}` : null,
+        lastMessageAt: config.lastMessageAt,
+        lastError: config.lastError,
+        lastErrorAt: config.lastErrorAt
+      };
+    });
+    
+    return {
+      success: true,
+      type: 'channels',
+      channels,
+      timestamp: new Date().toISOString()
+    };
+  },
+  
+  /**
+   * Save a channel's credentials and switch; blank fields keep their stored value
+   * @param {Object} params - { channel, enabled, values: { field: value }, webAppUrl }
+   *   webAppUrl registers the Telegram webhook at that deployment URL
+   * @returns {Object} Channels report or validation error
+   */
+  update(params) {
+    try {
+      const errors = this.validateUpdate(params);
+      
+      if (errors.length > 0) {
+        return {
+          success: false,
+          code: 'validation',
+          error: 'La configuración del canal tiene errores.',
+          errors: errors,
+          timestamp: new Date().toISOString()
+        };
+      }
+      
+      const channel = params.channel;
+      const definition = this.CHANNELS[channel];
+      const values = params.values || {};
+      const properties = PropertiesService.getScriptProperties();
+      
+      Object.keys(values).forEach(field => {
+        const value = String(values[field]).trim();
+        if (value) {
+          properties.setProperty(definition.properties[field], value);
+        }
+      });
+      
+      if (typeof params.enabled === 'boolean') {
+        this.saveState(channel, { enabled: params.enabled });
+      }
+      
+      LoggingService.logInteraction('channel_update', 'dashboard', {
+        message: `${definition.name} ${this.getConfig(channel).enabled ? 'enabled' : 'disabled'}`
+      });
+      
+      if (channel === 'telegram' && params.webAppUrl) {
+        const registered = this.registerTelegramWebhook(params.webAppUrl);
+        if (!registered.ok) {
+          return {
+            success: false,
+            error: `Telegram rechazó el webhook: ${registered.error}`,
+            timestamp: new Date().toISOString()
+          };
+        }
+      }
+      
+      return this.getReport();
+      
+    } catch (error) {
+      Logger.log(`Error updating channel: ${error.message}`);
+      LoggingService.logError('updateChannel', error, { channel: params && params.channel });
+      
+      return {
+        success: false,
+        error: 'No se pudo guardar el canal.',
+        timestamp: new Date().toISOString()
+      };
+    }
+  },
+  
+  /**
+   * Check a channel update
+   * @returns {Array} Validation errors { index, field, message }
+   */
+  validateUpdate(params) {
+    const definition = params && this.CHANNELS[params.channel];
+    if (!definition) {
+      return [{ index: -1, field: 'channel', message: `Unknown channel "${params && params.channel}"` }];
+    }
+    
+    const errors = [];
+    const values = params.values || {};
+    const config = this.getConfig(params.channel);
+    
+    Object.keys(values).forEach(field => {
+      const value = String(values[field] === null || values[field] === undefined ? '' : values[field]).trim();
+      
+      if (!definition.properties[field]) {
+        errors.push({ index: -1, field, message: `Unknown field "${field}"` });
+      } else if (value && field === definition.secretField && !/^[A-Za-z0-9_-]{8,256}$/.test(value)) {
+        errors.push({ index: -1, field, message: 'Use 8 to 256 letters, numbers, - or _' });
+      } else if (value && field === 'phoneNumberId' && !/^\d+$/.test(value)) {
+        errors.push({ index: -1, field, message: 'Phone number ID must be numeric' });
+      }
+    });
+    
+    if (params.enabled !== undefined && typeof params.enabled !== 'boolean') {
+      errors.push({ index: -1, field: 'enabled', message: 'Enabled must be true or false' });
+    } else if (params.enabled === true) {
+      const missing = config.missing.filter(field => !String(values[field] || '').trim());
+      if (missing.length > 0) {
+        errors.push({ index: -1, field: 'enabled', message: `Set ${missing.map(field => definition.properties[field]).join(', ')} first` });
+      }
+    }
+    
+    if (params.webAppUrl && (params.channel !== 'telegram' || !/^https:\/\/\S+$/.test(params.webAppUrl))) {
+      errors.push({ index: -1, field: 'webAppUrl', message: 'Telegram needs the https URL of the web app' });
+    }
+    
+    return errors;
+  },
+  
+  /**
+   * Point the Telegram bot at this web app
+   * @param {string} webAppUrl - Deployment URL ending in /exec
+   * @returns {Object} send result
+   */
+  registerTelegramWebhook(webAppUrl) {
+    const config = this.getConfig('telegram');
+    const url = `${webAppUrl}?channel=telegram&secret=${encodeURIComponent(config.values.webhookSecret)}`;
+    
+    return this.send('telegram', {
+      method: 'setWebhook',
+      body: { url, allowed_updates: ['message', 'callback_query'] }
+    }, config);
+  },
+  
+  /**
+   * Run a sample webhook payload without sending anything
+   * @param {string} channel - whatsapp or telegram
+   * @param {Object} payload - Webhook body as the app would post it
+   * @returns {Object} Webhook result with the bot responses and the requests that would be sent
+   */
+  replay(channel, payload) {
+    const errors = [];
+    
+    if (!this.CHANNELS[channel]) {
+      errors.push({ index: -1, field: 'channel', message: `Unknown channel "${channel}"` });
+    }
+    if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+      errors.push({ index: -1, field: 'payload', message: 'Payload must be a JSON object' });
+    }
+    
+    if (errors.length > 0) {
+      return {
+        success: false,
+        code: 'validation',
+        error: 'El webhook de prueba tiene errores.',
+        errors: errors,
+        timestamp: new Date().toISOString()
+      };
+    }
+    
+    return this.handleWebhook(channel, payload, null, { dryRun: true });
+  }
+};
@@ -5,11 +5,24 @@
  * - Message processing and context management
  * - Session handling and state tracking
  * - Integration with AI services for dynamic responses
+ * - Order, shipment and product answers from MercadoLibre
  * - Fallback to human escalation when needed
  */
 
 const ChatService = {
   
+  // Words dropped from a product question before searching our listings
+  SEARCH_STOPWORDS: [
+    'hola', 'buenas', 'buen', 'día', 'tienen', 'tenés', 'tienes', 'hay', 'venden', 'vendés', 'busco', 'buscando', 'quiero',
+    'quisiera', 'necesito', 'me', 'mi', 'el', 'la', 'los', 'las', 'un', 'una', 'unos', 'unas', 'de', 'del', 'en', 'para',
+    'con', 'por', 'que', 'qué', 'y', 'o', 'a', 'al', 'es', 'son', 'algún', 'alguna', 'algo', 'ustedes', 'cuánto', 'cuanto',
+    'sale', 'cuesta', 'vale', 'precio', 'stock', 'producto', 'productos', 'artículo', 'artículos', 'disponibilidad',
+    'disponible', 'característica', 'características'
+  ],
+  
+  // Context for messages that are not about an order or product; the knowledge base tester uses it too
+  GENERAL_AI_INSTRUCTIONS: 'Conversación general de atención al cliente. Mantén un tono amigable y profesional.',
+  
   /**
    * Process user message in chat context
    * @param {string} message - User message
@@ -17,18 +30,39 @@ const ChatService = {
    * @returns {Object} Chat response
    */
   processMessage(message, sessionId) {
+    const startTime = Date.now();
+    
     try {
       // Get or create session context
       const sessionContext = this.getSessionContext(sessionId);
       
-      // Determine response strategy
-      const responseStrategy = this.determineResponseStrategy(message, sessionContext);
+      // An open escalation sends the message to the agent; a guided flow
+      // in progress takes it as its next answer; a "sí" after a no_answer
+      // reply accepts the agent it offered
+      let responseStrategy;
+      if (sessionContext.escalation && EscalationService.isTicketOpen(sessionContext.escalation.ticketId)) {
+        responseStrategy = { type: 'agent' };
+      } else if (sessionContext.activeFlow) {
+        responseStrategy = { type: 'flow' };
+      } else if (sessionContext.escalationOffer && KnowledgeService.acceptsOffer(message)) {
+        responseStrategy = { type: 'escalation', reason: sessionContext.escalationOffer };
+      } else {
+        responseStrategy = this.determineResponseStrategy(message, sessionContext, sessionId);
+      }
       
       let response;
       
       switch (responseStrategy.type) {
         case 'menu_request':
-          response = MenuService.getMenu();
+          response = MenuService.getMenu(sessionId);
+          break;
+          
+        case 'flow':
+          response = FlowService.handleInput(message, sessionId, sessionContext.activeFlow);
+          break;
+          
+        case 'agent':
+          response = EscalationService.addCustomerMessage(sessionContext.escalation.ticketId, message);
           break;
           
         case 'order_inquiry':
@@ -44,25 +78,37 @@ const ChatService = {
           break;
           
         case 'escalation':
-          response = this.handleChatEscalation(message, sessionId);
+          response = this.handleChatEscalation(responseStrategy.reason || message, sessionId);
           break;
           
         default:
           response = this.handleDefault(message, sessionId);
       }
       
-      // Update session context
+      // The context sent to the AI repeats the transcript; keep it out of the logs
+      const loggedResponse = { ...response, context: undefined };
+      
+      // Update session context and the transcript sent to the AI on later turns;
+      // messages for the agent live on the ticket instead
       this.updateSessionContext(sessionId, {
         lastMessage: message,
-        lastResponse: response,
-        timestamp: new Date().toISOString()
+        lastResponse: this.summarizeResponse(response),
+        timestamp: new Date().toISOString(),
+        escalationOffer: response.type === 'no_answer' ? message : null,
+        ...(responseStrategy.type === 'agent' ? {} : this.appendToHistory(sessionContext, sessionId, message, response))
       });
       
       // Log interaction
+      const classification = responseStrategy.classification;
+      
       LoggingService.logInteraction('chat_message', sessionId, {
         userMessage: message,
         responseType: responseStrategy.type,
-        botResponse: response
+        intent: classification ? { score: classification.score, source: classification.source } : undefined,
+        botResponse: loggedResponse,
+        provider: response.provider,
+        responseTime: Date.now() - startTime,
+        success: response.success
       });
       
       return response;
@@ -73,7 +119,7 @@ const ChatService = {
       
       return {
         success: false,
-        message: 'Lo siento, ocurrió un error procesando tu mensaje. ¿Podrías intentar nuevamente?',
+        message: I18nService.t('chat.error'),
         showMenu: true,
         timestamp: new Date().toISOString()
       };
@@ -84,43 +130,28 @@ const ChatService = {
    * Determine the best response strategy for user message
    * @param {string} message - User message
    * @param {Object} context - Session context
-   * @returns {Object} Response strategy
+   * @param {string} sessionId - Session identifier, for the AI classification step
+   * @returns {Object} Response strategy with the classification that chose it
    */
-  determineResponseStrategy(message, context) {
-    const lowerMessage = message.toLowerCase();
-    
-    // Menu request patterns
-    if (lowerMessage.includes('menú') || lowerMessage.includes('menu') || 
-        lowerMessage.includes('opciones') || lowerMessage.includes('ayuda')) {
-      return { type: 'menu_request' };
-    }
-    
-    // Order inquiry patterns
-    if (this.containsOrderKeywords(lowerMessage)) {
-      return { 
-        type: 'order_inquiry',
-        context: this.extractOrderContext(message)
-      };
-    }
-    
-    // Product inquiry patterns
-    if (this.containsProductKeywords(lowerMessage)) {
-      return {
-        type: 'product_inquiry',
-        context: this.extractProductContext(message)
-      };
-    }
+  determineResponseStrategy(message, context, sessionId) {
+    const classification = IntentService.classify(message, { sessionId: sessionId });
     
-    // Escalation patterns
-    if (this.containsEscalationKeywords(lowerMessage)) {
-      return { type: 'escalation' };
+    switch (classification.intent) {
+      case 'menu_request':
+      case 'escalation':
+        return { type: classification.intent, classification: classification };
+        
+      case 'order_inquiry':
+      case 'product_inquiry':
+        return { type: classification.intent, context: classification.entities, classification: classification };
+        
+      default:
+        return {
+          type: 'general_ai',
+          context: { userMessage: message, sessionContext: context },
+          classification: classification
+        };
     }
-    
-    // Default to general AI
-    return {
-      type: 'general_ai',
-      context: { userMessage: message, sessionContext: context }
-    };
   },
   
   /**
@@ -128,34 +159,33 @@ const ChatService = {
    */
   handleOrderInquiry(message, sessionId, context) {
     try {
-      // Try to extract order ID or use ML API to search
-      const orderId = this.extractOrderId(message);
+      // An order ID shows that order; a buyer's recent orders need that buyer's nickname or ID plus one of their order IDs
+      const entities = context || {};
+      const orderId = entities.order_id || this.extractOrderId(message);
+      const buyer = entities.buyer || this.extractBuyer(message);
+      
+      if (buyer) {
+        return this.handleBuyerOrders(buyer, orderId);
+      }
       
       if (orderId) {
         const orderDetails = MercadoLibreService.getOrderDetails(orderId);
         
         if (orderDetails.success) {
-          const orderInfo = this.formatOrderInfo(orderDetails.data);
-          
-          return {
-            success: true,
-            type: 'order_info',
-            message: orderInfo,
-            data: orderDetails.data,
-            showMenu: true,
-            timestamp: new Date().toISOString()
-          };
+          return this.buildOrderResponse(orderDetails.data, this.containsShipmentKeywords(message.toLowerCase()));
         }
       }
       
       // If no specific order found, provide general order help
-      const aiContext = {
-        userQuery: message,
-        context: 'El usuario está preguntando sobre pedidos. Proporciona información general sobre cómo consultar pedidos, estados de envío, y políticas de devolución.',
-        maxTokens: 300
-      };
+      const aiContext = this.buildAIContext(
+        message,
+        sessionId,
+        'El usuario está preguntando sobre pedidos. Proporciona información general sobre cómo consultar pedidos, estados de envío, y políticas de devolución.',
+        300
+      );
       
-      return AIService.generateResponse(CONFIG.AI_PROVIDERS.GEMINI, aiContext);
+      const aiResponse = AIService.generateResponse(null, aiContext);
+      return this.buildAIResponse(aiResponse, message, sessionId, aiContext.knowledge);
       
     } catch (error) {
       Logger.log(`Error handling order inquiry: ${error.message}`);
@@ -163,12 +193,113 @@ const ChatService = {
     }
   },
   
+  /**
+   * List a buyer's recent orders once the customer proves the account is theirs.
+   * Nicknames are public, so the order ID of one of the buyer's purchases is required too.
+   * @param {Object} buyer - { id } or { nickname }
+   * @param {string|null} orderId - Order ID given with the buyer
+   * @returns {Object} order_list response, or a default response asking for proof
+   */
+  handleBuyerOrders(buyer, orderId) {
+    const orderDetails = orderId ? MercadoLibreService.getOrderDetails(orderId) : null;
+    
+    if (orderDetails && orderDetails.success && this.isBuyerOf(orderDetails.data, buyer)) {
+      const buyerOrders = MercadoLibreService.findBuyerOrders(buyer);
+      
+      if (buyerOrders.success) {
+        return this.buildOrderListResponse(buyerOrders.buyer, buyerOrders.orders);
+      }
+    }
+    
+    // Same answer whether the buyer exists or not, so nicknames can't be probed
+    return {
+      success: true,
+      type: 'default',
+      message: I18nService.t('order_list.verify'),
+      showMenu: true,
+      timestamp: new Date().toISOString()
+    };
+  },
+  
+  /**
+   * Whether an order was bought by the given buyer
+   * @param {Object} order - Order from MercadoLibreService.getOrderDetails
+   * @param {Object} buyer - { id }, { email } or { nickname }
+   */
+  isBuyerOf(order, buyer) {
+    const orderBuyer = order.buyer || {};
+    const same = (a, b) => Boolean(a) && String(a).toLowerCase() === String(b).toLowerCase();
+    
+    if (buyer.id) {
+      return String(orderBuyer.id) === String(buyer.id);
+    }
+    return buyer.email ? same(orderBuyer.email, buyer.email) : same(orderBuyer.nickname, buyer.nickname);
+  },
+  
+  /**
+   * Order details with its timeline, or the tracking of its shipment
+   * @param {Object} order - Order from MercadoLibreService.getOrderDetails
+   * @param {boolean} trackShipment - Answer with the shipment when the order has one
+   * @returns {Object} order_info or shipment_info response
+   */
+  buildOrderResponse(order, trackShipment = false) {
+    const shipmentId = order.shipping && order.shipping.id;
+    const shipmentDetails = shipmentId ? MercadoLibreService.getShipment(shipmentId) : null;
+    const shipment = shipmentDetails && shipmentDetails.success ? shipmentDetails.data : null;
+    const summary = shipment ? MercadoLibreService.summarizeShipment(shipment) : null;
+    const timeline = MercadoLibreService.buildOrderTimeline(order, shipment);
+    
+    if (trackShipment && summary) {
+      return {
+        success: true,
+        type: 'shipment_info',
+        message: this.formatShipmentInfo(order, summary, timeline),
+        orderId: String(order.id),
+        shipment: summary,
+        timeline: timeline,
+        showMenu: true,
+        timestamp: new Date().toISOString()
+      };
+    }
+    
+    return {
+      success: true,
+      type: 'order_info',
+      message: this.formatOrderInfo(order, timeline),
+      data: order,
+      shipment: summary,
+      timeline: timeline,
+      showMenu: true,
+      timestamp: new Date().toISOString()
+    };
+  },
+  
+  /**
+   * A buyer's recent orders in our store
+   * @param {Object} buyer - { id, nickname }
+   * @param {Array} orders - Orders from MercadoLibreService.findBuyerOrders
+   * @returns {Object} order_list response
+   */
+  buildOrderListResponse(buyer, orders) {
+    const summaries = orders.map(order => MercadoLibreService.summarizeOrder(order));
+    
+    return {
+      success: true,
+      type: 'order_list',
+      message: this.formatOrderList(buyer, summaries),
+      buyer: { id: buyer.id ? String(buyer.id) : null, nickname: buyer.nickname || null },
+      orders: summaries,
+      showMenu: true,
+      timestamp: new Date().toISOString()
+    };
+  },
+  
   /**
    * Handle product-related inquiries
    */
   handleProductInquiry(message, sessionId, context) {
     try {
-      const productId = this.extractProductId(message);
+      const productId = (context && context.item_id) || this.extractProductId(message);
       
       if (productId) {
         const productInfo = MercadoLibreService.getProductInfo(productId);
@@ -187,14 +318,36 @@ const ChatService = {
         }
       }
       
+      // Without an item ID, look for the product among our own listings
+      const searchTerms = productId ? null : this.extractSearchTerms(message);
+      
+      if (searchTerms) {
+        const search = MercadoLibreService.searchSellerItems(searchTerms);
+        
+        if (search.success && search.results.length > 0) {
+          return {
+            success: true,
+            type: 'product_search',
+            message: this.formatProductSearch(search),
+            query: search.query,
+            total: search.total,
+            results: search.results,
+            showMenu: true,
+            timestamp: new Date().toISOString()
+          };
+        }
+      }
+      
       // General product inquiry with AI
-      const aiContext = {
-        userQuery: message,
-        context: 'El usuario está preguntando sobre productos. Ayuda con información sobre disponibilidad, características, precios, y recomendaciones.',
-        maxTokens: 300
-      };
+      const aiContext = this.buildAIContext(
+        message,
+        sessionId,
+        'El usuario está preguntando sobre productos. Ayuda con información sobre disponibilidad, características, precios, y recomendaciones.',
+        300
+      );
       
-      return AIService.generateResponse(CONFIG.AI_PROVIDERS.GEMINI, aiContext);
+      const aiResponse = AIService.generateResponse(null, aiContext);
+      return this.buildAIResponse(aiResponse, message, sessionId, aiContext.knowledge);
       
     } catch (error) {
       Logger.log(`Error handling product inquiry: ${error.message}`);
@@ -206,25 +359,138 @@ const ChatService = {
    * Handle general AI conversations
    */
   handleGeneralAI(message, sessionId, context) {
-    const aiContext = {
+    const aiContext = this.buildAIContext(message, sessionId, this.GENERAL_AI_INSTRUCTIONS, 400);
+    
+    const aiResponse = AIService.generateResponse(null, aiContext);
+    return this.buildAIResponse(aiResponse, message, sessionId, aiContext.knowledge);
+  },
+  
+  /**
+   * Build the AIService context for a chat message, including the session transcript
+   * and the Knowledge_Base entries that match it
+   * @param {string} message - User message
+   * @param {string} sessionId - Session identifier
+   * @param {string} instructions - Situation-specific context for the prompt
+   * @param {number} maxTokens - Response token limit
+   * @returns {Object} AI context
+   */
+  buildAIContext(message, sessionId, instructions, maxTokens) {
+    const session = this.getSessionContext(sessionId);
+    
+    return {
       userQuery: message,
-      context: 'Conversación general de atención al cliente. Mantén un tono amigable y profesional.',
-      maxTokens: 400
+      context: instructions,
+      maxTokens: maxTokens,
+      sessionId: sessionId,
+      history: session.history || [],
+      summary: session.summary || '',
+      language: I18nService.current(),
+      knowledge: KnowledgeService.retrieve(message)
     };
+  },
+  
+  /**
+   * Reduce a response to what later turns need from the session: its type and
+   * the ticket, order or item IDs it was about. Orders, products and search
+   * results stay out, since the whole session lives in a single sheet cell.
+   * @param {Object} response - Bot response
+   * @returns {Object} Stored summary of the response
+   */
+  summarizeResponse(response) {
+    const ids = list => (list || []).map(entry => String(entry.id));
+    const summary = { type: response.type, success: response.success !== false };
     
-    const aiResponse = AIService.generateResponse(CONFIG.AI_PROVIDERS.GEMINI, aiContext);
+    if (response.ticketId) {
+      summary.ticketId = response.ticketId;
+    }
+    if (response.type === 'order_info' && response.data) {
+      summary.orderId = String(response.data.id);
+    } else if (response.orderId) {
+      summary.orderId = String(response.orderId);
+    }
+    if (response.type === 'order_list') {
+      summary.orderIds = ids(response.orders);
+    }
+    if (response.type === 'product_info' && response.data) {
+      summary.itemId = String(response.data.id);
+    } else if (response.type === 'product_search') {
+      summary.itemIds = ids(response.results);
+    }
     
-    if (aiResponse.success) {
-      return {
-        success: true,
-        type: 'ai_chat',
-        message: aiResponse.content,
-        showMenu: true,
-        timestamp: new Date().toISOString()
-      };
-    } else {
+    return summary;
+  },
+  
+  /**
+   * Add one exchange to the session transcript, summarizing the oldest turns
+   * once it exceeds max_history_messages or ai_context_tokens
+   * @param {Object} session - Session context before this message
+   * @param {string} sessionId - Session identifier
+   * @param {string} message - User message
+   * @param {Object} response - Bot response
+   * @returns {Object} { history, summary } to store in the session
+   */
+  appendToHistory(session, sessionId, message, response) {
+    const aiConfig = ConfigService.getAIConfig();
+    const timestamp = new Date().toISOString();
+    const history = (session.history || []).concat([
+      { role: 'user', content: this.truncateTurn(message), timestamp: timestamp },
+      { role: 'assistant', content: this.truncateTurn(response.message || response.greeting || ''), timestamp: timestamp }
+    ]).filter(turn => turn.content);
+    let summary = session.summary || '';
+    
+    const tokens = turns => turns.reduce((sum, turn) => sum + AIService.estimateTokens(turn.content), 0);
+    const overBudget = () => history.length > aiConfig.historyLimit ||
+      tokens(history) + AIService.estimateTokens(summary) > aiConfig.contextTokenBudget;
+    
+    // Drop whole exchanges from the front, always keeping the latest one verbatim
+    const dropped = [];
+    while (history.length > 2 && overBudget()) {
+      dropped.push(...history.splice(0, 2));
+    }
+    
+    if (dropped.length > 0) {
+      summary = AIService.summarizeConversation(summary, dropped, sessionId);
+    }
+    
+    return { history: history, summary: summary };
+  },
+  
+  /**
+   * Cap a single turn so one long message cannot take the whole budget
+   * @param {string} text - Turn content
+   * @returns {string} Content of at most 1000 characters
+   */
+  truncateTurn(text) {
+    const content = String(text || '').trim();
+    return content.length > 1000 ? `${content.substring(0, 997)}...` : content;
+  },
+  
+  /**
+   * Wrap a raw AIService result in the chat response format with the sources it cited,
+   * falling back to the default response when the provider failed
+   * @param {Object} aiResponse - Result of AIService.generateResponse
+   * @param {string} message - User message
+   * @param {string} sessionId - Session identifier
+   * @param {Object|null} knowledge - Knowledge the prompt was built with
+   * @returns {Object} ai response, or no_answer when the knowledge base does not cover the question
+   */
+  buildAIResponse(aiResponse, message, sessionId, knowledge = null) {
+    if (!aiResponse.success) {
       return this.handleDefault(message, sessionId);
     }
+    
+    const answer = KnowledgeService.answer(aiResponse.content, knowledge);
+    
+    return {
+      success: true,
+      type: answer.type,
+      message: answer.message,
+      sources: answer.sources,
+      provider: aiResponse.provider,
+      context: aiResponse.contextSent,
+      showMenu: true,
+      timestamp: new Date().toISOString()
+    };
   },
   
   /**
@@ -234,18 +500,23 @@ const ChatService = {
     const currentTime = new Date();
     const businessHours = ConfigService.getBusinessHours();
     const isBusinessHours = MenuService.isWithinBusinessHours(currentTime, businessHours);
+    const nextOpening = isBusinessHours ? null : BusinessHoursService.getNextOpening(currentTime, businessHours);
+    const status = isBusinessHours ? 'pending' : 'after_hours';
     
-    LoggingService.logEscalation(sessionId, message, isBusinessHours ? 'pending' : 'after_hours');
+    const ticket = sessionId ? EscalationService.openTicket(sessionId, message, status) : null;
+    LoggingService.logEscalation(sessionId, message, status);
     
     const escalationMessage = isBusinessHours 
-      ? 'Te conectaré con un agente humano. Por favor espera un momento mientras te transfiero.'
-      : 'Actualmente estamos fuera del horario de atención. Tu consulta será atendida en el próximo horario hábil.';
+      ? I18nService.t('escalation.transferring')
+      : BusinessHoursService.getAfterHoursMessage(businessHours, nextOpening);
     
     return {
       success: true,
       type: 'escalation',
       message: escalationMessage,
+      ticketId: ticket ? ticket.ticketId : null,
       businessHours: isBusinessHours,
+      nextOpening: nextOpening ? nextOpening.at : null,
       showMenu: false,
       timestamp: currentTime.toISOString()
     };
@@ -258,7 +529,7 @@ const ChatService = {
     return {
       success: true,
       type: 'default',
-      message: 'Entiendo tu consulta. ¿Te gustaría ver el menú de opciones disponibles o prefieres que te conecte con un agente humano?',
+      message: I18nService.t('chat.default'),
       showMenu: true,
       timestamp: new Date().toISOString()
     };
@@ -266,36 +537,21 @@ const ChatService = {
   
   // Helper methods
   
+  /**
+   * Get the stored session, starting over once it has been idle for session_timeout seconds
+   */
   getSessionContext(sessionId) {
-    const properties = PropertiesService.getScriptProperties();
-    const contextKey = `SESSION_${sessionId}`;
-    const contextData = properties.getProperty(contextKey);
-    
-    return contextData ? JSON.parse(contextData) : {};
+    return SessionService.get(sessionId);
   },
   
   updateSessionContext(sessionId, updates) {
-    const properties = PropertiesService.getScriptProperties();
-    const contextKey = `SESSION_${sessionId}`;
     const currentContext = this.getSessionContext(sessionId);
-    
-    const newContext = { ...currentContext, ...updates };
-    properties.setProperty(contextKey, JSON.stringify(newContext));
-  },
-  
-  containsOrderKeywords(message) {
-    const orderKeywords = ['pedido', 'orden', 'compra', 'envío', 'seguimiento', 'rastreo', 'entrega'];
-    return orderKeywords.some(keyword => message.includes(keyword));
-  },
-  
-  containsProductKeywords(message) {
-    const productKeywords = ['producto', 'artículo', 'disponibilidad', 'precio', 'stock', 'característica'];
-    return productKeywords.some(keyword => message.includes(keyword));
+    SessionService.save(sessionId, { ...currentContext, ...updates });
   },
   
-  containsEscalationKeywords(message) {
-    const escalationKeywords = ['agente', 'humano', 'persona', 'hablar', 'representante', 'ayuda directa'];
-    return escalationKeywords.some(keyword => message.includes(keyword));
+  containsShipmentKeywords(message) {
+    const shipmentKeywords = ['envío', 'envio', 'seguimiento', 'rastreo', 'entrega', 'llega', 'correo', 'tracking'];
+    return shipmentKeywords.some(keyword => message.includes(keyword));
   },
   
   extractOrderId(message) {
@@ -305,31 +561,157 @@ const ChatService = {
     return match ? match[0] : null;
   },
   
+  extractBuyer(message) {
+    // Only the explicit "usuario: 987654321", "apodo: @juanp" forms, so "el usuario es nuevo" is not a buyer
+    const buyerPattern = /\b(?:comprador|usuario|nickname|apodo)\s*:\s*@?([A-Za-z0-9._-]{3,40})\b/i;
+    const match = message.match(buyerPattern);
+    if (!match) {
+      return null;
+    }
+    return /^\d+$/.test(match[1]) ? { id: match[1] } : { nickname: match[1] };
+  },
+  
   extractProductId(message) {
-    // Look for ML product ID patterns (MLA followed by numbers)
-    const productIdPattern = /MLA\d+/i;
+    // A site prefix and the item number, also as written in listing URLs: MLM123456, mlb-123456
+    const sites = Object.keys(MercadoLibreService.SITES).join('|');
+    const productIdPattern = new RegExp(`\\b(${sites})-?(\\d{6,})\\b`, 'i');
     const match = message.match(productIdPattern);
-    return match ? match[0] : null;
+    return match ? `${match[1].toUpperCase()}${match[2]}` : null;
+  },
+  
+  extractSearchTerms(message) {
+    // "¿Tienen zapatillas running en talle 42?" -> "zapatillas running talle 42"
+    const terms = message
+      .toLowerCase()
+      .replace(/[¿?¡!.,;:()"']/g, ' ')
+      .split(/\s+/)
+      .filter(word => word && !this.SEARCH_STOPWORDS.includes(word));
+    
+    return terms.length > 0 ? terms.join(' ') : null;
+  },
+  
+  formatOrderInfo(orderData, timeline = []) {
+    const t = key => I18nService.t(key);
+    const status = MercadoLibreService.statusLabel('order', orderData.status);
+    
+    return `📦 **${t('order.title')}**
+    
+**${t('order.number')}:** ${orderData.id}
+**${t('order.status')}:** ${status}
+**${t('order.total')}:** ${MercadoLibreService.formatPrice(orderData.total_amount, orderData.currency_id)}
+**${t('order.date')}:** ${I18nService.formatDate(orderData.date_created)}
+${this.formatTimeline(timeline)}
+${t('order.more')}`;
   },
   
-  formatOrderInfo(orderData) {
-    return `📦 **Información del Pedido**
+  formatShipmentInfo(orderData, shipment, timeline = []) {
+    const t = key => I18nService.t(key);
+    const lines = [
+      `🚚 **${I18nService.t('shipment.title', { orderId: orderData.id })}**`,
+      '',
+      `**${t('order.status')}:** ${shipment.statusLabel}`
+    ];
+    if (shipment.carrier) {
+      lines.push(`**${t('shipment.carrier')}:** ${shipment.carrier}`);
+    }
+    if (shipment.trackingNumber) {
+      lines.push(`**${t('shipment.tracking_number')}:** ${shipment.trackingNumber}`);
+    }
+    if (shipment.estimatedDelivery && shipment.status !== 'delivered') {
+      lines.push(`**${t('shipment.estimated_delivery')}:** ${I18nService.formatDate(shipment.estimatedDelivery)}`);
+    }
     
-**Número:** ${orderData.id}
-**Estado:** ${orderData.status}
-**Total:** $${orderData.total_amount}
-**Fecha:** ${new Date(orderData.date_created).toLocaleDateString()}
+    return `${lines.join('\n')}
+${this.formatTimeline(timeline)}
+${t('shipment.more')}`;
+  },
+  
+  formatOrderList(buyer, orders) {
+    const name = buyer.nickname || buyer.id;
+    
+    if (orders.length === 0) {
+      return I18nService.t('order_list.empty', { name: name });
+    }
+    
+    const lines = orders.map(order =>
+      `• **${order.id}** · ${order.statusLabel} · ${MercadoLibreService.formatPrice(order.total, order.currency)} · ${I18nService.formatDate(order.date)}${order.title ? ` · ${order.title}` : ''}`);
+    
+    return `🧾 **${I18nService.t('order_list.title', { name: name })}**
+
+${lines.join('\n')}
 
-¿Necesitas más información sobre este pedido?`;
+${I18nService.t('order_list.more')}`;
+  },
+  
+  formatTimeline(timeline) {
+    if (timeline.length === 0) {
+      return '';
+    }
+    
+    const lines = timeline.map(entry => `• ${I18nService.formatDate(entry.at, true)} · ${entry.label}`);
+    
+    return `
+**${I18nService.t('order.history')}:**
+${lines.join('\n')}
+`;
   },
   
   formatProductInfo(productData) {
-    return `🛍️ **${productData.title}**
+    const siteId = productData.site_id || MercadoLibreService.getSiteId(productData.id);
+    const price = amount => MercadoLibreService.formatPrice(amount, productData.currency_id, siteId);
+    const variations = productData.variations || [];
+    const t = key => I18nService.t(key);
+    const condition = I18nService.MESSAGES[`product.condition.${productData.condition}`]
+      ? t(`product.condition.${productData.condition}`)
+      : productData.condition;
     
-**Precio:** $${productData.price}
-**Disponibles:** ${productData.available_quantity}
-**Condición:** ${productData.condition}
-
-¿Te interesa este producto o necesitas más información?`;
+    const lines = [
+      `🛍️ **${productData.title}**`,
+      '',
+      `**${t('product.price')}:** ${price(productData.price)}`,
+      `**${t('product.available')}:** ${productData.available_quantity}`,
+      `**${t('product.condition')}:** ${condition}`
+    ];
+    
+    if (variations.length > 0) {
+      lines.push('', `**${t('product.variations')}:**`);
+      variations.forEach(variation => {
+        const name = (variation.attribute_combinations || [])
+          .map(attribute => `${attribute.name} ${attribute.value_name}`)
+          .join(' · ') || I18nService.t('product.variation', { id: variation.id });
+        const stock = variation.available_quantity > 0
+          ? I18nService.t('product.in_stock', { count: variation.available_quantity })
+          : t('product.out_of_stock');
+        const variationPrice = variation.price && variation.price !== productData.price ? ` · ${price(variation.price)}` : '';
+        lines.push(`• ${name}: ${stock}${variationPrice}`);
+      });
+    }
+    
+    if (productData.permalink) {
+      lines.push('', `${t('product.listing')}: ${productData.permalink}`);
+    }
+    
+    lines.push('', t('product.more'));
+    return lines.join('\n');
+  },
+  
+  formatProductSearch(search) {
+    const title = search.total === 1
+      ? I18nService.t('search.title_one', { query: search.query })
+      : I18nService.t('search.title_many', { count: search.total, query: search.query });
+    const lines = [`🔎 **${title}**`, ''];
+    
+    search.results.forEach(item => {
+      const stock = item.availableQuantity === null
+        ? ''
+        : ` · ${item.availableQuantity > 0 ? I18nService.t('product.in_stock', { count: item.availableQuantity }) : I18nService.t('product.out_of_stock')}`;
+      lines.push(`• **${item.title}** (${item.id}): ${item.priceLabel}${stock}`);
+      if (item.permalink) {
+        lines.push(`  ${item.permalink}`);
+      }
+    });
+    
+    lines.push('', I18nService.t('search.more'));
+    return lines.join('\n');
   }
 };
\ No newline at end of file
@@ -0,0 +1,2561 @@
+/**
+ * Chatbot Client - Typed access to the Apps Script web app API
+ *
+ * This module wraps the doGet/doPost endpoints in src/main.gs:
+ * - Discriminated-union types for every response the backend returns
+ * - Request timeouts, and retries of reads on network failure
+ * - Runtime validation that rejects malformed payloads
+ *
+ * It has no React dependency so the website widget can import it as-is.
+ */
+
+export type ChatAction = 'getMenu' | 'processSelection' | 'sendMessage';
+
+export type MenuResponseType = 'static' | 'ai' | 'escalate' | 'submenu' | 'flow';
+
+/** Answer checks available to flow steps (FlowService.VALIDATORS) */
+export type FlowValidator = 'text' | 'email' | 'order_id' | 'number';
+
+export interface FlowStep {
+  /** Key the answer is stored under, usable as {field} in completionMessage */
+  field: string;
+  prompt: string;
+  validate: FlowValidator | string;
+  /** Shown before the prompt when the answer fails validation */
+  error?: string;
+}
+
+/** Multi-step flow stored as JSON in the Flujo column of Menu_Config */
+export interface FlowDefinition {
+  steps: FlowStep[];
+  onComplete: 'message' | 'order_lookup' | 'escalate' | string;
+  completionMessage?: string;
+}
+
+/** Language codes the backend can answer in (I18nService.LANGUAGES) */
+export type LanguageCode = 'es' | 'pt' | 'en';
+
+export interface LanguageInfo {
+  code: LanguageCode;
+  name: string;
+}
+
+/** Texts of a menu option in a Traducción (xx) column of Menu_Config */
+export type MenuTranslation = Partial<Pick<MenuOption, 'title' | 'response' | 'escalationMessage' | 'afterHoursMessage' | 'fallbackResponse'>> & {
+  /** Flows only */
+  completionMessage?: string;
+  /** Flows only: step field → its translated texts */
+  steps?: Record<string, Partial<Pick<FlowStep, 'prompt' | 'error'>>>;
+};
+
+/** A row of Menu_Config as returned by MenuService.getMenu() */
+export interface MenuOption {
+  number: number | string;
+  title: string;
+  responseType: MenuResponseType | string;
+  response?: string;
+  aiProvider?: string;
+  aiContext?: string;
+  escalationMessage?: string;
+  afterHoursMessage?: string;
+  fallbackResponse?: string;
+  returnToMenu?: boolean;
+  active?: boolean;
+  maxTokens?: number;
+  flow?: FlowDefinition | null;
+  /** Texts in other languages; missing ones fall back to the default language */
+  translations?: Partial<Record<LanguageCode, MenuTranslation>>;
+}
+
+/** Subset of a MercadoLibre order used by ChatService.formatOrderInfo */
+export interface OrderData {
+  id: number | string;
+  status: string;
+  total_amount: number;
+  date_created: string;
+  [key: string]: unknown;
+}
+
+/** Subset of a MercadoLibre item used by ChatService.formatProductInfo */
+export interface ProductData {
+  id: string;
+  title: string;
+  price: number;
+  available_quantity: number;
+  condition: string;
+  site_id?: string;
+  currency_id?: string;
+  permalink?: string;
+  variations?: {
+    id: number | string;
+    price?: number;
+    available_quantity: number;
+    attribute_combinations?: { name: string; value_name: string }[];
+  }[];
+  [key: string]: unknown;
+}
+
+/** One of our listings found by MercadoLibreService.searchSellerItems */
+export interface ProductMatch {
+  id: string;
+  title: string;
+  price: number;
+  /** Price formatted for the item's site, e.g. "$ 89.999" or "R$ 349,90" */
+  priceLabel: string;
+  currency: string | null;
+  availableQuantity: number | null;
+  permalink: string | null;
+  thumbnail: string | null;
+}
+
+interface ResponseBase {
+  timestamp?: string;
+}
+
+export interface MenuResponse extends ResponseBase {
+  success: true;
+  type: 'menu';
+  businessHours: boolean;
+  /** When agents are next available, set outside business hours */
+  nextOpening?: string | null;
+  greeting: string;
+  options: MenuOption[];
+  footer: string;
+  /** Number of the submenu being shown, '' for the top menu */
+  path: string;
+  /** Titles from the top menu down to the current submenu */
+  breadcrumb: string[];
+  /** Language the menu is in, detected or from the lang parameter */
+  language?: LanguageCode;
+}
+
+export interface StaticResponse extends ResponseBase {
+  success: true;
+  type: 'static';
+  title: string;
+  message: string;
+  showMenu: boolean;
+}
+
+export interface AIContextMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/** What AIService sent to the model for a chat answer */
+export interface AIContextSent {
+  /** Running summary of turns that no longer fit the transcript */
+  summary: string | null;
+  /** Transcript turns plus the current message, oldest first */
+  messages: AIContextMessage[];
+  /** Stored turns before this message */
+  historyTurns: number;
+  /** About 4 characters per token, system prompt included */
+  estimatedTokens: number;
+}
+
+export interface AIResponse extends ResponseBase {
+  success: true;
+  type: 'ai';
+  title?: string;
+  message: string;
+  provider: string;
+  /** Knowledge_Base entries the answer cites, also listed at the end of message */
+  sources: KnowledgeSource[];
+  /** Present on sendMessage answers */
+  context?: AIContextSent;
+  showMenu: boolean;
+}
+
+/**
+ * The knowledge base did not cover the question; the message offers an agent,
+ * and replying "sí" (or "sim", "yes") to it escalates with the question as the reason.
+ */
+export interface NoAnswerResponse extends ResponseBase {
+  success: true;
+  type: 'no_answer';
+  title?: string;
+  message: string;
+  provider: string;
+  showMenu: boolean;
+}
+
+export interface EscalationResponse extends ResponseBase {
+  success: true;
+  type: 'escalation';
+  title?: string;
+  message: string;
+  /** Ticket in the agent queue; null when the request had no session */
+  ticketId: string | null;
+  businessHours: boolean;
+  /** When agents are next available, set outside business hours */
+  nextOpening?: string | null;
+  showMenu: boolean;
+}
+
+export type EscalationStatus = 'pending' | 'assigned' | 'resolved' | 'after_hours';
+
+/** Acknowledgement of a message that went to the agent instead of the bot */
+export interface AgentResponse extends ResponseBase {
+  success: true;
+  type: 'agent';
+  message: string;
+  ticketId: string;
+  status: EscalationStatus;
+  agent: string | null;
+  showMenu: boolean;
+}
+
+/** An order, payment or shipment state change */
+export interface TimelineEntry {
+  at: string;
+  source: 'order' | 'payment' | 'shipment';
+  status: string;
+  label: string;
+}
+
+/** Tracking fields of a MercadoLibre shipment */
+export interface ShipmentSummary {
+  id: string;
+  status: string;
+  statusLabel: string;
+  substatus: string | null;
+  carrier: string | null;
+  trackingNumber: string | null;
+  /** Shipping option, e.g. "Estándar a domicilio" */
+  service: string | null;
+  estimatedDelivery: string | null;
+}
+
+/** One order of a buyer's order list */
+export interface OrderSummary {
+  id: string;
+  status: string;
+  statusLabel: string;
+  total: number;
+  currency: string | null;
+  date: string;
+  /** Title of the first item */
+  title: string | null;
+}
+
+export interface OrderInfoResponse extends ResponseBase {
+  success: true;
+  type: 'order_info';
+  message: string;
+  data: OrderData;
+  /** Null when the order has no shipment or it could not be loaded */
+  shipment: ShipmentSummary | null;
+  /** Oldest first */
+  timeline: TimelineEntry[];
+  showMenu: boolean;
+}
+
+export interface ShipmentInfoResponse extends ResponseBase {
+  success: true;
+  type: 'shipment_info';
+  message: string;
+  orderId: string;
+  shipment: ShipmentSummary;
+  /** Oldest first */
+  timeline: TimelineEntry[];
+  showMenu: boolean;
+}
+
+/** Recent orders of a buyer looked up by nickname or ID */
+export interface OrderListResponse extends ResponseBase {
+  success: true;
+  type: 'order_list';
+  message: string;
+  buyer: { id: string | null; nickname: string | null };
+  /** Newest first; empty when the buyer has no orders with us */
+  orders: OrderSummary[];
+  showMenu: boolean;
+}
+
+export interface ProductInfoResponse extends ResponseBase {
+  success: true;
+  type: 'product_info';
+  message: string;
+  data: ProductData;
+  showMenu: boolean;
+}
+
+/** One step of a multi-step flow, or its completion message */
+export interface FlowResponse extends ResponseBase {
+  success: true;
+  type: 'flow';
+  title: string;
+  message: string;
+  step: number;
+  totalSteps: number;
+  completed: boolean;
+  /** False when the previous answer was rejected and the step is asked again */
+  valid: boolean;
+  /** The 0 "back" option, on steps that can't take 0 as an answer */
+  options: MenuOption[];
+  showMenu: boolean;
+}
+
+export interface DefaultResponse extends ResponseBase {
+  success: true;
+  type: 'default';
+  message: string;
+  showMenu: boolean;
+}
+
+export type ThrottleReason = 'session' | 'global' | 'too_long' | 'duplicate';
+
+/** A chat request rejected by the rate limits before it reached the bot */
+export interface ThrottledResponse extends ResponseBase {
+  success: true;
+  type: 'throttled';
+  reason: ThrottleReason;
+  message: string;
+  /** Seconds until the limit lets another request through; null for too_long and duplicate */
+  retryAfter: number | null;
+  showMenu: boolean;
+}
+
+/**
+ * Failed requests. The backend reports these with success: false and either
+ * `error` or `message`; the client normalizes both into `error`.
+ */
+export interface ErrorResponse extends ResponseBase {
+  success: false;
+  type: 'error';
+  error: string;
+  showMenu: boolean;
+}
+
+/** Our listings that match a product question without an item ID */
+export interface ProductSearchResponse extends ResponseBase {
+  success: true;
+  type: 'product_search';
+  message: string;
+  /** Words searched for, after dropping the rest of the question */
+  query: string;
+  /** Matches on the site, of which results holds the first product_search_results */
+  total: number;
+  results: ProductMatch[];
+  showMenu: boolean;
+}
+
+export type ChatbotResponse =
+  | MenuResponse
+  | StaticResponse
+  | AIResponse
+  | NoAnswerResponse
+  | EscalationResponse
+  | AgentResponse
+  | OrderInfoResponse
+  | ShipmentInfoResponse
+  | OrderListResponse
+  | ProductInfoResponse
+  | ProductSearchResponse
+  | FlowResponse
+  | DefaultResponse
+  | ThrottledResponse
+  | ErrorResponse;
+
+export type ChatbotResponseType = ChatbotResponse['type'];
+
+export interface DailyStats {
+  total: number;
+  successful: number;
+  escalations: number;
+}
+
+/** LoggingService.getAnalytics() output */
+export interface Analytics {
+  totalInteractions: number;
+  interactionsByType: Record<string, number>;
+  successRate: number;
+  averageResponseTime: number;
+  escalationRate: number;
+  aiUsage: Record<string, number>;
+  /** Interaction count per hour of day (0-23) */
+  busyHours: Record<string, number>;
+  /** Interaction count per day of week (0 = Sunday), then per hour */
+  busyHoursByDay: Record<string, Record<string, number>>;
+  /** Keyed by YYYY-MM-DD */
+  dailyStats: Record<string, DailyStats>;
+  /** Requests rejected by the rate limits; not counted in the figures above */
+  throttled: ThrottledStats;
+}
+
+export interface ThrottledStats {
+  total: number;
+  byReason: Record<string, number>;
+  /** Keyed by YYYY-MM-DD */
+  daily: Record<string, number>;
+  /** Sessions with the most throttled requests, at most 5 */
+  topSessions: Array<{ sessionId: string; count: number }>;
+}
+
+export interface DateRange {
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface AnalyticsReport {
+  range: { startDate: string | null; endDate: string | null };
+  analytics: Analytics;
+  timestamp?: string;
+}
+
+export interface LogEntry {
+  timestamp: string;
+  sessionId: string;
+  interactionType: string;
+  userMessage: string;
+  botResponse: string;
+  provider: string;
+  responseTime: number;
+  status: string;
+  metadata: Record<string, unknown>;
+}
+
+export interface LogQuery extends DateRange {
+  interactionType?: string;
+  sessionId?: string;
+  status?: string;
+  /** Free text matched against session, messages and provider */
+  search?: string;
+  page?: number;
+  pageSize?: number;
+  /** 'desc' (newest first) by default; 'asc' replays a conversation in order */
+  order?: 'asc' | 'desc';
+}
+
+export interface LogsPage {
+  entries: LogEntry[];
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+export interface MenuConfig {
+  items: MenuOption[];
+  responseTypes: string[];
+  aiProviders: string[];
+  flowValidators: string[];
+  flowCompletions: string[];
+  /** Language of the main columns */
+  defaultLanguage: LanguageCode;
+  /** Enabled languages, the default one first */
+  languages: LanguageInfo[];
+}
+
+/** Dashboard override for a provider; auto follows the circuit breaker */
+export type AIProviderMode = 'auto' | 'enabled' | 'disabled';
+
+export type AIProviderStatus = 'healthy' | 'degraded' | 'open' | 'disabled' | 'unconfigured';
+
+/** Calls recorded through LoggingService.logAIPerformance in the last 24 hours */
+export interface AIProviderStats {
+  calls: number;
+  failures: number;
+  /** Percentage, 0-100 */
+  errorRate: number;
+  averageResponseTime: number;
+}
+
+export interface AIProviderHealth {
+  provider: string;
+  status: AIProviderStatus;
+  mode: AIProviderMode;
+  /** False when the provider's API key is missing from Script Properties */
+  configured: boolean;
+  /** Position in the failover chain, -1 when the provider is not in it */
+  chainPosition: number;
+  consecutiveFailures: number;
+  /** Set while the circuit is open and the provider is skipped */
+  openUntil: string | null;
+  lastError: string | null;
+  lastFailureAt: string | null;
+  lastSuccessAt: string | null;
+  stats: AIProviderStats;
+}
+
+/** AIService.getHealthReport() output */
+export interface AIHealthReport {
+  providers: AIProviderHealth[];
+  chain: string[];
+  failureThreshold: number;
+  /** Seconds a provider is skipped once its circuit opens */
+  circuitCooldown: number;
+  /** Milliseconds after which an answer counts as a failure */
+  timeout: number;
+  timestamp?: string;
+}
+
+/** One row of the Sessions sheet, as listed by getSessions */
+export interface SessionSummary {
+  sessionId: string;
+  createdAt: string;
+  updatedAt: string;
+  /** When the session ends unless the visitor writes again */
+  expiresAt: string;
+  /** Turns kept in the conversation history */
+  messageCount: number;
+  lastMessage: string | null;
+  menuPath: string;
+  /** Menu option of the flow in progress */
+  activeFlow: string | null;
+}
+
+/** SessionService.getSessionsReport() output */
+export interface SessionsReport {
+  active: number;
+  sessions: SessionSummary[];
+  /** session_timeout in seconds */
+  timeout: number;
+  timestamp?: string;
+}
+
+export interface SessionDetail extends SessionSummary {
+  /** Everything stored for the session: history, summary, menu and flow state */
+  data: Record<string, unknown>;
+}
+
+/** A message on an escalation ticket */
+export interface TicketMessage {
+  from: 'customer' | 'agent' | 'system';
+  text: string;
+  at: string;
+  /** Set on agent messages */
+  agent?: string;
+}
+
+/** getUpdates output: agent messages waiting for the customer */
+export interface SessionUpdates {
+  messages: TicketMessage[];
+  /** The session's open ticket, null once it is resolved */
+  escalation: { ticketId: string; status: EscalationStatus; agent: string | null } | null;
+  timestamp?: string;
+}
+
+export interface EscalationTicket {
+  ticketId: string;
+  sessionId: string;
+  reason: string;
+  status: EscalationStatus;
+  agent: string | null;
+  createdAt: string;
+  assignedAt: string | null;
+  resolvedAt: string | null;
+  updatedAt: string;
+  messageCount: number;
+  /** The customer wrote last and is waiting for an answer */
+  awaitingAgent: boolean;
+  lastCustomerMessage: string | null;
+}
+
+/** Filter for getEscalations: open covers pending, assigned and after_hours */
+export type EscalationFilter = 'open' | 'all' | EscalationStatus;
+
+/** EscalationService.getQueue() output */
+export interface EscalationQueue {
+  tickets: EscalationTicket[];
+  counts: Record<EscalationStatus, number>;
+  /** escalation_timeout in seconds */
+  timeout: number;
+  timestamp?: string;
+}
+
+export interface EscalationDetail {
+  ticket: EscalationTicket & { messages: TicketMessage[] };
+  /** Bot conversation that led to the escalation */
+  transcript: AIContextMessage[];
+  summary: string | null;
+}
+
+/** Opening and closing time, HH:mm; a day can have several (split shifts) */
+export interface Shift {
+  start: string;
+  end: string;
+}
+
+/** Weekly schedule entry; day 0 is Sunday */
+export interface BusinessDay {
+  day: number;
+  shifts: Shift[];
+}
+
+/** Row of the Holidays sheet; no shifts means closed all day */
+export interface Holiday {
+  /** yyyy-MM-dd; recurring holidays match the month and day every year */
+  date: string;
+  name: string;
+  shifts: Shift[];
+  recurring: boolean;
+}
+
+/** What updateBusinessHours saves */
+export interface BusinessHoursConfig {
+  /** IANA timezone the schedule is evaluated in */
+  timezone: string;
+  days: BusinessDay[];
+  holidays: Holiday[];
+}
+
+export interface NextOpening {
+  at: string;
+  /** Customer-facing, e.g. "mañana a las 09:00" */
+  display: string;
+}
+
+/** BusinessHoursService.getReport() output */
+export interface BusinessHoursReport extends BusinessHoursConfig {
+  display: string;
+  open: boolean;
+  nextOpening: NextOpening | null;
+  timestamp?: string;
+}
+
+/** BusinessHoursService.simulate() output */
+export interface BusinessHoursSimulation {
+  at: string;
+  local: { date: string; time: string; day: number };
+  timezone: string;
+  open: boolean;
+  /** Name of the holiday row that applies, if any */
+  holiday: string | null;
+  shifts: Shift[];
+  nextOpening: NextOpening | null;
+  greeting: string;
+  escalationMessage: string;
+}
+
+export type SettingType = 'text' | 'integer' | 'time' | 'days' | 'timezone' | 'enum' | 'list' | 'shifts';
+
+export type SettingValue = string | number;
+
+/** A key of the Settings sheet, as declared in ConfigService.SCHEMA */
+export interface SettingField {
+  key: string;
+  type: SettingType;
+  /** business_hours, messages, ai, sessions or languages */
+  group: string;
+  description: string;
+  /** Optional keys have no default and are left out of the sheet when unset */
+  default?: SettingValue;
+  optional: boolean;
+  min?: number;
+  max?: number;
+  maxLength?: number;
+  /** Allowed values of enum and list settings */
+  options?: string[];
+  unit?: string;
+  /** Has a text per language in the Valor (xx) columns */
+  translatable: boolean;
+}
+
+/** Language code → settings key → text */
+export type SettingTranslations = Partial<Record<LanguageCode, Record<string, string>>>;
+
+/** ConfigService.getSettingsReport() output */
+export interface SettingsReport {
+  fields: SettingField[];
+  values: Record<string, SettingValue>;
+  translations: SettingTranslations;
+  /** Language of the Valor column */
+  defaultLanguage: LanguageCode;
+  /** Enabled languages, the default one first */
+  languages: LanguageInfo[];
+  /** Problems with the values currently in the sheet, field being the settings key */
+  errors: ValidationIssue[];
+  timestamp?: string;
+}
+
+export type IntentName = 'menu_request' | 'order_inquiry' | 'product_inquiry' | 'escalation' | 'general_ai';
+
+/** A row of the Intents sheet, as read by IntentService.getRules() */
+export interface IntentRule {
+  /** Sheet row number */
+  row: number;
+  intent: string;
+  keywords: string[];
+  /** Regular expressions, matched case-insensitively */
+  patterns: string[];
+  /** Entities that count as evidence: order_id, item_id, email or buyer */
+  entities: string[];
+  /** Breaks ties between intents with the same score */
+  priority: number;
+  /** Inactive rows, and rows for an intent the bot cannot answer, are never chosen */
+  active: boolean;
+  description: string;
+  /** Invalid patterns, unknown entities and unknown intents */
+  errors: string[];
+}
+
+/** Thresholds of the intent settings, as fractions */
+export interface IntentSettings {
+  minScore: number;
+  aiMode: 'off' | 'fallback';
+  aiMinConfidence: number;
+}
+
+/** IntentService.getReport() output */
+export interface IntentsReport {
+  intents: IntentRule[];
+  settings: IntentSettings;
+  timestamp?: string;
+}
+
+export interface IntentMatch {
+  type: 'keyword' | 'pattern' | 'entity';
+  value: string;
+}
+
+/** A rule that matched, scored */
+export interface IntentCandidate {
+  intent: string;
+  /** 0 to 1 */
+  score: number;
+  priority: number;
+  matches: IntentMatch[];
+}
+
+/** Entities found in a message; absent keys were not found */
+export interface IntentEntities {
+  order_id?: string;
+  item_id?: string;
+  email?: string;
+  buyer?: { id?: string; nickname?: string };
+}
+
+/** IntentService.test() output */
+export interface IntentTestResult {
+  message: string;
+  intent: IntentName;
+  /** 0 to 1: the rule score, or the AI confidence when source is 'ai' */
+  score: number;
+  /** 'default' when neither the rules nor the AI were sure enough */
+  source: 'rules' | 'ai' | 'default';
+  entities: IntentEntities;
+  candidates: IntentCandidate[];
+  /** Answer of the AI step when it ran, even if its confidence was too low */
+  ai: { intent: IntentName; confidence: number; provider: string } | null;
+  settings: IntentSettings;
+  timestamp?: string;
+}
+
+export type KnowledgeEntryType = 'faq' | 'policy';
+
+/** A row of the Knowledge_Base sheet */
+export interface KnowledgeEntry {
+  /** Blank on new entries; the backend assigns the next KB-nnn */
+  id: string;
+  type: KnowledgeEntryType;
+  /** Question of a faq entry, name of a policy */
+  title: string;
+  content: string;
+  tags: string[];
+  active: boolean;
+  /** Sheet row, on entries read from the sheet */
+  row?: number;
+  /** Duplicate IDs, unknown types and missing content */
+  errors?: string[];
+}
+
+/** Retrieval settings, confidence as a fraction */
+export interface KnowledgeSettings {
+  maxResults: number;
+  minConfidence: number;
+}
+
+/** KnowledgeService.getReport() output */
+export interface KnowledgeReport {
+  entries: KnowledgeEntry[];
+  settings: KnowledgeSettings;
+  timestamp?: string;
+}
+
+/** An entry cited by an AI answer, numbered as in the prompt */
+export interface KnowledgeSource {
+  number: number;
+  id: string;
+  title: string;
+}
+
+/** An entry ranked for a question */
+export interface KnowledgeResult {
+  id: string;
+  type: KnowledgeEntryType;
+  title: string;
+  content: string;
+  /** BM25 score, only comparable within one question */
+  score: number;
+  /** 0 to 1: share of the question's weight the entry matches */
+  confidence: number;
+  /** Question terms found in the entry */
+  matches: string[];
+  /** Set on results sent to the AI as sources */
+  number?: number;
+}
+
+/** KnowledgeService.test() output */
+export interface KnowledgeTestResult {
+  question: string;
+  /** The question's search terms, after dropping stopwords and endings */
+  terms: string[];
+  /** Best entries, up to maxResults */
+  results: KnowledgeResult[];
+  /** Results confident enough to be sent to the AI */
+  sources: KnowledgeResult[];
+  confident: boolean;
+  /** null when every AI provider failed; see error */
+  answer: { type: 'ai' | 'no_answer'; message: string; provider: string; sources: KnowledgeSource[] } | null;
+  error?: string;
+  settings: KnowledgeSettings;
+  timestamp?: string;
+}
+
+export type ChannelId = 'whatsapp' | 'telegram';
+
+/** A messaging app the chatbot answers through its webhook */
+export interface ChannelStatus {
+  id: ChannelId;
+  name: string;
+  enabled: boolean;
+  /**
+   * Credentials by dashboard field: accessToken, phoneNumberId and verifyToken on
+   * WhatsApp, botToken and webhookSecret on Telegram. Tokens come masked as ••••1234.
+   */
+  fields: Record<string, string>;
+  /** Script Properties still unset */
+  missing: string[];
+  /** Query to append to the web app URL for the webhook; null until the secret is set */
+  webhookQuery: string | null;
+  lastMessageAt: string | null;
+  /** Last failed send, e.g. an expired token */
+  lastError: string | null;
+  lastErrorAt: string | null;
+}
+
+/** ChannelService.getReport() output */
+export interface ChannelsReport {
+  channels: ChannelStatus[];
+  timestamp?: string;
+}
+
+export interface ChannelUpdate {
+  channel: ChannelId;
+  enabled?: boolean;
+  /** Blank values keep the stored credential */
+  values?: Record<string, string>;
+  /** Telegram only: web app URL to register as the bot's webhook */
+  webAppUrl?: string;
+}
+
+/** A customer message found in a webhook payload */
+export interface ChannelHandledMessage {
+  sessionId: string;
+  /** null for media the bot cannot read */
+  action: 'getMenu' | 'processSelection' | 'sendMessage' | null;
+  userInput: string | null;
+  responseType: string | null;
+  response: ChatbotResponse;
+}
+
+/** A request to the WhatsApp or Telegram API, with the token masked */
+export interface ChannelOutgoingRequest {
+  /** Telegram method, or "messages" on WhatsApp */
+  method: string;
+  url: string;
+  payload: Record<string, unknown>;
+  ok: boolean;
+  /** null on replays, which send nothing */
+  status: number | null;
+  error: string | null;
+}
+
+/** ChannelService.replay() output */
+export interface ChannelReplayResult {
+  channel: ChannelId;
+  handled: ChannelHandledMessage[];
+  outgoing: ChannelOutgoingRequest[];
+  timestamp?: string;
+}
+
+export type DiagnosticStatus = 'pass' | 'warn' | 'fail' | 'skipped';
+
+/** One check of DiagnosticsService.run() */
+export interface DiagnosticCheck {
+  /** Stable identifier, e.g. "sheets" or "property:GEMINI_API_KEY" */
+  id: string;
+  /** Setup wizard step it verifies: spreadsheet, apps-script, properties, initialize or test */
+  step: string;
+  title: string;
+  status: DiagnosticStatus;
+  message: string;
+  /** What to do about a failing, warning or skipped check */
+  fix: string | null;
+}
+
+export interface DiagnosticsReport {
+  /** No check failed */
+  ready: boolean;
+  checks: DiagnosticCheck[];
+  timestamp?: string;
+}
+
+export type Role = 'viewer' | 'agent' | 'admin';
+
+/** A dashboard sign-in, as returned by the login action */
+export interface AuthSession {
+  token: string;
+  user: string;
+  role: Role;
+  /** ISO time the token stops being accepted */
+  expiresAt: string;
+  /** Dashboard actions the role may call */
+  actions: string[];
+}
+
+export type HealthStatus = 'ok' | 'degraded' | 'down' | 'skipped';
+
+/** One component of HealthService.check() */
+export interface HealthComponent {
+  /** e.g. "sheets", "ai:gemini" or "mercadolibre:token" */
+  name: string;
+  /** Down here makes the whole system down */
+  critical: boolean;
+  status: HealthStatus;
+  latencyMs: number;
+  message: string;
+  error: string | null;
+  details: Record<string, unknown>;
+}
+
+export interface HealthReport {
+  /** Down if a critical component is down, degraded if any other is not ok */
+  status: Exclude<HealthStatus, 'skipped'>;
+  /** The AI providers and MercadoLibre were called */
+  deep: boolean;
+  latencyMs: number;
+  components: HealthComponent[];
+  timestamp?: string;
+}
+
+/** A field-level problem reported by a backend save action */
+export interface ValidationIssue {
+  /** Position of the offending item, or -1 for the whole payload */
+  index: number;
+  field: string;
+  message: string;
+}
+
+export type ChatbotClientErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'http'
+  | 'invalid_response'
+  | 'backend'
+  | 'unauthorized'
+  | 'validation'
+  | 'not_found'
+  | 'conflict'
+  | 'forbidden'
+  | 'rate_limited';
+
+/**
+ * Raised when the web app could not be reached or answered with something
+ * that is not a valid chatbot response. Backend-reported failures of chat
+ * actions are returned as ErrorResponse instead; failures of dashboard
+ * actions throw with kind 'backend'.
+ */
+export class ChatbotClientError extends Error {
+  readonly kind: ChatbotClientErrorKind;
+  readonly status?: number;
+  /** Field-level problems when kind is 'validation' */
+  readonly issues: ValidationIssue[];
+
+  constructor(kind: ChatbotClientErrorKind, message: string, status?: number, issues: ValidationIssue[] = []) {
+    super(message);
+    this.name = 'ChatbotClientError';
+    this.kind = kind;
+    this.status = status;
+    this.issues = issues;
+  }
+}
+
+export interface ChatbotClientOptions {
+  /** Deployed web app URL, ending in /exec */
+  baseUrl: string;
+  /** Per-attempt timeout in milliseconds */
+  timeoutMs?: number;
+  /**
+   * Extra attempts after a network failure, timeout or 5xx. Only reads are
+   * retried: a failed chat message or change may still have run on the web app.
+   */
+  retries?: number;
+  /** Base delay between attempts; doubled on each retry */
+  retryDelayMs?: number;
+  /** Custom fetch implementation (tests, server-side rendering) */
+  fetch?: typeof fetch;
+  /** Token from login() for dashboard actions (analytics, logs, menu, AI health, sessions, agent inbox, hours, settings, intents, knowledge base, channels) */
+  token?: string;
+}
+
+export interface ChatbotClient {
+  readonly baseUrl: string;
+  /** Exchange a role's access key (ADMIN_API_KEY, AGENT_API_KEY or VIEWER_API_KEY) for a token */
+  login(user: string, key: string): Promise<AuthSession>;
+  /** `language` is sent as lang and kept for the session; without it the backend detects the language */
+  getMenu(sessionId?: string, language?: LanguageCode): Promise<ChatbotResponse>;
+  processSelection(selection: string | number, sessionId: string, language?: LanguageCode): Promise<ChatbotResponse>;
+  sendMessage(message: string, sessionId: string, language?: LanguageCode): Promise<ChatbotResponse>;
+  getUpdates(sessionId: string): Promise<SessionUpdates>;
+  getAnalytics(range?: DateRange): Promise<AnalyticsReport>;
+  getLogs(query?: LogQuery): Promise<LogsPage>;
+  getMenuConfig(): Promise<MenuConfig>;
+  updateMenu(items: MenuOption[]): Promise<MenuConfig>;
+  getAIHealth(): Promise<AIHealthReport>;
+  setAIProviderMode(provider: string, mode: AIProviderMode): Promise<AIHealthReport>;
+  getSessions(): Promise<SessionsReport>;
+  getSession(sessionId: string): Promise<SessionDetail>;
+  endSession(sessionId: string): Promise<SessionsReport>;
+  getEscalations(status?: EscalationFilter): Promise<EscalationQueue>;
+  getEscalation(ticketId: string): Promise<EscalationDetail>;
+  claimEscalation(ticketId: string, agent: string): Promise<EscalationDetail>;
+  replyEscalation(ticketId: string, agent: string, message: string): Promise<EscalationDetail>;
+  /** Close the ticket, optionally sending a last message to the customer */
+  resolveEscalation(ticketId: string, agent: string, message?: string): Promise<EscalationDetail>;
+  getBusinessHours(): Promise<BusinessHoursReport>;
+  updateBusinessHours(config: BusinessHoursConfig): Promise<BusinessHoursReport>;
+  /** `at` is an ISO instant, or yyyy-MM-ddTHH:mm read in the business timezone */
+  simulateBusinessHours(at: string): Promise<BusinessHoursSimulation>;
+  /** Check the deployment; connection tests run only with an admin token */
+  runDiagnostics(): Promise<DiagnosticsReport>;
+  /** Cheap checks are public; deep checks call the external APIs and need an admin token */
+  getHealth(deep?: boolean): Promise<HealthReport>;
+  getSettings(): Promise<SettingsReport>;
+  /** Save the given keys and translations; keys left out keep their value, empty translations are cleared */
+  updateSettings(values: Record<string, SettingValue>, translations?: SettingTranslations): Promise<SettingsReport>;
+  getIntents(): Promise<IntentsReport>;
+  /** Classify a message the way sendMessage would, without answering it */
+  testIntent(message: string): Promise<IntentTestResult>;
+  getKnowledgeBase(): Promise<KnowledgeReport>;
+  /** Replace every Knowledge_Base row with the given entries, in order */
+  updateKnowledgeBase(entries: KnowledgeEntry[]): Promise<KnowledgeReport>;
+  /** Answer a question the way the chat would, showing the entries retrieved for it */
+  testKnowledge(question: string): Promise<KnowledgeTestResult>;
+  getChannels(): Promise<ChannelsReport>;
+  updateChannel(update: ChannelUpdate): Promise<ChannelsReport>;
+  /** Run a WhatsApp or Telegram webhook payload through the bot without sending anything */
+  replayChannelWebhook(channel: ChannelId, payload: Record<string, unknown>): Promise<ChannelReplayResult>;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 500;
+
+/** Generate a session identifier for a new conversation */
+export function createSessionId(prefix = 'web'): string {
+  return `${prefix}_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createChatbotClient(options: ChatbotClientOptions): ChatbotClient {
+  const {
+    baseUrl,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    retries = DEFAULT_RETRIES,
+    retryDelayMs = DEFAULT_RETRY_DELAY_MS,
+    token
+  } = options;
+  const fetchImpl = options.fetch ?? ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init));
+  const attempt = async (request: () => Promise<Response>): Promise<unknown> => {
+    let response: Response;
+    try {
+      response = await request();
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        throw new ChatbotClientError('timeout', `Request timed out after ${timeoutMs} ms`);
+      }
+      throw new ChatbotClientError('network', error instanceof Error ? error.message : String(error));
+    }
+
+    if (!response.ok) {
+      throw new ChatbotClientError('http', `Web app responded with HTTP ${response.status}`, response.status);
+    }
+
+    try {
+      return await response.json();
+    } catch {
+      // Apps Script answers with an HTML error page when the script itself crashes
+      throw new ChatbotClientError('invalid_response', 'Web app did not return JSON');
+    }
+  };
+
+  // POST requests that only read opt into retries with { idempotent: true }
+  const request = async <T>(
+    params: Record<string, unknown>,
+    method: 'GET' | 'POST',
+    parse: (payload: unknown) => T,
+    { idempotent = method === 'GET' }: { idempotent?: boolean } = {}
+  ): Promise<T> => {
+    let lastError: ChatbotClientError | undefined;
+    const attempts = idempotent ? retries : 0;
+
+    for (let attemptNumber = 0; attemptNumber <= attempts; attemptNumber++) {
+      if (attemptNumber > 0) {
+        await delay(retryDelayMs * 2 ** (attemptNumber - 1));
+      }
+
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+      try {
+        const payload = await attempt(() => {
+          if (method === 'GET') {
+            const url = new URL(baseUrl);
+            Object.entries(params).forEach(([key, value]) => {
+              if (value !== undefined) url.searchParams.set(key, String(value));
+            });
+            return fetchImpl(url.toString(), { signal: controller.signal });
+          }
+
+          // text/plain keeps this a "simple" request, so no CORS preflight
+          return fetchImpl(baseUrl, {
+            method: 'POST',
+            headers: { 'Content-Type': 'text/plain;charset=utf-8' },
+            body: JSON.stringify(params),
+            signal: controller.signal
+          });
+        });
+
+        return parse(payload);
+      } catch (error) {
+        if (!(error instanceof ChatbotClientError) || !isRetryable(error)) {
+          throw error;
+        }
+        lastError = error;
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+
+    throw lastError;
+  };
+
+  return {
+    baseUrl,
+
+    login(user, key) {
+      // A signed-in client sends its token, which exempts it from the login limits
+      return request({ action: 'login', user, key, token }, 'POST', parseAuthSession);
+    },
+
+    getMenu(sessionId, language) {
+      return request({ action: 'getMenu', sessionId, lang: language }, 'GET', parseChatbotResponse);
+    },
+
+    processSelection(selection, sessionId, language) {
+      return request(
+        { action: 'processSelection', userInput: String(selection), sessionId, lang: language },
+        'POST',
+        parseChatbotResponse
+      );
+    },
+
+    sendMessage(message, sessionId, language) {
+      return request({ action: 'sendMessage', userInput: message, sessionId, lang: language }, 'POST', parseChatbotResponse);
+    },
+
+    getUpdates(sessionId) {
+      return request({ action: 'getUpdates', sessionId }, 'GET', parseSessionUpdates);
+    },
+
+    getAnalytics(range = {}) {
+      return request({ action: 'getAnalytics', token, ...range }, 'POST', parseAnalyticsReport, { idempotent: true });
+    },
+
+    getLogs(query = {}) {
+      const { page, pageSize, ...filters } = query;
+      return request(
+        {
+          action: 'getLogs',
+          token,
+          ...filters,
+          page: page?.toString(),
+          pageSize: pageSize?.toString()
+        },
+        'POST',
+        parseLogsPage,
+        { idempotent: true }
+      );
+    },
+
+    getMenuConfig() {
+      return request({ action: 'getMenuConfig', token }, 'POST', parseMenuConfig, { idempotent: true });
+    },
+
+    updateMenu(items) {
+      return request({ action: 'updateMenu', token, items }, 'POST', parseMenuConfig);
+    },
+
+    getAIHealth() {
+      return request({ action: 'getAIHealth', token }, 'POST', parseAIHealthReport, { idempotent: true });
+    },
+
+    setAIProviderMode(provider, mode) {
+      return request({ action: 'setAIProviderMode', token, provider, mode }, 'POST', parseAIHealthReport);
+    },
+
+    getSessions() {
+      return request({ action: 'getSessions', token }, 'POST', parseSessionsReport, { idempotent: true });
+    },
+
+    getSession(sessionId) {
+      return request({ action: 'getSession', token, sessionId }, 'POST', parseSessionDetail, { idempotent: true });
+    },
+
+    endSession(sessionId) {
+      return request({ action: 'endSession', token, sessionId }, 'POST', parseSessionsReport);
+    },
+
+    getEscalations(status = 'open') {
+      return request({ action: 'getEscalations', token, status }, 'POST', parseEscalationQueue, { idempotent: true });
+    },
+
+    getEscalation(ticketId) {
+      return request({ action: 'getEscalation', token, ticketId }, 'POST', parseEscalationDetail, { idempotent: true });
+    },
+
+    claimEscalation(ticketId, agent) {
+      return request({ action: 'claimEscalation', token, ticketId, agent }, 'POST', parseEscalationDetail);
+    },
+
+    replyEscalation(ticketId, agent, message) {
+      return request({ action: 'replyEscalation', token, ticketId, agent, message }, 'POST', parseEscalationDetail);
+    },
+
+    resolveEscalation(ticketId, agent, message) {
+      return request({ action: 'resolveEscalation', token, ticketId, agent, message }, 'POST', parseEscalationDetail);
+    },
+
+    getBusinessHours() {
+      return request({ action: 'getBusinessHours', token }, 'POST', parseBusinessHoursReport, { idempotent: true });
+    },
+
+    updateBusinessHours(config) {
+      return request({ action: 'updateBusinessHours', token, ...config }, 'POST', parseBusinessHoursReport);
+    },
+
+    simulateBusinessHours(at) {
+      return request({ action: 'simulateBusinessHours', token, at }, 'POST', parseBusinessHoursSimulation, { idempotent: true });
+    },
+
+    runDiagnostics() {
+      return request({ action: 'diagnostics', token }, 'POST', parseDiagnosticsReport, { idempotent: true });
+    },
+
+    getHealth(deep = false) {
+      return deep
+        ? request({ action: 'health', deep: true, token }, 'POST', parseHealthReport, { idempotent: true })
+        : request({ action: 'health' }, 'GET', parseHealthReport);
+    },
+
+    getSettings() {
+      return request({ action: 'getSettings', token }, 'POST', parseSettingsReport, { idempotent: true });
+    },
+
+    updateSettings(values, translations = {}) {
+      return request({ action: 'updateSettings', token, values, translations }, 'POST', parseSettingsReport);
+    },
+
+    getIntents() {
+      return request({ action: 'getIntents', token }, 'POST', parseIntentsReport, { idempotent: true });
+    },
+
+    testIntent(message) {
+      return request({ action: 'testIntent', token, message }, 'POST', parseIntentTest);
+    },
+
+    getKnowledgeBase() {
+      return request({ action: 'getKnowledgeBase', token }, 'POST', parseKnowledgeReport, { idempotent: true });
+    },
+
+    updateKnowledgeBase(entries) {
+      return request({ action: 'updateKnowledgeBase', token, entries }, 'POST', parseKnowledgeReport);
+    },
+
+    testKnowledge(question) {
+      return request({ action: 'testKnowledge', token, question }, 'POST', parseKnowledgeTest);
+    },
+
+    getChannels() {
+      return request({ action: 'getChannels', token }, 'POST', parseChannelsReport, { idempotent: true });
+    },
+
+    updateChannel(update) {
+      return request({ action: 'updateChannel', token, ...update }, 'POST', parseChannelsReport);
+    },
+
+    replayChannelWebhook(channel, payload) {
+      return request({ action: 'replayChannelWebhook', token, channel, payload }, 'POST', parseChannelReplay);
+    }
+  };
+}
+
+/**
+ * Validate a raw web app payload and narrow it to a ChatbotResponse.
+ * @throws {ChatbotClientError} when the payload doesn't match any variant
+ */
+export function parseChatbotResponse(payload: unknown): ChatbotResponse {
+  if (!isRecord(payload) || typeof payload.success !== 'boolean') {
+    throw invalid('expected an object with a boolean "success" field');
+  }
+
+  if (payload.success === false) {
+    const error = optionalString(payload.error) ?? optionalString(payload.message);
+    return {
+      success: false,
+      type: 'error',
+      error: error ?? 'Unknown error',
+      showMenu: payload.showMenu === true,
+      timestamp: optionalString(payload.timestamp)
+    };
+  }
+
+  // Deployments older than the "menu" type tag only send the options array
+  const type = optionalString(payload.type) ?? (Array.isArray(payload.options) ? 'menu' : undefined);
+  const timestamp = optionalString(payload.timestamp);
+  const showMenu = payload.showMenu !== false;
+
+  switch (type) {
+    case 'menu':
+      if (!Array.isArray(payload.options) || !payload.options.every(isMenuOption)) {
+        throw invalid('menu "options" must be an array of {number, title, responseType}');
+      }
+      return {
+        success: true,
+        type,
+        businessHours: payload.businessHours === true,
+        nextOpening: optionalString(payload.nextOpening) ?? null,
+        greeting: requireString(payload, 'greeting'),
+        options: payload.options,
+        footer: optionalString(payload.footer) ?? '',
+        path: optionalString(payload.path) ?? '',
+        breadcrumb: stringArray(payload.breadcrumb),
+        language: toLanguageCode(payload.language),
+        timestamp
+      };
+
+    case 'static':
+      return {
+        success: true,
+        type,
+        title: optionalString(payload.title) ?? '',
+        message: requireString(payload, 'message'),
+        showMenu,
+        timestamp
+      };
+
+    case 'ai':
+      return {
+        success: true,
+        type,
+        title: optionalString(payload.title),
+        message: requireString(payload, 'message'),
+        provider: optionalString(payload.provider) ?? 'unknown',
+        sources: toKnowledgeSources(payload.sources),
+        context: parseAIContext(payload.context),
+        showMenu,
+        timestamp
+      };
+
+    case 'no_answer':
+      return {
+        success: true,
+        type,
+        title: optionalString(payload.title),
+        message: requireString(payload, 'message'),
+        provider: optionalString(payload.provider) ?? 'unknown',
+        showMenu,
+        timestamp
+      };
+
+    case 'escalation':
+      return {
+        success: true,
+        type,
+        title: optionalString(payload.title),
+        message: requireString(payload, 'message'),
+        ticketId: optionalString(payload.ticketId) ?? null,
+        businessHours: payload.businessHours === true,
+        nextOpening: optionalString(payload.nextOpening) ?? null,
+        showMenu: payload.showMenu === true,
+        timestamp
+      };
+
+    case 'agent':
+      return {
+        success: true,
+        type,
+        message: requireString(payload, 'message'),
+        ticketId: requireString(payload, 'ticketId'),
+        status: toEscalationStatus(payload.status),
+        agent: optionalString(payload.agent) ?? null,
+        showMenu: payload.showMenu === true,
+        timestamp
+      };
+
+    case 'order_info':
+      if (!isRecord(payload.data) || payload.data.id === undefined) {
+        throw invalid('order_info "data" must be a MercadoLibre order');
+      }
+      return {
+        success: true,
+        type,
+        message: requireString(payload, 'message'),
+        data: payload.data as OrderData,
+        shipment: isRecord(payload.shipment) ? toShipmentSummary(payload.shipment) : null,
+        timeline: toTimeline(payload.timeline),
+        showMenu,
+        timestamp
+      };
+
+    case 'shipment_info':
+      if (!isRecord(payload.shipment)) {
+        throw invalid('shipment_info "shipment" must be an object');
+      }
+      return {
+        success: true,
+        type,
+        message: requireString(payload, 'message'),
+        orderId: requireString(payload, 'orderId'),
+        shipment: toShipmentSummary(payload.shipment),
+        timeline: toTimeline(payload.timeline),
+        showMenu,
+        timestamp
+      };
+
+    case 'order_list':
+      if (!Array.isArray(payload.orders)) {
+        throw invalid('order_list "orders" must be an array');
+      }
+      return {
+        success: true,
+        type,
+        message: requireString(payload, 'message'),
+        buyer: {
+          id: isRecord(payload.buyer) ? optionalString(payload.buyer.id) ?? null : null,
+          nickname: isRecord(payload.buyer) ? optionalString(payload.buyer.nickname) ?? null : null
+        },
+        orders: payload.orders.map(toOrderSummary),
+        showMenu,
+        timestamp
+      };
+
+    case 'product_info':
+      if (!isRecord(payload.data) || typeof payload.data.id !== 'string') {
+        throw invalid('product_info "data" must be a MercadoLibre item');
+      }
+      return {
+        success: true,
+        type,
+        message: requireString(payload, 'message'),
+        data: payload.data as ProductData,
+        showMenu,
+        timestamp
+      };
+
+    case 'product_search':
+      if (!Array.isArray(payload.results)) {
+        throw invalid('product_search "results" must be an array');
+      }
+      return {
+        success: true,
+        type,
+        message: requireString(payload, 'message'),
+        query: optionalString(payload.query) ?? '',
+        total: Number(payload.total) || payload.results.length,
+        results: payload.results.map(toProductMatch),
+        showMenu,
+        timestamp
+      };
+
+    case 'flow':
+      return {
+        success: true,
+        type,
+        title: optionalString(payload.title) ?? '',
+        message: requireString(payload, 'message'),
+        step: Number(payload.step) || 1,
+        totalSteps: Number(payload.totalSteps) || 1,
+        completed: payload.completed === true,
+        valid: payload.valid !== false,
+        options: Array.isArray(payload.options) ? payload.options.filter(isMenuOption) : [],
+        showMenu: payload.showMenu === true,
+        timestamp
+      };
+
+    case 'default':
+      return {
+        success: true,
+        type,
+        message: requireString(payload, 'message'),
+        showMenu,
+        timestamp
+      };
+
+    case 'throttled':
+      return {
+        success: true,
+        type,
+        reason: toThrottleReason(payload.reason),
+        message: requireString(payload, 'message'),
+        retryAfter: optionalNumber(payload.retryAfter) ?? null,
+        showMenu: payload.showMenu === true,
+        timestamp
+      };
+
+    default:
+      throw invalid(`unknown response type "${String(type)}"`);
+  }
+}
+
+/** Optional, so a malformed context is dropped rather than failing the answer */
+function parseAIContext(value: unknown): AIContextSent | undefined {
+  if (!isRecord(value) || !Array.isArray(value.messages)) {
+    return undefined;
+  }
+
+  return {
+    summary: optionalString(value.summary) || null,
+    messages: value.messages
+      .filter(isRecord)
+      .map(message => ({
+        role: message.role === 'assistant' ? 'assistant' : 'user',
+        content: optionalString(message.content) ?? ''
+      })),
+    historyTurns: Number(value.historyTurns) || 0,
+    estimatedTokens: Number(value.estimatedTokens) || 0
+  };
+}
+
+const TIMELINE_SOURCES: TimelineEntry['source'][] = ['order', 'payment', 'shipment'];
+
+/** Optional, so entries the client does not understand are dropped */
+function toTimeline(value: unknown): TimelineEntry[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter(isRecord)
+    .filter(entry => typeof entry.at === 'string' && typeof entry.status === 'string')
+    .map(entry => ({
+      at: entry.at as string,
+      source: TIMELINE_SOURCES.find(source => source === entry.source) ?? 'order',
+      status: entry.status as string,
+      label: optionalString(entry.label) ?? (entry.status as string)
+    }));
+}
+
+function toShipmentSummary(value: Record<string, unknown>): ShipmentSummary {
+  const status = requireString(value, 'status');
+  return {
+    id: String(value.id ?? ''),
+    status,
+    statusLabel: optionalString(value.statusLabel) ?? status,
+    substatus: optionalString(value.substatus) ?? null,
+    carrier: optionalString(value.carrier) ?? null,
+    trackingNumber: optionalString(value.trackingNumber) ?? null,
+    service: optionalString(value.service) ?? null,
+    estimatedDelivery: optionalString(value.estimatedDelivery) ?? null
+  };
+}
+
+function toOrderSummary(entry: unknown, index: number): OrderSummary {
+  if (!isRecord(entry) || entry.id === undefined || typeof entry.status !== 'string') {
+    throw invalid(`order ${index} is missing its id or status`);
+  }
+  return {
+    id: String(entry.id),
+    status: entry.status,
+    statusLabel: optionalString(entry.statusLabel) ?? entry.status,
+    total: Number(entry.total) || 0,
+    currency: optionalString(entry.currency) ?? null,
+    date: optionalString(entry.date) ?? '',
+    title: optionalString(entry.title) ?? null
+  };
+}
+
+function toProductMatch(entry: unknown, index: number): ProductMatch {
+  if (!isRecord(entry) || typeof entry.id !== 'string' || typeof entry.title !== 'string') {
+    throw invalid(`product ${index} is missing its id or title`);
+  }
+  const price = Number(entry.price) || 0;
+  return {
+    id: entry.id,
+    title: entry.title,
+    price,
+    priceLabel: optionalString(entry.priceLabel) ?? String(price),
+    currency: optionalString(entry.currency) ?? null,
+    availableQuantity: typeof entry.availableQuantity === 'number' ? entry.availableQuantity : null,
+    permalink: optionalString(entry.permalink) ?? null,
+    thumbnail: optionalString(entry.thumbnail) ?? null
+  };
+}
+
+const THROTTLE_REASONS: ThrottleReason[] = ['session', 'global', 'too_long', 'duplicate'];
+
+function toThrottleReason(value: unknown): ThrottleReason {
+  return THROTTLE_REASONS.find(reason => reason === value) ?? 'session';
+}
+
+/** Deployments older than the rate limits send no throttled stats */
+function toThrottledStats(value: unknown): ThrottledStats {
+  if (!isRecord(value)) {
+    return { total: 0, byReason: {}, daily: {}, topSessions: [] };
+  }
+  return {
+    total: Number(value.total) || 0,
+    byReason: isRecord(value.byReason) ? value.byReason as Record<string, number> : {},
+    daily: isRecord(value.daily) ? value.daily as Record<string, number> : {},
+    topSessions: Array.isArray(value.topSessions)
+      ? value.topSessions.filter(isRecord).map(entry => ({ sessionId: String(entry.sessionId ?? ''), count: Number(entry.count) || 0 }))
+      : []
+  };
+}
+
+/**
+ * Validate a getAnalytics payload.
+ * @throws {ChatbotClientError} on backend failure or malformed data
+ */
+export function parseAnalyticsReport(payload: unknown): AnalyticsReport {
+  const data = requireSuccess(payload, 'analytics');
+  const analytics = data.analytics;
+
+  if (!isRecord(analytics) || typeof analytics.totalInteractions !== 'number') {
+    throw invalid('"analytics" must include totalInteractions');
+  }
+
+  const counts = ['interactionsByType', 'aiUsage', 'busyHours', 'busyHoursByDay', 'dailyStats'];
+  for (const field of counts) {
+    if (analytics[field] !== undefined && !isRecord(analytics[field])) {
+      throw invalid(`"analytics.${field}" must be an object`);
+    }
+  }
+
+  const range = isRecord(data.range) ? data.range : {};
+
+  return {
+    range: {
+      startDate: optionalString(range.startDate) ?? null,
+      endDate: optionalString(range.endDate) ?? null
+    },
+    analytics: {
+      totalInteractions: analytics.totalInteractions,
+      interactionsByType: (analytics.interactionsByType ?? {}) as Record<string, number>,
+      successRate: Number(analytics.successRate) || 0,
+      averageResponseTime: Number(analytics.averageResponseTime) || 0,
+      escalationRate: Number(analytics.escalationRate) || 0,
+      aiUsage: (analytics.aiUsage ?? {}) as Record<string, number>,
+      busyHours: (analytics.busyHours ?? {}) as Record<string, number>,
+      busyHoursByDay: (analytics.busyHoursByDay ?? {}) as Record<string, Record<string, number>>,
+      dailyStats: (analytics.dailyStats ?? {}) as Record<string, DailyStats>,
+      throttled: toThrottledStats(analytics.throttled)
+    },
+    timestamp: optionalString(data.timestamp)
+  };
+}
+
+/**
+ * Validate a getLogs payload.
+ * @throws {ChatbotClientError} on backend failure or malformed data
+ */
+export function parseLogsPage(payload: unknown): LogsPage {
+  const data = requireSuccess(payload, 'logs');
+
+  if (!Array.isArray(data.entries)) {
+    throw invalid('"entries" must be an array');
+  }
+
+  const entries = data.entries.map((entry, index) => {
+    if (!isRecord(entry) || typeof entry.timestamp !== 'string' || typeof entry.interactionType !== 'string') {
+      throw invalid(`log entry ${index} is missing timestamp or interactionType`);
+    }
+    return {
+      timestamp: entry.timestamp,
+      sessionId: optionalString(entry.sessionId) ?? '',
+      interactionType: entry.interactionType,
+      userMessage: optionalString(entry.userMessage) ?? '',
+      botResponse: optionalString(entry.botResponse) ?? '',
+      provider: optionalString(entry.provider) ?? '',
+      responseTime: Number(entry.responseTime) || 0,
+      status: optionalString(entry.status) ?? '',
+      metadata: isRecord(entry.metadata) ? entry.metadata : {}
+    };
+  });
+
+  return {
+    entries,
+    page: Number(data.page) || 1,
+    pageSize: Number(data.pageSize) || entries.length,
+    total: Number(data.total) || 0,
+    totalPages: Number(data.totalPages) || 1
+  };
+}
+
+/**
+ * Validate a getMenuConfig/updateMenu payload.
+ * @throws {ChatbotClientError} on backend failure or malformed data
+ */
+export function parseMenuConfig(payload: unknown): MenuConfig {
+  const data = requireSuccess(payload, 'menu_config');
+
+  if (!Array.isArray(data.items) || !data.items.every(isMenuOption)) {
+    throw invalid('"items" must be an array of {number, title, responseType}');
+  }
+
+  return {
+    items: data.items,
+    responseTypes: stringArray(data.responseTypes),
+    aiProviders: stringArray(data.aiProviders),
+    flowValidators: stringArray(data.flowValidators),
+    flowCompletions: stringArray(data.flowCompletions),
+    ...toLanguages(data)
+  };
+}
+
+const AI_PROVIDER_STATUSES: AIProviderStatus[] = ['healthy', 'degraded', 'open', 'disabled', 'unconfigured'];
+const AI_PROVIDER_MODES: AIProviderMode[] = ['auto', 'enabled', 'disabled'];
+
+/**
+ * Validate a getAIHealth/setAIProviderMode payload.
+ * @throws {ChatbotClientError} on backend failure or malformed data
+ */
+export function parseAIHealthReport(payload: unknown): AIHealthReport {
+  const data = requireSuccess(payload, 'ai_health');
+
+  if (!Array.isArray(data.providers)) {
+    throw invalid('"providers" must be an array');
+  }
+
+  const providers = data.providers.map((entry, index): AIProviderHealth => {
+    if (!isRecord(entry) || typeof entry.provider !== 'string') {
+      throw invalid(`provider ${index} is missing its name`);
+    }
+    const stats = isRecord(entry.stats) ? entry.stats : {};
+    return {
+      provider: entry.provider,
+      status: AI_PROVIDER_STATUSES.find(status => status === entry.status) ?? 'healthy',
+      mode: AI_PROVIDER_MODES.find(mode => mode === entry.mode) ?? 'auto',
+      configured: entry.configured !== false,
+      chainPosition: typeof entry.chainPosition === 'number' ? entry.chainPosition : -1,
+      consecutiveFailures: Number(entry.consecutiveFailures) || 0,
+      openUntil: optionalString(entry.openUntil) ?? null,
+      lastError: optionalString(entry.lastError) ?? null,
+      lastFailureAt: optionalString(entry.lastFailureAt) ?? null,
+      lastSuccessAt: optionalString(entry.lastSuccessAt) ?? null,
+      stats: {
+        calls: Number(stats.calls) || 0,
+        failures: Number(stats.failures) || 0,
+        errorRate: Number(stats.errorRate) || 0,
+        averageResponseTime: Number(stats.averageResponseTime) || 0
+      }
+    };
+  });
+
+  return {
+    providers,
+    chain: stringArray(data.chain),
+    failureThreshold: Number(data.failureThreshold) || 0,
+    circuitCooldown: Number(data.circuitCooldown) || 0,
+    timeout: Number(data.timeout) || 0,
+    timestamp: optionalString(data.timestamp)
+  };
+}
+
+/**
+ * Validate a getSessions/endSession payload.
+ * @throws {ChatbotClientError} on backend failure or malformed data
+ */
+export function parseSessionsReport(payload: unknown): SessionsReport {
+  const data = requireSuccess(payload, 'sessions');
+
+  if (!Array.isArray(data.sessions)) {
+    throw invalid('"sessions" must be an array');
+  }
+
+  return {
+    active: Number(data.active) || 0,
+    sessions: data.sessions.map((entry, index) => toSessionSummary(entry, index)),
+    timeout: Number(data.timeout) || 0,
+    timestamp: optionalString(data.timestamp)
+  };
+}
+
+/**
+ * Validate a getSession payload.
+ * @throws {ChatbotClientError} on backend failure or malformed data
+ */
+export function parseSessionDetail(payload: unknown): SessionDetail {
+  const data = requireSuccess(payload, 'session');
+
+  if (!isRecord(data.session)) {
+    throw invalid('"session" must be an object');
+  }
+
+  return {
+    ...toSessionSummary(data.session, 0),
+    data: isRecord(data.session.data) ? data.session.data : {}
+  };
+}
+
+/**
+ * Validate a getUpdates payload.
+ * @throws {ChatbotClientError} on backend failure or malformed data
+ */
+export function parseSessionUpdates(payload: unknown): SessionUpdates {
+  const data = requireSuccess(payload, 'updates');
+
+  if (!Array.isArray(data.messages)) {
+    throw invalid('"messages" must be an array');
+  }
+
+  const escalation = isRecord(data.escalation) && typeof data.escalation.ticketId === 'string'
+    ? {
+        ticketId: data.escalation.ticketId,
+        status: toEscalationStatus(data.escalation.status),
+        agent: optionalString(data.escalation.agent) ?? null
+      }
+    : null;
+
+  return {
+    messages: data.messages.map(toTicketMessage),
+    escalation,
+    timestamp: optionalString(data.timestamp)
+  };
+}
+
+/**
+ * Validate a getEscalations payload.
+ * @throws {ChatbotClientError} on backend failure or malformed data
+ */
+export function parseEscalationQueue(payload: unknown): EscalationQueue {
+  const data = requireSuccess(payload, 'escalations');
+
+  if (!Array.isArray(data.tickets)) {
+    throw invalid('"tickets" must be an array');
+  }
+
+  const counts = isRecord(data.counts) ? data.counts : {};
+
+  return {
+    tickets: data.tickets.map((entry, index) => toEscalationTicket(entry, index)),
+    counts: {
+      pending: Number(counts.pending) || 0,
+      assigned: Number(counts.assigned) || 0,
+      resolved: Number(counts.resolved) || 0,
+      after_hours: Number(counts.after_hours) || 0
+    },
+    timeout: Number(data.timeout) || 0,
+    timestamp: optionalString(data.timestamp)
+  };
+}
+
+/**
+ * Validate a getEscalation/claimEscalation/replyEscalation/resolveEscalation payload.
+ * @throws {ChatbotClientError} on backend failure or malformed data
+ */
+export function parseEscalationDetail(payload: unknown): EscalationDetail {
+  const data = requireSuccess(payload, 'escalation_ticket');
+
+  if (!isRecord(data.ticket) || !Array.isArray(data.ticket.messages)) {
+    throw invalid('"ticket" must be an object with a messages array');
+  }
+
+  return {
+    ticket: { ...toEscalationTicket(data.ticket, 0), messages: data.ticket.messages.map(toTicketMessage) },
+    transcript: Array.isArray(data.transcript)
+      ? data.transcript.filter(isRecord).map(turn => ({
+          role: turn.role === 'assistant' ? 'assistant' : 'user',
+          content: optionalString(turn.content) ?? ''
+        }))
+      : [],
+    summary: optionalString(data.summary) || null
+  };
+}
+
+/**
+ * Validate a getBusinessHours/updateBusinessHours payload.
+ * @throws {ChatbotClientError} on backend failure or malformed data
+ */
+export function parseBusinessHoursReport(payload: unknown): BusinessHoursReport {
+  const data = requireSuccess(payload, 'business_hours');
+
+  if (!Array.isArray(data.days) || !Array.isArray(data.holidays)) {
+    throw invalid('"days" and "holidays" must be arrays');
+  }
+
+  return {
+    timezone: requireString(data, 'timezone'),
+    days: data.days.map((entry, index) => ({
+      day: isRecord(entry) && typeof entry.day === 'number' ? entry.day : index,
+      shifts: isRecord(entry) ? toShifts(entry.shifts) : []
+    })),
+    holidays: data.holidays.map(toHoliday),
+    display: optionalString(data.display) ?? '',
+    open: data.open === true,
+    nextOpening: toNextOpening(data.nextOpening),
+    timestamp: optionalString(data.timestamp)
+  };
+}
+
+/**
+ * Validate a simulateBusinessHours payload.
+ * @throws {ChatbotClientError} on backend failure or malformed data
+ */
+export function parseBusinessHoursSimulation(payload: unknown): BusinessHoursSimulation {
+  const data = requireSuccess(payload, 'business_hours_simulation');
+
+  if (!isRecord(data.local)) {
+    throw invalid('"local" must be an object');
+  }
+
+  return {
+    at: requireString(data, 'at'),
+    local: {
+      date: optionalString(data.local.date) ?? '',
+      time: optionalString(data.local.time) ?? '',
+      day: Number(data.local.day) || 0
+    },
+    timezone: optionalString(data.timezone) ?? '',
+    open: data.open === true,
+    holiday: optionalString(data.holiday) ?? null,
+    shifts: toShifts(data.shifts),
+    nextOpening: toNextOpening(data.nextOpening),
+    greeting: optionalString(data.greeting) ?? '',
+    escalationMessage: optionalString(data.escalationMessage) ?? ''
+  };
+}
+
+/**
+ * Validate a getSettings/updateSettings payload.
+ * @throws {ChatbotClientError} on backend failure or malformed data
+ */
+export function parseSettingsReport(payload: unknown): SettingsReport {
+  const data = requireSuccess(payload, 'settings');
+
+  if (!Array.isArray(data.fields) || !isRecord(data.values)) {
+    throw invalid('"fields" must be an array and "values" an object');
+  }
+
+  const values: Record<string, SettingValue> = {};
+  Object.entries(data.values).forEach(([key, value]) => {
+    if (typeof value === 'string' || typeof value === 'number') {
+      values[key] = value;
+    }
+  });
+
+  const translations: SettingTranslations = {};
+  if (isRecord(data.translations)) {
+    Object.entries(data.translations).forEach(([language, texts]) => {
+      const code = toLanguageCode(language);
+      if (code && isRecord(texts)) {
+        translations[code] = Object.fromEntries(
+          Object.entries(texts).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+        );
+      }
+    });
+  }
+
+  return {
+    fields: data.fields.map(toSettingField),
+    values,
+    translations,
+    ...toLanguages(data),
+    errors: Array.isArray(data.errors) ? data.errors.filter(isValidationIssue) : [],
+    timestamp: optionalString(data.timestamp)
+  };
+}
+
+/**
+ * Validate a getIntents payload.
+ * @throws {ChatbotClientError} on backend failure or malformed data
+ */
+export function parseIntentsReport(payload: unknown): IntentsReport {
+  const data = requireSuccess(payload, 'intents');
+
+  if (!Array.isArray(data.intents)) {
+    throw invalid('"intents" must be an array');
+  }
+
+  return {
+    intents: data.intents.map(toIntentRule),
+    settings: toIntentSettings(data.settings),
+    timestamp: optionalString(data.timestamp)
+  };
+}
+
+/**
+ * Validate a testIntent payload.
+ * @throws {ChatbotClientError} on backend failure or malformed data
+ */
+export function parseIntentTest(payload: unknown): IntentTestResult {
+  const data = requireSuccess(payload, 'intent_test');
+
+  const found = data.entities;
+  if (!Array.isArray(data.candidates) || !isRecord(found)) {
+    throw invalid('"candidates" must be an array and "entities" an object');
+  }
+
+  const entities: IntentEntities = {};
+  (['order_id', 'item_id', 'email'] as const).forEach(key => {
+    const value = found[key];
+    if (typeof value === 'string' || typeof value === 'number') {
+      entities[key] = String(value);
+    }
+  });
+  if (isRecord(found.buyer)) {
+    entities.buyer = {
+      id: optionalString(found.buyer.id),
+      nickname: optionalString(found.buyer.nickname)
+    };
+  }
+
+  return {
+    message: requireString(data, 'message'),
+    intent: toIntentName(data.intent),
+    score: optionalNumber(data.score) ?? 0,
+    source: data.source === 'rules' || data.source === 'ai' ? data.source : 'default',
+    entities,
+    candidates: data.candidates.map(toIntentCandidate),
+    ai: isRecord(data.ai)
+      ? {
+          intent: toIntentName(data.ai.intent),
+          confidence: optionalNumber(data.ai.confidence) ?? 0,
+          provider: optionalString(data.ai.provider) ?? ''
+        }
+      : null,
+    settings: toIntentSettings(data.settings),
+    timestamp: optionalString(data.timestamp)
+  };
+}
+
+/**
+ * Validate a getKnowledgeBase or updateKnowledgeBase payload.
+ * @throws {ChatbotClientError} on backend failure or malformed data
+ */
+export function parseKnowledgeReport(payload: unknown): KnowledgeReport {
+  const data = requireSuccess(payload, 'knowledge_base');
+
+  if (!Array.isArray(data.entries)) {
+    throw invalid('"entries" must be an array');
+  }
+
+  return {
+    entries: data.entries.map(toKnowledgeEntry),
+    settings: toKnowledgeSettings(data.settings),
+    timestamp: optionalString(data.timestamp)
+  };
+}
+
+/**
+ * Validate a testKnowledge payload.
+ * @throws {ChatbotClientError} on backend failure or malformed data
+ */
+export function parseKnowledgeTest(payload: unknown): KnowledgeTestResult {
+  const data = requireSuccess(payload, 'knowledge_test');
+
+  if (!Array.isArray(data.results) || !Array.isArray(data.sources)) {
+    throw invalid('"results" and "sources" must be arrays');
+  }
+
+  const answer = data.answer;
+
+  return {
+    question: requireString(data, 'question'),
+    terms: stringArray(data.terms),
+    results: data.results.map(toKnowledgeResult),
+    sources: data.sources.map(toKnowledgeResult),
+    confident: data.confident === true,
+    answer: isRecord(answer) && typeof answer.message === 'string'
+      ? {
+          type: answer.type === 'no_answer' ? 'no_answer' : 'ai',
+          message: answer.message,
+          provider: optionalString(answer.provider) ?? '',
+          sources: toKnowledgeSources(answer.sources)
+        }
+      : null,
+    error: optionalString(data.error),
+    settings: toKnowledgeSettings(data.settings),
+    timestamp: optionalString(data.timestamp)
+  };
+}
+
+/**
+ * Validate a getChannels or updateChannel payload.
+ * @throws {ChatbotClientError} on backend failure or malformed data
+ */
+export function parseChannelsReport(payload: unknown): ChannelsReport {
+  const data = requireSuccess(payload, 'channels');
+
+  if (!Array.isArray(data.channels)) {
+    throw invalid('"channels" must be an array');
+  }
+
+  return {
+    channels: data.channels.map(toChannelStatus),
+    timestamp: optionalString(data.timestamp)
+  };
+}
+
+/**
+ * Validate a replayChannelWebhook payload.
+ * @throws {ChatbotClientError} on backend failure or malformed data
+ */
+export function parseChannelReplay(payload: unknown): ChannelReplayResult {
+  const data = requireSuccess(payload, 'channel_webhook');
+
+  if (!Array.isArray(data.handled) || !Array.isArray(data.outgoing)) {
+    throw invalid('"handled" and "outgoing" must be arrays');
+  }
+
+  return {
+    channel: toChannelId(data.channel),
+    handled: data.handled.map(toChannelHandledMessage),
+    outgoing: data.outgoing.map(toChannelOutgoingRequest),
+    timestamp: optionalString(data.timestamp)
+  };
+}
+
+/**
+ * Validate a diagnostics payload.
+ * @throws {ChatbotClientError} on backend failure or malformed data
+ */
+export function parseDiagnosticsReport(payload: unknown): DiagnosticsReport {
+  const data = requireSuccess(payload, 'diagnostics');
+
+  if (!Array.isArray(data.checks)) {
+    throw invalid('"checks" must be an array');
+  }
+
+  return {
+    ready: data.ready === true,
+    checks: data.checks.map(toDiagnosticCheck),
+    timestamp: optionalString(data.timestamp)
+  };
+}
+
+export function parseAuthSession(payload: unknown): AuthSession {
+  const data = requireSuccess(payload, 'auth');
+
+  return {
+    token: requireString(data, 'token'),
+    user: requireString(data, 'user'),
+    role: ROLES.find(role => role === data.role) ?? 'viewer',
+    expiresAt: requireString(data, 'expiresAt'),
+    actions: stringArray(data.actions)
+  };
+}
+
+export function parseHealthReport(payload: unknown): HealthReport {
+  const data = requireSuccess(payload, 'health');
+
+  if (!Array.isArray(data.components)) {
+    throw invalid('"components" must be an array');
+  }
+
+  return {
+    status: data.status === 'ok' || data.status === 'degraded' ? data.status : 'down',
+    deep: data.deep === true,
+    latencyMs: optionalNumber(data.latencyMs) ?? 0,
+    components: data.components.map(toHealthComponent),
+    timestamp: optionalString(data.timestamp)
+  };
+}
+
+// Helpers
+
+const DIAGNOSTIC_STATUSES: DiagnosticStatus[] = ['pass', 'warn', 'fail', 'skipped'];
+
+function toDiagnosticCheck(entry: unknown, index: number): DiagnosticCheck {
+  if (!isRecord(entry) || typeof entry.id !== 'string') {
+    throw invalid(`check ${index} is missing its ID`);
+  }
+  return {
+    id: entry.id,
+    step: optionalString(entry.step) ?? '',
+    title: optionalString(entry.title) ?? entry.id,
+    status: DIAGNOSTIC_STATUSES.find(status => status === entry.status) ?? 'fail',
+    message: optionalString(entry.message) ?? '',
+    fix: optionalString(entry.fix) ?? null
+  };
+}
+
+const ROLES: Role[] = ['viewer', 'agent', 'admin'];
+
+const HEALTH_STATUSES: HealthStatus[] = ['ok', 'degraded', 'down', 'skipped'];
+
+function toHealthComponent(entry: unknown, index: number): HealthComponent {
+  if (!isRecord(entry) || typeof entry.name !== 'string') {
+    throw invalid(`component ${index} is missing its name`);
+  }
+  return {
+    name: entry.name,
+    critical: entry.critical === true,
+    status: HEALTH_STATUSES.find(status => status === entry.status) ?? 'down',
+    latencyMs: optionalNumber(entry.latencyMs) ?? 0,
+    message: optionalString(entry.message) ?? '',
+    error: optionalString(entry.error) ?? null,
+    details: isRecord(entry.details) ? entry.details : {}
+  };
+}
+
+const INTENT_NAMES: IntentName[] = ['menu_request', 'order_inquiry', 'product_inquiry', 'escalation', 'general_ai'];
+
+function toIntentName(value: unknown): IntentName {
+  return INTENT_NAMES.find(intent => intent === value) ?? 'general_ai';
+}
+
+function toIntentSettings(value: unknown): IntentSettings {
+  const settings: Record<string, unknown> = isRecord(value) ? value : {};
+  return {
+    minScore: optionalNumber(settings.minScore) ?? 0.5,
+    aiMode: settings.aiMode === 'fallback' ? 'fallback' : 'off',
+    aiMinConfidence: optionalNumber(settings.aiMinConfidence) ?? 0.7
+  };
+}
+
+function toIntentRule(entry: unknown, index: number): IntentRule {
+  if (!isRecord(entry) || typeof entry.intent !== 'string') {
+    throw invalid(`intent rule ${index} is missing its intent`);
+  }
+  return {
+    row: optionalNumber(entry.row) ?? index + 2,
+    intent: entry.intent,
+    keywords: stringArray(entry.keywords),
+    patterns: stringArray(entry.patterns),
+    entities: stringArray(entry.entities),
+    priority: optionalNumber(entry.priority) ?? 0,
+    active: entry.active === true,
+    description: optionalString(entry.description) ?? '',
+    errors: stringArray(entry.errors)
+  };
+}
+
+const INTENT_MATCH_TYPES: IntentMatch['type'][] = ['keyword', 'pattern', 'entity'];
+
+function toIntentCandidate(entry: unknown, index: number): IntentCandidate {
+  if (!isRecord(entry) || typeof entry.intent !== 'string') {
+    throw invalid(`candidate ${index} is missing its intent`);
+  }
+  const matches = Array.isArray(entry.matches) ? entry.matches : [];
+  return {
+    intent: entry.intent,
+    score: optionalNumber(entry.score) ?? 0,
+    priority: optionalNumber(entry.priority) ?? 0,
+    matches: matches.flatMap(match => {
+      const type = isRecord(match) ? INTENT_MATCH_TYPES.find(known => known === match.type) : undefined;
+      return type && isRecord(match) ? [{ type, value: String(match.value ?? '') }] : [];
+    })
+  };
+}
+
+function toKnowledgeType(value: unknown): KnowledgeEntryType {
+  return value === 'policy' ? 'policy' : 'faq';
+}
+
+function toKnowledgeSettings(value: unknown): KnowledgeSettings {
+  const settings: Record<string, unknown> = isRecord(value) ? value : {};
+  return {
+    maxResults: optionalNumber(settings.maxResults) ?? 3,
+    minConfidence: optionalNumber(settings.minConfidence) ?? 0.5
+  };
+}
+
+function toKnowledgeEntry(entry: unknown, index: number): KnowledgeEntry {
+  if (!isRecord(entry) || typeof entry.title !== 'string') {
+    throw invalid(`knowledge entry ${index} is missing its title`);
+  }
+  return {
+    id: optionalString(entry.id) ?? '',
+    type: toKnowledgeType(entry.type),
+    title: entry.title,
+    content: optionalString(entry.content) ?? '',
+    tags: stringArray(entry.tags),
+    active: entry.active !== false,
+    row: optionalNumber(entry.row),
+    errors: stringArray(entry.errors)
+  };
+}
+
+function toKnowledgeResult(entry: unknown, index: number): KnowledgeResult {
+  if (!isRecord(entry) || typeof entry.id !== 'string') {
+    throw invalid(`knowledge result ${index} is missing its ID`);
+  }
+  return {
+    id: entry.id,
+    type: toKnowledgeType(entry.type),
+    title: optionalString(entry.title) ?? '',
+    content: optionalString(entry.content) ?? '',
+    score: optionalNumber(entry.score) ?? 0,
+    confidence: optionalNumber(entry.confidence) ?? 0,
+    matches: stringArray(entry.matches),
+    number: optionalNumber(entry.number)
+  };
+}
+
+function toKnowledgeSources(value: unknown): KnowledgeSource[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap(source =>
+    isRecord(source) && typeof source.id === 'string' && typeof source.number === 'number'
+      ? [{ number: source.number, id: source.id, title: optionalString(source.title) ?? '' }]
+      : []);
+}
+
+function toChannelId(value: unknown): ChannelId {
+  return value === 'telegram' ? 'telegram' : 'whatsapp';
+}
+
+function toChannelStatus(entry: unknown, index: number): ChannelStatus {
+  if (!isRecord(entry) || typeof entry.id !== 'string') {
+    throw invalid(`channel ${index} is missing its ID`);
+  }
+  const fields: Record<string, unknown> = isRecord(entry.fields) ? entry.fields : {};
+  return {
+    id: toChannelId(entry.id),
+    name: optionalString(entry.name) ?? entry.id,
+    enabled: entry.enabled === true,
+    fields: Object.fromEntries(Object.entries(fields).map(([field, value]) => [field, typeof value === 'string' ? value : ''])),
+    missing: stringArray(entry.missing),
+    webhookQuery: optionalString(entry.webhookQuery) ?? null,
+    lastMessageAt: optionalString(entry.lastMessageAt) ?? null,
+    lastError: optionalString(entry.lastError) ?? null,
+    lastErrorAt: optionalString(entry.lastErrorAt) ?? null
+  };
+}
+
+const CHANNEL_ACTIONS: ChannelHandledMessage['action'][] = ['getMenu', 'processSelection', 'sendMessage'];
+
+function toChannelHandledMessage(entry: unknown, index: number): ChannelHandledMessage {
+  if (!isRecord(entry) || typeof entry.sessionId !== 'string') {
+    throw invalid(`handled message ${index} is missing its session`);
+  }
+  return {
+    sessionId: entry.sessionId,
+    action: CHANNEL_ACTIONS.find(action => action === entry.action) ?? null,
+    userInput: optionalString(entry.userInput) ?? null,
+    responseType: optionalString(entry.responseType) ?? null,
+    response: parseChatbotResponse(entry.response)
+  };
+}
+
+function toChannelOutgoingRequest(entry: unknown, index: number): ChannelOutgoingRequest {
+  if (!isRecord(entry) || typeof entry.url !== 'string') {
+    throw invalid(`outgoing request ${index} is missing its URL`);
+  }
+  return {
+    method: optionalString(entry.method) ?? '',
+    url: entry.url,
+    payload: isRecord(entry.payload) ? entry.payload : {},
+    ok: entry.ok !== false,
+    status: optionalNumber(entry.status) ?? null,
+    error: optionalString(entry.error) ?? null
+  };
+}
+
+const SETTING_TYPES: SettingType[] = ['text', 'integer', 'time', 'days', 'timezone', 'enum', 'list', 'shifts'];
+
+function toSettingField(entry: unknown, index: number): SettingField {
+  if (!isRecord(entry) || typeof entry.key !== 'string') {
+    throw invalid(`setting ${index} is missing its key`);
+  }
+  return {
+    key: entry.key,
+    type: SETTING_TYPES.find(type => type === entry.type) ?? 'text',
+    group: optionalString(entry.group) ?? '',
+    description: optionalString(entry.description) ?? '',
+    default: typeof entry.default === 'string' || typeof entry.default === 'number' ? entry.default : undefined,
+    optional: entry.optional === true,
+    min: optionalNumber(entry.min),
+    max: optionalNumber(entry.max),
+    maxLength: optionalNumber(entry.maxLength),
+    options: Array.isArray(entry.options) ? stringArray(entry.options) : undefined,
+    unit: optionalString(entry.unit),
+    translatable: entry.translatable === true
+  };
+}
+
+const LANGUAGE_CODES: LanguageCode[] = ['es', 'pt', 'en'];
+
+function toLanguageCode(value: unknown): LanguageCode | undefined {
+  return LANGUAGE_CODES.find(code => code === value);
+}
+
+/** Default and enabled languages; deployments older than translations only speak Spanish */
+function toLanguages(data: Record<string, unknown>): { defaultLanguage: LanguageCode; languages: LanguageInfo[] } {
+  const languages = Array.isArray(data.languages)
+    ? data.languages.flatMap(entry => {
+      const code = isRecord(entry) ? toLanguageCode(entry.code) : undefined;
+      return code ? [{ code, name: optionalString(entry.name) ?? code }] : [];
+    })
+    : [];
+  const defaultLanguage = toLanguageCode(data.default) ?? 'es';
+
+  return {
+    defaultLanguage,
+    languages: languages.length > 0 ? languages : [{ code: defaultLanguage, name: defaultLanguage }]
+  };
+}
+
+function toShifts(value: unknown): Shift[] {
+  return Array.isArray(value)
+    ? value.filter(isRecord).map(shift => ({ start: optionalString(shift.start) ?? '', end: optionalString(shift.end) ?? '' }))
+    : [];
+}
+
+function toHoliday(entry: unknown, index: number): Holiday {
+  if (!isRecord(entry) || typeof entry.date !== 'string') {
+    throw invalid(`holiday ${index} is missing its date`);
+  }
+  return {
+    date: entry.date,
+    name: optionalString(entry.name) ?? '',
+    shifts: toShifts(entry.shifts),
+    recurring: entry.recurring === true
+  };
+}
+
+function toNextOpening(value: unknown): NextOpening | null {
+  return isRecord(value) && typeof value.at === 'string'
+    ? { at: value.at, display: optionalString(value.display) ?? '' }
+    : null;
+}
+
+const ESCALATION_STATUSES: EscalationStatus[] = ['pending', 'assigned', 'resolved', 'after_hours'];
+
+function toEscalationStatus(value: unknown): EscalationStatus {
+  return ESCALATION_STATUSES.find(status => status === value) ?? 'pending';
+}
+
+function toTicketMessage(entry: unknown, index: number): TicketMessage {
+  if (!isRecord(entry) || typeof entry.text !== 'string') {
+    throw invalid(`message ${index} is missing its text`);
+  }
+  return {
+    from: entry.from === 'agent' || entry.from === 'system' ? entry.from : 'customer',
+    text: entry.text,
+    at: optionalString(entry.at) ?? '',
+    agent: optionalString(entry.agent)
+  };
+}
+
+function toEscalationTicket(entry: unknown, index: number): EscalationTicket {
+  if (!isRecord(entry) || typeof entry.ticketId !== 'string') {
+    throw invalid(`ticket ${index} is missing its ID`);
+  }
+  return {
+    ticketId: entry.ticketId,
+    sessionId: optionalString(entry.sessionId) ?? '',
+    reason: optionalString(entry.reason) ?? '',
+    status: toEscalationStatus(entry.status),
+    agent: optionalString(entry.agent) || null,
+    createdAt: optionalString(entry.createdAt) ?? '',
+    assignedAt: optionalString(entry.assignedAt) || null,
+    resolvedAt: optionalString(entry.resolvedAt) || null,
+    updatedAt: optionalString(entry.updatedAt) ?? '',
+    messageCount: Number(entry.messageCount) || 0,
+    awaitingAgent: entry.awaitingAgent === true,
+    lastCustomerMessage: optionalString(entry.lastCustomerMessage) ?? null
+  };
+}
+
+function toSessionSummary(entry: unknown, index: number): SessionSummary {
+  if (!isRecord(entry) || typeof entry.sessionId !== 'string') {
+    throw invalid(`session ${index} is missing its ID`);
+  }
+  return {
+    sessionId: entry.sessionId,
+    createdAt: optionalString(entry.createdAt) ?? '',
+    updatedAt: optionalString(entry.updatedAt) ?? '',
+    expiresAt: optionalString(entry.expiresAt) ?? '',
+    messageCount: Number(entry.messageCount) || 0,
+    lastMessage: optionalString(entry.lastMessage) ?? null,
+    menuPath: optionalString(entry.menuPath) ?? '',
+    activeFlow: optionalString(entry.activeFlow) ?? null
+  };
+}
+
+// Backend `code` values surfaced as their own error kind
+const REPORTED_ERROR_KINDS: ChatbotClientErrorKind[] = ['unauthorized', 'forbidden', 'rate_limited', 'not_found', 'conflict'];
+
+/** Unwrap a dashboard action payload, throwing on backend-reported failure */
+function requireSuccess(payload: unknown, expectedType: string): Record<string, unknown> {
+  if (!isRecord(payload) || typeof payload.success !== 'boolean') {
+    throw invalid('expected an object with a boolean "success" field');
+  }
+
+  if (!payload.success) {
+    const message = optionalString(payload.error) ?? optionalString(payload.message) ?? 'Unknown error';
+    if (payload.code === 'validation') {
+      const issues = Array.isArray(payload.errors) ? payload.errors.filter(isValidationIssue) : [];
+      throw new ChatbotClientError('validation', message, undefined, issues);
+    }
+    const kind = REPORTED_ERROR_KINDS.find(known => known === payload.code) ?? 'backend';
+    throw new ChatbotClientError(kind, message);
+  }
+
+  if (payload.type !== expectedType) {
+    throw invalid(`expected type "${expectedType}", got "${String(payload.type)}"`);
+  }
+
+  return payload;
+}
+
+function isRetryable(error: ChatbotClientError) {
+  return error.kind === 'network' || error.kind === 'timeout' ||
+    (error.kind === 'http' && (error.status ?? 0) >= 500);
+}
+
+function delay(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function invalid(reason: string) {
+  return new ChatbotClientError('invalid_response', `Malformed chatbot response: ${reason}`);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isMenuOption(value: unknown): value is MenuOption {
+  return isRecord(value) &&
+    (typeof value.number === 'number' || typeof value.number === 'string') &&
+    typeof value.title === 'string' &&
+    typeof value.responseType === 'string';
+}
+
+function isValidationIssue(value: unknown): value is ValidationIssue {
+  return isRecord(value) &&
+    typeof value.index === 'number' &&
+    typeof value.field === 'string' &&
+    typeof value.message === 'string';
+}
+
+function stringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === 'number' ? value : undefined;
+}
+
+function requireString(payload: Record<string, unknown>, field: string): string {
+  const value = payload[field];
+  if (typeof value !== 'string') {
+    throw invalid(`"${field}" must be a string`);
+  }
+  return value;
+}
@@ -0,0 +1,217 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, ArrowRight, HeartPulse, Loader2, RefreshCw } from 'lucide-react';
+import {
+  AIHealthReport,
+  AIProviderHealth as ProviderHealth,
+  AIProviderMode,
+  AIProviderStatus,
+  ChatbotClient,
+  ChatbotClientError
+} from '../chatbotClient';
+
+interface AIProviderHealthProps {
+  client: ChatbotClient;
+  /** Hide the mode switches, for roles that cannot call setAIProviderMode */
+  readOnly?: boolean;
+  onUnauthorized: () => void;
+}
+
+const STATUS_STYLES: Record<AIProviderStatus, { label: string; badge: string; dot: string }> = {
+  healthy: { label: 'Healthy', badge: 'bg-green-100 text-green-800', dot: 'bg-green-500' },
+  degraded: { label: 'Degraded', badge: 'bg-yellow-100 text-yellow-800', dot: 'bg-yellow-500' },
+  open: { label: 'Circuit open', badge: 'bg-red-100 text-red-800', dot: 'bg-red-500' },
+  disabled: { label: 'Disabled', badge: 'bg-gray-200 text-gray-700', dot: 'bg-gray-500' },
+  unconfigured: { label: 'No API key', badge: 'bg-gray-100 text-gray-500', dot: 'bg-gray-300' }
+};
+
+const MODES: { mode: AIProviderMode; label: string; hint: string }[] = [
+  { mode: 'auto', label: 'Auto', hint: 'Follow the circuit breaker; also closes an open circuit' },
+  { mode: 'enabled', label: 'Force on', hint: 'Always try this provider, even with an open circuit' },
+  { mode: 'disabled', label: 'Force off', hint: 'Never call this provider' }
+];
+
+const formatTime = (iso: string | null) => iso ? new Date(iso).toLocaleString() : '—';
+
+function AIProviderHealth({ client, readOnly = false, onUnauthorized }: AIProviderHealthProps) {
+  const [report, setReport] = useState<AIHealthReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = useCallback(async (action: () => Promise<AIHealthReport>) => {
+    setError(null);
+    try {
+      setReport(await action());
+    } catch (err) {
+      if (err instanceof ChatbotClientError && err.kind === 'unauthorized') {
+        onUnauthorized();
+        return;
+      }
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, [onUnauthorized]);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    await run(() => client.getAIHealth());
+    setLoading(false);
+  }, [client, run]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const setMode = async (provider: string, mode: AIProviderMode) => {
+    setSaving(provider);
+    await run(() => client.setAIProviderMode(provider, mode));
+    setSaving(null);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <HeartPulse className="w-5 h-5 text-indigo-600" />
+          <h3 className="text-lg font-semibold text-gray-900">AI provider health</h3>
+        </div>
+        <button
+          onClick={load}
+          disabled={loading}
+          className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm border text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-start gap-2 text-sm text-red-800">
+          <AlertCircle className="w-5 h-5 shrink-0" />
+          <span>Could not load provider health: {error}</span>
+        </div>
+      )}
+
+      {report && (
+        <>
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+            <span>Failover order:</span>
+            {report.chain.map((provider, index) => (
+              <span key={provider} className="flex items-center gap-2">
+                {index > 0 && <ArrowRight className="w-3 h-3 text-gray-400" />}
+                <span className="px-2 py-0.5 bg-gray-100 rounded font-mono text-xs">{provider}</span>
+              </span>
+            ))}
+            <span className="text-xs text-gray-400 ml-auto">
+              Circuit opens after {report.failureThreshold} failures in a row for {Math.round(report.circuitCooldown / 60)} min ·
+              answers slower than {(report.timeout / 1000).toLocaleString()} s count as failures
+            </span>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {report.providers.map(provider => (
+              <ProviderCard
+                key={provider.provider}
+                health={provider}
+                saving={saving === provider.provider}
+                onModeChange={readOnly ? undefined : mode => setMode(provider.provider, mode)}
+              />
+            ))}
+          </div>
+        </>
+      )}
+
+      {!report && loading && (
+        <div className="flex justify-center py-8 text-gray-500">
+          <Loader2 className="w-6 h-6 animate-spin" />
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface ProviderCardProps {
+  health: ProviderHealth;
+  saving: boolean;
+  /** Omitted when the user may not change modes */
+  onModeChange?: (mode: AIProviderMode) => void;
+}
+
+function ProviderCard({ health, saving, onModeChange }: ProviderCardProps) {
+  const style = STATUS_STYLES[health.status];
+
+  return (
+    <div className="border rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <span className={`w-2.5 h-2.5 rounded-full ${style.dot}`} />
+          <span className="font-medium text-gray-900 capitalize">{health.provider}</span>
+          {health.chainPosition >= 0 && <span className="text-xs text-gray-400">#{health.chainPosition + 1}</span>}
+        </div>
+        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${style.badge}`}>{style.label}</span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div className="p-2 bg-gray-50 rounded">
+          <p className="text-lg font-semibold text-gray-900">{health.stats.calls}</p>
+          <p className="text-xs text-gray-500">calls (24h)</p>
+        </div>
+        <div className="p-2 bg-gray-50 rounded">
+          <p className={`text-lg font-semibold ${health.stats.errorRate > 20 ? 'text-red-600' : 'text-gray-900'}`}>
+            {health.stats.errorRate}%
+          </p>
+          <p className="text-xs text-gray-500">errors</p>
+        </div>
+        <div className="p-2 bg-gray-50 rounded">
+          <p className="text-lg font-semibold text-gray-900">{health.stats.averageResponseTime.toLocaleString()}</p>
+          <p className="text-xs text-gray-500">avg ms</p>
+        </div>
+      </div>
+
+      <dl className="text-xs text-gray-600 space-y-1">
+        <div className="flex justify-between">
+          <dt>Last success</dt>
+          <dd>{formatTime(health.lastSuccessAt)}</dd>
+        </div>
+        <div className="flex justify-between">
+          <dt>Failures in a row</dt>
+          <dd>{health.consecutiveFailures}</dd>
+        </div>
+        {health.openUntil && (
+          <div className="flex justify-between text-red-700">
+            <dt>Skipped until</dt>
+            <dd>{formatTime(health.openUntil)}</dd>
+          </div>
+        )}
+        {health.lastError && (
+          <div className="pt-1">
+            <dt className="sr-only">Last error</dt>
+            <dd className="font-mono text-red-700 break-words" title={formatTime(health.lastFailureAt)}>{health.lastError}</dd>
+          </div>
+        )}
+      </dl>
+
+      {onModeChange && (
+        <div className="flex items-center gap-2">
+          <div className="flex space-x-1 bg-gray-100 p-1 rounded-lg">
+            {MODES.map(({ mode, label, hint }) => (
+              <button
+                key={mode}
+                title={hint}
+                disabled={saving || !health.configured}
+                onClick={() => onModeChange(mode)}
+                className={`px-3 py-1 rounded-md text-xs ${
+                  health.mode === mode ? 'bg-white shadow-sm text-gray-900' : 'text-gray-600 hover:text-gray-900'
+                } disabled:opacity-50`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {saving && <Loader2 className="w-4 h-4 animate-spin text-gray-400" />}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default AIProviderHealth;
@@ -0,0 +1,196 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, Eye, Loader2, RefreshCw, UserX, Users, X } from 'lucide-react';
+import { ChatbotClient, ChatbotClientError, SessionDetail, SessionsReport } from '../chatbotClient';
+
+interface ActiveSessionsProps {
+  client: ChatbotClient;
+  /** Hide "End session", for roles that cannot call endSession */
+  readOnly?: boolean;
+  onUnauthorized: () => void;
+}
+
+// How often the active session count is refreshed
+const POLL_INTERVAL_MS = 30000;
+
+const formatTime = (iso: string) => iso ? new Date(iso).toLocaleString() : '—';
+
+function ActiveSessions({ client, readOnly = false, onUnauthorized }: ActiveSessionsProps) {
+  const [report, setReport] = useState<SessionsReport | null>(null);
+  const [selected, setSelected] = useState<SessionDetail | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = useCallback(async <T,>(action: () => Promise<T>): Promise<T | null> => {
+    setError(null);
+    try {
+      return await action();
+    } catch (err) {
+      if (err instanceof ChatbotClientError && err.kind === 'unauthorized') {
+        onUnauthorized();
+        return null;
+      }
+      setError(err instanceof Error ? err.message : String(err));
+      return null;
+    }
+  }, [onUnauthorized]);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    const next = await run(() => client.getSessions());
+    if (next) setReport(next);
+    setLoading(false);
+  }, [client, run]);
+
+  useEffect(() => {
+    load();
+    const timer = setInterval(load, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [load]);
+
+  const inspect = async (sessionId: string) => {
+    setBusy(sessionId);
+    const detail = await run(() => client.getSession(sessionId));
+    if (detail) setSelected(detail);
+    setBusy(null);
+  };
+
+  const end = async (sessionId: string) => {
+    if (!window.confirm(`End session ${sessionId}? The visitor starts over with their next message.`)) {
+      return;
+    }
+    setBusy(sessionId);
+    const next = await run(() => client.endSession(sessionId));
+    if (next) {
+      setReport(next);
+      if (selected?.sessionId === sessionId) setSelected(null);
+    }
+    setBusy(null);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Users className="w-5 h-5 text-purple-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Active sessions</h3>
+          {report && (
+            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+              {report.active}
+            </span>
+          )}
+        </div>
+        <button
+          onClick={load}
+          disabled={loading}
+          className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm border text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-start gap-2 text-sm text-red-800">
+          <AlertCircle className="w-5 h-5 shrink-0" />
+          <span>Could not load sessions: {error}</span>
+        </div>
+      )}
+
+      {report && (
+        <>
+          <p className="text-xs text-gray-400">
+            Sessions end after {Math.round(report.timeout / 60)} min without activity · refreshed every {POLL_INTERVAL_MS / 1000} s
+          </p>
+
+          {report.sessions.length === 0 ? (
+            <p className="text-sm text-gray-500 py-4 text-center">No active sessions</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 border-b">
+                    <th className="py-2 pr-4 font-medium">Session</th>
+                    <th className="py-2 pr-4 font-medium">Last message</th>
+                    <th className="py-2 pr-4 font-medium">Turns</th>
+                    <th className="py-2 pr-4 font-medium">Last activity</th>
+                    <th className="py-2 pr-4 font-medium">Expires</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.sessions.map(session => (
+                    <tr
+                      key={session.sessionId}
+                      className={`border-b last:border-0 ${selected?.sessionId === session.sessionId ? 'bg-purple-50' : ''}`}
+                    >
+                      <td className="py-2 pr-4 font-mono text-xs text-gray-900">
+                        {session.sessionId}
+                        {session.activeFlow && <span className="ml-2 text-purple-600">flow {session.activeFlow}</span>}
+                      </td>
+                      <td className="py-2 pr-4 text-gray-600 max-w-xs truncate">{session.lastMessage ?? '—'}</td>
+                      <td className="py-2 pr-4 text-gray-600">{session.messageCount}</td>
+                      <td className="py-2 pr-4 text-gray-600">{formatTime(session.updatedAt)}</td>
+                      <td className="py-2 pr-4 text-gray-600">{formatTime(session.expiresAt)}</td>
+                      <td className="py-2">
+                        <div className="flex justify-end gap-1">
+                          {busy === session.sessionId ? (
+                            <Loader2 className="w-4 h-4 animate-spin text-gray-400" />
+                          ) : (
+                            <>
+                              <button
+                                title="Inspect"
+                                onClick={() => inspect(session.sessionId)}
+                                className="p-1 rounded text-gray-500 hover:text-gray-900 hover:bg-gray-100"
+                              >
+                                <Eye className="w-4 h-4" />
+                              </button>
+                              {!readOnly && (
+                                <button
+                                  title="End session"
+                                  onClick={() => end(session.sessionId)}
+                                  className="p-1 rounded text-gray-500 hover:text-red-700 hover:bg-red-50"
+                                >
+                                  <UserX className="w-4 h-4" />
+                                </button>
+                              )}
+                            </>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+
+      {selected && (
+        <div className="border rounded-lg p-4 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="font-mono text-sm text-gray-900">{selected.sessionId}</span>
+            <button onClick={() => setSelected(null)} className="p-1 rounded text-gray-500 hover:bg-gray-100" title="Close">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">
+            Started {formatTime(selected.createdAt)} · menu {selected.menuPath || 'main'}
+          </p>
+          <pre className="bg-gray-50 rounded p-3 text-xs text-gray-800 overflow-auto max-h-80">
+            {JSON.stringify(selected.data, null, 2)}
+          </pre>
+        </div>
+      )}
+
+      {!report && loading && (
+        <div className="flex justify-center py-8 text-gray-500">
+          <Loader2 className="w-6 h-6 animate-spin" />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ActiveSessions;
@@ -0,0 +1,59 @@
+import { ReactNode } from 'react';
+import { KeyRound, LogOut, ShieldCheck } from 'lucide-react';
+import { AuthSession, ChatbotClient } from '../chatbotClient';
+import SignInForm from './SignInForm';
+
+interface AdminGateProps {
+  client: ChatbotClient;
+  auth: AuthSession | null;
+  onChange: (auth: AuthSession | null) => void;
+  children: ReactNode;
+}
+
+const ROLE_LABELS: Record<AuthSession['role'], string> = {
+  viewer: 'Viewer',
+  agent: 'Agent',
+  admin: 'Admin'
+};
+
+/**
+ * Asks the user to sign in before rendering dashboard views that call
+ * role-checked actions. The token is kept in this browser until it expires.
+ */
+function AdminGate({ client, auth, onChange, children }: AdminGateProps) {
+  if (!auth) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm border p-6 space-y-4 max-w-xl mx-auto">
+        <div className="flex items-center space-x-2">
+          <KeyRound className="w-5 h-5 text-indigo-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Sign in required</h3>
+        </div>
+        <p className="text-sm text-gray-600">
+          Enter your name and the access key of your role: <code className="font-mono text-xs bg-gray-100 px-1 rounded">VIEWER_API_KEY</code> to
+          read analytics and logs, <code className="font-mono text-xs bg-gray-100 px-1 rounded">AGENT_API_KEY</code> to answer escalations,
+          or <code className="font-mono text-xs bg-gray-100 px-1 rounded">ADMIN_API_KEY</code> to change the menu, hours and settings.
+        </p>
+        <SignInForm client={client} onSignIn={onChange} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <button
+          onClick={() => onChange(null)}
+          title={`Signed in until ${new Date(auth.expiresAt).toLocaleString()}`}
+          className="inline-flex items-center gap-1.5 text-xs text-gray-500 hover:text-gray-800"
+        >
+          <ShieldCheck className="w-4 h-4 text-green-600" />
+          {auth.user} · {ROLE_LABELS[auth.role]}
+          <LogOut className="w-3.5 h-3.5 ml-1" />
+        </button>
+      </div>
+      {children}
+    </div>
+  );
+}
+
+export default AdminGate;
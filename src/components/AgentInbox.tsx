@@ -0,0 +1,340 @@
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+import {
+  AlertCircle,
+  Bot,
+  CheckCheck,
+  Headset,
+  Inbox,
+  Loader2,
+  RefreshCw,
+  Reply,
+  User,
+  UserCheck
+} from 'lucide-react';
+import {
+  ChatbotClient,
+  ChatbotClientError,
+  EscalationDetail,
+  EscalationFilter,
+  EscalationQueue,
+  EscalationStatus
+} from '../chatbotClient';
+
+interface AgentInboxProps {
+  client: ChatbotClient;
+  /** Signed-in user; the backend records agents under the name in their token */
+  agent: string;
+  onUnauthorized: () => void;
+}
+
+// How often the queue and the open ticket are refreshed
+const POLL_INTERVAL_MS = 10000;
+
+const FILTERS: { id: EscalationFilter; label: string }[] = [
+  { id: 'open', label: 'Open' },
+  { id: 'pending', label: 'Pending' },
+  { id: 'assigned', label: 'Assigned' },
+  { id: 'after_hours', label: 'After hours' },
+  { id: 'resolved', label: 'Resolved' },
+  { id: 'all', label: 'All' }
+];
+
+const STATUS_STYLES: Record<EscalationStatus, string> = {
+  pending: 'bg-orange-100 text-orange-800',
+  assigned: 'bg-blue-100 text-blue-800',
+  resolved: 'bg-green-100 text-green-800',
+  after_hours: 'bg-slate-100 text-slate-700'
+};
+
+const formatTime = (iso: string | null) => iso ? new Date(iso).toLocaleString() : '—';
+
+const countFor = (queue: EscalationQueue, filter: EscalationFilter) => {
+  const { pending, assigned, resolved, after_hours } = queue.counts;
+  if (filter === 'open') return pending + assigned + after_hours;
+  if (filter === 'all') return pending + assigned + resolved + after_hours;
+  return queue.counts[filter];
+};
+
+function AgentInbox({ client, agent, onUnauthorized }: AgentInboxProps) {
+  const [filter, setFilter] = useState<EscalationFilter>('open');
+  const [queue, setQueue] = useState<EscalationQueue | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<EscalationDetail | null>(null);
+  const [draft, setDraft] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = useCallback(async <T,>(action: () => Promise<T>): Promise<T | null> => {
+    setError(null);
+    try {
+      return await action();
+    } catch (err) {
+      if (err instanceof ChatbotClientError && err.kind === 'unauthorized') {
+        onUnauthorized();
+        return null;
+      }
+      if (err instanceof ChatbotClientError && err.kind === 'validation' && err.issues.length > 0) {
+        setError(err.issues.map(issue => issue.message).join(' '));
+        return null;
+      }
+      setError(err instanceof Error ? err.message : String(err));
+      return null;
+    }
+  }, [onUnauthorized]);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    const next = await run(() => client.getEscalations(filter));
+    if (next) setQueue(next);
+    if (selectedId) {
+      const ticket = await run(() => client.getEscalation(selectedId));
+      if (ticket) setDetail(ticket);
+    }
+    setLoading(false);
+  }, [client, filter, selectedId, run]);
+
+  useEffect(() => {
+    load();
+    const timer = setInterval(load, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [load]);
+
+  // Selecting a ticket re-runs load, which fetches its detail
+  const open = (ticketId: string) => {
+    setSelectedId(ticketId);
+    setDetail(null);
+    setDraft('');
+  };
+
+  // Agent actions return the updated ticket; the queue is reloaded for the new counts
+  const act = async (action: () => Promise<EscalationDetail>) => {
+    setBusy(true);
+    const ticket = await run(action);
+    if (ticket) {
+      setDetail(ticket);
+      const next = await run(() => client.getEscalations(filter));
+      if (next) setQueue(next);
+    }
+    setBusy(false);
+    return ticket;
+  };
+
+  const sendReply = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!detail || !draft.trim()) return;
+    const ticket = await act(() => client.replyEscalation(detail.ticket.ticketId, agent, draft.trim()));
+    if (ticket) setDraft('');
+  };
+
+  const resolve = async () => {
+    if (!detail) return;
+    if (!window.confirm(`Resolve ${detail.ticket.ticketId}? The customer goes back to the bot.`)) {
+      return;
+    }
+    const ticket = await act(() => client.resolveEscalation(detail.ticket.ticketId, agent, draft.trim() || undefined));
+    if (ticket) setDraft('');
+  };
+
+  const ticket = detail?.ticket;
+  const isMine = ticket?.status === 'assigned' && ticket.agent === agent;
+  const canAct = ticket !== undefined && ticket.status !== 'resolved'
+    && (ticket.status !== 'assigned' || isMine);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border p-6 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Inbox className="w-5 h-5 text-amber-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Agent inbox</h3>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="flex items-center gap-2 text-sm text-gray-600">
+            <Headset className="w-4 h-4" />
+            {agent}
+          </span>
+          <button
+            onClick={load}
+            disabled={loading}
+            className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm border text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {FILTERS.map(({ id, label }) => (
+          <button
+            key={id}
+            onClick={() => setFilter(id)}
+            className={`px-3 py-1 rounded-full text-xs font-medium ${
+              filter === id ? 'bg-amber-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {label}{queue && ` (${countFor(queue, id)})`}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-start gap-2 text-sm text-red-800">
+          <AlertCircle className="w-5 h-5 shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {queue && (
+        <p className="text-xs text-gray-400">
+          Assigned tickets go back to the queue after {Math.round(queue.timeout / 60)} min without an answer · refreshed every {POLL_INTERVAL_MS / 1000} s
+        </p>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-5">
+        <div className="md:col-span-2 border rounded-lg divide-y max-h-[32rem] overflow-y-auto">
+          {queue && queue.tickets.length === 0 && (
+            <p className="text-sm text-gray-500 py-8 text-center">No tickets</p>
+          )}
+          {!queue && loading && (
+            <div className="flex justify-center py-8 text-gray-500">
+              <Loader2 className="w-6 h-6 animate-spin" />
+            </div>
+          )}
+          {queue?.tickets.map(item => (
+            <button
+              key={item.ticketId}
+              onClick={() => open(item.ticketId)}
+              className={`w-full text-left p-3 space-y-1 hover:bg-gray-50 ${selectedId === item.ticketId ? 'bg-amber-50' : ''}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-mono text-xs text-gray-900">{item.ticketId}</span>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[item.status]}`}>
+                  {item.status}
+                </span>
+              </div>
+              <p className="text-sm text-gray-700 truncate">{item.lastCustomerMessage ?? item.reason}</p>
+              <p className="text-xs text-gray-400 flex items-center gap-2">
+                {formatTime(item.updatedAt)}
+                {item.agent && <span>· {item.agent}</span>}
+                {item.awaitingAgent && item.status !== 'resolved' && (
+                  <span className="text-amber-700 font-medium">· waiting</span>
+                )}
+              </p>
+            </button>
+          ))}
+        </div>
+
+        <div className="md:col-span-3 border rounded-lg p-4">
+          {!ticket ? (
+            <p className="text-sm text-gray-500 py-8 text-center">
+              {selectedId ? <Loader2 className="w-6 h-6 animate-spin mx-auto" /> : 'Select a ticket'}
+            </p>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono text-sm text-gray-900">{ticket.ticketId}</span>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[ticket.status]}`}>
+                      {ticket.status}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Session <span className="font-mono">{ticket.sessionId}</span> · opened {formatTime(ticket.createdAt)}
+                    {ticket.agent && <> · {ticket.agent}</>}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  {ticket.status !== 'assigned' && ticket.status !== 'resolved' && (
+                    <button
+                      onClick={() => act(() => client.claimEscalation(ticket.ticketId, agent))}
+                      disabled={!canAct || busy}
+                      className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm border text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      <UserCheck className="w-4 h-4" />
+                      Take
+                    </button>
+                  )}
+                  {ticket.status !== 'resolved' && (
+                    <button
+                      onClick={resolve}
+                      disabled={!canAct || busy}
+                      className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm border text-green-700 hover:bg-green-50 disabled:opacity-50"
+                    >
+                      <CheckCheck className="w-4 h-4" />
+                      Resolve
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {detail.transcript.length > 0 && (
+                <details className="text-sm">
+                  <summary className="cursor-pointer text-xs text-gray-500">
+                    Bot conversation ({detail.transcript.length} messages)
+                  </summary>
+                  <div className="mt-2 space-y-1 bg-gray-50 rounded p-3 max-h-60 overflow-y-auto">
+                    {detail.summary && <p className="text-xs text-gray-500 italic">{detail.summary}</p>}
+                    {detail.transcript.map((turn, index) => (
+                      <p key={index} className="flex items-start gap-2 text-xs text-gray-700">
+                        {turn.role === 'user'
+                          ? <User className="w-3 h-3 mt-0.5 shrink-0" />
+                          : <Bot className="w-3 h-3 mt-0.5 shrink-0" />}
+                        <span>{turn.content}</span>
+                      </p>
+                    ))}
+                  </div>
+                </details>
+              )}
+
+              <div className="space-y-2 max-h-80 overflow-y-auto">
+                {ticket.messages.map((message, index) => (
+                  message.from === 'system' ? (
+                    <p key={index} className="text-center text-xs text-gray-400">{message.text}</p>
+                  ) : (
+                    <div key={index} className={`flex ${message.from === 'agent' ? 'justify-end' : 'justify-start'}`}>
+                      <div
+                        className={`max-w-[80%] rounded-lg px-3 py-2 text-sm ${
+                          message.from === 'agent' ? 'bg-amber-100 text-amber-900' : 'bg-gray-100 text-gray-800'
+                        }`}
+                      >
+                        <p className="whitespace-pre-wrap">{message.text}</p>
+                        <p className="text-[10px] opacity-60 mt-1">
+                          {message.agent ? `${message.agent} · ` : ''}{formatTime(message.at)}
+                        </p>
+                      </div>
+                    </div>
+                  )
+                ))}
+              </div>
+
+              {ticket.status !== 'resolved' && (
+                <form onSubmit={sendReply} className="flex gap-2">
+                  <textarea
+                    value={draft}
+                    onChange={e => setDraft(e.target.value)}
+                    rows={2}
+                    placeholder={canAct ? 'Reply to the customer…' : 'Take the ticket to reply'}
+                    disabled={!canAct || busy}
+                    className="flex-1 px-3 py-2 border rounded-lg text-sm disabled:bg-gray-50"
+                  />
+                  <button
+                    type="submit"
+                    disabled={!canAct || busy || !draft.trim()}
+                    className="inline-flex items-center gap-1 px-3 py-2 rounded-lg text-sm bg-amber-600 text-white hover:bg-amber-700 disabled:opacity-50 self-end"
+                  >
+                    {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Reply className="w-4 h-4" />}
+                    Send
+                  </button>
+                </form>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default AgentInbox;
@@ -0,0 +1,417 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Activity,
+  AlertCircle,
+  BarChart3,
+  CheckCircle,
+  Clock,
+  Loader2,
+  MessageSquare,
+  PhoneForwarded,
+  RefreshCw,
+  ShieldAlert
+} from 'lucide-react';
+import { Analytics, AnalyticsReport, ChatbotClient, ChatbotClientError } from '../chatbotClient';
+
+interface AnalyticsDashboardProps {
+  client: ChatbotClient;
+  onUnauthorized: () => void;
+}
+
+const PRESETS = [7, 30, 90];
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+// Monday-first rows read more naturally for a support schedule
+const HEATMAP_DAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+const HEAT_SCALE = [
+  'bg-gray-100',
+  'bg-indigo-100',
+  'bg-indigo-200',
+  'bg-indigo-300',
+  'bg-indigo-400',
+  'bg-indigo-500',
+  'bg-indigo-600',
+  'bg-indigo-700'
+];
+const PROVIDER_COLORS: Record<string, string> = {
+  gemini: 'bg-blue-500',
+  claude: 'bg-purple-500',
+  mercadolibre: 'bg-yellow-400'
+};
+
+const THROTTLE_LABELS: Record<string, string> = {
+  session: 'Too fast (per session)',
+  global: 'Global limit',
+  too_long: 'Message too long',
+  duplicate: 'Repeated message'
+};
+
+const toISODate = (date: Date) => date.toISOString().slice(0, 10);
+
+const daysAgo = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() - days + 1);
+  return toISODate(date);
+};
+
+/** Every date between start and end (inclusive), so empty days still get a bar */
+const dateSpan = (startDate: string, endDate: string) => {
+  const dates: string[] = [];
+  const cursor = new Date(`${startDate}T00:00:00Z`);
+  const end = new Date(`${endDate}T00:00:00Z`);
+  while (cursor <= end && dates.length < 366) {
+    dates.push(toISODate(cursor));
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  return dates;
+};
+
+function AnalyticsDashboard({ client, onUnauthorized }: AnalyticsDashboardProps) {
+  const [startDate, setStartDate] = useState(() => daysAgo(7));
+  const [endDate, setEndDate] = useState(() => toISODate(new Date()));
+  const [report, setReport] = useState<AnalyticsReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setReport(await client.getAnalytics({ startDate, endDate }));
+    } catch (err) {
+      if (err instanceof ChatbotClientError && err.kind === 'unauthorized') {
+        onUnauthorized();
+        return;
+      }
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [client, startDate, endDate, onUnauthorized]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const applyPreset = (days: number) => {
+    setStartDate(daysAgo(days));
+    setEndDate(toISODate(new Date()));
+  };
+
+  const analytics = report?.analytics;
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center bg-gradient-to-r from-indigo-50 to-sky-50 rounded-xl p-8">
+        <div className="flex justify-center mb-4">
+          <BarChart3 className="w-16 h-16 text-indigo-600" />
+        </div>
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Chatbot Analytics</h2>
+        <p className="text-gray-600">Live statistics computed from the Chat_Logs sheet</p>
+      </div>
+
+      {/* Range controls */}
+      <div className="bg-white rounded-xl shadow-sm border p-4 flex flex-wrap items-center gap-3">
+        <div className="flex space-x-1 bg-gray-100 p-1 rounded-lg">
+          {PRESETS.map(days => (
+            <button
+              key={days}
+              onClick={() => applyPreset(days)}
+              className={`px-3 py-1 rounded-md text-sm ${
+                startDate === daysAgo(days) && endDate === toISODate(new Date())
+                  ? 'bg-white shadow-sm text-gray-900'
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {days}d
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          From
+          <input
+            type="date"
+            value={startDate}
+            max={endDate}
+            onChange={e => setStartDate(e.target.value)}
+            className="px-2 py-1 border rounded-md text-sm"
+          />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          To
+          <input
+            type="date"
+            value={endDate}
+            min={startDate}
+            onChange={e => setEndDate(e.target.value)}
+            className="px-2 py-1 border rounded-md text-sm"
+          />
+        </label>
+        <button
+          onClick={load}
+          disabled={loading}
+          className="ml-auto inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-4 flex items-start gap-2 text-sm text-red-800">
+          <AlertCircle className="w-5 h-5 shrink-0" />
+          <span>Could not load analytics: {error}</span>
+        </div>
+      )}
+
+      {analytics && (
+        <>
+          <KpiCards analytics={analytics} />
+          <DailyChart analytics={analytics} dates={dateSpan(startDate, endDate)} />
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2">
+              <BusyHoursHeatmap analytics={analytics} />
+            </div>
+            <ProviderBreakdown analytics={analytics} />
+          </div>
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2">
+              <InteractionTypes analytics={analytics} />
+            </div>
+            <ThrottledTraffic analytics={analytics} />
+          </div>
+        </>
+      )}
+
+      {!analytics && loading && (
+        <div className="flex justify-center py-16 text-gray-500">
+          <Loader2 className="w-6 h-6 animate-spin" />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function KpiCards({ analytics }: { analytics: Analytics }) {
+  const cards = [
+    {
+      label: 'Interactions',
+      value: analytics.totalInteractions.toLocaleString(),
+      icon: MessageSquare,
+      accent: 'text-blue-600 bg-blue-50'
+    },
+    {
+      label: 'Success rate',
+      value: `${analytics.successRate}%`,
+      icon: CheckCircle,
+      accent: 'text-green-600 bg-green-50'
+    },
+    {
+      label: 'Escalation rate',
+      value: `${analytics.escalationRate}%`,
+      icon: PhoneForwarded,
+      accent: 'text-orange-600 bg-orange-50'
+    },
+    {
+      label: 'Avg response time',
+      value: `${analytics.averageResponseTime.toLocaleString()} ms`,
+      icon: Clock,
+      accent: 'text-purple-600 bg-purple-50'
+    }
+  ];
+
+  return (
+    <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+      {cards.map(({ label, value, icon: Icon, accent }) => (
+        <div key={label} className="bg-white rounded-xl shadow-sm border p-5">
+          <div className={`w-10 h-10 rounded-lg flex items-center justify-center mb-3 ${accent}`}>
+            <Icon className="w-5 h-5" />
+          </div>
+          <p className="text-2xl font-bold text-gray-900">{value}</p>
+          <p className="text-sm text-gray-500">{label}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function DailyChart({ analytics, dates }: { analytics: Analytics; dates: string[] }) {
+  const max = Math.max(1, ...dates.map(date => analytics.dailyStats[date]?.total ?? 0));
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Daily volume</h3>
+        <div className="flex items-center gap-4 text-xs text-gray-500">
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-indigo-400" /> Interactions</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-orange-400" /> Escalations</span>
+        </div>
+      </div>
+      <div className="flex items-end gap-1 h-48">
+        {dates.map(date => {
+          const stats = analytics.dailyStats[date] ?? { total: 0, successful: 0, escalations: 0 };
+          return (
+            <div
+              key={date}
+              className="flex-1 h-full flex flex-col justify-end group"
+              title={`${date}: ${stats.total} interactions, ${stats.escalations} escalations`}
+            >
+              <div
+                className="w-full bg-indigo-400 group-hover:bg-indigo-500 rounded-t-sm flex flex-col justify-end overflow-hidden transition-colors"
+                style={{ height: `${(stats.total / max) * 100}%` }}
+              >
+                <div
+                  className="w-full bg-orange-400"
+                  style={{ height: stats.total ? `${(stats.escalations / stats.total) * 100}%` : 0 }}
+                />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex justify-between mt-2 text-xs text-gray-400">
+        <span>{dates[0]}</span>
+        <span>{dates[dates.length - 1]}</span>
+      </div>
+    </div>
+  );
+}
+
+function BusyHoursHeatmap({ analytics }: { analytics: Analytics }) {
+  const cells = HEATMAP_DAY_ORDER.map(day =>
+    Array.from({ length: 24 }, (_, hour) => analytics.busyHoursByDay[day]?.[hour] ?? 0)
+  );
+  const max = Math.max(1, ...cells.flat());
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border p-6 h-full">
+      <div className="flex items-center gap-2 mb-4">
+        <Activity className="w-5 h-5 text-indigo-600" />
+        <h3 className="text-lg font-semibold text-gray-900">Busy hours</h3>
+      </div>
+      <div className="overflow-x-auto">
+        <div className="inline-grid gap-1" style={{ gridTemplateColumns: 'auto repeat(24, minmax(14px, 1fr))' }}>
+          <span />
+          {Array.from({ length: 24 }, (_, hour) => (
+            <span key={hour} className="text-[10px] text-gray-400 text-center">
+              {hour % 3 === 0 ? hour : ''}
+            </span>
+          ))}
+          {cells.map((row, rowIndex) => (
+            <div key={rowIndex} className="contents">
+              <span className="text-xs text-gray-500 pr-2">{DAY_LABELS[HEATMAP_DAY_ORDER[rowIndex]]}</span>
+              {row.map((count, hour) => (
+                <span
+                  key={hour}
+                  title={`${DAY_LABELS[HEATMAP_DAY_ORDER[rowIndex]]} ${hour}:00 — ${count}`}
+                  className={`h-4 rounded-sm ${
+                    count === 0
+                      ? HEAT_SCALE[0]
+                      : HEAT_SCALE[Math.max(1, Math.ceil((count / max) * (HEAT_SCALE.length - 1)))]
+                  }`}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ProviderBreakdown({ analytics }: { analytics: Analytics }) {
+  const entries = Object.entries(analytics.aiUsage).sort(([, a], [, b]) => b - a);
+  const total = entries.reduce((sum, [, count]) => sum + count, 0);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border p-6 h-full">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">Provider breakdown</h3>
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500">No provider calls in this range.</p>
+      ) : (
+        <div className="space-y-4">
+          {entries.map(([provider, count]) => (
+            <div key={provider}>
+              <div className="flex justify-between text-sm mb-1">
+                <span className="font-medium text-gray-800 capitalize">{provider}</span>
+                <span className="text-gray-500">{count} · {Math.round((count / total) * 100)}%</span>
+              </div>
+              <div className="w-full bg-gray-100 rounded-full h-2">
+                <div
+                  className={`h-2 rounded-full ${PROVIDER_COLORS[provider] || 'bg-gray-400'}`}
+                  style={{ width: `${(count / total) * 100}%` }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function InteractionTypes({ analytics }: { analytics: Analytics }) {
+  const entries = Object.entries(analytics.interactionsByType).sort(([, a], [, b]) => b - a);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border p-6 h-full">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">Interactions by type</h3>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {entries.map(([type, count]) => (
+          <div key={type} className="p-3 bg-gray-50 rounded-lg">
+            <p className="text-xs font-mono text-gray-500">{type}</p>
+            <p className="text-lg font-semibold text-gray-900">{count.toLocaleString()}</p>
+          </div>
+        ))}
+        {entries.length === 0 && <p className="text-sm text-gray-500">No interactions in this range.</p>}
+      </div>
+    </div>
+  );
+}
+
+/** Requests the rate limits turned away; they are not part of the other figures */
+function ThrottledTraffic({ analytics }: { analytics: Analytics }) {
+  const { total, byReason, topSessions } = analytics.throttled;
+  const reasons = Object.entries(byReason).sort(([, a], [, b]) => b - a);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border p-6 h-full">
+      <div className="flex items-center gap-2 mb-4">
+        <ShieldAlert className="w-5 h-5 text-rose-600" />
+        <h3 className="text-lg font-semibold text-gray-900">Throttled requests</h3>
+        <span className="ml-auto text-lg font-semibold text-gray-900">{total.toLocaleString()}</span>
+      </div>
+      {total === 0 ? (
+        <p className="text-sm text-gray-500">No requests were throttled in this range.</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="space-y-3">
+            {reasons.map(([reason, count]) => (
+              <div key={reason}>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="text-gray-800">{THROTTLE_LABELS[reason] ?? reason}</span>
+                  <span className="text-gray-500">{count}</span>
+                </div>
+                <div className="w-full bg-gray-100 rounded-full h-2">
+                  <div className="h-2 rounded-full bg-rose-400" style={{ width: `${(count / total) * 100}%` }} />
+                </div>
+              </div>
+            ))}
+          </div>
+          <div>
+            <p className="text-xs font-medium text-gray-500 uppercase mb-2">Top sessions</p>
+            <ul className="space-y-1 text-sm">
+              {topSessions.map(({ sessionId, count }) => (
+                <li key={sessionId} className="flex justify-between">
+                  <span className="font-mono text-xs text-gray-700 truncate">{sessionId}</span>
+                  <span className="text-gray-500">{count}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default AnalyticsDashboard;
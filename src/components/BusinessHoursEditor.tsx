@@ -0,0 +1,453 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  AlertCircle,
+  CalendarDays,
+  CheckCircle,
+  Clock,
+  FlaskConical,
+  Globe,
+  Loader2,
+  Lock,
+  Plus,
+  Save,
+  Trash2,
+  Undo2,
+  X
+} from 'lucide-react';
+import {
+  BusinessHoursConfig,
+  BusinessHoursReport,
+  BusinessHoursSimulation,
+  ChatbotClient,
+  ChatbotClientError,
+  Holiday,
+  Shift,
+  ValidationIssue
+} from '../chatbotClient';
+
+interface BusinessHoursEditorProps {
+  client: ChatbotClient;
+  onUnauthorized: () => void;
+  /** Show the saved values without the controls that change them */
+  readOnly?: boolean;
+}
+
+const DAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Monday first, as the week reads on the schedule
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const TIMEZONES = [
+  'America/Argentina/Buenos_Aires',
+  'America/Bogota',
+  'America/Lima',
+  'America/Mexico_City',
+  'America/Montevideo',
+  'America/Santiago',
+  'America/Sao_Paulo',
+  'Europe/Madrid',
+  'UTC'
+];
+
+const toConfig = (report: BusinessHoursReport): BusinessHoursConfig => ({
+  timezone: report.timezone,
+  days: report.days,
+  holidays: report.holidays
+});
+
+/** yyyy-MM-ddTHH:mm of the browser clock, the format datetime-local inputs use */
+const localNow = () => {
+  const now = new Date();
+  now.setMinutes(now.getMinutes() - now.getTimezoneOffset());
+  return now.toISOString().slice(0, 16);
+};
+
+interface ShiftsEditorProps {
+  shifts: Shift[];
+  onChange: (shifts: Shift[]) => void;
+  closedLabel: string;
+}
+
+function ShiftsEditor({ shifts, onChange, closedLabel }: ShiftsEditorProps) {
+  const update = (index: number, changes: Partial<Shift>) =>
+    onChange(shifts.map((shift, i) => i === index ? { ...shift, ...changes } : shift));
+
+  // A new shift starts an hour after the last one ends
+  const addShift = () => {
+    const last = shifts[shifts.length - 1];
+    const hour = last ? Math.min(23, Number(last.end.split(':')[0]) + 1) : 9;
+    const end = Math.min(24, hour + 4);
+    onChange([...shifts, { start: `${String(hour).padStart(2, '0')}:00`, end: `${String(end).padStart(2, '0')}:00` }]);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {shifts.length === 0 && <span className="text-sm text-gray-400">{closedLabel}</span>}
+      {shifts.map((shift, index) => (
+        <span key={index} className="inline-flex items-center gap-1 bg-gray-50 border rounded-lg px-2 py-1">
+          <input
+            type="time"
+            value={shift.start}
+            onChange={e => update(index, { start: e.target.value })}
+            className="bg-transparent text-sm"
+          />
+          <span className="text-gray-400">–</span>
+          <input
+            type="time"
+            value={shift.end}
+            onChange={e => update(index, { end: e.target.value })}
+            className="bg-transparent text-sm"
+          />
+          <button
+            title="Remove shift"
+            onClick={() => onChange(shifts.filter((_, i) => i !== index))}
+            className="p-0.5 rounded text-gray-400 hover:text-red-700"
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </span>
+      ))}
+      <button
+        onClick={addShift}
+        className="inline-flex items-center gap-1 px-2 py-1 rounded-lg text-xs text-teal-700 hover:bg-teal-50"
+      >
+        <Plus className="w-3.5 h-3.5" />
+        Shift
+      </button>
+    </div>
+  );
+}
+
+function BusinessHoursEditor({ client, onUnauthorized, readOnly = false }: BusinessHoursEditorProps) {
+  const [report, setReport] = useState<BusinessHoursReport | null>(null);
+  const [draft, setDraft] = useState<BusinessHoursConfig | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [issues, setIssues] = useState<ValidationIssue[]>([]);
+  const [savedAt, setSavedAt] = useState<Date | null>(null);
+  const [simulateAt, setSimulateAt] = useState(localNow);
+  const [simulation, setSimulation] = useState<BusinessHoursSimulation | null>(null);
+  const [simulating, setSimulating] = useState(false);
+
+  const handleError = useCallback((err: unknown) => {
+    if (err instanceof ChatbotClientError && err.kind === 'unauthorized') {
+      onUnauthorized();
+      return;
+    }
+    if (err instanceof ChatbotClientError && err.kind === 'validation') {
+      setIssues(err.issues);
+    }
+    setError(err instanceof Error ? err.message : String(err));
+  }, [onUnauthorized]);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const next = await client.getBusinessHours();
+      setReport(next);
+      setDraft(toConfig(next));
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setLoading(false);
+    }
+  }, [client, handleError]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const edit = (changes: Partial<BusinessHoursConfig>) => {
+    setIssues([]);
+    setDraft(prev => prev ? { ...prev, ...changes } : prev);
+  };
+
+  const setDayShifts = (day: number, shifts: Shift[]) =>
+    draft && edit({ days: draft.days.map(entry => entry.day === day ? { ...entry, shifts } : entry) });
+
+  const updateHoliday = (index: number, changes: Partial<Holiday>) =>
+    draft && edit({ holidays: draft.holidays.map((holiday, i) => i === index ? { ...holiday, ...changes } : holiday) });
+
+  const save = async () => {
+    if (!draft) return;
+    setSaving(true);
+    setError(null);
+    setIssues([]);
+    try {
+      const next = await client.updateBusinessHours(draft);
+      setReport(next);
+      setDraft(toConfig(next));
+      setSavedAt(new Date());
+      setSimulation(null);
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const simulate = async () => {
+    setSimulating(true);
+    setError(null);
+    try {
+      setSimulation(await client.simulateBusinessHours(simulateAt));
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setSimulating(false);
+    }
+  };
+
+  const issuesFor = (field: string, index = -1) =>
+    issues.filter(issue => issue.field === field && issue.index === index);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-16 text-gray-500">
+        <Loader2 className="w-6 h-6 animate-spin" />
+      </div>
+    );
+  }
+
+  const dirty = report !== null && JSON.stringify(draft) !== JSON.stringify(toConfig(report));
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center bg-gradient-to-r from-teal-50 to-cyan-50 rounded-xl p-8">
+        <div className="flex justify-center mb-4">
+          <Clock className="w-16 h-16 text-teal-600" />
+        </div>
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Business Hours</h2>
+        <p className="text-gray-600">When human agents answer escalations, and what customers are told outside those hours</p>
+      </div>
+
+      {/* Save bar */}
+      <div className="sticky top-4 z-10 bg-white rounded-xl shadow-sm border p-4 flex flex-wrap items-center gap-3">
+        <div className="text-sm">
+          {dirty ? (
+            <span className="text-amber-700">Unsaved changes</span>
+          ) : savedAt ? (
+            <span className="inline-flex items-center gap-1.5 text-green-700">
+              <CheckCircle className="w-4 h-4" />
+              Saved at {savedAt.toLocaleTimeString()}
+            </span>
+          ) : report ? (
+            <span className={report.open ? 'text-green-700' : 'text-gray-500'}>
+              {report.open ? 'Open now' : `Closed now${report.nextOpening ? ` · opens ${report.nextOpening.display}` : ''}`}
+            </span>
+          ) : null}
+        </div>
+        {readOnly ? (
+          <span className="ml-auto inline-flex items-center gap-1.5 text-sm text-gray-500">
+            <Lock className="w-4 h-4" />
+            View only
+          </span>
+        ) : (
+          <div className="ml-auto flex items-center gap-2">
+            <button
+              onClick={() => { if (report) setDraft(toConfig(report)); setIssues([]); setError(null); }}
+              disabled={!dirty || saving}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm text-gray-600 hover:bg-gray-100 disabled:opacity-40"
+            >
+              <Undo2 className="w-4 h-4" />
+              Discard
+            </button>
+            <button
+              onClick={save}
+              disabled={!dirty || saving}
+              className="inline-flex items-center gap-1.5 px-4 py-1.5 rounded-lg text-sm font-medium bg-teal-600 text-white hover:bg-teal-700 disabled:opacity-40"
+            >
+              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              Save hours
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-4 flex items-start gap-2 text-sm text-red-800">
+          <AlertCircle className="w-5 h-5 shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {draft && (
+        <div className="grid grid-cols-1 lg:grid-cols-5 gap-6 items-start">
+          <fieldset disabled={readOnly} className="lg:col-span-3 space-y-6 min-w-0">
+            <div className="bg-white rounded-xl shadow-sm border p-6 space-y-4">
+              <div className="flex items-center gap-2">
+                <Globe className="w-5 h-5 text-teal-600" />
+                <h3 className="text-lg font-semibold text-gray-900">Weekly schedule</h3>
+              </div>
+
+              <label className="block text-sm">
+                <span className="text-gray-700">Timezone</span>
+                <input
+                  list="business-timezones"
+                  value={draft.timezone}
+                  onChange={e => edit({ timezone: e.target.value })}
+                  className="mt-1 w-full px-3 py-2 border rounded-lg text-sm"
+                />
+                <datalist id="business-timezones">
+                  {TIMEZONES.map(zone => <option key={zone} value={zone} />)}
+                </datalist>
+                {issuesFor('timezone').map(issue => (
+                  <span key={issue.message} className="block mt-1 text-xs text-red-700">{issue.message}</span>
+                ))}
+              </label>
+
+              <div className="divide-y">
+                {WEEK_ORDER.map(day => {
+                  const entry = draft.days.find(item => item.day === day);
+                  return (
+                    <div key={day} className="py-2 flex flex-wrap items-start gap-3">
+                      <span className="w-24 pt-1 text-sm font-medium text-gray-700">{DAY_LABELS[day]}</span>
+                      <div className="flex-1">
+                        <ShiftsEditor
+                          shifts={entry?.shifts ?? []}
+                          onChange={shifts => setDayShifts(day, shifts)}
+                          closedLabel="Closed"
+                        />
+                        {issuesFor('days', day).map(issue => (
+                          <span key={issue.message} className="block mt-1 text-xs text-red-700">{issue.message}</span>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border p-6 space-y-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <CalendarDays className="w-5 h-5 text-teal-600" />
+                  <h3 className="text-lg font-semibold text-gray-900">Holidays and closures</h3>
+                </div>
+                <button
+                  onClick={() => edit({ holidays: [...draft.holidays, { date: '', name: '', shifts: [], recurring: false }] })}
+                  className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm text-teal-700 bg-teal-50 hover:bg-teal-100"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add date
+                </button>
+              </div>
+
+              {draft.holidays.length === 0 ? (
+                <p className="text-sm text-gray-500 py-4 text-center">No holidays</p>
+              ) : (
+                <div className="divide-y">
+                  {draft.holidays.map((holiday, index) => (
+                    <div key={index} className="py-3 space-y-2">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <input
+                          type="date"
+                          value={holiday.date}
+                          onChange={e => updateHoliday(index, { date: e.target.value })}
+                          className="px-2 py-1 border rounded-lg text-sm"
+                        />
+                        <input
+                          value={holiday.name}
+                          onChange={e => updateHoliday(index, { name: e.target.value })}
+                          placeholder="Description"
+                          className="flex-1 min-w-[10rem] px-2 py-1 border rounded-lg text-sm"
+                        />
+                        <label className="inline-flex items-center gap-1 text-xs text-gray-600">
+                          <input
+                            type="checkbox"
+                            checked={holiday.recurring}
+                            onChange={e => updateHoliday(index, { recurring: e.target.checked })}
+                          />
+                          Every year
+                        </label>
+                        <button
+                          title="Remove"
+                          onClick={() => edit({ holidays: draft.holidays.filter((_, i) => i !== index) })}
+                          className="p-1 rounded text-gray-500 hover:text-red-700 hover:bg-red-50"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                      <ShiftsEditor
+                        shifts={holiday.shifts}
+                        onChange={shifts => updateHoliday(index, { shifts })}
+                        closedLabel="Closed all day"
+                      />
+                      {issuesFor('holidays', index).map(issue => (
+                        <span key={issue.message} className="block text-xs text-red-700">{issue.message}</span>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </fieldset>
+
+          {/* Simulator */}
+          <div className="lg:col-span-2 lg:sticky lg:top-24 bg-white rounded-xl shadow-sm border p-6 space-y-4">
+            <div className="flex items-center gap-2">
+              <FlaskConical className="w-5 h-5 text-teal-600" />
+              <h3 className="text-lg font-semibold text-gray-900">What would a customer see?</h3>
+            </div>
+            <p className="text-xs text-gray-500">
+              Uses the saved schedule. The time is read in {report?.timezone ?? draft.timezone}.
+            </p>
+            <div className="flex gap-2">
+              <input
+                type="datetime-local"
+                value={simulateAt}
+                onChange={e => setSimulateAt(e.target.value)}
+                className="flex-1 px-2 py-1.5 border rounded-lg text-sm"
+              />
+              <button
+                onClick={simulate}
+                disabled={simulating || !simulateAt}
+                className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm border text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                {simulating ? <Loader2 className="w-4 h-4 animate-spin" /> : <FlaskConical className="w-4 h-4" />}
+                Simulate
+              </button>
+            </div>
+
+            {simulation && (
+              <div className="space-y-3 text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                    simulation.open ? 'bg-green-100 text-green-800' : 'bg-slate-100 text-slate-700'
+                  }`}>
+                    {simulation.open ? 'Open' : 'Closed'}
+                  </span>
+                  <span className="text-gray-600">
+                    {DAY_LABELS[simulation.local.day]} {simulation.local.date} {simulation.local.time}
+                  </span>
+                  {simulation.holiday && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+                      {simulation.holiday}
+                    </span>
+                  )}
+                </div>
+                {simulation.nextOpening && (
+                  <p className="text-gray-600">
+                    Opens {simulation.nextOpening.display} ({new Date(simulation.nextOpening.at).toLocaleString()})
+                  </p>
+                )}
+                <div>
+                  <p className="text-xs font-medium text-gray-500 mb-1">Menu greeting</p>
+                  <p className="bg-gray-50 rounded-lg p-3 text-gray-800">{simulation.greeting}</p>
+                </div>
+                <div>
+                  <p className="text-xs font-medium text-gray-500 mb-1">Asking for an agent</p>
+                  <p className="bg-gray-50 rounded-lg p-3 text-gray-800">{simulation.escalationMessage}</p>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default BusinessHoursEditor;
@@ -0,0 +1,457 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  AlertCircle,
+  CheckCircle,
+  Copy,
+  Loader2,
+  Play,
+  Save,
+  Send,
+  Webhook
+} from 'lucide-react';
+import {
+  ChannelId,
+  ChannelReplayResult,
+  ChannelStatus,
+  ChatbotClient,
+  ChatbotClientError,
+  ValidationIssue
+} from '../chatbotClient';
+
+interface ChannelsPanelProps {
+  client: ChatbotClient;
+  onUnauthorized: () => void;
+}
+
+/** Credentials being edited; blank fields keep the stored value */
+interface Draft {
+  enabled: boolean;
+  values: Record<string, string>;
+  registerWebhook: boolean;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  accessToken: 'Access token',
+  phoneNumberId: 'Phone number ID',
+  verifyToken: 'Verify token',
+  botToken: 'Bot token',
+  webhookSecret: 'Webhook secret'
+};
+
+/** Fields the backend only returns masked */
+const HIDDEN_FIELDS = ['accessToken', 'botToken'];
+
+const SECRET_FIELDS = ['verifyToken', 'webhookSecret'];
+
+const SETUP_HINTS: Record<ChannelId, string> = {
+  whatsapp: 'In the Meta app dashboard, open WhatsApp › Configuration, paste the webhook URL and the verify token, and subscribe to the messages field.',
+  telegram: 'Create the bot with @BotFather, paste its token here and save with "Register the webhook" checked.'
+};
+
+const SAMPLES: { id: string; label: string; channel: ChannelId; payload: Record<string, unknown> }[] = [
+  {
+    id: 'whatsapp-text',
+    label: 'WhatsApp: text message',
+    channel: 'whatsapp',
+    payload: {
+      object: 'whatsapp_business_account',
+      entry: [{
+        id: '102290129340398',
+        changes: [{
+          field: 'messages',
+          value: {
+            messaging_product: 'whatsapp',
+            metadata: { display_phone_number: '15550783881', phone_number_id: '106540352242922' },
+            contacts: [{ profile: { name: 'Ana' }, wa_id: '5491155550000' }],
+            messages: [{ from: '5491155550000', id: 'wamid.sample1', timestamp: '1705323600', type: 'text', text: { body: 'Hola, ¿dónde está mi pedido?' } }]
+          }
+        }]
+      }]
+    }
+  },
+  {
+    id: 'whatsapp-list',
+    label: 'WhatsApp: menu row picked',
+    channel: 'whatsapp',
+    payload: {
+      object: 'whatsapp_business_account',
+      entry: [{
+        id: '102290129340398',
+        changes: [{
+          field: 'messages',
+          value: {
+            messaging_product: 'whatsapp',
+            metadata: { display_phone_number: '15550783881', phone_number_id: '106540352242922' },
+            messages: [{ from: '5491155550000', id: 'wamid.sample2', timestamp: '1705323660', type: 'interactive', interactive: { type: 'list_reply', list_reply: { id: 'menu:3', title: '3. Política de devoluciones' } } }]
+          }
+        }]
+      }]
+    }
+  },
+  {
+    id: 'telegram-start',
+    label: 'Telegram: /start',
+    channel: 'telegram',
+    payload: {
+      update_id: 10000,
+      message: { message_id: 1, from: { id: 777000, first_name: 'Ana', language_code: 'es' }, chat: { id: 777000, type: 'private' }, date: 1705323600, text: '/start' }
+    }
+  },
+  {
+    id: 'telegram-button',
+    label: 'Telegram: button tapped',
+    channel: 'telegram',
+    payload: {
+      update_id: 10001,
+      callback_query: { id: '4382bfdwdsb323b2d9', from: { id: 777000, first_name: 'Ana' }, message: { message_id: 2, chat: { id: 777000, type: 'private' } }, data: 'menu:2' }
+    }
+  }
+];
+
+const emptyDraft = (channel: ChannelStatus): Draft => ({
+  enabled: channel.enabled,
+  values: Object.fromEntries(Object.keys(channel.fields).map(field => [field, HIDDEN_FIELDS.includes(field) ? '' : channel.fields[field]])),
+  registerWebhook: false
+});
+
+/** Same checks as ChannelService.validateUpdate */
+function validateDraft(channel: ChannelStatus, draft: Draft): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  Object.entries(draft.values).forEach(([field, value]) => {
+    const trimmed = value.trim();
+    if (trimmed && SECRET_FIELDS.includes(field) && !/^[A-Za-z0-9_-]{8,256}$/.test(trimmed)) {
+      issues.push({ index: -1, field, message: 'Use 8 to 256 letters, numbers, - or _' });
+    } else if (trimmed && field === 'phoneNumberId' && !/^\d+$/.test(trimmed)) {
+      issues.push({ index: -1, field, message: 'Phone number ID must be numeric' });
+    } else if (!trimmed && !channel.fields[field] && draft.enabled) {
+      issues.push({ index: -1, field, message: `${FIELD_LABELS[field] ?? field} is needed to turn the channel on` });
+    }
+  });
+
+  return issues;
+}
+
+const formatTime = (iso: string | null) => (iso ? new Date(iso).toLocaleString() : 'never');
+
+/**
+ * WhatsApp and Telegram settings with the webhook URL to give each app, and a
+ * replay box that runs a sample webhook payload without messaging anyone.
+ */
+function ChannelsPanel({ client, onUnauthorized }: ChannelsPanelProps) {
+  const [channels, setChannels] = useState<ChannelStatus[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<ChannelId | null>(null);
+  const [savedAt, setSavedAt] = useState<Record<string, Date>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [serverIssues, setServerIssues] = useState<ValidationIssue[]>([]);
+  const [issuesChannel, setIssuesChannel] = useState<ChannelId | null>(null);
+  const [sampleId, setSampleId] = useState(SAMPLES[0].id);
+  const [payload, setPayload] = useState(JSON.stringify(SAMPLES[0].payload, null, 2));
+  const [replaying, setReplaying] = useState(false);
+  const [replay, setReplay] = useState<ChannelReplayResult | null>(null);
+
+  const handleError = useCallback((err: unknown) => {
+    if (err instanceof ChatbotClientError && err.kind === 'unauthorized') {
+      onUnauthorized();
+      return;
+    }
+    if (err instanceof ChatbotClientError && err.kind === 'validation') {
+      setServerIssues(err.issues);
+    }
+    setError(err instanceof Error ? err.message : String(err));
+  }, [onUnauthorized]);
+
+  const apply = useCallback((report: { channels: ChannelStatus[] }) => {
+    setChannels(report.channels);
+    setDrafts(Object.fromEntries(report.channels.map(channel => [channel.id, emptyDraft(channel)])));
+  }, []);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      apply(await client.getChannels());
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setLoading(false);
+    }
+  }, [client, handleError, apply]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const sample = SAMPLES.find(item => item.id === sampleId) ?? SAMPLES[0];
+
+  const parsedPayload = useMemo(() => {
+    try {
+      const value: unknown = JSON.parse(payload);
+      return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : null;
+    } catch {
+      return null;
+    }
+  }, [payload]);
+
+  const updateDraft = (id: ChannelId, changes: Partial<Draft>) => {
+    setServerIssues([]);
+    setDrafts(prev => ({ ...prev, [id]: { ...prev[id], ...changes } }));
+  };
+
+  const save = async (channel: ChannelStatus) => {
+    const draft = drafts[channel.id];
+    setSaving(channel.id);
+    setIssuesChannel(channel.id);
+    setError(null);
+    setServerIssues([]);
+    try {
+      apply(await client.updateChannel({
+        channel: channel.id,
+        enabled: draft.enabled,
+        values: draft.values,
+        webAppUrl: channel.id === 'telegram' && draft.registerWebhook ? client.baseUrl : undefined
+      }));
+      setSavedAt(prev => ({ ...prev, [channel.id]: new Date() }));
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const runReplay = async () => {
+    if (!parsedPayload) return;
+    setReplaying(true);
+    setError(null);
+    try {
+      setReplay(await client.replayChannelWebhook(sample.channel, parsedPayload));
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setReplaying(false);
+    }
+  };
+
+  const pickSample = (id: string) => {
+    const next = SAMPLES.find(item => item.id === id) ?? SAMPLES[0];
+    setSampleId(next.id);
+    setPayload(JSON.stringify(next.payload, null, 2));
+    setReplay(null);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-16 text-gray-500">
+        <Loader2 className="w-6 h-6 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center bg-gradient-to-r from-green-50 to-sky-50 rounded-xl p-8">
+        <div className="flex justify-center mb-4">
+          <Webhook className="w-16 h-16 text-green-600" />
+        </div>
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Messaging Channels</h2>
+        <p className="text-gray-600">
+          Answer customers on WhatsApp and Telegram with the same menu, AI and agents as the web chat.
+          Agent replies reach them in the app.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-4 flex items-start gap-2 text-sm text-red-800">
+          <AlertCircle className="w-5 h-5 shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 items-start">
+        {channels.map(channel => {
+          const draft = drafts[channel.id];
+          const issues = [...validateDraft(channel, draft), ...(issuesChannel === channel.id ? serverIssues : [])];
+          const webhookUrl = channel.webhookQuery ? `${client.baseUrl}?${channel.webhookQuery}` : null;
+          const dirty = JSON.stringify(draft) !== JSON.stringify(emptyDraft(channel));
+
+          return (
+            <div key={channel.id} className="bg-white rounded-xl shadow-sm border p-6 space-y-4">
+              <div className="flex items-center gap-2">
+                <Send className="w-5 h-5 text-green-600" />
+                <h3 className="text-lg font-semibold text-gray-900">{channel.name}</h3>
+                <label className="ml-auto inline-flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={draft.enabled}
+                    onChange={e => updateDraft(channel.id, { enabled: e.target.checked })}
+                  />
+                  Answer messages
+                </label>
+              </div>
+
+              <p className="text-xs text-gray-500">
+                Last message {formatTime(channel.lastMessageAt)}
+                {channel.lastError && (
+                  <span className="block mt-1 text-red-700">
+                    Last send failed {formatTime(channel.lastErrorAt)}: {channel.lastError}
+                  </span>
+                )}
+              </p>
+
+              <div className="space-y-3 text-sm">
+                {Object.keys(draft.values).map(field => (
+                  <label key={field} className="block">
+                    <span className="text-xs text-gray-500">{FIELD_LABELS[field] ?? field}</span>
+                    <input
+                      type={HIDDEN_FIELDS.includes(field) ? 'password' : 'text'}
+                      value={draft.values[field]}
+                      onChange={e => updateDraft(channel.id, { values: { ...draft.values, [field]: e.target.value } })}
+                      placeholder={HIDDEN_FIELDS.includes(field) && channel.fields[field] ? `${channel.fields[field]} (blank keeps it)` : ''}
+                      className="mt-1 w-full px-2 py-1.5 border rounded-lg font-mono"
+                    />
+                    {issues.filter(issue => issue.field === field).map(issue => (
+                      <span key={issue.message} className="mt-1 flex items-center gap-1 text-xs text-red-700">
+                        <AlertCircle className="w-3.5 h-3.5 shrink-0" />
+                        {issue.message}
+                      </span>
+                    ))}
+                  </label>
+                ))}
+                {issues.filter(issue => !(issue.field in draft.values)).map(issue => (
+                  <p key={issue.message} className="flex items-center gap-1 text-xs text-red-700">
+                    <AlertCircle className="w-3.5 h-3.5 shrink-0" />
+                    {issue.message}
+                  </p>
+                ))}
+              </div>
+
+              <div>
+                <span className="text-xs text-gray-500">Webhook URL</span>
+                {webhookUrl ? (
+                  <div className="mt-1 flex items-center gap-2">
+                    <code className="flex-1 min-w-0 truncate bg-gray-50 border rounded-lg px-2 py-1.5 text-xs">{webhookUrl}</code>
+                    <button
+                      onClick={() => navigator.clipboard.writeText(webhookUrl)}
+                      className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100"
+                      title="Copy"
+                    >
+                      <Copy className="w-4 h-4" />
+                    </button>
+                  </div>
+                ) : (
+                  <p className="mt-1 text-xs text-gray-500">Save a {FIELD_LABELS[channel.id === 'whatsapp' ? 'verifyToken' : 'webhookSecret'].toLowerCase()} to get the URL.</p>
+                )}
+                <p className="mt-2 text-xs text-gray-500">{SETUP_HINTS[channel.id]}</p>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-3 pt-2 border-t">
+                {channel.id === 'telegram' && (
+                  <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={draft.registerWebhook}
+                      onChange={e => updateDraft(channel.id, { registerWebhook: e.target.checked })}
+                    />
+                    Register the webhook
+                  </label>
+                )}
+                {savedAt[channel.id] && !dirty && (
+                  <span className="inline-flex items-center gap-1.5 text-sm text-green-700">
+                    <CheckCircle className="w-4 h-4" />
+                    Saved at {savedAt[channel.id].toLocaleTimeString()}
+                  </span>
+                )}
+                <button
+                  onClick={() => save(channel)}
+                  disabled={!dirty || saving !== null || validateDraft(channel, draft).length > 0}
+                  className="ml-auto inline-flex items-center gap-1.5 px-4 py-1.5 rounded-lg text-sm font-medium bg-green-600 text-white hover:bg-green-700 disabled:opacity-40"
+                >
+                  {saving === channel.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                  Save {channel.name}
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Replay */}
+      <div className="bg-white rounded-xl shadow-sm border p-6 space-y-4">
+        <div className="flex items-center gap-2">
+          <Play className="w-5 h-5 text-green-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Replay a webhook</h3>
+        </div>
+        <p className="text-xs text-gray-500">
+          Runs the payload through the bot as if the app had posted it, in a replay_ session, and shows
+          the messages it would send. Nothing reaches WhatsApp or Telegram, even when the channel is off.
+        </p>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 items-start">
+          <div className="space-y-3">
+            <select
+              value={sampleId}
+              onChange={e => pickSample(e.target.value)}
+              className="w-full px-2 py-1.5 border rounded-lg text-sm"
+            >
+              {SAMPLES.map(item => <option key={item.id} value={item.id}>{item.label}</option>)}
+            </select>
+            <textarea
+              value={payload}
+              onChange={e => setPayload(e.target.value)}
+              rows={16}
+              spellCheck={false}
+              className="w-full px-2 py-1.5 border rounded-lg font-mono text-xs"
+            />
+            {!parsedPayload && <p className="text-xs text-red-700">The payload is not a JSON object.</p>}
+            <button
+              onClick={runReplay}
+              disabled={replaying || !parsedPayload}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm border text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              {replaying ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+              Replay
+            </button>
+          </div>
+
+          {replay && <ReplayResult result={replay} />}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ReplayResult({ result }: { result: ChannelReplayResult }) {
+  if (result.handled.length === 0) {
+    return <p className="text-sm text-gray-500">The payload has no customer message, so the bot would not answer.</p>;
+  }
+
+  return (
+    <div className="space-y-4 text-sm">
+      {result.handled.map((message, index) => (
+        <div key={index} className="bg-gray-50 rounded-lg p-3">
+          <p className="font-mono text-xs text-gray-500">{message.sessionId}</p>
+          <p className="mt-1 text-gray-800">
+            {message.action ?? 'unsupported message'}
+            {message.userInput && <span className="text-gray-500"> · “{message.userInput}”</span>}
+            {message.responseType && <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-green-100 text-green-800">{message.responseType}</span>}
+          </p>
+        </div>
+      ))}
+      <div className="space-y-2">
+        <p className="text-xs font-medium text-gray-500 uppercase tracking-wide">Would send</p>
+        {result.outgoing.map((request, index) => (
+          <details key={index} className="border rounded-lg" open={index === result.outgoing.length - 1}>
+            <summary className="cursor-pointer px-3 py-2 font-mono text-xs text-gray-700 truncate">
+              POST {request.url}
+            </summary>
+            <pre className="px-3 pb-3 text-xs text-gray-700 overflow-x-auto">{JSON.stringify(request.payload, null, 2)}</pre>
+          </details>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default ChannelsPanel;
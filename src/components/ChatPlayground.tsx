@@ -0,0 +1,499 @@
+import { FormEvent, useEffect, useRef, useState } from 'react';
+import {
+  ArrowLeft,
+  Bot,
+  ChevronRight,
+  Clock,
+  Hash,
+  Headset,
+  History,
+  Languages,
+  ListOrdered,
+  Loader2,
+  RotateCcw,
+  Send,
+  User,
+  WifiOff
+} from 'lucide-react';
+import {
+  AIContextSent,
+  ChatAction,
+  ChatbotClient,
+  ChatbotClientError,
+  ChatbotResponse,
+  ChatbotResponseType,
+  LanguageCode,
+  TicketMessage,
+  createSessionId
+} from '../chatbotClient';
+import OrderCard from './OrderCard';
+import ProductResults from './ProductResults';
+
+interface ChatEntry {
+  id: number;
+  role: 'user' | 'bot' | 'agent';
+  action?: ChatAction;
+  text?: string;
+  response?: ChatbotResponse;
+  /** Agent or system message delivered through getUpdates */
+  message?: TicketMessage;
+  durationMs?: number;
+  networkError?: string;
+}
+
+// How often agent replies are fetched while the conversation is escalated
+const UPDATES_INTERVAL_MS = 5000;
+
+const TYPE_STYLES: Record<ChatbotResponseType, string> = {
+  menu: 'bg-blue-100 text-blue-800',
+  static: 'bg-gray-100 text-gray-800',
+  ai: 'bg-purple-100 text-purple-800',
+  no_answer: 'bg-fuchsia-100 text-fuchsia-800',
+  escalation: 'bg-orange-100 text-orange-800',
+  agent: 'bg-amber-100 text-amber-800',
+  order_info: 'bg-yellow-100 text-yellow-800',
+  shipment_info: 'bg-sky-100 text-sky-800',
+  order_list: 'bg-lime-100 text-lime-800',
+  product_info: 'bg-emerald-100 text-emerald-800',
+  product_search: 'bg-green-100 text-green-800',
+  flow: 'bg-teal-100 text-teal-800',
+  default: 'bg-slate-100 text-slate-700',
+  throttled: 'bg-rose-100 text-rose-800',
+  error: 'bg-red-100 text-red-800'
+};
+
+/** Render **bold** segments and line breaks the way the bot formats them. */
+const FormattedText = ({ text }: { text: string }) => (
+  <p className="text-sm text-gray-800 whitespace-pre-line">
+    {text.split(/(\*\*[^*]+\*\*)/g).map((part, i) =>
+      part.startsWith('**') && part.endsWith('**')
+        ? <strong key={i}>{part.slice(2, -2)}</strong>
+        : <span key={i}>{part}</span>
+    )}
+  </p>
+);
+
+/** The plain message behind a card, as channels without cards show it */
+const TextReply = ({ text }: { text: string }) => (
+  <details className="text-xs text-gray-500">
+    <summary className="cursor-pointer select-none">Text reply</summary>
+    <div className="mt-1">
+      <FormattedText text={text} />
+    </div>
+  </details>
+);
+
+// Empty lets the backend detect the language from each message
+const LANGUAGE_OPTIONS: { value: LanguageCode | ''; label: string }[] = [
+  { value: '', label: 'Detect language' },
+  { value: 'es', label: 'Español' },
+  { value: 'pt', label: 'Português' },
+  { value: 'en', label: 'English' }
+];
+
+interface ChatPlaygroundProps {
+  client: ChatbotClient;
+  onChangeUrl: () => void;
+}
+
+function ChatPlayground({ client, onChangeUrl }: ChatPlaygroundProps) {
+  const [sessionId, setSessionId] = useState(() => createSessionId('dash'));
+  const [entries, setEntries] = useState<ChatEntry[]>([]);
+  const [input, setInput] = useState('');
+  const [pending, setPending] = useState(false);
+  const [ticketId, setTicketId] = useState<string | null>(null);
+  const [language, setLanguage] = useState<LanguageCode | ''>('');
+  const nextId = useRef(0);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: 'smooth' });
+  }, [entries]);
+
+  const append = (entry: Omit<ChatEntry, 'id'>) =>
+    setEntries(prev => [...prev, { ...entry, id: nextId.current++ }]);
+
+  // Agent replies arrive through the session, so poll for them while a ticket is open
+  useEffect(() => {
+    if (!ticketId) return;
+
+    const timer = setInterval(async () => {
+      try {
+        const updates = await client.getUpdates(sessionId);
+        setEntries(prev => [
+          ...prev,
+          ...updates.messages.map(message => ({ id: nextId.current++, role: 'agent' as const, message }))
+        ]);
+        if (!updates.escalation) setTicketId(null);
+      } catch {
+        // Try again on the next tick
+      }
+    }, UPDATES_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [client, sessionId, ticketId]);
+
+  const send = async (action: ChatAction, userInput?: string) => {
+    if (pending) return;
+
+    if (userInput !== undefined) {
+      append({ role: 'user', action, text: userInput });
+    }
+
+    setPending(true);
+    const startedAt = performance.now();
+    try {
+      const lang = language || undefined;
+      const response = action === 'getMenu'
+        ? await client.getMenu(sessionId, lang)
+        : action === 'processSelection'
+          ? await client.processSelection(userInput ?? '', sessionId, lang)
+          : await client.sendMessage(userInput ?? '', sessionId, lang);
+      append({ role: 'bot', action, response, durationMs: Math.round(performance.now() - startedAt) });
+      if ((response.type === 'escalation' || response.type === 'agent') && response.ticketId) {
+        setTicketId(response.ticketId);
+      }
+    } catch (error) {
+      append({
+        role: 'bot',
+        action,
+        networkError: error instanceof ChatbotClientError
+          ? `${error.kind}: ${error.message}`
+          : String(error),
+        durationMs: Math.round(performance.now() - startedAt)
+      });
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const text = input.trim();
+    if (!text) return;
+    setInput('');
+    // Bare or dotted numbers (2.1) are menu selections, anything else is free-form chat
+    send(/^\d+(\.\d+)*$/.test(text) ? 'processSelection' : 'sendMessage', text);
+  };
+
+  const resetConversation = () => {
+    setEntries([]);
+    setTicketId(null);
+    setSessionId(createSessionId('dash'));
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border overflow-hidden">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-3 px-6 py-4 border-b bg-gray-50">
+        <div className="min-w-0">
+          <p className="text-xs text-gray-500">Web app</p>
+          <p className="text-sm font-mono text-gray-800 truncate max-w-md" title={client.baseUrl}>{client.baseUrl}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="inline-flex items-center gap-1 px-2 py-1 rounded bg-white border text-xs font-mono text-gray-600">
+            <Hash className="w-3 h-3" />
+            {sessionId}
+          </span>
+          {ticketId && (
+            <span className="inline-flex items-center gap-1 px-2 py-1 rounded bg-amber-50 border border-amber-200 text-xs text-amber-800">
+              <Headset className="w-3 h-3" />
+              {ticketId}
+            </span>
+          )}
+          <label className="inline-flex items-center gap-1 px-2 py-1 rounded bg-white border text-xs text-gray-600">
+            <Languages className="w-3 h-3" />
+            <select
+              value={language}
+              onChange={e => setLanguage(e.target.value as LanguageCode | '')}
+              title="Language the bot answers in; once chosen, the session keeps it"
+              className="bg-transparent focus:outline-none"
+            >
+              {LANGUAGE_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+          </label>
+          <button
+            onClick={() => send('getMenu')}
+            disabled={pending}
+            className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm bg-blue-50 text-blue-700 hover:bg-blue-100 disabled:opacity-50"
+          >
+            <ListOrdered className="w-4 h-4" />
+            Menu
+          </button>
+          <button
+            onClick={resetConversation}
+            className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm text-gray-600 hover:bg-gray-100"
+          >
+            <RotateCcw className="w-4 h-4" />
+            New conversation
+          </button>
+          <button
+            onClick={onChangeUrl}
+            className="px-3 py-1.5 rounded-lg text-sm text-gray-600 hover:bg-gray-100"
+          >
+            Change URL
+          </button>
+        </div>
+      </div>
+
+      {/* Transcript */}
+      <div ref={scrollRef} className="h-[28rem] overflow-y-auto p-6 space-y-4 bg-gradient-to-b from-white to-gray-50">
+        {entries.length === 0 && (
+          <div className="h-full flex flex-col items-center justify-center text-center text-gray-500 space-y-3">
+            <Bot className="w-10 h-10 text-gray-300" />
+            <p className="text-sm">Load the menu or type a message to start a conversation.</p>
+            <button
+              onClick={() => send('getMenu')}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700"
+            >
+              Load menu
+            </button>
+          </div>
+        )}
+
+        {entries.map(entry => entry.role === 'agent' && entry.message ? (
+          <AgentMessage key={entry.id} message={entry.message} />
+        ) : entry.role === 'user' ? (
+          <div key={entry.id} className="flex justify-end">
+            <div className="flex items-start gap-2 max-w-[75%]">
+              <div className="px-4 py-2 rounded-2xl rounded-tr-sm bg-blue-600 text-white text-sm">
+                {entry.text}
+              </div>
+              <User className="w-6 h-6 text-blue-600 shrink-0 mt-1" />
+            </div>
+          </div>
+        ) : (
+          <div key={entry.id} className="flex justify-start">
+            <div className="flex items-start gap-2 max-w-[85%]">
+              <Bot className="w-6 h-6 text-gray-500 shrink-0 mt-1" />
+              <BotBubble
+                entry={entry}
+                onSelect={option => send('processSelection', String(option))}
+                onAsk={text => send('sendMessage', text)}
+              />
+            </div>
+          </div>
+        ))}
+
+        {pending && (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Waiting for the web app…
+          </div>
+        )}
+      </div>
+
+      {/* Composer */}
+      <form onSubmit={handleSubmit} className="flex items-center gap-3 px-6 py-4 border-t">
+        <input
+          value={input}
+          onChange={e => setInput(e.target.value)}
+          placeholder="Type an option number or a message…"
+          className="flex-1 px-3 py-2 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={pending || !input.trim()}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+        >
+          <Send className="w-4 h-4" />
+          Send
+        </button>
+      </form>
+    </div>
+  );
+}
+
+interface BotBubbleProps {
+  entry: ChatEntry;
+  onSelect: (option: number | string) => void;
+  onAsk: (message: string) => void;
+}
+
+function BotBubble({ entry, onSelect, onAsk }: BotBubbleProps) {
+  if (entry.networkError || !entry.response) {
+    return (
+      <div className="px-4 py-3 rounded-2xl rounded-tl-sm bg-red-50 border border-red-200 text-sm text-red-800">
+        <div className="flex items-center gap-2 font-medium mb-1">
+          <WifiOff className="w-4 h-4" />
+          Request failed
+        </div>
+        <p>{entry.networkError}</p>
+        <p className="text-xs text-red-600 mt-1">
+          Check that the deployment allows access to "Anyone" and that the URL ends in /exec.
+        </p>
+      </div>
+    );
+  }
+
+  const response = entry.response;
+
+  return (
+    <div className="px-4 py-3 rounded-2xl rounded-tl-sm bg-white border shadow-sm space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className={`px-2 py-0.5 rounded-full font-medium ${TYPE_STYLES[response.type]}`}>
+          {response.type}
+        </span>
+        {(response.type === 'ai' || response.type === 'no_answer') && <span className="text-gray-500">via {response.provider}</span>}
+        {response.type === 'ai' && response.sources.length > 0 && (
+          <span className="text-gray-500">cites {response.sources.map(source => source.id).join(', ')}</span>
+        )}
+        {response.type === 'flow' && (
+          <span className="text-gray-500">
+            {response.completed ? 'completed' : `step ${response.step} of ${response.totalSteps}`}
+          </span>
+        )}
+        {(response.type === 'menu' || response.type === 'escalation') && (
+          <span className="text-gray-500">{response.businessHours ? 'in business hours' : 'after hours'}</span>
+        )}
+        {response.type === 'agent' && (
+          <span className="text-gray-500">{response.ticketId} · {response.agent ?? response.status.replace('_', ' ')}</span>
+        )}
+        {response.type === 'throttled' && (
+          <span className="text-gray-500">
+            {response.reason.replace('_', ' ')}{response.retryAfter ? ` · retry in ${response.retryAfter} s` : ''}
+          </span>
+        )}
+        {entry.durationMs !== undefined && (
+          <span className="inline-flex items-center gap-1 text-gray-400">
+            <Clock className="w-3 h-3" />
+            {entry.durationMs} ms
+          </span>
+        )}
+      </div>
+
+      {response.type === 'error' ? (
+        <p className="text-sm text-red-700">{response.error}</p>
+      ) : response.type === 'menu' ? (
+        <>
+          {response.breadcrumb.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1 text-xs text-gray-500">
+              <span>Menú</span>
+              {response.breadcrumb.map((title, i) => (
+                <span key={i} className="inline-flex items-center gap-1">
+                  <ChevronRight className="w-3 h-3" />
+                  {title}
+                </span>
+              ))}
+            </div>
+          )}
+          <FormattedText text={response.greeting} />
+          <div className="grid gap-1.5">
+            {response.options.map(option => option.responseType === 'back' ? (
+              <button
+                key="back"
+                onClick={() => onSelect(option.number)}
+                className="flex items-center gap-2 text-left px-3 py-2 rounded-lg text-sm text-gray-600 hover:bg-gray-100 transition-colors"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                {option.number} · {option.title}
+              </button>
+            ) : (
+              <button
+                key={String(option.number)}
+                onClick={() => onSelect(option.number)}
+                className="flex items-center gap-3 text-left px-3 py-2 rounded-lg border hover:border-blue-400 hover:bg-blue-50 transition-colors"
+              >
+                <span className="min-w-6 h-6 px-1.5 rounded-full bg-blue-100 text-blue-800 text-xs font-bold flex items-center justify-center">
+                  {option.number}
+                </span>
+                <span className="text-sm text-gray-800 flex-1">{option.title}</span>
+                {option.responseType === 'submenu'
+                  ? <ChevronRight className="w-4 h-4 text-gray-400" />
+                  : <span className="text-xs text-gray-400">{option.responseType}</span>}
+              </button>
+            ))}
+          </div>
+          {response.footer && <p className="text-xs text-gray-500 italic">{response.footer}</p>}
+        </>
+      ) : response.type === 'order_info' || response.type === 'shipment_info' || response.type === 'order_list' ? (
+        <>
+          <OrderCard response={response} onAsk={onAsk} />
+          <TextReply text={response.message} />
+        </>
+      ) : response.type === 'product_search' ? (
+        <>
+          <ProductResults response={response} onAsk={onAsk} />
+          <TextReply text={response.message} />
+        </>
+      ) : response.type === 'flow' ? (
+        <>
+          <p className="text-sm font-semibold text-gray-900">{response.title}</p>
+          <div className="flex gap-1">
+            {Array.from({ length: response.totalSteps }, (_, i) => (
+              <span
+                key={i}
+                className={`h-1 flex-1 rounded-full ${i < response.step - (response.completed ? 0 : 1) ? 'bg-teal-500' : 'bg-gray-200'}`}
+              />
+            ))}
+          </div>
+          <div className={response.valid ? '' : 'pl-2 border-l-2 border-red-300'}>
+            <FormattedText text={response.message} />
+          </div>
+          {!response.completed && (
+            <p className="text-xs text-gray-400">
+              Type "cancelar"{response.options.length > 0 ? ' or 0' : ''} to leave this flow.
+            </p>
+          )}
+        </>
+      ) : (
+        <>
+          {'title' in response && response.title && (
+            <p className="text-sm font-semibold text-gray-900">{response.title}</p>
+          )}
+          <FormattedText text={response.message} />
+          {response.type === 'ai' && response.context && <ContextSent context={response.context} />}
+        </>
+      )}
+    </div>
+  );
+}
+
+/** A reply from the agent inbox, or a notice about the ticket */
+function AgentMessage({ message }: { message: TicketMessage }) {
+  if (message.from === 'system') {
+    return <p className="text-center text-xs text-gray-500 italic">{message.text}</p>;
+  }
+
+  return (
+    <div className="flex justify-start">
+      <div className="flex items-start gap-2 max-w-[85%]">
+        <Headset className="w-6 h-6 text-amber-600 shrink-0 mt-1" />
+        <div className="px-4 py-3 rounded-2xl rounded-tl-sm bg-amber-50 border border-amber-200 space-y-1">
+          <p className="text-xs font-medium text-amber-800">{message.agent ?? 'Agent'}</p>
+          <FormattedText text={message.text} />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/** The transcript and summary AIService sent to the model for this answer */
+function ContextSent({ context }: { context: AIContextSent }) {
+  return (
+    <details className="text-xs text-gray-600">
+      <summary className="inline-flex items-center gap-1 cursor-pointer text-gray-500 hover:text-gray-700">
+        <History className="w-3 h-3" />
+        Context sent: {context.messages.length} {context.messages.length === 1 ? 'turn' : 'turns'}
+        {context.summary && ' + summary'} · ~{context.estimatedTokens} tokens
+      </summary>
+      <div className="mt-2 space-y-1.5 border-l-2 border-purple-200 pl-3">
+        {context.summary && (
+          <p className="italic text-gray-500">
+            <span className="font-medium not-italic">Summary:</span> {context.summary}
+          </p>
+        )}
+        {context.messages.map((message, i) => (
+          <p key={i} className="whitespace-pre-line">
+            <span className={`font-medium ${message.role === 'user' ? 'text-blue-700' : 'text-purple-700'}`}>
+              {message.role === 'user' ? 'Customer' : 'Assistant'}:
+            </span>{' '}
+            {message.content}
+          </p>
+        ))}
+      </div>
+    </details>
+  );
+}
+
+export default ChatPlayground;
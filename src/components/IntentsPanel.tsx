@@ -0,0 +1,290 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, Bot, FlaskConical, Loader2, RefreshCw, Route } from 'lucide-react';
+import {
+  ChatbotClient,
+  ChatbotClientError,
+  IntentEntities,
+  IntentsReport,
+  IntentTestResult
+} from '../chatbotClient';
+
+interface IntentsPanelProps {
+  client: ChatbotClient;
+  onUnauthorized: () => void;
+  /** Show the "try a message" box; it may call the AI providers */
+  canTest?: boolean;
+}
+
+const INTENT_STYLES: Record<string, string> = {
+  menu_request: 'bg-blue-100 text-blue-800',
+  order_inquiry: 'bg-yellow-100 text-yellow-800',
+  product_inquiry: 'bg-emerald-100 text-emerald-800',
+  escalation: 'bg-red-100 text-red-800',
+  general_ai: 'bg-purple-100 text-purple-800'
+};
+
+const SOURCE_LABELS: Record<IntentTestResult['source'], string> = {
+  rules: 'Matched by the rules',
+  ai: 'Classified by the AI',
+  default: 'No rule was sure enough; answered by the AI'
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const entityLabel = (key: keyof IntentEntities, entities: IntentEntities) => {
+  const value = entities[key];
+  if (value === undefined) return null;
+  return typeof value === 'string' ? value : value.nickname ?? value.id ?? '';
+};
+
+/**
+ * The Intents sheet rules that route free-text messages, and a box to see
+ * how the bot would classify a message.
+ */
+function IntentsPanel({ client, onUnauthorized, canTest = false }: IntentsPanelProps) {
+  const [report, setReport] = useState<IntentsReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+  const [result, setResult] = useState<IntentTestResult | null>(null);
+  const [testing, setTesting] = useState(false);
+
+  const handleError = useCallback((err: unknown) => {
+    if (err instanceof ChatbotClientError && err.kind === 'unauthorized') {
+      onUnauthorized();
+      return;
+    }
+    setError(err instanceof Error ? err.message : String(err));
+  }, [onUnauthorized]);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setReport(await client.getIntents());
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setLoading(false);
+    }
+  }, [client, handleError]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const test = async () => {
+    setTesting(true);
+    setError(null);
+    try {
+      setResult(await client.testIntent(message));
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-16 text-gray-500">
+        <Loader2 className="w-6 h-6 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center bg-gradient-to-r from-indigo-50 to-violet-50 rounded-xl p-8">
+        <div className="flex justify-center mb-4">
+          <Route className="w-16 h-16 text-indigo-600" />
+        </div>
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Intent Routing</h2>
+        <p className="text-gray-600">How free-text messages are sent to orders, products, agents or the AI. Edit the rules in the Intents sheet.</p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-4 flex items-start gap-2 text-sm text-red-800">
+          <AlertCircle className="w-5 h-5 shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-5 gap-6 items-start">
+        {/* Rules */}
+        <div className="lg:col-span-3 bg-white rounded-xl shadow-sm border overflow-hidden">
+          <div className="flex items-center gap-3 px-4 py-3 border-b text-sm">
+            <span className="font-semibold text-gray-900">Rules</span>
+            {report && (
+              <span className="text-gray-500">
+                Min score {percent(report.settings.minScore)} · AI step{' '}
+                {report.settings.aiMode === 'fallback' ? `on, min confidence ${percent(report.settings.aiMinConfidence)}` : 'off'}
+              </span>
+            )}
+            <button
+              onClick={load}
+              title="Reload"
+              className="ml-auto p-1.5 rounded-lg text-gray-500 hover:bg-gray-100"
+            >
+              <RefreshCw className="w-4 h-4" />
+            </button>
+          </div>
+          {report && report.intents.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500">The Intents sheet has no rules; every message goes to the AI.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left text-xs text-gray-500">
+                <tr>
+                  <th className="px-4 py-2 font-medium">Row</th>
+                  <th className="px-4 py-2 font-medium">Intent</th>
+                  <th className="px-4 py-2 font-medium">Matches on</th>
+                  <th className="px-4 py-2 font-medium text-right">Priority</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {report?.intents.map(rule => (
+                  <tr key={rule.row} className={`align-top ${rule.active ? '' : 'opacity-50'}`}>
+                    <td className="px-4 py-2 text-gray-400">{rule.row}</td>
+                    <td className="px-4 py-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${INTENT_STYLES[rule.intent] ?? 'bg-gray-100 text-gray-700'}`}>
+                        {rule.intent}
+                      </span>
+                      {!rule.active && <p className="mt-1 text-xs text-gray-500">Inactive</p>}
+                      {rule.description && <p className="mt-1 text-xs text-gray-500">{rule.description}</p>}
+                    </td>
+                    <td className="px-4 py-2 space-y-1">
+                      {rule.keywords.length > 0 && <p className="text-gray-700">{rule.keywords.join(', ')}</p>}
+                      {rule.patterns.map(pattern => (
+                        <p key={pattern} className="font-mono text-xs text-gray-600 break-all">/{pattern}/</p>
+                      ))}
+                      {rule.entities.length > 0 && (
+                        <p className="text-xs text-gray-500">Entities: {rule.entities.join(', ')}</p>
+                      )}
+                      {rule.errors.map(problem => (
+                        <p key={problem} className="flex items-center gap-1 text-xs text-red-700">
+                          <AlertCircle className="w-3.5 h-3.5 shrink-0" />
+                          {problem}
+                        </p>
+                      ))}
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-700">{rule.priority}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Tester */}
+        {canTest && (
+          <div className="lg:col-span-2 lg:sticky lg:top-24 bg-white rounded-xl shadow-sm border p-6 space-y-4">
+            <div className="flex items-center gap-2">
+              <FlaskConical className="w-5 h-5 text-indigo-600" />
+              <h3 className="text-lg font-semibold text-gray-900">Try a message</h3>
+            </div>
+            <p className="text-xs text-gray-500">
+              Classified like a customer message, without answering it.
+              {report?.settings.aiMode === 'fallback' && ' Unclear messages are sent to the AI.'}
+            </p>
+            <form
+              onSubmit={e => { e.preventDefault(); test(); }}
+              className="flex gap-2"
+            >
+              <input
+                value={message}
+                onChange={e => setMessage(e.target.value)}
+                placeholder="¿Dónde está mi pedido 2000001234567890?"
+                className="flex-1 px-2 py-1.5 border rounded-lg text-sm"
+              />
+              <button
+                type="submit"
+                disabled={testing || !message.trim()}
+                className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm border text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                {testing ? <Loader2 className="w-4 h-4 animate-spin" /> : <FlaskConical className="w-4 h-4" />}
+                Classify
+              </button>
+            </form>
+
+            {result && <TestResult result={result} />}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function TestResult({ result }: { result: IntentTestResult }) {
+  const entityKeys = (['order_id', 'item_id', 'email', 'buyer'] as const).filter(key => result.entities[key] !== undefined);
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="space-y-1.5">
+        <div className="flex items-center gap-2">
+          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${INTENT_STYLES[result.intent]}`}>
+            {result.intent}
+          </span>
+          <span className="text-gray-600">{SOURCE_LABELS[result.source]}</span>
+        </div>
+        {result.source !== 'default' && (
+          <div className="flex items-center gap-2">
+            <div className="flex-1 h-1.5 rounded-full bg-gray-200">
+              <div className="h-1.5 rounded-full bg-indigo-500" style={{ width: percent(result.score) }} />
+            </div>
+            <span className="text-xs text-gray-600">{percent(result.score)}</span>
+          </div>
+        )}
+      </div>
+
+      <div>
+        <p className="text-xs font-medium text-gray-500 mb-1">Entities</p>
+        {entityKeys.length === 0 ? (
+          <p className="text-gray-500">None found</p>
+        ) : (
+          <dl className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs">
+            {entityKeys.map(key => (
+              <div key={key} className="contents">
+                <dt className="text-gray-500">{key}</dt>
+                <dd className="font-mono text-gray-800">{entityLabel(key, result.entities)}</dd>
+              </div>
+            ))}
+          </dl>
+        )}
+      </div>
+
+      <div>
+        <p className="text-xs font-medium text-gray-500 mb-1">Rules that matched</p>
+        {result.candidates.length === 0 ? (
+          <p className="text-gray-500">None</p>
+        ) : (
+          <ul className="space-y-1.5">
+            {result.candidates.map(candidate => (
+              <li key={candidate.intent} className="flex items-start gap-2">
+                <span className="w-10 text-right text-xs text-gray-600">{percent(candidate.score)}</span>
+                <div className="flex-1">
+                  <p className="text-gray-800">{candidate.intent}</p>
+                  <p className="text-xs text-gray-500 break-all">
+                    {candidate.matches.map(match => `${match.type}: ${match.value}`).join(' · ')}
+                  </p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+        <p className="mt-1 text-xs text-gray-400">Needs {percent(result.settings.minScore)} to be chosen.</p>
+      </div>
+
+      {result.ai && (
+        <div className="flex items-center gap-2 bg-purple-50 rounded-lg p-3 text-xs text-purple-900">
+          <Bot className="w-4 h-4 shrink-0" />
+          <span>
+            {result.ai.provider || 'AI'} said {result.ai.intent} with {percent(result.ai.confidence)} confidence
+            {result.ai.confidence < result.settings.aiMinConfidence && ` (under ${percent(result.settings.aiMinConfidence)}, ignored)`}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default IntentsPanel;
@@ -0,0 +1,467 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  AlertCircle,
+  BookOpen,
+  Bot,
+  CheckCircle,
+  FlaskConical,
+  Loader2,
+  Lock,
+  Plus,
+  Save,
+  Trash2,
+  Undo2
+} from 'lucide-react';
+import {
+  ChatbotClient,
+  ChatbotClientError,
+  KnowledgeEntry,
+  KnowledgeEntryType,
+  KnowledgeSettings,
+  KnowledgeTestResult,
+  ValidationIssue
+} from '../chatbotClient';
+
+interface KnowledgeBaseEditorProps {
+  client: ChatbotClient;
+  onUnauthorized: () => void;
+  readOnly?: boolean;
+  /** Show the "try a question" box; it calls the AI providers */
+  canTest?: boolean;
+}
+
+/** An entry being edited; tags stay as typed until saved */
+interface Draft extends Omit<KnowledgeEntry, 'tags'> {
+  key: string;
+  tags: string;
+}
+
+const TYPE_LABELS: Record<KnowledgeEntryType, string> = {
+  faq: 'Question',
+  policy: 'Policy'
+};
+
+const TYPE_STYLES: Record<KnowledgeEntryType, string> = {
+  faq: 'bg-sky-100 text-sky-800',
+  policy: 'bg-amber-100 text-amber-800'
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+let nextKey = 0;
+
+const toDraft = (entry: KnowledgeEntry): Draft => ({ ...entry, key: `entry-${nextKey++}`, tags: entry.tags.join(', ') });
+
+const toEntry = (draft: Draft): KnowledgeEntry => ({
+  id: draft.id,
+  type: draft.type,
+  title: draft.title,
+  content: draft.content,
+  tags: draft.tags.split(',').map(tag => tag.trim()).filter(Boolean),
+  active: draft.active
+});
+
+/** Same checks as KnowledgeService.validateEntries */
+function validateEntries(drafts: Draft[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const seen = new Map<string, number>();
+
+  drafts.forEach((draft, index) => {
+    const id = draft.id.trim();
+    if (id && !/^[A-Za-z0-9_-]+$/.test(id)) {
+      issues.push({ index, field: 'id', message: 'ID may only use letters, numbers, - and _' });
+    } else if (id && seen.has(id)) {
+      issues.push({ index, field: 'id', message: `ID ${id} is also used by entry ${seen.get(id)! + 1}` });
+    } else if (id) {
+      seen.set(id, index);
+    }
+    if (!draft.title.trim()) {
+      issues.push({ index, field: 'title', message: 'Title is required' });
+    }
+    if (!draft.content.trim()) {
+      issues.push({ index, field: 'content', message: 'Content is required' });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * The Knowledge_Base sheet that grounds AI answers, and a box to see which
+ * entries a question retrieves and what the bot would answer with them.
+ */
+function KnowledgeBaseEditor({ client, onUnauthorized, readOnly = false, canTest = false }: KnowledgeBaseEditorProps) {
+  const [saved, setSaved] = useState<Draft[]>([]);
+  const [drafts, setDrafts] = useState<Draft[]>([]);
+  const [settings, setSettings] = useState<KnowledgeSettings | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [serverIssues, setServerIssues] = useState<ValidationIssue[]>([]);
+  const [savedAt, setSavedAt] = useState<Date | null>(null);
+  const [question, setQuestion] = useState('');
+  const [result, setResult] = useState<KnowledgeTestResult | null>(null);
+  const [testing, setTesting] = useState(false);
+
+  const handleError = useCallback((err: unknown) => {
+    if (err instanceof ChatbotClientError && err.kind === 'unauthorized') {
+      onUnauthorized();
+      return;
+    }
+    if (err instanceof ChatbotClientError && err.kind === 'validation') {
+      setServerIssues(err.issues);
+    }
+    setError(err instanceof Error ? err.message : String(err));
+  }, [onUnauthorized]);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const report = await client.getKnowledgeBase();
+      const editable = report.entries.map(toDraft);
+      setSaved(editable);
+      setDrafts(editable);
+      setSettings(report.settings);
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setLoading(false);
+    }
+  }, [client, handleError]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const issues = useMemo(() => validateEntries(drafts), [drafts]);
+  const dirty = JSON.stringify(drafts) !== JSON.stringify(saved);
+
+  const issuesFor = (index: number) => [...issues, ...serverIssues].filter(issue => issue.index === index);
+
+  const update = (key: string, changes: Partial<Draft>) => {
+    setServerIssues([]);
+    setDrafts(prev => prev.map(draft => draft.key === key ? { ...draft, ...changes } : draft));
+  };
+
+  const addEntry = () => {
+    const draft = toDraft({ id: '', type: 'faq', title: '', content: '', tags: [], active: true });
+    setDrafts(prev => [...prev, draft]);
+    setExpanded(draft.key);
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    setServerIssues([]);
+    try {
+      const report = await client.updateKnowledgeBase(drafts.map(toEntry));
+      const editable = report.entries.map(toDraft);
+      setSaved(editable);
+      setDrafts(editable);
+      setSettings(report.settings);
+      setExpanded(null);
+      setSavedAt(new Date());
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const test = async () => {
+    setTesting(true);
+    setError(null);
+    try {
+      setResult(await client.testKnowledge(question));
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-16 text-gray-500">
+        <Loader2 className="w-6 h-6 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center bg-gradient-to-r from-amber-50 to-orange-50 rounded-xl p-8">
+        <div className="flex justify-center mb-4">
+          <BookOpen className="w-16 h-16 text-amber-600" />
+        </div>
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Knowledge Base</h2>
+        <p className="text-gray-600">
+          Questions and policies the AI answers from. Answers cite the entries they use; questions no entry covers get an offer to talk to an agent.
+        </p>
+      </div>
+
+      {/* Save bar */}
+      <div className="sticky top-4 z-10 bg-white rounded-xl shadow-sm border p-4 flex flex-wrap items-center gap-3">
+        <div className="text-sm">
+          {issues.length > 0 ? (
+            <span className="inline-flex items-center gap-1.5 text-red-700">
+              <AlertCircle className="w-4 h-4" />
+              {issues.length} problem{issues.length === 1 ? '' : 's'} to fix before saving
+            </span>
+          ) : dirty ? (
+            <span className="text-amber-700">Unsaved changes</span>
+          ) : savedAt ? (
+            <span className="inline-flex items-center gap-1.5 text-green-700">
+              <CheckCircle className="w-4 h-4" />
+              Saved at {savedAt.toLocaleTimeString()}
+            </span>
+          ) : (
+            <span className="text-gray-500">
+              {drafts.length} entries
+              {settings && ` · up to ${settings.maxResults} sent per question, from ${percent(settings.minConfidence)} confidence`}
+            </span>
+          )}
+        </div>
+        {readOnly ? (
+          <span className="ml-auto inline-flex items-center gap-1.5 text-sm text-gray-500">
+            <Lock className="w-4 h-4" />
+            View only
+          </span>
+        ) : (
+          <div className="ml-auto flex items-center gap-2">
+            <button
+              onClick={addEntry}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm text-amber-700 bg-amber-50 hover:bg-amber-100"
+            >
+              <Plus className="w-4 h-4" />
+              Add entry
+            </button>
+            <button
+              onClick={() => { setDrafts(saved); setServerIssues([]); setError(null); }}
+              disabled={!dirty || saving}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm text-gray-600 hover:bg-gray-100 disabled:opacity-40"
+            >
+              <Undo2 className="w-4 h-4" />
+              Discard
+            </button>
+            <button
+              onClick={save}
+              disabled={!dirty || saving || issues.length > 0}
+              className="inline-flex items-center gap-1.5 px-4 py-1.5 rounded-lg text-sm font-medium bg-amber-600 text-white hover:bg-amber-700 disabled:opacity-40"
+            >
+              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              Save entries
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-4 flex items-start gap-2 text-sm text-red-800">
+          <AlertCircle className="w-5 h-5 shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-5 gap-6 items-start">
+        {/* Entries */}
+        <div className="lg:col-span-3 space-y-3">
+          {drafts.length === 0 && (
+            <p className="bg-white rounded-xl shadow-sm border p-4 text-sm text-gray-500">
+              The Knowledge_Base sheet is empty; the AI answers without it.
+            </p>
+          )}
+          {drafts.map((draft, index) => {
+            const problems = [...issuesFor(index).map(issue => issue.message), ...(draft.errors ?? [])];
+            const open = expanded === draft.key;
+
+            return (
+              <div key={draft.key} className={`bg-white rounded-xl shadow-sm border ${draft.active ? '' : 'opacity-60'}`}>
+                <button
+                  onClick={() => setExpanded(open ? null : draft.key)}
+                  className="w-full flex items-start gap-3 p-4 text-left"
+                >
+                  <span className="w-16 shrink-0 font-mono text-xs text-gray-400 pt-0.5">{draft.id || 'new'}</span>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${TYPE_STYLES[draft.type]}`}>
+                        {TYPE_LABELS[draft.type]}
+                      </span>
+                      <span className="font-medium text-gray-900 truncate">{draft.title || 'Untitled'}</span>
+                    </div>
+                    {!open && <p className="mt-1 text-sm text-gray-600 line-clamp-2">{draft.content}</p>}
+                    {draft.tags && <p className="mt-1 text-xs text-gray-500">{draft.tags}</p>}
+                    {problems.map(problem => (
+                      <p key={problem} className="mt-1 flex items-center gap-1 text-xs text-red-700">
+                        <AlertCircle className="w-3.5 h-3.5 shrink-0" />
+                        {problem}
+                      </p>
+                    ))}
+                  </div>
+                  {!draft.active && <span className="text-xs text-gray-500">Inactive</span>}
+                </button>
+
+                {open && (
+                  <fieldset disabled={readOnly} className="border-t p-4 space-y-3 text-sm">
+                    <div className="grid grid-cols-3 gap-3">
+                      <label className="block">
+                        <span className="text-xs text-gray-500">ID</span>
+                        <input
+                          value={draft.id}
+                          onChange={e => update(draft.key, { id: e.target.value })}
+                          placeholder="Assigned on save"
+                          className="mt-1 w-full px-2 py-1.5 border rounded-lg font-mono"
+                        />
+                      </label>
+                      <label className="block">
+                        <span className="text-xs text-gray-500">Type</span>
+                        <select
+                          value={draft.type}
+                          onChange={e => update(draft.key, { type: e.target.value as KnowledgeEntryType })}
+                          className="mt-1 w-full px-2 py-1.5 border rounded-lg"
+                        >
+                          {(Object.keys(TYPE_LABELS) as KnowledgeEntryType[]).map(type => (
+                            <option key={type} value={type}>{TYPE_LABELS[type]}</option>
+                          ))}
+                        </select>
+                      </label>
+                      <label className="flex items-end gap-2 pb-2">
+                        <input
+                          type="checkbox"
+                          checked={draft.active}
+                          onChange={e => update(draft.key, { active: e.target.checked })}
+                        />
+                        <span className="text-gray-700">Active</span>
+                      </label>
+                    </div>
+                    <label className="block">
+                      <span className="text-xs text-gray-500">{draft.type === 'faq' ? 'Question' : 'Title'}</span>
+                      <input
+                        value={draft.title}
+                        onChange={e => update(draft.key, { title: e.target.value })}
+                        className="mt-1 w-full px-2 py-1.5 border rounded-lg"
+                      />
+                    </label>
+                    <label className="block">
+                      <span className="text-xs text-gray-500">{draft.type === 'faq' ? 'Answer' : 'Content'}</span>
+                      <textarea
+                        value={draft.content}
+                        onChange={e => update(draft.key, { content: e.target.value })}
+                        rows={4}
+                        className="mt-1 w-full px-2 py-1.5 border rounded-lg"
+                      />
+                    </label>
+                    <label className="block">
+                      <span className="text-xs text-gray-500">Tags, separated by commas; they count as much as the title</span>
+                      <input
+                        value={draft.tags}
+                        onChange={e => update(draft.key, { tags: e.target.value })}
+                        className="mt-1 w-full px-2 py-1.5 border rounded-lg"
+                      />
+                    </label>
+                    {!readOnly && (
+                      <button
+                        type="button"
+                        onClick={() => setDrafts(prev => prev.filter(item => item.key !== draft.key))}
+                        className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm text-red-700 hover:bg-red-50"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                        Delete entry
+                      </button>
+                    )}
+                  </fieldset>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Tester */}
+        {canTest && (
+          <div className="lg:col-span-2 lg:sticky lg:top-24 bg-white rounded-xl shadow-sm border p-6 space-y-4">
+            <div className="flex items-center gap-2">
+              <FlaskConical className="w-5 h-5 text-amber-600" />
+              <h3 className="text-lg font-semibold text-gray-900">Try a question</h3>
+            </div>
+            <p className="text-xs text-gray-500">
+              Answered from the saved entries the way the chat would, without a conversation.
+              {dirty && ' Save first to try your changes.'}
+            </p>
+            <form
+              onSubmit={e => { e.preventDefault(); test(); }}
+              className="flex gap-2"
+            >
+              <input
+                value={question}
+                onChange={e => setQuestion(e.target.value)}
+                placeholder="¿Cuánto tarda en llegar el envío?"
+                className="flex-1 px-2 py-1.5 border rounded-lg text-sm"
+              />
+              <button
+                type="submit"
+                disabled={testing || !question.trim()}
+                className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm border text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                {testing ? <Loader2 className="w-4 h-4 animate-spin" /> : <FlaskConical className="w-4 h-4" />}
+                Ask
+              </button>
+            </form>
+
+            {result && <TestResult result={result} />}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function TestResult({ result }: { result: KnowledgeTestResult }) {
+  const sent = new Set(result.sources.map(source => source.id));
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div>
+        <p className="text-xs font-medium text-gray-500 mb-1">Search terms</p>
+        <p className="font-mono text-xs text-gray-700">{result.terms.join(' · ') || 'None'}</p>
+      </div>
+
+      <div>
+        <p className="text-xs font-medium text-gray-500 mb-1">Entries retrieved</p>
+        {result.results.length === 0 ? (
+          <p className="text-gray-500">No entry matches</p>
+        ) : (
+          <ul className="space-y-1.5">
+            {result.results.map(entry => (
+              <li key={entry.id} className={`flex items-start gap-2 ${sent.has(entry.id) ? '' : 'opacity-50'}`}>
+                <span className="w-8 text-xs text-gray-500">{entry.number ? `[${entry.number}]` : ''}</span>
+                <div className="flex-1">
+                  <p className="text-gray-800">{entry.title}</p>
+                  <p className="text-xs text-gray-500">
+                    {entry.id} · score {entry.score} · {percent(entry.confidence)} confidence · {entry.matches.join(', ')}
+                  </p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+        <p className="mt-1 text-xs text-gray-400">Entries need {percent(result.settings.minConfidence)} confidence to be sent to the AI.</p>
+      </div>
+
+      {result.answer ? (
+        <div className={`rounded-lg p-3 space-y-1 ${result.answer.type === 'no_answer' ? 'bg-fuchsia-50 text-fuchsia-900' : 'bg-purple-50 text-purple-900'}`}>
+          <p className="flex items-center gap-1.5 text-xs font-medium">
+            <Bot className="w-4 h-4 shrink-0" />
+            {result.answer.type === 'no_answer' ? 'No confident answer; the agent offer is sent' : 'Grounded answer'} · {result.answer.provider}
+          </p>
+          <p className="whitespace-pre-line">{result.answer.message}</p>
+        </div>
+      ) : (
+        <p className="text-xs text-red-700">No AI provider answered{result.error ? `: ${result.error}` : ''}</p>
+      )}
+    </div>
+  );
+}
+
+export default KnowledgeBaseEditor;
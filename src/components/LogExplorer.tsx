@@ -0,0 +1,337 @@
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+import {
+  AlertCircle,
+  Bot,
+  ChevronLeft,
+  ChevronRight,
+  Clock,
+  FileText,
+  Loader2,
+  PhoneForwarded,
+  Search,
+  User,
+  X
+} from 'lucide-react';
+import { ChatbotClient, ChatbotClientError, LogEntry, LogQuery, LogsPage } from '../chatbotClient';
+
+interface LogExplorerProps {
+  client: ChatbotClient;
+  onUnauthorized: () => void;
+}
+
+const INTERACTION_TYPES = [
+  'menu_display',
+  'menu_selection',
+  'static_response',
+  'ai_response',
+  'chat_message',
+  'escalation',
+  'error',
+  'ai_performance',
+  'ml_api_usage'
+];
+
+const STATUSES = ['success', 'error', 'pending', 'after_hours'];
+
+const STATUS_STYLES: Record<string, string> = {
+  success: 'bg-green-100 text-green-800',
+  error: 'bg-red-100 text-red-800',
+  pending: 'bg-orange-100 text-orange-800',
+  after_hours: 'bg-slate-100 text-slate-700'
+};
+
+const PAGE_SIZE = 50;
+
+const formatTime = (timestamp: string) => {
+  const date = new Date(timestamp);
+  return isNaN(date.getTime()) ? timestamp : date.toLocaleString();
+};
+
+const describeError = (err: unknown) => err instanceof Error ? err.message : String(err);
+
+function LogExplorer({ client, onUnauthorized }: LogExplorerProps) {
+  const [draft, setDraft] = useState<LogQuery>({});
+  const [query, setQuery] = useState<LogQuery>({ page: 1 });
+  const [result, setResult] = useState<LogsPage | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [replaySession, setReplaySession] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setResult(await client.getLogs({ ...query, pageSize: PAGE_SIZE }));
+    } catch (err) {
+      if (err instanceof ChatbotClientError && err.kind === 'unauthorized') {
+        onUnauthorized();
+        return;
+      }
+      setError(describeError(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [client, query, onUnauthorized]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const applyFilters = (event: FormEvent) => {
+    event.preventDefault();
+    // Drop empty fields so they don't reach the backend as blank filters
+    const filters = Object.fromEntries(
+      Object.entries(draft).filter(([, value]) => value !== '' && value !== undefined)
+    );
+    setQuery({ ...filters, page: 1 });
+  };
+
+  const goToPage = (page: number) => setQuery(prev => ({ ...prev, page }));
+
+  const updateDraft = (field: keyof LogQuery) =>
+    (event: { target: { value: string } }) => setDraft(prev => ({ ...prev, [field]: event.target.value }));
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center bg-gradient-to-r from-slate-50 to-gray-100 rounded-xl p-8">
+        <div className="flex justify-center mb-4">
+          <FileText className="w-16 h-16 text-slate-600" />
+        </div>
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Conversation Logs</h2>
+        <p className="text-gray-600">Browse Chat_Logs and replay a session before picking up an escalation</p>
+      </div>
+
+      {/* Filters */}
+      <form onSubmit={applyFilters} className="bg-white rounded-xl shadow-sm border p-4 grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3 items-end">
+        <label className="text-xs text-gray-500 space-y-1">
+          <span>From</span>
+          <input type="date" value={draft.startDate ?? ''} onChange={updateDraft('startDate')}
+            className="w-full px-2 py-1.5 border rounded-md text-sm text-gray-900" />
+        </label>
+        <label className="text-xs text-gray-500 space-y-1">
+          <span>To</span>
+          <input type="date" value={draft.endDate ?? ''} onChange={updateDraft('endDate')}
+            className="w-full px-2 py-1.5 border rounded-md text-sm text-gray-900" />
+        </label>
+        <label className="text-xs text-gray-500 space-y-1">
+          <span>Type</span>
+          <select value={draft.interactionType ?? ''} onChange={updateDraft('interactionType')}
+            className="w-full px-2 py-1.5 border rounded-md text-sm text-gray-900 bg-white">
+            <option value="">All</option>
+            {INTERACTION_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+          </select>
+        </label>
+        <label className="text-xs text-gray-500 space-y-1">
+          <span>Status</span>
+          <select value={draft.status ?? ''} onChange={updateDraft('status')}
+            className="w-full px-2 py-1.5 border rounded-md text-sm text-gray-900 bg-white">
+            <option value="">All</option>
+            {STATUSES.map(status => <option key={status} value={status}>{status}</option>)}
+          </select>
+        </label>
+        <label className="text-xs text-gray-500 space-y-1">
+          <span>Session ID</span>
+          <input value={draft.sessionId ?? ''} onChange={updateDraft('sessionId')} placeholder="Exact match"
+            className="w-full px-2 py-1.5 border rounded-md text-sm font-mono text-gray-900" />
+        </label>
+        <label className="text-xs text-gray-500 space-y-1">
+          <span>Search</span>
+          <input value={draft.search ?? ''} onChange={updateDraft('search')} placeholder="Message text…"
+            className="w-full px-2 py-1.5 border rounded-md text-sm text-gray-900" />
+        </label>
+        <button type="submit"
+          className="inline-flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm bg-slate-800 text-white hover:bg-slate-900">
+          <Search className="w-4 h-4" />
+          Apply
+        </button>
+      </form>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-4 flex items-start gap-2 text-sm text-red-800">
+          <AlertCircle className="w-5 h-5 shrink-0" />
+          <span>Could not load logs: {error}</span>
+        </div>
+      )}
+
+      {/* Results */}
+      <div className="bg-white rounded-xl shadow-sm border overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-xs uppercase tracking-wide text-gray-500">
+              <tr>
+                <th className="px-4 py-3 text-left font-medium">Time</th>
+                <th className="px-4 py-3 text-left font-medium">Session</th>
+                <th className="px-4 py-3 text-left font-medium">Type</th>
+                <th className="px-4 py-3 text-left font-medium">User</th>
+                <th className="px-4 py-3 text-left font-medium">Bot</th>
+                <th className="px-4 py-3 text-left font-medium">Provider</th>
+                <th className="px-4 py-3 text-right font-medium">ms</th>
+                <th className="px-4 py-3 text-left font-medium">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {result?.entries.map((entry, index) => (
+                <tr key={`${entry.timestamp}-${index}`} className="hover:bg-gray-50 align-top">
+                  <td className="px-4 py-2 whitespace-nowrap text-gray-500">{formatTime(entry.timestamp)}</td>
+                  <td className="px-4 py-2">
+                    <button
+                      onClick={() => setReplaySession(entry.sessionId)}
+                      className="font-mono text-xs text-blue-700 hover:underline"
+                      title="Replay this conversation"
+                    >
+                      {entry.sessionId}
+                    </button>
+                  </td>
+                  <td className="px-4 py-2 font-mono text-xs text-gray-700">{entry.interactionType}</td>
+                  <td className="px-4 py-2 text-gray-800 max-w-xs truncate" title={entry.userMessage}>{entry.userMessage}</td>
+                  <td className="px-4 py-2 text-gray-600 max-w-xs truncate" title={entry.botResponse}>{entry.botResponse}</td>
+                  <td className="px-4 py-2 text-gray-600">{entry.provider}</td>
+                  <td className="px-4 py-2 text-right text-gray-500">{entry.responseTime || ''}</td>
+                  <td className="px-4 py-2">
+                    <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_STYLES[entry.status] || 'bg-gray-100 text-gray-700'}`}>
+                      {entry.status}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+              {result && result.entries.length === 0 && (
+                <tr>
+                  <td colSpan={8} className="px-4 py-12 text-center text-gray-500">No log entries match these filters.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex items-center justify-between px-4 py-3 border-t bg-gray-50 text-sm text-gray-600">
+          <span>
+            {loading && <Loader2 className="inline w-4 h-4 animate-spin mr-2" />}
+            {result ? `${result.total.toLocaleString()} entries` : ' '}
+          </span>
+          {result && (
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => goToPage(result.page - 1)}
+                disabled={loading || result.page <= 1}
+                className="p-1 rounded hover:bg-gray-200 disabled:opacity-40"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <span>Page {result.page} of {result.totalPages}</span>
+              <button
+                onClick={() => goToPage(result.page + 1)}
+                disabled={loading || result.page >= result.totalPages}
+                className="p-1 rounded hover:bg-gray-200 disabled:opacity-40"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {replaySession && (
+        <SessionReplay client={client} sessionId={replaySession} onClose={() => setReplaySession(null)} />
+      )}
+    </div>
+  );
+}
+
+interface SessionReplayProps {
+  client: ChatbotClient;
+  sessionId: string;
+  onClose: () => void;
+}
+
+/** Side panel that replays a whole session in chronological order. */
+function SessionReplay({ client, sessionId, onClose }: SessionReplayProps) {
+  const [entries, setEntries] = useState<LogEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    client.getLogs({ sessionId, order: 'asc', pageSize: 500 })
+      .then(page => { if (!cancelled) setEntries(page.entries); })
+      .catch(err => { if (!cancelled) setError(describeError(err)); });
+    return () => { cancelled = true; };
+  }, [client, sessionId]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/30" onClick={onClose}>
+      <div className="w-full max-w-xl h-full bg-white shadow-xl flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <div>
+            <p className="text-xs text-gray-500">Session replay</p>
+            <p className="font-mono text-sm text-gray-900">{sessionId}</p>
+          </div>
+          <button onClick={onClose} className="p-1 rounded hover:bg-gray-100">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4 bg-gray-50">
+          {error && <p className="text-sm text-red-700">{error}</p>}
+          {!entries && !error && (
+            <div className="flex justify-center py-12"><Loader2 className="w-6 h-6 animate-spin text-gray-400" /></div>
+          )}
+          {entries?.length === 0 && <p className="text-sm text-gray-500">No entries for this session.</p>}
+          {entries?.map((entry, index) => <ReplayEntry key={index} entry={entry} />)}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ReplayEntry({ entry }: { entry: LogEntry }) {
+  const time = new Date(entry.timestamp).toLocaleTimeString();
+  const botResponse = entry.metadata.botResponse as { provider?: string } | undefined;
+  const provider = entry.provider || botResponse?.provider;
+  const isUserTurn = entry.interactionType === 'chat_message' || entry.interactionType === 'menu_selection';
+
+  if (entry.interactionType === 'escalation' || entry.interactionType === 'error') {
+    return (
+      <div className={`flex items-center gap-2 text-xs px-3 py-2 rounded-lg ${
+        entry.interactionType === 'error' ? 'bg-red-50 text-red-800' : 'bg-orange-50 text-orange-800'
+      }`}>
+        {entry.interactionType === 'error' ? <AlertCircle className="w-4 h-4" /> : <PhoneForwarded className="w-4 h-4" />}
+        <span className="font-medium">{entry.interactionType}</span>
+        <span className="truncate">{entry.userMessage} {entry.botResponse && `— ${entry.botResponse}`}</span>
+        <span className="ml-auto text-gray-400">{time}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {isUserTurn && entry.userMessage && (
+        <div className="flex justify-end items-start gap-2">
+          <div className="px-4 py-2 rounded-2xl rounded-tr-sm bg-blue-600 text-white text-sm max-w-[80%]">
+            {entry.userMessage}
+          </div>
+          <User className="w-5 h-5 text-blue-600 mt-1" />
+        </div>
+      )}
+      {(entry.botResponse || entry.interactionType === 'menu_display') && (
+        <div className="flex items-start gap-2">
+          <Bot className="w-5 h-5 text-gray-500 mt-1" />
+          <div className="px-4 py-2 rounded-2xl rounded-tl-sm bg-white border text-sm max-w-[80%] space-y-1">
+            <p className="text-gray-800 whitespace-pre-line">
+              {entry.botResponse || <span className="italic text-gray-500">Menu displayed</span>}
+            </p>
+            <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+              <span className="font-mono">{entry.interactionType}</span>
+              {provider && <span>via {provider}</span>}
+              {entry.responseTime > 0 && (
+                <span className="inline-flex items-center gap-1"><Clock className="w-3 h-3" />{entry.responseTime} ms</span>
+              )}
+              <span className={entry.status === 'success' ? 'text-green-600' : 'text-red-600'}>{entry.status}</span>
+              <span>{time}</span>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default LogExplorer;
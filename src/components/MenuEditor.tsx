@@ -0,0 +1,945 @@
+import { DragEvent, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  AlertCircle,
+  Bot,
+  CheckCircle,
+  ChevronDown,
+  ChevronRight,
+  CornerDownRight,
+  EyeOff,
+  GripVertical,
+  Languages,
+  LayoutList,
+  Loader2,
+  Lock,
+  Plus,
+  Save,
+  Trash2,
+  Undo2
+} from 'lucide-react';
+import {
+  ChatbotClient,
+  ChatbotClientError,
+  FlowDefinition,
+  FlowStep,
+  LanguageCode,
+  LanguageInfo,
+  MenuOption,
+  MenuResponse,
+  MenuTranslation,
+  ValidationIssue
+} from '../chatbotClient';
+import TranslationCoverage from './TranslationCoverage';
+
+interface MenuEditorProps {
+  client: ChatbotClient;
+  onUnauthorized: () => void;
+  /** Show the saved values without the controls that change them */
+  readOnly?: boolean;
+}
+
+interface EditableOption extends MenuOption {
+  /** Stable React key; rows have no id of their own */
+  key: string;
+}
+
+const RESPONSE_TYPES = ['static', 'ai', 'escalate', 'submenu', 'flow'];
+const AI_PROVIDERS = ['gemini', 'claude'];
+const FLOW_VALIDATORS = ['text', 'email', 'order_id', 'number'];
+const FLOW_COMPLETIONS = ['message', 'order_lookup', 'escalate'];
+
+const TYPE_LABELS: Record<string, string> = {
+  static: 'Static answer',
+  ai: 'AI answer',
+  escalate: 'Human agent',
+  submenu: 'Submenu',
+  flow: 'Guided flow'
+};
+
+const TYPE_STYLES: Record<string, string> = {
+  static: 'bg-gray-100 text-gray-800',
+  ai: 'bg-purple-100 text-purple-800',
+  escalate: 'bg-orange-100 text-orange-800',
+  submenu: 'bg-blue-100 text-blue-800',
+  flow: 'bg-teal-100 text-teal-800'
+};
+
+const VALIDATOR_LABELS: Record<string, string> = {
+  text: 'Any text',
+  email: 'Email',
+  order_id: 'Order number',
+  number: 'Number'
+};
+
+const COMPLETION_LABELS: Record<string, string> = {
+  message: 'Show a message',
+  order_lookup: 'Look up the order',
+  escalate: 'Hand over to an agent'
+};
+
+/** Translated texts of the option itself; flow steps are translated one by one */
+type TranslationField = Exclude<keyof MenuTranslation, 'steps'>;
+
+const TRANSLATION_LABELS: Record<TranslationField, string> = {
+  title: 'Title',
+  response: 'Response',
+  escalationMessage: 'Message during business hours',
+  afterHoursMessage: 'Message after hours',
+  fallbackResponse: 'Fallback if the AI is unavailable',
+  completionMessage: 'Completion message'
+};
+
+/** Texts of an option that customers read, so the ones MenuService.toTranslationCell keeps */
+const translatableFields = (type: string): TranslationField[] => {
+  switch (type) {
+    case 'static': return ['title', 'response'];
+    case 'ai': return ['title', 'fallbackResponse'];
+    case 'escalate': return ['title', 'escalationMessage', 'afterHoursMessage'];
+    case 'flow': return ['title', 'completionMessage'];
+    default: return ['title'];
+  }
+};
+
+/** Each text to translate as a reader of its translation, counting step questions but not their optional errors */
+const translatableTexts = (item: MenuOption): ((translation?: MenuTranslation) => string | undefined)[] => [
+  ...translatableFields(item.responseType).map(field => (translation?: MenuTranslation) => translation?.[field]),
+  ...(item.responseType === 'flow' ? item.flow?.steps ?? [] : [])
+    .map(step => (translation?: MenuTranslation) => translation?.steps?.[step.field]?.prompt)
+];
+
+const blankFlow = (): FlowDefinition => ({
+  steps: [{ field: 'answer', prompt: '', validate: 'text', error: '' }],
+  onComplete: 'message',
+  completionMessage: ''
+});
+
+/** "2.1" -> "2", "2" -> "" */
+const parentOf = (number: number | string) => String(number).split('.').slice(0, -1).join('.');
+const depthOf = (number: number | string) => String(number).split('.').length - 1;
+
+let keySeed = 0;
+const withKey = (option: MenuOption): EditableOption => ({ ...option, key: `opt-${keySeed++}` });
+
+const blankOption = (number: number | string): EditableOption => withKey({
+  number,
+  title: '',
+  responseType: 'static',
+  response: '',
+  aiProvider: 'gemini',
+  aiContext: '',
+  escalationMessage: '',
+  afterHoursMessage: '',
+  fallbackResponse: '',
+  returnToMenu: true,
+  active: true,
+  maxTokens: 300,
+  flow: null
+});
+
+/** Mirrors FlowService.validateFlow */
+function validateFlow(flow: FlowDefinition | null | undefined): string[] {
+  if (!flow || flow.steps.length === 0) {
+    return ['Flows need at least one step'];
+  }
+
+  const messages: string[] = [];
+  const fields = new Set<string>();
+
+  flow.steps.forEach((step, i) => {
+    if (!/^\w+$/.test(step.field)) {
+      messages.push(`Step ${i + 1}: field name must be letters, numbers or _`);
+    } else if (fields.has(step.field)) {
+      messages.push(`Step ${i + 1}: field ${step.field} is already used`);
+    } else {
+      fields.add(step.field);
+    }
+    if (!step.prompt.trim()) {
+      messages.push(`Step ${i + 1}: prompt is required`);
+    }
+    if (!FLOW_VALIDATORS.includes(step.validate)) {
+      messages.push(`Step ${i + 1}: unknown validation "${step.validate}"`);
+    }
+  });
+
+  if (!FLOW_COMPLETIONS.includes(flow.onComplete)) {
+    messages.push(`Unknown completion action "${flow.onComplete}"`);
+  }
+  if (flow.onComplete === 'order_lookup' && !flow.steps.some(step => step.validate === 'order_id')) {
+    messages.push('Order lookup flows need a step validated as order_id');
+  }
+
+  return messages;
+}
+
+/** Mirrors MenuService.validateMenuConfig so problems show up before saving */
+function validateMenu(items: MenuOption[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const seen = new Map<string, number>();
+  const typeOf = new Map(items.map(item => [String(item.number ?? '').trim(), item.responseType]));
+
+  items.forEach((item, index) => {
+    const number = String(item.number ?? '').trim();
+    if (!/^\d+(\.\d+)*$/.test(number)) {
+      issues.push({ index, field: 'number', message: 'Number must look like 3 or 2.1' });
+    } else if (seen.has(number)) {
+      issues.push({ index, field: 'number', message: `Number ${number} is also used by option ${seen.get(number)! + 1}` });
+    } else {
+      seen.set(number, index);
+      const parent = parentOf(number);
+      if (parent && typeOf.get(parent) !== 'submenu') {
+        issues.push({ index, field: 'number', message: `Option ${parent} must be a submenu to contain ${number}` });
+      } else if (parent && number.endsWith('.0')) {
+        issues.push({ index, field: 'number', message: '0 is reserved for "Volver" inside submenus' });
+      }
+    }
+
+    if (!String(item.title ?? '').trim()) {
+      issues.push({ index, field: 'title', message: 'Title is required' });
+    }
+
+    if (!RESPONSE_TYPES.includes(item.responseType)) {
+      issues.push({ index, field: 'responseType', message: `Unknown response type "${item.responseType}"` });
+    }
+
+    if (item.responseType === 'static' && !String(item.response ?? '').trim()) {
+      issues.push({ index, field: 'response', message: 'Static options need a response' });
+    }
+
+    if (item.responseType === 'ai') {
+      if (!AI_PROVIDERS.includes(item.aiProvider ?? '')) {
+        issues.push({ index, field: 'aiProvider', message: `Unknown AI provider "${item.aiProvider ?? ''}"` });
+      }
+      const maxTokens = Number(item.maxTokens);
+      if (!Number.isInteger(maxTokens) || maxTokens < 1 || maxTokens > 4096) {
+        issues.push({ index, field: 'maxTokens', message: 'Max tokens must be between 1 and 4096' });
+      }
+    }
+
+    if (item.responseType === 'submenu' && !items.some(child => parentOf(String(child.number ?? '').trim()) === number)) {
+      issues.push({ index, field: 'responseType', message: 'Submenus need at least one option under them' });
+    }
+
+    if (item.responseType === 'flow') {
+      validateFlow(item.flow).forEach(message => issues.push({ index, field: 'flow', message }));
+    }
+  });
+
+  return issues;
+}
+
+/** Compare menu numbers segment by segment, with the top-level exit option 0 last */
+const compareNumbers = (a: number | string, b: number | string) => {
+  const left = String(a).split('.').map(Number);
+  const right = String(b).split('.').map(Number);
+  if (left[0] === 0 && right[0] !== 0) return 1;
+  if (right[0] === 0 && left[0] !== 0) return -1;
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? -1) - (right[i] ?? -1);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+/**
+ * Number siblings 1..n in list order under each parent, carrying the new
+ * parent number down to children. Top-level option 0 keeps its "exit" slot.
+ */
+const renumber = (items: EditableOption[]) => {
+  const renamed = new Map<string, string>();
+  const counters = new Map<string, number>();
+  const byDepth = [...items].sort((a, b) => depthOf(a.number) - depthOf(b.number));
+
+  for (const item of byDepth) {
+    const old = String(item.number);
+    if (old === '0') {
+      renamed.set(old, old);
+      continue;
+    }
+    const parent = parentOf(old);
+    const newParent = renamed.get(parent) ?? parent;
+    const next = (counters.get(newParent) ?? 0) + 1;
+    counters.set(newParent, next);
+    renamed.set(old, newParent ? `${newParent}.${next}` : String(next));
+  }
+
+  return items
+    .map(item => {
+      const number = renamed.get(String(item.number)) ?? String(item.number);
+      return { ...item, number: number.includes('.') ? number : Number(number) };
+    })
+    .sort((a, b) => compareNumbers(a.number, b.number));
+};
+
+const stripKey = (item: EditableOption): MenuOption => {
+  const option: Partial<EditableOption> = { ...item };
+  delete option.key;
+  return option as MenuOption;
+};
+
+function MenuEditor({ client, onUnauthorized, readOnly = false }: MenuEditorProps) {
+  const [saved, setSaved] = useState<EditableOption[]>([]);
+  const [items, setItems] = useState<EditableOption[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [liveMenu, setLiveMenu] = useState<MenuResponse | null>(null);
+  const [languages, setLanguages] = useState<LanguageInfo[]>([]);
+  const [defaultLanguage, setDefaultLanguage] = useState<LanguageCode>('es');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [serverIssues, setServerIssues] = useState<ValidationIssue[]>([]);
+  const [savedAt, setSavedAt] = useState<Date | null>(null);
+  const dragIndex = useRef<number | null>(null);
+
+  const handleError = useCallback((err: unknown) => {
+    if (err instanceof ChatbotClientError && err.kind === 'unauthorized') {
+      onUnauthorized();
+      return;
+    }
+    if (err instanceof ChatbotClientError && err.kind === 'validation') {
+      setServerIssues(err.issues);
+    }
+    setError(err instanceof Error ? err.message : String(err));
+  }, [onUnauthorized]);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [config, menu] = await Promise.all([client.getMenuConfig(), client.getMenu()]);
+      const editable = config.items.map(withKey);
+      setSaved(editable);
+      setItems(editable);
+      setLiveMenu(menu.type === 'menu' ? menu : null);
+      setLanguages(config.languages);
+      setDefaultLanguage(config.defaultLanguage);
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setLoading(false);
+    }
+  }, [client, handleError]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const issues = useMemo(() => validateMenu(items), [items]);
+  const dirty = JSON.stringify(items) !== JSON.stringify(saved);
+
+  const otherLanguages = languages.filter(language => language.code !== defaultLanguage);
+  const texts = items.flatMap(item => translatableTexts(item).map(text => ({ item, text })));
+  const coverage = Object.fromEntries(otherLanguages.map(language => [
+    language.code,
+    texts.filter(({ item, text }) => text(item.translations?.[language.code])?.trim()).length
+  ]));
+
+  const issuesFor = (index: number, field?: string) =>
+    [...issues, ...serverIssues].filter(issue => issue.index === index && (!field || issue.field === field));
+
+  const update = (key: string, changes: Partial<MenuOption>) => {
+    setServerIssues([]);
+    setItems(prev => prev.map(item => item.key === key ? { ...item, ...changes } : item));
+  };
+
+  const addOption = (parent = '') => {
+    const used = items
+      .filter(item => parentOf(item.number) === parent)
+      .map(item => Number(String(item.number).split('.').pop()))
+      .filter(n => !isNaN(n));
+    const next = Math.max(0, ...used) + 1;
+    const option = blankOption(parent ? `${parent}.${next}` : next);
+    setItems(prev => [...prev, option].sort((a, b) => compareNumbers(a.number, b.number)));
+    setExpanded(option.key);
+  };
+
+  /** Removing a submenu also removes everything under it */
+  const removeOption = (key: string) => setItems(prev => {
+    const target = prev.find(item => item.key === key);
+    const prefix = `${String(target?.number)}.`;
+    return prev.filter(item => item.key !== key && !String(item.number).startsWith(prefix));
+  });
+
+  const handleDragStart = (index: number) => () => {
+    dragIndex.current = index;
+  };
+
+  const handleDrop = (index: number) => (event: DragEvent) => {
+    event.preventDefault();
+    const from = dragIndex.current;
+    dragIndex.current = null;
+    if (from === null || from === index) return;
+
+    setItems(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(index, 0, moved);
+      return renumber(next);
+    });
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    setServerIssues([]);
+    try {
+      const config = await client.updateMenu(items.map(stripKey));
+      const editable = config.items.map(withKey);
+      setSaved(editable);
+      setItems(editable);
+      setExpanded(null);
+      setSavedAt(new Date());
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-16 text-gray-500">
+        <Loader2 className="w-6 h-6 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center bg-gradient-to-r from-teal-50 to-cyan-50 rounded-xl p-8">
+        <div className="flex justify-center mb-4">
+          <LayoutList className="w-16 h-16 text-teal-600" />
+        </div>
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Menu Editor</h2>
+        <p className="text-gray-600">Edit Menu_Config without touching the spreadsheet columns</p>
+      </div>
+
+      {/* Save bar */}
+      <div className="sticky top-4 z-10 bg-white rounded-xl shadow-sm border p-4 flex flex-wrap items-center gap-3">
+        <div className="text-sm">
+          {issues.length > 0 ? (
+            <span className="inline-flex items-center gap-1.5 text-red-700">
+              <AlertCircle className="w-4 h-4" />
+              {issues.length} problem{issues.length === 1 ? '' : 's'} to fix before saving
+            </span>
+          ) : dirty ? (
+            <span className="text-amber-700">Unsaved changes</span>
+          ) : savedAt ? (
+            <span className="inline-flex items-center gap-1.5 text-green-700">
+              <CheckCircle className="w-4 h-4" />
+              Saved at {savedAt.toLocaleTimeString()}
+            </span>
+          ) : (
+            <span className="text-gray-500">{items.length} options · drag to reorder</span>
+          )}
+        </div>
+        {readOnly ? (
+          <span className="ml-auto inline-flex items-center gap-1.5 text-sm text-gray-500">
+            <Lock className="w-4 h-4" />
+            View only
+          </span>
+        ) : (
+          <div className="ml-auto flex items-center gap-2">
+            <button
+              onClick={() => addOption()}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm text-teal-700 bg-teal-50 hover:bg-teal-100"
+            >
+              <Plus className="w-4 h-4" />
+              Add option
+            </button>
+            <button
+              onClick={() => { setItems(saved); setServerIssues([]); setError(null); }}
+              disabled={!dirty || saving}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm text-gray-600 hover:bg-gray-100 disabled:opacity-40"
+            >
+              <Undo2 className="w-4 h-4" />
+              Discard
+            </button>
+            <button
+              onClick={save}
+              disabled={!dirty || saving || issues.length > 0}
+              className="inline-flex items-center gap-1.5 px-4 py-1.5 rounded-lg text-sm font-medium bg-teal-600 text-white hover:bg-teal-700 disabled:opacity-40"
+            >
+              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              Save menu
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-4 flex items-start gap-2 text-sm text-red-800">
+          <AlertCircle className="w-5 h-5 shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {otherLanguages.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border px-4 py-3">
+          <TranslationCoverage
+            languages={languages}
+            defaultLanguage={defaultLanguage}
+            counts={coverage}
+            total={texts.length}
+          />
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-5 gap-6 items-start">
+        {/* Option list */}
+        <fieldset disabled={readOnly} className="lg:col-span-3 space-y-3 min-w-0">
+          {items.map((item, index) => {
+            const itemIssues = issuesFor(index);
+            const isOpen = expanded === item.key;
+            const depth = depthOf(item.number);
+            return (
+              <div
+                key={item.key}
+                draggable={!readOnly}
+                onDragStart={handleDragStart(index)}
+                onDragOver={event => event.preventDefault()}
+                onDrop={handleDrop(index)}
+                style={{ marginLeft: `${depth * 1.5}rem` }}
+                className={`bg-white rounded-xl shadow-sm border overflow-hidden ${
+                  itemIssues.length > 0 ? 'border-red-300' : ''
+                } ${item.active === false ? 'opacity-60' : ''}`}
+              >
+                <div className="flex items-center gap-3 px-4 py-3">
+                  <GripVertical className="w-4 h-4 text-gray-300 cursor-grab shrink-0" />
+                  {depth > 0 && <CornerDownRight className="w-4 h-4 text-gray-300 shrink-0" />}
+                  <span className="min-w-8 h-8 px-1.5 rounded-full bg-teal-50 text-teal-800 text-sm font-bold flex items-center justify-center shrink-0">
+                    {String(item.number)}
+                  </span>
+                  <button
+                    onClick={() => setExpanded(isOpen ? null : item.key)}
+                    className="flex-1 flex items-center gap-2 text-left min-w-0"
+                  >
+                    {isOpen ? <ChevronDown className="w-4 h-4 text-gray-400" /> : <ChevronRight className="w-4 h-4 text-gray-400" />}
+                    <span className="text-sm font-medium text-gray-900 truncate">
+                      {item.title || <span className="italic text-gray-400">Untitled option</span>}
+                    </span>
+                  </button>
+                  {item.active === false && <EyeOff className="w-4 h-4 text-gray-400" />}
+                  <span className={`px-2 py-0.5 rounded-full text-xs ${TYPE_STYLES[item.responseType] || 'bg-red-100 text-red-800'}`}>
+                    {TYPE_LABELS[item.responseType] || item.responseType}
+                  </span>
+                  <button onClick={() => removeOption(item.key)} className="p-1 text-gray-400 hover:text-red-600" title="Delete option">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+
+                {!isOpen && itemIssues.length > 0 && (
+                  <p className="px-4 pb-3 text-xs text-red-700">{itemIssues[0].message}</p>
+                )}
+
+                {isOpen && (
+                  <OptionForm
+                    item={item}
+                    languages={otherLanguages}
+                    issueFor={field => issuesFor(index, field)[0]?.message}
+                    flowIssues={issuesFor(index, 'flow').map(issue => issue.message)}
+                    onChange={changes => update(item.key, changes)}
+                    onAddChild={() => addOption(String(item.number))}
+                  />
+                )}
+              </div>
+            );
+          })}
+          {items.length === 0 && (
+            <div className="bg-white rounded-xl border border-dashed p-10 text-center text-sm text-gray-500">
+              The menu is empty. Add an option to get started.
+            </div>
+          )}
+        </fieldset>
+
+        {/* Live preview */}
+        <div className="lg:col-span-2 lg:sticky lg:top-24">
+          <MenuPreview items={items} liveMenu={liveMenu} />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface OptionFormProps {
+  item: EditableOption;
+  /** Languages other than the default one, to translate into */
+  languages: LanguageInfo[];
+  issueFor: (field: string) => string | undefined;
+  flowIssues: string[];
+  onChange: (changes: Partial<MenuOption>) => void;
+  onAddChild: () => void;
+}
+
+/** Fields shown depend on the response type, so staff only see what applies */
+function OptionForm({ item, languages, issueFor, flowIssues, onChange, onAddChild }: OptionFormProps) {
+  const translate = (language: LanguageCode, field: TranslationField, value: string) => onChange({
+    translations: { ...item.translations, [language]: { ...item.translations?.[language], [field]: value } }
+  });
+
+  const original = (field: TranslationField) =>
+    String((field === 'completionMessage' ? item.flow?.completionMessage : item[field]) ?? '');
+
+  const translateStep = (language: LanguageCode, field: string, text: 'prompt' | 'error', value: string) => {
+    const translation = item.translations?.[language];
+    onChange({
+      translations: {
+        ...item.translations,
+        [language]: { ...translation, steps: { ...translation?.steps, [field]: { ...translation?.steps?.[field], [text]: value } } }
+      }
+    });
+  };
+
+  const text = (field: keyof MenuOption, label: string, options: { multiline?: boolean; placeholder?: string } = {}) => {
+    const error = issueFor(field);
+    const className = `w-full px-3 py-2 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-teal-500 ${
+      error ? 'border-red-400' : ''
+    }`;
+    return (
+      <label className="block space-y-1">
+        <span className="text-xs font-medium text-gray-600">{label}</span>
+        {options.multiline ? (
+          <textarea
+            rows={3}
+            value={String(item[field] ?? '')}
+            placeholder={options.placeholder}
+            onChange={e => onChange({ [field]: e.target.value })}
+            className={className}
+          />
+        ) : (
+          <input
+            value={String(item[field] ?? '')}
+            placeholder={options.placeholder}
+            onChange={e => onChange({ [field]: e.target.value })}
+            className={className}
+          />
+        )}
+        {error && <span className="text-xs text-red-700">{error}</span>}
+      </label>
+    );
+  };
+
+  return (
+    <div className="px-4 pb-4 pt-1 border-t bg-gray-50 space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 pt-3">
+        <label className="block space-y-1">
+          <span className="text-xs font-medium text-gray-600">Number</span>
+          <input
+            inputMode="decimal"
+            value={String(item.number)}
+            onChange={e => onChange({ number: e.target.value })}
+            className={`w-full px-3 py-2 border rounded-lg text-sm ${issueFor('number') ? 'border-red-400' : ''}`}
+          />
+          {issueFor('number') && <span className="text-xs text-red-700">{issueFor('number')}</span>}
+        </label>
+        <div className="sm:col-span-3">{text('title', 'Title', { placeholder: 'Shown to customers in the menu' })}</div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {RESPONSE_TYPES.map(type => (
+          <button
+            key={type}
+            onClick={() => onChange(type === 'flow' && !item.flow ? { responseType: type, flow: blankFlow() } : { responseType: type })}
+            className={`px-3 py-1.5 rounded-lg text-sm border ${
+              item.responseType === type ? 'bg-teal-600 text-white border-teal-600' : 'bg-white text-gray-700 hover:bg-gray-100'
+            }`}
+          >
+            {TYPE_LABELS[type]}
+          </button>
+        ))}
+      </div>
+      {issueFor('responseType') && <p className="text-xs text-red-700">{issueFor('responseType')}</p>}
+
+      {item.responseType === 'static' && text('response', 'Response', { multiline: true })}
+
+      {item.responseType === 'ai' && (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <label className="block space-y-1">
+              <span className="text-xs font-medium text-gray-600">Provider</span>
+              <select
+                value={item.aiProvider ?? ''}
+                onChange={e => onChange({ aiProvider: e.target.value })}
+                className={`w-full px-3 py-2 border rounded-lg text-sm bg-white ${issueFor('aiProvider') ? 'border-red-400' : ''}`}
+              >
+                {!AI_PROVIDERS.includes(item.aiProvider ?? '') && <option value={item.aiProvider ?? ''}>{item.aiProvider || 'Choose…'}</option>}
+                {AI_PROVIDERS.map(provider => <option key={provider} value={provider}>{provider}</option>)}
+              </select>
+              {issueFor('aiProvider') && <span className="text-xs text-red-700">{issueFor('aiProvider')}</span>}
+            </label>
+            <label className="block space-y-1">
+              <span className="text-xs font-medium text-gray-600">Max tokens</span>
+              <input
+                type="number"
+                min={1}
+                max={4096}
+                value={String(item.maxTokens ?? '')}
+                onChange={e => onChange({ maxTokens: Number(e.target.value) })}
+                className={`w-full px-3 py-2 border rounded-lg text-sm ${issueFor('maxTokens') ? 'border-red-400' : ''}`}
+              />
+              {issueFor('maxTokens') && <span className="text-xs text-red-700">{issueFor('maxTokens')}</span>}
+            </label>
+          </div>
+          {text('aiContext', 'Context for the AI', { multiline: true, placeholder: 'What should the assistant know for this option?' })}
+          {text('fallbackResponse', 'Fallback if the AI is unavailable', { multiline: true })}
+        </>
+      )}
+
+      {item.responseType === 'escalate' && (
+        <>
+          {text('escalationMessage', 'Message during business hours', { multiline: true })}
+          {text('afterHoursMessage', 'Message after hours', { multiline: true })}
+        </>
+      )}
+
+      {item.responseType === 'submenu' && (
+        <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600">
+          <span>
+            Options numbered {String(item.number)}.1, {String(item.number)}.2… appear inside this submenu, with 0 to go back.
+          </span>
+          <button
+            onClick={onAddChild}
+            className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm text-teal-700 bg-teal-50 hover:bg-teal-100"
+          >
+            <Plus className="w-4 h-4" />
+            Add option here
+          </button>
+        </div>
+      )}
+
+      {item.responseType === 'flow' && item.flow && (
+        <FlowBuilder flow={item.flow} issues={flowIssues} onChange={flow => onChange({ flow })} />
+      )}
+
+      {languages.length > 0 && (
+        <details className="rounded-lg border bg-white">
+          <summary className="flex items-center gap-2 px-3 py-2 text-sm text-gray-700 cursor-pointer">
+            <Languages className="w-4 h-4 text-gray-500" />
+            Translations
+            <span className="text-xs text-gray-500">Empty texts are shown in the default language</span>
+          </summary>
+          <div className="px-3 pb-3 space-y-4">
+            {languages.map(language => (
+              <div key={language.code} className="space-y-2">
+                <p className="text-xs font-semibold text-gray-700">{language.name}</p>
+                {translatableFields(item.responseType).map(field => (
+                  <label key={field} className="block space-y-1">
+                    <span className="text-xs font-medium text-gray-600">{TRANSLATION_LABELS[field]}</span>
+                    {field === 'title' ? (
+                      <input
+                        value={item.translations?.[language.code]?.[field] ?? ''}
+                        placeholder={original(field)}
+                        onChange={e => translate(language.code, field, e.target.value)}
+                        className="w-full px-3 py-2 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-teal-500"
+                      />
+                    ) : (
+                      <textarea
+                        rows={2}
+                        value={item.translations?.[language.code]?.[field] ?? ''}
+                        placeholder={original(field)}
+                        onChange={e => translate(language.code, field, e.target.value)}
+                        className="w-full px-3 py-2 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-teal-500"
+                      />
+                    )}
+                  </label>
+                ))}
+                {item.responseType === 'flow' && item.flow?.steps.map((step, index) => (
+                  <div key={index} className="space-y-1">
+                    <span className="text-xs font-medium text-gray-600">Step {index + 1} ({step.field})</span>
+                    <input
+                      value={item.translations?.[language.code]?.steps?.[step.field]?.prompt ?? ''}
+                      placeholder={step.prompt}
+                      onChange={e => translateStep(language.code, step.field, 'prompt', e.target.value)}
+                      className="w-full px-3 py-2 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-teal-500"
+                    />
+                    <input
+                      value={item.translations?.[language.code]?.steps?.[step.field]?.error ?? ''}
+                      placeholder={step.error || 'Message when the answer is not valid (optional)'}
+                      onChange={e => translateStep(language.code, step.field, 'error', e.target.value)}
+                      className="w-full px-3 py-2 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-teal-500"
+                    />
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </details>
+      )}
+
+      <div className="flex flex-wrap gap-6 text-sm text-gray-700">
+        <label className="inline-flex items-center gap-2">
+          <input type="checkbox" checked={item.active !== false} onChange={e => onChange({ active: e.target.checked })} />
+          Active
+        </label>
+        {item.responseType !== 'escalate' && item.responseType !== 'submenu' && (
+          <label className="inline-flex items-center gap-2">
+            <input type="checkbox" checked={item.returnToMenu !== false} onChange={e => onChange({ returnToMenu: e.target.checked })} />
+            Show the menu again afterwards
+          </label>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface FlowBuilderProps {
+  flow: FlowDefinition;
+  issues: string[];
+  onChange: (flow: FlowDefinition) => void;
+}
+
+/** Step list for "flow" options; answers are referenced as {field} in the completion message */
+function FlowBuilder({ flow, issues, onChange }: FlowBuilderProps) {
+  const updateStep = (index: number, changes: Partial<FlowStep>) =>
+    onChange({ ...flow, steps: flow.steps.map((step, i) => i === index ? { ...step, ...changes } : step) });
+
+  const addStep = () =>
+    onChange({ ...flow, steps: [...flow.steps, { field: `answer${flow.steps.length + 1}`, prompt: '', validate: 'text', error: '' }] });
+
+  const removeStep = (index: number) =>
+    onChange({ ...flow, steps: flow.steps.filter((_, i) => i !== index) });
+
+  const inputClass = 'w-full px-3 py-2 border rounded-lg text-sm bg-white focus:outline-none focus:ring-2 focus:ring-teal-500';
+
+  return (
+    <div className="space-y-3">
+      <ol className="space-y-3">
+        {flow.steps.map((step, index) => (
+          <li key={index} className="bg-white border rounded-lg p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="w-6 h-6 rounded-full bg-teal-100 text-teal-800 text-xs font-bold flex items-center justify-center">
+                {index + 1}
+              </span>
+              <input
+                value={step.field}
+                onChange={e => updateStep(index, { field: e.target.value })}
+                placeholder="field"
+                className="w-36 px-2 py-1 border rounded font-mono text-xs"
+              />
+              <select
+                value={step.validate}
+                onChange={e => updateStep(index, { validate: e.target.value })}
+                className="px-2 py-1 border rounded text-xs bg-white"
+              >
+                {FLOW_VALIDATORS.map(validator => <option key={validator} value={validator}>{VALIDATOR_LABELS[validator]}</option>)}
+              </select>
+              <button
+                onClick={() => removeStep(index)}
+                disabled={flow.steps.length === 1}
+                className="ml-auto p-1 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                title="Remove step"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            <input
+              value={step.prompt}
+              onChange={e => updateStep(index, { prompt: e.target.value })}
+              placeholder="Question asked to the customer"
+              className={inputClass}
+            />
+            <input
+              value={step.error ?? ''}
+              onChange={e => updateStep(index, { error: e.target.value })}
+              placeholder="Message when the answer is not valid (optional)"
+              className={inputClass}
+            />
+          </li>
+        ))}
+      </ol>
+
+      <button
+        onClick={addStep}
+        className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm text-teal-700 bg-teal-50 hover:bg-teal-100"
+      >
+        <Plus className="w-4 h-4" />
+        Add step
+      </button>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <label className="block space-y-1">
+          <span className="text-xs font-medium text-gray-600">When finished</span>
+          <select
+            value={flow.onComplete}
+            onChange={e => onChange({ ...flow, onComplete: e.target.value })}
+            className={inputClass}
+          >
+            {FLOW_COMPLETIONS.map(action => <option key={action} value={action}>{COMPLETION_LABELS[action]}</option>)}
+          </select>
+        </label>
+        <label className="block space-y-1 sm:col-span-2">
+          <span className="text-xs font-medium text-gray-600">Completion message</span>
+          <input
+            value={flow.completionMessage ?? ''}
+            onChange={e => onChange({ ...flow, completionMessage: e.target.value })}
+            placeholder={`Gracias, recibimos {${flow.steps[0]?.field ?? 'answer'}}`}
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      {issues.length > 0 && (
+        <ul className="text-xs text-red-700 space-y-0.5">
+          {issues.map(issue => <li key={issue}>{issue}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/** Renders the menu the way MenuService.getMenu() will return it, with submenus expanded */
+function MenuPreview({ items, liveMenu }: { items: MenuOption[]; liveMenu: MenuResponse | null }) {
+  const visible = items.filter(item => item.active !== false && item.title);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border overflow-hidden">
+      <div className="px-4 py-3 border-b bg-gray-50 text-sm font-medium text-gray-700">Live preview</div>
+      <div className="p-4 bg-gradient-to-b from-white to-gray-50">
+        <div className="flex items-start gap-2">
+          <Bot className="w-6 h-6 text-gray-500 shrink-0 mt-1" />
+          <div className="px-4 py-3 rounded-2xl rounded-tl-sm bg-white border shadow-sm space-y-2 flex-1">
+            <p className="text-sm text-gray-800">
+              {liveMenu?.greeting ?? '¡Hola! Bienvenido a nuestro servicio de atención al cliente. ¿En qué puedo ayudarte?'}
+            </p>
+            <PreviewLevel items={visible} parent="" />
+            {visible.length === 0 && <p className="text-xs italic text-gray-400">No active options</p>}
+            {liveMenu?.footer && <p className="text-xs text-gray-500 italic">{liveMenu.footer}</p>}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function PreviewLevel({ items, parent }: { items: MenuOption[]; parent: string }) {
+  const level = items.filter(item => parentOf(item.number) === parent);
+
+  return (
+    <div className="grid gap-1.5">
+      {level.map(item => (
+        <div key={String(item.number)} className="space-y-1.5">
+          <div className="flex items-center gap-3 px-3 py-2 rounded-lg border">
+            <span className="min-w-6 h-6 px-1.5 rounded-full bg-blue-100 text-blue-800 text-xs font-bold flex items-center justify-center">
+              {String(item.number)}
+            </span>
+            <span className="text-sm text-gray-800 flex-1">{item.title}</span>
+            {item.responseType === 'submenu' && <ChevronDown className="w-4 h-4 text-gray-400" />}
+            {item.responseType === 'flow' && (
+              <span className="text-xs text-teal-700">{item.flow?.steps.length ?? 0} steps</span>
+            )}
+          </div>
+          {item.responseType === 'submenu' && (
+            <div className="ml-4 pl-3 border-l-2 border-blue-100">
+              <PreviewLevel items={items} parent={String(item.number)} />
+              <div className="flex items-center gap-3 px-3 py-1.5 mt-1.5 text-xs text-gray-500">
+                <span className="w-6 text-center font-bold">0</span>
+                Volver
+              </div>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default MenuEditor;
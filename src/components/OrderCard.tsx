@@ -0,0 +1,194 @@
+import { CheckCircle, CreditCard, Package, PackageSearch, Truck } from 'lucide-react';
+import {
+  OrderInfoResponse,
+  OrderListResponse,
+  OrderSummary,
+  ShipmentInfoResponse,
+  ShipmentSummary,
+  TimelineEntry
+} from '../chatbotClient';
+
+interface OrderCardProps {
+  response: OrderInfoResponse | ShipmentInfoResponse | OrderListResponse;
+  /** Send a chat message, e.g. to open an order from a list */
+  onAsk: (message: string) => void;
+}
+
+// Happy path of a shipment; other states (not_delivered, cancelled) are shown as the status alone
+const SHIPMENT_STEPS = [
+  { status: 'handling', label: 'Preparing' },
+  { status: 'ready_to_ship', label: 'Ready' },
+  { status: 'shipped', label: 'On the way' },
+  { status: 'delivered', label: 'Delivered' }
+];
+
+const STATUS_STYLES: Record<string, string> = {
+  paid: 'bg-green-100 text-green-800',
+  delivered: 'bg-green-100 text-green-800',
+  shipped: 'bg-blue-100 text-blue-800',
+  cancelled: 'bg-red-100 text-red-800',
+  not_delivered: 'bg-red-100 text-red-800'
+};
+
+const SOURCE_ICONS = {
+  order: Package,
+  payment: CreditCard,
+  shipment: Truck
+};
+
+const formatDate = (value: string, withTime = false) => {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return withTime
+    ? date.toLocaleString([], { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString();
+};
+
+const formatAmount = (amount: number, currency: string | null) =>
+  currency ? amount.toLocaleString(undefined, { style: 'currency', currency }) : `$${amount.toLocaleString()}`;
+
+/**
+ * MercadoLibre order, shipment and order list replies as cards, with the
+ * timeline of order, payment and shipment states.
+ */
+function OrderCard({ response, onAsk }: OrderCardProps) {
+  if (response.type === 'order_list') {
+    return <OrderList response={response} onAsk={onAsk} />;
+  }
+
+  const orderId = response.type === 'order_info' ? String(response.data.id) : response.orderId;
+
+  return (
+    <div className="border rounded-xl overflow-hidden text-sm">
+      <div className="flex items-center gap-2 px-3 py-2 bg-gray-50 border-b">
+        {response.type === 'order_info' ? <Package className="w-4 h-4 text-yellow-700" /> : <Truck className="w-4 h-4 text-blue-700" />}
+        <span className="font-semibold text-gray-900">Order {orderId}</span>
+        {response.type === 'order_info' && (
+          <StatusPill status={response.data.status} label={response.data.status.replace(/_/g, ' ')} />
+        )}
+      </div>
+      <div className="p-3 space-y-3">
+        {response.type === 'order_info' && (
+          <div className="flex justify-between text-gray-700">
+            <span>{formatDate(response.data.date_created)}</span>
+            <span className="font-semibold">
+              {formatAmount(response.data.total_amount, typeof response.data.currency_id === 'string' ? response.data.currency_id : null)}
+            </span>
+          </div>
+        )}
+        {response.shipment && <Shipment shipment={response.shipment} detailed={response.type === 'shipment_info'} />}
+        {response.type === 'order_info' && response.shipment && (
+          <button
+            onClick={() => onAsk(`seguimiento del envío del pedido ${orderId}`)}
+            className="text-xs text-blue-700 hover:underline"
+          >
+            Track shipment
+          </button>
+        )}
+        <Timeline entries={response.timeline} />
+      </div>
+    </div>
+  );
+}
+
+function StatusPill({ status, label }: { status: string; label: string }) {
+  return (
+    <span className={`ml-auto px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[status] ?? 'bg-gray-100 text-gray-700'}`}>
+      {label}
+    </span>
+  );
+}
+
+function Shipment({ shipment, detailed }: { shipment: ShipmentSummary; detailed: boolean }) {
+  const reached = SHIPMENT_STEPS.findIndex(step => step.status === shipment.status);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Truck className="w-4 h-4 text-gray-400" />
+        <span className="text-gray-800">{shipment.statusLabel}</span>
+        {shipment.substatus && <span className="text-xs text-gray-400">{shipment.substatus.replace(/_/g, ' ')}</span>}
+      </div>
+      {detailed && reached >= 0 && (
+        <div className="flex gap-1">
+          {SHIPMENT_STEPS.map((step, index) => (
+            <div key={step.status} className="flex-1">
+              <div className={`h-1.5 rounded-full ${index <= reached ? 'bg-blue-500' : 'bg-gray-200'}`} />
+              <p className={`mt-1 text-[10px] ${index <= reached ? 'text-blue-700' : 'text-gray-400'}`}>{step.label}</p>
+            </div>
+          ))}
+        </div>
+      )}
+      {detailed && (
+        <dl className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs">
+          {shipment.carrier && (<><dt className="text-gray-500">Carrier</dt><dd className="text-gray-800">{shipment.carrier}</dd></>)}
+          {shipment.trackingNumber && (<><dt className="text-gray-500">Tracking number</dt><dd className="font-mono text-gray-800">{shipment.trackingNumber}</dd></>)}
+          {shipment.service && (<><dt className="text-gray-500">Service</dt><dd className="text-gray-800">{shipment.service}</dd></>)}
+          {shipment.estimatedDelivery && shipment.status !== 'delivered' && (
+            <><dt className="text-gray-500">Estimated delivery</dt><dd className="text-gray-800">{formatDate(shipment.estimatedDelivery)}</dd></>
+          )}
+        </dl>
+      )}
+    </div>
+  );
+}
+
+function Timeline({ entries }: { entries: TimelineEntry[] }) {
+  if (entries.length === 0) return null;
+
+  return (
+    <ol className="border-l-2 border-gray-100 ml-1.5 space-y-2">
+      {entries.map((entry, index) => {
+        const Icon = index === entries.length - 1 ? CheckCircle : SOURCE_ICONS[entry.source];
+        return (
+          <li key={`${entry.at}-${entry.status}-${index}`} className="flex items-start gap-2 -ml-[9px]">
+            <span className="bg-white">
+              <Icon className={`w-4 h-4 ${index === entries.length - 1 ? 'text-teal-600' : 'text-gray-400'}`} />
+            </span>
+            <span className="flex-1 text-gray-700">{entry.label}</span>
+            <span className="text-xs text-gray-400 whitespace-nowrap">{formatDate(entry.at, true)}</span>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+function OrderList({ response, onAsk }: { response: OrderListResponse; onAsk: (message: string) => void }) {
+  const buyer = response.buyer.nickname ?? response.buyer.id ?? 'buyer';
+
+  return (
+    <div className="border rounded-xl overflow-hidden text-sm">
+      <div className="flex items-center gap-2 px-3 py-2 bg-gray-50 border-b">
+        <PackageSearch className="w-4 h-4 text-yellow-700" />
+        <span className="font-semibold text-gray-900">Recent orders of {buyer}</span>
+      </div>
+      {response.orders.length === 0 ? (
+        <p className="p-3 text-gray-500">No orders found for this buyer.</p>
+      ) : (
+        <ul className="divide-y">
+          {response.orders.map((order: OrderSummary) => (
+            <li key={order.id}>
+              <button
+                onClick={() => onAsk(`pedido ${order.id}`)}
+                className="w-full flex items-center gap-3 px-3 py-2 text-left hover:bg-yellow-50 transition-colors"
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="font-mono text-xs text-gray-500">{order.id}</p>
+                  <p className="text-gray-800 truncate">{order.title ?? 'Order'}</p>
+                </div>
+                <div className="text-right">
+                  <p className="font-medium text-gray-900">{formatAmount(order.total, order.currency)}</p>
+                  <p className="text-xs text-gray-500">{formatDate(order.date)}</p>
+                </div>
+                <StatusPill status={order.status} label={order.statusLabel} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default OrderCard;
@@ -0,0 +1,75 @@
+import { ExternalLink, Search, ShoppingBag } from 'lucide-react';
+import { ProductMatch, ProductSearchResponse } from '../chatbotClient';
+
+interface ProductResultsProps {
+  response: ProductSearchResponse;
+  /** Send a chat message, e.g. to open one of the listings */
+  onAsk: (message: string) => void;
+}
+
+/**
+ * Our listings that matched a product question, with their price in the
+ * site's currency and the stock left.
+ */
+function ProductResults({ response, onAsk }: ProductResultsProps) {
+  return (
+    <div className="border rounded-xl overflow-hidden text-sm">
+      <div className="flex items-center gap-2 px-3 py-2 bg-gray-50 border-b">
+        <Search className="w-4 h-4 text-emerald-700" />
+        <span className="font-semibold text-gray-900">"{response.query}"</span>
+        <span className="ml-auto text-xs text-gray-500">
+          {response.results.length < response.total
+            ? `${response.results.length} of ${response.total} listings`
+            : `${response.total} ${response.total === 1 ? 'listing' : 'listings'}`}
+        </span>
+      </div>
+      <ul className="divide-y">
+        {response.results.map(item => (
+          <ProductRow key={item.id} item={item} onAsk={onAsk} />
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function ProductRow({ item, onAsk }: { item: ProductMatch; onAsk: (message: string) => void }) {
+  return (
+    <li className="flex items-center gap-3 px-3 py-2">
+      {item.thumbnail ? (
+        <img src={item.thumbnail} alt="" className="w-10 h-10 rounded object-cover bg-gray-100 shrink-0" />
+      ) : (
+        <span className="w-10 h-10 rounded bg-gray-100 flex items-center justify-center shrink-0">
+          <ShoppingBag className="w-4 h-4 text-gray-400" />
+        </span>
+      )}
+      <button
+        onClick={() => onAsk(`¿Hay stock de ${item.id}?`)}
+        className="flex-1 min-w-0 text-left hover:text-emerald-700"
+      >
+        <p className="text-gray-800 truncate">{item.title}</p>
+        <p className="font-mono text-xs text-gray-500">{item.id}</p>
+      </button>
+      <div className="text-right">
+        <p className="font-medium text-gray-900">{item.priceLabel}</p>
+        {item.availableQuantity !== null && (
+          <p className={`text-xs ${item.availableQuantity > 0 ? 'text-gray-500' : 'text-red-600'}`}>
+            {item.availableQuantity > 0 ? `${item.availableQuantity} in stock` : 'Out of stock'}
+          </p>
+        )}
+      </div>
+      {item.permalink && (
+        <a
+          href={item.permalink}
+          target="_blank"
+          rel="noreferrer"
+          title="Open the listing"
+          className="text-gray-400 hover:text-gray-700"
+        >
+          <ExternalLink className="w-4 h-4" />
+        </a>
+      )}
+    </li>
+  );
+}
+
+export default ProductResults;
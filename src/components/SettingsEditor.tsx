@@ -0,0 +1,456 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  AlertCircle,
+  CheckCircle,
+  Languages,
+  Loader2,
+  Lock,
+  RotateCcw,
+  Save,
+  SlidersHorizontal,
+  Undo2
+} from 'lucide-react';
+import {
+  ChatbotClient,
+  ChatbotClientError,
+  LanguageCode,
+  SettingField,
+  SettingsReport,
+  SettingTranslations,
+  SettingValue,
+  ValidationIssue
+} from '../chatbotClient';
+import TranslationCoverage from './TranslationCoverage';
+
+interface SettingsEditorProps {
+  client: ChatbotClient;
+  onUnauthorized: () => void;
+  /** Show the saved values without the controls that change them */
+  readOnly?: boolean;
+}
+
+const GROUPS = [
+  { id: 'business_hours', label: 'Business hours' },
+  { id: 'messages', label: 'Messages' },
+  { id: 'ai', label: 'AI' },
+  { id: 'intents', label: 'Intent routing' },
+  { id: 'knowledge', label: 'Knowledge base' },
+  { id: 'sessions', label: 'Sessions and escalation' },
+  { id: 'security', label: 'Sign-in and rate limits' },
+  { id: 'mercadolibre', label: 'MercadoLibre' },
+  { id: 'languages', label: 'Languages' }
+];
+
+// business_days order, Monday first as the week reads
+const DAY_CODES = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+type Draft = Record<string, string>;
+
+const toDraft = (report: SettingsReport): Draft =>
+  Object.fromEntries(report.fields.map(field => [field.key, String(report.values[field.key] ?? '')]));
+
+// Translations keyed "pt:footer_message", like the Valor (pt) cell of that row
+type TranslationDraft = Record<string, string>;
+
+const toTranslationDraft = (report: SettingsReport): TranslationDraft =>
+  Object.fromEntries(Object.entries(report.translations).flatMap(([language, texts]) =>
+    Object.entries(texts ?? {}).map(([key, text]) => [`${language}:${key}`, text])));
+
+const asText = (value: SettingValue | undefined) => value === undefined ? '' : String(value);
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+/** Same rules as ConfigService.checkValue, to flag problems while typing */
+function checkField(field: SettingField, value: string): string | null {
+  switch (field.type) {
+    case 'integer': {
+      const number = Number(value);
+      if (value.trim() === '' || !Number.isInteger(number)) return 'Must be a whole number';
+      if ((field.min !== undefined && number < field.min) || (field.max !== undefined && number > field.max)) {
+        return `Must be between ${field.min} and ${field.max}`;
+      }
+      return null;
+    }
+    case 'text':
+      if (value.trim() === '') return 'Must not be empty';
+      return field.maxLength !== undefined && value.length > field.maxLength ? `Must be at most ${field.maxLength} characters` : null;
+    case 'time':
+      return /^([01]\d|2[0-3]):[0-5]\d$/.test(value) || value === '24:00' ? null : 'Must be a time like 09:00';
+    case 'enum':
+      return field.options?.includes(value) ? null : `Must be one of: ${field.options?.join(', ')}`;
+    case 'days':
+      return splitList(value).length === 0 ? 'Must list at least one day' : null;
+    case 'list': {
+      const items = splitList(value).map(item => item.toLowerCase());
+      const unknown = items.filter(item => !field.options?.includes(item));
+      if (unknown.length > 0) return `Unknown ${unknown.join(', ')}; use ${field.options?.join(', ')}`;
+      return new Set(items).size !== items.length ? 'Lists a value twice' : null;
+    }
+    default:
+      return null;
+  }
+}
+
+interface FieldInputProps {
+  field: SettingField;
+  value: string;
+  onChange: (value: string) => void;
+  invalid: boolean;
+}
+
+function FieldInput({ field, value, onChange, invalid }: FieldInputProps) {
+  const inputClass = `w-full px-3 py-2 border rounded-lg text-sm ${invalid ? 'border-red-300 bg-red-50' : ''}`;
+
+  switch (field.type) {
+    case 'text':
+      return <textarea value={value} onChange={e => onChange(e.target.value)} rows={2} className={inputClass} />;
+
+    case 'integer':
+      return (
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            value={value}
+            min={field.min}
+            max={field.max}
+            onChange={e => onChange(e.target.value)}
+            className={`${inputClass} max-w-[10rem]`}
+          />
+          {field.unit && <span className="text-sm text-gray-500">{field.unit}</span>}
+        </div>
+      );
+
+    case 'time':
+      return <input type="time" value={value} onChange={e => onChange(e.target.value)} className={`${inputClass} max-w-[10rem]`} />;
+
+    case 'enum':
+      return (
+        <select value={value} onChange={e => onChange(e.target.value)} className={`${inputClass} max-w-[14rem]`}>
+          {!field.options?.includes(value) && <option value={value}>{value || '—'}</option>}
+          {field.options?.map(option => <option key={option} value={option}>{option}</option>)}
+        </select>
+      );
+
+    case 'days': {
+      const active = splitList(value);
+      const toggle = (day: string) => onChange(
+        DAY_CODES.filter(code => code === day ? !active.includes(code) : active.includes(code)).join(',')
+      );
+      return (
+        <div className="flex flex-wrap gap-1">
+          {DAY_CODES.map(day => (
+            <button
+              key={day}
+              onClick={() => toggle(day)}
+              className={`px-3 py-1.5 rounded-lg text-sm border ${
+                active.includes(day) ? 'bg-slate-700 text-white border-slate-700' : 'text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              {day}
+            </button>
+          ))}
+        </div>
+      );
+    }
+
+    default:
+      return (
+        <input
+          value={value}
+          onChange={e => onChange(e.target.value)}
+          placeholder={field.type === 'list' ? field.options?.join(',') : undefined}
+          className={inputClass}
+        />
+      );
+  }
+}
+
+function SettingsEditor({ client, onUnauthorized, readOnly = false }: SettingsEditorProps) {
+  const [report, setReport] = useState<SettingsReport | null>(null);
+  const [draft, setDraft] = useState<Draft>({});
+  const [translationDraft, setTranslationDraft] = useState<TranslationDraft>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [issues, setIssues] = useState<ValidationIssue[]>([]);
+  const [savedAt, setSavedAt] = useState<Date | null>(null);
+
+  const handleError = useCallback((err: unknown) => {
+    if (err instanceof ChatbotClientError && err.kind === 'unauthorized') {
+      onUnauthorized();
+      return;
+    }
+    if (err instanceof ChatbotClientError && err.kind === 'validation') {
+      setIssues(err.issues);
+    }
+    setError(err instanceof Error ? err.message : String(err));
+  }, [onUnauthorized]);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const next = await client.getSettings();
+      setReport(next);
+      setDraft(toDraft(next));
+      setTranslationDraft(toTranslationDraft(next));
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setLoading(false);
+    }
+  }, [client, handleError]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-16 text-gray-500">
+        <Loader2 className="w-6 h-6 animate-spin" />
+      </div>
+    );
+  }
+
+  const fields = report?.fields ?? [];
+  const saved = (key: string) => asText(report?.values[key]);
+  const changedKeys = fields.map(field => field.key).filter(key => draft[key] !== saved(key));
+  const localProblems = Object.fromEntries(fields
+    .filter(field => changedKeys.includes(field.key))
+    .map(field => [field.key, checkField(field, draft[field.key])]));
+
+  const translatable = fields.filter(field => field.translatable);
+  const otherLanguages = (report?.languages ?? []).filter(language => language.code !== report?.defaultLanguage);
+  const savedTranslation = (language: LanguageCode, key: string) => report?.translations[language]?.[key] ?? '';
+  const translationOf = (language: LanguageCode, key: string) => translationDraft[`${language}:${key}`] ?? '';
+  const changedTranslations = otherLanguages.flatMap(language => translatable
+    .filter(field => translationOf(language.code, field.key) !== savedTranslation(language.code, field.key))
+    .map(field => ({ language: language.code, key: field.key })));
+  const translationProblem = (language: LanguageCode, field: SettingField) => {
+    const text = translationOf(language, field.key);
+    return field.maxLength !== undefined && text.length > field.maxLength ? `Must be at most ${field.maxLength} characters` : null;
+  };
+  const coverage = Object.fromEntries(otherLanguages.map(language =>
+    [language.code, translatable.filter(field => translationOf(language.code, field.key).trim()).length]));
+  const unsaved = changedKeys.length + changedTranslations.length;
+
+  // Problems with what is in the sheet only matter until the value is edited
+  const problemsFor = (key: string) => {
+    const local = localProblems[key];
+    if (local) return [local];
+    const reported = issues.filter(issue => issue.field === key).map(issue => issue.message);
+    if (reported.length > 0 || changedKeys.includes(key)) return reported;
+    return (report?.errors ?? []).filter(issue => issue.field === key).map(issue => issue.message);
+  };
+
+  // Keys in the sheet that no schema entry matches, usually a misspelling
+  const unknownKeys = (report?.errors ?? []).filter(issue => !fields.some(field => field.key === issue.field));
+  const blocked = Object.values(localProblems).some(Boolean)
+    || changedTranslations.some(({ language, key }) => translationProblem(language, fields.find(field => field.key === key)!));
+
+  const edit = (key: string, value: string) => {
+    setIssues(prev => prev.filter(issue => issue.field !== key));
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const editTranslation = (language: LanguageCode, key: string, value: string) => {
+    setIssues(prev => prev.filter(issue => issue.field !== key));
+    setTranslationDraft(prev => ({ ...prev, [`${language}:${key}`]: value }));
+  };
+
+  const discard = () => {
+    if (report) {
+      setDraft(toDraft(report));
+      setTranslationDraft(toTranslationDraft(report));
+    }
+    setIssues([]);
+    setError(null);
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    setIssues([]);
+    try {
+      const values = Object.fromEntries(changedKeys.map(key => {
+        const field = fields.find(item => item.key === key);
+        return [key, field?.type === 'integer' ? Number(draft[key]) : draft[key]];
+      }));
+      const translations: SettingTranslations = {};
+      changedTranslations.forEach(({ language, key }) => {
+        translations[language] = { ...translations[language], [key]: translationOf(language, key) };
+      });
+      const next = await client.updateSettings(values, translations);
+      setReport(next);
+      setDraft(toDraft(next));
+      setTranslationDraft(toTranslationDraft(next));
+      setSavedAt(new Date());
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center bg-gradient-to-r from-slate-50 to-gray-100 rounded-xl p-8">
+        <div className="flex justify-center mb-4">
+          <SlidersHorizontal className="w-16 h-16 text-slate-600" />
+        </div>
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Settings</h2>
+        <p className="text-gray-600">The Settings sheet, checked against the schema the backend reads it with</p>
+      </div>
+
+      {/* Save bar */}
+      <div className="sticky top-4 z-10 bg-white rounded-xl shadow-sm border p-4 flex flex-wrap items-center gap-3">
+        <div className="text-sm">
+          {unsaved > 0 ? (
+            <span className="text-amber-700">{unsaved} unsaved {unsaved === 1 ? 'change' : 'changes'}</span>
+          ) : savedAt ? (
+            <span className="inline-flex items-center gap-1.5 text-green-700">
+              <CheckCircle className="w-4 h-4" />
+              Saved at {savedAt.toLocaleTimeString()}
+            </span>
+          ) : report && report.errors.length > 0 ? (
+            <span className="text-red-700">{report.errors.length} {report.errors.length === 1 ? 'problem' : 'problems'} in the sheet</span>
+          ) : null}
+        </div>
+        {readOnly ? (
+          <span className="ml-auto inline-flex items-center gap-1.5 text-sm text-gray-500">
+            <Lock className="w-4 h-4" />
+            View only
+          </span>
+        ) : (
+          <div className="ml-auto flex items-center gap-2">
+            <button
+              onClick={discard}
+              disabled={unsaved === 0 || saving}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm text-gray-600 hover:bg-gray-100 disabled:opacity-40"
+            >
+              <Undo2 className="w-4 h-4" />
+              Discard
+            </button>
+            <button
+              onClick={save}
+              disabled={unsaved === 0 || blocked || saving}
+              className="inline-flex items-center gap-1.5 px-4 py-1.5 rounded-lg text-sm font-medium bg-slate-700 text-white hover:bg-slate-800 disabled:opacity-40"
+            >
+              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              Save settings
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-4 flex items-start gap-2 text-sm text-red-800">
+          <AlertCircle className="w-5 h-5 shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {unknownKeys.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 text-sm text-amber-900">
+          <p className="font-medium mb-1">Keys in the Settings sheet the chatbot does not read</p>
+          <ul className="list-disc list-inside">
+            {unknownKeys.map(issue => <li key={issue.field}><code>{issue.field}</code> — {issue.message}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <fieldset disabled={readOnly} className="space-y-6 min-w-0">
+        {GROUPS.map(group => {
+          const groupFields = fields.filter(field => field.group === group.id && field.type !== 'shifts');
+          if (groupFields.length === 0) return null;
+
+          return (
+            <div key={group.id} className="bg-white rounded-xl shadow-sm border p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-1">{group.label}</h3>
+              {group.id === 'messages' && report && otherLanguages.length > 0 && (
+                <div className="mb-2">
+                  <TranslationCoverage
+                    languages={report.languages}
+                    defaultLanguage={report.defaultLanguage}
+                    counts={coverage}
+                    total={translatable.length}
+                  />
+                </div>
+              )}
+              {group.id === 'business_hours' && (
+                <p className="text-xs text-gray-500 mb-2">
+                  Per-day shifts (hours_mon … hours_sun) and holidays are edited in the Hours tab.
+                </p>
+              )}
+              <div className="divide-y">
+                {groupFields.map(field => {
+                  const value = draft[field.key] ?? '';
+                  const problems = problemsFor(field.key);
+                  const fromDefault = field.default !== undefined && value !== asText(field.default);
+                  const translationChanged = changedTranslations.some(change => change.key === field.key);
+
+                  return (
+                    <div key={field.key} className="py-4 grid grid-cols-1 md:grid-cols-5 gap-3">
+                      <div className="md:col-span-2">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <code className="text-sm font-medium text-gray-900">{field.key}</code>
+                          {(changedKeys.includes(field.key) || translationChanged) && (
+                            <span className="px-1.5 py-0.5 rounded text-xs bg-amber-100 text-amber-800">unsaved</span>
+                          )}
+                          {fromDefault && (
+                            <span className="px-1.5 py-0.5 rounded text-xs bg-slate-100 text-slate-700">custom</span>
+                          )}
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">{field.description}</p>
+                      </div>
+                      <div className="md:col-span-3 space-y-1">
+                        <FieldInput field={field} value={value} onChange={next => edit(field.key, next)} invalid={problems.length > 0} />
+                        {problems.map(problem => (
+                          <span key={problem} className="block text-xs text-red-700">{problem}</span>
+                        ))}
+                        {fromDefault && (
+                          <div className="flex items-center gap-2 text-xs text-gray-500">
+                            <span className="truncate">Default: {asText(field.default) || '(empty)'}</span>
+                            <button
+                              onClick={() => edit(field.key, asText(field.default))}
+                              className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-slate-700 hover:bg-slate-100"
+                            >
+                              <RotateCcw className="w-3 h-3" />
+                              Reset
+                            </button>
+                          </div>
+                        )}
+                        {field.translatable && otherLanguages.map(language => {
+                          const problem = translationProblem(language.code, field);
+                          return (
+                            <label key={language.code} className="block space-y-1 pt-1">
+                              <span className="flex items-center gap-1.5 text-xs text-gray-500">
+                                <Languages className="w-3.5 h-3.5" />
+                                {language.name}
+                                {!translationOf(language.code, field.key).trim() && ' — empty, the default language is used'}
+                              </span>
+                              <textarea
+                                value={translationOf(language.code, field.key)}
+                                onChange={e => editTranslation(language.code, field.key, e.target.value)}
+                                rows={2}
+                                className={`w-full px-3 py-2 border rounded-lg text-sm ${problem ? 'border-red-300 bg-red-50' : ''}`}
+                              />
+                              {problem && <span className="block text-xs text-red-700">{problem}</span>}
+                            </label>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </fieldset>
+    </div>
+  );
+}
+
+export default SettingsEditor;
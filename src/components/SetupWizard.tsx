@@ -0,0 +1,600 @@
+import { ReactNode, useCallback, useEffect, useState } from 'react';
+import {
+  AlertCircle,
+  AlertTriangle,
+  ArrowLeft,
+  ArrowRight,
+  Bot,
+  CheckCircle,
+  Circle,
+  Code,
+  Copy,
+  ExternalLink,
+  FileSpreadsheet,
+  Key,
+  Loader2,
+  MinusCircle,
+  Play,
+  RefreshCw,
+  Settings,
+  XCircle
+} from 'lucide-react';
+import { AuthSession, ChatbotClient, ChatbotClientError, DiagnosticCheck, DiagnosticStatus, DiagnosticsReport } from '../chatbotClient';
+import { usePersistentState } from '../hooks/usePersistentState';
+import SignInForm from './SignInForm';
+import WebAppConnect from './WebAppConnect';
+
+interface SetupWizardProps {
+  /** Null until the web app URL is known */
+  client: ChatbotClient | null;
+  auth: AuthSession | null;
+  onConnect: (url: string) => void;
+  onAuthChange: (auth: AuthSession | null) => void;
+}
+
+type StepId = 'spreadsheet' | 'apps-script' | 'properties' | 'initialize' | 'test';
+
+type StepState = 'done' | 'warn' | 'fail' | 'unchecked';
+
+interface SetupStep {
+  id: StepId;
+  title: string;
+  description: string;
+}
+
+/** Wizard position and the last diagnostics, kept in this browser */
+interface SetupProgress {
+  current: StepId;
+  report: DiagnosticsReport | null;
+  checkedAt: string | null;
+}
+
+const SETUP_STEPS: SetupStep[] = [
+  {
+    id: 'spreadsheet',
+    title: '1. Create Google Spreadsheet',
+    description: 'Create a new Google Sheets document for configuration'
+  },
+  {
+    id: 'apps-script',
+    title: '2. Set up Google Apps Script',
+    description: 'Create the Apps Script project, deploy it as a web app and connect this dashboard'
+  },
+  {
+    id: 'properties',
+    title: '3. Configure Script Properties',
+    description: 'Add API keys and credentials'
+  },
+  {
+    id: 'initialize',
+    title: '4. Initialize System',
+    description: 'Run setup functions to create sheets and configuration'
+  },
+  {
+    id: 'test',
+    title: '5. Test System',
+    description: 'Verify the AI and MercadoLibre connections'
+  }
+];
+
+const INITIAL_PROGRESS: SetupProgress = { current: 'spreadsheet', report: null, checkedAt: null };
+
+const STATUS_ICONS: Record<DiagnosticStatus, ReactNode> = {
+  pass: <CheckCircle className="w-5 h-5 text-green-600 shrink-0" />,
+  warn: <AlertTriangle className="w-5 h-5 text-amber-500 shrink-0" />,
+  fail: <XCircle className="w-5 h-5 text-red-600 shrink-0" />,
+  skipped: <MinusCircle className="w-5 h-5 text-gray-400 shrink-0" />
+};
+
+/** A step is done once its checks pass; skipped checks alone leave it unchecked */
+function stepState(checks: DiagnosticCheck[]): StepState {
+  if (checks.some(check => check.status === 'fail')) return 'fail';
+  if (!checks.some(check => check.status === 'pass' || check.status === 'warn')) return 'unchecked';
+  return checks.some(check => check.status === 'warn') ? 'warn' : 'done';
+}
+
+// Everything in src/ the Apps Script project needs
+const SOURCE_FILES = [
+  'main.gs', 'menuService.gs', 'aiService.gs', 'mercadolibreService.gs', 'chatService.gs', 'sheetsService.gs',
+  'configService.gs', 'loggingService.gs', 'flowService.gs', 'sessionService.gs', 'escalationService.gs',
+  'businessHoursService.gs', 'diagnosticsService.gs', 'healthService.gs', 'authService.gs',
+  'rateLimitService.gs', 'intentService.gs', 'i18nService.gs', 'knowledgeService.gs', 'channelService.gs'
+];
+
+const copyToClipboard = (text: string) => {
+  navigator.clipboard.writeText(text);
+};
+
+const SpreadsheetSetup = () => (
+  <div className="pt-4 space-y-4">
+    <div className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-3">
+      <FileSpreadsheet className="w-4 h-4" />
+      <span>Google Sheets Setup</span>
+    </div>
+    
+    <div className="space-y-3">
+      <div className="flex items-start space-x-3">
+        <div className="w-6 h-6 bg-blue-100 text-blue-800 rounded-full flex items-center justify-center text-xs font-bold">1</div>
+        <div>
+          <p className="text-sm font-medium text-gray-900">Create New Spreadsheet</p>
+          <p className="text-sm text-gray-600">Go to Google Sheets and create a new spreadsheet named "Chatbot Configuration and Logs"</p>
+        </div>
+      </div>
+      
+      <div className="flex items-start space-x-3">
+        <div className="w-6 h-6 bg-blue-100 text-blue-800 rounded-full flex items-center justify-center text-xs font-bold">2</div>
+        <div>
+          <p className="text-sm font-medium text-gray-900">Copy Spreadsheet ID</p>
+          <p className="text-sm text-gray-600">From the URL, copy the long string after '/d/' and before '/edit'</p>
+          <div className="mt-2 p-2 bg-gray-100 rounded text-xs font-mono">
+            https://docs.google.com/spreadsheets/d/<span className="bg-yellow-200">SPREADSHEET_ID_HERE</span>/edit
+          </div>
+        </div>
+      </div>
+    </div>
+
+    <a 
+      href="https://sheets.google.com" 
+      target="_blank" 
+      rel="noopener noreferrer"
+      className="inline-flex items-center space-x-2 text-blue-600 hover:text-blue-800 text-sm font-medium"
+    >
+      <ExternalLink className="w-4 h-4" />
+      <span>Open Google Sheets</span>
+    </a>
+  </div>
+);
+
+const AppsScriptSetup = () => (
+  <div className="pt-4 space-y-4">
+    <div className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-3">
+      <Code className="w-4 h-4" />
+      <span>Google Apps Script Setup</span>
+    </div>
+    
+    <div className="space-y-3">
+      <div className="flex items-start space-x-3">
+        <div className="w-6 h-6 bg-green-100 text-green-800 rounded-full flex items-center justify-center text-xs font-bold">1</div>
+        <div>
+          <p className="text-sm font-medium text-gray-900">Create New Project</p>
+          <p className="text-sm text-gray-600">Go to Google Apps Script and create a new project named "Customer Service Chatbot"</p>
+        </div>
+      </div>
+      
+      <div className="flex items-start space-x-3">
+        <div className="w-6 h-6 bg-green-100 text-green-800 rounded-full flex items-center justify-center text-xs font-bold">2</div>
+        <div>
+          <p className="text-sm font-medium text-gray-900">Upload Source Files</p>
+          <p className="text-sm text-gray-600">Delete default Code.gs and upload these files from the src/ folder:</p>
+          <div className="mt-2 grid grid-cols-2 gap-2 text-xs">
+            {SOURCE_FILES.map(file => (
+              <div key={file} className="p-2 bg-gray-100 rounded font-mono">{file}</div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-start space-x-3">
+        <div className="w-6 h-6 bg-green-100 text-green-800 rounded-full flex items-center justify-center text-xs font-bold">3</div>
+        <div>
+          <p className="text-sm font-medium text-gray-900">Deploy as Web App</p>
+          <p className="text-sm text-gray-600">Deploy → New deployment → Web app, execute as you, access for anyone. Paste the /exec URL below.</p>
+        </div>
+      </div>
+    </div>
+
+    <a 
+      href="https://script.google.com" 
+      target="_blank" 
+      rel="noopener noreferrer"
+      className="inline-flex items-center space-x-2 text-blue-600 hover:text-blue-800 text-sm font-medium"
+    >
+      <ExternalLink className="w-4 h-4" />
+      <span>Open Google Apps Script</span>
+    </a>
+  </div>
+);
+
+const PropertiesSetup = () => (
+  <div className="pt-4 space-y-4">
+    <div className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-3">
+      <Key className="w-4 h-4" />
+      <span>Script Properties Configuration</span>
+    </div>
+    
+    <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-4">
+      <div className="flex items-start space-x-2">
+        <AlertCircle className="w-5 h-5 text-yellow-600 mt-0.5" />
+        <div>
+          <p className="text-sm font-medium text-yellow-800">Required Properties</p>
+          <p className="text-sm text-yellow-700">Add these properties in Apps Script → Project Settings → Script Properties</p>
+        </div>
+      </div>
+    </div>
+
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-3">
+          <h4 className="font-medium text-gray-900">Required</h4>
+          <div className="space-y-2">
+            <div className="p-3 border rounded-lg">
+              <div className="flex justify-between items-center">
+                <code className="text-sm font-mono">SPREADSHEET_ID</code>
+                <button 
+                  onClick={() => copyToClipboard('SPREADSHEET_ID')}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <Copy className="w-4 h-4" />
+                </button>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">Your spreadsheet ID from step 1</p>
+            </div>
+            <div className="p-3 border rounded-lg">
+              <div className="flex justify-between items-center">
+                <code className="text-sm font-mono">GEMINI_API_KEY</code>
+                <button 
+                  onClick={() => copyToClipboard('GEMINI_API_KEY')}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <Copy className="w-4 h-4" />
+                </button>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">Get from Google AI Studio</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <h4 className="font-medium text-gray-900">Optional</h4>
+          <div className="space-y-2">
+            <div className="p-3 border rounded-lg">
+              <code className="text-sm font-mono">CLAUDE_API_KEY</code>
+              <p className="text-xs text-gray-500 mt-1">Anthropic Claude API</p>
+            </div>
+            <div className="p-3 border rounded-lg">
+              <code className="text-sm font-mono">ML_CLIENT_ID</code>
+              <p className="text-xs text-gray-500 mt-1">MercadoLibre integration</p>
+            </div>
+            <div className="p-3 border rounded-lg">
+              <code className="text-sm font-mono">AGENT_API_KEY, VIEWER_API_KEY</code>
+              <p className="text-xs text-gray-500 mt-1">Dashboard sign-in for agents and read-only users</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="font-medium text-gray-900">Get API Keys:</h4>
+        <div className="flex flex-wrap gap-3">
+          <a 
+            href="https://aistudio.google.com/" 
+            target="_blank" 
+            rel="noopener noreferrer"
+            className="inline-flex items-center space-x-2 px-3 py-2 bg-blue-50 text-blue-700 rounded-lg hover:bg-blue-100 text-sm"
+          >
+            <span>Gemini API</span>
+            <ExternalLink className="w-3 h-3" />
+          </a>
+          <a 
+            href="https://console.anthropic.com/" 
+            target="_blank" 
+            rel="noopener noreferrer"
+            className="inline-flex items-center space-x-2 px-3 py-2 bg-purple-50 text-purple-700 rounded-lg hover:bg-purple-100 text-sm"
+          >
+            <span>Claude API</span>
+            <ExternalLink className="w-3 h-3" />
+          </a>
+          <a 
+            href="https://developers.mercadolibre.com.ar/" 
+            target="_blank" 
+            rel="noopener noreferrer"
+            className="inline-flex items-center space-x-2 px-3 py-2 bg-yellow-50 text-yellow-700 rounded-lg hover:bg-yellow-100 text-sm"
+          >
+            <span>MercadoLibre API</span>
+            <ExternalLink className="w-3 h-3" />
+          </a>
+        </div>
+      </div>
+    </div>
+  </div>
+);
+
+const InitializeSetup = () => (
+  <div className="pt-4 space-y-4">
+    <div className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-3">
+      <Settings className="w-4 h-4" />
+      <span>System Initialization</span>
+    </div>
+    
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600">Run these functions in order in the Apps Script editor:</p>
+      
+      <div className="space-y-3">
+        <div className="flex items-start space-x-3">
+          <div className="w-6 h-6 bg-purple-100 text-purple-800 rounded-full flex items-center justify-center text-xs font-bold">1</div>
+          <div className="flex-1">
+            <div className="flex items-center justify-between">
+              <code className="text-sm font-mono bg-gray-100 px-2 py-1 rounded">setupCredentials()</code>
+              <button 
+                onClick={() => copyToClipboard('setupCredentials()')}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <Copy className="w-4 h-4" />
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Creates initial property structure</p>
+          </div>
+        </div>
+        
+        <div className="flex items-start space-x-3">
+          <div className="w-6 h-6 bg-purple-100 text-purple-800 rounded-full flex items-center justify-center text-xs font-bold">2</div>
+          <div className="flex-1">
+            <div className="flex items-center justify-between">
+              <code className="text-sm font-mono bg-gray-100 px-2 py-1 rounded">initializeSystem()</code>
+              <button 
+                onClick={() => copyToClipboard('initializeSystem()')}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <Copy className="w-4 h-4" />
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Sets up sheets and default configuration</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+        <p className="text-sm text-blue-800">
+          After running these functions, your spreadsheet will have six sheets:
+          <br />• <strong>Menu_Config</strong> - Configure chatbot options
+          <br />• <strong>Chat_Logs</strong> - Automatic interaction logging  
+          <br />• <strong>Settings</strong> - System configuration
+          <br />• <strong>Sessions</strong>, <strong>Escalations</strong>, <strong>Holidays</strong> - Conversations, agent tickets and closures
+        </p>
+      </div>
+    </div>
+  </div>
+);
+
+const TestSetup = () => (
+  <div className="pt-4 space-y-4">
+    <div className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-3">
+      <Play className="w-4 h-4" />
+      <span>System Testing</span>
+    </div>
+    
+    <div className="space-y-3">
+      <div className="flex items-start space-x-3">
+        <div className="w-6 h-6 bg-green-100 text-green-800 rounded-full flex items-center justify-center text-xs font-bold">1</div>
+        <div className="flex-1">
+          <div className="flex items-center justify-between">
+            <code className="text-sm font-mono bg-gray-100 px-2 py-1 rounded">testSystem()</code>
+            <button 
+              onClick={() => copyToClipboard('testSystem()')}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <Copy className="w-4 h-4" />
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 mt-1">Runs the deep health checks and logs each component</p>
+        </div>
+      </div>
+
+      <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+        <p className="text-sm text-green-800">
+          This function will test:
+          <br />• Menu generation and configuration
+          <br />• AI service connections (Gemini/Claude)
+          <br />• MercadoLibre API integration
+          <br />• Google Sheets operations
+          <br />The checks below run the same connection tests through the web app.
+        </p>
+      </div>
+    </div>
+  </div>
+);
+
+/**
+ * Guided setup: one step at a time, each verified against the deployed web
+ * app with the diagnostics action. Progress survives reloads.
+ */
+function SetupWizard({ client, auth, onConnect, onAuthChange }: SetupWizardProps) {
+  const [progress, setProgress] = usePersistentState<SetupProgress>('chatbot.setupProgress', INITIAL_PROGRESS);
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const verify = useCallback(async () => {
+    if (!client) return;
+    setChecking(true);
+    setError(null);
+    try {
+      const report = await client.runDiagnostics();
+      setProgress(prev => ({ ...prev, report, checkedAt: new Date().toISOString() }));
+    } catch (err) {
+      if (err instanceof ChatbotClientError && err.kind === 'unauthorized') {
+        onAuthChange(null);
+      }
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setChecking(false);
+    }
+  }, [client, onAuthChange, setProgress]);
+
+  // Re-check whenever the web app or sign-in changes, e.g. right after connecting
+  useEffect(() => {
+    verify();
+  }, [verify]);
+
+  const checksFor = (step: StepId) => progress.report?.checks.filter(check => check.step === step) ?? [];
+  const states = Object.fromEntries(SETUP_STEPS.map(step => [step.id, stepState(checksFor(step.id))])) as Record<StepId, StepState>;
+  const completed = SETUP_STEPS.filter(step => states[step.id] === 'done' || states[step.id] === 'warn').length;
+  const index = Math.max(0, SETUP_STEPS.findIndex(step => step.id === progress.current));
+  const step = SETUP_STEPS[index];
+  const checks = checksFor(step.id);
+
+  const goTo = (id: StepId) => setProgress(prev => ({ ...prev, current: id }));
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div className="text-center bg-gradient-to-r from-blue-50 to-indigo-50 rounded-xl p-8">
+        <div className="flex justify-center mb-4">
+          <Bot className="w-16 h-16 text-blue-600" />
+        </div>
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">
+          Customer Service Chatbot Setup
+        </h1>
+        <p className="text-lg text-gray-600 max-w-2xl mx-auto">
+          A comprehensive AI-powered chatbot backend with Google Apps Script, 
+          Google Sheets, and MercadoLibre integration.
+        </p>
+      </div>
+
+      {/* Progress Overview */}
+      <div className="bg-white rounded-xl shadow-sm border p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">Setup Progress</h2>
+          <span className="text-sm text-gray-500">
+            {completed} of {SETUP_STEPS.length} verified
+            {progress.checkedAt && ` · checked ${new Date(progress.checkedAt).toLocaleTimeString()}`}
+          </span>
+        </div>
+        <div className="w-full bg-gray-200 rounded-full h-3 mb-4">
+          <div 
+            className="bg-blue-600 h-3 rounded-full transition-all duration-300" 
+            style={{ width: `${(completed / SETUP_STEPS.length) * 100}%` }}
+          ></div>
+        </div>
+        {progress.report?.ready && (
+          <p className="inline-flex items-center gap-1.5 text-sm text-green-700">
+            <CheckCircle className="w-4 h-4" />
+            The deployment is ready. Try it in the Testing tab.
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 items-start">
+        {/* Steps */}
+        <nav className="bg-white rounded-xl shadow-sm border p-2">
+          {SETUP_STEPS.map(item => (
+            <button
+              key={item.id}
+              onClick={() => goTo(item.id)}
+              className={`w-full flex items-center gap-3 p-3 rounded-lg text-left transition-colors ${
+                item.id === step.id ? 'bg-blue-50' : 'hover:bg-gray-50'
+              }`}
+            >
+              {states[item.id] === 'done' && <CheckCircle className="w-6 h-6 text-green-600 shrink-0" />}
+              {states[item.id] === 'warn' && <AlertTriangle className="w-6 h-6 text-amber-500 shrink-0" />}
+              {states[item.id] === 'fail' && <XCircle className="w-6 h-6 text-red-600 shrink-0" />}
+              {states[item.id] === 'unchecked' && <Circle className="w-6 h-6 text-gray-300 shrink-0" />}
+              <span className={`text-sm font-medium ${item.id === step.id ? 'text-blue-900' : 'text-gray-700'}`}>{item.title}</span>
+            </button>
+          ))}
+        </nav>
+
+        {/* Current step */}
+        <div className="lg:col-span-2 bg-white rounded-xl shadow-sm border overflow-hidden">
+          <div className="p-6">
+            <h3 className="text-lg font-semibold text-gray-900">{step.title}</h3>
+            <p className="text-gray-600">{step.description}</p>
+          </div>
+
+          {/* Step Details */}
+          <div className="px-6 pb-6 border-t bg-gray-50">
+            {step.id === 'spreadsheet' && <SpreadsheetSetup />}
+            {step.id === 'apps-script' && <AppsScriptSetup />}
+            {step.id === 'properties' && <PropertiesSetup />}
+            {step.id === 'initialize' && <InitializeSetup />}
+            {step.id === 'test' && <TestSetup />}
+          </div>
+
+          {/* Verification */}
+          <div className="p-6 border-t space-y-4">
+            <div className="flex items-center justify-between">
+              <h4 className="font-medium text-gray-900">Verification</h4>
+              {client && (
+                <button
+                  onClick={verify}
+                  disabled={checking}
+                  className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm border text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  {checking ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                  Check again
+                </button>
+              )}
+            </div>
+
+            {!client ? (
+              step.id === 'apps-script'
+                ? <WebAppConnect onConnect={onConnect} />
+                : <p className="text-sm text-gray-500">Connect the deployed web app in step 2 to verify this step automatically.</p>
+            ) : (
+              <>
+                {error && (
+                  <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-start gap-2 text-sm text-red-800">
+                    <AlertCircle className="w-5 h-5 shrink-0" />
+                    <span>
+                      Could not reach the web app: {error}. Check the URL and that the deployment allows access by anyone.
+                      <button onClick={() => onConnect('')} className="ml-2 underline">Change URL</button>
+                    </span>
+                  </div>
+                )}
+                {checks.length === 0 && !error && !checking && (
+                  <p className="text-sm text-gray-500">No results yet.</p>
+                )}
+                <ul className="space-y-3">
+                  {checks.map(check => (
+                    <li key={check.id} className="flex items-start gap-3">
+                      {STATUS_ICONS[check.status]}
+                      <div className="text-sm">
+                        <p className="font-medium text-gray-900">{check.title}</p>
+                        <p className="text-gray-600">{check.message}</p>
+                        {check.fix && check.status !== 'pass' && (
+                          <p className="mt-1 text-gray-800 bg-gray-50 rounded px-2 py-1">{check.fix}</p>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+                {/* Connection tests are skipped without an admin token */}
+                {step.id === 'test' && client && (auth?.role !== 'admin' || checks.some(check => check.id === 'ai' && check.status === 'skipped')) && (
+                  <div className="space-y-1">
+                    <p className="text-xs text-gray-500">Sign in with ADMIN_API_KEY to run the connection tests.</p>
+                    <SignInForm client={client} onSignIn={onAuthChange} compact />
+                  </div>
+                )}
+              </>
+            )}
+
+            <div className="flex justify-between pt-2">
+              <button
+                onClick={() => goTo(SETUP_STEPS[index - 1].id)}
+                disabled={index === 0}
+                className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm text-gray-600 hover:bg-gray-100 disabled:opacity-40"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                Back
+              </button>
+              {index < SETUP_STEPS.length - 1 && (
+                <button
+                  onClick={() => goTo(SETUP_STEPS[index + 1].id)}
+                  className={`inline-flex items-center gap-1.5 px-4 py-1.5 rounded-lg text-sm font-medium ${
+                    states[step.id] === 'done' || states[step.id] === 'warn'
+                      ? 'bg-blue-600 text-white hover:bg-blue-700'
+                      : 'text-blue-700 hover:bg-blue-50'
+                  }`}
+                >
+                  Next
+                  <ArrowRight className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default SetupWizard;
@@ -0,0 +1,79 @@
+import { FormEvent, useState } from 'react';
+import { AlertCircle, Loader2, LogIn } from 'lucide-react';
+import { AuthSession, ChatbotClient, ChatbotClientError } from '../chatbotClient';
+import { usePersistentState } from '../hooks/usePersistentState';
+
+interface SignInFormProps {
+  client: ChatbotClient;
+  onSignIn: (auth: AuthSession) => void;
+  /** Single-row layout for use inside other panels */
+  compact?: boolean;
+}
+
+/**
+ * Exchanges a role's access key for a dashboard token. The name is kept for
+ * next time; the key is sent once and never stored.
+ */
+function SignInForm({ client, onSignIn, compact = false }: SignInFormProps) {
+  const [user, setUser] = usePersistentState('chatbot.userName', '');
+  const [key, setKey] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      onSignIn(await client.login(user.trim(), key.trim()));
+      setKey('');
+    } catch (err) {
+      if (err instanceof ChatbotClientError && err.kind === 'unauthorized') {
+        setError('That access key does not match any role.');
+      } else {
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className={compact ? 'flex flex-col sm:flex-row gap-2' : 'space-y-3'}>
+        <input
+          required
+          value={user}
+          onChange={e => setUser(e.target.value)}
+          placeholder="Your name"
+          maxLength={50}
+          className="flex-1 w-full px-3 py-2 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        <input
+          type="password"
+          required
+          value={key}
+          onChange={e => setKey(e.target.value)}
+          placeholder="Access key"
+          className="flex-1 w-full px-3 py-2 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        <button
+          type="submit"
+          disabled={busy}
+          className="inline-flex items-center justify-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <LogIn className="w-4 h-4" />}
+          Sign in
+        </button>
+      </div>
+      {error && (
+        <p className="flex items-center gap-1.5 text-sm text-red-700">
+          <AlertCircle className="w-4 h-4 shrink-0" />
+          {error}
+        </p>
+      )}
+    </form>
+  );
+}
+
+export default SignInForm;
@@ -0,0 +1,255 @@
+import { ReactNode, useCallback, useEffect, useState } from 'react';
+import {
+  Activity,
+  AlertCircle,
+  AlertTriangle,
+  CheckCircle,
+  History,
+  Loader2,
+  MinusCircle,
+  RefreshCw,
+  Stethoscope,
+  XCircle
+} from 'lucide-react';
+import { ChatbotClient, ChatbotClientError, HealthReport, HealthStatus } from '../chatbotClient';
+import { usePersistentState } from '../hooks/usePersistentState';
+
+interface StatusPageProps {
+  client: ChatbotClient;
+  /** Deep checks call external APIs and need an admin token */
+  canDeepCheck: boolean;
+  onUnauthorized: () => void;
+}
+
+/** A stretch of time a component was degraded or down, as seen by this browser */
+interface Outage {
+  component: string;
+  status: 'degraded' | 'down';
+  error: string | null;
+  startedAt: string;
+  /** Null while still ongoing */
+  endedAt: string | null;
+}
+
+// How often the cheap checks run while the page is open
+const POLL_INTERVAL_MS = 60000;
+// Closed outages kept in localStorage; ongoing ones are always kept
+const MAX_OUTAGES = 20;
+// Pseudo-component for polls that never reached the web app
+const WEB_APP = 'web_app';
+
+const STATUS_ICONS: Record<HealthStatus, ReactNode> = {
+  ok: <CheckCircle className="w-5 h-5 text-green-600 shrink-0" />,
+  degraded: <AlertTriangle className="w-5 h-5 text-amber-500 shrink-0" />,
+  down: <XCircle className="w-5 h-5 text-red-600 shrink-0" />,
+  skipped: <MinusCircle className="w-5 h-5 text-gray-400 shrink-0" />
+};
+
+const BANNERS: Record<HealthReport['status'], { label: string; className: string }> = {
+  ok: { label: 'All systems operational', className: 'bg-green-50 border-green-200 text-green-800' },
+  degraded: { label: 'Degraded: some components need attention', className: 'bg-amber-50 border-amber-200 text-amber-800' },
+  down: { label: 'Down: customers cannot be served', className: 'bg-red-50 border-red-200 text-red-800' }
+};
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString();
+
+const formatDuration = (from: string, to: string) => {
+  const minutes = Math.round((new Date(to).getTime() - new Date(from).getTime()) / 60000);
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
+
+/**
+ * Open an outage for each failing component and close the ones that are ok again.
+ * Skipped components were not checked, so they leave their outages as they are.
+ */
+function trackOutages(history: Outage[], results: { name: string; status: HealthStatus; error: string | null }[], at: string): Outage[] {
+  let next = history.map(outage => {
+    const result = results.find(entry => entry.name === outage.component);
+    if (outage.endedAt || !result) return outage;
+    if (result.status === 'ok') return { ...outage, endedAt: at };
+    if (result.status === 'down' || result.status === 'degraded') {
+      return { ...outage, status: result.status === 'down' ? 'down' as const : outage.status, error: result.error ?? outage.error };
+    }
+    return outage;
+  });
+
+  results.forEach(result => {
+    if ((result.status === 'down' || result.status === 'degraded') &&
+      !next.some(outage => outage.component === result.name && !outage.endedAt)) {
+      next = [{ component: result.name, status: result.status, error: result.error, startedAt: at, endedAt: null }, ...next];
+    }
+  });
+
+  const closed = next.filter(outage => outage.endedAt);
+  return closed.length > MAX_OUTAGES ? next.filter(outage => !outage.endedAt || closed.indexOf(outage) < MAX_OUTAGES) : next;
+}
+
+function StatusPage({ client, canDeepCheck, onUnauthorized }: StatusPageProps) {
+  const [report, setReport] = useState<HealthReport | null>(null);
+  const [outages, setOutages] = usePersistentState<Outage[]>('chatbot.outages', []);
+  const [loading, setLoading] = useState<'cheap' | 'deep' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [checkedAt, setCheckedAt] = useState<string | null>(null);
+
+  const check = useCallback(async (deep: boolean) => {
+    setLoading(deep ? 'deep' : 'cheap');
+    setError(null);
+    const at = new Date().toISOString();
+
+    try {
+      const next = await client.getHealth(deep);
+      setReport(next);
+      setOutages(history => trackOutages(history, [
+        { name: WEB_APP, status: 'ok', error: null },
+        ...next.components
+      ], at));
+    } catch (err) {
+      if (err instanceof ChatbotClientError && err.kind === 'unauthorized') {
+        onUnauthorized();
+      } else {
+        const message = err instanceof Error ? err.message : String(err);
+        setError(message);
+        setOutages(history => trackOutages(history, [{ name: WEB_APP, status: 'down', error: message }], at));
+      }
+    } finally {
+      setCheckedAt(at);
+      setLoading(null);
+    }
+  }, [client, onUnauthorized, setOutages]);
+
+  useEffect(() => {
+    check(false);
+    const timer = setInterval(() => check(false), POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [check]);
+
+  const ongoing = outages.filter(outage => !outage.endedAt);
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center bg-gradient-to-r from-teal-50 to-cyan-50 rounded-xl p-8">
+        <div className="flex justify-center mb-4">
+          <Activity className="w-16 h-16 text-teal-600" />
+        </div>
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">System Status</h2>
+        <p className="text-gray-600">Live health of every component the chatbot depends on</p>
+      </div>
+
+      {/* Check bar */}
+      <div className="sticky top-4 z-10 bg-white rounded-xl shadow-sm border p-4 flex flex-wrap items-center gap-3">
+        <div className="text-sm text-gray-500">
+          {checkedAt ? `Checked ${formatTime(checkedAt)}` : 'Checking…'} · refreshed every {POLL_INTERVAL_MS / 1000} s
+        </div>
+        <div className="ml-auto flex gap-2">
+          <button
+            onClick={() => check(false)}
+            disabled={loading !== null}
+            className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm border text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            {loading === 'cheap' ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            Refresh
+          </button>
+          <button
+            onClick={() => check(true)}
+            disabled={loading !== null || !canDeepCheck}
+            title={canDeepCheck ? 'Calls the AI providers and MercadoLibre' : 'Sign in as an admin to run deep checks'}
+            className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm bg-teal-600 text-white hover:bg-teal-700 disabled:opacity-50"
+          >
+            {loading === 'deep' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Stethoscope className="w-4 h-4" />}
+            Deep check
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-start gap-2 text-sm text-red-800">
+          <AlertCircle className="w-5 h-5 shrink-0" />
+          <span>Could not reach the web app: {error}</span>
+        </div>
+      )}
+
+      {report && (
+        <div className="bg-white rounded-xl shadow-sm border p-6 space-y-4">
+          <div className={`border rounded-lg p-3 flex items-center justify-between text-sm font-medium ${BANNERS[report.status].className}`}>
+            <span>{BANNERS[report.status].label}</span>
+            <span className="text-xs font-normal">
+              {report.deep ? 'Deep check' : 'Cheap checks'} · {report.latencyMs} ms
+            </span>
+          </div>
+
+          <ul className="divide-y">
+            {report.components.map(component => (
+              <li key={component.name} className="py-3 flex items-start gap-3">
+                {STATUS_ICONS[component.status]}
+                <div className="flex-1 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono text-gray-900">{component.name}</span>
+                    {component.critical && (
+                      <span className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-600">critical</span>
+                    )}
+                  </div>
+                  <p className="text-gray-600">{component.message}</p>
+                  {component.error && <p className="text-red-700 text-xs mt-1">{component.error}</p>}
+                </div>
+                <span className="text-xs text-gray-400 tabular-nums">{component.latencyMs} ms</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <History className="w-5 h-5 text-teal-600" />
+            <h3 className="text-lg font-semibold text-gray-900">Recent outages</h3>
+            {ongoing.length > 0 && (
+              <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">{ongoing.length} ongoing</span>
+            )}
+          </div>
+          {outages.length > 0 && (
+            <button onClick={() => setOutages(ongoing)} className="text-sm text-gray-500 hover:text-gray-900">
+              Clear resolved
+            </button>
+          )}
+        </div>
+        <p className="text-xs text-gray-400">Recorded by this browser while the status page is open; the last {MAX_OUTAGES} are kept.</p>
+
+        {outages.length === 0 ? (
+          <p className="text-sm text-gray-500 py-4 text-center">No outages seen</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 border-b">
+                  <th className="py-2 pr-4 font-medium">Component</th>
+                  <th className="py-2 pr-4 font-medium">Status</th>
+                  <th className="py-2 pr-4 font-medium">Started</th>
+                  <th className="py-2 pr-4 font-medium">Duration</th>
+                  <th className="py-2 font-medium">Error</th>
+                </tr>
+              </thead>
+              <tbody>
+                {outages.map(outage => (
+                  <tr key={`${outage.component}-${outage.startedAt}`} className="border-b last:border-0 align-top">
+                    <td className="py-2 pr-4 font-mono">{outage.component}</td>
+                    <td className="py-2 pr-4">
+                      <span className="inline-flex items-center gap-1.5">{STATUS_ICONS[outage.status]}{outage.status}</span>
+                    </td>
+                    <td className="py-2 pr-4 whitespace-nowrap">{formatTime(outage.startedAt)}</td>
+                    <td className="py-2 pr-4 whitespace-nowrap">
+                      {outage.endedAt ? formatDuration(outage.startedAt, outage.endedAt) : 'ongoing'}
+                    </td>
+                    <td className="py-2 text-xs text-gray-600">{outage.error ?? '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default StatusPage;
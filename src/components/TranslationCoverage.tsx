@@ -0,0 +1,47 @@
+import { Languages } from 'lucide-react';
+import { LanguageCode, LanguageInfo } from '../chatbotClient';
+
+interface TranslationCoverageProps {
+  languages: LanguageInfo[];
+  defaultLanguage: LanguageCode;
+  /** Translated texts per language */
+  counts: Partial<Record<LanguageCode, number>>;
+  /** Texts that can be translated */
+  total: number;
+}
+
+/**
+ * How many texts each enabled language has; customers writing in a language
+ * get the default-language text for the rest.
+ */
+function TranslationCoverage({ languages, defaultLanguage, counts, total }: TranslationCoverageProps) {
+  const others = languages.filter(language => language.code !== defaultLanguage);
+  if (others.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-5 gap-y-2 text-xs">
+      <span className="inline-flex items-center gap-1.5 text-gray-500">
+        <Languages className="w-4 h-4" />
+        Translations
+      </span>
+      {others.map(language => {
+        const count = counts[language.code] ?? 0;
+        const share = total > 0 ? count / total : 1;
+        return (
+          <span key={language.code} className="inline-flex items-center gap-2" title={`${count} of ${total} texts in ${language.name}`}>
+            <span className="text-gray-700">{language.name}</span>
+            <span className="w-16 h-1.5 rounded-full bg-gray-200">
+              <span
+                className={`block h-1.5 rounded-full ${share === 1 ? 'bg-green-500' : share >= 0.5 ? 'bg-amber-400' : 'bg-red-400'}`}
+                style={{ width: `${Math.round(share * 100)}%` }}
+              />
+            </span>
+            <span className="text-gray-500">{count}/{total}</span>
+          </span>
+        );
+      })}
+    </div>
+  );
+}
+
+export default TranslationCoverage;
@@ -0,0 +1,68 @@
+import { FormEvent, useState } from 'react';
+import { Link, Server } from 'lucide-react';
+
+interface WebAppConnectProps {
+  initialUrl?: string;
+  onConnect: (url: string) => void;
+}
+
+// Served by mockBackendPlugin (mock/vitePlugin.ts) under `npm run dev`
+const MOCK_WEB_APP_PATH = '/mock/exec';
+
+/** Form that asks for the deployed web app URL before a tab can talk to it. */
+function WebAppConnect({ initialUrl = '', onConnect }: WebAppConnectProps) {
+  const [urlDraft, setUrlDraft] = useState(initialUrl);
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    onConnect(urlDraft.trim());
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-sm border p-6 space-y-4">
+      <div className="flex items-center space-x-2">
+        <Link className="w-5 h-5 text-blue-600" />
+        <h3 className="text-lg font-semibold text-gray-900">Connect to your web app</h3>
+      </div>
+      <p className="text-sm text-gray-600">
+        Paste the URL from Apps Script → Deploy → Manage deployments. It is saved in this browser.
+      </p>
+      <div className="flex flex-col sm:flex-row gap-3">
+        <input
+          type="url"
+          required
+          value={urlDraft}
+          onChange={e => setUrlDraft(e.target.value)}
+          placeholder="https://script.google.com/macros/s/.../exec"
+          className="flex-1 px-3 py-2 border rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700"
+        >
+          Connect
+        </button>
+      </div>
+      {import.meta.env.DEV && (
+        <div className="flex flex-wrap items-center gap-3 pt-3 border-t text-sm text-gray-600">
+          <Server className="w-4 h-4 text-gray-400" />
+          <span className="flex-1">
+            No deployment yet? The dev server runs the <code className="font-mono text-xs bg-gray-100 px-1 rounded">.gs</code> files
+            in memory (sign in with <code className="font-mono text-xs bg-gray-100 px-1 rounded">local-admin</code>,{' '}
+            <code className="font-mono text-xs bg-gray-100 px-1 rounded">local-agent</code> or{' '}
+            <code className="font-mono text-xs bg-gray-100 px-1 rounded">local-viewer</code>).
+          </span>
+          <button
+            type="button"
+            onClick={() => onConnect(`${window.location.origin}${MOCK_WEB_APP_PATH}`)}
+            className="px-3 py-1.5 rounded-lg text-sm text-blue-700 bg-blue-50 hover:bg-blue-100"
+          >
+            Use local mock backend
+          </button>
+        </div>
+      )}
+    </form>
+  );
+}
+
+export default WebAppConnect;
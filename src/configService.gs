@@ -14,6 +14,59 @@ const ConfigService = {
   _configCache: null,
   _cacheExpiry: null,
   _cacheTimeout: 5 * 60 * 1000, // 5 minutes
+  _translationsCache: null,
+  
+  // Every key of the Settings sheet: type, default, limits and what it does.
+  // Used to type values read from the sheet, by validateConfig and by the dashboard Settings form.
+  // Optional keys have no default and are simply absent when unset.
+  // Translatable keys may have a text per language in the Valor (xx) columns.
+  SCHEMA: {
+    business_hours_start: { type: 'time', group: 'business_hours', default: '09:00', description: 'Opening time on business_days without an hours_ setting' },
+    business_hours_end: { type: 'time', group: 'business_hours', default: '18:00', description: 'Closing time on business_days without an hours_ setting' },
+    business_days: { type: 'days', group: 'business_hours', default: 'Mon,Tue,Wed,Thu,Fri', description: 'Days open from business_hours_start to business_hours_end' },
+    timezone: { type: 'timezone', group: 'business_hours', default: '', description: 'Timezone business hours are read in; empty uses the script timezone' },
+    hours_mon: { type: 'shifts', group: 'business_hours', optional: true, description: 'Monday shifts, e.g. 09:00-13:00, 14:00-18:00; empty means closed' },
+    hours_tue: { type: 'shifts', group: 'business_hours', optional: true, description: 'Tuesday shifts; empty means closed' },
+    hours_wed: { type: 'shifts', group: 'business_hours', optional: true, description: 'Wednesday shifts; empty means closed' },
+    hours_thu: { type: 'shifts', group: 'business_hours', optional: true, description: 'Thursday shifts; empty means closed' },
+    hours_fri: { type: 'shifts', group: 'business_hours', optional: true, description: 'Friday shifts; empty means closed' },
+    hours_sat: { type: 'shifts', group: 'business_hours', optional: true, description: 'Saturday shifts; empty means closed' },
+    hours_sun: { type: 'shifts', group: 'business_hours', optional: true, description: 'Sunday shifts; empty means closed' },
+    greeting_business_hours: { type: 'text', group: 'messages', translatable: true, default: '¡Hola! Bienvenido a nuestro servicio de atención al cliente. ¿En qué puedo ayudarte?', maxLength: 1000, description: 'Menu greeting while agents are available' },
+    greeting_after_hours: { type: 'text', group: 'messages', translatable: true, default: 'Hola. Actualmente estamos fuera del horario de atención, pero puedo ayudarte con algunas consultas básicas.', maxLength: 1000, description: 'Menu greeting outside business hours; may use {next_opening} and {hours}' },
+    footer_message: { type: 'text', group: 'messages', translatable: true, default: 'Escribe el número de la opción que necesitas o describe tu consulta.', maxLength: 500, description: 'Shown under the menu options' },
+    max_ai_tokens: { type: 'integer', group: 'ai', default: 500, min: 50, max: 4000, description: 'Maximum tokens of an AI answer' },
+    default_ai_provider: { type: 'enum', group: 'ai', default: 'gemini', options: ['gemini', 'claude'], description: 'Provider tried first when ai_provider_chain is empty' },
+    ai_provider_chain: { type: 'list', group: 'ai', default: 'gemini,claude', options: ['gemini', 'claude'], description: 'Providers to try in order when one fails; empty starts with default_ai_provider' },
+    ai_timeout: { type: 'integer', group: 'ai', default: 30000, min: 1000, max: 120000, unit: 'ms', description: 'Time an AI provider has to answer before it counts as a failure' },
+    ai_failure_threshold: { type: 'integer', group: 'ai', default: 3, min: 1, max: 20, description: 'Failures in a row that open the circuit of a provider' },
+    ai_circuit_cooldown: { type: 'integer', group: 'ai', default: 300, min: 10, max: 86400, unit: 's', description: 'Time a provider with an open circuit is skipped' },
+    max_history_messages: { type: 'integer', group: 'ai', default: 20, min: 0, max: 100, description: 'Recent conversation messages sent to the AI' },
+    ai_context_tokens: { type: 'integer', group: 'ai', default: 1500, min: 100, max: 20000, description: 'Approximate tokens of history and summary sent to the AI' },
+    intent_min_score: { type: 'integer', group: 'intents', default: 50, min: 1, max: 100, unit: '%', description: 'Score an Intents rule needs to route a message; below it the message goes to the AI step or general answers' },
+    intent_ai_mode: { type: 'enum', group: 'intents', default: 'off', options: ['off', 'fallback'], description: 'fallback asks the AI provider chain to classify messages no rule is sure about' },
+    intent_ai_min_confidence: { type: 'integer', group: 'intents', default: 70, min: 1, max: 100, unit: '%', description: 'Confidence the AI classification needs to be used' },
+    knowledge_max_results: { type: 'integer', group: 'knowledge', default: 3, min: 1, max: 10, description: 'Knowledge_Base entries sent to the AI with each question' },
+    knowledge_min_confidence: { type: 'integer', group: 'knowledge', default: 50, min: 1, max: 100, unit: '%', description: 'Share of a question an entry must match to be used; with none above it the AI may only say it has no answer' },
+    escalation_timeout: { type: 'integer', group: 'sessions', default: 300, min: 60, max: 86400, unit: 's', description: 'Time an assigned ticket waits for the agent before going back to the queue' },
+    // CacheService keeps entries for 6 hours at most
+    session_timeout: { type: 'integer', group: 'sessions', default: 1800, min: 60, max: 21600, unit: 's', description: 'Inactivity after which a conversation starts over' },
+    session_rate_limit: { type: 'integer', group: 'security', default: 30, min: 1, max: 600, unit: 'per min', description: 'Menu and chat requests a session may send per minute, on average' },
+    session_rate_burst: { type: 'integer', group: 'security', default: 10, min: 1, max: 100, description: 'Requests a session may send back to back before session_rate_limit applies' },
+    global_rate_limit: { type: 'integer', group: 'security', default: 300, min: 10, max: 10000, unit: 'per min', description: 'Menu and chat requests per minute across all sessions' },
+    max_message_length: { type: 'integer', group: 'security', default: 1000, min: 50, max: 5000, unit: 'chars', description: 'Longest message a customer may send' },
+    duplicate_window: { type: 'integer', group: 'security', default: 10, min: 0, max: 600, unit: 's', description: 'Time the same message from a session is rejected as a repeat; 0 allows repeats' },
+    auth_token_ttl: { type: 'integer', group: 'security', default: 28800, min: 300, max: 604800, unit: 's', description: 'Time a dashboard sign-in lasts' },
+    ml_site_id: { type: 'enum', group: 'mercadolibre', default: 'MLA', options: ['MLA', 'MLB', 'MLM', 'MLC', 'MCO', 'MLU', 'MPE', 'MLV', 'MEC', 'MPA', 'MCR', 'MRD', 'MBO', 'MPY', 'MGT', 'MHN', 'MNI', 'MSV'], description: 'Site whose listings product search looks in, and whose currency is used when an item has none' },
+    product_search_results: { type: 'integer', group: 'mercadolibre', default: 3, min: 1, max: 10, description: 'Listings shown when a customer asks for a product by name' },
+    default_language: { type: 'enum', group: 'languages', default: 'es', options: ['es', 'pt', 'en'], description: 'Language of the Valor column and of the menu, used when a text has no translation' },
+    languages: { type: 'list', group: 'languages', default: 'es,pt,en', options: ['es', 'pt', 'en'], description: 'Languages customers are answered in; others get default_language' }
+  },
+  
+  DAY_CODES: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'],
+  
+  // Settings column of the first language's translation, in I18nService.LANGUAGES order
+  TRANSLATION_COLUMN: 4,
   
   /**
    * Get configuration value
@@ -36,6 +89,7 @@ const ConfigService = {
    * Set configuration value
    * @param {string} key - Configuration key
    * @param {*} value - Value to set
+   * @throws {Error} When the Settings sheet cannot be written
    */
   set(key, value) {
     try {
@@ -56,18 +110,40 @@ const ConfigService = {
         sheet.getRange(rowIndex, 2).setValue(value);
       } else {
         // Add new key
-        sheet.appendRow([key, value, '']);
+        sheet.appendRow([key, value, this.SCHEMA[key] ? this.SCHEMA[key].description : '']);
       }
       
       // Clear cache to force reload
-      this._configCache = null;
-      this._cacheExpiry = null;
+      this.clearCache();
       
     } catch (error) {
       Logger.log(`Error setting config for ${key}: ${error.message}`);
+      throw error;
     }
   },
   
+  /**
+   * Set the translation of a setting in a Valor (xx) column
+   * @param {string} key - Translatable settings key
+   * @param {string} language - Language code
+   * @param {string} text - Translated text; empty clears it
+   */
+  setTranslation(key, language, text) {
+    const sheet = SheetsService.getSheet(CONFIG.SHEETS.SETTINGS_SHEET);
+    const column = this.TRANSLATION_COLUMN + Object.keys(I18nService.LANGUAGES).indexOf(language);
+    
+    // Sheets created before translations lack the Valor (xx) headers
+    SheetsService.ensureHeader(CONFIG.SHEETS.SETTINGS_SHEET, column, I18nService.columnHeader('Valor', language));
+    
+    if (!sheet.getDataRange().getValues().some(row => row[0] === key)) {
+      this.set(key, this.SCHEMA[key].default);
+    }
+    
+    const rowIndex = sheet.getDataRange().getValues().findIndex(row => row[0] === key) + 1;
+    sheet.getRange(rowIndex, column).setValue(text);
+    this.clearCache();
+  },
+  
   /**
    * Get all configuration as object
    * @returns {Object} Configuration object
@@ -79,18 +155,24 @@ const ConfigService = {
         return this._configCache;
       }
       
-      const sheet = SheetsService.getSheet(CONFIG.SHEETS.SETTINGS_SHEET);
-      const data = sheet.getDataRange().getValues();
-      
-      const config = {};
+      const config = this.readSheetValues();
       
-      // Skip header row
-      for (let i = 1; i < data.length; i++) {
-        const [key, value] = data[i];
-        if (key) {
-          config[key] = this.parseConfigValue(value);
+      // Values that are not even of the right type fall back to the default; the rest are
+      // left to the services and reported by validateConfig
+      Object.keys(config).forEach(key => {
+        const problem = this.checkValue(key, config[key]);
+        if (!problem) return;
+        
+        Logger.log(`Invalid setting ${key}: ${problem}`);
+        const field = this.SCHEMA[key];
+        if (field.type === 'integer' && typeof config[key] !== 'number') {
+          if (field.optional) {
+            delete config[key];
+          } else {
+            config[key] = field.default;
+          }
         }
-      }
+      });
       
       // Cache the configuration
       this._configCache = config;
@@ -107,9 +189,25 @@ const ConfigService = {
   /**
    * Parse configuration value to appropriate type
    * @param {*} value - Raw value from sheet
+   * @param {string} key - Settings key; keys in SCHEMA get their declared type, others are guessed
    * @returns {*} Parsed value
    */
-  parseConfigValue(value) {
+  parseConfigValue(value, key) {
+    const field = this.SCHEMA[key];
+    
+    if (field && field.type === 'integer') {
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      return typeof number === 'number' && !isNaN(number) ? number : value;
+    }
+    
+    if (field) {
+      // Sheets turns a typed 09:00 into a time cell
+      if (value instanceof Date) {
+        return Utilities.formatDate(value, Session.getScriptTimeZone(), 'HH:mm');
+      }
+      return String(value ?? '').trim();
+    }
+    
     if (typeof value === 'string') {
       // Try to parse as number
       if (!isNaN(value) && !isNaN(parseFloat(value))) {
@@ -147,20 +245,22 @@ const ConfigService = {
       
       const activeDays = businessDays.split(',').map(day => daysMap[day.trim()]);
       
-      // Create schedule object
+      // Create schedule object; hours_mon … hours_sun override the single start/end pair day by day
       const schedule = {};
-      for (let i = 0; i < 7; i++) {
-        schedule[i] = {
-          open: activeDays.includes(i),
-          start: startTime,
-          end: endTime
-        };
-      }
+      BusinessHoursService.DAY_KEYS.forEach((dayKey, i) => {
+        const dayHours = config[BusinessHoursService.SETTING_PREFIX + dayKey];
+        const shifts = dayHours !== undefined
+          ? BusinessHoursService.parseShifts(dayHours)
+          : (activeDays.includes(i) ? [{ start: startTime, end: endTime }] : []);
+        
+        schedule[i] = BusinessHoursService.toDaySchedule(shifts);
+      });
       
       return {
         schedule: schedule,
-        display: `${startTime} - ${endTime}, ${businessDays}`,
-        timezone: 'America/Argentina/Buenos_Aires' // Adjust as needed
+        holidays: BusinessHoursService.getHolidays(),
+        display: BusinessHoursService.describeSchedule(schedule),
+        timezone: BusinessHoursService.getTimezone()
       };
       
     } catch (error) {
@@ -174,13 +274,9 @@ const ConfigService = {
    * @returns {Object} Greeting messages
    */
   getGreetings() {
-    const config = this.getConfig();
-    
     return {
-      businessHours: config.greeting_business_hours || 
-        '¡Hola! Bienvenido a nuestro servicio de atención al cliente. ¿En qué puedo ayudarte?',
-      afterHours: config.greeting_after_hours || 
-        'Hola. Actualmente estamos fuera del horario de atención, pero puedo ayudarte con algunas consultas básicas.'
+      businessHours: this.getText('greeting_business_hours'),
+      afterHours: this.getText('greeting_after_hours')
     };
   },
   
@@ -189,8 +285,43 @@ const ConfigService = {
    * @returns {string} Footer message
    */
   getFooterMessage() {
-    const config = this.getConfig();
-    return config.footer_message || 'Escribe el número de la opción que necesitas o describe tu consulta.';
+    return this.getText('footer_message');
+  },
+  
+  /**
+   * A translatable setting in the language of the request
+   * @param {string} key - Translatable settings key
+   * @returns {string} Its Valor (xx) text, else the Valor column, else the default
+   */
+  getText(key) {
+    const text = this.getConfig()[key] || this.SCHEMA[key].default;
+    const translations = {};
+    const all = this.getTranslations();
+    
+    Object.keys(all).forEach(language => {
+      translations[language] = all[language][key];
+    });
+    
+    return I18nService.pick(text, translations);
+  },
+  
+  /**
+   * Texts of the Valor (xx) columns, cached like the settings
+   * @returns {Object} Language code → { settings key → text }
+   */
+  getTranslations() {
+    if (this._translationsCache && this._cacheExpiry && Date.now() < this._cacheExpiry) {
+      return this._translationsCache;
+    }
+    
+    try {
+      this._translationsCache = this.readSheetTranslations();
+      return this._translationsCache;
+      
+    } catch (error) {
+      Logger.log(`Error reading translations: ${error.message}`);
+      return {};
+    }
   },
   
   /**
@@ -200,10 +331,26 @@ const ConfigService = {
   getAIConfig() {
     const config = this.getConfig();
     
+    const defaultProvider = config.default_ai_provider || 'gemini';
+    // Integer settings arrive as numbers, and 0 is a valid value for some of them
+    const contextTokenBudget = config.ai_context_tokens ?? 1500;
+    
+    // Without an explicit chain, the default provider goes first and the rest follow
+    const providerChain = config.ai_provider_chain
+      ? String(config.ai_provider_chain).split(',').map(provider => provider.trim().toLowerCase()).filter(Boolean)
+      : [defaultProvider, ...Object.values(CONFIG.AI_PROVIDERS).filter(provider => provider !== defaultProvider)];
+    
     return {
-      defaultProvider: config.default_ai_provider || 'gemini',
-      maxTokens: config.max_ai_tokens || 500,
-      timeout: config.ai_timeout || 30000
+      defaultProvider: defaultProvider,
+      providerChain: providerChain,
+      maxTokens: config.max_ai_tokens ?? 500,
+      timeout: config.ai_timeout ?? 30000,
+      failureThreshold: config.ai_failure_threshold ?? 3,
+      circuitCooldown: config.ai_circuit_cooldown ?? 300,
+      historyLimit: config.max_history_messages ?? 20,
+      contextTokenBudget: contextTokenBudget,
+      // A quarter of the budget, at about 4 characters per token
+      summaryMaxLength: contextTokenBudget
     };
   },
   
@@ -236,18 +383,15 @@ const ConfigService = {
    * @returns {Object} Default configuration
    */
   getDefaultConfig() {
-    return {
-      business_hours_start: '09:00',
-      business_hours_end: '18:00',
-      business_days: 'Mon,Tue,Wed,Thu,Fri',
-      greeting_business_hours: '¡Hola! Bienvenido a nuestro servicio de atención al cliente. ¿En qué puedo ayudarte?',
-      greeting_after_hours: 'Hola. Actualmente estamos fuera del horario de atención, pero puedo ayudarte con algunas consultas básicas.',
-      footer_message: 'Escribe el número de la opción que necesitas o describe tu consulta.',
-      max_ai_tokens: 500,
-      default_ai_provider: 'gemini',
-      escalation_timeout: 300,
-      session_timeout: 1800
-    };
+    const defaults = {};
+    
+    Object.keys(this.SCHEMA).forEach(key => {
+      if (!this.SCHEMA[key].optional) {
+        defaults[key] = this.SCHEMA[key].default;
+      }
+    });
+    
+    return defaults;
   },
   
   /**
@@ -255,18 +399,21 @@ const ConfigService = {
    * @returns {Object} Default business hours
    */
   getDefaultBusinessHours() {
+    const weekday = { open: true, start: '09:00', end: '18:00', shifts: [{ start: '09:00', end: '18:00' }] };
+    
     return {
       schedule: {
-        0: { open: false }, // Sunday
-        1: { open: true, start: '09:00', end: '18:00' }, // Monday
-        2: { open: true, start: '09:00', end: '18:00' }, // Tuesday
-        3: { open: true, start: '09:00', end: '18:00' }, // Wednesday
-        4: { open: true, start: '09:00', end: '18:00' }, // Thursday
-        5: { open: true, start: '09:00', end: '18:00' }, // Friday
-        6: { open: false } // Saturday
+        0: { open: false, shifts: [] }, // Sunday
+        1: weekday, // Monday
+        2: weekday, // Tuesday
+        3: weekday, // Wednesday
+        4: weekday, // Thursday
+        5: weekday, // Friday
+        6: { open: false, shifts: [] } // Saturday
       },
-      display: '09:00 - 18:00, Mon-Fri',
-      timezone: 'America/Argentina/Buenos_Aires'
+      holidays: [],
+      display: 'Lun a Vie 09:00-18:00',
+      timezone: BusinessHoursService.DEFAULT_TIMEZONE
     };
   },
   
@@ -276,34 +423,308 @@ const ConfigService = {
   clearCache() {
     this._configCache = null;
     this._cacheExpiry = null;
+    this._translationsCache = null;
   },
   
   /**
    * Validate configuration
-   * @returns {Object} Validation result
+   * @param {Object} values - Settings to check; defaults to the Settings sheet
+   * @returns {Object} {valid, errors: [{index, field, message}]}; field is the settings key
    */
-  validateConfig() {
+  validateConfig(values = this.getConfig()) {
     const errors = [];
-    const config = this.getConfig();
+    const issue = (field, message) => errors.push({ index: -1, field: field, message: message });
     
-    // Validate business hours
-    if (!config.business_hours_start || !config.business_hours_end) {
-      errors.push('Business hours not properly configured');
-    }
+    Object.keys(values).forEach(key => {
+      if (!this.SCHEMA[key]) {
+        issue(key, 'Unknown setting; check the spelling of the key');
+        return;
+      }
+      
+      const problem = this.checkValue(key, values[key]);
+      if (problem) {
+        issue(key, problem);
+      }
+    });
+    
+    Object.keys(this.SCHEMA).forEach(key => {
+      if (values[key] === undefined && !this.SCHEMA[key].optional) {
+        issue(key, 'Missing; the default is used');
+      }
+    });
     
-    // Validate AI settings
-    if (!config.default_ai_provider) {
-      errors.push('Default AI provider not specified');
+    // Checks across keys, once each value is fine on its own
+    const isValid = key => values[key] !== undefined && !errors.some(error => error.field === key);
+    
+    if (isValid('business_hours_start') && isValid('business_hours_end') &&
+        values.business_hours_end <= values.business_hours_start) {
+      issue('business_hours_end', 'Must be after business_hours_start');
     }
     
-    // Validate numeric values
-    if (isNaN(config.max_ai_tokens)) {
-      errors.push('Invalid max_ai_tokens value');
+    if (isValid('default_language') && isValid('languages') &&
+        !String(values.languages).split(',').some(language => language.trim().toLowerCase() === values.default_language)) {
+      issue('languages', 'Must include default_language');
     }
     
     return {
       valid: errors.length === 0,
       errors: errors
     };
+  },
+  
+  /**
+   * Check one setting against SCHEMA
+   * @param {string} key - Settings key
+   * @param {*} value - Value after parseConfigValue
+   * @returns {string|null} Problem description, or null when valid or not in SCHEMA
+   */
+  checkValue(key, value) {
+    const field = this.SCHEMA[key];
+    if (!field) return null;
+    
+    switch (field.type) {
+      case 'integer':
+        if (typeof value !== 'number' || !Number.isInteger(value)) {
+          return 'Must be a whole number';
+        }
+        if (value < field.min || value > field.max) {
+          return `Must be between ${field.min} and ${field.max}`;
+        }
+        return null;
+        
+      case 'text':
+        if (typeof value !== 'string' || value.trim() === '') {
+          return 'Must not be empty';
+        }
+        return value.length > field.maxLength ? `Must be at most ${field.maxLength} characters` : null;
+        
+      case 'time':
+        return /^([01]\d|2[0-3]):[0-5]\d$/.test(value) || value === '24:00' ? null : 'Must be a time like 09:00';
+        
+      case 'timezone':
+        return value === '' || /^[A-Za-z]+(\/[A-Za-z0-9_+-]+)*$/.test(value)
+          ? null
+          : 'Must be empty or a timezone like America/Argentina/Buenos_Aires';
+        
+      case 'enum':
+        return field.options.includes(value) ? null : `Must be one of: ${field.options.join(', ')}`;
+        
+      case 'days':
+      case 'list': {
+        const options = field.type === 'days' ? this.DAY_CODES : field.options;
+        const items = String(value).split(',').map(item => item.trim()).filter(Boolean);
+        const unknown = items.filter(item => !options.some(option => option.toLowerCase() === item.toLowerCase()));
+        
+        if (unknown.length > 0) {
+          return `Unknown ${unknown.length === 1 ? 'value' : 'values'} ${unknown.join(', ')}; use ${options.join(', ')}`;
+        }
+        if (new Set(items.map(item => item.toLowerCase())).size !== items.length) {
+          return 'Lists a value twice';
+        }
+        return field.type === 'days' && items.length === 0 ? 'Must list at least one day' : null;
+      }
+        
+      case 'shifts': {
+        const ranges = String(value).split(',').map(range => range.trim()).filter(Boolean);
+        const shifts = BusinessHoursService.parseShifts(value);
+        
+        if (shifts.length !== ranges.length) {
+          return 'Shifts must look like 09:00-13:00, 14:00-18:00';
+        }
+        return BusinessHoursService.checkShifts(shifts);
+      }
+        
+      default:
+        return null;
+    }
+  },
+  
+  /**
+   * Settings and their schema for the dashboard form
+   * @returns {Object} Settings response
+   */
+  getSettingsReport() {
+    try {
+      const values = this.readSheetValues();
+      
+      return {
+        success: true,
+        type: 'settings',
+        fields: Object.keys(this.SCHEMA).map(key => Object.assign({ key: key }, this.SCHEMA[key])),
+        values: values,
+        translations: this.readSheetTranslations(),
+        ...I18nService.describeLanguages(),
+        errors: this.validateConfig(values).errors,
+        timestamp: new Date().toISOString()
+      };
+      
+    } catch (error) {
+      Logger.log(`Error building settings report: ${error.message}`);
+      
+      return {
+        success: false,
+        error: 'No se pudo leer la configuración.',
+        timestamp: new Date().toISOString()
+      };
+    }
+  },
+  
+  /**
+   * Validate and save settings from the dashboard
+   * @param {Object} values - Settings key → new value; keys left out keep their value
+   * @param {Object} translations - Optional language code → { settings key → text }; empty texts clear them
+   * @returns {Object} Saved settings or validation errors
+   */
+  updateSettings(values, translations = {}) {
+    try {
+      if (!values || typeof values !== 'object' || Array.isArray(values)) {
+        return this.validationError([{ index: -1, field: 'values', message: 'Values must be an object of settings keys' }]);
+      }
+      if (!translations || typeof translations !== 'object' || Array.isArray(translations)) {
+        return this.validationError([{ index: -1, field: 'translations', message: 'Translations must be an object of languages' }]);
+      }
+      
+      const translationErrors = this.validateTranslations(translations);
+      if (translationErrors.length > 0) {
+        return this.validationError(translationErrors);
+      }
+      
+      const current = this.readSheetValues();
+      const changes = {};
+      Object.keys(values).forEach(key => {
+        changes[key] = this.parseConfigValue(values[key], key);
+      });
+      
+      // Cross-key checks need the values that are not changing too; problems already in the
+      // sheet do not block saving other keys
+      const merged = Object.assign({}, current, changes);
+      const errors = this.validateConfig(merged).errors.filter(error => changes[error.field] !== undefined ||
+        (error.field === 'business_hours_end' && changes.business_hours_start !== undefined) ||
+        (error.field === 'languages' && changes.default_language !== undefined));
+      
+      if (errors.length > 0) {
+        return this.validationError(errors);
+      }
+      
+      const changed = Object.keys(changes).filter(key => changes[key] !== current[key]);
+      changed.forEach(key => this.set(key, changes[key]));
+      
+      const currentTranslations = this.readSheetTranslations();
+      Object.keys(translations).forEach(language => {
+        Object.keys(translations[language]).forEach(key => {
+          const text = String(translations[language][key] ?? '').trim();
+          if (text !== ((currentTranslations[language] || {})[key] || '')) {
+            this.setTranslation(key, language, text);
+            changed.push(`${key} (${language})`);
+          }
+        });
+      });
+      this.clearCache();
+      
+      if (changed.length > 0) {
+        LoggingService.logInteraction('settings_update', 'dashboard', {
+          message: `Settings updated: ${changed.join(', ')}`
+        });
+      }
+      
+      return this.getSettingsReport();
+      
+    } catch (error) {
+      Logger.log(`Error updating settings: ${error.message}`);
+      LoggingService.logError('updateSettings', error);
+      
+      return {
+        success: false,
+        error: 'No se pudo guardar la configuración. Intenta nuevamente.',
+        timestamp: new Date().toISOString()
+      };
+    }
+  },
+  
+  /**
+   * Settings as stored in the sheet, typed but without falling back to defaults
+   * @returns {Object} Settings key → value
+   */
+  readSheetValues() {
+    const data = SheetsService.getSheet(CONFIG.SHEETS.SETTINGS_SHEET).getDataRange().getValues();
+    const values = {};
+    
+    data.slice(1).forEach(([key, value]) => {
+      if (key) {
+        values[key] = this.parseConfigValue(value, key);
+      }
+    });
+    
+    return values;
+  },
+  
+  /**
+   * Translations of the Valor (xx) columns, for translatable settings only
+   * @returns {Object} Language code → { settings key → text }; blank cells are left out
+   */
+  readSheetTranslations() {
+    const data = SheetsService.getSheet(CONFIG.SHEETS.SETTINGS_SHEET).getDataRange().getValues();
+    const translations = {};
+    
+    Object.keys(I18nService.LANGUAGES).forEach((language, i) => {
+      translations[language] = {};
+      
+      data.slice(1).forEach(row => {
+        const text = String(row[this.TRANSLATION_COLUMN - 1 + i] ?? '').trim();
+        if (this.SCHEMA[row[0]] && this.SCHEMA[row[0]].translatable && text) {
+          translations[language][row[0]] = text;
+        }
+      });
+    });
+    
+    return translations;
+  },
+  
+  /**
+   * Check translations sent by the dashboard
+   * @param {Object} translations - Language code → { settings key → text }
+   * @returns {Array} List of {index, field, message} errors; field is the settings key
+   */
+  validateTranslations(translations) {
+    const errors = [];
+    
+    Object.keys(translations).forEach(language => {
+      const texts = translations[language];
+      
+      if (!I18nService.LANGUAGES[language]) {
+        errors.push({ index: -1, field: 'translations', message: `Unknown language "${language}"` });
+        return;
+      }
+      if (!texts || typeof texts !== 'object' || Array.isArray(texts)) {
+        errors.push({ index: -1, field: 'translations', message: `Translations for ${language} must be an object of settings keys` });
+        return;
+      }
+      
+      Object.keys(texts).forEach(key => {
+        const field = this.SCHEMA[key];
+        const text = String(texts[key] ?? '');
+        
+        if (!field || !field.translatable) {
+          errors.push({ index: -1, field: key, message: 'This setting has no translations' });
+        } else if (text.length > field.maxLength) {
+          errors.push({ index: -1, field: key, message: `${language}: Must be at most ${field.maxLength} characters` });
+        }
+      });
+    });
+    
+    return errors;
+  },
+  
+  /**
+   * Validation failure response
+   */
+  validationError(errors) {
+    return {
+      success: false,
+      code: 'validation',
+      error: 'La configuración tiene errores.',
+      errors: errors,
+      timestamp: new Date().toISOString()
+    };
   }
 };
\ No newline at end of file
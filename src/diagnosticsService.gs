@@ -0,0 +1,241 @@
+/**
+ * Diagnostics Service - Checks a deployment step by step for the setup wizard
+ * 
+ * This service verifies the setup without changing it:
+ * - Spreadsheet reachable with SPREADSHEET_ID
+ * - Required sheets present and the system initialized
+ * - Script Properties set and no longer holding setupCredentials() placeholders
+ * - AI and MercadoLibre connectivity (admin tokens only, as they call the APIs)
+ * Every failing check comes with a fix-it message.
+ */
+
+const DiagnosticsService = {
+  
+  STATUSES: {
+    PASS: 'pass',
+    WARN: 'warn',
+    FAIL: 'fail',
+    SKIPPED: 'skipped'
+  },
+  
+  // Properties the chatbot cannot run without, and where to get each value
+  REQUIRED_PROPERTIES: {
+    SPREADSHEET_ID: 'the ID in the spreadsheet URL, between /d/ and /edit',
+    GEMINI_API_KEY: 'an API key from Google AI Studio (aistudio.google.com)',
+    ADMIN_API_KEY: 'a long random string; admins sign in to the dashboard with it'
+  },
+  
+  // Properties of optional integrations, reported only while they hold placeholders
+  OPTIONAL_PROPERTIES: ['AGENT_API_KEY', 'VIEWER_API_KEY', 'CLAUDE_API_KEY', 'ML_CLIENT_ID', 'ML_CLIENT_SECRET', 'ML_ACCESS_TOKEN', 'ML_REFRESH_TOKEN', 'ML_USER_ID'],
+  
+  /**
+   * Run every check
+   * @param {boolean} includeConnectivity - Also call the AI and MercadoLibre APIs
+   * @returns {Object} Diagnostics response
+   */
+  run(includeConnectivity) {
+    try {
+      const properties = PropertiesService.getScriptProperties();
+      
+      const checks = [
+        this.checkSpreadsheet(properties),
+        this.check('web_app', 'apps-script', 'Web app deployed', this.STATUSES.PASS, 'The web app answered this request.'),
+        ...Object.keys(this.REQUIRED_PROPERTIES).map(key => this.checkRequiredProperty(properties, key)),
+        this.checkOptionalProperties(properties),
+        this.checkSheets(),
+        this.checkInitialized(),
+        includeConnectivity ? this.checkAI() : this.skipConnectivity('ai', 'AI providers'),
+        includeConnectivity ? this.checkMercadoLibre(properties) : this.skipConnectivity('mercadolibre', 'MercadoLibre API')
+      ];
+      
+      return {
+        success: true,
+        type: 'diagnostics',
+        ready: checks.every(check => check.status !== this.STATUSES.FAIL),
+        checks: checks,
+        timestamp: new Date().toISOString()
+      };
+      
+    } catch (error) {
+      Logger.log(`Error running diagnostics: ${error.message}`);
+      
+      return {
+        success: false,
+        error: 'No se pudo ejecutar el diagnóstico.',
+        timestamp: new Date().toISOString()
+      };
+    }
+  },
+  
+  /**
+   * Open the spreadsheet named by SPREADSHEET_ID
+   */
+  checkSpreadsheet(properties) {
+    const title = 'Spreadsheet reachable';
+    const spreadsheetId = properties.getProperty('SPREADSHEET_ID');
+    
+    if (!spreadsheetId || this.isPlaceholder('SPREADSHEET_ID', spreadsheetId)) {
+      return this.check('spreadsheet', 'spreadsheet', title, this.STATUSES.FAIL,
+        spreadsheetId ? 'SPREADSHEET_ID still holds the placeholder from setupCredentials().' : 'SPREADSHEET_ID is not set.',
+        `Set the SPREADSHEET_ID script property to ${this.REQUIRED_PROPERTIES.SPREADSHEET_ID}.`);
+    }
+    
+    try {
+      const spreadsheet = SheetsService.getSpreadsheet();
+      return this.check('spreadsheet', 'spreadsheet', title, this.STATUSES.PASS, `Opened "${spreadsheet.getName()}".`);
+      
+    } catch (error) {
+      return this.check('spreadsheet', 'spreadsheet', title, this.STATUSES.FAIL,
+        `Could not open spreadsheet ${spreadsheetId}: ${error.message}`,
+        'Check that SPREADSHEET_ID matches the spreadsheet URL and that the account the web app runs as can edit it.');
+    }
+  },
+  
+  /**
+   * Check one of REQUIRED_PROPERTIES
+   */
+  checkRequiredProperty(properties, key) {
+    const value = properties.getProperty(key);
+    const title = `${key} set`;
+    const fix = `In Apps Script → Project Settings → Script Properties, set ${key} to ${this.REQUIRED_PROPERTIES[key]}.`;
+    
+    if (!value) {
+      return this.check(`property:${key}`, 'properties', title, this.STATUSES.FAIL, `${key} is not set.`, fix);
+    }
+    if (this.isPlaceholder(key, value)) {
+      return this.check(`property:${key}`, 'properties', title, this.STATUSES.FAIL,
+        `${key} still holds the placeholder from setupCredentials().`, fix);
+    }
+    
+    return this.check(`property:${key}`, 'properties', title, this.STATUSES.PASS, `${key} is set.`);
+  },
+  
+  /**
+   * Report OPTIONAL_PROPERTIES that still hold placeholders
+   */
+  checkOptionalProperties(properties) {
+    const title = 'Optional integrations';
+    const placeholders = this.OPTIONAL_PROPERTIES
+      .filter(key => this.isPlaceholder(key, properties.getProperty(key)));
+    
+    if (placeholders.length > 0) {
+      return this.check('optional_properties', 'properties', title, this.STATUSES.WARN,
+        `${placeholders.join(', ')} still ${placeholders.length === 1 ? 'holds its placeholder' : 'hold their placeholders'}.`,
+        'Replace them with real values, or delete them to turn the integration off.');
+    }
+    
+    return this.check('optional_properties', 'properties', title, this.STATUSES.PASS, 'No placeholders left.');
+  },
+  
+  /**
+   * Check that every sheet in CONFIG.SHEETS exists, without creating them
+   */
+  checkSheets() {
+    const title = 'Sheets created';
+    let spreadsheet;
+    
+    try {
+      spreadsheet = SheetsService.getSpreadsheet();
+    } catch (error) {
+      return this.check('sheets', 'initialize', title, this.STATUSES.SKIPPED, 'Needs the spreadsheet to be reachable first.');
+    }
+    
+    const missing = Object.values(CONFIG.SHEETS).filter(name => !spreadsheet.getSheetByName(name));
+    
+    if (missing.length > 0) {
+      return this.check('sheets', 'initialize', title, this.STATUSES.FAIL, `Missing: ${missing.join(', ')}.`,
+        'Run initializeSystem() from the Apps Script editor; it creates the missing sheets with their headers.');
+    }
+    
+    return this.check('sheets', 'initialize', title, this.STATUSES.PASS, `${Object.values(CONFIG.SHEETS).join(', ')} present.`);
+  },
+  
+  checkInitialized() {
+    if (!isSystemInitialized()) {
+      return this.check('initialized', 'initialize', 'System initialized', this.STATUSES.FAIL,
+        'initializeSystem() has not completed yet.',
+        'Run initializeSystem() from the Apps Script editor and check the execution log for errors.');
+    }
+    
+    return this.check('initialized', 'initialize', 'System initialized', this.STATUSES.PASS, 'initializeSystem() has run.');
+  },
+  
+  /**
+   * Call the AI providers through AIService.testConnection()
+   */
+  checkAI() {
+    const title = 'AI providers';
+    const result = AIService.testConnection();
+    const details = result.details || {};
+    const describe = provider => details[provider] && details[provider].success
+      ? 'ok'
+      : (details[provider] && details[provider].error) || result.error || 'failed';
+    const summary = `Gemini: ${describe('gemini')}. Claude: ${describe('claude')}.`;
+    
+    if (!result.success) {
+      return this.check('ai', 'test', title, this.STATUSES.FAIL, summary,
+        'Check GEMINI_API_KEY (or CLAUDE_API_KEY) and that the key has quota left; the AI Providers panel shows recent failures.');
+    }
+    if (!result.gemini || !result.claude) {
+      return this.check('ai', 'test', title, this.STATUSES.WARN, summary,
+        'One provider answered. Fix the other key, or leave it out of ai_provider_chain.');
+    }
+    
+    return this.check('ai', 'test', title, this.STATUSES.PASS, summary);
+  },
+  
+  /**
+   * Call the MercadoLibre API through MercadoLibreService.testConnection()
+   */
+  checkMercadoLibre(properties) {
+    const title = 'MercadoLibre API';
+    const clientId = properties.getProperty('ML_CLIENT_ID');
+    
+    if (!clientId || this.isPlaceholder('ML_CLIENT_ID', clientId)) {
+      return this.check('mercadolibre', 'test', title, this.STATUSES.SKIPPED,
+        'MercadoLibre is not configured; order and product lookups are off.');
+    }
+    
+    const result = MercadoLibreService.testConnection();
+    
+    if (!result.success) {
+      return this.check('mercadolibre', 'test', title, this.STATUSES.FAIL, result.error || 'Connection failed.',
+        'Check ML_ACCESS_TOKEN, ML_REFRESH_TOKEN and ML_USER_ID; renew the tokens from your app at developers.mercadolibre.com.');
+    }
+    
+    return this.check('mercadolibre', 'test', title, this.STATUSES.PASS, result.message || 'Connected.');
+  },
+  
+  skipConnectivity(id, title) {
+    return this.check(id, 'test', title, this.STATUSES.SKIPPED, 'Not tested: this makes a real API call.',
+      'Sign in as an admin in the wizard to run connection tests.');
+  },
+  
+  /**
+   * True while a property still holds the value setupCredentials() wrote
+   */
+  isPlaceholder(key, value) {
+    return Boolean(value) && CREDENTIAL_PLACEHOLDERS[key] === value;
+  },
+  
+  /**
+   * Build a check result
+   * @param {string} id - Stable identifier, e.g. property:GEMINI_API_KEY
+   * @param {string} step - Setup wizard step it belongs to
+   * @param {string} title - Short name
+   * @param {string} status - pass, warn, fail or skipped
+   * @param {string} message - What was found
+   * @param {string} fix - What to do about it, for anything but pass
+   * @returns {Object} Check result
+   */
+  check(id, step, title, status, message, fix = null) {
+    return {
+      id: id,
+      step: step,
+      title: title,
+      status: status,
+      message: message,
+      fix: fix
+    };
+  }
+};
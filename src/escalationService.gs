@@ -0,0 +1,704 @@
+/**
+ * Escalation Service - Queue of conversations handed off to human agents
+ * 
+ * This service manages the agent handoff:
+ * - One ticket per escalated session in the Escalations sheet
+ * - Ticket lifecycle: pending/after_hours -> assigned -> resolved
+ * - Routing customer messages to the agent while a ticket is open
+ * - Delivering agent replies through the customer's session or chat app
+ * - Requeueing assigned tickets left unanswered for escalation_timeout seconds
+ * - Every ticket change re-reads its row under the script lock; a cached row index per ticket
+ */
+
+const EscalationService = {
+  
+  STATUSES: {
+    PENDING: 'pending',
+    ASSIGNED: 'assigned',
+    RESOLVED: 'resolved',
+    AFTER_HOURS: 'after_hours'
+  },
+  
+  // Top-level function run by the requeue trigger
+  REQUEUE_HANDLER: 'requeueStaleEscalations',
+  
+  // Longest message stored on a ticket
+  MAX_MESSAGE_LENGTH: 1000,
+  
+  // Prefix of the cache keys holding each ticket's row in the Escalations sheet
+  ROW_PREFIX: 'ROW_TICKET_',
+  
+  // CacheService refuses longer expirations
+  MAX_CACHE_SECONDS: 21600,
+  
+  /**
+   * Open a ticket for a session, or add to the one it already has open
+   * @param {string} sessionId - Session identifier
+   * @param {string} reason - Escalation reason, stored as the customer's first message
+   * @param {string} status - pending during business hours, after_hours otherwise
+   * @returns {Object} Ticket
+   */
+  openTicket(sessionId, reason, status) {
+    // Two escalations at once must not get the same ID or row
+    const { ticket, created } = withScriptLock(() => {
+      const existing = this.readTickets().find(ticket => ticket.sessionId === String(sessionId) && this.isOpen(ticket));
+      
+      if (existing) {
+        existing.messages.push(this.message('customer', reason));
+        existing.updatedAt = new Date().toISOString();
+        this.writeTicket(existing);
+        return { ticket: existing, created: false };
+      }
+      
+      const now = new Date().toISOString();
+      const opened = {
+        ticketId: this.nextTicketId(),
+        sessionId: String(sessionId),
+        reason: String(reason || '').slice(0, this.MAX_MESSAGE_LENGTH),
+        status: status,
+        agent: '',
+        createdAt: now,
+        assignedAt: '',
+        resolvedAt: '',
+        updatedAt: now,
+        messages: [this.message('customer', reason)]
+      };
+      
+      this.writeTicket(opened);
+      return { ticket: opened, created: true };
+    });
+    
+    this.linkSession(sessionId, ticket.ticketId);
+    if (created) {
+      Logger.log(`Escalation ticket ${ticket.ticketId} opened for ${sessionId} (${status})`);
+    }
+    
+    return ticket;
+  },
+  
+  /**
+   * Check whether a ticket is still waiting for or talking to an agent
+   * @param {string} ticketId - Ticket identifier
+   * @returns {boolean} True unless the ticket is resolved or unknown
+   */
+  isTicketOpen(ticketId) {
+    const ticket = this.findTicket(ticketId);
+    return Boolean(ticket) && this.isOpen(ticket);
+  },
+  
+  /**
+   * Add a customer message to their open ticket instead of answering with the bot
+   * @param {string} ticketId - Ticket identifier
+   * @param {string} message - Customer message
+   * @returns {Object} Agent response for the customer
+   */
+  addCustomerMessage(ticketId, message) {
+    const { ticket, error } = this.updateTicket(ticketId, current => {
+      current.messages.push(this.message('customer', message));
+      current.updatedAt = new Date().toISOString();
+    });
+    
+    if (error) {
+      throw new Error(`Ticket ${ticketId} not found`);
+    }
+    
+    let acknowledgement;
+    if (ticket.status === this.STATUSES.ASSIGNED) {
+      acknowledgement = I18nService.t('escalation.forwarded', { agent: ticket.agent });
+    } else if (ticket.status === this.STATUSES.AFTER_HOURS) {
+      const businessHours = ConfigService.getBusinessHours();
+      const nextOpening = BusinessHoursService.getNextOpening(new Date(), businessHours);
+      acknowledgement = BusinessHoursService.fillPlaceholders(I18nService.t('escalation.received_after_hours'), businessHours, nextOpening);
+    } else {
+      acknowledgement = I18nService.t('escalation.received');
+    }
+    
+    return {
+      success: true,
+      type: 'agent',
+      message: acknowledgement,
+      ticketId: ticket.ticketId,
+      status: ticket.status,
+      agent: ticket.agent || null,
+      showMenu: false,
+      timestamp: new Date().toISOString()
+    };
+  },
+  
+  /**
+   * Take the agent messages waiting in a session, removing them from it
+   * @param {string} sessionId - Session identifier
+   * @returns {Object} Updates response with the messages and the session's open ticket
+   */
+  takeUpdates(sessionId) {
+    try {
+      const session = sessionId ? SessionService.get(sessionId) : {};
+      let messages = session.outbox || [];
+      
+      // Empty the outbox as stored, so a reply queued since the read above is not dropped
+      if (messages.length > 0) {
+        SessionService.update(sessionId, stored => {
+          messages = stored.outbox || [];
+          return { ...stored, outbox: [] };
+        });
+      }
+      
+      const ticket = session.escalation ? this.findTicket(session.escalation.ticketId) : null;
+      
+      return {
+        success: true,
+        type: 'updates',
+        messages: messages,
+        escalation: ticket && this.isOpen(ticket)
+          ? { ticketId: ticket.ticketId, status: ticket.status, agent: ticket.agent || null }
+          : null,
+        timestamp: new Date().toISOString()
+      };
+      
+    } catch (error) {
+      Logger.log(`Error reading updates for ${sessionId}: ${error.message}`);
+      return {
+        success: false,
+        error: 'No se pudieron obtener los mensajes nuevos.',
+        timestamp: new Date().toISOString()
+      };
+    }
+  },
+  
+  /**
+   * Build the agent inbox response
+   * @param {Object} params - Request parameters: status (open, all or a ticket status)
+   * @returns {Object} Tickets, newest activity first, with counts per status
+   */
+  getQueue(params = {}) {
+    try {
+      this.requeueStale();
+      
+      const filter = params.status || 'open';
+      const tickets = this.readTickets();
+      const counts = {};
+      Object.values(this.STATUSES).forEach(status => {
+        counts[status] = tickets.filter(ticket => ticket.status === status).length;
+      });
+      
+      const selected = tickets
+        .filter(ticket => filter === 'all' || (filter === 'open' ? this.isOpen(ticket) : ticket.status === filter))
+        .sort((a, b) => new Date(b.updatedAt) - new Date(a.updatedAt))
+        .map(ticket => this.summarize(ticket));
+        
+      return {
+        success: true,
+        type: 'escalations',
+        tickets: selected,
+        counts: counts,
+        timeout: this.getTimeoutSeconds(),
+        timestamp: new Date().toISOString()
+      };
+      
+    } catch (error) {
+      Logger.log(`Error building escalation queue: ${error.message}`);
+      return {
+        success: false,
+        error: 'No se pudo obtener la cola de escalaciones.',
+        timestamp: new Date().toISOString()
+      };
+    }
+  },
+  
+  /**
+   * Build the response for one ticket, with the bot transcript that led to it
+   * @param {string} ticketId - Ticket identifier
+   * @returns {Object} Ticket detail or not_found error
+   */
+  getTicketDetail(ticketId) {
+    const ticket = ticketId ? this.findTicket(ticketId) : null;
+    
+    if (!ticket) {
+      return this.notFound();
+    }
+    
+    const session = SessionService.get(ticket.sessionId);
+    
+    return {
+      success: true,
+      type: 'escalation_ticket',
+      ticket: { ...this.summarize(ticket), messages: ticket.messages },
+      transcript: session.history || [],
+      summary: session.summary || null,
+      timestamp: new Date().toISOString()
+    };
+  },
+  
+  /**
+   * Assign a ticket to an agent
+   * @param {string} ticketId - Ticket identifier
+   * @param {string} agent - Agent name
+   * @returns {Object} Ticket detail, or an error if it is resolved or taken by someone else
+   */
+  claim(ticketId, agent) {
+    const check = this.checkAgentAction(ticketId, agent);
+    if (check.error) {
+      return check.error;
+    }
+    
+    const language = this.customerLanguage(check.ticket.sessionId);
+    const notices = [];
+    const { ticket, error } = this.updateTicket(ticketId, current => {
+      const conflict = this.checkTicketStatus(current, agent);
+      if (conflict) {
+        return conflict;
+      }
+      if (current.status !== this.STATUSES.ASSIGNED) {
+        notices.push(this.assign(current, agent, language));
+      }
+    });
+    
+    if (error) {
+      return error;
+    }
+    
+    if (notices.length > 0) {
+      this.notifyCustomer(ticket.sessionId, notices, { escalation: { ticketId: ticket.ticketId } });
+    }
+    
+    return this.getTicketDetail(ticketId);
+  },
+  
+  /**
+   * Send an agent message to the customer, claiming the ticket if nobody has
+   * @param {string} ticketId - Ticket identifier
+   * @param {string} agent - Agent name
+   * @param {string} text - Message for the customer
+   * @returns {Object} Ticket detail or error
+   */
+  reply(ticketId, agent, text) {
+    if (!String(text || '').trim()) {
+      return this.validationError('message', 'El mensaje no puede estar vacío.');
+    }
+    
+    const check = this.checkAgentAction(ticketId, agent);
+    if (check.error) {
+      return check.error;
+    }
+    
+    const language = this.customerLanguage(check.ticket.sessionId);
+    const outgoing = [];
+    const { ticket, error } = this.updateTicket(ticketId, current => {
+      const conflict = this.checkTicketStatus(current, agent);
+      if (conflict) {
+        return conflict;
+      }
+      if (current.status !== this.STATUSES.ASSIGNED) {
+        outgoing.push(this.assign(current, agent, language));
+      }
+      
+      const message = this.message('agent', text, agent);
+      current.messages.push(message);
+      current.updatedAt = message.at;
+      outgoing.push(message);
+    });
+    
+    if (error) {
+      return error;
+    }
+    
+    this.notifyCustomer(ticket.sessionId, outgoing, { escalation: { ticketId: ticket.ticketId } });
+    LoggingService.logInteraction('agent_reply', ticket.sessionId, { message: text, agent: agent, ticketId: ticket.ticketId });
+    
+    return this.getTicketDetail(ticketId);
+  },
+  
+  /**
+   * Close a ticket and hand the session back to the bot
+   * @param {string} ticketId - Ticket identifier
+   * @param {string} agent - Agent name
+   * @param {string} text - Optional closing message for the customer
+   * @returns {Object} Ticket detail or error
+   */
+  resolve(ticketId, agent, text) {
+    if (String(text || '').trim()) {
+      const replied = this.reply(ticketId, agent, text);
+      if (!replied.success) {
+        return replied;
+      }
+    }
+    
+    const check = this.checkAgentAction(ticketId, agent);
+    if (check.error) {
+      return check.error;
+    }
+    
+    const closing = this.notice(this.customerLanguage(check.ticket.sessionId), 'escalation.ended');
+    const { ticket, error } = this.updateTicket(ticketId, current => {
+      const conflict = this.checkTicketStatus(current, agent);
+      if (conflict) {
+        return conflict;
+      }
+      current.status = this.STATUSES.RESOLVED;
+      current.agent = current.agent || agent;
+      current.resolvedAt = closing.at;
+      current.updatedAt = closing.at;
+      current.messages.push(closing);
+    });
+    
+    if (error) {
+      return error;
+    }
+    
+    this.notifyCustomer(ticket.sessionId, [closing], { escalation: null });
+    LoggingService.logInteraction('escalation_resolved', ticket.sessionId, { message: ticket.reason, agent: ticket.agent, ticketId: ticket.ticketId });
+    
+    return this.getTicketDetail(ticketId);
+  },
+  
+  /**
+   * Put assigned tickets back in the queue when the customer has waited
+   * longer than escalation_timeout seconds for the agent
+   * @returns {number} Tickets requeued
+   */
+  requeueStale() {
+    const timeout = this.getTimeoutSeconds() * 1000;
+    const isStale = ticket => {
+      const waitingSince = ticket.status === this.STATUSES.ASSIGNED && this.getWaitingSince(ticket);
+      return Boolean(waitingSince) && Date.now() - new Date(waitingSince).getTime() > timeout;
+    };
+    let requeued = 0;
+    
+    this.readTickets()
+      .filter(isStale)
+      .forEach(stale => {
+        const notice = this.notice(this.customerLanguage(stale.sessionId), 'escalation.requeued', { agent: stale.agent });
+        
+        // The agent may have answered or resolved it since the sheet was read
+        const { error } = this.updateTicket(stale.ticketId, ticket => {
+          if (!isStale(ticket) || ticket.agent !== stale.agent) {
+            return this.conflict('El ticket ya no está esperando al agente.');
+          }
+          ticket.status = this.STATUSES.PENDING;
+          ticket.agent = '';
+          ticket.assignedAt = '';
+          ticket.updatedAt = notice.at;
+          ticket.messages.push(notice);
+        });
+        
+        if (!error) {
+          requeued++;
+        }
+      });
+      
+    if (requeued > 0) {
+      Logger.log(`Requeued ${requeued} unanswered escalation tickets`);
+    }
+    
+    return requeued;
+  },
+  
+  /**
+   * Install the trigger that runs requeueStaleEscalations every 5 minutes, once
+   * @returns {boolean} True if a trigger was created
+   */
+  installRequeueTrigger() {
+    return ensureTimeTrigger(this.REQUEUE_HANDLER, 5);
+  },
+  
+  // Helper methods
+  
+  /**
+   * Load a ticket and make sure the agent may act on it; updateTicket checks again under the lock
+   */
+  checkAgentAction(ticketId, agent) {
+    if (!String(agent || '').trim()) {
+      return { error: this.validationError('agent', 'Indica el nombre del agente.') };
+    }
+    
+    const ticket = ticketId ? this.findTicket(ticketId) : null;
+    if (!ticket) {
+      return { error: this.notFound() };
+    }
+    
+    const conflict = this.checkTicketStatus(ticket, agent);
+    return conflict ? { error: conflict } : { ticket: ticket };
+  },
+  
+  /**
+   * Conflict response when the ticket is resolved or taken by another agent
+   */
+  checkTicketStatus(ticket, agent) {
+    if (!this.isOpen(ticket)) {
+      return this.conflict('El ticket ya fue resuelto.');
+    }
+    
+    if (ticket.status === this.STATUSES.ASSIGNED && ticket.agent !== agent) {
+      return this.conflict(`El ticket ya fue tomado por ${ticket.agent}.`);
+    }
+    
+    return null;
+  },
+  
+  /**
+   * Re-read a ticket holding the script lock, let change edit it and write it back,
+   * so agents and customer messages acting at once don't overwrite each other
+   * @param {string} ticketId - Ticket identifier
+   * @param {Function} change - Edits the ticket; returns an error response to leave it unwritten
+   * @returns {Object} { ticket } or { error }
+   */
+  updateTicket(ticketId, change) {
+    return withScriptLock(() => {
+      const ticket = this.findTicket(ticketId);
+      if (!ticket) {
+        return { error: this.notFound() };
+      }
+      
+      const error = change(ticket);
+      if (error) {
+        return { error: error };
+      }
+      
+      this.writeTicket(ticket);
+      return { ticket: ticket };
+    });
+  },
+  
+  /**
+   * Assign the ticket, returning the notice for the customer
+   */
+  assign(ticket, agent, language) {
+    const notice = this.notice(language, 'escalation.agent_joined', { agent: agent });
+    ticket.status = this.STATUSES.ASSIGNED;
+    ticket.agent = agent;
+    ticket.assignedAt = notice.at;
+    ticket.updatedAt = notice.at;
+    ticket.messages.push(notice);
+    return notice;
+  },
+  
+  /**
+   * When the customer started waiting for the assigned agent: the claim if the
+   * agent has not replied yet, else their first message after the agent's last reply
+   */
+  getWaitingSince(ticket) {
+    const assignedAt = new Date(ticket.assignedAt).getTime();
+    const agentReplies = ticket.messages.filter(message => message.from === 'agent' && new Date(message.at).getTime() >= assignedAt);
+    
+    if (agentReplies.length === 0) {
+      return ticket.assignedAt;
+    }
+    
+    const lastReply = new Date(agentReplies[agentReplies.length - 1].at).getTime();
+    const unanswered = ticket.messages.find(message => message.from === 'customer' && new Date(message.at).getTime() > lastReply);
+    return unanswered ? unanswered.at : null;
+  },
+  
+  /**
+   * Send messages to a WhatsApp or Telegram customer right away, or queue them
+   * for the customer's next getUpdates call
+   */
+  notifyCustomer(sessionId, messages, updates) {
+    const queued = messages.filter(message => !ChannelService.push(sessionId, message));
+    SessionService.update(sessionId, session => ({ ...session, ...updates, outbox: [...(session.outbox || []), ...queued] }));
+  },
+  
+  linkSession(sessionId, ticketId) {
+    SessionService.update(sessionId, session => ({ ...session, escalation: { ticketId: ticketId }, activeFlow: null }));
+  },
+  
+  message(from, text, agent) {
+    const message = { from: from, text: String(text || '').slice(0, this.MAX_MESSAGE_LENGTH), at: new Date().toISOString() };
+    if (agent) {
+      message.agent = agent;
+    }
+    return message;
+  },
+  
+  /**
+   * A system message in the customer's language, since agent actions run with
+   * the dashboard's default language
+   */
+  notice(language, key, values = {}) {
+    return this.message('system', I18nService.t(key, values, language));
+  },
+  
+  /**
+   * Language of a session, read before taking the script lock since reading
+   * an expired session deletes it
+   */
+  customerLanguage(sessionId) {
+    const language = SessionService.get(sessionId).language;
+    return I18nService.isSupported(language) ? language : undefined;
+  },
+  
+  isOpen(ticket) {
+    return ticket.status !== this.STATUSES.RESOLVED;
+  },
+  
+  /**
+   * Find a ticket through its cached row, checked against the sheet in case
+   * rows were edited by hand, falling back to scanning the ID column
+   */
+  findTicket(ticketId) {
+    const sheet = SheetsService.getSheet(CONFIG.SHEETS.ESCALATIONS_SHEET);
+    const id = String(ticketId);
+    const lastRow = sheet.getLastRow();
+    const indexed = Number(CacheService.getScriptCache().get(this.ROW_PREFIX + id));
+    
+    if (indexed >= 2 && indexed <= lastRow) {
+      const values = sheet.getRange(indexed, 1, 1, 10).getValues()[0];
+      if (String(values[0]) === id) {
+        return this.parseTicket(values, indexed);
+      }
+    }
+    
+    const row = this.readTicketIds().indexOf(id) + 2;
+    if (row < 2) {
+      return null;
+    }
+    
+    this.indexRow(id, row);
+    return this.parseTicket(sheet.getRange(row, 1, 1, 10).getValues()[0], row);
+  },
+  
+  /**
+   * The next free ticket ID; callers hold the script lock until its row is written
+   */
+  nextTicketId() {
+    const highest = this.readTicketIds().reduce((max, ticketId) => Math.max(max, Number(ticketId.replace(/\D/g, '')) || 0), 0);
+    return `ESC-${String(highest + 1).padStart(4, '0')}`;
+  },
+  
+  readTicketIds() {
+    const sheet = SheetsService.getSheet(CONFIG.SHEETS.ESCALATIONS_SHEET);
+    const lastRow = sheet.getLastRow();
+    return lastRow > 1 ? sheet.getRange(2, 1, lastRow - 1, 1).getValues().map(row => String(row[0])) : [];
+  },
+  
+  indexRow(ticketId, row) {
+    CacheService.getScriptCache().put(this.ROW_PREFIX + ticketId, String(row), this.MAX_CACHE_SECONDS);
+  },
+  
+  /**
+   * Parse the Escalations sheet; row numbers are kept for writes
+   */
+  readTickets() {
+    return SheetsService.getAllData(CONFIG.SHEETS.ESCALATIONS_SHEET)
+      .map((row, index) => this.parseTicket(row, index + 2))
+      .filter(ticket => ticket.ticketId !== '');
+  },
+  
+  parseTicket(values, row) {
+    let messages = [];
+    try {
+      messages = JSON.parse(values[9] || '[]');
+    } catch (error) {
+      Logger.log(`Unreadable messages for ticket ${values[0]}: ${error.message}`);
+    }
+    
+    return {
+      row: row,
+      ticketId: String(values[0]),
+      sessionId: String(values[1]),
+      reason: String(values[2]),
+      status: String(values[3]),
+      agent: String(values[4]),
+      createdAt: this.toISO(values[5]),
+      assignedAt: this.toISO(values[6]),
+      resolvedAt: this.toISO(values[7]),
+      updatedAt: this.toISO(values[8]),
+      messages: messages
+    };
+  },
+  
+  /**
+   * Write a ticket to its row. New tickets take the next row, so they are
+   * written by openTicket under the script lock.
+   */
+  writeTicket(ticket) {
+    const sheet = SheetsService.getSheet(CONFIG.SHEETS.ESCALATIONS_SHEET);
+    const row = ticket.row || sheet.getLastRow() + 1;
+    const values = [[
+      ticket.ticketId,
+      ticket.sessionId,
+      ticket.reason,
+      ticket.status,
+      ticket.agent,
+      ticket.createdAt,
+      ticket.assignedAt,
+      ticket.resolvedAt,
+      ticket.updatedAt,
+      JSON.stringify(ticket.messages)
+    ]];
+    
+    sheet.getRange(row, 1, 1, values[0].length).setValues(values);
+    
+    if (!ticket.row) {
+      this.indexRow(ticket.ticketId, row);
+    }
+    ticket.row = row;
+  },
+  
+  summarize(ticket) {
+    const customerMessages = ticket.messages.filter(message => message.from === 'customer');
+    const last = ticket.messages[ticket.messages.length - 1];
+    
+    return {
+      ticketId: ticket.ticketId,
+      sessionId: ticket.sessionId,
+      reason: ticket.reason,
+      status: ticket.status,
+      agent: ticket.agent || null,
+      createdAt: ticket.createdAt,
+      assignedAt: ticket.assignedAt || null,
+      resolvedAt: ticket.resolvedAt || null,
+      updatedAt: ticket.updatedAt,
+      messageCount: ticket.messages.length,
+      awaitingAgent: this.isOpen(ticket) && Boolean(last) && last.from === 'customer',
+      lastCustomerMessage: customerMessages.length > 0 ? customerMessages[customerMessages.length - 1].text : null
+    };
+  },
+  
+  getTimeoutSeconds() {
+    return Number(ConfigService.get('escalation_timeout', 300)) || 300;
+  },
+  
+  toISO(value) {
+    if (!value) {
+      return '';
+    }
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? '' : date.toISOString();
+  },
+  
+  notFound() {
+    return {
+      success: false,
+      code: 'not_found',
+      error: 'El ticket no existe.',
+      timestamp: new Date().toISOString()
+    };
+  },
+  
+  conflict(error) {
+    return {
+      success: false,
+      code: 'conflict',
+      error: error,
+      timestamp: new Date().toISOString()
+    };
+  },
+  
+  validationError(field, error) {
+    return {
+      success: false,
+      code: 'validation',
+      error: error,
+      errors: [{ index: -1, field: field, message: error }],
+      timestamp: new Date().toISOString()
+    };
+  }
+};
+
+/**
+ * Scheduled by EscalationService.installRequeueTrigger()
+ */
+function requeueStaleEscalations() {
+  return EscalationService.requeueStale();
+}
@@ -0,0 +1,266 @@
+/**
+ * Flow Service - Handles multi-step conversation flows
+ *
+ * A flow is a menu option that asks the user several questions in order
+ * (e.g. order number, then email) before doing something with the answers:
+ * - Step state is kept in the session (activeFlow)
+ * - Each answer is validated before moving on
+ * - On completion it shows a message, looks up an order or escalates
+ */
+
+const FlowService = {
+  
+  // Inputs that abandon the flow and go back to the main menu
+  CANCEL_KEYWORDS: ['cancelar', 'volver', 'salir'],
+  
+  VALIDATORS: {
+    text: value => value.length > 0,
+    email: value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+    // The same rule as order numbers in chat messages
+    order_id: value => ChatService.extractOrderId(value) === value,
+    number: value => /^\d+([.,]\d+)?$/.test(value)
+  },
+  
+  COMPLETIONS: {
+    MESSAGE: 'message',
+    ORDER_LOOKUP: 'order_lookup',
+    ESCALATE: 'escalate'
+  },
+  
+  /**
+   * Start a flow from its menu option
+   * @param {Object} option - Menu option with a flow definition
+   * @param {string} sessionId - User session identifier
+   * @returns {Object} First step prompt
+   */
+  startFlow(option, sessionId) {
+    const flow = option.flow;
+    
+    if (!flow || !Array.isArray(flow.steps) || flow.steps.length === 0) {
+      Logger.log(`Option ${option.number} has no flow steps`);
+      return MenuService.getMenu(sessionId);
+    }
+    
+    const activeFlow = {
+      option: String(option.number),
+      step: 0,
+      answers: {}
+    };
+    
+    if (sessionId) {
+      ChatService.updateSessionContext(sessionId, { activeFlow });
+    }
+    
+    return this.buildStepResponse(option, activeFlow);
+  },
+  
+  /**
+   * Take the user's answer to the current step
+   * @param {string} input - User input
+   * @param {string} sessionId - User session identifier
+   * @param {Object} activeFlow - Flow state from the session
+   * @returns {Object} Next prompt, validation error or completion response
+   */
+  handleInput(input, sessionId, activeFlow) {
+    try {
+      const value = String(input).trim();
+      
+      if (this.CANCEL_KEYWORDS.includes(value.toLowerCase())) {
+        LoggingService.logInteraction('flow_step', sessionId, { option: activeFlow.option, cancelled: true });
+        return MenuService.getMenu(sessionId);
+      }
+      
+      // Re-read the option so edits to the menu apply to flows in progress, in the session language
+      const option = MenuService.localize(MenuService.getMenuConfig()).find(item =>
+        String(item.number) === activeFlow.option && item.active
+      );
+      
+      if (!option || !option.flow || !option.flow.steps[activeFlow.step]) {
+        ChatService.updateSessionContext(sessionId, { activeFlow: null });
+        return MenuService.getMenu(sessionId);
+      }
+      
+      const step = option.flow.steps[activeFlow.step];
+      const validator = this.VALIDATORS[step.validate] || this.VALIDATORS.text;
+      
+      if (value === MenuService.BACK_SELECTION && this.offersBack(step)) {
+        LoggingService.logInteraction('flow_step', sessionId, { option: activeFlow.option, cancelled: true });
+        return MenuService.getMenu(sessionId);
+      }
+      
+      if (!validator(value)) {
+        return {
+          ...this.buildStepResponse(option, activeFlow),
+          valid: false,
+          message: `${step.error || I18nService.t('flow.invalid_answer')}\n\n${step.prompt}`
+        };
+      }
+      
+      const nextFlow = {
+        ...activeFlow,
+        step: activeFlow.step + 1,
+        answers: { ...activeFlow.answers, [step.field]: value }
+      };
+      
+      LoggingService.logInteraction('flow_step', sessionId, {
+        option: option.number,
+        step: activeFlow.step,
+        field: step.field
+      });
+      
+      if (nextFlow.step < option.flow.steps.length) {
+        ChatService.updateSessionContext(sessionId, { activeFlow: nextFlow });
+        return this.buildStepResponse(option, nextFlow);
+      }
+      
+      ChatService.updateSessionContext(sessionId, { activeFlow: null });
+      return this.completeFlow(option, nextFlow.answers, sessionId);
+    
+    } catch (error) {
+      Logger.log(`Error handling flow input: ${error.message}`);
+      LoggingService.logError('handleFlowInput', error, { sessionId, activeFlow });
+      
+      ChatService.updateSessionContext(sessionId, { activeFlow: null });
+      
+      return {
+        success: false,
+        type: 'error',
+        error: I18nService.t('flow.error'),
+        showMenu: true,
+        timestamp: new Date().toISOString()
+      };
+    }
+  },
+  
+  /**
+   * Run the flow's completion action with the collected answers
+   */
+  completeFlow(option, answers, sessionId) {
+    const flow = option.flow;
+    
+    switch (flow.onComplete) {
+      case this.COMPLETIONS.ORDER_LOOKUP: {
+        const orderField = flow.steps.find(step => step.validate === 'order_id').field;
+        const emailStep = flow.steps.find(step => step.validate === 'email');
+        const orderDetails = MercadoLibreService.getOrderDetails(answers[orderField]);
+        
+        // Like chat messages, an order is only shown to its buyer; an email step has to match theirs
+        const owned = orderDetails.success &&
+          (!emailStep || ChatService.isBuyerOf(orderDetails.data, { email: answers[emailStep.field] }));
+        
+        if (owned) {
+          const response = ChatService.buildOrderResponse(orderDetails.data);
+          response.message = [response.message, this.renderTemplate(flow.completionMessage, answers)]
+            .filter(Boolean)
+            .join('\n\n');
+          return response;
+        }
+        
+        return this.buildCompletionResponse(option, I18nService.t('flow.order_not_found', { orderId: answers[orderField] }), false);
+      }
+      
+      case this.COMPLETIONS.ESCALATE: {
+        const details = Object.keys(answers).map(field => `${field}: ${answers[field]}`).join(', ');
+        return MenuService.handleEscalation(option, sessionId, `${option.title} (${details})`);
+      }
+      
+      default:
+        return this.buildCompletionResponse(option, this.renderTemplate(flow.completionMessage, answers) || I18nService.t('flow.done'));
+    }
+  },
+  
+  /**
+   * Replace {field} placeholders with the user's answers
+   */
+  renderTemplate(template, answers) {
+    return String(template || '').replace(/\{(\w+)\}/g, (match, field) =>
+      answers[field] !== undefined ? answers[field] : match
+    );
+  },
+  
+  /**
+   * Check a flow definition from the menu editor
+   * @param {Object} flow - Flow definition
+   * @returns {Array} Error messages, empty when valid
+   */
+  validateFlow(flow) {
+    if (!flow || !Array.isArray(flow.steps) || flow.steps.length === 0) {
+      return ['Flows need at least one step'];
+    }
+    
+    const errors = [];
+    const fields = {};
+    
+    flow.steps.forEach((step, i) => {
+      if (!step.field || !/^\w+$/.test(step.field)) {
+        errors.push(`Step ${i + 1}: field name must be letters, numbers or _`);
+      } else if (fields[step.field]) {
+        errors.push(`Step ${i + 1}: field ${step.field} is already used`);
+      } else {
+        fields[step.field] = true;
+      }
+      
+      if (!String(step.prompt || '').trim()) {
+        errors.push(`Step ${i + 1}: prompt is required`);
+      }
+      
+      if (!this.VALIDATORS[step.validate]) {
+        errors.push(`Step ${i + 1}: unknown validation "${step.validate}"`);
+      }
+    });
+    
+    if (!Object.values(this.COMPLETIONS).includes(flow.onComplete)) {
+      errors.push(`Unknown completion action "${flow.onComplete}"`);
+    }
+    
+    if (flow.onComplete === this.COMPLETIONS.ORDER_LOOKUP && !flow.steps.some(step => step.validate === 'order_id')) {
+      errors.push('Order lookup flows need a step validated as order_id');
+    }
+    
+    return errors;
+  },
+  
+  /**
+   * Whether a step offers 0 to leave the flow; steps that take 0 as an answer don't
+   */
+  offersBack(step) {
+    const validator = this.VALIDATORS[step.validate] || this.VALIDATORS.text;
+    return !validator(MenuService.BACK_SELECTION);
+  },
+  
+  buildStepResponse(option, activeFlow) {
+    const step = option.flow.steps[activeFlow.step];
+    
+    return {
+      success: true,
+      type: 'flow',
+      title: option.title,
+      message: step.prompt,
+      step: activeFlow.step + 1,
+      totalSteps: option.flow.steps.length,
+      completed: false,
+      valid: true,
+      options: this.offersBack(step)
+        ? [{ number: Number(MenuService.BACK_SELECTION), title: I18nService.t('menu.back'), responseType: 'back' }]
+        : [],
+      showMenu: false,
+      timestamp: new Date().toISOString()
+    };
+  },
+  
+  buildCompletionResponse(option, message, success = true) {
+    return {
+      success,
+      type: 'flow',
+      title: option.title,
+      message,
+      step: option.flow.steps.length,
+      totalSteps: option.flow.steps.length,
+      completed: true,
+      valid: true,
+      options: [],
+      showMenu: option.returnToMenu !== false,
+      timestamp: new Date().toISOString()
+    };
+  }
+};
@@ -0,0 +1,315 @@
+/**
+ * Health Service - Reports the status of each component for monitoring
+ * 
+ * This service answers the health action with one entry per component:
+ * - Sheets access, config validity and menu load
+ * - Each AI provider (circuit breaker state, or a live call on deep checks)
+ * - MercadoLibre token expiry (and the /users/{id} call on deep checks)
+ * - Chat_Logs size
+ * Cheap checks only read the spreadsheet and Script Properties; deep checks
+ * call the external APIs and are limited to admin requests.
+ */
+
+const HealthService = {
+  
+  STATUSES: {
+    OK: 'ok',
+    DEGRADED: 'degraded',
+    DOWN: 'down',
+    SKIPPED: 'skipped'
+  },
+  
+  // Components the chatbot cannot answer without; any of them down makes the whole system down
+  CRITICAL_COMPONENTS: ['sheets', 'config', 'menu'],
+  
+  // Sheets every deployment has; the others are created on first use, so upgraded deployments may lack them
+  CORE_SHEETS: ['MENU_SHEET', 'LOGS_SHEET', 'SETTINGS_SHEET'],
+  
+  // Chat_Logs rows above which reads slow down; Sheets caps a spreadsheet at 10 million cells
+  LOG_ROWS_WARNING: 100000,
+  
+  /**
+   * Run the health checks
+   * @param {boolean} deep - Also call the AI providers and the MercadoLibre API
+   * @returns {Object} Health response
+   */
+  check(deep = false) {
+    try {
+      const started = Date.now();
+      const properties = PropertiesService.getScriptProperties();
+      
+      const components = [
+        this.measure('sheets', () => this.checkSheets()),
+        this.measure('config', () => this.checkConfig()),
+        this.measure('menu', () => this.checkMenu()),
+        ...Object.values(CONFIG.AI_PROVIDERS).map(provider =>
+          this.measure(`ai:${provider}`, () => this.checkAIProvider(provider, properties, deep))),
+        this.measure('mercadolibre:token', () => this.checkMercadoLibreToken(properties)),
+        this.measure('mercadolibre:api', () => this.checkMercadoLibreAPI(properties, deep)),
+        this.measure('logs', () => this.checkLogSize())
+      ];
+      
+      return {
+        success: true,
+        type: 'health',
+        status: this.overallStatus(components),
+        deep: deep,
+        latencyMs: Date.now() - started,
+        components: components,
+        timestamp: new Date().toISOString()
+      };
+      
+    } catch (error) {
+      Logger.log(`Error running health checks: ${error.message}`);
+      
+      return {
+        success: false,
+        error: 'No se pudo verificar el estado del sistema.',
+        timestamp: new Date().toISOString()
+      };
+    }
+  },
+  
+  /**
+   * Open the spreadsheet and look for the sheets in CONFIG.SHEETS, without creating them.
+   * Only missing core sheets are a failure.
+   */
+  checkSheets() {
+    const spreadsheet = SheetsService.getSpreadsheet();
+    const missing = key => !spreadsheet.getSheetByName(CONFIG.SHEETS[key]);
+    const missingCore = this.CORE_SHEETS.filter(missing).map(key => CONFIG.SHEETS[key]);
+    const notCreated = Object.keys(CONFIG.SHEETS)
+      .filter(key => !this.CORE_SHEETS.includes(key) && missing(key))
+      .map(key => CONFIG.SHEETS[key]);
+    
+    if (missingCore.length > 0) {
+      return this.result(this.STATUSES.DOWN, `Missing sheets: ${missingCore.join(', ')}.`, {
+        error: 'Run initializeSystem() to create them.',
+        details: { missing: missingCore, notCreated: notCreated }
+      });
+    }
+    
+    if (notCreated.length > 0) {
+      return this.result(this.STATUSES.OK,
+        `Opened "${spreadsheet.getName()}" with its ${this.CORE_SHEETS.length} core sheets; ${notCreated.join(', ')} will be created on first use.`, {
+          details: { missing: [], notCreated: notCreated }
+        });
+    }
+    
+    return this.result(this.STATUSES.OK, `Opened "${spreadsheet.getName()}" with all ${Object.values(CONFIG.SHEETS).length} sheets.`);
+  },
+  
+  /**
+   * Validate the Settings sheet against the config schema
+   */
+  checkConfig() {
+    if (!SheetsService.getSpreadsheet().getSheetByName(CONFIG.SHEETS.SETTINGS_SHEET)) {
+      return this.result(this.STATUSES.SKIPPED, `${CONFIG.SHEETS.SETTINGS_SHEET} sheet missing.`);
+    }
+    
+    const validation = ConfigService.validateConfig();
+    
+    if (!validation.valid) {
+      return this.result(this.STATUSES.DEGRADED,
+        `${validation.errors.length} setting${validation.errors.length === 1 ? '' : 's'} invalid; defaults are used instead.`, {
+          error: validation.errors.map(error => `${error.field}: ${error.message}`).join('; '),
+          details: { errors: validation.errors }
+        });
+    }
+    
+    return this.result(this.STATUSES.OK, 'All settings valid.');
+  },
+  
+  /**
+   * Load the menu the way customers get it
+   */
+  checkMenu() {
+    if (!SheetsService.getSpreadsheet().getSheetByName(CONFIG.SHEETS.MENU_SHEET)) {
+      return this.result(this.STATUSES.SKIPPED, `${CONFIG.SHEETS.MENU_SHEET} sheet missing.`);
+    }
+    
+    const items = MenuService.getMenuConfig();
+    const active = items.filter(item => item.active).length;
+    const details = { options: items.length, active: active };
+    
+    if (active === 0) {
+      return this.result(this.STATUSES.DOWN, 'The menu has no active options.', {
+        error: `Add or activate options in ${CONFIG.SHEETS.MENU_SHEET}.`,
+        details: details
+      });
+    }
+    
+    return this.result(this.STATUSES.OK, `${active} of ${items.length} options active.`, { details: details });
+  },
+  
+  /**
+   * Report an AI provider from its circuit breaker, or call it on deep checks
+   */
+  checkAIProvider(provider, properties, deep) {
+    const health = AIService.getProviderHealth(provider);
+    const details = {
+      mode: health.mode,
+      consecutiveFailures: health.consecutiveFailures,
+      lastSuccessAt: health.lastSuccessAt
+    };
+    
+    if (!properties.getProperty(`${provider.toUpperCase()}_API_KEY`)) {
+      return this.result(this.STATUSES.SKIPPED, `${provider.toUpperCase()}_API_KEY is not set.`, { details: details });
+    }
+    if (health.mode === 'disabled') {
+      return this.result(this.STATUSES.SKIPPED, 'Turned off on the AI Providers panel.', { details: details });
+    }
+    
+    if (deep) {
+      const response = AIService.callProvider(provider, { userQuery: 'Health check', context: 'This is a test query', maxTokens: 50 });
+      
+      return response.success
+        ? this.result(this.STATUSES.OK, 'Answered a test prompt.', { details: details })
+        : this.result(this.STATUSES.DOWN, 'Test prompt failed.', { error: response.error || 'Unknown error', details: details });
+    }
+    
+    if (health.openUntil && Date.now() < new Date(health.openUntil).getTime() && health.mode === 'auto') {
+      return this.result(this.STATUSES.DOWN, `Circuit open until ${health.openUntil}.`, { error: health.lastError, details: details });
+    }
+    if (health.consecutiveFailures > 0) {
+      return this.result(this.STATUSES.DEGRADED, `${health.consecutiveFailures} failed call${health.consecutiveFailures === 1 ? '' : 's'} in a row.`, {
+        error: health.lastError,
+        details: details
+      });
+    }
+    
+    return this.result(this.STATUSES.OK, health.lastSuccessAt ? `Last answered at ${health.lastSuccessAt}.` : 'No failed calls recorded.', {
+      details: details
+    });
+  },
+  
+  /**
+   * Check how long the stored MercadoLibre access token stays valid
+   */
+  checkMercadoLibreToken(properties) {
+    if (!this.isMercadoLibreConfigured(properties)) {
+      return this.result(this.STATUSES.SKIPPED, 'MercadoLibre is not configured.');
+    }
+    
+    const canRefresh = Boolean(properties.getProperty('ML_REFRESH_TOKEN') && properties.getProperty('ML_CLIENT_SECRET'));
+    const expiresAt = properties.getProperty('ML_ACCESS_TOKEN_FECHA_EXPIRA');
+    const expiry = expiresAt ? new Date(expiresAt).getTime() : NaN;
+    
+    if (!properties.getProperty('ML_ACCESS_TOKEN') || isNaN(expiry)) {
+      return canRefresh
+        ? this.result(this.STATUSES.DEGRADED, 'No access token stored; one is requested on the next lookup.')
+        : this.result(this.STATUSES.DOWN, 'No access token and no refresh token.', {
+          error: 'Set ML_ACCESS_TOKEN or ML_REFRESH_TOKEN and ML_CLIENT_SECRET.'
+        });
+    }
+    
+    const minutesLeft = Math.round((expiry - Date.now()) / 60000);
+    const details = { expiresAt: new Date(expiry).toISOString(), minutesLeft: minutesLeft };
+    
+    if (minutesLeft <= 0) {
+      return canRefresh
+        ? this.result(this.STATUSES.DEGRADED, `Expired ${-minutesLeft} min ago; it is refreshed on the next lookup.`, { details: details })
+        : this.result(this.STATUSES.DOWN, `Expired ${-minutesLeft} min ago and cannot be refreshed.`, {
+          error: 'ML_REFRESH_TOKEN or ML_CLIENT_SECRET is not set.',
+          details: details
+        });
+    }
+    
+    return this.result(this.STATUSES.OK, `Expires in ${minutesLeft} min.`, { details: details });
+  },
+  
+  /**
+   * Call /users/{id} through MercadoLibreService.testConnection() on deep checks
+   */
+  checkMercadoLibreAPI(properties, deep) {
+    if (!this.isMercadoLibreConfigured(properties)) {
+      return this.result(this.STATUSES.SKIPPED, 'MercadoLibre is not configured.');
+    }
+    if (!deep) {
+      return this.result(this.STATUSES.SKIPPED, 'Checked on deep health checks only.');
+    }
+    
+    const response = MercadoLibreService.testConnection();
+    
+    return response.success
+      ? this.result(this.STATUSES.OK, `/users/${properties.getProperty('ML_USER_ID')} answered.`)
+      : this.result(this.STATUSES.DOWN, 'The /users check failed.', { error: response.error || 'Unknown error' });
+  },
+  
+  /**
+   * Count Chat_Logs rows, which grow until cleanupOldLogs() runs
+   */
+  checkLogSize() {
+    const sheet = SheetsService.getSpreadsheet().getSheetByName(CONFIG.SHEETS.LOGS_SHEET);
+    
+    if (!sheet) {
+      return this.result(this.STATUSES.SKIPPED, `${CONFIG.SHEETS.LOGS_SHEET} sheet missing.`);
+    }
+    
+    const rows = Math.max(0, sheet.getLastRow() - 1);
+    const details = { rows: rows, cells: sheet.getLastRow() * sheet.getLastColumn() };
+    
+    if (rows > this.LOG_ROWS_WARNING) {
+      return this.result(this.STATUSES.DEGRADED, `${rows} log rows.`, {
+        error: `Above ${this.LOG_ROWS_WARNING} rows; run LoggingService.cleanupOldLogs() to remove old entries.`,
+        details: details
+      });
+    }
+    
+    return this.result(this.STATUSES.OK, `${rows} log rows.`, { details: details });
+  },
+  
+  isMercadoLibreConfigured(properties) {
+    const clientId = properties.getProperty('ML_CLIENT_ID');
+    return Boolean(clientId) && CREDENTIAL_PLACEHOLDERS.ML_CLIENT_ID !== clientId;
+  },
+  
+  /**
+   * Down if a critical component is down, degraded if anything else is not ok
+   */
+  overallStatus(components) {
+    if (components.some(component => component.status === this.STATUSES.DOWN && component.critical)) {
+      return this.STATUSES.DOWN;
+    }
+    if (components.some(component => component.status === this.STATUSES.DOWN || component.status === this.STATUSES.DEGRADED)) {
+      return this.STATUSES.DEGRADED;
+    }
+    return this.STATUSES.OK;
+  },
+  
+  /**
+   * Time a check and turn an exception into a down component
+   * @param {string} name - Component name, e.g. ai:gemini
+   * @param {Function} run - Returns a result()
+   * @returns {Object} Component status
+   */
+  measure(name, run) {
+    const started = Date.now();
+    let outcome;
+    
+    try {
+      outcome = run();
+    } catch (error) {
+      outcome = this.result(this.STATUSES.DOWN, 'Check failed.', { error: error.message });
+    }
+    
+    return {
+      name: name,
+      critical: this.CRITICAL_COMPONENTS.includes(name),
+      status: outcome.status,
+      latencyMs: Date.now() - started,
+      message: outcome.message,
+      error: outcome.error,
+      details: outcome.details
+    };
+  },
+  
+  result(status, message, extra = {}) {
+    return {
+      status: status,
+      message: message,
+      error: extra.error || null,
+      details: extra.details || {}
+    };
+  }
+};
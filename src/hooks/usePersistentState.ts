@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * useState that survives page reloads by mirroring the value in localStorage.
+ * Values are stored as JSON under the given key.
+ */
+export function usePersistentState<T>(key: string, initialValue: T) {
+  const [value, setValue] = useState<T>(() => {
+    try {
+      const stored = window.localStorage.getItem(key);
+      return stored !== null ? (JSON.parse(stored) as T) : initialValue;
+    } catch {
+      return initialValue;
+    }
+  });
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem(key, JSON.stringify(value));
+    } catch {
+      // Storage can be full or disabled (private mode); keep the in-memory value
+    }
+  }, [key, value]);
+
+  return [value, setValue] as const;
+}
@@ -0,0 +1,484 @@
+/**
+ * I18n Service - Languages of the customer-facing messages
+ * 
+ * This service lets the bot answer Spanish, Portuguese and English speakers:
+ * - The language of each request: the lang parameter, the session's or the message's
+ * - Built-in system messages in every language
+ * - Translation columns of Menu_Config and Settings, falling back to default_language
+ * - Dates and amounts formatted for the customer's locale
+ */
+
+const I18nService = {
+  
+  // Languages the bot can answer in; dateFormat and dateTimeFormat are Utilities.formatDate patterns
+  LANGUAGES: {
+    es: { name: 'Español', locale: 'es-AR', dateFormat: 'dd/MM/yyyy', dateTimeFormat: 'dd/MM HH:mm' },
+    pt: { name: 'Português', locale: 'pt-BR', dateFormat: 'dd/MM/yyyy', dateTimeFormat: 'dd/MM HH:mm' },
+    en: { name: 'English', locale: 'en-US', dateFormat: 'MM/dd/yyyy', dateTimeFormat: 'MM/dd HH:mm' }
+  },
+  
+  // Built-in messages always have a Spanish version, used when nothing else matches
+  BASE_LANGUAGE: 'es',
+  
+  // Common words of one language that the others do not use; detect() counts them
+  MARKERS: {
+    es: ['hola', 'quiero', 'quisiera', 'necesito', 'dónde', 'donde', 'cuándo', 'cuando', 'gracias', 'mi', 'mis', 'el', 'los',
+      'las', 'la', 'del', 'con', 'un', 'una', 'y', 'tienen', 'tenés', 'hay', 'llegó', 'todavía', 'envío', 'producto', 'puedo',
+      'estoy', 'qué', 'cómo', 'ayuda', 'usted', 'buenas', 'también', 'muy', 'pero', 'talle', 'cuánto'],
+    pt: ['olá', 'oi', 'quero', 'gostaria', 'preciso', 'onde', 'quando', 'obrigado', 'obrigada', 'meu', 'minha', 'meus', 'os',
+      'da', 'dos', 'das', 'com', 'um', 'uma', 'e', 'é', 'tem', 'têm', 'vocês', 'você', 'chegou', 'ainda', 'não', 'frete',
+      'produto', 'posso', 'estou', 'ajuda', 'também', 'muito', 'mas', 'tamanho', 'quanto', 'bom', 'dia'],
+    en: ['hello', 'hi', 'want', 'would', 'need', 'where', 'when', 'thanks', 'thank', 'my', 'the', 'of', 'with', 'an', 'and',
+      'is', 'are', 'have', 'has', 'you', 'did', 'arrived', 'yet', 'not', 'shipping', 'product', 'can', 'i', 'am', 'help', 'also',
+      'very', 'but', 'size', 'how', 'much', 'what', 'please', 'order']
+  },
+  
+  // System messages by key; {name} placeholders are filled by t()
+  MESSAGES: {
+    'menu.back': { es: 'Volver', pt: 'Voltar', en: 'Back' },
+    'menu.load_error': {
+      es: 'No se pudo cargar el menú. Intenta nuevamente.',
+      pt: 'Não foi possível carregar o menu. Tente novamente.',
+      en: 'The menu could not be loaded. Please try again.'
+    },
+    'menu.invalid_selection': {
+      es: 'Selección inválida. Por favor elige una opción del menú.',
+      pt: 'Seleção inválida. Escolha uma opção do menu.',
+      en: 'Invalid selection. Please choose an option from the menu.'
+    },
+    'menu.invalid_option': {
+      es: 'Configuración inválida para esta opción.',
+      pt: 'Configuração inválida para esta opção.',
+      en: 'This option is not configured correctly.'
+    },
+    'menu.selection_error': {
+      es: 'Error procesando tu selección. Intenta nuevamente.',
+      pt: 'Erro ao processar sua seleção. Tente novamente.',
+      en: 'Your selection could not be processed. Please try again.'
+    },
+    'menu.ai_unavailable': {
+      es: 'Lo siento, no puedo procesar tu consulta en este momento.',
+      pt: 'Desculpe, não consigo processar sua consulta neste momento.',
+      en: 'Sorry, I cannot answer your question right now.'
+    },
+    'menu.ai_error': {
+      es: 'Error en el servicio de IA. Intenta nuevamente.',
+      pt: 'Erro no serviço de IA. Tente novamente.',
+      en: 'The AI service failed. Please try again.'
+    },
+    'escalation.connecting': {
+      es: 'Te estoy conectando con un agente humano. Por favor espera un momento.',
+      pt: 'Estou te conectando com um atendente. Aguarde um momento.',
+      en: 'I am connecting you with a human agent. Please wait a moment.'
+    },
+    'escalation.transferring': {
+      es: 'Te conectaré con un agente humano. Por favor espera un momento mientras te transfiero.',
+      pt: 'Vou te conectar com um atendente. Aguarde um momento enquanto transfiro a conversa.',
+      en: 'I will connect you with a human agent. Please wait a moment while I transfer you.'
+    },
+    'escalation.after_hours': {
+      es: 'Actualmente estamos fuera del horario de atención ({hours}). Tu consulta será atendida {next_opening}.',
+      pt: 'No momento estamos fora do horário de atendimento ({hours}). Sua mensagem será respondida {next_opening}.',
+      en: 'We are currently outside business hours ({hours}). Your message will be answered {next_opening}.'
+    },
+    'escalation.forwarded': {
+      es: 'Tu mensaje fue enviado a {agent}.',
+      pt: 'Sua mensagem foi enviada para {agent}.',
+      en: 'Your message was sent to {agent}.'
+    },
+    'escalation.received': {
+      es: 'Recibimos tu mensaje. Un agente te responderá a la brevedad.',
+      pt: 'Recebemos sua mensagem. Um atendente vai responder em breve.',
+      en: 'We got your message. An agent will reply shortly.'
+    },
+    'escalation.received_after_hours': {
+      es: 'Recibimos tu mensaje. Un agente te responderá {next_opening}.',
+      pt: 'Recebemos sua mensagem. Um atendente vai responder {next_opening}.',
+      en: 'We got your message. An agent will reply {next_opening}.'
+    },
+    'escalation.agent_joined': {
+      es: '{agent} se unió a la conversación.',
+      pt: '{agent} entrou na conversa.',
+      en: '{agent} joined the conversation.'
+    },
+    'escalation.requeued': {
+      es: 'Devuelto a la cola: {agent} no respondió a tiempo.',
+      pt: 'De volta à fila: {agent} não respondeu a tempo.',
+      en: 'Back in the queue: {agent} did not reply in time.'
+    },
+    'escalation.ended': {
+      es: 'La conversación con el agente finalizó. Escribe "menú" para ver las opciones.',
+      pt: 'A conversa com o atendente terminou. Escreva "menu" para ver as opções.',
+      en: 'The conversation with the agent has ended. Type "menu" to see the options.'
+    },
+    'rate_limit.session': {
+      es: 'Estás enviando mensajes muy rápido. Espera unos segundos e intenta de nuevo.',
+      pt: 'Você está enviando mensagens muito rápido. Aguarde alguns segundos e tente de novo.',
+      en: 'You are sending messages too fast. Wait a few seconds and try again.'
+    },
+    'rate_limit.global': {
+      es: 'Estamos recibiendo muchas consultas en este momento. Intenta de nuevo en un minuto.',
+      pt: 'Estamos recebendo muitas mensagens neste momento. Tente de novo em um minuto.',
+      en: 'We are getting a lot of messages right now. Try again in a minute.'
+    },
+    'rate_limit.too_long': {
+      es: 'Tu mensaje es demasiado largo. Resúmelo en menos de {max} caracteres.',
+      pt: 'Sua mensagem é longa demais. Resuma em menos de {max} caracteres.',
+      en: 'Your message is too long. Keep it under {max} characters.'
+    },
+    'rate_limit.duplicate': {
+      es: 'Ya recibimos ese mensaje. Escribe otra consulta o espera unos segundos.',
+      pt: 'Já recebemos essa mensagem. Escreva outra pergunta ou aguarde alguns segundos.',
+      en: 'We already got that message. Type another question or wait a few seconds.'
+    },
+    'chat.error': {
+      es: 'Lo siento, ocurrió un error procesando tu mensaje. ¿Podrías intentar nuevamente?',
+      pt: 'Desculpe, ocorreu um erro ao processar sua mensagem. Pode tentar novamente?',
+      en: 'Sorry, something went wrong with your message. Could you try again?'
+    },
+    'chat.default': {
+      es: 'Entiendo tu consulta. ¿Te gustaría ver el menú de opciones disponibles o prefieres que te conecte con un agente humano?',
+      pt: 'Entendi sua pergunta. Quer ver o menu de opções ou prefere falar com um atendente?',
+      en: 'I understand your question. Would you like to see the menu, or should I connect you with a human agent?'
+    },
+    'flow.invalid_answer': { es: 'Respuesta no válida.', pt: 'Resposta inválida.', en: 'That answer is not valid.' },
+    'flow.error': {
+      es: 'Ocurrió un error. Volvamos al menú principal.',
+      pt: 'Ocorreu um erro. Vamos voltar ao menu principal.',
+      en: 'Something went wrong. Let us go back to the main menu.'
+    },
+    'flow.order_not_found': {
+      es: 'No encontramos el pedido {orderId}. Verifica el número o elige "Hablar con un agente".',
+      pt: 'Não encontramos o pedido {orderId}. Confira o número ou escolha falar com um atendente.',
+      en: 'We could not find order {orderId}. Check the number or ask to talk to an agent.'
+    },
+    'flow.done': { es: '¡Listo! Recibimos tus datos.', pt: 'Pronto! Recebemos seus dados.', en: 'Done! We got your details.' },
+    'order.title': { es: 'Información del Pedido', pt: 'Informações do Pedido', en: 'Order Details' },
+    'order.number': { es: 'Número', pt: 'Número', en: 'Number' },
+    'order.status': { es: 'Estado', pt: 'Status', en: 'Status' },
+    'order.total': { es: 'Total', pt: 'Total', en: 'Total' },
+    'order.date': { es: 'Fecha', pt: 'Data', en: 'Date' },
+    'order.history': { es: 'Historial', pt: 'Histórico', en: 'History' },
+    'order.more': {
+      es: '¿Necesitas más información sobre este pedido?',
+      pt: 'Precisa de mais informações sobre este pedido?',
+      en: 'Do you need anything else about this order?'
+    },
+    'shipment.title': { es: 'Envío del pedido {orderId}', pt: 'Entrega do pedido {orderId}', en: 'Shipment of order {orderId}' },
+    'shipment.carrier': { es: 'Transporte', pt: 'Transportadora', en: 'Carrier' },
+    'shipment.tracking_number': { es: 'Número de seguimiento', pt: 'Código de rastreio', en: 'Tracking number' },
+    'shipment.estimated_delivery': { es: 'Entrega estimada', pt: 'Previsão de entrega', en: 'Estimated delivery' },
+    'shipment.more': {
+      es: '¿Necesitas algo más sobre este envío?',
+      pt: 'Precisa de algo mais sobre esta entrega?',
+      en: 'Do you need anything else about this shipment?'
+    },
+    'order_list.title': { es: 'Últimos pedidos de {name}', pt: 'Últimos pedidos de {name}', en: 'Latest orders of {name}' },
+    'order_list.empty': {
+      es: 'No encontramos pedidos de {name} en nuestra tienda. Verifica el usuario o escribe el número de pedido.',
+      pt: 'Não encontramos pedidos de {name} na nossa loja. Confira o usuário ou escreva o número do pedido.',
+      en: 'We found no orders from {name} in our store. Check the user name or type the order number.'
+    },
+    'order_list.more': {
+      es: 'Escribe el número de un pedido para ver su detalle y el seguimiento del envío.',
+      pt: 'Escreva o número de um pedido para ver os detalhes e o rastreio da entrega.',
+      en: 'Type an order number to see its details and shipment tracking.'
+    },
+    'order_list.verify': {
+      es: 'Para ver los pedidos de una cuenta, escribe su usuario junto con el número de uno de sus pedidos. Por ejemplo: "usuario: JUAN_P, pedido 2000001234567890".',
+      pt: 'Para ver os pedidos de uma conta, escreva o usuário junto com o número de um dos pedidos. Por exemplo: "usuario: JUAN_P, pedido 2000001234567890".',
+      en: 'To see the orders of an account, type its user name together with the number of one of its orders. For example: "usuario: JUAN_P, order 2000001234567890".'
+    },
+    'product.price': { es: 'Precio', pt: 'Preço', en: 'Price' },
+    'product.available': { es: 'Disponibles', pt: 'Disponíveis', en: 'Available' },
+    'product.condition': { es: 'Condición', pt: 'Condição', en: 'Condition' },
+    'product.condition.new': { es: 'Nuevo', pt: 'Novo', en: 'New' },
+    'product.condition.used': { es: 'Usado', pt: 'Usado', en: 'Used' },
+    'product.condition.refurbished': { es: 'Reacondicionado', pt: 'Recondicionado', en: 'Refurbished' },
+    'product.variations': { es: 'Variantes', pt: 'Variações', en: 'Variations' },
+    'product.variation': { es: 'Variante {id}', pt: 'Variação {id}', en: 'Variation {id}' },
+    'product.in_stock': { es: '{count} disponibles', pt: '{count} disponíveis', en: '{count} available' },
+    'product.out_of_stock': { es: 'sin stock', pt: 'sem estoque', en: 'out of stock' },
+    'product.listing': { es: 'Ver publicación', pt: 'Ver anúncio', en: 'See the listing' },
+    'product.more': {
+      es: '¿Te interesa este producto o necesitas más información?',
+      pt: 'Tem interesse neste produto ou precisa de mais informações?',
+      en: 'Are you interested in this product or do you need more details?'
+    },
+    'search.title_one': { es: 'Encontramos 1 publicación para "{query}"', pt: 'Encontramos 1 anúncio para "{query}"', en: 'We found 1 listing for "{query}"' },
+    'search.title_many': {
+      es: 'Encontramos {count} publicaciones para "{query}"',
+      pt: 'Encontramos {count} anúncios para "{query}"',
+      en: 'We found {count} listings for "{query}"'
+    },
+    'search.more': {
+      es: 'Escribe el código de una publicación para ver sus detalles.',
+      pt: 'Escreva o código de um anúncio para ver os detalhes.',
+      en: 'Type a listing code to see its details.'
+    },
+    'knowledge.no_answer': {
+      es: 'No encontré información confiable para responder eso. ¿Quieres que te comunique con un agente? Responde "sí" o elige otra opción del menú.',
+      pt: 'Não encontrei informações confiáveis para responder isso. Quer falar com um atendente? Responda "sim" ou escolha outra opção do menu.',
+      en: 'I could not find reliable information to answer that. Would you like to talk to an agent? Reply "yes" or pick another option from the menu.'
+    },
+    'knowledge.sources': { es: 'Fuentes: {sources}', pt: 'Fontes: {sources}', en: 'Sources: {sources}' },
+    // Replies that accept the agent offered by knowledge.no_answer, whatever the session language
+    'knowledge.yes_words': { es: 'sí,si,dale,ok,claro,bueno,por favor', pt: 'sim,ok,claro,pode,por favor', en: 'yes,yeah,ok,sure,please' },
+    // Button titles: WhatsApp shows at most 20 characters
+    'channel.menu_button': { es: 'Ver menú', pt: 'Ver menu', en: 'See the menu' },
+    'channel.agent_button': { es: 'Sí, con un agente', pt: 'Sim, um atendente', en: 'Yes, an agent' },
+    'channel.list_button': { es: 'Ver opciones', pt: 'Ver opções', en: 'See options' },
+    'channel.choose': { es: 'Elige una opción:', pt: 'Escolha uma opção:', en: 'Pick an option:' },
+    'channel.unsupported': {
+      es: 'Por ahora solo puedo leer mensajes de texto. Escribe tu consulta o "menú" para ver las opciones.',
+      pt: 'Por enquanto só consigo ler mensagens de texto. Escreva sua dúvida ou "menu" para ver as opções.',
+      en: 'For now I can only read text messages. Type your question or "menu" to see the options.'
+    },
+    'hours.today': { es: 'hoy a las {time}', pt: 'hoje às {time}', en: 'today at {time}' },
+    'hours.tomorrow': { es: 'mañana a las {time}', pt: 'amanhã às {time}', en: 'tomorrow at {time}' },
+    'hours.weekday': { es: 'el {day} {date} a las {time}', pt: '{day}, {date}, às {time}', en: 'on {day} {date} at {time}' },
+    'hours.unknown_opening': { es: 'en el próximo horario hábil', pt: 'no próximo horário de atendimento', en: 'during our next business hours' },
+    'hours.range': { es: '{from} a {to}', pt: '{from} a {to}', en: '{from} to {to}' },
+    'hours.and': { es: 'y', pt: 'e', en: 'and' },
+    'hours.day_names': {
+      es: 'domingo,lunes,martes,miércoles,jueves,viernes,sábado',
+      pt: 'domingo,segunda-feira,terça-feira,quarta-feira,quinta-feira,sexta-feira,sábado',
+      en: 'Sunday,Monday,Tuesday,Wednesday,Thursday,Friday,Saturday'
+    },
+    'hours.day_abbreviations': {
+      es: 'Dom,Lun,Mar,Mié,Jue,Vie,Sáb',
+      pt: 'Dom,Seg,Ter,Qua,Qui,Sex,Sáb',
+      en: 'Sun,Mon,Tue,Wed,Thu,Fri,Sat'
+    }
+  },
+  
+  _language: null,
+  
+  // Language resolve() picked for a session, stored by the session's next save
+  _pending: null,
+  
+  /**
+   * Answer the rest of this execution in a language
+   * @param {string|null} language - Language code; null goes back to default_language
+   */
+  use(language) {
+    this._language = this.isSupported(language) ? language : null;
+  },
+  
+  /**
+   * Language of the current execution
+   * @returns {string} Language code
+   */
+  current() {
+    return this._language || this.getDefaultLanguage();
+  },
+  
+  /**
+   * Decide the language of a chat request. A new language is remembered on
+   * the session when the request saves it, not with a write of its own.
+   * @param {Object} params - Request parameters: lang, sessionId, action, userInput
+   * @param {boolean} cachedOnly - Skip sessions the cache has evicted instead of reading the sheet
+   * @returns {string} Language code
+   */
+  resolve(params, cachedOnly = false) {
+    this._pending = null;
+    const session = !params.sessionId ? {} :
+      cachedOnly ? SessionService.getCached(params.sessionId) : SessionService.get(params.sessionId);
+    let language = null;
+    let source = null;
+    
+    if (this.isSupported(params.lang)) {
+      language = params.lang;
+      source = 'param';
+    } else if (session.languageSource === 'param' && this.isSupported(session.language)) {
+      // A language the client asked for is kept until it asks for another
+      return session.language;
+    } else if (params.action === 'sendMessage') {
+      language = this.detect(params.userInput);
+      source = 'detected';
+    }
+    
+    if (!language) {
+      return this.isSupported(session.language) ? session.language : this.getDefaultLanguage();
+    }
+    
+    if (params.sessionId && (session.language !== language || session.languageSource !== source)) {
+      this._pending = { sessionId: String(params.sessionId), language: language, languageSource: source };
+    }
+    
+    return language;
+  },
+  
+  /**
+   * Hand the language resolve() picked for a session to SessionService.save, once
+   * @param {string} sessionId - Session being saved
+   * @returns {Object} { language, languageSource }, or nothing when unchanged
+   */
+  takePending(sessionId) {
+    if (!this._pending || this._pending.sessionId !== String(sessionId)) {
+      return {};
+    }
+    
+    const { language, languageSource } = this._pending;
+    this._pending = null;
+    return { language: language, languageSource: languageSource };
+  },
+  
+  /**
+   * Guess the language of a message from its common words
+   * @param {string} text - Customer message
+   * @returns {string|null} Enabled language with the most marker words, or null on a tie
+   */
+  detect(text) {
+    // Emails and links are not written in any language, and "com" in them is a Portuguese marker
+    const words = String(text || '').toLowerCase()
+      .replace(/\S+@\S+|\b(?:https?:\/\/|www\.)\S+/g, ' ')
+      .split(/[^a-zà-ÿ]+/)
+      .filter(Boolean);
+    const scores = this.getLanguages()
+      .map(language => ({
+        language: language,
+        hits: words.filter(word => (this.MARKERS[language] || []).includes(word)).length
+      }))
+      .sort((a, b) => b.hits - a.hits);
+      
+    if (scores.length === 0 || scores[0].hits === 0 || (scores[1] && scores[1].hits === scores[0].hits)) {
+      return null;
+    }
+    return scores[0].language;
+  },
+  
+  /**
+   * A built-in message in the current language
+   * @param {string} key - Key of MESSAGES
+   * @param {Object} values - Placeholder values
+   * @param {string} language - Optional language; defaults to the current one
+   * @returns {string} Message, or the key when it is unknown
+   */
+  t(key, values = {}, language = this.current()) {
+    const entry = this.MESSAGES[key];
+    if (!entry) {
+      Logger.log(`Unknown message key: ${key}`);
+      return key;
+    }
+    
+    const text = entry[language] || entry[this.getDefaultLanguage()] || entry[this.BASE_LANGUAGE];
+    return text.replace(/\{(\w+)\}/g, (match, name) => values[name] !== undefined ? String(values[name]) : match);
+  },
+  
+  /**
+   * A list message such as the day names, as an array
+   * @param {string} key - Key of a comma-separated MESSAGES entry
+   * @returns {Array} Items
+   */
+  list(key) {
+    return this.t(key).split(',');
+  },
+  
+  /**
+   * Pick the current language's text from a translations object
+   * @param {string} text - Text in default_language, from the main column
+   * @param {Object} translations - Language code → text, from the translation columns
+   * @returns {string} Translation, or the default-language text when there is none
+   */
+  pick(text, translations) {
+    const language = this.current();
+    const translated = translations && translations[language];
+    return language !== this.getDefaultLanguage() && translated ? translated : text;
+  },
+  
+  /**
+   * Parse a translation cell of Menu_Config, holding JSON of field → text
+   * @param {*} value - Cell value
+   * @returns {Object} Field → text; empty when the cell is blank or invalid
+   */
+  parseTranslation(value) {
+    if (!value) {
+      return {};
+    }
+    
+    try {
+      const parsed = typeof value === 'string' ? JSON.parse(value) : value;
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+    } catch (error) {
+      Logger.log(`Invalid translation: ${error.message}`);
+      return {};
+    }
+  },
+  
+  /**
+   * Header of a language's translation column in Menu_Config and Settings
+   * @param {string} prefix - 'Traducción' or 'Valor'
+   * @param {string} language - Language code
+   * @returns {string} e.g. "Traducción (pt)"
+   */
+  columnHeader(prefix, language) {
+    return `${prefix} (${language})`;
+  },
+  
+  /**
+   * Format a date in the business timezone the way the current language writes it
+   * @param {Date|string} date - Date to format
+   * @param {boolean} withTime - Day, month and time instead of the full date
+   * @returns {string} Formatted date
+   */
+  formatDate(date, withTime = false) {
+    const language = this.LANGUAGES[this.current()];
+    return Utilities.formatDate(
+      new Date(date),
+      BusinessHoursService.getTimezone(),
+      withTime ? language.dateTimeFormat : language.dateFormat
+    );
+  },
+  
+  /**
+   * Locale for Intl formatting in the current language
+   * @returns {string} e.g. "pt-BR"
+   */
+  getLocale() {
+    return this.LANGUAGES[this.current()].locale;
+  },
+  
+  /**
+   * Language of Menu_Config's main columns and of Settings' Valor column
+   * @returns {string} Language code
+   */
+  getDefaultLanguage() {
+    const language = ConfigService.get('default_language', this.BASE_LANGUAGE);
+    return this.LANGUAGES[language] ? language : this.BASE_LANGUAGE;
+  },
+  
+  /**
+   * Languages customers may be answered in, the default one first
+   * @returns {Array} Language codes
+   */
+  getLanguages() {
+    const defaultLanguage = this.getDefaultLanguage();
+    const enabled = String(ConfigService.get('languages', Object.keys(this.LANGUAGES).join(',')))
+      .split(',')
+      .map(language => language.trim().toLowerCase())
+      .filter(language => this.LANGUAGES[language] && language !== defaultLanguage);
+      
+    return [defaultLanguage, ...enabled];
+  },
+  
+  /**
+   * Whether a language is enabled
+   * @param {string} language - Language code
+   * @returns {boolean} True for the default language and the ones in the languages setting
+   */
+  isSupported(language) {
+    return typeof language === 'string' && this.getLanguages().includes(language);
+  },
+  
+  /**
+   * Languages for the dashboard editors
+   * @returns {Object} { default, languages: [{ code, name }] }
+   */
+  describeLanguages() {
+    return {
+      default: this.getDefaultLanguage(),
+      languages: this.getLanguages().map(code => ({ code: code, name: this.LANGUAGES[code].name }))
+    };
+  }
+};
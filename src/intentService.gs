@@ -0,0 +1,355 @@
+/**
+ * Intent Service - Decides what a free-text chat message is about
+ * 
+ * This service replaces the hardcoded keyword lists of ChatService:
+ * - Keyword, regex and entity rules read from the Intents sheet
+ * - An optional AI classification step for messages no rule is sure about
+ * - Entity extraction for order IDs, item IDs, emails and buyers
+ * - A report and a test action for the dashboard's Intents tab
+ */
+
+const IntentService = {
+  
+  // Intents ChatService knows how to answer; anything else falls back to general_ai
+  INTENTS: ['menu_request', 'order_inquiry', 'product_inquiry', 'escalation'],
+  
+  FALLBACK_INTENT: 'general_ai',
+  
+  // How much each kind of match counts; matches combine as 1 - (1 - w1)(1 - w2)...
+  WEIGHTS: {
+    keyword: 0.6,
+    pattern: 0.9,
+    entity: 0.7
+  },
+  
+  ENTITIES: ['order_id', 'item_id', 'email', 'buyer'],
+  
+  _rules: null,
+  
+  /**
+   * Classify a message
+   * @param {string} message - Customer message
+   * @param {Object} options - Optional: sessionId for the AI step, useAI (false skips it)
+   * @returns {Object} { intent, score, source, entities, candidates, ai }
+   */
+  classify(message, options = {}) {
+    const text = String(message || '');
+    const entities = this.extractEntities(text);
+    const candidates = this.scoreRules(text, entities);
+    const top = candidates[0];
+    
+    const result = {
+      intent: this.FALLBACK_INTENT,
+      score: 0,
+      source: 'default',
+      entities: entities,
+      candidates: candidates,
+      ai: null
+    };
+    
+    if (top && top.score >= ConfigService.get('intent_min_score', 50) / 100) {
+      return { ...result, intent: top.intent, score: top.score, source: 'rules' };
+    }
+    
+    if (options.useAI !== false && ConfigService.get('intent_ai_mode', 'off') === 'fallback' && text.trim()) {
+      result.ai = this.classifyWithAI(text, options.sessionId);
+      
+      if (result.ai && result.ai.confidence >= ConfigService.get('intent_ai_min_confidence', 70) / 100) {
+        return { ...result, intent: result.ai.intent, score: result.ai.confidence, source: 'ai' };
+      }
+    }
+    
+    return result;
+  },
+  
+  /**
+   * Score every active rule that matches the message
+   * @param {string} message - Customer message
+   * @param {Object} entities - Output of extractEntities
+   * @returns {Array} { intent, score, priority, matches } best first
+   */
+  scoreRules(message, entities) {
+    const normalized = this.normalize(message);
+    
+    return this.getRules()
+      .filter(rule => rule.active)
+      .map(rule => {
+        const matches = [];
+        
+        rule.keywords.forEach(keyword => {
+          if (this.containsWord(normalized, this.normalize(keyword))) {
+            matches.push({ type: 'keyword', value: keyword });
+          }
+        });
+        
+        rule.patterns.forEach(pattern => {
+          const regex = this.compile(pattern);
+          if (regex && regex.test(message)) {
+            matches.push({ type: 'pattern', value: pattern });
+          }
+        });
+        
+        rule.entities.forEach(entity => {
+          if (entities[entity] !== undefined) {
+            matches.push({ type: 'entity', value: entity });
+          }
+        });
+        
+        const miss = matches.reduce((product, match) => product * (1 - this.WEIGHTS[match.type]), 1);
+        
+        return {
+          intent: rule.intent,
+          score: Math.round((1 - miss) * 100) / 100,
+          priority: rule.priority,
+          matches: matches
+        };
+      })
+      .filter(candidate => candidate.matches.length > 0)
+      .sort((a, b) => b.score - a.score || b.priority - a.priority);
+  },
+  
+  /**
+   * Ask the AI provider chain which intent fits the message
+   * @param {string} message - Customer message
+   * @param {string} sessionId - Session identifier for provider health
+   * @returns {Object|null} { intent, confidence, provider }, or null without a usable answer
+   */
+  classifyWithAI(message, sessionId) {
+    const descriptions = this.getRules()
+      .filter(rule => rule.active)
+      .reduce((lines, rule) => {
+        if (!lines.some(line => line.startsWith(`- ${rule.intent}:`))) {
+          lines.push(`- ${rule.intent}: ${rule.description || rule.intent}`);
+        }
+        return lines;
+      }, []);
+    descriptions.push(`- ${this.FALLBACK_INTENT}: cualquier otra consulta`);
+    
+    const response = AIService.generateResponse(null, {
+      systemPrompt: 'Clasifica el mensaje de un cliente de una tienda en línea en una de estas intenciones:\n' +
+        `${descriptions.join('\n')}\n` +
+        'Responde solo con JSON como {"intent": "order_inquiry", "confidence": 0.8}, donde confidence va de 0 a 1.',
+      userQuery: message,
+      maxTokens: 60,
+      sessionId: sessionId
+    });
+    
+    if (!response.success) {
+      return null;
+    }
+    
+    try {
+      const parsed = JSON.parse((response.content.match(/\{[\s\S]*\}/) || ['null'])[0]);
+      const intent = parsed && String(parsed.intent);
+      const confidence = Number(parsed && parsed.confidence);
+      
+      if (!this.INTENTS.includes(intent) && intent !== this.FALLBACK_INTENT) {
+        return null;
+      }
+      
+      return {
+        intent: intent,
+        confidence: Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0,
+        provider: response.provider
+      };
+      
+    } catch (error) {
+      Logger.log(`Unreadable intent from ${response.provider}: ${response.content}`);
+      return null;
+    }
+  },
+  
+  /**
+   * Find the order ID, item ID, email and buyer a message mentions
+   * @param {string} message - Customer message
+   * @returns {Object} Only the entities found: { order_id, item_id, email, buyer }
+   */
+  extractEntities(message) {
+    const entities = {};
+    const orderId = ChatService.extractOrderId(message);
+    const itemId = ChatService.extractProductId(message);
+    const email = message.match(/[^\s@]+@[^\s@]+\.[^\s@]+/);
+    const buyer = ChatService.extractBuyer(message);
+    
+    if (orderId) entities.order_id = orderId;
+    if (itemId) entities.item_id = itemId;
+    if (email) entities.email = email[0].replace(/[.,;:!?)]+$/, '');
+    if (buyer) entities.buyer = buyer;
+    
+    return entities;
+  },
+  
+  /**
+   * Read the Intents sheet
+   * @returns {Array} { row, intent, keywords, patterns, entities, priority, active, description, errors }
+   */
+  getRules() {
+    if (this._rules) {
+      return this._rules;
+    }
+    
+    try {
+      const data = SheetsService.getSheet(CONFIG.SHEETS.INTENTS_SHEET).getDataRange().getValues();
+      const list = value => String(value || '').split(',').map(item => item.trim()).filter(Boolean);
+      
+      this._rules = data.slice(1)
+        .map((row, index) => ({ row: row, number: index + 2 }))
+        .filter(({ row }) => String(row[0] || '').trim())
+        .map(({ row, number }) => {
+          const patterns = String(row[2] || '').split('\n').map(pattern => pattern.trim()).filter(Boolean);
+          const entities = list(row[3]);
+          const errors = [];
+          
+          patterns.filter(pattern => !this.compile(pattern)).forEach(pattern => {
+            errors.push(`Invalid pattern: ${pattern}`);
+          });
+          entities.filter(entity => !this.ENTITIES.includes(entity)).forEach(entity => {
+            errors.push(`Unknown entity: ${entity}`);
+          });
+          
+          const intent = String(row[0]).trim();
+          if (!this.INTENTS.includes(intent)) {
+            errors.push(`Unknown intent: ${intent}`);
+          }
+          
+          return {
+            row: number,
+            intent: intent,
+            keywords: list(row[1]),
+            patterns: patterns,
+            entities: entities,
+            priority: Number(row[4]) || 0,
+            // Rows for intents ChatService cannot answer are reported but never chosen
+            active: row[5] !== false && String(row[5]).toUpperCase() !== 'FALSE' && this.INTENTS.includes(intent),
+            description: String(row[6] || ''),
+            errors: errors
+          };
+        });
+        
+      return this._rules;
+      
+    } catch (error) {
+      Logger.log(`Error reading intents: ${error.message}`);
+      return [];
+    }
+  },
+  
+  /**
+   * Forget the rules read in this execution, after the sheet changes
+   */
+  clearCache() {
+    this._rules = null;
+  },
+  
+  /**
+   * Rules and thresholds for the dashboard's Intents tab
+   * @returns {Object} { success, intents, settings }
+   */
+  getReport() {
+    try {
+      return {
+        success: true,
+        type: 'intents',
+        intents: this.getRules(),
+        settings: this.getSettings(),
+        timestamp: new Date().toISOString()
+      };
+      
+    } catch (error) {
+      Logger.log(`Error building intents report: ${error.message}`);
+      
+      return {
+        success: false,
+        error: 'No se pudieron cargar las intenciones.',
+        timestamp: new Date().toISOString()
+      };
+    }
+  },
+  
+  /**
+   * Classify a message from the dashboard without answering it
+   * @param {string} message - Message to try
+   * @returns {Object} { success, message, strategy, ...classify() }
+   */
+  test(message) {
+    try {
+      if (!String(message || '').trim()) {
+        return {
+          success: false,
+          code: 'validation',
+          error: 'Escribe un mensaje para probar.',
+          errors: [{ index: -1, field: 'message', message: 'Message is required' }],
+          timestamp: new Date().toISOString()
+        };
+      }
+      
+      const classification = this.classify(message, { sessionId: 'intent_test' });
+      
+      return {
+        success: true,
+        type: 'intent_test',
+        message: message,
+        ...classification,
+        settings: this.getSettings(),
+        timestamp: new Date().toISOString()
+      };
+      
+    } catch (error) {
+      Logger.log(`Error testing intent: ${error.message}`);
+      
+      return {
+        success: false,
+        error: 'No se pudo clasificar el mensaje.',
+        timestamp: new Date().toISOString()
+      };
+    }
+  },
+  
+  /**
+   * Classification settings as fractions
+   * @returns {Object} { minScore, aiMode, aiMinConfidence }
+   */
+  getSettings() {
+    return {
+      minScore: ConfigService.get('intent_min_score', 50) / 100,
+      aiMode: ConfigService.get('intent_ai_mode', 'off'),
+      aiMinConfidence: ConfigService.get('intent_ai_min_confidence', 70) / 100
+    };
+  },
+  
+  /**
+   * Lowercase and drop accents, so "Envío" matches the keyword "envio"
+   * @param {string} text - Text to normalize
+   * @returns {string} Normalized text
+   */
+  normalize(text) {
+    return String(text || '').toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+  },
+  
+  /**
+   * Whole-word or whole-phrase match, so "orden" does not match "ordenador"
+   * @param {string} text - Normalized text
+   * @param {string} phrase - Normalized keyword
+   * @returns {boolean} True if the phrase appears
+   */
+  containsWord(text, phrase) {
+    if (!phrase) {
+      return false;
+    }
+    const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|[^a-z0-9])${escaped}($|[^a-z0-9])`).test(text);
+  },
+  
+  /**
+   * Compile a pattern cell, case-insensitive
+   * @param {string} pattern - Regular expression source
+   * @returns {RegExp|null} Null when the pattern is invalid
+   */
+  compile(pattern) {
+    try {
+      return new RegExp(pattern, 'i');
+    } catch (error) {
+      return null;
+    }
+  }
+};
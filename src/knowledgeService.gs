@@ -0,0 +1,519 @@
+/**
+ * Knowledge Service - Grounds AI answers in the Knowledge_Base sheet
+ * 
+ * This service keeps the AI from inventing store policies:
+ * - Q&A entries and policy snippets with tags, read from the Knowledge_Base sheet
+ * - BM25 ranking of the entries for each customer question
+ * - Numbered sources in the prompt that the answer cites
+ * - A "no confident answer" reply that offers a human agent
+ * - An editor and a test action for the dashboard's Knowledge tab
+ */
+
+const KnowledgeService = {
+  
+  TYPES: ['faq', 'policy'],
+  
+  // BM25 term saturation and length normalization
+  K1: 1.2,
+  B: 0.75,
+  
+  // Title and tags describe the entry, so their words count more than the content's
+  FIELD_WEIGHTS: {
+    title: 2,
+    tags: 2,
+    content: 1
+  },
+  
+  // What the model answers when the sources do not cover the question
+  NO_ANSWER: 'SIN_RESPUESTA',
+  
+  MAX_CONTENT_LENGTH: 5000,
+  
+  // Words too common in Spanish, Portuguese and English questions to tell entries apart, without accents
+  STOPWORDS: [
+    'el', 'la', 'los', 'las', 'un', 'una', 'unos', 'unas', 'de', 'del', 'al', 'en', 'y', 'o', 'que', 'como', 'cual', 'cuales',
+    'cuando', 'donde', 'cuanto', 'cuanta', 'por', 'para', 'con', 'sin', 'se', 'su', 'sus', 'mi', 'mis', 'tu', 'tus', 'es', 'son',
+    'esta', 'estan', 'hay', 'me', 'te', 'le', 'lo', 'nos', 'les', 'ya', 'si', 'no', 'mas', 'muy', 'tengo', 'tienen', 'tiene',
+    'puedo', 'pueden', 'quiero', 'hola', 'gracias', 'ustedes', 'os', 'as', 'um', 'do', 'da', 'dos', 'das', 'na', 'nas', 'e',
+    'ou', 'qual', 'quando', 'onde', 'quanto', 'com', 'sem', 'seu', 'sua', 'meu', 'minha', 'voce', 'voces', 'tem', 'posso',
+    'quero', 'ola', 'oi', 'obrigado', 'obrigada', 'the', 'an', 'of', 'to', 'in', 'on', 'and', 'or', 'what', 'how', 'which',
+    'when', 'where', 'for', 'with', 'without', 'is', 'are', 'do', 'does', 'can', 'i', 'my', 'you', 'your', 'it', 'we', 'our',
+    'have', 'has', 'hello', 'hi', 'thanks', 'please'
+  ],
+  
+  _entries: null,
+  _index: null,
+  
+  /**
+   * Rank the entries for a question and pick the ones confident enough to answer from
+   * @param {string} query - Customer question
+   * @returns {Object|null} { query, terms, results, sources, confident }; null while the sheet has no active entries
+   */
+  retrieve(query) {
+    const index = this.getIndex();
+    
+    if (index.documents.length === 0) {
+      return null;
+    }
+    
+    const settings = this.getSettings();
+    const results = this.search(query).slice(0, settings.maxResults);
+    const sources = results
+      .filter(result => result.confidence >= settings.minConfidence)
+      .map((result, i) => ({ ...result, number: i + 1 }));
+    
+    return {
+      query: String(query || ''),
+      terms: this.unique(this.tokenize(query)),
+      results: results,
+      sources: sources,
+      confident: sources.length > 0
+    };
+  },
+  
+  /**
+   * Score every active entry against a question with BM25
+   * @param {string} query - Customer question
+   * @returns {Array} { id, type, title, content, tags, score, confidence, matches } best first.
+   *   confidence is the share of the question's weight the entry matches; words no entry uses do not count
+   */
+  search(query) {
+    const index = this.getIndex();
+    const count = index.documents.length;
+    const terms = this.unique(this.tokenize(query)).filter(term => index.frequencies[term]);
+    
+    if (terms.length === 0) {
+      return [];
+    }
+    
+    const idf = term => Math.log(1 + (count - index.frequencies[term] + 0.5) / (index.frequencies[term] + 0.5));
+    const questionWeight = terms.reduce((sum, term) => sum + idf(term), 0);
+    
+    return index.documents
+      .map(document => {
+        const matches = terms.filter(term => document.terms[term]);
+        const score = matches.reduce((sum, term) => {
+          const frequency = document.terms[term];
+          const norm = 1 - this.B + this.B * document.length / index.averageLength;
+          return sum + idf(term) * frequency * (this.K1 + 1) / (frequency + this.K1 * norm);
+        }, 0);
+        const matchedWeight = matches.reduce((sum, term) => sum + idf(term), 0);
+        
+        return {
+          id: document.entry.id,
+          type: document.entry.type,
+          title: document.entry.title,
+          content: document.entry.content,
+          tags: document.entry.tags,
+          score: Math.round(score * 100) / 100,
+          confidence: Math.round(matchedWeight / questionWeight * 100) / 100,
+          matches: matches
+        };
+      })
+      .filter(result => result.matches.length > 0)
+      .sort((a, b) => b.score - a.score);
+  },
+  
+  /**
+   * Prompt section with the sources to answer from, numbered for citations
+   * @param {Object} knowledge - Output of retrieve()
+   * @param {string} [language] - Session language code the answer must be in
+   * @returns {string} Text for AIService.buildPrompt
+   */
+  formatForPrompt(knowledge, language) {
+    // Articles are written in the store's language; the marker has to come back untranslated
+    const reply = language && I18nService.LANGUAGES[language]
+      ? `    Responde en ${I18nService.LANGUAGES[language].name} (${language}) aunque los artículos estén en otro idioma, ` +
+        `pero escribe ${this.NO_ANSWER} tal cual, sin traducir.\n`
+      : '';
+    
+    if (knowledge.sources.length === 0) {
+      return '\n    Base de conocimiento: no hay artículos sobre esta consulta. No inventes políticas, plazos, costos ni garantías; ' +
+        `si el cliente pregunta por ellos, responde solo ${this.NO_ANSWER}.\n${reply}`;
+    }
+    
+    const articles = knowledge.sources
+      .map(source => `    [${source.number}] ${source.title}\n    ${source.content}`)
+      .join('\n');
+    
+    return `\n    Base de conocimiento de la tienda:\n${articles}\n\n` +
+      '    Responde sobre políticas, plazos, envíos, pagos y garantías solo con estos artículos y cita el número ' +
+      `del que sale cada dato, por ejemplo [1]. Si no alcanzan para responder, responde solo ${this.NO_ANSWER}.\n${reply}`;
+  },
+  
+  /**
+   * Turn the model's text into the customer's answer
+   * @param {string} content - Text from AIService
+   * @param {Object|null} knowledge - Output of retrieve() the prompt was built with
+   * @returns {Object} { type: 'ai' or 'no_answer', message, sources }
+   */
+  answer(content, knowledge) {
+    if (!knowledge) {
+      return { type: 'ai', message: content, sources: [] };
+    }
+    
+    if (String(content).includes(this.NO_ANSWER)) {
+      return { type: 'no_answer', message: I18nService.t('knowledge.no_answer'), sources: [] };
+    }
+    
+    const cited = knowledge.sources
+      .filter(source => String(content).includes(`[${source.number}]`))
+      .map(source => ({ number: source.number, id: source.id, title: source.title }));
+    
+    if (cited.length === 0) {
+      return { type: 'ai', message: content, sources: [] };
+    }
+    
+    const list = cited.map(source => `[${source.number}] ${source.title}`).join(' · ');
+    
+    return {
+      type: 'ai',
+      message: `${content}\n\n${I18nService.t('knowledge.sources', { sources: list })}`,
+      sources: cited
+    };
+  },
+  
+  /**
+   * Whether a reply to a no_answer message takes up the offer of an agent
+   * @param {string} message - Customer message
+   * @returns {boolean} True for "sí", "sim", "yes" and the like
+   */
+  acceptsOffer(message) {
+    const words = IntentService.normalize(message).split(/[^a-z]+/).filter(Boolean);
+    const text = words.join(' ');
+    const yes = Object.keys(I18nService.LANGUAGES)
+      .flatMap(language => I18nService.t('knowledge.yes_words', {}, language).split(','))
+      .map(word => IntentService.normalize(word.trim()));
+    
+    // A short reply that opens with a yes; longer messages are new questions
+    return words.length > 0 && words.length <= 4 && yes.some(word => text === word || text.startsWith(`${word} `));
+  },
+  
+  /**
+   * Read the Knowledge_Base sheet
+   * @returns {Array} { row, id, type, title, content, tags, active, errors }
+   */
+  getEntries() {
+    if (this._entries) {
+      return this._entries;
+    }
+    
+    try {
+      const data = SheetsService.getSheet(CONFIG.SHEETS.KNOWLEDGE_SHEET).getDataRange().getValues();
+      const seen = {};
+      
+      this._entries = data.slice(1)
+        .map((row, index) => ({ row: row, number: index + 2 }))
+        .filter(({ row }) => String(row[2] || '').trim() || String(row[3] || '').trim())
+        .map(({ row, number }) => {
+          const id = String(row[0] || '').trim();
+          const type = String(row[1] || '').trim().toLowerCase();
+          const errors = [];
+          
+          if (!id) {
+            errors.push('Missing ID');
+          } else if (seen[id]) {
+            errors.push(`ID ${id} is also used in row ${seen[id]}`);
+          } else {
+            seen[id] = number;
+          }
+          if (!this.TYPES.includes(type)) {
+            errors.push(`Unknown type: ${type}`);
+          }
+          if (!String(row[3] || '').trim()) {
+            errors.push('Missing content');
+          }
+          
+          return {
+            row: number,
+            id: id,
+            type: type,
+            title: String(row[2] || '').trim(),
+            content: String(row[3] || '').trim(),
+            tags: String(row[4] || '').split(',').map(tag => tag.trim()).filter(Boolean),
+            active: row[5] !== false && String(row[5]).toUpperCase() !== 'FALSE',
+            errors: errors
+          };
+        });
+      
+      return this._entries;
+      
+    } catch (error) {
+      Logger.log(`Error reading knowledge base: ${error.message}`);
+      return [];
+    }
+  },
+  
+  /**
+   * Term counts of the active entries, built once per execution
+   * @returns {Object} { documents: [{ entry, terms, length }], frequencies, averageLength }
+   */
+  getIndex() {
+    if (this._index) {
+      return this._index;
+    }
+    
+    const documents = this.getEntries()
+      .filter(entry => entry.active && entry.content)
+      .map(entry => {
+        const terms = {};
+        let length = 0;
+        
+        Object.keys(this.FIELD_WEIGHTS).forEach(field => {
+          const text = field === 'tags' ? entry.tags.join(' ') : entry[field];
+          this.tokenize(text).forEach(term => {
+            terms[term] = (terms[term] || 0) + this.FIELD_WEIGHTS[field];
+            length += this.FIELD_WEIGHTS[field];
+          });
+        });
+        
+        return { entry: entry, terms: terms, length: length };
+      });
+    
+    // Number of entries each term appears in
+    const frequencies = {};
+    documents.forEach(document => {
+      Object.keys(document.terms).forEach(term => {
+        frequencies[term] = (frequencies[term] || 0) + 1;
+      });
+    });
+    
+    this._index = {
+      documents: documents,
+      frequencies: frequencies,
+      averageLength: documents.reduce((sum, document) => sum + document.length, 0) / (documents.length || 1)
+    };
+    
+    return this._index;
+  },
+  
+  /**
+   * Forget the entries read in this execution, after the sheet changes
+   */
+  clearCache() {
+    this._entries = null;
+    this._index = null;
+  },
+  
+  /**
+   * Split text into search terms: without accents, stopwords or plural and gender endings
+   * @param {string} text - Text to split
+   * @returns {Array} Terms, repeated as often as they appear
+   */
+  tokenize(text) {
+    return IntentService.normalize(text)
+      .split(/[^a-z0-9]+/)
+      .filter(word => word.length > 1 && !this.STOPWORDS.includes(word))
+      .map(word => this.stem(word));
+  },
+  
+  /**
+   * Fold a word's plural and gender ending, so envío, envíos and envio share a term
+   * @param {string} word - Normalized word
+   * @returns {string} Stem
+   */
+  stem(word) {
+    if (/^\d+$/.test(word)) {
+      return word;
+    }
+    const singular = word.length > 3 ? word.replace(/s$/, '') : word;
+    return singular.length > 3 ? singular.replace(/[aeiou]$/, '') : singular;
+  },
+  
+  /**
+   * Drop repeated items, keeping the first of each
+   * @param {Array} items - Items
+   * @returns {Array} Items without repeats
+   */
+  unique(items) {
+    return items.filter((item, i) => items.indexOf(item) === i);
+  },
+  
+  /**
+   * Retrieval settings as numbers and fractions
+   * @returns {Object} { maxResults, minConfidence }
+   */
+  getSettings() {
+    return {
+      maxResults: ConfigService.get('knowledge_max_results', 3),
+      minConfidence: ConfigService.get('knowledge_min_confidence', 50) / 100
+    };
+  },
+  
+  /**
+   * Entries and settings for the dashboard's Knowledge tab
+   * @returns {Object} { success, entries, types, settings }
+   */
+  getReport() {
+    try {
+      return {
+        success: true,
+        type: 'knowledge_base',
+        entries: this.getEntries(),
+        types: this.TYPES,
+        settings: this.getSettings(),
+        timestamp: new Date().toISOString()
+      };
+      
+    } catch (error) {
+      Logger.log(`Error building knowledge report: ${error.message}`);
+      
+      return {
+        success: false,
+        error: 'No se pudo cargar la base de conocimiento.',
+        timestamp: new Date().toISOString()
+      };
+    }
+  },
+  
+  /**
+   * Validate and save every entry from the dashboard editor
+   * @param {Array} entries - Entries in display order; a blank ID gets the next KB-nnn
+   * @returns {Object} Same payload as getReport(), or validation errors
+   */
+  update(entries) {
+    try {
+      const errors = this.validateEntries(entries);
+      
+      if (errors.length > 0) {
+        return {
+          success: false,
+          code: 'validation',
+          error: 'La base de conocimiento tiene errores.',
+          errors: errors,
+          timestamp: new Date().toISOString()
+        };
+      }
+      
+      let next = entries.reduce((max, entry) => {
+        const match = String(entry.id || '').match(/^KB-(\d+)$/);
+        return match ? Math.max(max, Number(match[1])) : max;
+      }, 0);
+      
+      const rows = entries.map(entry => [
+        String(entry.id || '').trim() || `KB-${String(++next).padStart(3, '0')}`,
+        entry.type,
+        String(entry.title).trim(),
+        String(entry.content).trim(),
+        (Array.isArray(entry.tags) ? entry.tags : String(entry.tags || '').split(',')).map(tag => String(tag).trim()).filter(Boolean).join(', '),
+        entry.active !== false
+      ]);
+      
+      SheetsService.replaceData(CONFIG.SHEETS.KNOWLEDGE_SHEET, rows);
+      this.clearCache();
+      
+      LoggingService.logInteraction('knowledge_update', 'dashboard', {
+        message: `Knowledge base updated with ${rows.length} entries`
+      });
+      
+      return this.getReport();
+      
+    } catch (error) {
+      Logger.log(`Error updating knowledge base: ${error.message}`);
+      LoggingService.logError('updateKnowledgeBase', error);
+      
+      return {
+        success: false,
+        error: 'No se pudo guardar la base de conocimiento. Intenta nuevamente.',
+        timestamp: new Date().toISOString()
+      };
+    }
+  },
+  
+  /**
+   * Validate entries before writing them to Knowledge_Base
+   * @param {Array} entries - Entries
+   * @returns {Array} List of {index, field, message} errors
+   */
+  validateEntries(entries) {
+    if (!Array.isArray(entries)) {
+      return [{ index: -1, field: 'entries', message: 'Entries must be a list' }];
+    }
+    
+    const errors = [];
+    const seen = {};
+    
+    entries.forEach((entry, index) => {
+      const id = String(entry.id || '').trim();
+      
+      if (id && !/^[A-Za-z0-9_-]+$/.test(id)) {
+        errors.push({ index, field: 'id', message: 'ID may only use letters, numbers, - and _' });
+      } else if (id && seen[id] !== undefined) {
+        errors.push({ index, field: 'id', message: `ID ${id} is also used by entry ${seen[id] + 1}` });
+      } else if (id) {
+        seen[id] = index;
+      }
+      
+      if (!this.TYPES.includes(entry.type)) {
+        errors.push({ index, field: 'type', message: `Unknown type "${entry.type}"` });
+      }
+      
+      if (!String(entry.title || '').trim()) {
+        errors.push({ index, field: 'title', message: 'Title is required' });
+      }
+      
+      const content = String(entry.content || '').trim();
+      if (!content) {
+        errors.push({ index, field: 'content', message: 'Content is required' });
+      } else if (content.length > this.MAX_CONTENT_LENGTH) {
+        errors.push({ index, field: 'content', message: `Content must be at most ${this.MAX_CONTENT_LENGTH} characters` });
+      }
+    });
+    
+    return errors;
+  },
+  
+  /**
+   * Answer a question from the dashboard the way the chat would, without a session
+   * @param {string} question - Question to try
+   * @returns {Object} { success, question, terms, results, sources, confident, answer }
+   */
+  test(question) {
+    try {
+      if (!String(question || '').trim()) {
+        return {
+          success: false,
+          code: 'validation',
+          error: 'Escribe una pregunta para probar.',
+          errors: [{ index: -1, field: 'question', message: 'Question is required' }],
+          timestamp: new Date().toISOString()
+        };
+      }
+      
+      const knowledge = this.retrieve(question);
+      const aiResponse = AIService.generateResponse(null, {
+        userQuery: question,
+        context: ChatService.GENERAL_AI_INSTRUCTIONS,
+        maxTokens: 400,
+        sessionId: 'knowledge_test',
+        language: I18nService.current(),
+        knowledge: knowledge
+      });
+      
+      return {
+        success: true,
+        type: 'knowledge_test',
+        question: question,
+        terms: knowledge ? knowledge.terms : [],
+        results: knowledge ? knowledge.results : [],
+        sources: knowledge ? knowledge.sources : [],
+        confident: Boolean(knowledge && knowledge.confident),
+        answer: aiResponse.success
+          ? { ...this.answer(aiResponse.content, knowledge), provider: aiResponse.provider }
+          : null,
+        error: aiResponse.success ? undefined : aiResponse.error,
+        settings: this.getSettings(),
+        timestamp: new Date().toISOString()
+      };
+      
+    } catch (error) {
+      Logger.log(`Error testing knowledge base: ${error.message}`);
+      
+      return {
+        success: false,
+        error: 'No se pudo probar la pregunta.',
+        timestamp: new Date().toISOString()
+      };
+    }
+  }
+};
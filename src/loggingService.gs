@@ -242,6 +242,91 @@ const LoggingService = {
     }
   },
   
+  /**
+   * Get one page of logs for the dashboard log explorer
+   * @param {Object} params - Filters plus page, pageSize, search and order
+   * @returns {Object} Logs page response object
+   */
+  getLogsPage(params = {}) {
+    try {
+      const pageSize = Math.min(Math.max(parseInt(params.pageSize, 10) || 50, 1), 500);
+      const page = Math.max(parseInt(params.page, 10) || 1, 1);
+      
+      let rows = this.getLogs({
+        startDate: params.startDate,
+        endDate: params.endDate && /^\d{4}-\d{2}-\d{2}$/.test(params.endDate)
+          ? `${params.endDate}T23:59:59.999Z`
+          : params.endDate,
+        interactionType: params.interactionType,
+        sessionId: params.sessionId,
+        status: params.status
+      });
+      
+      // Free text search over session, messages and provider
+      if (params.search) {
+        const needle = String(params.search).toLowerCase();
+        rows = rows.filter(row =>
+          [row[1], row[3], row[4], row[5]].some(value => String(value).toLowerCase().includes(needle))
+        );
+      }
+      
+      // Newest first unless replaying a conversation
+      if (params.order !== 'asc') {
+        rows = rows.slice().reverse();
+      }
+      
+      const total = rows.length;
+      const start = (page - 1) * pageSize;
+      
+      return {
+        success: true,
+        type: 'logs',
+        entries: rows.slice(start, start + pageSize).map(row => this.formatLogEntry(row)),
+        page: page,
+        pageSize: pageSize,
+        total: total,
+        totalPages: Math.max(Math.ceil(total / pageSize), 1),
+        timestamp: new Date().toISOString()
+      };
+      
+    } catch (error) {
+      Logger.log(`Error getting logs page: ${error.message}`);
+      return {
+        success: false,
+        error: 'No se pudieron cargar los registros.',
+        timestamp: new Date().toISOString()
+      };
+    }
+  },
+  
+  /**
+   * Convert a Chat_Logs row into a keyed object
+   * @param {Array} row - Sheet row
+   * @returns {Object} Log entry
+   */
+  formatLogEntry(row) {
+    const [timestamp, sessionId, interactionType, userMessage, botResponse, provider, responseTime, status, metadata] = row;
+    
+    let parsedMetadata = {};
+    try {
+      parsedMetadata = metadata ? JSON.parse(metadata) : {};
+    } catch (error) {
+      parsedMetadata = { raw: String(metadata) };
+    }
+    
+    return {
+      timestamp: timestamp instanceof Date ? timestamp.toISOString() : String(timestamp),
+      sessionId: String(sessionId),
+      interactionType: String(interactionType),
+      userMessage: String(userMessage || ''),
+      botResponse: String(botResponse || ''),
+      provider: String(provider || ''),
+      responseTime: Number(responseTime) || 0,
+      status: String(status),
+      metadata: parsedMetadata
+    };
+  },
+  
   /**
    * Get analytics summary
    * @param {Object} dateRange - Date range for analytics
@@ -249,7 +334,10 @@ const LoggingService = {
    */
   getAnalytics(dateRange = {}) {
     try {
-      const logs = this.getLogs(dateRange);
+      // Provider call timings are not conversations; they feed the AI health report instead.
+      // Throttled requests never reached the bot, so they are counted apart.
+      const entries = this.getLogs(dateRange).filter(log => log[2] !== 'ai_performance');
+      const logs = entries.filter(log => log[2] !== 'throttled');
       
       const analytics = {
         totalInteractions: logs.length,
@@ -260,7 +348,9 @@ const LoggingService = {
         aiUsage: {},
         topErrors: [],
         busyHours: {},
-        dailyStats: {}
+        busyHoursByDay: {},
+        dailyStats: {},
+        throttled: this.summarizeThrottled(entries.filter(log => log[2] === 'throttled'))
       };
       
       // Process logs
@@ -299,6 +389,13 @@ const LoggingService = {
         const hour = new Date(timestamp).getHours();
         analytics.busyHours[hour] = (analytics.busyHours[hour] || 0) + 1;
         
+        // Day-of-week x hour grid for the heatmap (0 = Sunday)
+        const day = new Date(timestamp).getDay();
+        if (!analytics.busyHoursByDay[day]) {
+          analytics.busyHoursByDay[day] = {};
+        }
+        analytics.busyHoursByDay[day][hour] = (analytics.busyHoursByDay[day][hour] || 0) + 1;
+        
         // Daily stats
         const date = new Date(timestamp).toISOString().split('T')[0];
         if (!analytics.dailyStats[date]) {
@@ -334,6 +431,78 @@ const LoggingService = {
     }
   },
   
+  /**
+   * Requests rejected by RateLimitService, by reason, day and session. Each row
+   * also counts the requests it stands for that were not logged (repeated).
+   * @param {Array} logs - Chat_Logs rows of type throttled
+   * @returns {Object} { total, byReason, daily, topSessions }
+   */
+  summarizeThrottled(logs) {
+    const summary = { total: 0, byReason: {}, daily: {}, topSessions: [] };
+    const bySession = {};
+    
+    logs.forEach(log => {
+      const [timestamp, sessionId, , , , , , , metadata] = log;
+      let reason = 'unknown';
+      let count = 1;
+      try {
+        const details = JSON.parse(metadata);
+        reason = details.reason || reason;
+        count += Number(details.repeated) || 0;
+      } catch (error) {
+        // Rows edited by hand may not hold JSON
+      }
+      
+      const date = new Date(timestamp).toISOString().split('T')[0];
+      summary.total += count;
+      summary.byReason[reason] = (summary.byReason[reason] || 0) + count;
+      summary.daily[date] = (summary.daily[date] || 0) + count;
+      bySession[sessionId] = (bySession[sessionId] || 0) + count;
+    });
+    
+    summary.topSessions = Object.keys(bySession)
+      .map(sessionId => ({ sessionId: sessionId, count: bySession[sessionId] }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 5);
+    
+    return summary;
+  },
+  
+  /**
+   * Build the analytics response for the web app
+   * @param {Object} params - Request parameters with optional startDate/endDate
+   * @returns {Object} Analytics response object
+   */
+  getAnalyticsReport(params = {}) {
+    const dateRange = {
+      startDate: params.startDate || null,
+      endDate: params.endDate || null
+    };
+    
+    // A bare YYYY-MM-DD end date should include the whole day
+    if (dateRange.endDate && /^\d{4}-\d{2}-\d{2}$/.test(dateRange.endDate)) {
+      dateRange.endDate = `${dateRange.endDate}T23:59:59.999Z`;
+    }
+    
+    const analytics = this.getAnalytics(dateRange);
+    
+    if (analytics.error) {
+      return {
+        success: false,
+        error: 'No se pudieron calcular las estadísticas.',
+        timestamp: new Date().toISOString()
+      };
+    }
+    
+    return {
+      success: true,
+      type: 'analytics',
+      range: dateRange,
+      analytics: analytics,
+      timestamp: new Date().toISOString()
+    };
+  },
+  
   /**
    * Clean up old logs to manage storage
    * @param {number} daysToKeep - Number of days to keep logs
@@ -398,12 +567,14 @@ const LoggingService = {
   sanitizeMetadata(metadata) {
     const sanitized = { ...metadata };
     
-    // Remove sensitive fields
-    const sensitiveFields = ['password', 'token', 'apiKey', 'secret', 'credential'];
+    // Remove sensitive fields; "key" alone is the login access key, and matching it
+    // anywhere in a name would hide fields like sessionKey
+    const sensitiveFields = ['password', 'token', 'apikey', 'adminkey', 'secret', 'credential'];
+    const sensitiveNames = ['key'];
     
     Object.keys(sanitized).forEach(key => {
       const lowerKey = key.toLowerCase();
-      if (sensitiveFields.some(field => lowerKey.includes(field))) {
+      if (sensitiveNames.includes(lowerKey) || sensitiveFields.some(field => lowerKey.includes(field))) {
         sanitized[key] = '[REDACTED]';
       }
     });
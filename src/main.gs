@@ -5,9 +5,12 @@
  * - Initial setup and configuration validation
  * - Request routing to appropriate modules
  * - Web app deployment endpoints
- * - CORS handling for browser-based calls
+ * - Role checks on dashboard actions (see AuthService)
+ * - Limits on the public chat actions (see RateLimitService)
+ * - WhatsApp and Telegram webhooks (see ChannelService)
  * 
- * Security: All sensitive credentials are stored in Script Properties
+ * Security: All sensitive credentials are stored in Script Properties; dashboard
+ * actions need a signed token from the login action
  * Architecture: Modular design with clear separation of concerns
  */
 
@@ -16,7 +19,12 @@ const CONFIG = {
   SHEETS: {
     MENU_SHEET: 'Menu_Config',
     LOGS_SHEET: 'Chat_Logs',
-    SETTINGS_SHEET: 'Settings'
+    SETTINGS_SHEET: 'Settings',
+    SESSIONS_SHEET: 'Sessions',
+    ESCALATIONS_SHEET: 'Escalations',
+    HOLIDAYS_SHEET: 'Holidays',
+    INTENTS_SHEET: 'Intents',
+    KNOWLEDGE_SHEET: 'Knowledge_Base'
   },
   AI_PROVIDERS: {
     GEMINI: 'gemini',
@@ -25,8 +33,45 @@ const CONFIG = {
   RESPONSE_TYPES: {
     STATIC: 'static',
     AI: 'ai',
-    ESCALATE: 'escalate'
-  }
+    ESCALATE: 'escalate',
+    SUBMENU: 'submenu',
+    FLOW: 'flow'
+  },
+  // Dashboard actions and the least role (viewer, agent or admin) whose token may call them
+  ACTION_ROLES: {
+    getAnalytics: 'viewer',
+    getLogs: 'viewer',
+    getMenuConfig: 'viewer',
+    getAIHealth: 'viewer',
+    getSessions: 'viewer',
+    getSession: 'viewer',
+    getBusinessHours: 'viewer',
+    simulateBusinessHours: 'viewer',
+    getSettings: 'viewer',
+    getIntents: 'viewer',
+    getKnowledgeBase: 'viewer',
+    endSession: 'agent',
+    getEscalations: 'agent',
+    getEscalation: 'agent',
+    claimEscalation: 'agent',
+    replyEscalation: 'agent',
+    resolveEscalation: 'agent',
+    // Playgrounds that run like a customer message and may call the AI provider chain
+    testIntent: 'agent',
+    testKnowledge: 'agent',
+    replayChannelWebhook: 'admin',
+    updateMenu: 'admin',
+    setAIProviderMode: 'admin',
+    updateBusinessHours: 'admin',
+    updateSettings: 'admin',
+    updateKnowledgeBase: 'admin',
+    getChannels: 'admin',
+    updateChannel: 'admin'
+  },
+  // Public actions checked by RateLimitService
+  RATE_LIMITED_ACTIONS: ['getMenu', 'processSelection', 'sendMessage'],
+  // How long withScriptLock waits for another execution to release the lock
+  LOCK_TIMEOUT_MS: 10000
 };
 
 /**
@@ -36,16 +81,59 @@ const CONFIG = {
  */
 function handleChatbotRequest(params = {}) {
   try {
+    // Diagnostics report the deployment as it is, so they run before initializing it
+    if (params.action === 'diagnostics') {
+      return DiagnosticsService.run(AuthService.hasRole(AuthService.authenticate(params), 'admin'));
+    }
+    
+    // Monitors poll health on a fresh deployment too; deep checks call paid APIs, so they need an admin token
+    if (params.action === 'health') {
+      const deep = params.deep === true || params.deep === 'true';
+      if (deep && !AuthService.hasRole(AuthService.authenticate(params), 'admin')) {
+        return AuthService.unauthorized();
+      }
+      return HealthService.check(deep);
+    }
+    
     // Initialize system if needed
     if (!isSystemInitialized()) {
       initializeSystem();
     }
 
     const { action, userInput, sessionId } = params;
+    let auth = null;
+    
+    if (CONFIG.ACTION_ROLES[action]) {
+      auth = AuthService.authenticate(params);
+      if (!auth) {
+        return AuthService.unauthorized();
+      }
+      if (!AuthService.hasRole(auth, CONFIG.ACTION_ROLES[action])) {
+        return AuthService.forbidden();
+      }
+    }
+    
+    if (CONFIG.RATE_LIMITED_ACTIONS.includes(action)) {
+      // Refused requests must not cost a sheet read, so their language comes from the params and cache
+      I18nService.use(I18nService.resolve(params, true));
+      const throttled = RateLimitService.check(action, userInput, sessionId);
+      if (throttled) {
+        return throttled;
+      }
+    }
+    
+    // Customers are answered in their language; the dashboard reads texts in the default one
+    I18nService.use(CONFIG.RATE_LIMITED_ACTIONS.includes(action) ? I18nService.resolve(params) : null);
+    
+    // Agents act under their own name; admins may act for the agent they name
+    const agent = auth && (auth.role === 'admin' && params.agent !== undefined ? params.agent : auth.user);
     
     switch (action) {
+      case 'login':
+        return AuthService.login(params.user, params.key, AuthService.authenticate(params));
+        
       case 'getMenu':
-        return MenuService.getMenu();
+        return MenuService.getMenu(sessionId);
         
       case 'processSelection':
         return MenuService.processSelection(userInput, sessionId);
@@ -53,6 +141,90 @@ function handleChatbotRequest(params = {}) {
       case 'sendMessage':
         return ChatService.processMessage(userInput, sessionId);
         
+      case 'getUpdates':
+        return EscalationService.takeUpdates(sessionId);
+        
+      case 'getAnalytics':
+        return LoggingService.getAnalyticsReport(params);
+        
+      case 'getLogs':
+        return LoggingService.getLogsPage(params);
+        
+      case 'getMenuConfig':
+        return MenuService.getMenuConfigResponse();
+        
+      case 'updateMenu':
+        return MenuService.updateMenuConfig(params.items);
+        
+      case 'getAIHealth':
+        return AIService.getHealthReport();
+        
+      case 'setAIProviderMode':
+        return AIService.setProviderMode(params.provider, params.mode);
+        
+      case 'getSessions':
+        return SessionService.getSessionsReport();
+        
+      case 'getSession':
+        return SessionService.getSessionDetail(params.sessionId);
+        
+      case 'endSession':
+        return SessionService.endSession(params.sessionId);
+        
+      case 'getEscalations':
+        return EscalationService.getQueue(params);
+        
+      case 'getEscalation':
+        return EscalationService.getTicketDetail(params.ticketId);
+        
+      case 'claimEscalation':
+        return EscalationService.claim(params.ticketId, agent);
+        
+      case 'replyEscalation':
+        return EscalationService.reply(params.ticketId, agent, params.message);
+        
+      case 'resolveEscalation':
+        return EscalationService.resolve(params.ticketId, agent, params.message);
+        
+      case 'getBusinessHours':
+        return BusinessHoursService.getReport();
+        
+      case 'updateBusinessHours':
+        return BusinessHoursService.update(params);
+        
+      case 'simulateBusinessHours':
+        return BusinessHoursService.simulate(params.at);
+        
+      case 'getSettings':
+        return ConfigService.getSettingsReport();
+        
+      case 'updateSettings':
+        return ConfigService.updateSettings(params.values, params.translations);
+        
+      case 'getIntents':
+        return IntentService.getReport();
+        
+      case 'testIntent':
+        return IntentService.test(params.message);
+        
+      case 'getKnowledgeBase':
+        return KnowledgeService.getReport();
+        
+      case 'updateKnowledgeBase':
+        return KnowledgeService.update(params.entries);
+        
+      case 'testKnowledge':
+        return KnowledgeService.test(params.question);
+        
+      case 'getChannels':
+        return ChannelService.getReport();
+        
+      case 'updateChannel':
+        return ChannelService.update(params);
+        
+      case 'replayChannelWebhook':
+        return ChannelService.replay(params.channel, params.payload);
+        
       default:
         return MenuService.getMenu();
     }
@@ -71,11 +243,16 @@ function handleChatbotRequest(params = {}) {
 
 /**
  * Web app entry point for HTTP requests
- * Handles CORS and routing for browser-based clients
  */
 function doGet(e) {
   try {
     const params = e.parameter;
+    
+    // Meta checks the WhatsApp webhook URL by asking it to echo a challenge
+    if (ChannelService.detect(e) === 'whatsapp' && params['hub.mode']) {
+      return ContentService.createTextOutput(ChannelService.verifyWhatsApp(params));
+    }
+    
     const response = handleChatbotRequest(params);
     
     return ContentService
@@ -95,21 +272,29 @@ function doGet(e) {
 }
 
 /**
- * Handle POST requests with CORS support
+ * Handle POST requests with a JSON body
  */
 function doPost(e) {
   try {
-    // Handle CORS preflight
-    if (e.postData && e.postData.type === 'application/json') {
+    // Messaging apps post their own payloads to the URL of their channel
+    const channel = ChannelService.detect(e);
+    if (channel && e.postData) {
+      const response = ChannelService.handleWebhook(channel, JSON.parse(e.postData.contents), e.parameter.secret);
+      
+      return ContentService
+        .createTextOutput(JSON.stringify(response))
+        .setMimeType(ContentService.MimeType.JSON);
+    }
+    
+    // Browsers post JSON as text/plain to avoid a CORS preflight,
+    // which Apps Script web apps cannot answer
+    if (e.postData && ['application/json', 'text/plain'].includes(e.postData.type)) {
       const data = JSON.parse(e.postData.contents);
       const response = handleChatbotRequest(data);
       
-      const output = ContentService
+      return ContentService
         .createTextOutput(JSON.stringify(response))
         .setMimeType(ContentService.MimeType.JSON);
-      
-      // Add CORS headers
-      return addCorsHeaders(output);
     }
     
     return doGet(e);
@@ -117,35 +302,15 @@ function doPost(e) {
   } catch (error) {
     Logger.log(`Error in doPost: ${error.message}`);
     
-    const errorResponse = ContentService
+    return ContentService
       .createTextOutput(JSON.stringify({
         success: false,
         error: 'Invalid request format'
       }))
       .setMimeType(ContentService.MimeType.JSON);
-      
-    return addCorsHeaders(errorResponse);
   }
 }
 
-/**
- * Add CORS headers to response for browser compatibility
- */
-function addCorsHeaders(output) {
-  // Note: In production, replace '*' with specific domains
-  const headers = {
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization'
-  };
-  
-  Object.keys(headers).forEach(key => {
-    output.addHeader(key, headers[key]);
-  });
-  
-  return output;
-}
-
 /**
  * Initialize system on first run
  */
@@ -159,6 +324,12 @@ function initializeSystem() {
     // Set up default configuration
     ConfigService.initializeConfig();
     
+    // Move sessions out of Script Properties and schedule their cleanup
+    setupSessionStore();
+    
+    // Put unanswered escalation tickets back in the queue
+    EscalationService.installRequeueTrigger();
+    
     // Mark system as initialized
     PropertiesService.getScriptProperties().setProperty('SYSTEM_INITIALIZED', 'true');
     
@@ -170,6 +341,66 @@ function initializeSystem() {
   }
 }
 
+/**
+ * Set up the session store: migrate SESSION_ Script Properties into the
+ * Sessions sheet and install the hourly cleanup trigger.
+ * Run this once by hand on deployments initialized before the Sessions sheet existed.
+ */
+function setupSessionStore() {
+  SheetsService.getSheet(CONFIG.SHEETS.SESSIONS_SHEET);
+  
+  const migration = SessionService.migrateFromProperties();
+  Logger.log(`Sessions migrated: ${migration.migrated}, discarded: ${migration.discarded}`);
+  
+  SessionService.installCleanupTrigger();
+}
+
+/**
+ * Install a time-driven trigger for a top-level function unless it already has one
+ * @param {string} handler - Name of the function to run
+ * @param {number} minutes - Interval: 1, 5, 10, 15 or 30 minutes, or whole hours
+ * @returns {boolean} True if a trigger was created
+ */
+function ensureTimeTrigger(handler, minutes) {
+  try {
+    const installed = ScriptApp.getProjectTriggers()
+      .some(trigger => trigger.getHandlerFunction() === handler);
+    
+    if (installed) {
+      return false;
+    }
+    
+    const builder = ScriptApp.newTrigger(handler).timeBased();
+    (minutes >= 60 ? builder.everyHours(minutes / 60) : builder.everyMinutes(minutes)).create();
+    
+    Logger.log(`Installed ${handler} trigger every ${minutes} minutes`);
+    return true;
+    
+  } catch (error) {
+    // Web app executions may lack the script.scriptapp scope
+    Logger.log(`Could not install the ${handler} trigger: ${error.message}`);
+    return false;
+  }
+}
+
+/**
+ * Run a function holding the script lock, so concurrent executions can't
+ * interleave their reads and writes of the same rows or properties.
+ * The lock is not reentrant: fn must not call withScriptLock again.
+ * @param {Function} fn - Work to do under the lock
+ * @returns {*} Whatever fn returns
+ */
+function withScriptLock(fn) {
+  const lock = LockService.getScriptLock();
+  lock.waitLock(CONFIG.LOCK_TIMEOUT_MS);
+  
+  try {
+    return fn();
+  } finally {
+    lock.releaseLock();
+  }
+}
+
 /**
  * Check if system has been initialized
  */
@@ -185,74 +416,80 @@ function isSystemInitialized() {
 function setupCredentials() {
   const properties = PropertiesService.getScriptProperties();
   
-  // Set placeholder values - replace with actual credentials
-  const credentials = {
-    // Spreadsheet Configuration
-    'SPREADSHEET_ID': 'your_spreadsheet_id_here',
-    
-    // MercadoLibre API Credentials
-    'ML_CLIENT_ID': 'your_ml_client_id',
-    'ML_CLIENT_SECRET': 'your_ml_client_secret',
-    'ML_ACCESS_TOKEN': 'your_ml_access_token',
-    'ML_REFRESH_TOKEN': 'your_ml_refresh_token',
-    'ML_ACCESS_TOKEN_FECHA_EXPIRA': '',
-    'ML_USER_ID': 'your_ml_user_id',
-    'ml_redirectUri': 'your_redirect_uri',
-    
-    // AI API Keys
-    'GEMINI_API_KEY': 'your_gemini_api_key',
-    'CLAUDE_API_KEY': 'your_claude_api_key',
-    
-    // Shipping APIs
-    'SECRET_USPS': 'your_usps_secret',
-    'SHIPPOTOKEN': 'your_shippo_token',
-    
-    // System State
-    'estadoPaginacion': '0',
-    'ultimoOffset': '0',
-    'last_trigger_timestamp': '',
-    'MLM_CHECKPOINT': '',
-    
-    // Batch Processing Settings
-    'update_batchSize': '50',
-    'update_startRow': '2',
-    'update_totalRows': '0',
-    'update_lastProcessedRow': '0',
-    'update_timestamp': '',
-    'update_inProgress': 'false',
-    'update_acum_success': '0',
-    'update_acum_skipped': '0'
-  };
-  
   // Set all credentials
-  properties.setProperties(credentials);
+  properties.setProperties(CREDENTIAL_PLACEHOLDERS);
   
   Logger.log('Credentials setup complete. Please update with actual values.');
   Logger.log('Remember to update SPREADSHEET_ID with your actual spreadsheet ID');
 }
 
+// Placeholder values written by setupCredentials() - replace with actual credentials.
+// The diagnostics action reports properties still holding them.
+const CREDENTIAL_PLACEHOLDERS = {
+  // Spreadsheet Configuration
+  'SPREADSHEET_ID': 'your_spreadsheet_id_here',
+  
+  // MercadoLibre API Credentials
+  'ML_CLIENT_ID': 'your_ml_client_id',
+  'ML_CLIENT_SECRET': 'your_ml_client_secret',
+  'ML_ACCESS_TOKEN': 'your_ml_access_token',
+  'ML_REFRESH_TOKEN': 'your_ml_refresh_token',
+  'ML_ACCESS_TOKEN_FECHA_EXPIRA': '',
+  'ML_USER_ID': 'your_ml_user_id',
+  'ml_redirectUri': 'your_redirect_uri',
+  
+  // Dashboard access keys, exchanged for a token by the login action
+  'ADMIN_API_KEY': 'your_admin_api_key',
+  'AGENT_API_KEY': 'your_agent_api_key',
+  'VIEWER_API_KEY': 'your_viewer_api_key',
+  
+  // AI API Keys
+  'GEMINI_API_KEY': 'your_gemini_api_key',
+  'CLAUDE_API_KEY': 'your_claude_api_key',
+  
+  // Shipping APIs
+  'SECRET_USPS': 'your_usps_secret',
+  'SHIPPOTOKEN': 'your_shippo_token',
+  
+  // System State
+  'estadoPaginacion': '0',
+  'ultimoOffset': '0',
+  'last_trigger_timestamp': '',
+  'MLM_CHECKPOINT': '',
+  
+  // Batch Processing Settings
+  'update_batchSize': '50',
+  'update_startRow': '2',
+  'update_totalRows': '0',
+  'update_lastProcessedRow': '0',
+  'update_timestamp': '',
+  'update_inProgress': 'false',
+  'update_acum_success': '0',
+  'update_acum_skipped': '0'
+};
+
 /**
- * Test function to verify system functionality
+ * Run the deep health checks from the Apps Script editor and log each component
  */
 function testSystem() {
   try {
     Logger.log('Running system tests...');
     
-    // Test menu retrieval
-    const menu = MenuService.getMenu();
-    Logger.log(`Menu test: ${menu.success ? 'PASSED' : 'FAILED'}`);
-    
-    // Test AI services
-    const aiTest = AIService.testConnection();
-    Logger.log(`AI service test: ${aiTest.success ? 'PASSED' : 'FAILED'}`);
+    const health = HealthService.check(true);
+    if (!health.success) {
+      Logger.log(`Test failed: ${health.error}`);
+      return health;
+    }
     
-    // Test MercadoLibre API
-    const mlTest = MercadoLibreService.testConnection();
-    Logger.log(`MercadoLibre test: ${mlTest.success ? 'PASSED' : 'FAILED'}`);
+    health.components.forEach(component => {
+      Logger.log(`${component.name}: ${component.status.toUpperCase()} (${component.latencyMs} ms) - ${component.message}` +
+        (component.error ? ` Error: ${component.error}` : ''));
+    });
     
-    Logger.log('System tests complete');
+    Logger.log(`System status: ${health.status.toUpperCase()}`);
+    return health;
     
   } catch (error) {
     Logger.log(`Test failed: ${error.message}`);
   }
-}
\ No newline at end of file
+}
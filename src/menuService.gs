@@ -10,29 +10,53 @@
 
 const MenuService = {
   
+  // Selecting 0 inside a submenu goes back one level (at the top level it's a regular option)
+  BACK_SELECTION: '0',
+  
+  // Texts of an option that the Traducción (xx) columns may translate
+  TRANSLATABLE_FIELDS: ['title', 'response', 'escalationMessage', 'afterHoursMessage', 'fallbackResponse'],
+  
+  // Texts of each flow step they may translate, under steps.<field>, besides the flow's completionMessage
+  STEP_TRANSLATABLE_FIELDS: ['prompt', 'error'],
+  
+  // Menu_Config columns before the translation columns
+  BASE_COLUMNS: 13,
+  
   /**
    * Get the current menu based on configuration
+   * @param {string} sessionId - Optional session identifier for logging
    * @returns {Object} Menu object with options and metadata
    */
-  getMenu() {
+  getMenu(sessionId = null) {
     try {
-      const menuConfig = this.getMenuConfig();
+      const menuConfig = this.localize(this.getMenuConfig());
       const currentTime = new Date();
       const businessHours = ConfigService.getBusinessHours();
       
       const isBusinessHours = this.isWithinBusinessHours(currentTime, businessHours);
+      const nextOpening = isBusinessHours ? null : BusinessHoursService.getNextOpening(currentTime, businessHours);
       
       const menu = {
         success: true,
+        type: 'menu',
         timestamp: currentTime.toISOString(),
         businessHours: isBusinessHours,
-        greeting: this.getGreeting(isBusinessHours),
-        options: menuConfig.filter(option => option.active),
-        footer: this.getFooter()
+        nextOpening: nextOpening ? nextOpening.at : null,
+        greeting: this.getGreeting(isBusinessHours, businessHours, nextOpening),
+        options: this.getMenuLevel(menuConfig, ''),
+        footer: this.getFooter(),
+        path: '',
+        breadcrumb: [],
+        language: I18nService.current()
       };
       
+      // Going back to the top menu also abandons any flow in progress
+      if (sessionId) {
+        ChatService.updateSessionContext(sessionId, { menuPath: '', activeFlow: null });
+      }
+      
       // Log menu display
-      LoggingService.logInteraction('menu_display', null, menu);
+      LoggingService.logInteraction('menu_display', sessionId, menu);
       
       return menu;
       
@@ -40,7 +64,7 @@ const MenuService = {
       Logger.log(`Error getting menu: ${error.message}`);
       return {
         success: false,
-        error: 'No se pudo cargar el menú. Intenta nuevamente.',
+        error: I18nService.t('menu.load_error'),
         timestamp: new Date().toISOString()
       };
     }
@@ -54,15 +78,27 @@ const MenuService = {
    */
   processSelection(selection, sessionId) {
     try {
-      const menuConfig = this.getMenuConfig();
-      const selectedOption = menuConfig.find(option => 
-        option.number.toString() === selection.toString() && option.active
-      );
+      const session = sessionId ? ChatService.getSessionContext(sessionId) : {};
+      
+      // A guided flow in progress takes the input as its next answer
+      if (session.activeFlow) {
+        return FlowService.handleInput(selection, sessionId, session.activeFlow);
+      }
+      
+      const menuConfig = this.localize(this.getMenuConfig());
+      const menuPath = session.menuPath || '';
+      const input = String(selection).trim();
+      
+      if (menuPath && input === this.BACK_SELECTION) {
+        return this.showMenuLevel(this.getParentPath(menuPath), sessionId, menuConfig);
+      }
+      
+      const selectedOption = this.findOption(menuConfig, input, menuPath);
       
       if (!selectedOption) {
         return {
           success: false,
-          message: 'Selección inválida. Por favor elige una opción del menú.',
+          message: I18nService.t('menu.invalid_selection'),
           showMenu: true
         };
       }
@@ -84,10 +120,16 @@ const MenuService = {
         case CONFIG.RESPONSE_TYPES.ESCALATE:
           return this.handleEscalation(selectedOption, sessionId);
           
+        case CONFIG.RESPONSE_TYPES.SUBMENU:
+          return this.showMenuLevel(String(selectedOption.number), sessionId, menuConfig);
+          
+        case CONFIG.RESPONSE_TYPES.FLOW:
+          return FlowService.startFlow(selectedOption, sessionId);
+          
         default:
           return {
             success: false,
-            message: 'Configuración inválida para esta opción.',
+            message: I18nService.t('menu.invalid_option'),
             showMenu: true
           };
       }
@@ -98,12 +140,103 @@ const MenuService = {
       
       return {
         success: false,
-        message: 'Error procesando tu selección. Intenta nuevamente.',
+        message: I18nService.t('menu.selection_error'),
         showMenu: true
       };
     }
   },
   
+  /**
+   * Show the options of one menu level
+   * @param {string} path - Number of the submenu option, '' for the top menu
+   * @param {string} sessionId - User session identifier
+   * @param {Array} menuConfig - Loaded menu configuration, localized
+   * @returns {Object} Menu response for that level
+   */
+  showMenuLevel(path, sessionId, menuConfig) {
+    if (!path) {
+      return this.getMenu(sessionId);
+    }
+    
+    const parent = menuConfig.find(option => String(option.number) === path);
+    const businessHours = ConfigService.getBusinessHours();
+    const isBusinessHours = this.isWithinBusinessHours(new Date(), businessHours);
+    const nextOpening = isBusinessHours ? null : BusinessHoursService.getNextOpening(new Date(), businessHours);
+    
+    if (sessionId) {
+      ChatService.updateSessionContext(sessionId, { menuPath: path });
+    }
+    
+    const menu = {
+      success: true,
+      type: 'menu',
+      timestamp: new Date().toISOString(),
+      businessHours: isBusinessHours,
+      nextOpening: nextOpening ? nextOpening.at : null,
+      greeting: parent ? parent.title : '',
+      options: [
+        ...this.getMenuLevel(menuConfig, path),
+        { number: Number(this.BACK_SELECTION), title: I18nService.t('menu.back'), responseType: 'back' }
+      ],
+      footer: this.getFooter(),
+      path: path,
+      breadcrumb: this.getBreadcrumb(menuConfig, path),
+      language: I18nService.current()
+    };
+    
+    LoggingService.logInteraction('menu_display', sessionId, menu);
+    return menu;
+  },
+  
+  /**
+   * Get the active options directly under a menu path
+   * @param {Array} menuConfig - Loaded menu configuration
+   * @param {string} path - Parent number, '' for the top menu
+   * @returns {Array} Child options in sheet order
+   */
+  getMenuLevel(menuConfig, path) {
+    return menuConfig.filter(option =>
+      option.active && this.getParentPath(String(option.number)) === path
+    );
+  },
+  
+  /**
+   * Resolve a selection relative to the current menu level.
+   * Inside submenu "2", "1" and "2.1" both select option 2.1.
+   */
+  findOption(menuConfig, input, menuPath) {
+    const candidates = menuPath ? [`${menuPath}.${input}`, input] : [input];
+    
+    for (const number of candidates) {
+      const option = menuConfig.find(item => String(item.number) === number && item.active);
+      if (option) {
+        return option;
+      }
+    }
+    
+    return null;
+  },
+  
+  /**
+   * Get the parent path of a menu number ("2.1" -> "2", "2" -> "")
+   */
+  getParentPath(number) {
+    return String(number).split('.').slice(0, -1).join('.');
+  },
+  
+  /**
+   * Titles from the top menu down to the given path
+   */
+  getBreadcrumb(menuConfig, path) {
+    const segments = path.split('.');
+    
+    return segments.map((_, i) => {
+      const number = segments.slice(0, i + 1).join('.');
+      const option = menuConfig.find(item => String(item.number) === number);
+      return option ? option.title : number;
+    });
+  },
+  
   /**
    * Handle static response options
    */
@@ -126,37 +259,44 @@ const MenuService = {
    */
   handleAIResponse(option, sessionId) {
     try {
-      // Get AI provider preference
-      const aiProvider = option.aiProvider || CONFIG.AI_PROVIDERS.GEMINI;
-      
-      // Prepare context for AI
+      // Prepare context for AI, grounded in the Knowledge_Base entries about the option
       const context = {
         userQuery: option.title,
         context: option.aiContext || '',
-        maxTokens: option.maxTokens || 500
+        maxTokens: option.maxTokens || 500,
+        sessionId: sessionId,
+        language: I18nService.current(),
+        knowledge: KnowledgeService.retrieve(option.title)
       };
       
-      // Get AI response
-      const aiResponse = AIService.generateResponse(aiProvider, context);
+      // The option's provider goes first, then the configured chain
+      const aiResponse = AIService.generateResponse(option.aiProvider || null, context);
       
       if (aiResponse.success) {
+        const answer = KnowledgeService.answer(aiResponse.content, context.knowledge);
         const response = {
           success: true,
-          type: 'ai',
+          type: answer.type,
           title: option.title,
-          message: aiResponse.content,
-          provider: aiProvider,
+          message: answer.message,
+          sources: answer.sources,
+          provider: aiResponse.provider,
           showMenu: option.returnToMenu !== false,
           timestamp: new Date().toISOString()
         };
         
+        // A "sí" in the chat takes up the agent a no_answer reply offers
+        if (sessionId && answer.type === 'no_answer') {
+          ChatService.updateSessionContext(sessionId, { escalationOffer: option.title });
+        }
+        
         LoggingService.logInteraction('ai_response', sessionId, response);
         return response;
       } else {
         // Fallback to static response if AI fails
         return this.handleStaticResponse({
           ...option,
-          response: option.fallbackResponse || 'Lo siento, no puedo procesar tu consulta en este momento.'
+          response: option.fallbackResponse || I18nService.t('menu.ai_unavailable')
         }, sessionId);
       }
       
@@ -164,41 +304,38 @@ const MenuService = {
       Logger.log(`Error in AI response: ${error.message}`);
       return this.handleStaticResponse({
         ...option,
-        response: option.fallbackResponse || 'Error en el servicio de IA. Intenta nuevamente.'
+        response: option.fallbackResponse || I18nService.t('menu.ai_error')
       }, sessionId);
     }
   },
   
   /**
    * Handle escalation to human agents
+   * @param {Object} option - Menu option that triggered the escalation
+   * @param {string} sessionId - User session identifier
+   * @param {string} reason - Escalation reason, defaults to the option title
    */
-  handleEscalation(option, sessionId) {
+  handleEscalation(option, sessionId, reason = option.title) {
     const currentTime = new Date();
     const businessHours = ConfigService.getBusinessHours();
     const isBusinessHours = this.isWithinBusinessHours(currentTime, businessHours);
+    const nextOpening = isBusinessHours ? null : BusinessHoursService.getNextOpening(currentTime, businessHours);
     
-    let message;
-    if (isBusinessHours) {
-      message = option.escalationMessage || 'Te estoy conectando con un agente humano. Por favor espera un momento.';
-      
-      // Here you would integrate with your ticketing system
-      // For now, we'll just log the escalation
-      LoggingService.logEscalation(sessionId, option.title, 'pending');
-      
-    } else {
-      message = option.afterHoursMessage || 
-        `Actualmente estamos fuera del horario de atención (${businessHours.display}). ` +
-        'Tu consulta será atendida en el próximo horario hábil.';
-        
-      LoggingService.logEscalation(sessionId, option.title, 'after_hours');
-    }
+    const status = isBusinessHours ? 'pending' : 'after_hours';
+    const message = this.getEscalationMessage(option, isBusinessHours, businessHours, nextOpening);
+    
+    // Agent replies are delivered through the session, so anonymous requests only get logged
+    const ticket = sessionId ? EscalationService.openTicket(sessionId, reason, status) : null;
+    LoggingService.logEscalation(sessionId, reason, status);
     
     const response = {
       success: true,
       type: 'escalation',
       title: option.title,
       message: message,
+      ticketId: ticket ? ticket.ticketId : null,
       businessHours: isBusinessHours,
+      nextOpening: nextOpening ? nextOpening.at : null,
       showMenu: false,
       timestamp: currentTime.toISOString()
     };
@@ -206,6 +343,24 @@ const MenuService = {
     return response;
   },
   
+  /**
+   * Message for an escalation option; after-hours messages may use {next_opening} and {hours}
+   * @param {Object} option - Escalation menu option
+   * @param {boolean} isBusinessHours - Whether agents are available
+   * @param {Object} businessHours - ConfigService.getBusinessHours() output
+   * @param {Object|null} nextOpening - BusinessHoursService.getNextOpening() output
+   * @returns {string} Message for the customer
+   */
+  getEscalationMessage(option, isBusinessHours, businessHours, nextOpening) {
+    if (isBusinessHours) {
+      return option.escalationMessage || I18nService.t('escalation.connecting');
+    }
+    
+    return option.afterHoursMessage
+      ? BusinessHoursService.fillPlaceholders(option.afterHoursMessage, businessHours, nextOpening)
+      : BusinessHoursService.getAfterHoursMessage(businessHours, nextOpening);
+  },
+  
   /**
    * Get menu configuration from sheets
    */
@@ -227,10 +382,13 @@ const MenuService = {
         fallbackResponse: row[8],
         returnToMenu: row[9] !== false,
         active: row[10] !== false,
-        maxTokens: row[11] || 500
+        maxTokens: row[11] || 500,
+        flow: this.parseFlow(row[12]),
+        translations: this.parseTranslations(row)
       }));
       
-      return menuItems.filter(item => item.number && item.title);
+      // Option 0 is a valid number (usually "Salir"), so only skip blank cells
+      return menuItems.filter(item => item.number !== '' && item.number !== null && item.title);
       
     } catch (error) {
       Logger.log(`Error getting menu config: ${error.message}`);
@@ -239,45 +397,365 @@ const MenuService = {
   },
   
   /**
-   * Check if current time is within business hours
+   * Read the Traducción (xx) columns of a Menu_Config row, one per language after Flujo
+   * @param {Array} row - Sheet row
+   * @returns {Object} Language code → { title, response, ..., completionMessage, steps }; languages without text are left out
    */
-  isWithinBusinessHours(currentTime, businessHours) {
+  parseTranslations(row) {
+    const translations = {};
+    
+    Object.keys(I18nService.LANGUAGES).forEach((language, i) => {
+      const parsed = I18nService.parseTranslation(row[this.BASE_COLUMNS + i]);
+      const fields = {};
+      
+      this.TRANSLATABLE_FIELDS.forEach(field => {
+        if (typeof parsed[field] === 'string' && parsed[field].trim()) {
+          fields[field] = parsed[field];
+        }
+      });
+      
+      Object.assign(fields, this.pickFlowTranslation(parsed));
+      
+      if (Object.keys(fields).length > 0) {
+        translations[language] = fields;
+      }
+    });
+    
+    return translations;
+  },
+  
+  /**
+   * Flow texts of a translation: completionMessage, and the prompt and error of each step by its field
+   * @param {Object} translation - Parsed Traducción (xx) cell or translation from the editor
+   * @param {Object} [flow] - Flow definition; when given, steps it doesn't have are dropped
+   * @returns {Object} { completionMessage, steps } with only the non-blank texts
+   */
+  pickFlowTranslation(translation, flow = null) {
+    const picked = {};
+    const steps = {};
+    const text = value => (typeof value === 'string' ? value.trim() : '');
+    
+    if (text(translation.completionMessage)) {
+      picked.completionMessage = text(translation.completionMessage);
+    }
+    
+    const given = translation.steps && typeof translation.steps === 'object' ? translation.steps : {};
+    Object.keys(given)
+      .filter(field => !flow || flow.steps.some(step => step.field === field))
+      .forEach(field => {
+        const texts = {};
+        this.STEP_TRANSLATABLE_FIELDS.forEach(key => {
+          if (text((given[field] || {})[key])) {
+            texts[key] = text(given[field][key]);
+          }
+        });
+        if (Object.keys(texts).length > 0) {
+          steps[field] = texts;
+        }
+      });
+    
+    if (Object.keys(steps).length > 0) {
+      picked.steps = steps;
+    }
+    
+    return picked;
+  },
+  
+  /**
+   * Options with their texts in the language of the request
+   * @param {Array} menuConfig - getMenuConfig() output
+   * @returns {Array} Copies whose translated fields replace the default-language ones
+   */
+  localize(menuConfig) {
+    const language = I18nService.current();
+    
+    return menuConfig.map(option => {
+      const fields = (option.translations || {})[language] || {};
+      const localized = { ...option };
+      
+      this.TRANSLATABLE_FIELDS.forEach(field => {
+        localized[field] = I18nService.pick(option[field], { [language]: fields[field] });
+      });
+      
+      if (option.flow) {
+        const steps = fields.steps || {};
+        localized.flow = {
+          ...option.flow,
+          completionMessage: I18nService.pick(option.flow.completionMessage, { [language]: fields.completionMessage }),
+          steps: option.flow.steps.map(step => {
+            const texts = steps[step.field] || {};
+            return {
+              ...step,
+              prompt: I18nService.pick(step.prompt, { [language]: texts.prompt }),
+              error: I18nService.pick(step.error, { [language]: texts.error })
+            };
+          })
+        };
+      }
+      
+      return localized;
+    });
+  },
+  
+  /**
+   * Parse the flow definition stored as JSON in the Flujo column
+   * @param {string} value - Cell value
+   * @returns {Object|null} Flow definition
+   */
+  parseFlow(value) {
+    if (!value) {
+      return null;
+    }
+    
+    try {
+      return typeof value === 'string' ? JSON.parse(value) : value;
+    } catch (error) {
+      Logger.log(`Invalid flow definition: ${error.message}`);
+      return null;
+    }
+  },
+  
+  /**
+   * Get every Menu_Config row, including inactive ones, for the menu editor
+   * @returns {Object} Menu config response object
+   */
+  getMenuConfigResponse() {
+    return {
+      success: true,
+      type: 'menu_config',
+      items: this.getMenuConfig(),
+      responseTypes: Object.values(CONFIG.RESPONSE_TYPES),
+      aiProviders: Object.values(CONFIG.AI_PROVIDERS),
+      flowValidators: Object.keys(FlowService.VALIDATORS),
+      flowCompletions: Object.values(FlowService.COMPLETIONS),
+      ...I18nService.describeLanguages(),
+      timestamp: new Date().toISOString()
+    };
+  },
+  
+  /**
+   * Validate and save the full menu from the dashboard editor
+   * @param {Array} items - Menu items in display order
+   * @returns {Object} Saved config or validation errors
+   */
+  updateMenuConfig(items) {
     try {
-      const currentDay = currentTime.getDay(); // 0 = Sunday, 1 = Monday, etc.
-      const currentHour = currentTime.getHours();
-      const currentMinute = currentTime.getMinutes();
-      const currentTimeMinutes = currentHour * 60 + currentMinute;
-      
-      const daySchedule = businessHours.schedule[currentDay];
-      if (!daySchedule || !daySchedule.open) {
-        return false;
+      const errors = this.validateMenuConfig(items);
+      
+      if (errors.length > 0) {
+        return {
+          success: false,
+          code: 'validation',
+          error: 'La configuración del menú tiene errores.',
+          errors: errors,
+          timestamp: new Date().toISOString()
+        };
       }
       
-      const openTime = this.parseTime(daySchedule.start);
-      const closeTime = this.parseTime(daySchedule.end);
+      // Sheets created before submenus, flows and translations lack those headers and text numbers
+      SheetsService.ensureHeader(CONFIG.SHEETS.MENU_SHEET, this.BASE_COLUMNS, 'Flujo');
+      Object.keys(I18nService.LANGUAGES).forEach((language, i) => {
+        SheetsService.ensureHeader(CONFIG.SHEETS.MENU_SHEET, this.BASE_COLUMNS + i + 1, I18nService.columnHeader('Traducción', language));
+      });
+      SheetsService.getSheet(CONFIG.SHEETS.MENU_SHEET).getRange('A:A').setNumberFormat('@');
+      SheetsService.replaceData(CONFIG.SHEETS.MENU_SHEET, items.map(item => this.toMenuRow(item)));
+      
+      LoggingService.logInteraction('menu_update', 'dashboard', {
+        message: `Menu updated with ${items.length} options`
+      });
       
-      return currentTimeMinutes >= openTime && currentTimeMinutes <= closeTime;
+      return this.getMenuConfigResponse();
       
     } catch (error) {
-      Logger.log(`Error checking business hours: ${error.message}`);
-      return false;
+      Logger.log(`Error updating menu config: ${error.message}`);
+      LoggingService.logError('updateMenuConfig', error);
+      
+      return {
+        success: false,
+        error: 'No se pudo guardar el menú. Intenta nuevamente.',
+        timestamp: new Date().toISOString()
+      };
+    }
+  },
+  
+  /**
+   * Validate menu items before writing them to Menu_Config
+   * @param {Array} items - Menu items
+   * @returns {Array} List of {index, field, message} errors
+   */
+  validateMenuConfig(items) {
+    if (!Array.isArray(items)) {
+      return [{ index: -1, field: 'items', message: 'Menu items must be a list' }];
+    }
+    
+    const errors = [];
+    const responseTypes = Object.values(CONFIG.RESPONSE_TYPES);
+    const aiProviders = Object.values(CONFIG.AI_PROVIDERS);
+    const seenNumbers = {};
+    const typesByNumber = {};
+    
+    items.forEach(item => {
+      typesByNumber[String(item.number ?? '').trim()] = item.responseType;
+    });
+    
+    items.forEach((item, index) => {
+      const number = String(item.number ?? '').trim();
+      
+      if (!/^\d+(\.\d+)*$/.test(number)) {
+        errors.push({ index, field: 'number', message: 'Number must look like 3 or 2.1' });
+      } else if (seenNumbers[number] !== undefined) {
+        errors.push({ index, field: 'number', message: `Number ${number} is also used by option ${seenNumbers[number] + 1}` });
+      } else {
+        seenNumbers[number] = index;
+        
+        const parent = this.getParentPath(number);
+        if (parent && typesByNumber[parent] !== CONFIG.RESPONSE_TYPES.SUBMENU) {
+          errors.push({ index, field: 'number', message: `Option ${parent} must be a submenu to contain ${number}` });
+        } else if (parent && number.endsWith('.0')) {
+          errors.push({ index, field: 'number', message: `0 is reserved for "Volver" inside submenus` });
+        }
+      }
+      
+      if (!String(item.title || '').trim()) {
+        errors.push({ index, field: 'title', message: 'Title is required' });
+      }
+      
+      if (!responseTypes.includes(item.responseType)) {
+        errors.push({ index, field: 'responseType', message: `Unknown response type "${item.responseType}"` });
+      }
+      
+      if (item.responseType === CONFIG.RESPONSE_TYPES.STATIC && !String(item.response || '').trim()) {
+        errors.push({ index, field: 'response', message: 'Static options need a response' });
+      }
+      
+      if (item.responseType === CONFIG.RESPONSE_TYPES.AI) {
+        if (!aiProviders.includes(item.aiProvider)) {
+          errors.push({ index, field: 'aiProvider', message: `Unknown AI provider "${item.aiProvider}"` });
+        }
+        
+        const maxTokens = Number(item.maxTokens);
+        if (!Number.isInteger(maxTokens) || maxTokens < 1 || maxTokens > 4096) {
+          errors.push({ index, field: 'maxTokens', message: 'Max tokens must be between 1 and 4096' });
+        }
+      }
+      
+      if (item.responseType === CONFIG.RESPONSE_TYPES.SUBMENU &&
+          !items.some(child => this.getParentPath(String(child.number ?? '').trim()) === number)) {
+        errors.push({ index, field: 'responseType', message: 'Submenus need at least one option under them' });
+      }
+      
+      if (item.translations !== undefined && (typeof item.translations !== 'object' || Array.isArray(item.translations))) {
+        errors.push({ index, field: 'translations', message: 'Translations must map a language to its texts' });
+      } else {
+        Object.keys(item.translations || {})
+          .filter(language => !I18nService.LANGUAGES[language])
+          .forEach(language => {
+            errors.push({ index, field: 'translations', message: `Unknown language "${language}"` });
+          });
+      }
+      
+      if (item.responseType === CONFIG.RESPONSE_TYPES.FLOW) {
+        FlowService.validateFlow(item.flow).forEach(message => {
+          errors.push({ index, field: 'flow', message });
+        });
+      }
+    });
+    
+    return errors;
+  },
+  
+  /**
+   * Convert a menu item into a Menu_Config row, in column order.
+   * Columns that don't apply to the response type are left blank, and so are translations of them.
+   * @param {Object} item - Menu item
+   * @returns {Array} Sheet row
+   */
+  toMenuRow(item) {
+    const type = item.responseType;
+    const isStatic = type === CONFIG.RESPONSE_TYPES.STATIC;
+    const isAI = type === CONFIG.RESPONSE_TYPES.AI;
+    const isEscalation = type === CONFIG.RESPONSE_TYPES.ESCALATE;
+    const isFlow = type === CONFIG.RESPONSE_TYPES.FLOW;
+    
+    // Dotted numbers are written as text so "2.10" isn't read back as 2.1
+    const number = String(item.number).trim();
+    
+    return [
+      number.includes('.') ? number : Number(number),
+      String(item.title).trim(),
+      type,
+      isStatic ? item.response || '' : '',
+      isAI ? item.aiProvider : '',
+      isAI ? item.aiContext || '' : '',
+      isEscalation ? item.escalationMessage || '' : '',
+      isEscalation ? item.afterHoursMessage || '' : '',
+      isAI ? item.fallbackResponse || '' : '',
+      item.returnToMenu !== false,
+      item.active !== false,
+      isAI ? Number(item.maxTokens) : 0,
+      isFlow ? JSON.stringify(item.flow) : '',
+      ...Object.keys(I18nService.LANGUAGES).map(language => this.toTranslationCell(item, language))
+    ];
+  },
+  
+  /**
+   * JSON for a Traducción (xx) cell, with only the texts the option's type uses and, for flows, its steps
+   * @param {Object} item - Menu item
+   * @param {string} language - Language code
+   * @returns {string} JSON, or '' without translated texts
+   */
+  toTranslationCell(item, language) {
+    const translation = (item.translations || {})[language] || {};
+    const type = item.responseType;
+    const applies = {
+      title: true,
+      response: type === CONFIG.RESPONSE_TYPES.STATIC,
+      escalationMessage: type === CONFIG.RESPONSE_TYPES.ESCALATE,
+      afterHoursMessage: type === CONFIG.RESPONSE_TYPES.ESCALATE,
+      fallbackResponse: type === CONFIG.RESPONSE_TYPES.AI
+    };
+    const fields = {};
+    
+    this.TRANSLATABLE_FIELDS.forEach(field => {
+      const text = String(translation[field] || '').trim();
+      if (text && applies[field]) {
+        fields[field] = text;
+      }
+    });
+    
+    if (type === CONFIG.RESPONSE_TYPES.FLOW && item.flow) {
+      Object.assign(fields, this.pickFlowTranslation(translation, item.flow));
     }
+    
+    return Object.keys(fields).length > 0 ? JSON.stringify(fields) : '';
   },
   
   /**
-   * Parse time string to minutes
+   * Check if current time is within business hours
+   * @param {Date} currentTime - Instant to check, evaluated in businessHours.timezone
+   * @param {Object} businessHours - ConfigService.getBusinessHours() output
+   * @returns {boolean} True inside a shift of that day, or of its holiday row
    */
-  parseTime(timeString) {
-    const [hours, minutes] = timeString.split(':').map(Number);
-    return hours * 60 + minutes;
+  isWithinBusinessHours(currentTime, businessHours) {
+    try {
+      return BusinessHoursService.isOpen(currentTime, businessHours);
+      
+    } catch (error) {
+      Logger.log(`Error checking business hours: ${error.message}`);
+      return false;
+    }
   },
   
   /**
    * Get greeting message based on business hours
+   * @param {boolean} isBusinessHours - Whether agents are available
+   * @param {Object} businessHours - Schedule used for {hours}
+   * @param {Object|null} nextOpening - Fills {next_opening} in the after-hours greeting
    */
-  getGreeting(isBusinessHours) {
+  getGreeting(isBusinessHours, businessHours = ConfigService.getBusinessHours(), nextOpening = null) {
     const greetings = ConfigService.getGreetings();
-    return isBusinessHours ? greetings.businessHours : greetings.afterHours;
+    const greeting = isBusinessHours ? greetings.businessHours : greetings.afterHours;
+    return BusinessHoursService.fillPlaceholders(greeting, businessHours, nextOpening);
   },
   
   /**
@@ -4,16 +4,143 @@
  * This service manages MercadoLibre API interactions:
  * - Token management and refresh
  * - Order and product queries
+ * - Shipment tracking and order timelines
+ * - Item IDs, listing search and prices for every MercadoLibre site
  * - Customer information retrieval
  * - Secure credential handling
  */
 
 const MercadoLibreService = {
   
+  // Item ID prefix of each site, with the currency and locale its prices are shown in
+  SITES: {
+    MLA: { name: 'Argentina', currency: 'ARS', locale: 'es-AR' },
+    MLB: { name: 'Brasil', currency: 'BRL', locale: 'pt-BR' },
+    MLM: { name: 'México', currency: 'MXN', locale: 'es-MX' },
+    MLC: { name: 'Chile', currency: 'CLP', locale: 'es-CL' },
+    MCO: { name: 'Colombia', currency: 'COP', locale: 'es-CO' },
+    MLU: { name: 'Uruguay', currency: 'UYU', locale: 'es-UY' },
+    MPE: { name: 'Perú', currency: 'PEN', locale: 'es-PE' },
+    MLV: { name: 'Venezuela', currency: 'VES', locale: 'es-VE' },
+    MEC: { name: 'Ecuador', currency: 'USD', locale: 'es-EC' },
+    MPA: { name: 'Panamá', currency: 'USD', locale: 'es-PA' },
+    MCR: { name: 'Costa Rica', currency: 'CRC', locale: 'es-CR' },
+    MRD: { name: 'República Dominicana', currency: 'DOP', locale: 'es-DO' },
+    MBO: { name: 'Bolivia', currency: 'BOB', locale: 'es-BO' },
+    MPY: { name: 'Paraguay', currency: 'PYG', locale: 'es-PY' },
+    MGT: { name: 'Guatemala', currency: 'GTQ', locale: 'es-GT' },
+    MHN: { name: 'Honduras', currency: 'HNL', locale: 'es-HN' },
+    MNI: { name: 'Nicaragua', currency: 'NIO', locale: 'es-NI' },
+    MSV: { name: 'El Salvador', currency: 'USD', locale: 'es-SV' }
+  },
+  
+  // Customer-facing names of the order, payment and shipment states, by language
+  STATUS_LABELS: {
+    es: {
+      order: {
+        confirmed: 'Pedido confirmado',
+        payment_required: 'Esperando el pago',
+        payment_in_process: 'Pago en proceso',
+        partially_paid: 'Pago parcial',
+        paid: 'Pagado',
+        partially_refunded: 'Reembolso parcial',
+        pending_cancel: 'Cancelación en curso',
+        cancelled: 'Cancelado',
+        invalid: 'Pedido inválido'
+      },
+      payment: {
+        pending: 'Pago pendiente',
+        approved: 'Pago aprobado',
+        authorized: 'Pago autorizado',
+        in_process: 'Pago en revisión',
+        in_mediation: 'Pago en mediación',
+        rejected: 'Pago rechazado',
+        cancelled: 'Pago cancelado',
+        refunded: 'Pago reembolsado',
+        charged_back: 'Contracargo'
+      },
+      shipment: {
+        pending: 'Envío pendiente',
+        handling: 'Preparando el envío',
+        ready_to_ship: 'Listo para despachar',
+        shipped: 'En camino',
+        delivered: 'Entregado',
+        not_delivered: 'No entregado',
+        cancelled: 'Envío cancelado'
+      }
+    },
+    pt: {
+      order: {
+        confirmed: 'Pedido confirmado',
+        payment_required: 'Aguardando pagamento',
+        payment_in_process: 'Pagamento em processamento',
+        partially_paid: 'Pagamento parcial',
+        paid: 'Pago',
+        partially_refunded: 'Reembolso parcial',
+        pending_cancel: 'Cancelamento em andamento',
+        cancelled: 'Cancelado',
+        invalid: 'Pedido inválido'
+      },
+      payment: {
+        pending: 'Pagamento pendente',
+        approved: 'Pagamento aprovado',
+        authorized: 'Pagamento autorizado',
+        in_process: 'Pagamento em análise',
+        in_mediation: 'Pagamento em mediação',
+        rejected: 'Pagamento recusado',
+        cancelled: 'Pagamento cancelado',
+        refunded: 'Pagamento reembolsado',
+        charged_back: 'Estorno'
+      },
+      shipment: {
+        pending: 'Envio pendente',
+        handling: 'Preparando o envio',
+        ready_to_ship: 'Pronto para envio',
+        shipped: 'A caminho',
+        delivered: 'Entregue',
+        not_delivered: 'Não entregue',
+        cancelled: 'Envio cancelado'
+      }
+    },
+    en: {
+      order: {
+        confirmed: 'Order confirmed',
+        payment_required: 'Waiting for payment',
+        payment_in_process: 'Payment in process',
+        partially_paid: 'Partially paid',
+        paid: 'Paid',
+        partially_refunded: 'Partially refunded',
+        pending_cancel: 'Cancellation in progress',
+        cancelled: 'Cancelled',
+        invalid: 'Invalid order'
+      },
+      payment: {
+        pending: 'Payment pending',
+        approved: 'Payment approved',
+        authorized: 'Payment authorized',
+        in_process: 'Payment under review',
+        in_mediation: 'Payment in mediation',
+        rejected: 'Payment rejected',
+        cancelled: 'Payment cancelled',
+        refunded: 'Payment refunded',
+        charged_back: 'Chargeback'
+      },
+      shipment: {
+        pending: 'Shipment pending',
+        handling: 'Preparing the shipment',
+        ready_to_ship: 'Ready to ship',
+        shipped: 'On the way',
+        delivered: 'Delivered',
+        not_delivered: 'Not delivered',
+        cancelled: 'Shipment cancelled'
+      }
+    }
+  },
+  
   /**
    * Get user orders from MercadoLibre
    * @param {string} userId - ML user ID
-   * @param {Object} filters - Optional filters
+   * @param {Object} filters - Optional filters: status, buyer (ID), q (free text such as a nickname), sort, limit, offset
    * @returns {Object} Orders data
    */
   getUserOrders(userId, filters = {}) {
@@ -29,6 +156,15 @@ const MercadoLibreService = {
       if (filters.status) {
         endpoint += `&order.status=${filters.status}`;
       }
+      if (filters.buyer) {
+        endpoint += `&buyer=${encodeURIComponent(filters.buyer)}`;
+      }
+      if (filters.q) {
+        endpoint += `&q=${encodeURIComponent(filters.q)}`;
+      }
+      if (filters.sort) {
+        endpoint += `&sort=${filters.sort}`;
+      }
       if (filters.limit) {
         endpoint += `&limit=${filters.limit}`;
       }
@@ -114,6 +250,169 @@ const MercadoLibreService = {
     }
   },
   
+  /**
+   * Get a shipment with its tracking data
+   * @param {string|number} shipmentId - The order's shipping.id
+   * @returns {Object} Shipment details
+   */
+  getShipment(shipmentId) {
+    try {
+      const token = this.getValidAccessToken();
+      if (!token) {
+        throw new Error('No valid access token available');
+      }
+      
+      const endpoint = `https://api.mercadolibre.com/shipments/${shipmentId}`;
+      
+      const options = {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        }
+      };
+      
+      const response = UrlFetchApp.fetch(endpoint, options);
+      const responseData = JSON.parse(response.getContentText());
+      
+      if (response.getResponseCode() === 200) {
+        return {
+          success: true,
+          data: responseData,
+          timestamp: new Date().toISOString()
+        };
+      } else {
+        throw new Error(`ML API error: ${responseData.message || 'Unknown error'}`);
+      }
+      
+    } catch (error) {
+      Logger.log(`Error getting shipment: ${error.message}`);
+      LoggingService.logError('getShipment', error, { shipmentId });
+      
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  },
+  
+  /**
+   * Recent orders of one buyer from our store, newest first
+   * @param {Object} buyer - { id } or { nickname }
+   * @param {number} limit - Orders to return
+   * @returns {Object} { success, buyer, orders } with the buyer's ID and nickname when found
+   */
+  findBuyerOrders(buyer, limit = 5) {
+    const sellerId = PropertiesService.getScriptProperties().getProperty('ML_USER_ID');
+    const result = this.getUserOrders(sellerId, {
+      ...(buyer.id ? { buyer: buyer.id } : { q: buyer.nickname }),
+      sort: 'date_desc',
+      limit: limit
+    });
+    
+    if (!result.success) {
+      return result;
+    }
+    
+    // Free-text search also matches item titles, so keep only the buyer's own orders
+    const orders = (result.data.results || []).filter(order => buyer.id
+      ? String(order.buyer && order.buyer.id) === String(buyer.id)
+      : String(order.buyer && order.buyer.nickname).toLowerCase() === buyer.nickname.toLowerCase());
+    
+    return {
+      success: true,
+      buyer: orders.length > 0 ? { id: orders[0].buyer.id, nickname: orders[0].buyer.nickname } : buyer,
+      orders: orders.slice(0, limit),
+      timestamp: new Date().toISOString()
+    };
+  },
+  
+  /**
+   * Order, payment and shipment state changes in the order they happened
+   * @param {Object} order - Order from getOrderDetails
+   * @param {Object|null} shipment - Shipment from getShipment
+   * @returns {Array} Entries of { at, source, status, label }
+   */
+  buildOrderTimeline(order, shipment) {
+    const entries = [];
+    const add = (at, source, status, label) => {
+      if (at) {
+        entries.push({ at: new Date(at).toISOString(), source: source, status: status, label: label || status });
+      }
+    };
+    
+    add(order.date_created, 'order', 'confirmed', this.statusLabel('order', 'confirmed'));
+    
+    (order.payments || []).forEach(payment => {
+      add(payment.date_created, 'payment', 'pending', this.statusLabel('payment', 'pending'));
+      if (payment.status !== 'pending') {
+        add(payment.date_approved || payment.date_last_modified || payment.date_created, 'payment', payment.status, this.statusLabel('payment', payment.status));
+      }
+    });
+    
+    if (shipment && shipment.status_history) {
+      Object.keys(this.STATUS_LABELS.es.shipment).forEach(status => {
+        add(shipment.status_history[`date_${status}`], 'shipment', status, this.statusLabel('shipment', status));
+      });
+    }
+    
+    if (order.status === 'cancelled') {
+      add(order.date_closed || order.last_updated, 'order', 'cancelled', this.statusLabel('order', 'cancelled'));
+    }
+    
+    return entries.sort((a, b) => a.at.localeCompare(b.at));
+  },
+  
+  /**
+   * Customer-facing name of a state, in the language of the request
+   * @param {string} group - order, payment or shipment
+   * @param {string} status - MercadoLibre status
+   * @returns {string} Label, or the status itself when it has none
+   */
+  statusLabel(group, status) {
+    const labels = this.STATUS_LABELS[I18nService.current()] || this.STATUS_LABELS.es;
+    return labels[group][status] || this.STATUS_LABELS.es[group][status] || status;
+  },
+  
+  /**
+   * Fields of an order shown in a buyer's order list
+   * @param {Object} order - Order from getUserOrders
+   * @returns {Object} { id, status, statusLabel, total, currency, date, title }
+   */
+  summarizeOrder(order) {
+    const firstItem = (order.order_items || [])[0];
+    
+    return {
+      id: String(order.id),
+      status: order.status,
+      statusLabel: this.statusLabel('order', order.status),
+      total: order.total_amount,
+      currency: order.currency_id || null,
+      date: order.date_created,
+      title: (firstItem && firstItem.item && firstItem.item.title) || null
+    };
+  },
+  
+  /**
+   * Tracking fields of a shipment that are safe to show the customer
+   * @param {Object} shipment - Shipment from getShipment
+   * @returns {Object} { id, status, statusLabel, substatus, carrier, trackingNumber, service, estimatedDelivery }
+   */
+  summarizeShipment(shipment) {
+    const option = shipment.shipping_option || {};
+    
+    return {
+      id: String(shipment.id),
+      status: shipment.status,
+      statusLabel: this.statusLabel('shipment', shipment.status),
+      substatus: shipment.substatus || null,
+      carrier: shipment.tracking_method || null,
+      trackingNumber: shipment.tracking_number || null,
+      service: option.name || null,
+      estimatedDelivery: (option.estimated_delivery_time && option.estimated_delivery_time.date) || null
+    };
+  },
+  
   /**
    * Get product information
    * @param {string} itemId - MercadoLibre item ID
@@ -153,6 +452,114 @@ const MercadoLibreService = {
     }
   },
   
+  /**
+   * Search our own listings on a site
+   * @param {string} query - Words to look for in the titles
+   * @param {Object} options - Optional: siteId (ml_site_id by default), limit (product_search_results by default)
+   * @returns {Object} { success, query, siteId, total, results } with the fields of summarizeItem
+   */
+  searchSellerItems(query, options = {}) {
+    try {
+      const siteId = options.siteId || ConfigService.get('ml_site_id', 'MLA');
+      const limit = options.limit || ConfigService.get('product_search_results', 3);
+      const sellerId = PropertiesService.getScriptProperties().getProperty('ML_USER_ID');
+      
+      const endpoint = `https://api.mercadolibre.com/sites/${siteId}/search?seller_id=${sellerId}&q=${encodeURIComponent(query)}&limit=${limit}`;
+      
+      const headers = { 'Content-Type': 'application/json' };
+      
+      // Search works without a token, but MercadoLibre allows more requests with one
+      const token = this.getValidAccessToken();
+      if (token) {
+        headers['Authorization'] = `Bearer ${token}`;
+      }
+      
+      const response = UrlFetchApp.fetch(endpoint, { method: 'GET', headers: headers });
+      const responseData = JSON.parse(response.getContentText());
+      
+      if (response.getResponseCode() === 200) {
+        const results = responseData.results || [];
+        return {
+          success: true,
+          query: query,
+          siteId: siteId,
+          total: (responseData.paging && responseData.paging.total) || results.length,
+          results: results.slice(0, limit).map(item => this.summarizeItem(item)),
+          timestamp: new Date().toISOString()
+        };
+      } else {
+        throw new Error(`ML API error: ${responseData.message || 'Unknown error'}`);
+      }
+      
+    } catch (error) {
+      Logger.log(`Error searching seller items: ${error.message}`);
+      LoggingService.logError('searchSellerItems', error, { query });
+      
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  },
+  
+  /**
+   * Fields of a listing shown in search results
+   * @param {Object} item - Item from getProductInfo or searchSellerItems
+   * @returns {Object} { id, title, price, priceLabel, currency, availableQuantity, permalink, thumbnail }
+   */
+  summarizeItem(item) {
+    const siteId = item.site_id || this.getSiteId(item.id);
+    
+    return {
+      id: String(item.id),
+      title: item.title,
+      price: item.price,
+      priceLabel: this.formatPrice(item.price, item.currency_id, siteId),
+      currency: item.currency_id || (this.SITES[siteId] ? this.SITES[siteId].currency : null),
+      availableQuantity: typeof item.available_quantity === 'number' ? item.available_quantity : null,
+      permalink: item.permalink || null,
+      thumbnail: item.thumbnail || null
+    };
+  },
+  
+  /**
+   * Site of an item from its ID prefix
+   * @param {string} itemId - Item ID such as MLA123456789
+   * @returns {string|null} Site ID, or null when the prefix is not a known site
+   */
+  getSiteId(itemId) {
+    const prefix = String(itemId || '').substring(0, 3).toUpperCase();
+    return this.SITES[prefix] ? prefix : null;
+  },
+  
+  /**
+   * Format a price the way the item's site shows it, or in the customer's locale when
+   * they write in another language than the site's
+   * @param {number} amount - Price
+   * @param {string} currencyId - Currency of the price; the site's currency when missing
+   * @param {string} siteId - Site of the item; ml_site_id when missing or unknown
+   * @returns {string} Price such as "$ 89.999" (MLA) or "R$ 129,90" (MLB)
+   */
+  formatPrice(amount, currencyId, siteId) {
+    const site = this.SITES[siteId] || this.SITES[ConfigService.get('ml_site_id', 'MLA')] || this.SITES.MLA;
+    const currency = currencyId || site.currency;
+    const ownLocale = site.locale.startsWith(`${I18nService.current()}-`);
+    
+    try {
+      return new Intl.NumberFormat(ownLocale ? site.locale : I18nService.getLocale(), {
+        style: 'currency',
+        currency: currency,
+        // Other locales write foreign currencies as codes, e.g. BRL 349,90 instead of R$ 349,90
+        currencyDisplay: ownLocale ? 'symbol' : 'narrowSymbol',
+        minimumFractionDigits: Number.isInteger(amount) ? 0 : 2,
+        maximumFractionDigits: 2
+      }).format(amount);
+    } catch (error) {
+      // Unknown currency codes make Intl throw
+      return `${currency} ${amount}`;
+    }
+  },
+  
   /**
    * Get valid access token, refreshing if necessary
    * @returns {string|null} Valid access token
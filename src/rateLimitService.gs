@@ -0,0 +1,174 @@
+/**
+ * Rate Limit Service - Abuse protection for the public chat actions
+ * 
+ * This service keeps one client from spending the whole AI quota:
+ * - Token buckets per session and across all sessions, kept in CacheService
+ * - A maximum message length
+ * - Rejection of a message the session just sent
+ * Requests over a limit get a throttled response instead of reaching the bot.
+ * The first hit of a session and reason in each window is logged for the
+ * analytics view; later ones are counted in the cache and added to the next row.
+ */
+
+const RateLimitService = {
+  
+  // Actions whose userInput is checked for length
+  MESSAGE_ACTIONS: ['processSelection', 'sendMessage'],
+  
+  // Actions whose userInput is checked for repeats; menu numbers are repeated on purpose
+  DUPLICATE_ACTIONS: ['sendMessage'],
+  
+  // Seconds in which only the first throttled request of a session and reason is logged
+  LOG_WINDOW_SECONDS: 60,
+  
+  // Unlogged hits are kept this long; CacheService refuses longer expirations
+  MAX_CACHE_SECONDS: 21600,
+  
+  /**
+   * Check a public chat request against every limit
+   * @param {string} action - getMenu, processSelection or sendMessage
+   * @param {string} userInput - Message or selection sent
+   * @param {string} sessionId - Session identifier
+   * @returns {Object|null} Throttled response, or null when the request may go on
+   */
+  check(action, userInput, sessionId) {
+    try {
+      const input = String(userInput ?? '');
+      
+      if (this.MESSAGE_ACTIONS.includes(action)) {
+        const maxLength = ConfigService.get('max_message_length', 1000);
+        if (input.length > maxLength) {
+          return this.throttle('too_long', action, input, sessionId, { max: maxLength });
+        }
+      }
+      
+      const checkDuplicates = this.DUPLICATE_ACTIONS.includes(action) && ConfigService.get('duplicate_window', 10) > 0;
+      const duplicateKey = `last_message_${sessionId || 'anonymous'}`;
+      const normalized = input.trim().toLowerCase().replace(/\s+/g, ' ');
+      
+      if (checkDuplicates && normalized && CacheService.getScriptCache().get(duplicateKey) === normalized) {
+        return this.throttle('duplicate', action, input, sessionId);
+      }
+      
+      const sessionLimit = ConfigService.get('session_rate_limit', 30);
+      const sessionWait = this.take(
+        `bucket_session_${sessionId || 'anonymous'}`,
+        ConfigService.get('session_rate_burst', 10),
+        sessionLimit / 60
+      );
+      if (sessionWait > 0) {
+        return this.throttle('session', action, input, sessionId, { retryAfter: sessionWait });
+      }
+      
+      // A minute of traffic may arrive at once
+      const globalLimit = ConfigService.get('global_rate_limit', 300);
+      const globalWait = this.take('bucket_global', globalLimit, globalLimit / 60);
+      if (globalWait > 0) {
+        return this.throttle('global', action, input, sessionId, { retryAfter: globalWait });
+      }
+      
+      // Only messages that got through count as sent, so a throttled one can be retried
+      if (checkDuplicates && normalized) {
+        CacheService.getScriptCache().put(duplicateKey, normalized, ConfigService.get('duplicate_window', 10));
+      }
+      
+      return null;
+      
+    } catch (error) {
+      // A broken limiter should not take the chat down with it
+      Logger.log(`Error checking rate limits: ${error.message}`);
+      LoggingService.logError('checkRateLimit', error, { sessionId: sessionId });
+      return null;
+    }
+  },
+  
+  /**
+   * Take a token from a bucket that refills continuously.
+   * Concurrent requests may both read the same count; the limits are approximate.
+   * @param {string} key - Cache key of the bucket
+   * @param {number} capacity - Tokens in a full bucket
+   * @param {number} perSecond - Tokens added per second
+   * @returns {number} 0 when a token was taken, otherwise seconds until the next one
+   */
+  take(key, capacity, perSecond) {
+    const cache = CacheService.getScriptCache();
+    const now = Date.now();
+    const stored = JSON.parse(cache.get(key) || 'null');
+    const tokens = stored
+      ? Math.min(capacity, stored.tokens + (Math.max(0, now - stored.at) / 1000) * perSecond)
+      : capacity;
+    
+    if (tokens < 1) {
+      return Math.ceil((1 - tokens) / perSecond);
+    }
+    
+    // Kept until the bucket would be full again; CacheService caps this at 6 hours
+    const ttl = Math.min(21600, Math.ceil(capacity / perSecond) + 60);
+    cache.put(key, JSON.stringify({ tokens: tokens - 1, at: now }), ttl);
+    return 0;
+  },
+  
+  /**
+   * Build and log the response for a request over a limit
+   * @param {string} reason - session, global, too_long or duplicate
+   * @param {string} action - Action that was throttled
+   * @param {string} input - Message or selection sent
+   * @param {string} sessionId - Session identifier
+   * @param {Object} options - { retryAfter, max }
+   * @returns {Object} Throttled response
+   */
+  throttle(reason, action, input, sessionId, options = {}) {
+    const message = I18nService.t(`rate_limit.${reason}`, { max: options.max });
+    const retryAfter = options.retryAfter || null;
+    const repeated = this.takeLogSlot(reason, sessionId);
+    
+    // A refused flood must not cost a sheet write per request
+    if (repeated !== null) {
+      LoggingService.logInteraction('throttled', sessionId, {
+        action: action,
+        reason: reason,
+        // Long messages are cut so a flood of them cannot fill the log
+        userMessage: input.substring(0, 200),
+        length: input.length,
+        message: message,
+        retryAfter: retryAfter,
+        repeated: repeated,
+        success: false
+      });
+    }
+    
+    return {
+      success: true,
+      type: 'throttled',
+      reason: reason,
+      message: message,
+      retryAfter: retryAfter,
+      showMenu: false,
+      timestamp: new Date().toISOString()
+    };
+  },
+  
+  /**
+   * Count a throttled request and decide whether it is logged: only the first
+   * of a session and reason in each LOG_WINDOW_SECONDS is
+   * @param {string} reason - Limit that was hit
+   * @param {string} sessionId - Session identifier
+   * @returns {number|null} Earlier hits that were not logged when this one is, otherwise null
+   */
+  takeLogSlot(reason, sessionId) {
+    const cache = CacheService.getScriptCache();
+    const key = `throttled_${reason}_${sessionId || 'anonymous'}`;
+    const unlogged = Number(cache.get(`${key}_count`)) || 0;
+    
+    if (cache.get(key)) {
+      cache.put(`${key}_count`, String(unlogged + 1), this.MAX_CACHE_SECONDS);
+      return null;
+    }
+    
+    cache.put(key, '1', this.LOG_WINDOW_SECONDS);
+    if (unlogged > 0) {
+      cache.remove(`${key}_count`);
+    }
+    return unlogged;
+  }
+};
@@ -0,0 +1,457 @@
+/**
+ * Session Service - Stores conversation state with expiry
+ * 
+ * This service keeps per-visitor session state out of Script Properties:
+ * - CacheService holds hot sessions for fast reads
+ * - The Sessions sheet keeps every session durable across cache evictions
+ * - Sessions expire after session_timeout seconds without activity
+ * - A time-driven trigger deletes expired rows
+ * - Row writes and deletions hold the script lock; a cached row index avoids rescanning the sheet
+ * - Sessions are trimmed to fit the sheet's per-cell character limit
+ * - One-off migration of the old SESSION_ Script Properties
+ */
+
+const SessionService = {
+  
+  // Prefix of cache keys, and of the Script Properties used before the Sessions sheet
+  KEY_PREFIX: 'SESSION_',
+  
+  // Prefix of the cache keys holding each session's row in the Sessions sheet
+  ROW_PREFIX: 'ROW_SESSION_',
+  
+  // Top-level function run by the cleanup trigger
+  CLEANUP_HANDLER: 'cleanupExpiredSessions',
+  
+  // CacheService refuses longer expirations
+  MAX_CACHE_SECONDS: 21600,
+  
+  // Longest session JSON written to its cell; Sheets refuses cells over 50,000 characters
+  MAX_CELL_LENGTH: 45000,
+  
+  // Newest customer notifications kept when trimming the transcript is not enough
+  MIN_OUTBOX_MESSAGES: 10,
+  
+  /**
+   * Get a session, dropping it once it has been idle for session_timeout seconds
+   * @param {string} sessionId - Session identifier
+   * @returns {Object} Session data, empty for new or expired sessions
+   */
+  get(sessionId) {
+    try {
+      const cached = this.getCache().get(this.KEY_PREFIX + sessionId);
+      const session = cached ? JSON.parse(cached) : this.findRow(sessionId)?.data;
+      
+      if (!session) {
+        return {};
+      }
+      
+      if (this.isExpired(session.updatedAt)) {
+        this.remove(sessionId);
+        return {};
+      }
+      
+      if (!cached) {
+        this.putCache(sessionId, session);
+      }
+      
+      return session;
+      
+    } catch (error) {
+      Logger.log(`Error reading session ${sessionId}: ${error.message}`);
+      return {};
+    }
+  },
+  
+  /**
+   * Get a session only if the cache holds it, for requests that must not read the sheet
+   * @param {string} sessionId - Session identifier
+   * @returns {Object} Session data, empty when not cached or expired
+   */
+  getCached(sessionId) {
+    try {
+      const session = JSON.parse(this.getCache().get(this.KEY_PREFIX + sessionId) || '{}');
+      return this.isExpired(session.updatedAt) ? {} : session;
+      
+    } catch (error) {
+      Logger.log(`Error reading cached session ${sessionId}: ${error.message}`);
+      return {};
+    }
+  },
+  
+  /**
+   * Replace a session's data and mark it as active now
+   * @param {string} sessionId - Session identifier
+   * @param {Object} data - Full session data
+   * @returns {Object} Stored session
+   */
+  save(sessionId, data) {
+    const session = { ...data, ...I18nService.takePending(sessionId), updatedAt: new Date().toISOString() };
+    this.store(sessionId, session);
+    return session;
+  },
+  
+  /**
+   * Change a session under the script lock, starting from its stored row, so
+   * agents and customers writing the same session don't drop each other's changes
+   * @param {string} sessionId - Session identifier
+   * @param {Function} change - Gets the stored session data and returns the new data
+   * @returns {Object} Stored session
+   */
+  update(sessionId, change) {
+    return withScriptLock(() => {
+      const row = this.findRow(sessionId);
+      const current = row && !this.isExpired(row.data.updatedAt) ? row.data : {};
+      const session = { ...change(current), ...I18nService.takePending(sessionId), updatedAt: new Date().toISOString() };
+      this.write(sessionId, session);
+      return session;
+    });
+  },
+  
+  /**
+   * End a session
+   * @param {string} sessionId - Session identifier
+   * @returns {boolean} True if the session was stored
+   */
+  remove(sessionId) {
+    try {
+      return withScriptLock(() => {
+        this.getCache().remove(this.KEY_PREFIX + sessionId);
+        
+        const row = this.findRow(sessionId);
+        if (!row) {
+          return false;
+        }
+        
+        // Rows below shift up; findRow notices their stale indexes
+        SheetsService.getSheet(CONFIG.SHEETS.SESSIONS_SHEET).deleteRow(row.row);
+        this.getCache().remove(this.ROW_PREFIX + sessionId);
+        return true;
+      });
+      
+    } catch (error) {
+      Logger.log(`Error removing session ${sessionId}: ${error.message}`);
+      return false;
+    }
+  },
+  
+  /**
+   * Delete every expired session from the sheet and the cache
+   * @returns {Object} Number of sessions removed and still active
+   */
+  cleanupExpired() {
+    try {
+      const { active, expired } = withScriptLock(() => {
+        const rows = SheetsService.getAllData(CONFIG.SHEETS.SESSIONS_SHEET);
+        const kept = rows.filter(row => row[0] !== '' && !this.isExpired(row[3]));
+        const dropped = rows.filter(row => row[0] !== '' && this.isExpired(row[3]));
+        
+        if (dropped.length > 0) {
+          SheetsService.replaceData(CONFIG.SHEETS.SESSIONS_SHEET, kept);
+          this.getCache().removeAll(dropped.flatMap(row => [this.KEY_PREFIX + row[0], this.ROW_PREFIX + row[0]]));
+        }
+        
+        return { active: kept, expired: dropped };
+      });
+      
+      Logger.log(`Session cleanup complete. Removed ${expired.length}, ${active.length} active.`);
+      return { removed: expired.length, active: active.length };
+      
+    } catch (error) {
+      Logger.log(`Error cleaning up sessions: ${error.message}`);
+      return { removed: 0, active: 0 };
+    }
+  },
+  
+  /**
+   * Summaries of the sessions that have not expired, most recent first
+   * @returns {Array} Session summaries
+   */
+  listActive() {
+    return this.readRows()
+      .filter(row => !this.isExpired(row.updatedAt))
+      .map(row => this.summarize(row))
+      .sort((a, b) => new Date(b.updatedAt) - new Date(a.updatedAt));
+  },
+  
+  /**
+   * Move sessions stored as SESSION_ Script Properties into the session store
+   * and delete those properties, expired or not
+   * @returns {Object} Number of sessions migrated and discarded
+   */
+  migrateFromProperties() {
+    const properties = PropertiesService.getScriptProperties();
+    const keys = properties.getKeys().filter(key => key.startsWith(this.KEY_PREFIX));
+    let migrated = 0;
+    
+    keys.forEach(key => {
+      try {
+        const session = JSON.parse(properties.getProperty(key) || '{}');
+        
+        // Sessions from before session_timeout was enforced have no updatedAt
+        if (session.updatedAt && !this.isExpired(session.updatedAt)) {
+          this.store(key.slice(this.KEY_PREFIX.length), session);
+          migrated++;
+        }
+        
+      } catch (error) {
+        Logger.log(`Discarding unreadable session property ${key}: ${error.message}`);
+      }
+      
+      properties.deleteProperty(key);
+    });
+    
+    if (keys.length > 0) {
+      Logger.log(`Session migration complete. Migrated ${migrated}, discarded ${keys.length - migrated}.`);
+    }
+    
+    return { migrated: migrated, discarded: keys.length - migrated };
+  },
+  
+  /**
+   * Install the hourly trigger that runs cleanupExpiredSessions, once
+   * @returns {boolean} True if a trigger was created
+   */
+  installCleanupTrigger() {
+    return ensureTimeTrigger(this.CLEANUP_HANDLER, 60);
+  },
+  
+  /**
+   * Build the active sessions response for the dashboard
+   * @returns {Object} Active session count and summaries
+   */
+  getSessionsReport() {
+    try {
+      const sessions = this.listActive();
+      
+      return {
+        success: true,
+        type: 'sessions',
+        active: sessions.length,
+        sessions: sessions,
+        timeout: this.getTimeoutSeconds(),
+        timestamp: new Date().toISOString()
+      };
+      
+    } catch (error) {
+      Logger.log(`Error building sessions report: ${error.message}`);
+      return {
+        success: false,
+        error: 'No se pudieron obtener las sesiones activas.',
+        timestamp: new Date().toISOString()
+      };
+    }
+  },
+  
+  /**
+   * Build the response for inspecting one session from the dashboard
+   * @param {string} sessionId - Session identifier
+   * @returns {Object} Session summary with its full data, or an error if it is not active
+   */
+  getSessionDetail(sessionId) {
+    const row = sessionId ? this.findRow(sessionId) : null;
+    
+    if (!row || this.isExpired(row.updatedAt)) {
+      return {
+        success: false,
+        code: 'not_found',
+        error: 'La sesión no existe o ya expiró.',
+        timestamp: new Date().toISOString()
+      };
+    }
+    
+    return {
+      success: true,
+      type: 'session',
+      session: { ...this.summarize(row), data: row.data },
+      timestamp: new Date().toISOString()
+    };
+  },
+  
+  /**
+   * End a session from the dashboard
+   * @param {string} sessionId - Session identifier
+   * @returns {Object} Updated sessions report, or an error if the session is not stored
+   */
+  endSession(sessionId) {
+    if (!sessionId || !this.remove(sessionId)) {
+      return {
+        success: false,
+        code: 'not_found',
+        error: 'La sesión no existe o ya expiró.',
+        timestamp: new Date().toISOString()
+      };
+    }
+    
+    LoggingService.logInteraction('session_ended', sessionId, { message: 'Sesión finalizada desde el panel' });
+    
+    return this.getSessionsReport();
+  },
+  
+  // Helper methods
+  
+  /**
+   * Write a session to the cache and its sheet row, keeping updatedAt as given.
+   * Holds the script lock so two messages can't claim the same new row.
+   */
+  store(sessionId, session) {
+    withScriptLock(() => this.write(sessionId, session));
+  },
+  
+  /**
+   * Write a session's row and cache; callers hold the script lock
+   */
+  write(sessionId, data) {
+    const sheet = SheetsService.getSheet(CONFIG.SHEETS.SESSIONS_SHEET);
+    const existing = this.findRow(sessionId);
+    const session = this.fitCell(sessionId, data);
+    const values = [[
+      String(sessionId),
+      JSON.stringify(session),
+      existing ? existing.createdAt : session.updatedAt,
+      session.updatedAt
+    ]];
+    
+    const row = existing ? existing.row : sheet.getLastRow() + 1;
+    sheet.getRange(row, 1, 1, values[0].length).setValues(values);
+    
+    this.indexRow(sessionId, row);
+    this.putCache(sessionId, session);
+  },
+  
+  /**
+   * Cut a session down to MAX_CELL_LENGTH characters of JSON. The last response
+   * goes first, then the oldest transcript exchanges, then the conversation
+   * summary and all but the newest customer notifications.
+   */
+  fitCell(sessionId, data) {
+    const fits = session => JSON.stringify(session).length <= this.MAX_CELL_LENGTH;
+    
+    if (fits(data)) {
+      return data;
+    }
+    
+    Logger.log(`Session ${sessionId} is over ${this.MAX_CELL_LENGTH} characters; trimming it`);
+    
+    const session = { ...data, history: (data.history || []).slice() };
+    delete session.lastResponse;
+    
+    while (session.history.length > 0 && !fits(session)) {
+      session.history.splice(0, 2);
+    }
+    
+    if (fits(session)) {
+      return session;
+    }
+    
+    return { ...session, summary: '', outbox: (data.outbox || []).slice(-this.MIN_OUTBOX_MESSAGES) };
+  },
+  
+  putCache(sessionId, session) {
+    try {
+      const seconds = Math.max(1, Math.min(this.getTimeoutSeconds(), this.MAX_CACHE_SECONDS));
+      this.getCache().put(this.KEY_PREFIX + sessionId, JSON.stringify(session), seconds);
+      
+    } catch (error) {
+      // Values over the 100 KB cache limit are served from the sheet
+      Logger.log(`Error caching session ${sessionId}: ${error.message}`);
+    }
+  },
+  
+  /**
+   * Find a session's row through the cached index, checked against the sheet
+   * since deletions shift rows, falling back to scanning the ID column
+   */
+  findRow(sessionId) {
+    const sheet = SheetsService.getSheet(CONFIG.SHEETS.SESSIONS_SHEET);
+    const id = String(sessionId);
+    const lastRow = sheet.getLastRow();
+    const indexed = Number(this.getCache().get(this.ROW_PREFIX + id));
+    
+    if (indexed >= 2 && indexed <= lastRow) {
+      const values = sheet.getRange(indexed, 1, 1, 4).getValues()[0];
+      if (String(values[0]) === id) {
+        return this.parseRow(values, indexed);
+      }
+    }
+    
+    const ids = lastRow > 1 ? sheet.getRange(2, 1, lastRow - 1, 1).getValues() : [];
+    const index = ids.findIndex(row => String(row[0]) === id);
+    
+    if (index < 0) {
+      return null;
+    }
+    
+    this.indexRow(id, index + 2);
+    return this.parseRow(sheet.getRange(index + 2, 1, 1, 4).getValues()[0], index + 2);
+  },
+  
+  indexRow(sessionId, row) {
+    this.getCache().put(this.ROW_PREFIX + sessionId, String(row), this.MAX_CACHE_SECONDS);
+  },
+  
+  /**
+   * Parse the Sessions sheet into {row, sessionId, data, createdAt, updatedAt}
+   */
+  readRows() {
+    const rows = SheetsService.getAllData(CONFIG.SHEETS.SESSIONS_SHEET);
+    
+    return rows
+      .map((row, index) => this.parseRow(row, index + 2))
+      .filter(row => row.sessionId !== '');
+  },
+  
+  parseRow(values, row) {
+    let data = {};
+    try {
+      data = JSON.parse(values[1] || '{}');
+    } catch (error) {
+      Logger.log(`Unreadable session data in row ${row}: ${error.message}`);
+    }
+    
+    return {
+      row: row,
+      sessionId: String(values[0]),
+      data: data,
+      createdAt: this.toISO(values[2]),
+      updatedAt: this.toISO(values[3])
+    };
+  },
+  
+  summarize(row) {
+    return {
+      sessionId: row.sessionId,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+      expiresAt: new Date(new Date(row.updatedAt).getTime() + this.getTimeoutSeconds() * 1000).toISOString(),
+      messageCount: Array.isArray(row.data.history) ? row.data.history.length : 0,
+      lastMessage: row.data.lastMessage || null,
+      menuPath: row.data.menuPath || '',
+      activeFlow: row.data.activeFlow ? row.data.activeFlow.option : null
+    };
+  },
+  
+  isExpired(updatedAt) {
+    const time = new Date(updatedAt).getTime();
+    return !time || Date.now() - time > this.getTimeoutSeconds() * 1000;
+  },
+  
+  getTimeoutSeconds() {
+    return Number(ConfigService.get('session_timeout', 1800)) || 1800;
+  },
+  
+  getCache() {
+    return CacheService.getScriptCache();
+  },
+  
+  toISO(value) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? '' : date.toISOString();
+  }
+};
+
+/**
+ * Scheduled by SessionService.installCleanupTrigger()
+ */
+function cleanupExpiredSessions() {
+  return SessionService.cleanupExpired();
+}
@@ -69,6 +69,21 @@ const SheetsService = {
       // Create settings sheet
       const settingsSheet = this.getSheet(CONFIG.SHEETS.SETTINGS_SHEET);
       
+      // Create sessions sheet
+      const sessionsSheet = this.getSheet(CONFIG.SHEETS.SESSIONS_SHEET);
+      
+      // Create escalations sheet
+      const escalationsSheet = this.getSheet(CONFIG.SHEETS.ESCALATIONS_SHEET);
+      
+      // Create holidays sheet
+      const holidaysSheet = this.getSheet(CONFIG.SHEETS.HOLIDAYS_SHEET);
+      
+      // Create intents sheet
+      const intentsSheet = this.getSheet(CONFIG.SHEETS.INTENTS_SHEET);
+      
+      // Create knowledge base sheet
+      const knowledgeSheet = this.getSheet(CONFIG.SHEETS.KNOWLEDGE_SHEET);
+      
       Logger.log('Sheets initialization complete');
       
     } catch (error) {
@@ -97,6 +112,26 @@ const SheetsService = {
           this.setupSettingsSheet(sheet);
           break;
           
+        case CONFIG.SHEETS.SESSIONS_SHEET:
+          this.setupSessionsSheet(sheet);
+          break;
+          
+        case CONFIG.SHEETS.ESCALATIONS_SHEET:
+          this.setupEscalationsSheet(sheet);
+          break;
+          
+        case CONFIG.SHEETS.HOLIDAYS_SHEET:
+          this.setupHolidaysSheet(sheet);
+          break;
+          
+        case CONFIG.SHEETS.INTENTS_SHEET:
+          this.setupIntentsSheet(sheet);
+          break;
+          
+        case CONFIG.SHEETS.KNOWLEDGE_SHEET:
+          this.setupKnowledgeSheet(sheet);
+          break;
+          
         default:
           Logger.log(`Unknown sheet type: ${sheetName}`);
       }
@@ -122,7 +157,9 @@ const SheetsService = {
       'Respuesta Fallback',
       'Volver al Menú',
       'Activo',
-      'Max Tokens'
+      'Max Tokens',
+      'Flujo',
+      ...Object.keys(I18nService.LANGUAGES).map(language => I18nService.columnHeader('Traducción', language))
     ];
     
     // Set headers
@@ -134,13 +171,47 @@ const SheetsService = {
     headerRange.setFontColor('#FFFFFF');
     headerRange.setFontWeight('bold');
     
+    // Submenu numbers like 2.1 are stored as text
+    sheet.getRange('A:A').setNumberFormat('@');
+    
+    const orderFlow = {
+      steps: [
+        { field: 'orderId', prompt: 'Ingresa tu número de pedido', validate: 'order_id', error: 'El número de pedido debe tener al menos 12 dígitos' },
+        { field: 'email', prompt: '¿A qué correo te enviamos las novedades?', validate: 'email', error: 'Ingresa un correo válido' }
+      ],
+      onComplete: 'order_lookup',
+      completionMessage: 'Gracias, te avisaremos a {email} cuando el pedido {orderId} cambie de estado.'
+    };
+    const orderFlowPt = {
+      title: 'Status do meu pedido',
+      completionMessage: 'Obrigado, avisaremos em {email} quando o pedido {orderId} mudar de status.',
+      steps: {
+        orderId: { prompt: 'Digite o número do seu pedido', error: 'O número do pedido deve ter pelo menos 12 dígitos' },
+        email: { prompt: 'Em qual e-mail enviamos as novidades?', error: 'Digite um e-mail válido' }
+      }
+    };
+    const orderFlowEn = {
+      title: 'My order status',
+      completionMessage: 'Thanks, we will let you know at {email} when order {orderId} changes status.',
+      steps: {
+        orderId: { prompt: 'Enter your order number', error: 'The order number must have at least 12 digits' },
+        email: { prompt: 'Which email should we send updates to?', error: 'Enter a valid email' }
+      }
+    };
+    
+    // Portuguese and English texts for the translation columns; Spanish is the default language
+    const translations = (pt, en) => ['', JSON.stringify(pt), JSON.stringify(en)];
+    
     // Add sample data
     const sampleData = [
-      [1, 'Estado de mi pedido', 'ai', '', 'gemini', 'Ayuda con consultas sobre el estado de pedidos y seguimiento de envíos', '', '', 'Consulta el estado de tu pedido en tu cuenta', true, true, 300],
-      [2, 'Información de productos', 'ai', '', 'gemini', 'Proporciona información sobre productos, precios y disponibilidad', '', '', 'Consulta nuestro catálogo en línea', true, true, 300],
-      [3, 'Política de devoluciones', 'static', 'Puedes devolver productos dentro de 30 días. Visita nuestra sección de devoluciones para más detalles.', '', '', '', '', '', true, true, 0],
-      [4, 'Hablar con un agente', 'escalate', '', '', '', 'Te conectamos con un agente humano', 'Fuera del horario de atención. Te contactaremos pronto.', '', false, true, 0],
-      [0, 'Salir', 'static', 'Gracias por contactarnos. ¡Que tengas un excelente día!', '', '', '', '', '', false, true, 0]
+      [1, 'Estado de mi pedido', 'flow', '', '', '', '', '', '', true, true, 0, JSON.stringify(orderFlow), ...translations(orderFlowPt, orderFlowEn)],
+      [2, 'Información de productos', 'submenu', '', '', '', '', '', '', true, true, 0, '', ...translations({ title: 'Informações de produtos' }, { title: 'Product information' })],
+      ['2.1', 'Talles', 'static', 'Consulta la guía de talles en la descripción de cada publicación.', '', '', '', '', '', true, true, 0, '', ...translations({ title: 'Tamanhos', response: 'Confira a tabela de tamanhos na descrição de cada anúncio.' }, { title: 'Sizes', response: 'Check the size chart in the description of each listing.' })],
+      ['2.2', 'Colores', 'static', 'Los colores disponibles aparecen en las variantes de cada publicación.', '', '', '', '', '', true, true, 0, '', ...translations({ title: 'Cores', response: 'As cores disponíveis aparecem nas variações de cada anúncio.' }, { title: 'Colors', response: 'The available colors are listed in the variations of each listing.' })],
+      ['2.3', 'Otra consulta', 'ai', '', 'gemini', 'Proporciona información sobre productos, precios y disponibilidad', '', '', 'Consulta nuestro catálogo en línea', true, true, 300, '', ...translations({ title: 'Outra pergunta', fallbackResponse: 'Confira nosso catálogo online' }, { title: 'Something else', fallbackResponse: 'Check our online catalog' })],
+      [3, 'Política de devoluciones', 'static', 'Puedes devolver productos dentro de 30 días. Visita nuestra sección de devoluciones para más detalles.', '', '', '', '', '', true, true, 0, '', ...translations({ title: 'Política de devolução', response: 'Você pode devolver produtos em até 30 dias. Visite nossa seção de devoluções para mais detalhes.' }, { title: 'Return policy', response: 'You can return products within 30 days. See our returns section for details.' })],
+      [4, 'Hablar con un agente', 'escalate', '', '', '', 'Te conectamos con un agente humano', 'Fuera del horario de atención. Te contactaremos {next_opening}.', '', false, true, 0, '', ...translations({ title: 'Falar com um atendente', escalationMessage: 'Estamos te conectando com um atendente', afterHoursMessage: 'Fora do horário de atendimento. Entraremos em contato {next_opening}.' }, { title: 'Talk to an agent', escalationMessage: 'We are connecting you with a human agent', afterHoursMessage: 'We are closed right now. We will contact you {next_opening}.' })],
+      [0, 'Salir', 'static', 'Gracias por contactarnos. ¡Que tengas un excelente día!', '', '', '', '', '', false, true, 0, '', ...translations({ title: 'Sair', response: 'Obrigado pelo contato. Tenha um ótimo dia!' }, { title: 'Exit', response: 'Thanks for contacting us. Have a great day!' })]
     ];
     
     sheet.getRange(2, 1, sampleData.length, sampleData[0].length).setValues(sampleData);
@@ -183,21 +254,45 @@ const SheetsService = {
    */
   setupSettingsSheet(sheet) {
     const settingsData = [
-      ['Configuración', 'Valor', 'Descripción'],
+      ['Configuración', 'Valor', 'Descripción', ...Object.keys(I18nService.LANGUAGES).map(language => I18nService.columnHeader('Valor', language))],
       ['business_hours_start', '09:00', 'Hora de inicio de atención (HH:MM)'],
       ['business_hours_end', '18:00', 'Hora de fin de atención (HH:MM)'],
       ['business_days', 'Mon,Tue,Wed,Thu,Fri', 'Días de atención (separados por coma)'],
-      ['greeting_business_hours', '¡Hola! Bienvenido a nuestro servicio de atención al cliente. ¿En qué puedo ayudarte?', 'Saludo durante horario de atención'],
-      ['greeting_after_hours', 'Hola. Actualmente estamos fuera del horario de atención, pero puedo ayudarte con algunas consultas básicas.', 'Saludo fuera del horario'],
-      ['footer_message', 'Escribe el número de la opción que necesitas o describe tu consulta.', 'Mensaje al final del menú'],
+      ['timezone', 'America/Argentina/Buenos_Aires', 'Zona horaria del horario de atención (ej. America/Mexico_City)'],
+      ['greeting_business_hours', '¡Hola! Bienvenido a nuestro servicio de atención al cliente. ¿En qué puedo ayudarte?', 'Saludo durante horario de atención', '', 'Olá! Bem-vindo ao nosso atendimento ao cliente. Como posso ajudar?', 'Hi! Welcome to our customer service. How can I help you?'],
+      ['greeting_after_hours', 'Hola. Actualmente estamos fuera del horario de atención, pero puedo ayudarte con algunas consultas básicas.', 'Saludo fuera del horario', '', 'Olá. No momento estamos fora do horário de atendimento, mas posso ajudar com algumas dúvidas básicas.', 'Hi. We are outside business hours right now, but I can help with some basic questions.'],
+      ['footer_message', 'Escribe el número de la opción que necesitas o describe tu consulta.', 'Mensaje al final del menú', '', 'Escreva o número da opção que você precisa ou descreva sua dúvida.', 'Type the number of the option you need or describe your question.'],
       ['max_ai_tokens', '500', 'Límite máximo de tokens para respuestas IA'],
       ['default_ai_provider', 'gemini', 'Proveedor de IA por defecto (gemini/claude)'],
+      ['ai_provider_chain', 'gemini,claude', 'Orden de proveedores de IA a intentar si uno falla (separados por coma)'],
+      ['ai_timeout', '30000', 'Tiempo máximo de respuesta de la IA antes de contarla como falla (ms)'],
+      ['ai_failure_threshold', '3', 'Fallas seguidas que abren el circuito de un proveedor'],
+      ['ai_circuit_cooldown', '300', 'Tiempo que se omite un proveedor con el circuito abierto (segundos)'],
+      ['max_history_messages', '20', 'Mensajes recientes de la conversación que se envían a la IA'],
+      ['ai_context_tokens', '1500', 'Tokens aproximados de historial y resumen que se envían a la IA'],
+      ['intent_min_score', '50', 'Puntaje mínimo (%) de una regla de Intents para elegir la intención'],
+      ['intent_ai_mode', 'off', 'Clasificar con IA los mensajes que ninguna regla reconoce (off/fallback)'],
+      ['intent_ai_min_confidence', '70', 'Confianza mínima (%) de la clasificación con IA'],
+      ['knowledge_max_results', '3', 'Artículos de Knowledge_Base que se envían a la IA por consulta'],
+      ['knowledge_min_confidence', '50', 'Parte mínima (%) de la consulta que un artículo debe cubrir para usarlo'],
       ['escalation_timeout', '300', 'Tiempo límite para escalación (segundos)'],
-      ['session_timeout', '1800', 'Tiempo límite de sesión (segundos)']
+      ['session_timeout', '1800', 'Tiempo límite de sesión (segundos)'],
+      ['session_rate_limit', '30', 'Mensajes por minuto que acepta cada sesión'],
+      ['session_rate_burst', '10', 'Mensajes seguidos que acepta una sesión antes de aplicar el límite por minuto'],
+      ['global_rate_limit', '300', 'Mensajes por minuto que acepta el chatbot entre todas las sesiones'],
+      ['max_message_length', '1000', 'Largo máximo de un mensaje (caracteres)'],
+      ['duplicate_window', '10', 'Tiempo en que se rechaza el mismo mensaje repetido (segundos, 0 lo permite)'],
+      ['auth_token_ttl', '28800', 'Duración de una sesión del panel (segundos)'],
+      ['ml_site_id', 'MLA', 'Sitio de MercadoLibre donde se buscan nuestras publicaciones (MLA, MLB, MLM...)'],
+      ['product_search_results', '3', 'Publicaciones que se muestran al buscar un producto por nombre'],
+      ['default_language', 'es', 'Idioma de la columna Valor y del menú, usado cuando falta una traducción (es/pt/en)'],
+      ['languages', 'es,pt,en', 'Idiomas en los que se responde a los clientes (separados por coma)']
     ];
     
-    // Set data
-    sheet.getRange(1, 1, settingsData.length, settingsData[0].length).setValues(settingsData);
+    // Set data; settings without translations leave the Valor (xx) columns blank
+    const width = settingsData[0].length;
+    const rows = settingsData.map(row => row.concat(Array(width - row.length).fill('')));
+    sheet.getRange(1, 1, rows.length, width).setValues(rows);
     
     // Format headers
     const headerRange = sheet.getRange(1, 1, 1, settingsData[0].length);
@@ -209,6 +304,143 @@ const SheetsService = {
     sheet.autoResizeColumns(1, settingsData[0].length);
   },
   
+  /**
+   * Set up sessions sheet
+   */
+  setupSessionsSheet(sheet) {
+    const headers = [
+      'Sesión ID',
+      'Datos',
+      'Creada',
+      'Última Actividad'
+    ];
+    
+    // Set headers
+    sheet.getRange(1, 1, 1, headers.length).setValues([headers]);
+    
+    // Format headers
+    const headerRange = sheet.getRange(1, 1, 1, headers.length);
+    headerRange.setBackground('#9C27B0');
+    headerRange.setFontColor('#FFFFFF');
+    headerRange.setFontWeight('bold');
+    
+    // Numeric session IDs (phone numbers, chat IDs) are stored as text
+    sheet.getRange('A:A').setNumberFormat('@');
+    
+    // Auto-resize columns
+    sheet.autoResizeColumns(1, headers.length);
+  },
+  
+  /**
+   * Set up escalations sheet
+   */
+  setupEscalationsSheet(sheet) {
+    const headers = [
+      'Ticket ID',
+      'Sesión ID',
+      'Motivo',
+      'Estado',
+      'Agente',
+      'Creado',
+      'Asignado',
+      'Resuelto',
+      'Actualizado',
+      'Mensajes'
+    ];
+    
+    // Set headers
+    sheet.getRange(1, 1, 1, headers.length).setValues([headers]);
+    
+    // Format headers
+    const headerRange = sheet.getRange(1, 1, 1, headers.length);
+    headerRange.setBackground('#F44336');
+    headerRange.setFontColor('#FFFFFF');
+    headerRange.setFontWeight('bold');
+    
+    // Numeric session IDs (phone numbers, chat IDs) are stored as text
+    sheet.getRange('B:B').setNumberFormat('@');
+    
+    // Auto-resize columns
+    sheet.autoResizeColumns(1, headers.length);
+  },
+  
+  /**
+   * Set up holidays sheet
+   */
+  setupHolidaysSheet(sheet) {
+    const holidaysData = [
+      ['Fecha', 'Descripción', 'Horario', 'Anual'],
+      ['2024-01-01', 'Año Nuevo', '', true],
+      ['2024-12-25', 'Navidad', '', true]
+    ];
+    
+    // Dates are stored as text so Sheets does not turn them into date cells
+    sheet.getRange('A:A').setNumberFormat('@');
+    
+    // Set data
+    sheet.getRange(1, 1, holidaysData.length, holidaysData[0].length).setValues(holidaysData);
+    
+    // Format headers
+    const headerRange = sheet.getRange(1, 1, 1, holidaysData[0].length);
+    headerRange.setBackground('#009688');
+    headerRange.setFontColor('#FFFFFF');
+    headerRange.setFontWeight('bold');
+    
+    // Auto-resize columns
+    sheet.autoResizeColumns(1, holidaysData[0].length);
+  },
+  
+  /**
+   * Set up intents sheet; patterns are one regular expression per line
+   */
+  setupIntentsSheet(sheet) {
+    const intentsData = [
+      ['Intención', 'Palabras clave', 'Patrones', 'Entidades', 'Prioridad', 'Activo', 'Descripción'],
+      ['escalation', 'agente, humano, persona real, representante, operador, ayuda directa', '\\b(hablar|comunicarme|contactar)(me)? con (un|una|el|la|alguien|algun|algún)\\b', '', 40, true, 'Quiere hablar con una persona del equipo'],
+      ['menu_request', 'menú, opciones, ver opciones, volver al inicio', '^\\s*(ayuda|inicio|menu|menú)\\s*[.!?]*\\s*$', '', 30, true, 'Pide ver el menú de opciones'],
+      ['order_inquiry', 'pedido, orden, compra, envío, seguimiento, rastreo, entrega, llegó, comprador', '', 'order_id, buyer', 20, true, 'Pregunta por un pedido, su pago o su envío'],
+      ['product_inquiry', 'producto, artículo, precio, stock, disponibilidad, característica, talle, tienen, venden', '', 'item_id', 10, true, 'Pregunta por un producto, su precio o su stock']
+    ];
+    
+    // Set data
+    sheet.getRange(1, 1, intentsData.length, intentsData[0].length).setValues(intentsData);
+    
+    // Format headers
+    const headerRange = sheet.getRange(1, 1, 1, intentsData[0].length);
+    headerRange.setBackground('#3F51B5');
+    headerRange.setFontColor('#FFFFFF');
+    headerRange.setFontWeight('bold');
+    
+    // Auto-resize columns
+    sheet.autoResizeColumns(1, intentsData[0].length);
+  },
+  
+  /**
+   * Set up knowledge base sheet; tags are comma separated
+   */
+  setupKnowledgeSheet(sheet) {
+    const knowledgeData = [
+      ['ID', 'Tipo', 'Pregunta / Título', 'Respuesta / Contenido', 'Etiquetas', 'Activo'],
+      ['KB-001', 'policy', 'Política de devoluciones', 'Aceptamos devoluciones dentro de los 30 días de recibido el producto, sin uso y en su empaque original. El reembolso se acredita en 2 a 5 días hábiles desde que recibimos la devolución.', 'devolución, devolver, reembolso, arrepentimiento', true],
+      ['KB-002', 'faq', '¿Cuánto tarda en llegar el envío?', 'Despachamos dentro de las 24 horas hábiles de acreditado el pago. La entrega demora de 2 a 5 días hábiles según la zona; el número de seguimiento aparece en el detalle del pedido.', 'envío, entrega, demora, plazo', true],
+      ['KB-003', 'policy', 'Garantía de los productos', 'Todos los productos tienen 6 meses de garantía por fallas de fabricación. Para usarla, escribe el número de pedido y una foto o video de la falla.', 'garantía, falla, defecto', true],
+      ['KB-004', 'faq', '¿Qué medios de pago aceptan?', 'Aceptamos todos los medios de pago de Mercado Pago: tarjetas de crédito y débito, dinero en cuenta y pago en efectivo. Las cuotas disponibles se ven en cada publicación.', 'pago, tarjeta, cuotas, efectivo', true],
+      ['KB-005', 'faq', '¿Puedo cambiar el talle o el color?', 'Sí, puedes cambiar talle o color dentro de los 30 días si el producto está sin uso. El envío del cambio corre por nuestra cuenta la primera vez.', 'cambio, talle, color', true]
+    ];
+    
+    // Set data
+    sheet.getRange(1, 1, knowledgeData.length, knowledgeData[0].length).setValues(knowledgeData);
+    
+    // Format headers
+    const headerRange = sheet.getRange(1, 1, 1, knowledgeData[0].length);
+    headerRange.setBackground('#795548');
+    headerRange.setFontColor('#FFFFFF');
+    headerRange.setFontWeight('bold');
+    
+    // Auto-resize columns
+    sheet.autoResizeColumns(1, knowledgeData[0].length);
+  },
+  
   /**
    * Append data to a sheet
    * @param {string} sheetName - Name of the sheet
@@ -247,6 +479,50 @@ const SheetsService = {
     }
   },
   
+  /**
+   * Replace all data rows of a sheet (keeping headers)
+   * @param {string} sheetName - Name of the sheet
+   * @param {Array} rows - Rows to write, all of the same length
+   */
+  replaceData(sheetName, rows) {
+    try {
+      const sheet = this.getSheet(sheetName);
+      const lastRow = sheet.getLastRow();
+      
+      if (lastRow > 1) {
+        sheet.getRange(2, 1, lastRow - 1, sheet.getLastColumn()).clearContent();
+      }
+      
+      if (rows.length > 0) {
+        sheet.getRange(2, 1, rows.length, rows[0].length).setValues(rows);
+      }
+      
+    } catch (error) {
+      Logger.log(`Error replacing data in ${sheetName}: ${error.message}`);
+      throw error;
+    }
+  },
+  
+  /**
+   * Write a header cell if the sheet predates that column
+   * @param {string} sheetName - Name of the sheet
+   * @param {number} col - Column number
+   * @param {string} header - Header text
+   */
+  ensureHeader(sheetName, col, header) {
+    try {
+      const cell = this.getSheet(sheetName).getRange(1, col);
+      
+      if (!cell.getValue()) {
+        cell.setValue(header);
+      }
+      
+    } catch (error) {
+      Logger.log(`Error adding header ${header} to ${sheetName}: ${error.message}`);
+      throw error;
+    }
+  },
+  
   /**
    * Update a specific cell
    * @param {string} sheetName - Name of the sheet
@@ -0,0 +1,275 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { MockBackend } from '../mock/backend';
+import { failingResponder, geminiResponder } from '../mock/responders';
+import { AIServiceApi, MONDAY_MORNING, services, setupBackend, tokenFor } from './helpers';
+
+const GEMINI_HOST = 'generativelanguage.googleapis.com';
+const CLAUDE_HOST = 'api.anthropic.com';
+
+describe('AIService failover', () => {
+  let backend: MockBackend;
+  let AIService: AIServiceApi;
+
+  const ask = (provider: string | null = null) => AIService.generateResponse(provider, { userQuery: '¿hacen envíos?', sessionId: 's1' });
+  const callsTo = (host: string) => backend.env.requests.filter(request => request.url.includes(host)).length;
+  const minutesLater = (minutes: number) => new Date(Date.parse(MONDAY_MORNING) + minutes * 60 * 1000);
+  const setting = (key: string, value: unknown) => services(backend).ConfigService.set(key, value);
+
+  beforeEach(() => {
+    backend = setupBackend();
+    ({ AIService } = services(backend));
+  });
+
+  describe('provider chain', () => {
+    it('reads the order from ai_provider_chain', () => {
+      expect(AIService.getProviderChain()).toEqual(['gemini', 'claude']);
+
+      setting('ai_provider_chain', 'Claude, gemini');
+
+      expect(AIService.getProviderChain()).toEqual(['claude', 'gemini']);
+    });
+
+    it('puts the preferred provider first without repeating it', () => {
+      expect(AIService.getProviderChain('claude')).toEqual(['claude', 'gemini']);
+    });
+
+    it('ignores unknown providers', () => {
+      setting('ai_provider_chain', 'gemini,openai');
+
+      expect(AIService.getProviderChain()).toEqual(['gemini']);
+    });
+
+    it('ignores an unknown preferred provider and keeps no health record for it', () => {
+      expect(AIService.getProviderChain('openai')).toEqual(['gemini', 'claude']);
+
+      ask('openai');
+
+      expect(Object.keys(JSON.parse(backend.env.properties.getProperty('AI_PROVIDER_HEALTH')!))).toEqual(['gemini']);
+    });
+
+    it('starts with default_ai_provider when no chain is configured', () => {
+      setting('ai_provider_chain', '');
+      setting('default_ai_provider', 'claude');
+
+      expect(AIService.getProviderChain()).toEqual(['claude', 'gemini']);
+    });
+
+    it('lets chat messages follow the configured chain', () => {
+      setting('ai_provider_chain', 'claude,gemini');
+
+      expect(backend.handleChatbotRequest({ action: 'sendMessage', userInput: 'hola', sessionId: 's1' }))
+        .toMatchObject({ type: 'ai', provider: 'claude' });
+      expect(callsTo(GEMINI_HOST)).toBe(0);
+    });
+  });
+
+  it('sends the system prompt to a Gemini model that takes system instructions', () => {
+    const response = ask('gemini');
+
+    expect(response).toMatchObject({ success: true, provider: 'gemini' });
+    const request = backend.env.requests.find(item => item.url.includes(GEMINI_HOST))!;
+    expect(request.url).not.toContain('/models/gemini-pro:');
+    expect(JSON.parse(request.payload).systemInstruction.parts[0].text).toContain('asistente de atención al cliente');
+  });
+
+  it('fails over to the next provider on errors', () => {
+    backend.env.responders.unshift(failingResponder(GEMINI_HOST));
+
+    const response = ask();
+
+    expect(response).toMatchObject({ success: true, provider: 'claude' });
+    expect(response.attempts).toMatchObject([
+      { provider: 'gemini', success: false },
+      { provider: 'claude', success: true }
+    ]);
+  });
+
+  it('reports failure when every provider fails', () => {
+    backend.env.responders.unshift(failingResponder(GEMINI_HOST), failingResponder(CLAUDE_HOST));
+
+    expect(ask()).toMatchObject({ success: false, error: 'All AI providers failed or are unavailable' });
+  });
+
+  it('records every call through logAIPerformance', () => {
+    backend.env.responders.unshift(failingResponder(GEMINI_HOST));
+
+    ask();
+
+    const rows = backend.env.spreadsheet.getSheetByName('Chat_Logs')!.dump()
+      .filter(row => row[2] === 'ai_performance')
+      .map(row => [row[1], row[5], row[7]]);
+    expect(rows).toEqual([['s1', 'gemini', 'error'], ['s1', 'claude', 'success']]);
+  });
+
+  it('counts answers slower than ai_timeout as failures but still uses them', () => {
+    setting('ai_timeout', 5000);
+    backend.env.responders.unshift(geminiResponder(() => {
+      backend.setNow(minutesLater(1));
+      return 'Sí, a todo el país.';
+    }));
+
+    expect(ask()).toMatchObject({ success: true, provider: 'gemini', content: 'Sí, a todo el país.' });
+    expect(AIService.getProviderHealth('gemini')).toMatchObject({ consecutiveFailures: 1, lastError: 'Timeout: 60000 ms' });
+  });
+
+  describe('circuit breaker', () => {
+    beforeEach(() => {
+      backend.env.responders.unshift(failingResponder(GEMINI_HOST));
+      ask();
+      ask();
+      ask();
+    });
+
+    it('opens after ai_failure_threshold failures in a row', () => {
+      expect(AIService.getProviderHealth('gemini')).toMatchObject({
+        consecutiveFailures: 3,
+        openUntil: minutesLater(5).toISOString()
+      });
+    });
+
+    it('skips the provider while the circuit is open', () => {
+      const response = ask();
+
+      expect(callsTo(GEMINI_HOST)).toBe(3);
+      expect(response).toMatchObject({ provider: 'claude' });
+      expect(response.attempts).toMatchObject([
+        { provider: 'gemini', skipped: true, reason: 'circuit_open' },
+        { provider: 'claude' }
+      ]);
+    });
+
+    it('lets one call through after the cooldown and reopens on failure', () => {
+      backend.setNow(minutesLater(5));
+
+      ask();
+
+      expect(callsTo(GEMINI_HOST)).toBe(4);
+      expect(AIService.getProviderHealth('gemini').openUntil).toBe(minutesLater(10).toISOString());
+    });
+
+    it('keeps other calls out while the half-open trial call runs', () => {
+      backend.setNow(minutesLater(5));
+
+      expect(AIService.checkAvailability('gemini')).toEqual({ available: true, reason: null });
+      expect(AIService.checkAvailability('gemini')).toEqual({ available: false, reason: 'circuit_half_open' });
+
+      // A trial that never reported back frees the slot
+      backend.setNow(minutesLater(6.5));
+
+      expect(AIService.checkAvailability('gemini')).toEqual({ available: true, reason: null });
+    });
+
+    it('closes again once the provider recovers', () => {
+      backend.env.responders.shift();
+      backend.setNow(minutesLater(6));
+
+      expect(ask()).toMatchObject({ provider: 'gemini' });
+      expect(AIService.getProviderHealth('gemini')).toMatchObject({ consecutiveFailures: 0, openUntil: null });
+    });
+
+    it('is bypassed when the provider is forced on', () => {
+      backend.handleChatbotRequest({ action: 'setAIProviderMode', token: tokenFor(backend), provider: 'gemini', mode: 'enabled' });
+
+      ask();
+
+      expect(callsTo(GEMINI_HOST)).toBe(4);
+    });
+  });
+
+  it('never calls a provider that is forced off', () => {
+    backend.handleChatbotRequest({ action: 'setAIProviderMode', token: tokenFor(backend), provider: 'gemini', mode: 'disabled' });
+
+    expect(ask('gemini')).toMatchObject({ provider: 'claude' });
+    expect(callsTo(GEMINI_HOST)).toBe(0);
+  });
+});
+
+describe('AIService.buildPrompt', () => {
+  let AIService: AIServiceApi;
+
+  beforeEach(() => {
+    ({ AIService } = services(setupBackend()));
+  });
+
+  it('starts with the customer and alternates roles', () => {
+    const { messages } = AIService.buildPrompt({
+      userQuery: '¿y el envío?',
+      history: [
+        { role: 'assistant', content: '¡Hola!' },
+        { role: 'user', content: 'compré ayer' },
+        { role: 'user', content: 'pedido 2000001234567890' },
+        { role: 'assistant', content: '' },
+        { role: 'assistant', content: 'Lo reviso.' }
+      ]
+    });
+
+    expect(messages).toEqual([
+      { role: 'user', content: 'compré ayer\npedido 2000001234567890' },
+      { role: 'assistant', content: 'Lo reviso.' },
+      { role: 'user', content: '¿y el envío?' }
+    ]);
+  });
+
+  it('adds the running summary to the system prompt', () => {
+    expect(AIService.buildPrompt({ userQuery: 'hola', summary: 'Ana espera el pedido 123.' }).system)
+      .toContain('Resumen de la conversación anterior: Ana espera el pedido 123.');
+  });
+});
+
+describe('AI health admin actions', () => {
+  let backend: MockBackend;
+
+  beforeEach(() => {
+    backend = setupBackend();
+  });
+
+  it('reports circuit state and 24 hour stats per provider', () => {
+    backend.env.responders.unshift(failingResponder(GEMINI_HOST));
+    for (let i = 0; i < 3; i++) {
+      backend.handleChatbotRequest({ action: 'sendMessage', userInput: 'hola', sessionId: `s${i}` });
+    }
+
+    const report = backend.handleChatbotRequest({ action: 'getAIHealth', token: tokenFor(backend) });
+
+    expect(report).toMatchObject({ success: true, type: 'ai_health', chain: ['gemini', 'claude'], failureThreshold: 3 });
+    expect(report.providers).toMatchObject([
+      { provider: 'gemini', status: 'open', mode: 'auto', configured: true, stats: { calls: 3, failures: 3, errorRate: 100 } },
+      { provider: 'claude', status: 'healthy', stats: { calls: 3, failures: 0, errorRate: 0 } }
+    ]);
+  });
+
+  it('flags providers without an API key', () => {
+    backend.env.properties.deleteProperty('CLAUDE_API_KEY');
+
+    const report = backend.handleChatbotRequest({ action: 'getAIHealth', token: tokenFor(backend) });
+
+    expect(report.providers).toMatchObject([{ provider: 'gemini' }, { provider: 'claude', status: 'unconfigured', configured: false }]);
+  });
+
+  it('resets the circuit when a provider goes back to auto', () => {
+    backend.env.responders.unshift(failingResponder(GEMINI_HOST));
+    for (let i = 0; i < 3; i++) {
+      backend.handleChatbotRequest({ action: 'sendMessage', userInput: 'hola', sessionId: `s${i}` });
+    }
+
+    const report = backend.handleChatbotRequest({ action: 'setAIProviderMode', token: tokenFor(backend), provider: 'gemini', mode: 'auto' });
+
+    expect(report.providers).toMatchObject([{ provider: 'gemini', status: 'healthy', consecutiveFailures: 0, openUntil: null }, {}]);
+  });
+
+  it('validates the provider and mode', () => {
+    expect(backend.handleChatbotRequest({ action: 'setAIProviderMode', token: tokenFor(backend), provider: 'openai', mode: 'auto' }))
+      .toMatchObject({ success: false, code: 'validation', errors: [{ field: 'provider' }] });
+    expect(backend.handleChatbotRequest({ action: 'setAIProviderMode', token: tokenFor(backend), provider: 'gemini', mode: 'off' }))
+      .toMatchObject({ success: false, code: 'validation', errors: [{ field: 'mode' }] });
+  });
+
+  it('keeps provider timings out of the conversation analytics', () => {
+    backend.handleChatbotRequest({ action: 'sendMessage', userInput: 'hola', sessionId: 's1' });
+
+    const report = backend.handleChatbotRequest({ action: 'getAnalytics', token: tokenFor(backend) });
+
+    expect(report.analytics).toMatchObject({ aiUsage: { gemini: 1 } });
+    expect((report.analytics as { interactionsByType: object }).interactionsByType).not.toHaveProperty('ai_performance');
+  });
+});
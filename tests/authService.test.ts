@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { MockBackend } from '../mock/backend';
+import { ADMIN_KEY, AGENT_KEY, MONDAY_MORNING, VIEWER_KEY, setupBackend, tokenFor } from './helpers';
+
+type Auth = { success: boolean; token: string; user: string; role: string; expiresAt: string; actions: string[] };
+
+describe('dashboard authentication', () => {
+  let backend: MockBackend;
+
+  const login = (key: string, user = 'Laura') => backend.handleChatbotRequest({ action: 'login', user, key }) as Auth;
+
+  beforeEach(() => {
+    backend = setupBackend();
+  });
+
+  it('issues a token with the role of the matching key', () => {
+    const auth = login(AGENT_KEY);
+
+    expect(auth).toMatchObject({ success: true, type: 'auth', user: 'Laura', role: 'agent' });
+    expect(auth.expiresAt).toBe(new Date(new Date(MONDAY_MORNING).getTime() + 8 * 60 * 60 * 1000).toISOString());
+    expect(auth.actions).toContain('claimEscalation');
+    expect(auth.actions).not.toContain('updateSettings');
+    expect(backend.handleChatbotRequest({ action: 'getEscalations', token: auth.token })).toMatchObject({ success: true });
+    expect(backend.env.properties.getProperty('AUTH_TOKEN_SECRET')).toBeTruthy();
+  });
+
+  it('rejects wrong keys and keys left as placeholders', () => {
+    expect(login('wrong')).toMatchObject({ success: false, code: 'unauthorized' });
+    expect(login(ADMIN_KEY, ' ')).toMatchObject({ success: false, code: 'validation', errors: [{ field: 'user' }] });
+
+    backend.env.properties.setProperty('ADMIN_API_KEY', 'your_admin_api_key');
+    expect(login('your_admin_api_key')).toMatchObject({ code: 'unauthorized' });
+
+    backend.env.properties.deleteProperty('VIEWER_API_KEY');
+    expect(login('')).toMatchObject({ code: 'unauthorized' });
+  });
+
+  it('locks login after repeated failures, whatever user name or client they come from', () => {
+    for (let i = 0; i < 10; i++) {
+      backend.handleChatbotRequest({ action: 'login', user: `user${i}`, key: 'wrong', client: `client_${i}` });
+    }
+
+    expect(login(ADMIN_KEY, 'Pablo')).toMatchObject({ success: false, code: 'rate_limited', error: expect.stringContaining('unos minutos') });
+
+    backend.setNow(new Date(new Date(MONDAY_MORNING).getTime() + 15 * 60 * 1000));
+    expect(login(ADMIN_KEY)).toMatchObject({ success: true, role: 'admin' });
+  });
+
+  it('lets signed-in users log in again while login is locked', () => {
+    for (let i = 0; i < 10; i++) login('wrong');
+
+    expect(backend.handleChatbotRequest({ action: 'login', user: 'Laura', key: AGENT_KEY, token: tokenFor(backend, 'viewer') }))
+      .toMatchObject({ success: true, role: 'agent' });
+    expect(backend.handleChatbotRequest({ action: 'login', user: 'Laura', key: AGENT_KEY, token: 'forged.token' }))
+      .toMatchObject({ code: 'rate_limited' });
+  });
+
+  it('limits all logins together with a high backstop', () => {
+    for (let i = 0; i < 100; i++) login(VIEWER_KEY, `user${i}`);
+
+    expect(login(ADMIN_KEY)).toMatchObject({ code: 'rate_limited', error: expect.stringContaining('unos segundos') });
+    expect(backend.handleChatbotRequest({ action: 'login', user: 'Laura', key: ADMIN_KEY, token: tokenFor(backend) })).toMatchObject({ success: true });
+
+    backend.setNow(new Date(new Date(MONDAY_MORNING).getTime() + 2 * 1000));
+    expect(login(ADMIN_KEY)).toMatchObject({ success: true });
+  });
+
+  it('enforces the least role of each action', () => {
+    const viewer = login(VIEWER_KEY).token;
+    const agent = tokenFor(backend, 'agent', 'Laura');
+
+    expect(backend.handleChatbotRequest({ action: 'getLogs', token: viewer })).toMatchObject({ success: true });
+    expect(backend.handleChatbotRequest({ action: 'getEscalations', token: viewer })).toMatchObject({ success: false, code: 'forbidden' });
+    expect(backend.handleChatbotRequest({ action: 'updateSettings', token: agent, values: {} })).toMatchObject({ code: 'forbidden' });
+    expect(backend.handleChatbotRequest({ action: 'updateSettings', token: tokenFor(backend), values: {} })).toMatchObject({ success: true });
+  });
+
+  it('rejects tampered, expired and re-signed tokens', () => {
+    const token = login(VIEWER_KEY).token;
+    const [payload, signature] = token.split('.');
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    const forged = Buffer.from(JSON.stringify({ ...claims, role: 'admin' })).toString('base64url');
+
+    expect(backend.handleChatbotRequest({ action: 'getLogs', token: `${forged}.${signature}` })).toMatchObject({ code: 'unauthorized' });
+
+    backend.setNow(new Date(new Date(MONDAY_MORNING).getTime() + 9 * 60 * 60 * 1000));
+    expect(backend.handleChatbotRequest({ action: 'getLogs', token })).toMatchObject({ code: 'unauthorized' });
+
+    backend.setNow(MONDAY_MORNING);
+    backend.env.properties.deleteProperty('AUTH_TOKEN_SECRET');
+    expect(backend.handleChatbotRequest({ action: 'getLogs', token })).toMatchObject({ code: 'unauthorized' });
+  });
+
+  it('makes agents act under their own name', () => {
+    backend.handleChatbotRequest({ action: 'sendMessage', userInput: 'quiero hablar con un agente', sessionId: 's1' });
+
+    const claimed = backend.handleChatbotRequest({
+      action: 'claimEscalation',
+      token: login(AGENT_KEY, 'Laura').token,
+      ticketId: 'ESC-0001',
+      agent: 'Pablo'
+    });
+
+    expect(claimed).toMatchObject({ success: true, ticket: { agent: 'Laura' } });
+  });
+});
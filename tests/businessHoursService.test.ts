@@ -0,0 +1,162 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { MockBackend } from '../mock/backend';
+import { ConfigServiceApi, buenosAires, services, setupBackend, tokenFor } from './helpers';
+
+const WEEK = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+describe('business hours', () => {
+  let backend: MockBackend;
+  let ConfigService: ConfigServiceApi;
+
+  const admin = (params: Record<string, unknown>) => backend.handleChatbotRequest({ token: tokenFor(backend), ...params });
+  const menuAt = (local: string) => {
+    backend.setNow(buenosAires(local));
+    return backend.handleChatbotRequest({ action: 'getMenu' });
+  };
+  const openAt = (local: string) => menuAt(local).businessHours;
+  const holidayRows = () => backend.env.spreadsheet.getSheetByName('Holidays')!.dump();
+
+  beforeEach(() => {
+    backend = setupBackend();
+    ({ ConfigService } = services(backend));
+  });
+
+  it('supports split shifts', () => {
+    ConfigService.set('hours_mon', '09:00-13:00, 14:00-18:00');
+
+    expect(openAt('2024-01-15T12:59:00')).toBe(true);
+    expect(openAt('2024-01-15T13:30:00')).toBe(false);
+    expect(openAt('2024-01-15T14:00:00')).toBe(true);
+  });
+
+  it('overrides the business_days schedule day by day', () => {
+    ConfigService.set('hours_sat', '10:00-14:00');
+    ConfigService.set('hours_fri', '');
+
+    expect(openAt('2024-01-20T11:00:00')).toBe(true); // Saturday
+    expect(openAt('2024-01-19T11:00:00')).toBe(false); // Friday
+    expect(openAt('2024-01-18T11:00:00')).toBe(true); // Thursday keeps business_hours_start/end
+    expect(ConfigService.getBusinessHours().display).toBe('Lun a Jue 09:00-18:00, Sáb 10:00-14:00');
+  });
+
+  it('evaluates the schedule in the timezone setting', () => {
+    ConfigService.set('timezone', 'America/Mexico_City'); // UTC-6, three hours behind Buenos Aires
+
+    expect(openAt('2024-01-15T11:00:00')).toBe(false);
+    expect(openAt('2024-01-15T12:00:00')).toBe(true);
+    expect(openAt('2024-01-15T20:30:00')).toBe(true);
+  });
+
+  it('closes on holidays and opens special hours', () => {
+    holidayRows(); // created with Año Nuevo and Navidad as yearly holidays
+    backend.env.spreadsheet.getSheetByName('Holidays')!.appendRow(['2024-01-16', 'Inventario', '10:00-12:00', false]);
+
+    expect(openAt('2025-01-01T10:00:00')).toBe(false);
+    expect(openAt('2024-01-16T11:00:00')).toBe(true);
+    expect(openAt('2024-01-16T15:00:00')).toBe(false);
+  });
+
+  describe('next opening', () => {
+    it('is null while open', () => {
+      expect(menuAt('2024-01-15T10:00:00').nextOpening).toBeNull();
+    });
+
+    it('finds the next shift on the same day', () => {
+      ConfigService.set('hours_mon', '09:00-13:00, 14:00-18:00');
+
+      const escalation = backend.handleChatbotRequest({ action: 'processSelection', userInput: '4', sessionId: 's1' });
+      backend.setNow(buenosAires('2024-01-15T13:15:00'));
+      const afterLunch = backend.handleChatbotRequest({ action: 'processSelection', userInput: '4', sessionId: 's2' });
+
+      expect(escalation).toMatchObject({ businessHours: true, nextOpening: null });
+      expect(afterLunch).toMatchObject({ businessHours: false, nextOpening: new Date(buenosAires('2024-01-15T14:00:00')).toISOString() });
+    });
+
+    it('skips weekends and holidays', () => {
+      backend.env.spreadsheet.getSheetByName('Holidays')!.appendRow(['2024-01-22', 'Feriado', '', false]);
+
+      expect(menuAt('2024-01-19T18:30:00').nextOpening).toBe(new Date(buenosAires('2024-01-23T09:00:00')).toISOString());
+    });
+
+    it('is included in after-hours messages', () => {
+      backend.setNow(buenosAires('2024-01-18T20:00:00'));
+
+      expect(backend.handleChatbotRequest({ action: 'sendMessage', userInput: 'quiero hablar con un agente', sessionId: 's1' }))
+        .toMatchObject({ message: 'Actualmente estamos fuera del horario de atención (Lun a Vie 09:00-18:00). Tu consulta será atendida mañana a las 09:00.' });
+      expect(backend.handleChatbotRequest({ action: 'sendMessage', userInput: '¿hay alguien?', sessionId: 's1' }))
+        .toMatchObject({ type: 'agent', message: 'Recibimos tu mensaje. Un agente te responderá mañana a las 09:00.' });
+    });
+
+    it('fills {next_opening} in the after-hours greeting', () => {
+      ConfigService.set('greeting_after_hours', 'Volvemos {next_opening}. Horario: {hours}.');
+
+      expect(menuAt('2024-01-19T18:30:00').greeting).toBe('Volvemos el lunes 22/01 a las 09:00. Horario: Lun a Vie 09:00-18:00.');
+    });
+  });
+
+  describe('admin actions', () => {
+    const weekdays = WEEK.map((_, day) => ({ day, shifts: day >= 1 && day <= 5 ? [{ start: '09:00', end: '18:00' }] : [] }));
+
+    it('reports the schedule', () => {
+      expect(admin({ action: 'getBusinessHours' })).toMatchObject({
+        type: 'business_hours',
+        timezone: 'America/Argentina/Buenos_Aires',
+        days: weekdays,
+        holidays: [
+          { date: '2024-01-01', name: 'Año Nuevo', shifts: [], recurring: true },
+          { date: '2024-12-25', name: 'Navidad', shifts: [], recurring: true }
+        ],
+        open: true,
+        nextOpening: null
+      });
+    });
+
+    it('saves the weekly schedule, timezone and holidays', () => {
+      const days = weekdays.map(entry => entry.day === 6 ? { day: 6, shifts: [{ start: '14:00', end: '18:00' }, { start: '10:00', end: '13:00' }] } : entry);
+
+      const report = admin({
+        action: 'updateBusinessHours',
+        timezone: 'America/Montevideo',
+        days,
+        holidays: [{ date: '2024-05-01', name: 'Día del Trabajador', shifts: [], recurring: true }]
+      });
+
+      expect(report).toMatchObject({ type: 'business_hours', timezone: 'America/Montevideo', days: [{}, {}, {}, {}, {}, {}, { shifts: [{ start: '10:00' }, { start: '14:00' }] }] });
+      expect(ConfigService.get('hours_sat')).toBe('10:00-13:00, 14:00-18:00');
+      expect(ConfigService.get('hours_sun')).toBe('');
+      expect(holidayRows().slice(1).filter(row => row[0])).toEqual([['2024-05-01', 'Día del Trabajador', '', true]]);
+    });
+
+    it('rejects invalid schedules', () => {
+      const days = weekdays.map(entry => entry.day === 1 ? { day: 1, shifts: [{ start: '09:00', end: '13:00' }, { start: '12:00', end: '18:00' }] } : entry);
+
+      expect(admin({ action: 'updateBusinessHours', timezone: 'no timezone', days, holidays: [{ date: '25/12', shifts: [] }] })).toMatchObject({
+        success: false,
+        code: 'validation',
+        errors: [
+          { index: -1, field: 'timezone' },
+          { index: 1, field: 'days', message: 'lunes: shifts overlap' },
+          { index: 0, field: 'holidays' }
+        ]
+      });
+      expect(ConfigService.get('hours_mon')).toBeNull();
+    });
+
+    it('simulates what a customer sees at a business-local time', () => {
+      expect(admin({ action: 'simulateBusinessHours', at: '2024-12-25T10:00' })).toMatchObject({
+        type: 'business_hours_simulation',
+        at: new Date(buenosAires('2024-12-25T10:00:00')).toISOString(),
+        local: { date: '2024-12-25', time: '10:00', day: 3 },
+        open: false,
+        holiday: 'Navidad',
+        nextOpening: { at: new Date(buenosAires('2024-12-26T09:00:00')).toISOString(), display: 'mañana a las 09:00' },
+        escalationMessage: 'Fuera del horario de atención. Te contactaremos mañana a las 09:00.'
+      });
+      expect(admin({ action: 'simulateBusinessHours', at: 'mañana' })).toMatchObject({ success: false, code: 'validation' });
+    });
+
+    it('requires the admin key', () => {
+      expect(backend.handleChatbotRequest({ action: 'simulateBusinessHours', at: '2024-12-25T10:00' })).toMatchObject({ code: 'unauthorized' });
+    });
+  });
+});
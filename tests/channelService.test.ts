@@ -0,0 +1,289 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { MockBackend } from '../mock/backend';
+import { ChannelServiceApi, services, setupBackend, tokenFor } from './helpers';
+
+const CHANNEL_PROPERTIES = {
+  WHATSAPP_ACCESS_TOKEN: 'EAAG-whatsapp-token-1234',
+  WHATSAPP_PHONE_NUMBER_ID: '109876543210',
+  WHATSAPP_VERIFY_TOKEN: 'verify-me-please',
+  TELEGRAM_BOT_TOKEN: '123456:telegram-token-5678',
+  TELEGRAM_WEBHOOK_SECRET: 'telegram-secret'
+};
+
+const whatsAppMessage = (message: Record<string, unknown>) => ({
+  object: 'whatsapp_business_account',
+  entry: [{
+    id: '102290129340398',
+    changes: [{
+      field: 'messages',
+      value: {
+        messaging_product: 'whatsapp',
+        metadata: { display_phone_number: '15550783881', phone_number_id: '109876543210' },
+        contacts: [{ profile: { name: 'Ana' }, wa_id: '5491155550000' }],
+        messages: [{ from: '5491155550000', id: 'wamid.in1', timestamp: '1705323600', ...message }]
+      }
+    }]
+  }]
+});
+
+const telegramMessage = (text: string) => ({
+  update_id: 1,
+  message: { message_id: 10, from: { id: 777, first_name: 'Ana' }, chat: { id: 777, type: 'private' }, date: 1705323600, text }
+});
+
+const telegramCallback = (data: string) => ({
+  update_id: 2,
+  callback_query: { id: 'cb-1', from: { id: 777 }, message: { message_id: 11, chat: { id: 777, type: 'private' } }, data }
+});
+
+describe('ChannelService', () => {
+  let backend: MockBackend;
+  let ChannelService: ChannelServiceApi;
+
+  const admin = (params: Record<string, unknown>) => backend.handleChatbotRequest({ token: tokenFor(backend), ...params });
+  const webhook = (channel: string, payload: unknown, secret: string) =>
+    JSON.parse(backend.doPost(JSON.stringify(payload), 'application/json', { channel, secret }));
+  const sent = (host: string) => backend.env.requests
+    .filter(request => request.url.includes(host))
+    .map(request => ({ url: request.url, body: JSON.parse(request.payload) }));
+
+  beforeEach(() => {
+    backend = setupBackend({ properties: CHANNEL_PROPERTIES });
+    ({ ChannelService } = services(backend));
+    admin({ action: 'updateChannel', channel: 'whatsapp', enabled: true });
+    admin({ action: 'updateChannel', channel: 'telegram', enabled: true });
+  });
+
+  describe('webhooks', () => {
+    it('answers the WhatsApp verification handshake with the verify token only', () => {
+      const handshake = (token: string) => backend.doGet({ channel: 'whatsapp', 'hub.mode': 'subscribe', 'hub.verify_token': token, 'hub.challenge': '1158201444' });
+
+      expect(handshake('verify-me-please')).toBe('1158201444');
+      expect(handshake('guess')).toBe('Forbidden');
+    });
+
+    it('refuses payloads without the channel secret', () => {
+      expect(webhook('telegram', telegramMessage('/start'), 'wrong')).toMatchObject({ success: false, code: 'unauthorized' });
+      expect(backend.env.requests).toHaveLength(0);
+    });
+
+    it('acknowledges but ignores payloads of a disabled channel', () => {
+      admin({ action: 'updateChannel', channel: 'telegram', enabled: false });
+
+      expect(webhook('telegram', telegramMessage('/start'), 'telegram-secret')).toMatchObject({ success: true, handled: [] });
+      expect(backend.env.requests).toHaveLength(0);
+    });
+
+    it('sends the WhatsApp menu as an interactive list', () => {
+      const result = webhook('whatsapp', whatsAppMessage({ type: 'text', text: { body: 'menú' } }), 'verify-me-please');
+
+      expect(result.handled).toMatchObject([{ sessionId: 'whatsapp_5491155550000', action: 'sendMessage', responseType: 'menu' }]);
+      expect(backend.env.requests.at(-1)!.headers.Authorization).toBe('Bearer EAAG-whatsapp-token-1234');
+      expect(sent('graph.facebook.com')).toEqual([{
+        url: 'https://graph.facebook.com/v19.0/109876543210/messages',
+        body: {
+          messaging_product: 'whatsapp',
+          recipient_type: 'individual',
+          to: '5491155550000',
+          type: 'interactive',
+          interactive: {
+            type: 'list',
+            body: { text: expect.stringMatching(/^¡Hola! Bienvenido.*\n\nEscribe el número de la opción/s) },
+            action: {
+              button: 'Ver opciones',
+              sections: [{
+                rows: [
+                  { id: 'menu:1', title: '1. Estado de mi pedido' },
+                  { id: 'menu:2', title: '2. Información de produ…', description: '2. Información de productos' },
+                  { id: 'menu:3', title: '3. Política de devoluci…', description: '3. Política de devoluciones' },
+                  { id: 'menu:4', title: '4. Hablar con un agente' },
+                  { id: 'menu:0', title: '0. Salir' }
+                ]
+              }]
+            }
+          }
+        }
+      }]);
+    });
+
+    it('selects the row a WhatsApp customer picked and ignores delivery receipts', () => {
+      const reply = whatsAppMessage({ type: 'interactive', interactive: { type: 'list_reply', list_reply: { id: 'menu:3', title: '3. Política' } } });
+
+      expect(webhook('whatsapp', reply, 'verify-me-please').handled).toMatchObject([{ action: 'processSelection', userInput: '3', responseType: 'static' }]);
+      expect(sent('graph.facebook.com')[0].body).toMatchObject({
+        type: 'interactive',
+        interactive: {
+          type: 'button',
+          body: { text: '*Política de devoluciones*\n\nPuedes devolver productos dentro de 30 días. Visita nuestra sección de devoluciones para más detalles.' },
+          action: { buttons: [{ type: 'reply', reply: { id: 'menu', title: 'Ver menú' } }] }
+        }
+      });
+
+      const receipt = { object: 'whatsapp_business_account', entry: [{ changes: [{ value: { statuses: [{ id: 'wamid.out1', status: 'read' }] } }] }] };
+      expect(webhook('whatsapp', receipt, 'verify-me-please')).toMatchObject({ success: true, handled: [] });
+    });
+
+    it('explains that media messages are not read', () => {
+      webhook('whatsapp', whatsAppMessage({ type: 'image', image: { id: 'media-1' } }), 'verify-me-please');
+
+      expect(sent('graph.facebook.com')[0].body).toMatchObject({ type: 'text', text: { body: expect.stringContaining('solo puedo leer mensajes de texto') } });
+    });
+
+    it('answers Telegram with inline keyboards and acknowledges button taps', () => {
+      webhook('telegram', telegramMessage('/start'), 'telegram-secret');
+
+      const [menu] = sent('api.telegram.org');
+      expect(menu.url).toBe('https://api.telegram.org/bot123456:telegram-token-5678/sendMessage');
+      expect(menu.body).toMatchObject({ chat_id: '777', parse_mode: 'HTML' });
+      expect(menu.body.reply_markup.inline_keyboard[0]).toEqual([{ text: '1. Estado de mi pedido', callback_data: 'menu:1' }]);
+
+      backend.env.requests.length = 0;
+      expect(webhook('telegram', telegramCallback('menu:2'), 'telegram-secret').handled).toMatchObject([
+        { sessionId: 'telegram_777', action: 'processSelection', userInput: '2', responseType: 'menu' }
+      ]);
+      expect(sent('api.telegram.org').map(request => request.url.split('/').pop())).toEqual(['answerCallbackQuery', 'sendMessage']);
+      expect(sent('api.telegram.org')[0].body).toEqual({ callback_query_id: 'cb-1' });
+    });
+
+    it('pushes agent replies to the chat app instead of the outbox', () => {
+      webhook('telegram', telegramCallback('menu:4'), 'telegram-secret');
+      backend.env.requests.length = 0;
+
+      admin({ action: 'replyEscalation', ticketId: 'ESC-0001', agent: 'Laura', message: 'Hola, soy Laura <3' });
+
+      expect(sent('api.telegram.org').map(request => request.body.text)).toEqual([
+        'Laura se unió a la conversación.',
+        '<b>Laura:</b> Hola, soy Laura &lt;3'
+      ]);
+      expect(backend.handleChatbotRequest({ action: 'getUpdates', sessionId: 'telegram_777' })).toMatchObject({ messages: [] });
+    });
+
+    it('keeps agent replies in the outbox when the chat app fails', () => {
+      webhook('whatsapp', whatsAppMessage({ type: 'interactive', interactive: { type: 'button_reply', button_reply: { id: 'menu:4', title: '4' } } }), 'verify-me-please');
+      backend.env.responders.unshift(request => (request.url.includes('graph.facebook.com') ? { status: 401, body: { error: { message: 'Token expired' } } } : undefined));
+
+      admin({ action: 'replyEscalation', ticketId: 'ESC-0001', agent: 'Laura', message: 'Hola' });
+
+      expect(backend.handleChatbotRequest({ action: 'getUpdates', sessionId: 'whatsapp_5491155550000' }))
+        .toMatchObject({ messages: [{ from: 'system' }, { from: 'agent', text: 'Hola' }] });
+      expect((admin({ action: 'getChannels' }).channels as { lastError: string }[])[0].lastError).toBe('Token expired');
+    });
+  });
+
+  describe('rendering', () => {
+    it('routes button IDs, /start and typed option numbers', () => {
+      expect(ChannelService.toRequest({ id: 'menu' })).toEqual({ action: 'getMenu' });
+      expect(ChannelService.toRequest({ id: 'text:2000001234567890' })).toEqual({ action: 'sendMessage', userInput: '2000001234567890' });
+      expect(ChannelService.toRequest({ text: '/start' })).toEqual({ action: 'getMenu' });
+      expect(ChannelService.toRequest({ text: '2.1' })).toEqual({ action: 'processSelection', userInput: '2.1' });
+      expect(ChannelService.toRequest({ text: '2000001234567890' })).toEqual({ action: 'sendMessage', userInput: '2000001234567890' });
+    });
+
+    it('links product cards to the listing', () => {
+      const product = { success: true, type: 'product_info', message: '**Remera**', data: { permalink: 'https://articulo.mercadolibre.com.ar/MLA-1' }, showMenu: false };
+
+      expect(ChannelService.render('whatsapp', '549', product)[0].body).toMatchObject({
+        type: 'interactive',
+        interactive: { type: 'cta_url', body: { text: '*Remera*' }, action: { parameters: { display_text: 'Ver publicación', url: 'https://articulo.mercadolibre.com.ar/MLA-1' } } }
+      });
+      expect(ChannelService.render('telegram', '777', product)[0].body).toMatchObject({
+        text: '<b>Remera</b>',
+        reply_markup: { inline_keyboard: [[{ text: 'Ver publicación', url: 'https://articulo.mercadolibre.com.ar/MLA-1' }]] }
+      });
+    });
+
+    it('offers an agent button when the AI has no answer', () => {
+      const [message] = ChannelService.render('whatsapp', '549', { success: true, type: 'no_answer', message: 'No encontré información.', showMenu: true });
+
+      expect((message.body.interactive as { action: unknown }).action).toEqual({
+        buttons: [
+          { type: 'reply', reply: { id: 'text:sí', title: 'Sí, con un agente' } },
+          { type: 'reply', reply: { id: 'menu', title: 'Ver menú' } }
+        ]
+      });
+    });
+
+    it('lists order cards as rows and writes out menus longer than a WhatsApp list', () => {
+      const orders = { success: true, type: 'order_list', message: 'Pedidos', orders: [{ id: '2000001234567890', statusLabel: 'Pagado', title: 'Remera' }], showMenu: true };
+      const rows = (ChannelService.render('whatsapp', '549', orders)[0].body.interactive as { action: { sections: { rows: unknown[] }[] } }).action.sections[0].rows;
+      expect(rows).toEqual([{ id: 'text:2000001234567890', title: '#2000001234567890', description: 'Pagado - Remera' }, { id: 'menu', title: 'Ver menú' }]);
+
+      const options = Array.from({ length: 11 }, (_, i) => ({ number: i + 1, title: `Opción ${i + 1}` }));
+      const [menu] = ChannelService.render('whatsapp', '549', { success: true, type: 'menu', greeting: 'Hola', options, footer: '' });
+      expect(menu.body).toMatchObject({ type: 'text', text: { body: expect.stringMatching(/^Hola\n\n1\. Opción 1\n.*\n11\. Opción 11$/s) } });
+    });
+  });
+
+  describe('dashboard actions', () => {
+    it('reports the channels with the tokens masked', () => {
+      expect(admin({ action: 'getChannels' })).toMatchObject({
+        success: true,
+        type: 'channels',
+        channels: [
+          {
+            id: 'whatsapp',
+            enabled: true,
+            fields: { accessToken: '••••1234', phoneNumberId: '109876543210', verifyToken: 'verify-me-please' },
+            missing: [],
+            webhookQuery: 'channel=whatsapp&secret=verify-me-please'
+          },
+          { id: 'telegram', enabled: true, fields: { botToken: '••••5678', webhookSecret: 'telegram-secret' } }
+        ]
+      });
+    });
+
+    it('keeps stored credentials for blank fields and registers the Telegram webhook', () => {
+      const result = admin({
+        action: 'updateChannel',
+        channel: 'telegram',
+        values: { botToken: '', webhookSecret: 'new_secret_123' },
+        webAppUrl: 'https://script.google.com/macros/s/abc/exec'
+      });
+
+      expect(result).toMatchObject({ success: true, channels: [{}, { fields: { botToken: '••••5678', webhookSecret: 'new_secret_123' } }] });
+      expect(sent('api.telegram.org')).toEqual([{
+        url: 'https://api.telegram.org/bot123456:telegram-token-5678/setWebhook',
+        body: { url: 'https://script.google.com/macros/s/abc/exec?channel=telegram&secret=new_secret_123', allowed_updates: ['message', 'callback_query'] }
+      }]);
+    });
+
+    it('rejects invalid channel settings', () => {
+      const fresh = setupBackend();
+
+      expect(fresh.handleChatbotRequest({
+        action: 'updateChannel',
+        token: tokenFor(fresh),
+        channel: 'whatsapp',
+        enabled: true,
+        values: { phoneNumberId: '+54 11', verifyToken: 'short', pin: '1' },
+        webAppUrl: 'https://script.google.com/macros/s/abc/exec'
+      })).toMatchObject({
+        success: false,
+        code: 'validation',
+        errors: [
+          { field: 'phoneNumberId', message: 'Phone number ID must be numeric' },
+          { field: 'verifyToken', message: 'Use 8 to 256 letters, numbers, - or _' },
+          { field: 'pin', message: 'Unknown field "pin"' },
+          { field: 'enabled', message: 'Set WHATSAPP_ACCESS_TOKEN first' },
+          { field: 'webAppUrl', message: 'Telegram needs the https URL of the web app' }
+        ]
+      });
+    });
+
+    it('replays a sample payload without sending anything', () => {
+      const result = admin({ action: 'replayChannelWebhook', channel: 'telegram', payload: telegramMessage('/start') });
+
+      expect(result).toMatchObject({
+        success: true,
+        type: 'channel_webhook',
+        handled: [{ sessionId: 'replay_telegram_777', action: 'getMenu', responseType: 'menu', response: { type: 'menu' } }],
+        outgoing: [{ method: 'sendMessage', url: 'https://api.telegram.org/bot••••5678/sendMessage', payload: { chat_id: '777' }, status: null }]
+      });
+      expect(backend.env.requests).toHaveLength(0);
+    });
+
+    it('needs an admin token', () => {
+      expect(backend.handleChatbotRequest({ action: 'getChannels', token: tokenFor(backend, 'agent') })).toMatchObject({ success: false, code: 'forbidden' });
+    });
+  });
+});
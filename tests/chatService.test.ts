@@ -0,0 +1,378 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { MockBackend } from '../mock/backend';
+import { SAMPLE_ML_DATA, claudeResponder, failingResponder, geminiResponder, mercadoLibreResponder } from '../mock/responders';
+import { ChatServiceApi, MONDAY_MORNING, services, setupBackend } from './helpers';
+
+interface GeminiPayload {
+  systemInstruction: { parts: { text: string }[] };
+  contents: { role: string; parts: { text: string }[] }[];
+}
+
+describe('ChatService', () => {
+  let backend: MockBackend;
+  let ChatService: ChatServiceApi;
+
+  beforeEach(() => {
+    backend = setupBackend();
+    ({ ChatService } = services(backend));
+  });
+
+  describe('determineResponseStrategy', () => {
+    it.each(['menu', 'Menú', 'ver opciones', 'ayuda'])('routes "%s" to the menu', message => {
+      expect(ChatService.determineResponseStrategy(message, {}).type).toBe('menu_request');
+    });
+
+    it('routes escalation keywords to a human', () => {
+      expect(ChatService.determineResponseStrategy('Quiero hablar con un agente', {}).type).toBe('escalation');
+      expect(ChatService.determineResponseStrategy('necesito ayuda directa', {}).type).toBe('escalation');
+    });
+
+    it('only shows the menu for "ayuda" on its own', () => {
+      expect(ChatService.determineResponseStrategy('necesito ayuda con mi pedido', {}).type).toBe('order_inquiry');
+    });
+
+    it('does not escalate every message with "hablar"', () => {
+      expect(ChatService.determineResponseStrategy('quiero hablar de mi pedido', {}).type).toBe('order_inquiry');
+    });
+
+    it('sends everything else to the AI with the session context', () => {
+      const context = { lastMessage: 'hola' };
+
+      expect(ChatService.determineResponseStrategy('¿hacen factura A?', context)).toEqual({
+        type: 'general_ai',
+        context: { userMessage: '¿hacen factura A?', sessionContext: context },
+        classification: expect.objectContaining({ intent: 'general_ai', source: 'default' })
+      });
+    });
+
+    it('routes order keywords to order_inquiry with the extracted order ID', () => {
+      expect(ChatService.determineResponseStrategy('¿dónde está mi pedido 2000001234567890?', {})).toMatchObject({
+        type: 'order_inquiry',
+        context: { order_id: '2000001234567890' }
+      });
+    });
+
+    it('routes product keywords to product_inquiry with the extracted item ID', () => {
+      expect(ChatService.determineResponseStrategy('¿tienen stock de MLA123456789?', {})).toMatchObject({
+        type: 'product_inquiry',
+        context: { item_id: 'MLA123456789' }
+      });
+    });
+  });
+
+  describe('ID extraction', () => {
+    it('finds MercadoLibre order IDs of 12 or more digits', () => {
+      expect(ChatService.extractOrderId('mi pedido 2000001234567890 no llegó')).toBe('2000001234567890');
+      expect(ChatService.extractOrderId('orden 123456789012')).toBe('123456789012');
+    });
+
+    it('ignores shorter numbers', () => {
+      expect(ChatService.extractOrderId('mi pedido 12345678901')).toBeNull();
+      expect(ChatService.extractOrderId('sin número')).toBeNull();
+    });
+
+    it('finds item IDs of every MercadoLibre site in any case', () => {
+      expect(ChatService.extractProductId('¿hay stock de MLA123456789?')).toBe('MLA123456789');
+      expect(ChatService.extractProductId('mla987654321')).toBe('MLA987654321');
+      expect(ChatService.extractProductId('MLM123456')).toBe('MLM123456');
+      expect(ChatService.extractProductId('tem o MLB-1234567?')).toBe('MLB1234567');
+    });
+
+    it('reads item IDs from listing URLs', () => {
+      expect(ChatService.extractProductId('https://articulo.mercadolibre.com.mx/MLM-123456789-tenis-_JM')).toBe('MLM123456789');
+    });
+
+    it('ignores unknown prefixes and short numbers', () => {
+      expect(ChatService.extractProductId('XYZ123456789')).toBeNull();
+      expect(ChatService.extractProductId('MLA12345')).toBeNull();
+    });
+  });
+
+  describe('processMessage', () => {
+    const send = (userInput: string, sessionId = 's1') =>
+      backend.handleChatbotRequest({ action: 'sendMessage', userInput, sessionId });
+
+    it('remembers the last exchange in the session', () => {
+      send('hola');
+
+      expect(ChatService.getSessionContext('s1')).toMatchObject({ lastMessage: 'hola', lastResponse: { type: 'ai' } });
+    });
+
+    it('passes messages to an active flow', () => {
+      backend.handleChatbotRequest({ action: 'processSelection', userInput: '1', sessionId: 's1' });
+
+      expect(send('no es un número')).toMatchObject({ type: 'flow', valid: false });
+    });
+
+    it('escalates with the business hours flag', () => {
+      expect(send('quiero hablar con un agente')).toMatchObject({ type: 'escalation', businessHours: true });
+    });
+
+    it('logs each message with its routing', () => {
+      send('hola');
+
+      const log = backend.env.spreadsheet.getSheetByName('Chat_Logs')!.dump().at(-1)!;
+      expect(log.slice(1, 4)).toEqual(['s1', 'chat_message', 'hola']);
+      expect(JSON.parse(String(log[8]))).toMatchObject({ responseType: 'general_ai', provider: 'gemini' });
+    });
+  });
+
+  describe('order inquiries', () => {
+    const ask = (message: string) => ChatService.handleOrderInquiry(message, 's1', {});
+    const shipmentRequests = () => backend.env.requests.filter(request => request.url.includes('/shipments/'));
+
+    it('shows an order with its payment and shipment timeline', () => {
+      const reply = ask('¿Cómo va mi pedido 2000001234567890?');
+
+      expect(reply).toMatchObject({
+        type: 'order_info',
+        shipment: { id: '41234567890', status: 'shipped', statusLabel: 'En camino' }
+      });
+      expect((reply.timeline as { source: string; status: string }[]).map(entry => `${entry.source}:${entry.status}`)).toEqual([
+        'order:confirmed',
+        'payment:pending',
+        'payment:approved',
+        'shipment:handling',
+        'shipment:ready_to_ship',
+        'shipment:shipped'
+      ]);
+      expect(reply.message).toContain('Pago aprobado');
+    });
+
+    it('answers with the shipment tracking when the customer asks about delivery', () => {
+      const reply = ask('¿Cuándo llega el envío del pedido 2000001234567890?');
+
+      expect(reply).toMatchObject({
+        type: 'shipment_info',
+        orderId: '2000001234567890',
+        shipment: { trackingNumber: 'AR1234567890', carrier: 'Correo Argentino', estimatedDelivery: '2024-01-16T00:00:00.000-03:00' }
+      });
+      expect(reply.message).toContain('AR1234567890');
+      expect(shipmentRequests()).toHaveLength(1);
+    });
+
+    it('lists the recent orders of a buyer who proves the account with one of its orders', () => {
+      const reply = ask('Pedidos del comprador: COMPRADOR_TEST, uno es el 2000009876543210');
+
+      expect(reply).toMatchObject({ type: 'order_list', buyer: { nickname: 'COMPRADOR_TEST' } });
+      expect(reply.orders).toEqual([
+        expect.objectContaining({ id: '2000001234567890', status: 'paid', title: 'Remera Deportiva Dry-Fit' }),
+        expect.objectContaining({ id: '2000009876543210', status: 'cancelled', statusLabel: 'Cancelado' })
+      ]);
+      const search = backend.env.requests.find(request => request.url.includes('/orders/search/recent'))!;
+      expect(new URL(search.url).searchParams.get('q')).toBe('COMPRADOR_TEST');
+    });
+
+    it('asks for an order of the buyer before listing anything', () => {
+      const searches = () => backend.env.requests.filter(request => request.url.includes('/orders/search/recent'));
+
+      expect(ask('comprador: COMPRADOR_TEST')).toMatchObject({ type: 'default', message: expect.stringContaining('usuario junto con el número') });
+      expect(ask('usuario: OTRO_COMPRADOR, pedido 2000001234567890')).toMatchObject({ type: 'default' });
+      expect(ask('usuario: 111111, pedido 2000001234567890')).toMatchObject({ type: 'default' });
+      expect(searches()).toHaveLength(0);
+    });
+
+    it('only reads a buyer from explicit "usuario: X" forms', () => {
+      expect(ChatService.extractBuyer('el usuario es nuevo')).toBeNull();
+      expect(ChatService.extractBuyer('soy comprador frecuente')).toBeNull();
+      expect(ChatService.extractBuyer('apodo: @juanp')).toEqual({ nickname: 'juanp' });
+      expect(ChatService.extractBuyer('Usuario: 987654321')).toEqual({ id: '987654321' });
+    });
+
+    it('keeps only the IDs of a large order in the session', () => {
+      const [order] = SAMPLE_ML_DATA.orders;
+      const items = Array.from({ length: 600 }, (_, index) => ({
+        item: { id: `MLA${100000000 + index}`, title: `Producto con una descripción larga número ${index}` },
+        quantity: 1,
+        unit_price: 100
+      }));
+      backend.env.responders.unshift(mercadoLibreResponder({ ...SAMPLE_ML_DATA, orders: [{ ...order, order_items: items }] }));
+
+      const reply = backend.handleChatbotRequest({ action: 'sendMessage', userInput: '¿Cómo va mi pedido 2000001234567890?', sessionId: 's1' });
+      const [row] = backend.env.spreadsheet.getSheetByName('Sessions')!.dump().slice(1);
+
+      expect(JSON.stringify(reply).length).toBeGreaterThan(50000);
+      expect(String(row[1]).length).toBeLessThan(50000);
+      expect(ChatService.getSessionContext('s1').lastResponse).toEqual({ type: 'order_info', success: true, orderId: '2000001234567890' });
+    });
+
+    it('keeps the timeline in the order lookup flow', () => {
+      backend.handleChatbotRequest({ action: 'processSelection', userInput: '1', sessionId: 's1' });
+      backend.handleChatbotRequest({ action: 'sendMessage', userInput: '2000009876543210', sessionId: 's1' });
+      const reply = backend.handleChatbotRequest({ action: 'sendMessage', userInput: 'cliente@example.com', sessionId: 's1' });
+
+      expect(reply).toMatchObject({ type: 'order_info', shipment: { status: 'cancelled' } });
+      expect(reply.message).toContain('te avisaremos a cliente@example.com');
+      expect((reply.timeline as { status: string }[]).map(entry => entry.status)).toContain('rejected');
+    });
+  });
+
+  describe('product inquiries', () => {
+    const ask = (message: string) => ChatService.handleProductInquiry(message, 's1', {});
+    const searches = () => backend.env.requests.filter(request => request.url.includes('/sites/'));
+
+    it('shows an item with its variations and the price in its site currency', () => {
+      const reply = ask('¿Precio de MLA123456789?');
+
+      expect(reply).toMatchObject({ type: 'product_info', data: { id: 'MLA123456789' } });
+      expect(reply.message).toMatch(/\*\*Precio:\*\* \$\s89\.999\n/);
+      expect(reply.message).toContain('**Condición:** Nuevo');
+      expect(reply.message).toMatch(/• Talle 42 · Color Negro: 4 disponibles · \$\s92\.999/);
+      expect(reply.message).toContain('• Talle 43 · Color Azul: sin stock');
+      expect(reply.message).toContain('https://articulo.mercadolibre.com.ar/MLA-123456789');
+    });
+
+    it('formats prices of other sites in their own currency', () => {
+      expect(ask('¿Tienen stock de MLB123456789?').message).toMatch(/R\$\s349,90/);
+      expect(ask('mlm-123456789').message).toMatch(/\$1,299\n/);
+    });
+
+    it('searches our own listings when there is no item ID', () => {
+      const reply = ask('¿Tienen zapatillas running?');
+
+      expect(reply).toMatchObject({ type: 'product_search', query: 'zapatillas running', total: 1 });
+      expect(reply.results).toEqual([
+        expect.objectContaining({ id: 'MLA123456789', availableQuantity: 12, thumbnail: expect.stringContaining('mlstatic') })
+      ]);
+      expect((reply.results as { priceLabel: string }[])[0].priceLabel).toMatch(/^\$\s89\.999$/);
+
+      const url = new URL(searches()[0].url);
+      expect(url.pathname).toBe('/sites/MLA/search');
+      expect(Object.fromEntries(url.searchParams)).toEqual({ seller_id: '123456789', q: 'zapatillas running', limit: '3' });
+    });
+
+    it('searches the site and number of results from the settings', () => {
+      const { ConfigService } = services(backend);
+      ConfigService.set('ml_site_id', 'MLM');
+      ConfigService.set('product_search_results', 1);
+
+      const reply = ask('busco tenis para correr');
+
+      expect(reply).toMatchObject({ type: 'product_search', results: [{ id: 'MLM123456789' }] });
+      expect(new URL(searches()[0].url).searchParams.get('limit')).toBe('1');
+    });
+
+    it('falls back to the AI when nothing matches', () => {
+      expect(ask('¿Tienen paraguas?')).toMatchObject({ type: 'ai' });
+      expect(searches()).toHaveLength(1);
+    });
+  });
+
+  describe('conversation memory', () => {
+    const send = (userInput: string, sessionId = 's1') =>
+      backend.handleChatbotRequest({ action: 'sendMessage', userInput, sessionId });
+    const setting = (key: string, value: unknown) => services(backend).ConfigService.set(key, value);
+    const aiCalls = (host: string) => backend.env.requests
+      .filter(request => request.url.includes(host))
+      .map(request => JSON.parse(request.payload));
+
+    it('sends earlier turns to Gemini as multi-turn contents', () => {
+      backend.env.responders.unshift(geminiResponder(prompt => `Eco: ${prompt}`));
+      send('hola, me llamo Ana');
+      send('¿cómo me llamo?');
+
+      const [, second] = aiCalls('generativelanguage') as GeminiPayload[];
+      expect(second.contents.map(content => [content.role, content.parts[0].text])).toEqual([
+        ['user', 'hola, me llamo Ana'],
+        ['model', 'Eco: hola, me llamo Ana'],
+        ['user', '¿cómo me llamo?']
+      ]);
+      expect(second.systemInstruction.parts[0].text).toContain('asistente de atención al cliente');
+    });
+
+    it('sends earlier turns to Claude as messages with a system prompt', () => {
+      setting('ai_provider_chain', 'claude');
+      backend.env.responders.unshift(claudeResponder(() => 'Claro.'));
+      send('hola');
+      send('¿hacen factura A?');
+
+      const [, second] = aiCalls('api.anthropic.com');
+      expect(second.system).toContain('asistente de atención al cliente');
+      expect(second.messages).toEqual([
+        { role: 'user', content: 'hola' },
+        { role: 'assistant', content: 'Claro.' },
+        { role: 'user', content: '¿hacen factura A?' }
+      ]);
+    });
+
+    it('returns the context that was sent with the answer', () => {
+      send('hola');
+
+      const response = send('¿hacen factura A?');
+
+      expect(response.context).toMatchObject({ summary: null, historyTurns: 2 });
+      expect((response.context as { messages: unknown[] }).messages).toHaveLength(3);
+      expect(ChatService.getSessionContext('s1').lastResponse).not.toHaveProperty('context');
+    });
+
+    it('keeps non-AI answers in the transcript', () => {
+      send('quiero hablar con un agente');
+
+      expect(ChatService.getSessionContext('s1').history).toMatchObject([
+        { role: 'user', content: 'quiero hablar con un agente' },
+        { role: 'assistant', content: expect.stringContaining('agente humano') }
+      ]);
+    });
+
+    it('summarizes the oldest exchanges beyond max_history_messages', () => {
+      setting('max_history_messages', 4);
+      backend.env.responders.unshift(geminiResponder((_prompt, request) =>
+        (JSON.parse(request.payload) as GeminiPayload).systemInstruction.parts[0].text.startsWith('Resume')
+          ? 'Ana preguntó por facturas.'
+          : 'Ok.'
+      ));
+
+      send('hola, soy Ana');
+      send('¿hacen factura A?');
+      send('¿y factura B?');
+
+      const session = ChatService.getSessionContext('s1');
+      expect(session.summary).toBe('Ana preguntó por facturas.');
+      expect((session.history as { content: string }[]).map(turn => turn.content))
+        .toEqual(['¿hacen factura A?', 'Ok.', '¿y factura B?', 'Ok.']);
+
+      expect(send('gracias').context).toMatchObject({ summary: 'Ana preguntó por facturas.' });
+    });
+
+    it('keeps what the customer said when no provider can summarize', () => {
+      setting('max_history_messages', 2);
+      send('hola, soy Ana');
+      backend.env.responders.unshift(failingResponder('generativelanguage'), failingResponder('api.anthropic.com'));
+
+      send('¿hacen factura A?');
+
+      expect(ChatService.getSessionContext('s1').summary).toBe('hola, soy Ana');
+    });
+
+    it('stays within the ai_context_tokens budget', () => {
+      setting('ai_context_tokens', 300);
+      backend.env.responders.unshift(geminiResponder(() => 'x'.repeat(800)));
+
+      send('primera');
+      send('segunda');
+
+      const session = ChatService.getSessionContext('s1');
+      expect((session.history as { content: string }[]).map(turn => turn.content.length)).toEqual([7, 800]);
+      expect(String(session.summary).length).toBeLessThanOrEqual(300);
+    });
+
+    it('forgets the conversation after session_timeout of inactivity', () => {
+      send('hola, soy Ana');
+      backend.setNow(new Date(Date.parse(MONDAY_MORNING) + 29 * 60 * 1000));
+      expect(ChatService.getSessionContext('s1').history).toHaveLength(2);
+
+      backend.setNow(new Date(Date.parse(MONDAY_MORNING) + 60 * 60 * 1000));
+      expect(ChatService.getSessionContext('s1')).toEqual({});
+      expect(backend.env.spreadsheet.getSheetByName('Sessions')!.dump()).toHaveLength(1);
+    });
+
+    it('uses the configured session_timeout', () => {
+      setting('session_timeout', 60);
+      send('hola');
+
+      backend.setNow(new Date(Date.parse(MONDAY_MORNING) + 2 * 60 * 1000));
+
+      expect(send('¿sigo aquí?').context).toMatchObject({ historyTurns: 0 });
+    });
+  });
+});
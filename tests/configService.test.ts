@@ -0,0 +1,209 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { MockBackend } from '../mock/backend';
+import { ConfigServiceApi, MONDAY_MORNING, services, setupBackend, tokenFor } from './helpers';
+
+describe('ConfigService', () => {
+  let backend: MockBackend;
+  let ConfigService: ConfigServiceApi;
+
+  const settingsSheet = () => backend.env.spreadsheet.getSheetByName('Settings')!;
+  const settingsRow = (key: string) => settingsSheet().dump().findIndex(row => row[0] === key) + 1;
+
+  beforeEach(() => {
+    backend = setupBackend();
+    ({ ConfigService } = services(backend));
+  });
+
+  describe('parseConfigValue', () => {
+    it.each([
+      ['500', 500],
+      ['0.7', 0.7],
+      [' 42 ', 42],
+      ['true', true],
+      ['FALSE', false],
+      ['09:00', '09:00'],
+      ['Mon,Tue', 'Mon,Tue'],
+      ['', '']
+    ])('parses %j as %j', (raw, expected) => {
+      expect(ConfigService.parseConfigValue(raw)).toBe(expected);
+    });
+
+    it('leaves values the sheet already typed alone', () => {
+      expect(ConfigService.parseConfigValue(300)).toBe(300);
+      expect(ConfigService.parseConfigValue(true)).toBe(true);
+    });
+
+    it('uses the schema type of known keys', () => {
+      expect(ConfigService.parseConfigValue(' 600 ', 'session_timeout')).toBe(600);
+      expect(ConfigService.parseConfigValue('123', 'footer_message')).toBe('123');
+      // Time cells come back as dates created inside the script
+      const ScriptDate = backend.global<DateConstructor>('Date');
+      expect(ConfigService.parseConfigValue(new ScriptDate(1899, 11, 30, 8, 30), 'business_hours_start')).toBe('08:30');
+    });
+  });
+
+  describe('validateConfig', () => {
+    it('accepts the seeded Settings sheet', () => {
+      expect(ConfigService.validateConfig()).toEqual({ valid: true, errors: [] });
+    });
+
+    it('reports each problem by settings key', () => {
+      const { errors } = ConfigService.validateConfig({
+        ...ConfigService.getDefaultConfig(),
+        max_ai_tokens: 'quinientos',
+        session_timeout: 30,
+        default_ai_provider: 'openai',
+        business_days: 'Mon,Tue,Wen',
+        business_hours_end: '08:00',
+        hours_sat: '10:00-14:00, 13:00-15:00',
+        sesion_timeout: 600
+      });
+
+      expect(errors).toEqual([
+        { index: -1, field: 'business_days', message: 'Unknown value Wen; use Sun, Mon, Tue, Wed, Thu, Fri, Sat' },
+        { index: -1, field: 'max_ai_tokens', message: 'Must be a whole number' },
+        { index: -1, field: 'default_ai_provider', message: 'Must be one of: gemini, claude' },
+        { index: -1, field: 'session_timeout', message: 'Must be between 60 and 21600' },
+        { index: -1, field: 'hours_sat', message: 'shifts overlap' },
+        { index: -1, field: 'sesion_timeout', message: 'Unknown setting; check the spelling of the key' },
+        { index: -1, field: 'business_hours_end', message: 'Must be after business_hours_start' }
+      ]);
+    });
+
+    it('falls back to the default when a number setting is not a number', () => {
+      settingsSheet().getRange(settingsRow('max_ai_tokens'), 2).setValue('5OO');
+      settingsSheet().getRange(settingsRow('session_timeout'), 2).setValue(30);
+
+      expect(ConfigService.get('max_ai_tokens')).toBe(500);
+      expect(ConfigService.get('session_timeout')).toBe(30);
+    });
+  });
+
+  describe('cache', () => {
+    it('reads the Settings sheet once while the cache is fresh', () => {
+      expect(ConfigService.get('max_ai_tokens')).toBe(500);
+
+      settingsSheet().getRange(settingsRow('max_ai_tokens'), 2).setValue(900);
+
+      expect(ConfigService.get('max_ai_tokens')).toBe(500);
+    });
+
+    it('reloads after clearCache', () => {
+      ConfigService.get('max_ai_tokens');
+      settingsSheet().getRange(settingsRow('max_ai_tokens'), 2).setValue(900);
+
+      ConfigService.clearCache();
+
+      expect(ConfigService.get('max_ai_tokens')).toBe(900);
+    });
+
+    it('reloads once the cache expires', () => {
+      ConfigService.get('max_ai_tokens');
+      settingsSheet().getRange(settingsRow('max_ai_tokens'), 2).setValue(900);
+
+      backend.setNow(new Date(Date.parse(MONDAY_MORNING) + 5 * 60 * 1000));
+
+      expect(ConfigService.get('max_ai_tokens')).toBe(900);
+    });
+
+    it('set() writes the sheet and invalidates the cache', () => {
+      ConfigService.get('footer_message');
+
+      ConfigService.set('footer_message', 'Nuevo pie');
+      ConfigService.set('brand_new_key', 'x');
+
+      expect(ConfigService.get('footer_message')).toBe('Nuevo pie');
+      expect(ConfigService.get('brand_new_key')).toBe('x');
+    });
+  });
+
+  it('returns the default for missing keys', () => {
+    expect(ConfigService.get('missing', 'fallback')).toBe('fallback');
+    expect(ConfigService.get('missing')).toBeNull();
+  });
+
+  it('keeps zero for AI settings that allow it', () => {
+    ConfigService.set('max_history_messages', 0);
+
+    expect(ConfigService.getAIConfig()).toMatchObject({ historyLimit: 0, maxTokens: 500 });
+  });
+
+  it('builds the weekly schedule from business_days', () => {
+    ConfigService.set('business_days', 'Mon, Sat');
+
+    const hours = ConfigService.getBusinessHours();
+
+    expect(Object.entries(hours.schedule).filter(([, day]) => day.open).map(([day]) => day)).toEqual(['1', '6']);
+    expect(hours.schedule[1]).toEqual({ open: true, start: '09:00', end: '18:00', shifts: [{ start: '09:00', end: '18:00' }] });
+  });
+});
+
+describe('settings admin actions', () => {
+  let backend: MockBackend;
+
+  const admin = (params: Record<string, unknown>) => backend.handleChatbotRequest({ token: tokenFor(backend), ...params });
+  const settingsRows = () => backend.env.spreadsheet.getSheetByName('Settings')!.dump().slice(1);
+
+  beforeEach(() => {
+    backend = setupBackend();
+  });
+
+  it('returns the schema with the current values', () => {
+    const report = admin({ action: 'getSettings' });
+
+    expect(report).toMatchObject({ success: true, type: 'settings', errors: [], values: { session_timeout: 1800, timezone: 'America/Argentina/Buenos_Aires' } });
+    expect(report.fields).toContainEqual(expect.objectContaining({ key: 'session_timeout', type: 'integer', default: 1800, min: 60, max: 21600 }));
+    expect(report.fields).toContainEqual(expect.objectContaining({ key: 'hours_mon', type: 'shifts', optional: true }));
+  });
+
+  it('saves changed values and clears the cache', () => {
+    services(backend).ConfigService.get('session_timeout');
+
+    const report = admin({ action: 'updateSettings', values: { session_timeout: '900', footer_message: 'Elegí una opción.', max_ai_tokens: 500 } });
+
+    expect(report).toMatchObject({ success: true, values: { session_timeout: 900, footer_message: 'Elegí una opción.' } });
+    expect(services(backend).ConfigService.get('session_timeout')).toBe(900);
+    expect(settingsRows().find(row => row[0] === 'session_timeout')![1]).toBe(900);
+  });
+
+  it('reports a save the sheet rejected', () => {
+    const sheet = backend.env.spreadsheet.getSheetByName('Settings')!;
+    vi.spyOn(sheet, 'getRange').mockImplementation(() => {
+      throw new Error('Service Spreadsheets timed out');
+    });
+
+    expect(admin({ action: 'updateSettings', values: { footer_message: 'Nuevo pie' } }))
+      .toMatchObject({ success: false, error: expect.stringContaining('No se pudo guardar') });
+  });
+
+  it('adds schema keys missing from the sheet with their description', () => {
+    admin({ action: 'updateSettings', values: { hours_sat: '10:00-14:00' } });
+
+    expect(settingsRows().find(row => row[0] === 'hours_sat')).toEqual(['hours_sat', '10:00-14:00', expect.stringContaining('Saturday'), '', '', '']);
+  });
+
+  it('rejects invalid values without saving any', () => {
+    const result = admin({ action: 'updateSettings', values: { footer_message: 'Nuevo pie', business_hours_start: '19:00', ai_provider_chain: 'claude,claude' } });
+
+    expect(result).toMatchObject({
+      success: false,
+      code: 'validation',
+      errors: [
+        { field: 'ai_provider_chain', message: 'Lists a value twice' },
+        { field: 'business_hours_end', message: 'Must be after business_hours_start' }
+      ]
+    });
+    expect(services(backend).ConfigService.get('footer_message')).not.toBe('Nuevo pie');
+  });
+
+  it('does not block saving on problems already in the sheet', () => {
+    services(backend).ConfigService.set('max_ai_tokens', 'mucho');
+
+    expect(admin({ action: 'updateSettings', values: { footer_message: 'Nuevo pie' } }))
+      .toMatchObject({ success: true, errors: [{ field: 'max_ai_tokens' }] });
+  });
+
+  it('requires the admin key', () => {
+    expect(backend.handleChatbotRequest({ action: 'updateSettings', values: {} })).toMatchObject({ code: 'unauthorized' });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { failingResponder } from '../mock/responders';
+import { setupBackend, tokenFor } from './helpers';
+
+type Check = { id: string; step: string; status: string; message: string; fix: string | null };
+
+describe('diagnostics action', () => {
+  const diagnostics = (backend: ReturnType<typeof setupBackend>, params: Record<string, unknown> = {}) =>
+    backend.handleChatbotRequest({ action: 'diagnostics', ...params }) as { ready: boolean; checks: Check[] };
+  const statuses = (checks: Check[]) => Object.fromEntries(checks.map(check => [check.id, check.status]));
+
+  it('passes a configured deployment', () => {
+    const backend = setupBackend();
+
+    const report = diagnostics(backend, { token: tokenFor(backend) });
+
+    expect(report).toMatchObject({ success: true, type: 'diagnostics', ready: true });
+    expect(statuses(report.checks)).toEqual({
+      spreadsheet: 'pass',
+      web_app: 'pass',
+      'property:SPREADSHEET_ID': 'pass',
+      'property:GEMINI_API_KEY': 'pass',
+      'property:ADMIN_API_KEY': 'pass',
+      optional_properties: 'pass',
+      sheets: 'pass',
+      initialized: 'pass',
+      ai: 'pass',
+      mercadolibre: 'pass'
+    });
+  });
+
+  it('reports a fresh deployment without initializing it', () => {
+    const backend = setupBackend({ initialize: false });
+
+    const report = diagnostics(backend);
+
+    expect(report.ready).toBe(false);
+    expect(report.checks.find(check => check.id === 'sheets')).toMatchObject({
+      status: 'fail',
+      message: 'Missing: Menu_Config, Chat_Logs, Settings, Sessions, Escalations, Holidays, Intents, Knowledge_Base.',
+      fix: expect.stringContaining('initializeSystem()')
+    });
+    expect(statuses(report.checks)).toMatchObject({ initialized: 'fail', ai: 'skipped', mercadolibre: 'skipped' });
+    expect(backend.env.spreadsheet.getSheets()).toEqual([]);
+  });
+
+  it('flags properties still holding setupCredentials() placeholders', () => {
+    const backend = setupBackend({
+      initialize: false,
+      properties: { GEMINI_API_KEY: 'your_gemini_api_key', ML_USER_ID: 'your_ml_user_id' }
+    });
+    backend.env.properties.deleteProperty('ADMIN_API_KEY');
+
+    const checks = diagnostics(backend).checks;
+
+    expect(checks.find(check => check.id === 'property:GEMINI_API_KEY')).toMatchObject({
+      status: 'fail',
+      message: 'GEMINI_API_KEY still holds the placeholder from setupCredentials().',
+      fix: expect.stringContaining('Google AI Studio')
+    });
+    expect(checks.find(check => check.id === 'property:ADMIN_API_KEY')).toMatchObject({ status: 'fail', message: 'ADMIN_API_KEY is not set.' });
+    expect(checks.find(check => check.id === 'optional_properties')).toMatchObject({ status: 'warn', message: 'ML_USER_ID still holds its placeholder.' });
+  });
+
+  it('explains an unreachable spreadsheet', () => {
+    const backend = setupBackend({ initialize: false, properties: { SPREADSHEET_ID: 'someone-elses-sheet' } });
+
+    expect(statuses(diagnostics(backend).checks)).toMatchObject({ spreadsheet: 'fail', sheets: 'skipped' });
+  });
+
+  it('reports failing AI providers to admins', () => {
+    const backend = setupBackend();
+    backend.env.responders.unshift(failingResponder('generativelanguage.googleapis.com'));
+
+    const ai = diagnostics(backend, { token: tokenFor(backend) }).checks.find(check => check.id === 'ai');
+
+    expect(ai).toMatchObject({ status: 'warn', message: expect.stringMatching(/^Gemini: .+\. Claude: ok\.$/) });
+  });
+});
@@ -0,0 +1,209 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { MockBackend } from '../mock/backend';
+import { MONDAY_MORNING, buenosAires, setupBackend, tokenFor } from './helpers';
+
+describe('escalation queue', () => {
+  let backend: MockBackend;
+
+  const minutesLater = (minutes: number) => new Date(Date.parse(MONDAY_MORNING) + minutes * 60 * 1000);
+  const admin = (params: Record<string, unknown>) => backend.handleChatbotRequest({ token: tokenFor(backend), ...params });
+  const send = (userInput: string, sessionId = 's1') => backend.handleChatbotRequest({ action: 'sendMessage', userInput, sessionId });
+  const updates = (sessionId = 's1') => backend.handleChatbotRequest({ action: 'getUpdates', sessionId });
+  const escalate = (sessionId = 's1') => backend.handleChatbotRequest({ action: 'processSelection', userInput: '4', sessionId });
+  const ticketRows = () => backend.env.spreadsheet.getSheetByName('Escalations')!.dump().slice(1);
+
+  beforeEach(() => {
+    backend = setupBackend();
+  });
+
+  it('opens a pending ticket from the escalate menu option', () => {
+    expect(escalate()).toMatchObject({ type: 'escalation', ticketId: 'ESC-0001', businessHours: true });
+
+    expect(ticketRows().map(row => row.slice(0, 6))).toEqual([['ESC-0001', 's1', 'Hablar con un agente', 'pending', '', minutesLater(0).toISOString()]]);
+  });
+
+  it('opens after_hours tickets outside business hours', () => {
+    backend.setNow(buenosAires('2024-01-13T10:00:00'));
+
+    send('quiero hablar con un agente');
+
+    expect(ticketRows()[0][3]).toBe('after_hours');
+  });
+
+  it('reuses the open ticket of a session', () => {
+    escalate();
+    send('necesito hablar con una persona', 's2');
+
+    expect(escalate()).toMatchObject({ ticketId: 'ESC-0001' });
+    expect(ticketRows().map(row => row[0])).toEqual(['ESC-0001', 'ESC-0002']);
+  });
+
+  it('allocates ticket IDs and rows holding the script lock', () => {
+    const otherExecution = backend.env.locks.getScriptLock();
+    otherExecution.tryLock();
+
+    expect(escalate()).toMatchObject({ success: false });
+    expect(ticketRows()).toEqual([]);
+
+    otherExecution.releaseLock();
+
+    expect(escalate()).toMatchObject({ ticketId: 'ESC-0001' });
+    expect(backend.env.locks.holder).toBeNull();
+  });
+
+  it('finds tickets through their cached row', () => {
+    escalate();
+    escalate('s2');
+    expect(backend.env.cache.get('ROW_TICKET_ESC-0002')).toBe('3');
+
+    backend.env.cache.put('ROW_TICKET_ESC-0002', '2');
+
+    expect(send('¿hola?', 's2')).toMatchObject({ type: 'agent', ticketId: 'ESC-0002' });
+    expect(backend.env.cache.get('ROW_TICKET_ESC-0002')).toBe('3');
+  });
+
+  it('sends customer messages to the ticket instead of the bot', () => {
+    escalate();
+
+    expect(send('¿siguen ahí?')).toMatchObject({ type: 'agent', ticketId: 'ESC-0001', status: 'pending' });
+    expect(backend.env.requests).toHaveLength(0);
+
+    const detail = admin({ action: 'getEscalation', ticketId: 'ESC-0001' });
+    expect((detail.ticket as { messages: unknown[] }).messages).toMatchObject([
+      { from: 'customer', text: 'Hablar con un agente' },
+      { from: 'customer', text: '¿siguen ahí?' }
+    ]);
+  });
+
+  it('delivers agent replies through the session', () => {
+    escalate();
+
+    admin({ action: 'replyEscalation', ticketId: 'ESC-0001', agent: 'Laura', message: 'Hola, soy Laura. ¿En qué te ayudo?' });
+
+    expect(updates()).toMatchObject({
+      type: 'updates',
+      escalation: { ticketId: 'ESC-0001', status: 'assigned', agent: 'Laura' },
+      messages: [
+        { from: 'system', text: 'Laura se unió a la conversación.' },
+        { from: 'agent', agent: 'Laura', text: 'Hola, soy Laura. ¿En qué te ayudo?' }
+      ]
+    });
+    expect(updates()).toMatchObject({ messages: [] });
+    expect(send('gracias')).toMatchObject({ type: 'agent', message: 'Tu mensaje fue enviado a Laura.' });
+  });
+
+  it('hands the session back to the bot once resolved', () => {
+    escalate();
+    admin({ action: 'claimEscalation', ticketId: 'ESC-0001', agent: 'Laura' });
+
+    const resolved = admin({ action: 'resolveEscalation', ticketId: 'ESC-0001', agent: 'Laura', message: 'Listo, ya quedó resuelto.' });
+
+    expect(resolved).toMatchObject({ type: 'escalation_ticket', ticket: { status: 'resolved', agent: 'Laura', resolvedAt: minutesLater(0).toISOString() } });
+    expect(updates()).toMatchObject({ escalation: null, messages: [{ from: 'system' }, { from: 'agent' }, { from: 'system' }] });
+    expect(send('hola')).toMatchObject({ type: 'ai' });
+  });
+
+  it('lets only the assigned agent act on a ticket', () => {
+    escalate();
+    admin({ action: 'claimEscalation', ticketId: 'ESC-0001', agent: 'Laura' });
+
+    expect(admin({ action: 'replyEscalation', ticketId: 'ESC-0001', agent: 'Pablo', message: 'Hola' }))
+      .toMatchObject({ success: false, code: 'conflict', error: 'El ticket ya fue tomado por Laura.' });
+    expect(admin({ action: 'claimEscalation', ticketId: 'ESC-0001', agent: '' }))
+      .toMatchObject({ success: false, code: 'validation', errors: [{ field: 'agent' }] });
+    expect(admin({ action: 'claimEscalation', ticketId: 'ESC-9999', agent: 'Laura' }))
+      .toMatchObject({ success: false, code: 'not_found' });
+  });
+
+  describe('agents and customers acting at once', () => {
+    type Service = Record<string, (...args: unknown[]) => unknown>;
+
+    // Runs another execution's request right after this one has read the ticket, before it takes the lock
+    const interleave = (service: string, method: string, other: () => void) => {
+      const target = backend.global<Service>(service);
+      const original = target[method].bind(target);
+      vi.spyOn(target, method).mockImplementationOnce((...args: unknown[]) => {
+        other();
+        return original(...args);
+      });
+    };
+
+    beforeEach(() => {
+      escalate();
+    });
+
+    it('lets only one of two agents claim the ticket', () => {
+      interleave('EscalationService', 'customerLanguage', () => admin({ action: 'claimEscalation', ticketId: 'ESC-0001', agent: 'Laura' }));
+
+      expect(admin({ action: 'claimEscalation', ticketId: 'ESC-0001', agent: 'Pablo' }))
+        .toMatchObject({ success: false, code: 'conflict', error: 'El ticket ya fue tomado por Laura.' });
+      expect(ticketRows()[0].slice(3, 5)).toEqual(['assigned', 'Laura']);
+    });
+
+    it('keeps a customer message that arrives during an agent reply', () => {
+      interleave('EscalationService', 'customerLanguage', () => send('¿hay novedades?'));
+
+      admin({ action: 'replyEscalation', ticketId: 'ESC-0001', agent: 'Laura', message: 'Hola, lo reviso.' });
+
+      expect(JSON.parse(String(ticketRows()[0][9])).map((message: { text: string }) => message.text)).toEqual([
+        'Hablar con un agente',
+        '¿hay novedades?',
+        'Laura se unió a la conversación.',
+        'Hola, lo reviso.'
+      ]);
+    });
+
+    it('keeps replies queued for the customer by another execution', () => {
+      admin({ action: 'claimEscalation', ticketId: 'ESC-0001', agent: 'Laura' });
+      updates();
+      interleave('ChannelService', 'push', () => admin({ action: 'replyEscalation', ticketId: 'ESC-0001', agent: 'Laura', message: 'Segundo' }));
+
+      admin({ action: 'replyEscalation', ticketId: 'ESC-0001', agent: 'Laura', message: 'Primero' });
+
+      expect((updates().messages as { text: string }[]).map(message => message.text).sort()).toEqual(['Primero', 'Segundo']);
+    });
+  });
+
+  describe('escalation_timeout', () => {
+    beforeEach(() => {
+      escalate();
+      admin({ action: 'claimEscalation', ticketId: 'ESC-0001', agent: 'Laura' });
+    });
+
+    it('requeues tickets the agent has not answered', () => {
+      backend.setNow(minutesLater(6));
+
+      const queue = admin({ action: 'getEscalations' });
+
+      expect(queue).toMatchObject({ counts: { pending: 1, assigned: 0 }, tickets: [{ ticketId: 'ESC-0001', status: 'pending', agent: null }] });
+    });
+
+    it('keeps tickets the agent is answering', () => {
+      backend.setNow(minutesLater(4));
+      admin({ action: 'replyEscalation', ticketId: 'ESC-0001', agent: 'Laura', message: 'Lo reviso' });
+      backend.setNow(minutesLater(10));
+
+      expect(backend.global<() => number>('requeueStaleEscalations')()).toBe(0);
+    });
+
+    it('counts from the first customer message the agent has not answered', () => {
+      admin({ action: 'replyEscalation', ticketId: 'ESC-0001', agent: 'Laura', message: 'Hola' });
+      backend.setNow(minutesLater(2));
+      send('¿me ayudás con la factura?');
+      backend.setNow(minutesLater(8));
+
+      expect(backend.global<() => number>('requeueStaleEscalations')()).toBe(1);
+    });
+  });
+
+  it('installs the requeue trigger', () => {
+    expect(backend.env.triggers.filter(trigger => trigger.getHandlerFunction() === 'requeueStaleEscalations')
+      .map(trigger => trigger.everyMinutes)).toEqual([5]);
+  });
+
+  it('requires the admin key for agent actions', () => {
+    expect(backend.handleChatbotRequest({ action: 'getEscalations' })).toMatchObject({ code: 'unauthorized' });
+    expect(backend.handleChatbotRequest({ action: 'replyEscalation', ticketId: 'ESC-0001', agent: 'x', message: 'y' }))
+      .toMatchObject({ code: 'unauthorized' });
+  });
+});
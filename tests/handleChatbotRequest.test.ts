@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { MockBackend } from '../mock/backend';
+import { ADMIN_KEY, setupBackend, tokenFor } from './helpers';
+
+describe('handleChatbotRequest', () => {
+  let backend: MockBackend;
+
+  beforeEach(() => {
+    backend = setupBackend();
+  });
+
+  it('initializes the system on the first request', () => {
+    backend = setupBackend({ initialize: false });
+    expect(backend.env.properties.getProperty('SYSTEM_INITIALIZED')).toBeNull();
+
+    const response = backend.handleChatbotRequest({ action: 'getMenu' });
+
+    expect(response).toMatchObject({ success: true, type: 'menu' });
+    expect(backend.env.properties.getProperty('SYSTEM_INITIALIZED')).toBe('true');
+    expect(backend.env.spreadsheet.getSheets().map(sheet => sheet.getName()))
+      .toEqual(['Menu_Config', 'Chat_Logs', 'Settings', 'Sessions', 'Escalations', 'Holidays', 'Intents', 'Knowledge_Base']);
+  });
+
+  it('routes getMenu to the top-level menu', () => {
+    const response = backend.handleChatbotRequest({ action: 'getMenu', sessionId: 's1' });
+
+    expect(response).toMatchObject({ success: true, type: 'menu', path: '' });
+    expect((response.options as { number: unknown }[]).map(option => option.number)).toEqual([1, 2, 3, 4, 0]);
+  });
+
+  it('routes processSelection to MenuService', () => {
+    const response = backend.handleChatbotRequest({ action: 'processSelection', userInput: '3', sessionId: 's1' });
+
+    expect(response).toMatchObject({ success: true, type: 'static', title: 'Política de devoluciones' });
+  });
+
+  it('routes sendMessage to ChatService', () => {
+    const response = backend.handleChatbotRequest({ action: 'sendMessage', userInput: 'menu', sessionId: 's1' });
+
+    expect(response).toMatchObject({ success: true, type: 'menu' });
+  });
+
+  it('falls back to the menu for unknown or missing actions', () => {
+    expect(backend.handleChatbotRequest({ action: 'nope' })).toMatchObject({ success: true, type: 'menu' });
+    expect(backend.handleChatbotRequest({})).toMatchObject({ success: true, type: 'menu' });
+  });
+
+  describe('dashboard actions', () => {
+    it.each(['getAnalytics', 'getLogs', 'getMenuConfig', 'updateMenu', 'getAIHealth', 'setAIProviderMode'])('rejects %s without a valid token', action => {
+      expect(backend.handleChatbotRequest({ action })).toMatchObject({ success: false, code: 'unauthorized' });
+      expect(backend.handleChatbotRequest({ action, token: 'wrong' })).toMatchObject({ code: 'unauthorized' });
+      expect(backend.handleChatbotRequest({ action, adminKey: ADMIN_KEY })).toMatchObject({ code: 'unauthorized' });
+    });
+
+    it('serves dashboard actions with a token', () => {
+      const token = tokenFor(backend);
+
+      expect(backend.handleChatbotRequest({ action: 'getAnalytics', token })).toMatchObject({ success: true, type: 'analytics' });
+      expect(backend.handleChatbotRequest({ action: 'getLogs', token })).toMatchObject({ success: true, type: 'logs' });
+      expect(backend.handleChatbotRequest({ action: 'getMenuConfig', token })).toMatchObject({ success: true, type: 'menu_config' });
+    });
+
+    it('reports validation errors from updateMenu without touching the sheet', () => {
+      const before = backend.env.spreadsheet.getSheetByName('Menu_Config')!.dump();
+
+      const response = backend.handleChatbotRequest({
+        action: 'updateMenu',
+        token: tokenFor(backend),
+        items: [{ number: 1, title: '', responseType: 'static', response: 'x' }]
+      });
+
+      expect(response).toMatchObject({ success: false, code: 'validation' });
+      expect(response.errors).toEqual([{ index: 0, field: 'title', message: 'Title is required' }]);
+      expect(backend.env.spreadsheet.getSheetByName('Menu_Config')!.dump()).toEqual(before);
+    });
+  });
+
+  describe('web app entry points', () => {
+    it('answers GET query parameters as JSON', () => {
+      const body = JSON.parse(backend.doGet({ action: 'getMenu' }));
+
+      expect(body).toMatchObject({ success: true, type: 'menu' });
+    });
+
+    it('accepts text/plain and application/json POST bodies', () => {
+      const payload = JSON.stringify({ action: 'processSelection', userInput: '3', sessionId: 's1' });
+
+      expect(JSON.parse(backend.doPost(payload, 'text/plain'))).toMatchObject({ type: 'static' });
+      expect(JSON.parse(backend.doPost(payload, 'application/json'))).toMatchObject({ type: 'static' });
+    });
+
+    it('reports malformed POST bodies', () => {
+      expect(JSON.parse(backend.doPost('{not json'))).toEqual({ success: false, error: 'Invalid request format' });
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { failingResponder } from '../mock/responders';
+import { setupBackend, tokenFor } from './helpers';
+
+type Component = { name: string; critical: boolean; status: string; latencyMs: number; message: string; error: string | null; details: Record<string, unknown> };
+type Health = { success: boolean; status: string; deep: boolean; components: Component[] };
+
+describe('health action', () => {
+  const health = (backend: ReturnType<typeof setupBackend>, params: Record<string, unknown> = {}) =>
+    backend.handleChatbotRequest({ action: 'health', ...params }) as Health;
+  const statuses = (components: Component[]) => Object.fromEntries(components.map(component => [component.name, component.status]));
+  const component = (report: Health, name: string) => report.components.find(entry => entry.name === name);
+
+  it('runs the cheap checks without calling external APIs', () => {
+    const backend = setupBackend();
+    const requestsBefore = backend.env.requests.length;
+
+    const report = health(backend);
+
+    expect(report).toMatchObject({ success: true, type: 'health', status: 'ok', deep: false });
+    expect(statuses(report.components)).toEqual({
+      sheets: 'ok',
+      config: 'ok',
+      menu: 'ok',
+      'ai:gemini': 'ok',
+      'ai:claude': 'ok',
+      'mercadolibre:token': 'ok',
+      'mercadolibre:api': 'skipped',
+      logs: 'ok'
+    });
+    expect(report.components.every(entry => typeof entry.latencyMs === 'number')).toBe(true);
+    expect(backend.env.requests.length).toBe(requestsBefore);
+  });
+
+  it('requires the admin key for deep checks', () => {
+    const backend = setupBackend();
+
+    expect(health(backend, { deep: 'true' })).toMatchObject({ success: false, code: 'unauthorized' });
+  });
+
+  it('calls each provider and MercadoLibre on deep checks', () => {
+    const backend = setupBackend();
+    backend.env.responders.unshift(failingResponder('generativelanguage.googleapis.com'));
+
+    const report = health(backend, { deep: true, token: tokenFor(backend) });
+
+    expect(report).toMatchObject({ status: 'degraded', deep: true });
+    expect(component(report, 'ai:gemini')).toMatchObject({ status: 'down', critical: false, error: expect.any(String) });
+    expect(statuses(report.components)).toMatchObject({ 'ai:claude': 'ok', 'mercadolibre:api': 'ok' });
+    expect(backend.env.requests.some(request => request.url.includes(`/users/`))).toBe(true);
+  });
+
+  it('reports a fresh deployment as down without creating sheets', () => {
+    const backend = setupBackend({ initialize: false });
+
+    const report = health(backend);
+
+    expect(report.status).toBe('down');
+    expect(component(report, 'sheets')).toMatchObject({ status: 'down', critical: true, error: expect.stringContaining('initializeSystem()') });
+    expect(backend.env.spreadsheet.getSheets()).toEqual([]);
+  });
+
+  it('accepts upgraded deployments whose newer sheets are created on first use', () => {
+    const backend = setupBackend();
+    const { spreadsheet } = backend.env;
+    ['Escalations', 'Knowledge_Base'].forEach(name => spreadsheet.deleteSheet(spreadsheet.getSheetByName(name)!));
+
+    const report = health(backend);
+
+    expect(report.status).toBe('ok');
+    expect(component(report, 'sheets')).toMatchObject({
+      status: 'ok',
+      message: expect.stringContaining('Escalations, Knowledge_Base will be created on first use'),
+      details: { missing: [], notCreated: ['Escalations', 'Knowledge_Base'] }
+    });
+    expect(spreadsheet.getSheetByName('Escalations')).toBeNull();
+  });
+
+  it('reports an open circuit and an expired MercadoLibre token', () => {
+    const backend = setupBackend({
+      properties: {
+        ML_ACCESS_TOKEN_FECHA_EXPIRA: '2024-01-15T12:30:00.000Z',
+        AI_PROVIDER_HEALTH: JSON.stringify({
+          claude: { mode: 'auto', consecutiveFailures: 3, openUntil: '2999-01-01T00:00:00.000Z', lastError: 'Claude API error: overloaded' }
+        })
+      }
+    });
+
+    const report = health(backend);
+
+    expect(component(report, 'ai:claude')).toMatchObject({ status: 'down', error: 'Claude API error: overloaded' });
+    expect(component(report, 'mercadolibre:token')).toMatchObject({
+      status: 'degraded',
+      message: 'Expired 30 min ago; it is refreshed on the next lookup.'
+    });
+    expect(report.status).toBe('degraded');
+  });
+
+  it('logs every component from testSystem()', () => {
+    const backend = setupBackend();
+
+    backend.global<() => Health>('testSystem')();
+
+    expect(backend.env.logs).toContain('System status: OK');
+    expect(backend.env.logs.some(line => line.startsWith('ai:gemini: OK ('))).toBe(true);
+  });
+});
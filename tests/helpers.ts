@@ -0,0 +1,154 @@
+import { MOCK_PROPERTIES, MockBackend, MockBackendOptions, createMockBackend } from '../mock/backend';
+
+/** Typed views of the .gs service objects, limited to what the tests call */
+
+export interface Shift {
+  start: string;
+  end: string;
+}
+
+export interface BusinessHours {
+  schedule: Record<number, { open: boolean; start?: string; end?: string; shifts?: Shift[] }>;
+  holidays?: { date: string; name: string; shifts: Shift[]; recurring: boolean }[];
+  display: string;
+  timezone: string;
+}
+
+export interface MenuServiceApi {
+  processSelection(selection: string, sessionId?: string): Record<string, unknown>;
+  isWithinBusinessHours(time: Date, hours: BusinessHours): boolean;
+}
+
+export interface ChatServiceApi {
+  determineResponseStrategy(message: string, context: object): { type: string; context?: unknown; classification?: unknown };
+  extractOrderId(message: string): string | null;
+  extractBuyer(message: string): { id?: string; nickname?: string } | null;
+  extractProductId(message: string): string | null;
+  getSessionContext(sessionId: string): Record<string, unknown>;
+  handleOrderInquiry(message: string, sessionId: string, context?: object): Record<string, unknown>;
+  handleProductInquiry(message: string, sessionId: string, context?: object): Record<string, unknown>;
+}
+
+export interface ConfigServiceApi {
+  getConfig(): Record<string, unknown>;
+  get(key: string, defaultValue?: unknown): unknown;
+  set(key: string, value: unknown): void;
+  clearCache(): void;
+  parseConfigValue(value: unknown, key?: string): unknown;
+  getBusinessHours(): BusinessHours;
+  getAIConfig(): { historyLimit: number; maxTokens: number; timeout: number; contextTokenBudget: number; providerChain: string[] };
+  getDefaultConfig(): Record<string, unknown>;
+  validateConfig(values?: Record<string, unknown>): { valid: boolean; errors: { index: number; field: string; message: string }[] };
+}
+
+export interface LoggingServiceApi {
+  sanitizeMessage(message: unknown): string;
+  sanitizeMetadata(metadata: Record<string, unknown>): Record<string, unknown>;
+}
+
+export interface AIServiceApi {
+  generateResponse(provider: string | null, context: { userQuery: string; sessionId?: string }): Record<string, unknown>;
+  getProviderChain(preferred?: string | null): string[];
+  checkAvailability(provider: string): { available: boolean; reason: string | null };
+  buildPrompt(context: object): { system: string; messages: { role: string; content: string }[] };
+  getProviderHealth(provider: string): { mode: string; consecutiveFailures: number; openUntil: string | null; lastError: string | null };
+}
+
+export interface MercadoLibreServiceApi {
+  getValidAccessToken(): string | null;
+}
+
+export interface SessionServiceApi {
+  get(sessionId: string): Record<string, unknown>;
+  save(sessionId: string, data: object): Record<string, unknown>;
+  remove(sessionId: string): boolean;
+  cleanupExpired(): { removed: number; active: number };
+  migrateFromProperties(): { migrated: number; discarded: number };
+  installCleanupTrigger(): boolean;
+}
+
+export interface IntentClassification {
+  intent: string;
+  score: number;
+  source: 'rules' | 'ai' | 'default';
+  entities: Record<string, unknown>;
+  candidates: { intent: string; score: number; matches: { type: string; value: string }[] }[];
+  ai: { intent: string; confidence: number; provider: string } | null;
+}
+
+export interface IntentServiceApi {
+  classify(message: string, options?: { sessionId?: string; useAI?: boolean }): IntentClassification;
+  extractEntities(message: string): Record<string, unknown>;
+  clearCache(): void;
+}
+
+export interface I18nServiceApi {
+  detect(text: string): string | null;
+  t(key: string, values?: Record<string, unknown>, language?: string): string;
+}
+
+export interface KnowledgeResult {
+  id: string;
+  title: string;
+  score: number;
+  confidence: number;
+  matches: string[];
+  number?: number;
+}
+
+export interface KnowledgeServiceApi {
+  retrieve(query: string): { terms: string[]; results: KnowledgeResult[]; sources: KnowledgeResult[]; confident: boolean } | null;
+  search(query: string): KnowledgeResult[];
+  tokenize(text: string): string[];
+  acceptsOffer(message: string): boolean;
+  clearCache(): void;
+}
+
+export interface ChannelMessage {
+  method: string;
+  body: Record<string, unknown>;
+}
+
+export interface ChannelServiceApi {
+  render(channel: string, chatId: string, response: Record<string, unknown>): ChannelMessage[];
+  toRequest(reply: { id?: string; text?: string }): { action: string; userInput?: string };
+}
+
+export interface AuthServiceApi {
+  issueToken(user: string, role: string, expiresAt: Date): string;
+}
+
+export const ADMIN_KEY = MOCK_PROPERTIES.ADMIN_API_KEY;
+export const AGENT_KEY = MOCK_PROPERTIES.AGENT_API_KEY;
+export const VIEWER_KEY = MOCK_PROPERTIES.VIEWER_API_KEY;
+
+/** ISO timestamp for a Buenos Aires wall-clock time (UTC-3, no DST) */
+export const buenosAires = (local: string) => `${local}-03:00`;
+
+/** Monday 15 January 2024, 10:00 in Buenos Aires: inside the default business hours */
+export const MONDAY_MORNING = buenosAires('2024-01-15T10:00:00');
+
+export function setupBackend(options: MockBackendOptions = {}): MockBackend {
+  return createMockBackend({ now: MONDAY_MORNING, ...options });
+}
+
+/** A dashboard token for the role, signed the way the login action signs it */
+export function tokenFor(backend: MockBackend, role = 'admin', user = 'Tester'): string {
+  return backend.global<AuthServiceApi>('AuthService').issueToken(user, role, new Date('2999-01-01T00:00:00.000Z'));
+}
+
+export function services(backend: MockBackend) {
+  return {
+    MenuService: backend.global<MenuServiceApi>('MenuService'),
+    ChatService: backend.global<ChatServiceApi>('ChatService'),
+    ConfigService: backend.global<ConfigServiceApi>('ConfigService'),
+    LoggingService: backend.global<LoggingServiceApi>('LoggingService'),
+    AIService: backend.global<AIServiceApi>('AIService'),
+    MercadoLibreService: backend.global<MercadoLibreServiceApi>('MercadoLibreService'),
+    SessionService: backend.global<SessionServiceApi>('SessionService'),
+    IntentService: backend.global<IntentServiceApi>('IntentService'),
+    I18nService: backend.global<I18nServiceApi>('I18nService'),
+    KnowledgeService: backend.global<KnowledgeServiceApi>('KnowledgeService'),
+    ChannelService: backend.global<ChannelServiceApi>('ChannelService')
+  };
+}
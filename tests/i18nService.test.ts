@@ -0,0 +1,237 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { MockBackend } from '../mock/backend';
+import { geminiResponder } from '../mock/responders';
+import { I18nServiceApi, buenosAires, services, setupBackend, tokenFor } from './helpers';
+
+describe('I18nService', () => {
+  let backend: MockBackend;
+  let I18nService: I18nServiceApi;
+
+  const chat = (params: Record<string, unknown>) => backend.handleChatbotRequest({ sessionId: 's1', ...params });
+  const admin = (params: Record<string, unknown>) => backend.handleChatbotRequest({ token: tokenFor(backend), ...params });
+  const menuSheet = () => backend.env.spreadsheet.getSheetByName('Menu_Config')!;
+
+  beforeEach(() => {
+    backend = setupBackend();
+    ({ I18nService } = services(backend));
+  });
+
+  describe('detection', () => {
+    it('counts the common words of each language', () => {
+      expect(I18nService.detect('Olá, onde está o meu pedido?')).toBe('pt');
+      expect(I18nService.detect('Hi, where is my order?')).toBe('en');
+      expect(I18nService.detect('Hola, ¿dónde está mi pedido?')).toBe('es');
+    });
+
+    it('gives up on ties and on messages without common words', () => {
+      expect(I18nService.detect('2000001234567890')).toBeNull();
+      expect(I18nService.detect('pedido')).toBeNull();
+    });
+
+    it('ignores emails and links', () => {
+      expect(I18nService.detect('ana@example.com')).toBeNull();
+      expect(I18nService.detect('www.tienda.com.ar')).toBeNull();
+    });
+
+    it('only detects enabled languages', () => {
+      backend.env.spreadsheet.getSheetByName('Settings')!.appendRow(['languages', 'es,en', '']);
+      services(backend).ConfigService.clearCache();
+
+      expect(I18nService.detect('Olá, onde está o meu pedido?')).toBeNull();
+    });
+  });
+
+  describe('language of a session', () => {
+    it('answers in the language the customer writes in and remembers it', () => {
+      const reply = chat({ action: 'sendMessage', userInput: 'Olá, onde está o meu pedido 2000001234567890?' });
+
+      expect(reply.message).toContain('**Informações do Pedido**');
+      expect(reply.message).toContain('**Status:** Pago');
+      expect(reply.message).toMatch(/\*\*Total:\*\* \$\s15\.999\n/);
+      expect(reply.message).toContain('**Data:** 10/01/2024');
+      expect(services(backend).SessionService.get('s1')).toMatchObject({ language: 'pt', languageSource: 'detected' });
+
+      expect(chat({ action: 'getMenu' })).toMatchObject({
+        language: 'pt',
+        greeting: 'Olá! Bem-vindo ao nosso atendimento ao cliente. Como posso ajudar?',
+        footer: 'Escreva o número da opção que você precisa ou descreva sua dúvida.'
+      });
+    });
+
+    it('keeps an explicit lang until another one is asked for', () => {
+      const firstTitle = (menu: Record<string, unknown>) => (menu.options as { title: string }[])[0].title;
+
+      expect(firstTitle(chat({ action: 'getMenu', lang: 'en' }))).toBe('My order status');
+      expect(chat({ action: 'sendMessage', userInput: 'hola, quiero ver el menú' })).toMatchObject({ type: 'menu', language: 'en' });
+      expect(firstTitle(chat({ action: 'getMenu', lang: 'es' }))).toBe('Estado de mi pedido');
+    });
+
+    it('ignores languages that are not enabled', () => {
+      expect(chat({ action: 'getMenu', lang: 'fr' })).toMatchObject({ language: 'es', greeting: expect.stringContaining('¡Hola!') });
+    });
+
+    it('uses the default language for dashboard actions', () => {
+      chat({ action: 'getMenu', lang: 'pt' });
+
+      const config = admin({ action: 'getMenuConfig' });
+
+      expect(config).toMatchObject({ default: 'es', languages: [{ code: 'es' }, { code: 'pt' }, { code: 'en' }] });
+      expect((config.items as { title: string }[])[0].title).toBe('Estado de mi pedido');
+    });
+  });
+
+  describe('menu translations', () => {
+    it('translates options, submenus and the back option', () => {
+      chat({ action: 'getMenu', lang: 'pt' });
+
+      expect(chat({ action: 'processSelection', userInput: '2' })).toMatchObject({
+        greeting: 'Informações de produtos',
+        breadcrumb: ['Informações de produtos']
+      });
+      const options = chat({ action: 'processSelection', userInput: '0' }).options as { title: string }[];
+      expect(options.map(option => option.title)).toContain('Política de devolução');
+      expect(chat({ action: 'processSelection', userInput: '3' })).toMatchObject({
+        title: 'Política de devolução',
+        message: expect.stringContaining('Você pode devolver')
+      });
+    });
+
+    it('falls back to the default language for texts without a translation', () => {
+      menuSheet().getRange(7, 16).setValue(''); // English of option 3
+
+      expect(chat({ action: 'processSelection', userInput: '3', lang: 'en' })).toMatchObject({
+        title: 'Política de devoluciones',
+        message: expect.stringContaining('Puedes devolver')
+      });
+    });
+
+    it('saves translations only for the texts the option uses', () => {
+      const config = admin({ action: 'getMenuConfig' });
+      const items = (config.items as Record<string, unknown>[]).map(item =>
+        item.number === 3 ? { ...item, translations: { en: { title: 'Returns', response: 'Within 30 days.', escalationMessage: 'Unused' } } } : item);
+
+      const saved = admin({ action: 'updateMenu', items });
+
+      expect(saved).toMatchObject({ success: true });
+      expect(menuSheet().dump()[0].slice(13)).toEqual(['Traducción (es)', 'Traducción (pt)', 'Traducción (en)']);
+      expect(JSON.parse(String(menuSheet().dump()[6][15]))).toEqual({ title: 'Returns', response: 'Within 30 days.' });
+    });
+
+    it('translates flow questions, errors and the completion message', () => {
+      expect(chat({ action: 'processSelection', userInput: '1', lang: 'en' })).toMatchObject({ title: 'My order status', message: 'Enter your order number' });
+      expect(chat({ action: 'processSelection', userInput: '123' })).toMatchObject({
+        valid: false,
+        message: 'The order number must have at least 12 digits\n\nEnter your order number'
+      });
+      chat({ action: 'processSelection', userInput: '2000001234567890' });
+
+      expect(chat({ action: 'processSelection', userInput: 'cliente@example.com' }).message)
+        .toContain('Thanks, we will let you know at cliente@example.com when order 2000001234567890 changes status.');
+    });
+
+    it('keeps flow translations only for steps the flow has', () => {
+      const items = (admin({ action: 'getMenuConfig' }).items as Record<string, unknown>[]).map(item =>
+        item.number === 1
+          ? { ...item, translations: { pt: { title: 'Meu pedido', steps: { orderId: { prompt: 'Número do pedido', error: ' ' }, phone: { prompt: 'Telefone' } } } } }
+          : item);
+
+      expect(admin({ action: 'updateMenu', items })).toMatchObject({ success: true });
+      expect(JSON.parse(String(menuSheet().dump()[1][14]))).toEqual({ title: 'Meu pedido', steps: { orderId: { prompt: 'Número do pedido' } } });
+    });
+
+    it('rejects translations for unknown languages', () => {
+      const items = (admin({ action: 'getMenuConfig' }).items as Record<string, unknown>[]).map(item =>
+        item.number === 3 ? { ...item, translations: { fr: { title: 'Retours' } } } : item);
+
+      expect(admin({ action: 'updateMenu', items })).toMatchObject({
+        success: false,
+        errors: [{ field: 'translations', message: 'Unknown language "fr"' }]
+      });
+    });
+  });
+
+  describe('settings translations', () => {
+    it('saves and reports the Valor (xx) columns', () => {
+      const report = admin({ action: 'updateSettings', values: {}, translations: { en: { footer_message: 'Pick an option.' } } });
+
+      expect(report).toMatchObject({ success: true, translations: { en: { footer_message: 'Pick an option.' } } });
+      expect(chat({ action: 'getMenu', lang: 'en' })).toMatchObject({ footer: 'Pick an option.' });
+    });
+
+    it('rejects translations of settings that have none', () => {
+      expect(admin({ action: 'updateSettings', values: {}, translations: { pt: { timezone: 'America/Sao_Paulo' } } })).toMatchObject({
+        success: false,
+        errors: [{ field: 'timezone', message: 'This setting has no translations' }]
+      });
+    });
+
+    it('needs default_language among the enabled languages', () => {
+      expect(admin({ action: 'updateSettings', values: { default_language: 'pt', languages: 'es,en' } })).toMatchObject({
+        success: false,
+        errors: [{ field: 'languages', message: 'Must include default_language' }]
+      });
+    });
+  });
+
+  describe('system messages', () => {
+    it('describes the next opening in the customer language', () => {
+      backend.setNow(buenosAires('2024-01-15T20:00:00'));
+
+      expect(chat({ action: 'processSelection', userInput: '4', lang: 'pt' }).message)
+        .toBe('Fora do horário de atendimento. Entraremos em contato amanhã às 09:00.');
+      expect(chat({ action: 'sendMessage', userInput: 'quiero hablar con un agente', sessionId: 's2', lang: 'en' }).message)
+        .toBe('We are currently outside business hours (Mon to Fri 09:00-18:00). Your message will be answered tomorrow at 09:00.');
+    });
+
+    it('throttles in the customer language', () => {
+      chat({ action: 'getMenu', lang: 'en' });
+
+      expect(chat({ action: 'sendMessage', userInput: 'a'.repeat(1001) }))
+        .toMatchObject({ type: 'throttled', message: 'Your message is too long. Keep it under 1000 characters.' });
+    });
+
+    it('throttles without reading the Sessions sheet', () => {
+      const sessions = backend.env.spreadsheet.getSheetByName('Sessions')!;
+      chat({ action: 'getMenu', lang: 'en' });
+      backend.env.cache.remove('SESSION_s1');
+      const reads = vi.spyOn(sessions, 'getRange');
+
+      const replies = ['s1', 'flood-1', 'flood-2'].map(sessionId => chat({ action: 'sendMessage', userInput: 'a'.repeat(1001), sessionId }));
+
+      expect(replies.map(reply => reply.type)).toEqual(['throttled', 'throttled', 'throttled']);
+      expect(reads).not.toHaveBeenCalled();
+    });
+
+    it('sends agent notices in the customer language', () => {
+      chat({ action: 'processSelection', userInput: '4', lang: 'pt' });
+
+      admin({ action: 'claimEscalation', ticketId: 'ESC-0001', agent: 'Laura' });
+      admin({ action: 'resolveEscalation', ticketId: 'ESC-0001', agent: 'Laura' });
+
+      expect((chat({ action: 'getUpdates' }).messages as { text: string }[]).map(message => message.text)).toEqual([
+        'Laura entrou na conversa.',
+        'A conversa com o atendente terminou. Escreva "menu" para ver as opções.'
+      ]);
+    });
+
+    it('stores a new language with the session save the request makes anyway', () => {
+      const { SessionService } = services(backend);
+      chat({ action: 'getMenu' });
+      const save = vi.spyOn(SessionService, 'save');
+
+      chat({ action: 'getMenu', lang: 'pt' });
+
+      expect(save).toHaveBeenCalledTimes(1);
+      expect(SessionService.get('s1')).toMatchObject({ language: 'pt', languageSource: 'param' });
+    });
+
+    it('tells the AI to reply in the customer language', () => {
+      backend.env.responders.unshift(geminiResponder(() => 'Claro!'));
+
+      chat({ action: 'sendMessage', userInput: 'Vocês têm frete grátis para o meu estado?' });
+
+      const request = backend.env.requests.find(item => item.url.includes('generativelanguage'))!;
+      expect(JSON.parse(request.payload).systemInstruction.parts[0].text).toContain('Português (pt)');
+    });
+  });
+});
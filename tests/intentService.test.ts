@@ -0,0 +1,177 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { MockBackend } from '../mock/backend';
+import { failingResponder, geminiResponder } from '../mock/responders';
+import { ConfigServiceApi, IntentServiceApi, services, setupBackend, tokenFor } from './helpers';
+
+describe('IntentService', () => {
+  let backend: MockBackend;
+  let IntentService: IntentServiceApi;
+  let ConfigService: ConfigServiceApi;
+
+  const intentsSheet = () => backend.env.spreadsheet.getSheetByName('Intents')!;
+  const addRule = (row: (string | number | boolean)[]) => {
+    IntentService.classify('');
+    intentsSheet().appendRow(row);
+    IntentService.clearCache();
+  };
+  const aiRequests = () => backend.env.requests.filter(request => request.url.includes('generativelanguage'));
+
+  beforeEach(() => {
+    backend = setupBackend();
+    ({ IntentService, ConfigService } = services(backend));
+  });
+
+  describe('rules', () => {
+    it('scores keyword, pattern and entity matches together', () => {
+      const result = IntentService.classify('Quiero hablar con un agente');
+
+      expect(result).toMatchObject({ intent: 'escalation', source: 'rules', score: 0.96 });
+      expect(result.candidates[0].matches).toEqual([
+        { type: 'keyword', value: 'agente' },
+        { type: 'pattern', value: expect.stringContaining('hablar') }
+      ]);
+    });
+
+    it('ignores accents and case, and matches whole words only', () => {
+      expect(IntentService.classify('ENVIO demorado').intent).toBe('order_inquiry');
+      expect(IntentService.classify('busco un ordenador').intent).toBe('general_ai');
+    });
+
+    it('prefers the higher priority when scores tie', () => {
+      addRule(['product_inquiry', 'envío', '', '', 99, true, '']);
+
+      expect(IntentService.classify('¿el envío es gratis?').intent).toBe('product_inquiry');
+    });
+
+    it('reads new rules and skips inactive ones', () => {
+      addRule(['escalation', 'reclamo', '', '', 50, true, '']);
+      expect(IntentService.classify('tengo un reclamo').intent).toBe('escalation');
+
+      addRule(['escalation', 'queja', '', '', 50, false, '']);
+      expect(IntentService.classify('tengo una queja').intent).toBe('general_ai');
+    });
+
+    it('needs intent_min_score to route a message', () => {
+      ConfigService.set('intent_min_score', 70);
+
+      expect(IntentService.classify('¿dónde está mi pedido?')).toMatchObject({
+        intent: 'general_ai',
+        source: 'default',
+        candidates: [{ intent: 'order_inquiry', score: 0.6 }]
+      });
+      expect(IntentService.classify('pedido 2000001234567890').intent).toBe('order_inquiry');
+    });
+  });
+
+  describe('entities', () => {
+    it('extracts order IDs, item IDs, emails and buyers', () => {
+      expect(IntentService.extractEntities('pedido 2000001234567890 del comprador: JUAN_P, avisen a ana@example.com. ¿MLM123456?')).toEqual({
+        order_id: '2000001234567890',
+        item_id: 'MLM123456',
+        email: 'ana@example.com',
+        buyer: { nickname: 'JUAN_P' }
+      });
+    });
+
+    it('only includes the entities found', () => {
+      expect(IntentService.extractEntities('hola')).toEqual({});
+    });
+  });
+
+  describe('AI step', () => {
+    const classifierReply = (text: string) => geminiResponder(() => text);
+
+    it('is off by default', () => {
+      IntentService.classify('¿hacen factura A?');
+
+      expect(aiRequests()).toHaveLength(0);
+    });
+
+    it('classifies messages no rule is sure about', () => {
+      ConfigService.set('intent_ai_mode', 'fallback');
+      backend.env.responders.unshift(classifierReply('{"intent": "order_inquiry", "confidence": 0.85}'));
+
+      const result = IntentService.classify('¿ya despacharon lo que compré ayer?');
+
+      expect(result).toMatchObject({ intent: 'order_inquiry', source: 'ai', score: 0.85, ai: { provider: 'gemini' } });
+      const body = JSON.parse(aiRequests()[0].payload);
+      expect(body.systemInstruction.parts[0].text).toContain('- order_inquiry: Pregunta por un pedido');
+    });
+
+    it('is not asked when a rule already decided', () => {
+      ConfigService.set('intent_ai_mode', 'fallback');
+
+      IntentService.classify('quiero hablar con un agente');
+
+      expect(aiRequests()).toHaveLength(0);
+    });
+
+    it('needs intent_ai_min_confidence', () => {
+      ConfigService.set('intent_ai_mode', 'fallback');
+      backend.env.responders.unshift(classifierReply('Creo que es {"intent": "escalation", "confidence": 0.6}'));
+
+      expect(IntentService.classify('esto es un desastre')).toMatchObject({
+        intent: 'general_ai',
+        source: 'default',
+        ai: { intent: 'escalation', confidence: 0.6 }
+      });
+    });
+
+    it('ignores unknown intents, unreadable answers and failed providers', () => {
+      ConfigService.set('intent_ai_mode', 'fallback');
+
+      backend.env.responders.unshift(classifierReply('{"intent": "refund", "confidence": 0.9}'));
+      expect(IntentService.classify('quiero mi plata').ai).toBeNull();
+
+      backend.env.responders.unshift(classifierReply('no sé'));
+      expect(IntentService.classify('quiero mi plata').ai).toBeNull();
+
+      backend.env.responders.unshift(failingResponder('generativelanguage'), failingResponder('anthropic'));
+      expect(IntentService.classify('quiero mi plata')).toMatchObject({ intent: 'general_ai', ai: null });
+    });
+  });
+
+  describe('dashboard actions', () => {
+    it('lists the rules with their problems', () => {
+      addRule(['refund', 'reembolso', '(sin cerrar', 'phone', 1, true, '']);
+
+      const report = backend.handleChatbotRequest({ action: 'getIntents', token: tokenFor(backend, 'viewer') }) as {
+        intents: { intent: string; active: boolean; errors: string[] }[];
+        settings: Record<string, unknown>;
+      };
+
+      expect(report.intents.map(rule => rule.intent)).toEqual(['escalation', 'menu_request', 'order_inquiry', 'product_inquiry', 'refund']);
+      expect(report.intents[4]).toMatchObject({
+        active: false,
+        errors: ['Invalid pattern: (sin cerrar', 'Unknown entity: phone', 'Unknown intent: refund']
+      });
+      expect(report.settings).toEqual({ minScore: 0.5, aiMode: 'off', aiMinConfidence: 0.7 });
+    });
+
+    it('tries a message without answering it', () => {
+      const result = backend.handleChatbotRequest({
+        action: 'testIntent',
+        token: tokenFor(backend, 'agent'),
+        message: '¿Tienen stock de MLA123456789?'
+      });
+
+      expect(result).toMatchObject({
+        success: true,
+        intent: 'product_inquiry',
+        score: 0.95,
+        entities: { item_id: 'MLA123456789' }
+      });
+      expect(backend.env.spreadsheet.getSheetByName('Chat_Logs')!.dump()).toHaveLength(1);
+    });
+
+    it('needs an agent token to try messages', () => {
+      expect(backend.handleChatbotRequest({ action: 'testIntent', token: tokenFor(backend, 'viewer'), message: 'hola' }))
+        .toMatchObject({ success: false, code: 'forbidden' });
+    });
+
+    it('rejects an empty message', () => {
+      expect(backend.handleChatbotRequest({ action: 'testIntent', token: tokenFor(backend, 'agent'), message: ' ' }))
+        .toMatchObject({ success: false, code: 'validation' });
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { MockBackend } from '../mock/backend';
+import { geminiResponder } from '../mock/responders';
+import { ConfigServiceApi, KnowledgeServiceApi, services, setupBackend, tokenFor } from './helpers';
+
+describe('KnowledgeService', () => {
+  let backend: MockBackend;
+  let KnowledgeService: KnowledgeServiceApi;
+  let ConfigService: ConfigServiceApi;
+
+  const chat = (userInput: string, sessionId = 's1') => backend.handleChatbotRequest({ action: 'sendMessage', sessionId, userInput });
+  const knowledgeSheet = () => backend.env.spreadsheet.getSheetByName('Knowledge_Base')!;
+  const systemPrompt = () => {
+    const request = backend.env.requests.filter(item => item.url.includes('generativelanguage')).pop()!;
+    return JSON.parse(request.payload).systemInstruction.parts[0].text as string;
+  };
+
+  beforeEach(() => {
+    backend = setupBackend();
+    ({ KnowledgeService, ConfigService } = services(backend));
+  });
+
+  describe('retrieval', () => {
+    it('folds accents, stopwords, plurals and gender endings into terms', () => {
+      expect(KnowledgeService.tokenize('¿Cuánto tardan los envíos?')).toEqual(['tardan', 'envi']);
+      expect(KnowledgeService.tokenize('envío')).toEqual(KnowledgeService.tokenize('Envios'));
+      expect(KnowledgeService.tokenize('pago pagos')).toEqual(['pag', 'pag']);
+    });
+
+    it('ranks the entry that covers the question first', () => {
+      const knowledge = KnowledgeService.retrieve('¿Cuánto tarda en llegar el envío a Córdoba?')!;
+
+      expect(knowledge.terms).toEqual(['tard', 'llegar', 'envi', 'cordob']);
+      expect(knowledge.results.map(result => result.id)).toEqual(['KB-002', 'KB-005']);
+      expect(knowledge.sources).toEqual([expect.objectContaining({ number: 1, id: 'KB-002', confidence: 1, matches: ['tard', 'llegar', 'envi'] })]);
+      expect(knowledge.confident).toBe(true);
+    });
+
+    it('is not confident about questions no entry covers', () => {
+      expect(KnowledgeService.retrieve('¿Hacen factura A?')).toMatchObject({ results: [], sources: [], confident: false });
+    });
+
+    it('needs knowledge_min_confidence for an entry to be a source', () => {
+      ConfigService.set('knowledge_min_confidence', 30);
+      expect(KnowledgeService.retrieve('¿Puedo devolver un producto?')!.sources.map(source => source.id)).toEqual(['KB-001']);
+
+      ConfigService.set('knowledge_min_confidence', 25);
+      expect(KnowledgeService.retrieve('¿Puedo devolver un producto?')!.sources.map(source => source.id)).toEqual(['KB-001', 'KB-003', 'KB-005']);
+    });
+
+    it('skips inactive entries and turns itself off without any', () => {
+      knowledgeSheet().getRange(2, 6).setValue(false);
+      KnowledgeService.clearCache();
+      expect(KnowledgeService.search('devoluciones')).toEqual([]);
+
+      [3, 4, 5, 6].forEach(row => knowledgeSheet().getRange(row, 6).setValue(false));
+      KnowledgeService.clearCache();
+      expect(KnowledgeService.retrieve('devoluciones')).toBeNull();
+    });
+  });
+
+  describe('grounded answers', () => {
+    it('sends the sources to the AI and lists the ones it cited', () => {
+      backend.env.responders.unshift(geminiResponder(() => 'Llega en 2 a 5 días hábiles [1].'));
+
+      const reply = chat('¿Cuánto tarda en llegar el envío?');
+
+      expect(systemPrompt()).toContain('[1] ¿Cuánto tarda en llegar el envío?\n    Despachamos dentro de las 24 horas');
+      expect(reply).toMatchObject({
+        type: 'ai',
+        message: 'Llega en 2 a 5 días hábiles [1].\n\nFuentes: [1] ¿Cuánto tarda en llegar el envío?',
+        sources: [{ number: 1, id: 'KB-002', title: '¿Cuánto tarda en llegar el envío?' }]
+      });
+    });
+
+    it('tells the AI not to invent policies when nothing matches', () => {
+      backend.env.responders.unshift(geminiResponder(() => '¡Hola! ¿En qué te ayudo?'));
+
+      expect(chat('¿Hacen factura A?')).toMatchObject({ type: 'ai', sources: [] });
+      expect(systemPrompt()).toContain('no hay artículos sobre esta consulta. No inventes políticas');
+    });
+
+    it('asks for the answer in the session language while keeping the no-answer marker', () => {
+      backend.env.responders.unshift(geminiResponder(() => 'Chega em 2 a 5 dias úteis [1].'));
+
+      backend.handleChatbotRequest({ action: 'sendMessage', sessionId: 's1', userInput: '¿Cuánto tarda en llegar el envío?', lang: 'pt' });
+
+      expect(systemPrompt()).toContain('cita el número del que sale cada dato, por ejemplo [1]. Si no alcanzan para responder, responde solo SIN_RESPUESTA.\n' +
+        '    Responde en Português (pt) aunque los artículos estén en otro idioma, pero escribe SIN_RESPUESTA tal cual, sin traducir.');
+    });
+
+    it('offers an agent when the AI has no answer, and escalates on "sí"', () => {
+      backend.env.responders.unshift(geminiResponder(() => 'SIN_RESPUESTA'));
+
+      expect(chat('¿Hacen factura A?')).toMatchObject({
+        type: 'no_answer',
+        message: expect.stringContaining('¿Quieres que te comunique con un agente?')
+      });
+
+      const escalation = chat('Sí, por favor');
+      expect(escalation).toMatchObject({ type: 'escalation', ticketId: expect.any(String) });
+      expect(backend.env.spreadsheet.getSheetByName('Escalations')!.dump()[1]).toContain('¿Hacen factura A?');
+    });
+
+    it('forgets the offer after any other message', () => {
+      backend.env.responders.unshift(geminiResponder(prompt => (prompt.includes('factura') ? 'SIN_RESPUESTA' : 'Claro.')));
+
+      chat('¿Hacen factura A?');
+      chat('¿y hacen envíos?');
+
+      expect(chat('sí')).toMatchObject({ type: 'ai' });
+    });
+
+    it('offers an agent from AI menu options too', () => {
+      backend.env.responders.unshift(geminiResponder(() => 'SIN_RESPUESTA'));
+
+      expect(backend.handleChatbotRequest({ action: 'processSelection', sessionId: 's1', userInput: '2.3' }))
+        .toMatchObject({ type: 'no_answer', title: 'Otra consulta' });
+      expect(chat('dale')).toMatchObject({ type: 'escalation' });
+    });
+  });
+
+  describe('dashboard actions', () => {
+    const admin = (params: Record<string, unknown>) => backend.handleChatbotRequest({ token: tokenFor(backend), ...params });
+
+    it('lists the entries with their problems', () => {
+      knowledgeSheet().appendRow(['KB-001', 'rumor', 'Repetido', '', '', true]);
+
+      const report = backend.handleChatbotRequest({ action: 'getKnowledgeBase', token: tokenFor(backend, 'viewer') }) as {
+        entries: { id: string; tags: string[]; errors: string[] }[];
+        settings: Record<string, unknown>;
+      };
+
+      expect(report.entries).toHaveLength(6);
+      expect(report.entries[0]).toMatchObject({ id: 'KB-001', tags: ['devolución', 'devolver', 'reembolso', 'arrepentimiento'], errors: [] });
+      expect(report.entries[5].errors).toEqual(['ID KB-001 is also used in row 2', 'Unknown type: rumor', 'Missing content']);
+      expect(report.settings).toEqual({ maxResults: 3, minConfidence: 0.5 });
+    });
+
+    it('saves entries and numbers the new ones', () => {
+      const entries = [
+        { id: 'KB-004', type: 'faq', title: 'Medios de pago', content: 'Mercado Pago.', tags: ['pago'], active: true },
+        { id: '', type: 'policy', title: 'Factura', content: 'Emitimos factura A y B.', tags: ['factura'], active: true }
+      ];
+
+      expect(admin({ action: 'updateKnowledgeBase', entries })).toMatchObject({ success: true, entries: [{ id: 'KB-004' }, { id: 'KB-005' }] });
+      expect(knowledgeSheet().dump()[2]).toEqual(['KB-005', 'policy', 'Factura', 'Emitimos factura A y B.', 'factura', true]);
+      expect(KnowledgeService.retrieve('¿Hacen factura A?')!.sources.map(source => source.id)).toEqual(['KB-005']);
+    });
+
+    it('rejects invalid entries', () => {
+      const entries = [
+        { id: 'KB 1', type: 'faq', title: '', content: 'x' },
+        { id: 'KB-2', type: 'news', title: 'Hola', content: '' },
+        { id: 'KB-2', type: 'faq', title: 'Hola', content: 'x' }
+      ];
+
+      expect(admin({ action: 'updateKnowledgeBase', entries })).toMatchObject({
+        success: false,
+        code: 'validation',
+        errors: [
+          { index: 0, field: 'id', message: 'ID may only use letters, numbers, - and _' },
+          { index: 0, field: 'title', message: 'Title is required' },
+          { index: 1, field: 'type', message: 'Unknown type "news"' },
+          { index: 1, field: 'content', message: 'Content is required' },
+          { index: 2, field: 'id', message: 'ID KB-2 is also used by entry 2' }
+        ]
+      });
+    });
+
+    it('tests a question with the retrieved entries and the grounded answer', () => {
+      backend.env.responders.unshift(geminiResponder(() => 'Tienes 6 meses de garantía [1].'));
+
+      const result = backend.handleChatbotRequest({ action: 'testKnowledge', token: tokenFor(backend, 'agent'), question: '¿Tienen garantía?' });
+
+      expect(result).toMatchObject({
+        success: true,
+        terms: ['garanti'],
+        confident: true,
+        results: [{ id: 'KB-003', confidence: 1 }],
+        answer: { type: 'ai', provider: 'gemini', sources: [{ number: 1, id: 'KB-003' }] }
+      });
+      expect(services(backend).SessionService.get('knowledge_test')).toEqual({});
+    });
+
+    it('needs an agent token to test and an admin token to save', () => {
+      expect(backend.handleChatbotRequest({ action: 'testKnowledge', token: tokenFor(backend, 'viewer'), question: 'hola' }))
+        .toMatchObject({ success: false, code: 'forbidden' });
+      expect(backend.handleChatbotRequest({ action: 'updateKnowledgeBase', token: tokenFor(backend, 'agent'), entries: [] }))
+        .toMatchObject({ success: false, code: 'forbidden' });
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { LoggingServiceApi, services, setupBackend } from './helpers';
+
+describe('LoggingService.sanitizeMessage', () => {
+  let LoggingService: LoggingServiceApi;
+
+  beforeEach(() => {
+    ({ LoggingService } = services(setupBackend()));
+  });
+
+  it.each([
+    ['mi tarjeta es 4111 1111 1111 1111', 'mi tarjeta es [CARD_NUMBER]'],
+    ['tarjeta 4111-1111-1111-1111.', 'tarjeta [CARD_NUMBER].'],
+    ['escribime a cliente.final+ml@example.com.ar', 'escribime a [EMAIL]'],
+    ['llamame al 011-555-1234', 'llamame al [PHONE]'],
+    ['tel 011.555.1234 o 0115551234', 'tel [PHONE] o [PHONE]']
+  ])('masks %j', (message, expected) => {
+    expect(LoggingService.sanitizeMessage(message)).toBe(expected);
+  });
+
+  it('truncates to 500 characters', () => {
+    expect(LoggingService.sanitizeMessage('a'.repeat(800))).toHaveLength(500);
+  });
+
+  it('stringifies non-string input', () => {
+    expect(LoggingService.sanitizeMessage(3)).toBe('3');
+    expect(LoggingService.sanitizeMessage(null)).toBe('');
+    expect(LoggingService.sanitizeMessage(undefined)).toBe('');
+  });
+});
+
+describe('LoggingService.sanitizeMetadata', () => {
+  it('redacts credentials by name', () => {
+    const { LoggingService } = services(setupBackend());
+
+    expect(LoggingService.sanitizeMetadata({ key: 'clave', adminKey: 'x', token: 'y', keyword: 'envíos', sessionId: 's1' }))
+      .toEqual({ key: '[REDACTED]', adminKey: '[REDACTED]', token: '[REDACTED]', keyword: 'envíos', sessionId: 's1' });
+  });
+
+  it('keeps the access key out of the logs of a failed login', () => {
+    const backend = setupBackend();
+    vi.spyOn(backend.global<Record<string, () => unknown>>('AuthService'), 'login').mockImplementation(() => {
+      throw new Error('Service Spreadsheets timed out');
+    });
+
+    expect(backend.handleChatbotRequest({ action: 'login', user: 'admin', key: 'clave-secreta-123' })).toMatchObject({ success: false });
+
+    const logs = JSON.stringify(backend.env.spreadsheet.getSheetByName('Chat_Logs')!.dump());
+    expect(logs).toContain('Service Spreadsheets timed out');
+    expect(logs).not.toContain('clave-secreta-123');
+  });
+});
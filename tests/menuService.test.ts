@@ -0,0 +1,251 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { MockBackend } from '../mock/backend';
+import { failingResponder, geminiResponder } from '../mock/responders';
+import { BusinessHours, MenuServiceApi, buenosAires, services, setupBackend } from './helpers';
+
+describe('MenuService.processSelection', () => {
+  let backend: MockBackend;
+  let MenuService: MenuServiceApi;
+
+  const select = (input: string, sessionId = 's1') => MenuService.processSelection(input, sessionId);
+
+  beforeEach(() => {
+    backend = setupBackend();
+    ({ MenuService } = services(backend));
+  });
+
+  it('rejects numbers that are not in the menu', () => {
+    expect(select('9')).toMatchObject({ success: false, showMenu: true });
+    expect(select('abc')).toMatchObject({ success: false });
+  });
+
+  it('ignores surrounding whitespace', () => {
+    expect(select(' 3 ')).toMatchObject({ success: true, type: 'static' });
+  });
+
+  it('skips inactive options', () => {
+    backend.env.spreadsheet.getSheetByName('Menu_Config')!.getRange(7, 11).setValue(false); // option 3
+
+    expect(select('3')).toMatchObject({ success: false });
+  });
+
+  it('answers static options from the sheet', () => {
+    expect(select('3')).toMatchObject({
+      success: true,
+      type: 'static',
+      title: 'Política de devoluciones',
+      showMenu: true
+    });
+  });
+
+  it('treats 0 as a regular option at the top level', () => {
+    expect(select('0')).toMatchObject({ type: 'static', title: 'Salir', showMenu: false });
+  });
+
+  it('answers AI options with the configured provider', () => {
+    backend.env.responders.unshift(geminiResponder(() => 'Tenemos talles del 35 al 45.'));
+    select('2');
+
+    expect(select('3')).toMatchObject({ type: 'ai', message: 'Tenemos talles del 35 al 45.', provider: 'gemini' });
+  });
+
+  it('uses the fallback response when every AI provider fails', () => {
+    backend.env.responders.unshift(failingResponder('generativelanguage.googleapis.com'), failingResponder('api.anthropic.com'));
+    select('2');
+
+    expect(select('3')).toMatchObject({ type: 'static', message: 'Consulta nuestro catálogo en línea' });
+  });
+
+  it('escalates during business hours', () => {
+    expect(select('4')).toMatchObject({
+      type: 'escalation',
+      businessHours: true,
+      message: 'Te conectamos con un agente humano'
+    });
+  });
+
+  it('escalates with the after-hours message outside business hours', () => {
+    backend.setNow(buenosAires('2024-01-15T22:00:00'));
+
+    expect(select('4')).toMatchObject({
+      type: 'escalation',
+      businessHours: false,
+      message: 'Fuera del horario de atención. Te contactaremos mañana a las 09:00.'
+    });
+  });
+
+  it('rejects options with an unknown response type', () => {
+    backend.env.spreadsheet.getSheetByName('Menu_Config')!.getRange(7, 3).setValue('escalation');
+
+    expect(select('3')).toMatchObject({ success: false, message: 'Configuración inválida para esta opción.' });
+  });
+
+  describe('submenus', () => {
+    it('opens a submenu with a back option', () => {
+      const response = select('2');
+
+      expect(response).toMatchObject({ type: 'menu', path: '2', breadcrumb: ['Información de productos'] });
+      expect((response.options as { number: unknown; title: string }[]).map(option => [option.number, option.title])).toEqual([
+        ['2.1', 'Talles'],
+        ['2.2', 'Colores'],
+        ['2.3', 'Otra consulta'],
+        [0, 'Volver']
+      ]);
+    });
+
+    it('resolves selections relative to the current submenu', () => {
+      select('2');
+
+      expect(select('1')).toMatchObject({ type: 'static', title: 'Talles' });
+      expect(select('2.2')).toMatchObject({ type: 'static', title: 'Colores' });
+    });
+
+    it('goes back one level with 0', () => {
+      select('2');
+
+      expect(select('0')).toMatchObject({ type: 'menu', path: '' });
+      expect(select('1')).toMatchObject({ type: 'flow' });
+    });
+
+    it('keeps the submenu per session', () => {
+      select('2', 'a');
+
+      expect(select('1', 'b')).toMatchObject({ type: 'flow' });
+      expect(select('1', 'a')).toMatchObject({ title: 'Talles' });
+    });
+  });
+
+  describe('flows', () => {
+    it('walks through each step and looks up the order', () => {
+      expect(select('1')).toMatchObject({ type: 'flow', step: 1, totalSteps: 2, completed: false });
+      expect(select('2000001234567890')).toMatchObject({ type: 'flow', step: 2, valid: true });
+
+      const done = select('cliente@example.com');
+
+      expect(done).toMatchObject({ type: 'order_info', data: { id: 2000001234567890 } });
+      expect(done.message).toContain('te avisaremos a cliente@example.com');
+    });
+
+    it('repeats a step when the answer is invalid', () => {
+      select('1');
+
+      expect(select('123')).toMatchObject({ type: 'flow', step: 1, valid: false });
+    });
+
+    it('takes order numbers by the same rule as chat messages', () => {
+      select('1');
+
+      expect(select('20000012345')).toMatchObject({ step: 1, valid: false });
+      expect(select('200000123456')).toMatchObject({ step: 2, valid: true });
+    });
+
+    it('can be cancelled', () => {
+      select('1');
+
+      expect(select('cancelar')).toMatchObject({ type: 'menu', path: '' });
+      expect(services(backend).ChatService.getSessionContext('s1').activeFlow).toBeNull();
+    });
+
+    it('offers 0 to leave steps that cannot take 0 as an answer', () => {
+      expect(select('1')).toMatchObject({ options: [{ number: 0, title: 'Volver', responseType: 'back' }] });
+
+      expect(select('0')).toMatchObject({ type: 'menu', path: '' });
+      expect(services(backend).ChatService.getSessionContext('s1').activeFlow).toBeNull();
+    });
+
+    it('takes 0 as the answer to a numeric step', () => {
+      const flow = { steps: [{ field: 'units', prompt: '¿Cuántas unidades?', validate: 'number' }], onComplete: 'message', completionMessage: 'Unidades: {units}' };
+      backend.env.spreadsheet.getSheetByName('Menu_Config')!.getRange(2, 13).setValue(JSON.stringify(flow));
+
+      expect(select('1')).toMatchObject({ type: 'flow', message: '¿Cuántas unidades?', options: [] });
+      expect(select('0')).toMatchObject({ type: 'flow', completed: true, message: 'Unidades: 0' });
+    });
+
+    it('only shows the order when the email is its buyer\'s', () => {
+      select('1');
+      select('2000001234567890');
+
+      const reply = select('otra@example.com');
+
+      expect(reply).toMatchObject({ success: false, type: 'flow', completed: true });
+      expect(reply.message).toContain('No encontramos el pedido 2000001234567890');
+      expect(reply).not.toHaveProperty('data');
+    });
+
+    it('matches the buyer email regardless of case', () => {
+      select('1');
+      select('2000001234567890');
+
+      expect(select('Cliente@Example.com')).toMatchObject({ type: 'order_info', data: { id: 2000001234567890 } });
+    });
+
+    it('reports orders that do not exist', () => {
+      select('1');
+      select('2000000000000000');
+
+      expect(select('cliente@example.com')).toMatchObject({ success: false, type: 'flow', completed: true });
+    });
+  });
+});
+
+describe('MenuService.isWithinBusinessHours', () => {
+  let MenuService: MenuServiceApi;
+
+  const weekdays: BusinessHours = {
+    schedule: {
+      0: { open: false, start: '09:00', end: '18:00' },
+      1: { open: true, start: '09:00', end: '18:00' },
+      2: { open: true, start: '09:00', end: '18:00' },
+      3: { open: true, start: '09:00', end: '18:00' },
+      4: { open: true, start: '09:00', end: '18:00' },
+      5: { open: true, start: '09:00', end: '18:00' },
+      6: { open: false, start: '09:00', end: '18:00' }
+    },
+    display: '09:00 - 18:00, Mon-Fri',
+    timezone: 'America/Argentina/Buenos_Aires'
+  };
+
+  const openAt = (local: string, hours = weekdays) => MenuService.isWithinBusinessHours(new Date(buenosAires(local)), hours);
+
+  beforeEach(() => {
+    ({ MenuService } = services(setupBackend()));
+  });
+
+  it('opens on the opening minute', () => {
+    expect(openAt('2024-01-15T08:59:59')).toBe(false);
+    expect(openAt('2024-01-15T09:00:00')).toBe(true);
+  });
+
+  it('closes on the closing minute', () => {
+    expect(openAt('2024-01-15T17:59:59')).toBe(true);
+    expect(openAt('2024-01-15T18:00:00')).toBe(false);
+    expect(openAt('2024-01-15T18:00:30')).toBe(false);
+  });
+
+  it('is closed all day on closed days', () => {
+    expect(openAt('2024-01-13T12:00:00')).toBe(false); // Saturday
+    expect(openAt('2024-01-14T12:00:00')).toBe(false); // Sunday
+  });
+
+  it('is closed on days missing from the schedule', () => {
+    const withoutFriday = { ...weekdays.schedule };
+    delete withoutFriday[5];
+
+    expect(openAt('2024-01-19T12:00:00', { ...weekdays, schedule: withoutFriday })).toBe(false);
+  });
+
+  it('evaluates the instant in the script timezone', () => {
+    // 20:30 UTC on a Monday is 17:30 in Buenos Aires
+    expect(MenuService.isWithinBusinessHours(new Date('2024-01-15T20:30:00Z'), weekdays)).toBe(true);
+    // 01:00 UTC on Saturday is still Friday 22:00 in Buenos Aires
+    expect(MenuService.isWithinBusinessHours(new Date('2024-01-20T01:00:00Z'), weekdays)).toBe(false);
+    // 13:00 UTC on Saturday is Saturday 10:00 in Buenos Aires
+    expect(MenuService.isWithinBusinessHours(new Date('2024-01-20T13:00:00Z'), weekdays)).toBe(false);
+  });
+
+  it('treats a broken schedule as closed', () => {
+    const broken = { ...weekdays, schedule: { ...weekdays.schedule, 1: { open: true } } };
+
+    expect(openAt('2024-01-15T10:00:00', broken)).toBe(false);
+  });
+});
@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { MockBackend } from '../mock/backend';
+import type { FetchResponder } from '../mock/appsScript';
+import { MONDAY_MORNING, MercadoLibreServiceApi, services, setupBackend } from './helpers';
+
+describe('MercadoLibreService.getValidAccessToken', () => {
+  let backend: MockBackend;
+  let MercadoLibreService: MercadoLibreServiceApi;
+
+  const property = (key: string) => backend.env.properties.getProperty(key);
+  const tokenRequests = () => backend.env.requests.filter(request => request.url.endsWith('/oauth/token'));
+
+  const refreshReply = (body: unknown, status = 200): FetchResponder => request =>
+    request.url === 'https://api.mercadolibre.com/oauth/token' ? { status, body } : undefined;
+
+  beforeEach(() => {
+    backend = setupBackend();
+    ({ MercadoLibreService } = services(backend));
+  });
+
+  it('reuses a token that is still valid', () => {
+    expect(MercadoLibreService.getValidAccessToken()).toBe('APP_USR-mock-token');
+    expect(tokenRequests()).toHaveLength(0);
+  });
+
+  it('refreshes an expired token and stores the new one', () => {
+    backend.env.properties.setProperty('ML_ACCESS_TOKEN_FECHA_EXPIRA', '2024-01-15T12:00:00.000Z');
+    backend.env.responders.unshift(refreshReply({ access_token: 'APP_USR-new', expires_in: 21600, refresh_token: 'TG-new' }));
+
+    expect(MercadoLibreService.getValidAccessToken()).toBe('APP_USR-new');
+
+    expect(property('ML_ACCESS_TOKEN')).toBe('APP_USR-new');
+    expect(property('ML_REFRESH_TOKEN')).toBe('TG-new');
+    expect(property('ML_ACCESS_TOKEN_FECHA_EXPIRA')).toBe(new Date(Date.parse(MONDAY_MORNING) + 21600 * 1000).toISOString());
+  });
+
+  it('sends the stored credentials as a form post', () => {
+    backend.env.properties.setProperty('ML_ACCESS_TOKEN_FECHA_EXPIRA', '2024-01-15T12:00:00.000Z');
+
+    MercadoLibreService.getValidAccessToken();
+
+    const [request] = tokenRequests();
+    expect(request.method).toBe('POST');
+    expect(request.headers['Content-Type']).toBe('application/x-www-form-urlencoded');
+    expect(Object.fromEntries(new URLSearchParams(request.payload))).toEqual({
+      grant_type: 'refresh_token',
+      client_id: 'mock-client-id',
+      client_secret: 'mock-client-secret',
+      refresh_token: 'TG-mock-refresh'
+    });
+  });
+
+  it('refreshes tokens within five minutes of expiring', () => {
+    backend.env.properties.setProperty('ML_ACCESS_TOKEN_FECHA_EXPIRA', new Date(Date.parse(MONDAY_MORNING) + 4 * 60 * 1000).toISOString());
+
+    MercadoLibreService.getValidAccessToken();
+
+    expect(tokenRequests()).toHaveLength(1);
+  });
+
+  it('refreshes when the expiry date is missing', () => {
+    backend.env.properties.setProperty('ML_ACCESS_TOKEN_FECHA_EXPIRA', '');
+
+    MercadoLibreService.getValidAccessToken();
+
+    expect(tokenRequests()).toHaveLength(1);
+  });
+
+  it('keeps the refresh token when the response has none', () => {
+    backend.env.properties.setProperty('ML_ACCESS_TOKEN_FECHA_EXPIRA', '2024-01-15T12:00:00.000Z');
+    backend.env.responders.unshift(refreshReply({ access_token: 'APP_USR-new', expires_in: 21600 }));
+
+    MercadoLibreService.getValidAccessToken();
+
+    expect(property('ML_REFRESH_TOKEN')).toBe('TG-mock-refresh');
+  });
+
+  it('returns null and keeps the old token when the refresh is rejected', () => {
+    backend.env.properties.setProperty('ML_ACCESS_TOKEN_FECHA_EXPIRA', '2024-01-15T12:00:00.000Z');
+    backend.env.responders.unshift(refreshReply({ error: 'invalid_grant', error_description: 'Invalid refresh token' }, 400));
+
+    expect(MercadoLibreService.getValidAccessToken()).toBeNull();
+    expect(property('ML_ACCESS_TOKEN')).toBe('APP_USR-mock-token');
+  });
+
+  it('returns null without calling the API when credentials are missing', () => {
+    backend.env.properties.setProperty('ML_ACCESS_TOKEN_FECHA_EXPIRA', '2024-01-15T12:00:00.000Z');
+    backend.env.properties.deleteProperty('ML_CLIENT_SECRET');
+
+    expect(MercadoLibreService.getValidAccessToken()).toBeNull();
+    expect(tokenRequests()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,112 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { MockBackend } from '../mock/backend';
+import { ConfigServiceApi, MONDAY_MORNING, services, setupBackend, tokenFor } from './helpers';
+
+type Reply = { success: boolean; type: string; reason?: string; retryAfter?: number | null; message?: string };
+
+describe('rate limits on the chat actions', () => {
+  let backend: MockBackend;
+  let ConfigService: ConfigServiceApi;
+
+  const send = (userInput: string, sessionId = 's1') =>
+    backend.handleChatbotRequest({ action: 'sendMessage', userInput, sessionId }) as Reply;
+  const menu = (sessionId = 's1') => backend.handleChatbotRequest({ action: 'getMenu', sessionId }) as Reply;
+  const secondsLater = (seconds: number) => backend.setNow(new Date(Date.parse(MONDAY_MORNING) + seconds * 1000));
+  const throttledLogs = () => backend.env.spreadsheet.getSheetByName('Chat_Logs')!.dump().filter(row => row[2] === 'throttled');
+
+  beforeEach(() => {
+    backend = setupBackend();
+    ({ ConfigService } = services(backend));
+  });
+
+  it('lets a session burst, then refills at session_rate_limit', () => {
+    ConfigService.set('session_rate_burst', 3);
+    ConfigService.set('session_rate_limit', 6); // one every 10 seconds
+
+    const replies = Array.from({ length: 4 }, () => menu());
+
+    expect(replies.map(reply => reply.type)).toEqual(['menu', 'menu', 'menu', 'throttled']);
+    expect(replies[3]).toMatchObject({ success: true, reason: 'session', retryAfter: 10 });
+    expect(menu('s2').type).toBe('menu');
+
+    secondsLater(10);
+    expect(menu().type).toBe('menu');
+    expect(menu().type).toBe('throttled');
+    expect(throttledLogs()).toHaveLength(1);
+  });
+
+  it('caps the requests of all sessions together', () => {
+    ConfigService.set('global_rate_limit', 10);
+
+    const replies = Array.from({ length: 11 }, (_, i) => menu(`s${i}`));
+
+    expect(replies.slice(0, 10).every(reply => reply.type === 'menu')).toBe(true);
+    expect(replies[10]).toMatchObject({ type: 'throttled', reason: 'global', retryAfter: 6 });
+  });
+
+  it('rejects long messages before they reach the AI', () => {
+    ConfigService.set('max_message_length', 50);
+    const requestsBefore = backend.env.requests.length;
+
+    const reply = send('a'.repeat(300));
+
+    expect(reply).toMatchObject({ type: 'throttled', reason: 'too_long', retryAfter: null });
+    expect(reply.message).toContain('50 caracteres');
+    expect(backend.env.requests.length).toBe(requestsBefore);
+    expect(throttledLogs()[0][3]).toHaveLength(200);
+  });
+
+  it('rejects a message the session just sent', () => {
+    expect(send('¿Tienen envío gratis?').type).not.toBe('throttled');
+    expect(send('  ¿tienen  envío gratis? ')).toMatchObject({ type: 'throttled', reason: 'duplicate' });
+    expect(send('¿Tienen envío gratis?', 's2').type).not.toBe('throttled');
+
+    secondsLater(10);
+    expect(send('¿Tienen envío gratis?').type).not.toBe('throttled');
+
+    ConfigService.set('duplicate_window', 0);
+    expect(send('¿Tienen envío gratis?').type).not.toBe('throttled');
+  });
+
+  it('logs the first throttled request of a session each minute and counts the rest', () => {
+    ConfigService.set('session_rate_burst', 1);
+    ConfigService.set('session_rate_limit', 1);
+
+    const replies = Array.from({ length: 10 }, () => menu());
+
+    expect(replies.filter(reply => reply.type === 'throttled')).toHaveLength(9);
+    expect(throttledLogs()).toHaveLength(1);
+    expect(JSON.parse(String(throttledLogs()[0][8]))).toMatchObject({ reason: 'session', repeated: 0 });
+
+    secondsLater(60);
+    menu();
+    menu();
+
+    expect(throttledLogs()).toHaveLength(2);
+    expect(JSON.parse(String(throttledLogs()[1][8]))).toMatchObject({ reason: 'session', repeated: 8 });
+  });
+
+  it('reports throttled requests apart in the analytics', () => {
+    ConfigService.set('session_rate_burst', 1);
+    menu();
+    menu();
+    menu();
+    send('hola', 's2');
+    send('hola', 's2');
+    secondsLater(60);
+    menu();
+    menu();
+
+    const report = backend.handleChatbotRequest({ action: 'getAnalytics', token: tokenFor(backend) }) as {
+      analytics: { interactionsByType: Record<string, number>; throttled: Record<string, unknown> };
+    };
+
+    expect(report.analytics.interactionsByType.throttled).toBeUndefined();
+    expect(report.analytics.throttled).toMatchObject({
+      total: 4,
+      byReason: { session: 3, duplicate: 1 },
+      daily: { '2024-01-15': 4 },
+      topSessions: [{ sessionId: 's1', count: 3 }, { sessionId: 's2', count: 1 }]
+    });
+  });
+});
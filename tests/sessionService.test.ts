@@ -0,0 +1,185 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { MockBackend } from '../mock/backend';
+import { MONDAY_MORNING, SessionServiceApi, services, setupBackend, tokenFor } from './helpers';
+
+describe('SessionService', () => {
+  let backend: MockBackend;
+  let SessionService: SessionServiceApi;
+
+  const minutesLater = (minutes: number) => new Date(Date.parse(MONDAY_MORNING) + minutes * 60 * 1000);
+  const sessionRows = () => backend.env.spreadsheet.getSheetByName('Sessions')!.dump().slice(1);
+  // Rate limit buckets and last messages share the script cache
+  const sessionKeys = () => backend.env.cache.keys().filter(key => key.startsWith('SESSION_'));
+
+  beforeEach(() => {
+    backend = setupBackend();
+    ({ SessionService } = services(backend));
+  });
+
+  it('keeps sessions in the cache and the Sessions sheet, not in Script Properties', () => {
+    backend.handleChatbotRequest({ action: 'sendMessage', userInput: 'hola', sessionId: 's1' });
+
+    expect(sessionKeys()).toEqual(['SESSION_s1']);
+    expect(sessionRows()).toMatchObject([['s1', expect.stringContaining('"lastMessage":"hola"'), minutesLater(0).toISOString(), minutesLater(0).toISOString()]]);
+    expect(backend.env.properties.getKeys().filter(key => key.startsWith('SESSION_'))).toEqual([]);
+  });
+
+  it('updates the same row and keeps its creation time', () => {
+    SessionService.save('s1', { menuPath: '2' });
+    backend.setNow(minutesLater(10));
+    SessionService.save('s1', { menuPath: '' });
+
+    expect(sessionRows()).toEqual([['s1', expect.any(String), minutesLater(0).toISOString(), minutesLater(10).toISOString()]]);
+  });
+
+  it('reads from the sheet once the cache has evicted a session', () => {
+    SessionService.save('s1', { menuPath: '2' });
+    backend.env.cache.remove('SESSION_s1');
+
+    expect(SessionService.get('s1')).toMatchObject({ menuPath: '2' });
+    expect(sessionKeys()).toEqual(['SESSION_s1']);
+  });
+
+  it('stores numeric session IDs as text', () => {
+    SessionService.save('5491112345678', { menuPath: '' });
+
+    expect(sessionRows()[0][0]).toBe('5491112345678');
+    expect(SessionService.get('5491112345678')).toHaveProperty('updatedAt');
+  });
+
+  it('trims sessions that would not fit in one sheet cell', () => {
+    const turn = (index: number) => ({ role: 'user', content: `${index} ${'x'.repeat(990)}` });
+    const history = Array.from({ length: 80 }, (_, index) => turn(index));
+    SessionService.save('s1', { language: 'en', lastResponse: { type: 'order_info', orderId: '1' }, history });
+
+    const [row] = sessionRows();
+    const stored = JSON.parse(String(row[1]));
+
+    expect(String(row[1]).length).toBeLessThanOrEqual(45000);
+    expect(stored).not.toHaveProperty('lastResponse');
+    expect(stored.history.at(-1)).toEqual(turn(79));
+    expect(stored.history.length).toBeLessThan(80);
+    expect(SessionService.get('s1')).toMatchObject({ language: 'en', history: stored.history });
+  });
+
+  it('caches sessions for session_timeout seconds', () => {
+    services(backend).ConfigService.set('session_timeout', 60);
+    SessionService.save('s1', {});
+
+    backend.setNow(minutesLater(2));
+
+    expect(backend.env.cache.get('SESSION_s1')).toBeNull();
+    expect(SessionService.get('s1')).toEqual({});
+  });
+
+  it('deletes expired sessions on cleanup', () => {
+    SessionService.save('old', {});
+    backend.setNow(minutesLater(20));
+    SessionService.save('recent', {});
+    backend.setNow(minutesLater(40));
+
+    expect(SessionService.cleanupExpired()).toEqual({ removed: 1, active: 1 });
+    expect(sessionRows().map(row => row[0])).toEqual(['recent']);
+  });
+
+  it('removes a session from both stores', () => {
+    SessionService.save('s1', {});
+
+    expect(SessionService.remove('s1')).toBe(true);
+    expect(SessionService.remove('s1')).toBe(false);
+    expect(sessionRows()).toEqual([]);
+    expect(backend.env.cache.keys()).toEqual([]);
+  });
+
+  it('checks the cached row index against the sheet after rows shift', () => {
+    ['a', 'b', 'c'].forEach(id => SessionService.save(id, { menuPath: id }));
+    expect(backend.env.cache.get('ROW_SESSION_c')).toBe('4');
+
+    SessionService.remove('a');
+    SessionService.save('c', { menuPath: 'c2' });
+
+    expect(sessionRows().map(row => [row[0], JSON.parse(String(row[1])).menuPath])).toEqual([['b', 'b'], ['c', 'c2']]);
+    expect(backend.env.cache.get('ROW_SESSION_c')).toBe('3');
+  });
+
+  it('writes and deletes rows holding the script lock', () => {
+    const otherExecution = backend.env.locks.getScriptLock();
+    otherExecution.tryLock();
+
+    expect(() => SessionService.save('s1', {})).toThrow(/Lock timeout/);
+    expect(sessionRows()).toEqual([]);
+
+    otherExecution.releaseLock();
+    SessionService.save('s1', {});
+
+    expect(sessionRows()).toHaveLength(1);
+    expect(backend.env.locks.holder).toBeNull();
+  });
+
+  it('migrates SESSION_ Script Properties and deletes them', () => {
+    backend.env.properties.setProperties({
+      SESSION_active: JSON.stringify({ menuPath: '2', updatedAt: minutesLater(-5).toISOString() }),
+      SESSION_stale: JSON.stringify({ menuPath: '', updatedAt: minutesLater(-120).toISOString() }),
+      SESSION_legacy: JSON.stringify({ lastMessage: 'hola' })
+    });
+
+    expect(SessionService.migrateFromProperties()).toEqual({ migrated: 1, discarded: 2 });
+    expect(backend.env.properties.getKeys().filter(key => key.startsWith('SESSION_'))).toEqual([]);
+    expect(SessionService.get('active')).toEqual({ menuPath: '2', updatedAt: minutesLater(-5).toISOString() });
+  });
+
+  it('installs the hourly cleanup trigger once', () => {
+    const cleanupTriggers = () => backend.env.triggers.filter(trigger => trigger.getHandlerFunction() === 'cleanupExpiredSessions');
+    expect(cleanupTriggers().map(trigger => trigger.everyMinutes)).toEqual([60]);
+
+    expect(SessionService.installCleanupTrigger()).toBe(false);
+    expect(cleanupTriggers()).toHaveLength(1);
+  });
+});
+
+describe('session admin actions', () => {
+  let backend: MockBackend;
+
+  const admin = (params: Record<string, unknown>) => backend.handleChatbotRequest({ token: tokenFor(backend), ...params });
+
+  beforeEach(() => {
+    backend = setupBackend();
+    backend.handleChatbotRequest({ action: 'sendMessage', userInput: 'hola', sessionId: 's1' });
+    backend.handleChatbotRequest({ action: 'processSelection', userInput: '2', sessionId: 's2' });
+  });
+
+  it('lists active sessions', () => {
+    expect(admin({ action: 'getSessions' })).toMatchObject({
+      success: true,
+      type: 'sessions',
+      active: 2,
+      timeout: 1800,
+      sessions: expect.arrayContaining([
+        expect.objectContaining({ sessionId: 's1', messageCount: 2, lastMessage: 'hola' }),
+        expect.objectContaining({ sessionId: 's2', menuPath: '2' })
+      ])
+    });
+  });
+
+  it('returns the full data of one session', () => {
+    expect(admin({ action: 'getSession', sessionId: 's1' })).toMatchObject({
+      type: 'session',
+      session: { sessionId: 's1', data: { lastMessage: 'hola', history: [{ role: 'user', content: 'hola' }, { role: 'assistant' }] } }
+    });
+  });
+
+  it('ends a session', () => {
+    const report = admin({ action: 'endSession', sessionId: 's1' });
+
+    expect(report).toMatchObject({ type: 'sessions', active: 1, sessions: [{ sessionId: 's2' }] });
+    expect(admin({ action: 'getSession', sessionId: 's1' })).toMatchObject({ success: false, code: 'not_found' });
+  });
+
+  it('reports unknown sessions', () => {
+    expect(admin({ action: 'endSession', sessionId: 'nope' })).toMatchObject({ success: false, code: 'not_found' });
+  });
+
+  it('requires the admin key', () => {
+    expect(backend.handleChatbotRequest({ action: 'getSessions' })).toMatchObject({ success: false, code: 'unauthorized' });
+  });
+});
@@ -1,9 +1,10 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
+import { mockBackendPlugin } from './mock/vitePlugin';
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), mockBackendPlugin()],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.ts'],
+    environment: 'node',
+    // Apps Script evaluates dates in the project timezone; pin the host to the store's
+    env: { TZ: 'America/Argentina/Buenos_Aires' },
+  },
+});